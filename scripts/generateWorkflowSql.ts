@@ -0,0 +1,45 @@
+/**
+ * Generates a Supabase migration for the order state transition trigger
+ * from the declarative workflow in src/lib/orderWorkflow.ts.
+ *
+ * Usage: npm run workflow:sql            -> writes a new migration file
+ *        npm run workflow:sql -- --stdout -> prints the SQL only
+ *        npm run workflow:check          -> fails if the latest generated migration is out of date
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ORDER_WORKFLOW } from '../src/lib/orderWorkflow';
+import { generateTransitionTriggerSql, generatedWorkflowSqlHeader } from '../src/lib/orderWorkflowSql';
+
+const MIGRATIONS_DIR = join('supabase', 'migrations');
+
+const sql = generateTransitionTriggerSql(ORDER_WORKFLOW);
+
+if (process.argv.includes('--stdout')) {
+  process.stdout.write(sql);
+} else if (process.argv.includes('--check')) {
+  // Migrations sort by their timestamp prefix; the last generated one is what the database runs
+  const latest = readdirSync(MIGRATIONS_DIR)
+    .filter((name) => name.endsWith('.sql'))
+    .sort()
+    .reverse()
+    .find((name) => readFileSync(join(MIGRATIONS_DIR, name), 'utf8').startsWith(generatedWorkflowSqlHeader(ORDER_WORKFLOW.name)));
+
+  if (!latest) {
+    console.error(`No generated ${ORDER_WORKFLOW.name} workflow migration found - run npm run workflow:sql`);
+    process.exit(1);
+  }
+  if (readFileSync(join(MIGRATIONS_DIR, latest), 'utf8') !== sql) {
+    console.error(`${latest} is out of date with src/lib/orderWorkflow.ts - run npm run workflow:sql`);
+    process.exit(1);
+  }
+  console.log(`${latest} matches src/lib/orderWorkflow.ts`);
+} else {
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  const fileName = `${timestamp}_${randomUUID()}.sql`;
+  const filePath = join(MIGRATIONS_DIR, fileName);
+  writeFileSync(filePath, sql);
+  console.log(`Wrote ${filePath}`);
+}
@@ -18,6 +18,7 @@ import StartOrder from "./pages/Buyer/StartOrder";
 import OrderTracking from "./pages/Buyer/OrderTracking";
 import BuyerProfile from "./pages/Buyer/BuyerProfile";
 import OrderDetails from "./pages/Buyer/OrderDetails";
+import Quotations from "./pages/Buyer/Quotations";
 
 // Manufacturer
 import ManufacturerDashboard from "./pages/Manufacturer/ManufacturerDashboard";
@@ -26,6 +27,9 @@ import UploadQCProof from "./pages/Manufacturer/UploadQCProof";
 import ManufacturerProfile from "./pages/Manufacturer/ManufacturerProfile";
 import ManufacturerOrderDetails from "./pages/Manufacturer/OrderDetails";
 import ManufacturerApply from "./pages/Manufacturer/Apply";
+import ManufacturerPayouts from "./pages/Manufacturer/Payouts";
+import ManufacturerRfqs from "./pages/Manufacturer/Rfqs";
+import ManufacturerRemakes from "./pages/Manufacturer/Remakes";
 
 // Admin
 import AdminDashboard from "./pages/Admin/AdminDashboard";
@@ -37,6 +41,19 @@ import Manufacturers from "./pages/Admin/Manufacturers";
 import CommandCenter from "./pages/Admin/CommandCenter";
 import ManufacturerOnboarding from "./pages/Admin/ManufacturerOnboarding";
 import SystemLogs from "./pages/Admin/SystemLogs";
+import Ledger from "./pages/Admin/Ledger";
+import AdminPayouts from "./pages/Admin/Payouts";
+import Pricing from "./pages/Admin/Pricing";
+import AdminRfqs from "./pages/Admin/Rfqs";
+import AdminReturns from "./pages/Admin/Returns";
+import DefectCatalogue from "./pages/Admin/DefectCatalogue";
+import QCReviewQueue from "./pages/Admin/QCReviewQueue";
+
+// Payments
+import PaymentSimulator from "./pages/PaymentSimulator";
+
+// Delivery
+import DeliveryPod from "./pages/DeliveryPod";
 
 import NotFound from "./pages/NotFound";
 import Unauthorized from "./pages/Unauthorized";
@@ -87,6 +104,11 @@ const App = () => (
               <OrderDetails />
             </ProtectedRoute>
           } />
+          <Route path="/buyer/quotations" element={
+            <ProtectedRoute allowedRoles={['buyer']}>
+              <Quotations />
+            </ProtectedRoute>
+          } />
 
           {/* Manufacturer Routes */}
           <Route path="/manufacturer/dashboard" element={
@@ -109,6 +131,21 @@ const App = () => (
               <ManufacturerProfile />
             </ProtectedRoute>
           } />
+          <Route path="/manufacturer/payouts" element={
+            <ProtectedRoute allowedRoles={['manufacturer']}>
+              <ManufacturerPayouts />
+            </ProtectedRoute>
+          } />
+          <Route path="/manufacturer/rfqs" element={
+            <ProtectedRoute allowedRoles={['manufacturer']}>
+              <ManufacturerRfqs />
+            </ProtectedRoute>
+          } />
+          <Route path="/manufacturer/remakes" element={
+            <ProtectedRoute allowedRoles={['manufacturer']}>
+              <ManufacturerRemakes />
+            </ProtectedRoute>
+          } />
           <Route path="/manufacturer/order/:id" element={
             <ProtectedRoute allowedRoles={['manufacturer']}>
               <ManufacturerOrderDetails />
@@ -161,6 +198,51 @@ const App = () => (
               <SystemLogs />
             </ProtectedRoute>
           } />
+          <Route path="/admin/ledger" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <Ledger />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/payouts" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <AdminPayouts />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/qc-queue" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <QCReviewQueue />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/defect-catalogue" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <DefectCatalogue />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/pricing" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <Pricing />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/rfqs" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <AdminRfqs />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/returns" element={
+            <ProtectedRoute allowedRoles={['admin']}>
+              <AdminReturns />
+            </ProtectedRoute>
+          } />
+
+          {/* Payment Routes */}
+          <Route path="/payments/simulator/:providerOrderId" element={
+            <ProtectedRoute allowedRoles={['buyer', 'admin']}>
+              <PaymentSimulator />
+            </ProtectedRoute>
+          } />
+
+          {/* Courier proof of delivery (public, token-gated) */}
+          <Route path="/pod/:token" element={<DeliveryPod />} />
 
           <Route path="/unauthorized" element={<Unauthorized />} />
           <Route path="*" element={<NotFound />} />
@@ -0,0 +1,372 @@
+/**
+ * Admin Courier Shipment
+ *
+ * Books PACKED orders with the configured courier and shows the resulting
+ * shipments: AWB, label, latest status and scan history. IN_TRANSIT and
+ * DELIVERED follow from tracking scans; admins can poll the courier with
+ * Sync Tracking, or push the next scan when using the mock courier.
+ *
+ * Split orders (see DeliveryPlanDialog) list every planned shipment; each is
+ * booked with the courier, or entered and moved manually when booked outside
+ * Leorit.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { FileDown, PackageCheck, RefreshCw, ScanLine, Split } from "lucide-react";
+import { toast } from "sonner";
+import ShipmentScanHistory from "@/components/ShipmentScanHistory";
+import DeliveryPlanDialog from "@/components/DeliveryPlanDialog";
+import { getDeliveryStateColor, getDeliveryStateLabel } from "@/lib/deliveryStateMachine";
+import { formatSizeBreakdown, updateShipmentDeliveryStatus } from "@/lib/deliveryPlan";
+import {
+  Shipment,
+  ShipmentTrackingEvent,
+  createCourierShipment,
+  downloadShipmentLabel,
+  fetchOrderShipments,
+  fetchShipmentTrackingEvents,
+  getTrackingStatusLabel,
+  simulateCourierScan,
+  syncShipmentTracking,
+} from "@/lib/courier";
+
+interface AdminCourierShipmentProps {
+  order: {
+    id: string;
+    delivery_status?: string | null;
+    quantity?: number | null;
+    corrected_csv_url?: string | null;
+  };
+  onUpdate: () => void;
+  onShipmentsChange?: (shipments: Shipment[]) => void;
+}
+
+const isBooked = (shipment: Shipment) => !!shipment.provider || !!shipment.awb_code;
+
+interface ShipmentCardProps {
+  orderId: string;
+  shipment: Shipment;
+  events: ShipmentTrackingEvent[];
+  onChanged: () => Promise<void>;
+}
+
+const ShipmentCard = ({ orderId, shipment, events, onChanged }: ShipmentCardProps) => {
+  const [weightKg, setWeightKg] = useState("");
+  const [courierName, setCourierName] = useState("");
+  const [trackingId, setTrackingId] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, success: string, failure: string) => {
+    setWorking(true);
+    const result = await action();
+    setWorking(false);
+
+    if (!result.success) {
+      toast.error(result.error || failure);
+      return;
+    }
+
+    toast.success(success);
+    await onChanged();
+  };
+
+  const handleBook = () =>
+    run(
+      () => createCourierShipment(orderId, weightKg ? parseFloat(weightKg) : undefined, shipment.id),
+      `${shipment.label || 'Shipment'} booked with the courier`,
+      "Failed to book courier"
+    );
+
+  const handleManualCourier = () =>
+    run(
+      () => updateShipmentDeliveryStatus(shipment.id, 'PICKUP_SCHEDULED', { courierName, trackingId }),
+      "Courier assigned, pickup scheduled",
+      "Failed to assign courier"
+    );
+
+  const handleLabel = async () => {
+    const result = await downloadShipmentLabel(shipment);
+    if (!result.success) {
+      toast.error(result.error || "Failed to fetch label");
+    }
+  };
+
+  const address = shipment.delivery_address;
+  const sizes = shipment.allocation?.sizes || {};
+  const isFinal = ['delivered', 'rto', 'cancelled'].includes(shipment.status || '');
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium">
+            {shipment.label || 'Shipment'}
+            {shipment.quantity && <span className="text-muted-foreground font-normal"> · {shipment.quantity} pcs</span>}
+          </p>
+          {address && (
+            <p className="text-xs text-muted-foreground">
+              {address.name}, {address.city} {address.pincode}
+            </p>
+          )}
+          {Object.keys(sizes).length > 0 && (
+            <p className="text-xs text-muted-foreground">{formatSizeBreakdown(sizes)}</p>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <Badge className={getDeliveryStateColor(shipment.delivery_status)}>
+            {getDeliveryStateLabel(shipment.delivery_status)}
+          </Badge>
+          {shipment.provider && shipment.status && (
+            <Badge variant={['exception', 'rto'].includes(shipment.status) ? 'destructive' : 'outline'}>
+              {getTrackingStatusLabel(shipment.status)}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {isBooked(shipment) && (
+        <div>
+          <p className="text-sm">{shipment.courier_name}</p>
+          <p className="text-xs text-muted-foreground font-mono">AWB {shipment.awb_code}</p>
+        </div>
+      )}
+
+      {shipment.pickup_scheduled_for && shipment.status === 'pickup_scheduled' && (
+        <p className="text-xs text-muted-foreground">
+          Pickup scheduled for {new Date(shipment.pickup_scheduled_for).toLocaleString()}
+        </p>
+      )}
+
+      {/* Planned shipment: book with the courier, or enter one booked outside Leorit */}
+      {!isBooked(shipment) && shipment.delivery_status === 'PACKED' && (
+        <div className="space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="space-y-2 flex-1">
+              <Label>Parcel weight (kg)</Label>
+              <Input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={weightKg}
+                onChange={(e) => setWeightKg(e.target.value)}
+                placeholder="Estimated from pieces if empty"
+              />
+            </div>
+            <Button onClick={handleBook} disabled={working}>
+              <PackageCheck className="h-4 w-4 mr-2" />
+              {working ? "Booking..." : "Book Courier"}
+            </Button>
+          </div>
+          <div className="flex items-end gap-3">
+            <Input value={courierName} onChange={(e) => setCourierName(e.target.value)} placeholder="Courier name" />
+            <Input value={trackingId} onChange={(e) => setTrackingId(e.target.value)} placeholder="Tracking ID" />
+            <Button
+              variant="outline"
+              onClick={handleManualCourier}
+              disabled={working || !courierName.trim() || !trackingId.trim()}
+            >
+              Assign
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!isBooked(shipment) && shipment.delivery_status === 'NOT_STARTED' && (
+        <p className="text-xs text-muted-foreground">Waiting for the manufacturer to pack the order.</p>
+      )}
+
+      {shipment.provider ? (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={handleLabel}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Label
+          </Button>
+          {!isFinal && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => run(() => syncShipmentTracking(shipment.id), "Tracking synced", "Failed to sync tracking")}
+              disabled={working}
+            >
+              <RefreshCw className={`h-4 w-4 mr-1 ${working ? 'animate-spin' : ''}`} />
+              Sync Tracking
+            </Button>
+          )}
+          {!isFinal && shipment.provider === 'mock' && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => run(
+                () => simulateCourierScan(shipment.id),
+                "Scan delivered to the courier webhook",
+                "Failed to simulate scan"
+              )}
+              disabled={working}
+            >
+              <ScanLine className="h-4 w-4 mr-1" />
+              Simulate Next Scan
+            </Button>
+          )}
+        </div>
+      ) : isBooked(shipment) && (
+        <div className="flex flex-wrap gap-2">
+          {/* Courier booked outside Leorit: no scans, admin moves it */}
+          {shipment.delivery_status === 'PICKUP_SCHEDULED' && (
+            <Button
+              size="sm"
+              onClick={() => run(() => updateShipmentDeliveryStatus(shipment.id, 'IN_TRANSIT'), "Shipment in transit", "Failed to update shipment")}
+              disabled={working}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              Mark In Transit
+            </Button>
+          )}
+          {shipment.delivery_status === 'IN_TRANSIT' && (
+            <Button
+              size="sm"
+              onClick={() => run(() => updateShipmentDeliveryStatus(shipment.id, 'DELIVERED'), "Shipment delivered", "Failed to update shipment")}
+              disabled={working}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              Mark Delivered
+            </Button>
+          )}
+        </div>
+      )}
+
+      {shipment.provider && (
+        <div className="pt-3 border-t">
+          <p className="text-xs font-medium text-muted-foreground mb-2">Scan History</p>
+          <ShipmentScanHistory events={events} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AdminCourierShipment = ({ order, onUpdate, onShipmentsChange }: AdminCourierShipmentProps) => {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [events, setEvents] = useState<ShipmentTrackingEvent[]>([]);
+  const [weightKg, setWeightKg] = useState("");
+  const [working, setWorking] = useState(false);
+  const [planOpen, setPlanOpen] = useState(false);
+
+  useEffect(() => {
+    loadShipments();
+  }, [order.id, order.delivery_status]);
+
+  const loadShipments = async () => {
+    const orderShipments = await fetchOrderShipments(order.id);
+    setShipments(orderShipments);
+    onShipmentsChange?.(orderShipments);
+    setEvents(await fetchShipmentTrackingEvents(orderShipments.map((shipment) => shipment.id)));
+  };
+
+  const handleChanged = async () => {
+    await loadShipments();
+    onUpdate();
+  };
+
+  const handleBook = async () => {
+    setWorking(true);
+    const result = await createCourierShipment(order.id, weightKg ? parseFloat(weightKg) : undefined);
+    setWorking(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to book courier");
+      return;
+    }
+
+    toast.success(`Booked with ${result.data.courierName} - AWB ${result.data.awbCode}`);
+    onUpdate();
+  };
+
+  const deliveryStatus = order.delivery_status || 'NOT_STARTED';
+  const canPlan = (order.quantity || 0) > 1
+    && ['NOT_STARTED', 'PACKED'].includes(deliveryStatus)
+    && !shipments.some(isBooked);
+
+  const planButton = canPlan && (
+    <Button size="sm" variant="outline" onClick={() => setPlanOpen(true)}>
+      <Split className="h-4 w-4 mr-1" />
+      {shipments.length > 0 ? "Edit Split Delivery" : "Split Delivery"}
+    </Button>
+  );
+
+  const planDialog = (
+    <DeliveryPlanDialog
+      order={{ id: order.id, quantity: order.quantity || 0, corrected_csv_url: order.corrected_csv_url }}
+      shipments={shipments}
+      open={planOpen}
+      onOpenChange={setPlanOpen}
+      onSaved={handleChanged}
+    />
+  );
+
+  if (shipments.length === 0) {
+    return (
+      <>
+        {deliveryStatus === 'PACKED' && (
+          <div className="space-y-3 p-4 bg-blue-50 dark:bg-blue-950/30 rounded-lg">
+            <p className="text-sm font-medium text-blue-700 dark:text-blue-400">
+              Book with courier - AWB, pickup and label are created automatically:
+            </p>
+            <div className="flex items-end gap-3">
+              <div className="space-y-2 flex-1">
+                <Label>Parcel weight (kg)</Label>
+                <Input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={weightKg}
+                  onChange={(e) => setWeightKg(e.target.value)}
+                  placeholder="Estimated from product if empty"
+                />
+              </div>
+              <Button onClick={handleBook} disabled={working}>
+                <PackageCheck className="h-4 w-4 mr-2" />
+                {working ? "Booking..." : "Book Courier"}
+              </Button>
+            </div>
+          </div>
+        )}
+        {planButton && (
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">Shipping to several addresses?</p>
+            {planButton}
+          </div>
+        )}
+        {planDialog}
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {(shipments.length > 1 || planButton) && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">
+            {shipments.filter((s) => s.delivery_status === 'DELIVERED').length} of {shipments.length} shipment(s) delivered
+          </p>
+          {planButton}
+        </div>
+      )}
+      {shipments.map((shipment) => (
+        <ShipmentCard
+          key={shipment.id}
+          orderId={order.id}
+          shipment={shipment}
+          events={events.filter((event) => event.shipment_id === shipment.id)}
+          onChanged={handleChanged}
+        />
+      ))}
+      {planDialog}
+    </div>
+  );
+};
+
+export default AdminCourierShipment;
@@ -35,6 +35,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { logOrderEvent } from "@/lib/orderEventLogger";
 import { logStateChange } from "@/lib/stateChangeLogger";
+import { transitionOrder } from "@/lib/orderWorkflowEngine";
 
 interface AdminOrderApprovalProps {
   order: any;
@@ -89,50 +90,25 @@ const AdminOrderApproval = ({ order, onUpdate }: AdminOrderApprovalProps) => {
       const { data: { user } } = await supabase.auth.getUser();
       const now = new Date().toISOString();
 
-      // CRITICAL FIX: Use .maybeSingle() to handle 0 or 1 row without throwing
-      const { data, error } = await supabase
-        .from('orders')
-        .update({
-          admin_approved_at: now,
-          admin_approved_by: user?.id,
-          admin_notes: null, // Clear any previous change request notes
-          order_state: 'ADMIN_APPROVED', // STRICT: Only set to ADMIN_APPROVED
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', order.id)
-        .select('id, order_state')
-        .maybeSingle();
-
-      if (error) {
-        console.error('[AdminOrderApproval] Update error:', error);
-        throw error;
-      }
-
-      // Check if no row was updated (order not found or RLS blocked)
-      if (!data) {
-        console.error('[AdminOrderApproval] No row updated - order not found or access denied');
-        throw new Error('Order not found or you do not have permission to approve it');
-      }
-
-      // Verify the state actually changed
-      if (data.order_state !== 'ADMIN_APPROVED') {
-        console.error('[AdminOrderApproval] State did not update to ADMIN_APPROVED:', data);
-        throw new Error('State update failed - order may have already been modified. Please refresh and try again.');
-      }
-
-      console.log('[AdminOrderApproval] Successfully updated to ADMIN_APPROVED:', data);
-
-      // Log state change for debugging (use valid actor_role)
-      await logStateChange(order.id, 'SUBMITTED', 'ADMIN_APPROVED', user?.id || 'admin', 'admin');
-
-      await logOrderEvent(order.id, 'admin_approved', {
+      // SUBMITTED → ADMIN_APPROVED (logs admin_approved; fails if the order moved on meanwhile)
+      const result = await transitionOrder(order, 'ADMIN_APPROVED', 'admin', {
+        admin_approved_at: now,
+        admin_approved_by: user?.id,
+        admin_notes: null, // Clear any previous change request notes
+      }, {
         approved_by: user?.id,
         previous_state: 'SUBMITTED',
         new_state: 'ADMIN_APPROVED',
         timestamp: now,
       });
 
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to approve order');
+      }
+
+      // Log state change for debugging (use valid actor_role)
+      await logStateChange(order.id, 'SUBMITTED', 'ADMIN_APPROVED', user?.id || 'admin', 'admin');
+
       toast.success("Order approved! You can now assign a manufacturer.");
       onUpdate();
     } catch (error: any) {
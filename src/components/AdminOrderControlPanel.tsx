@@ -5,7 +5,9 @@
  * - Spec locking (required before production)
  * - Admin QC decision (required before delivery/payment)
  * - Assigning manufacturer to order
- * - Assigning courier + tracking ID
+ * - Booking a courier (or entering courier + tracking ID manually), per shipment
+ *   when the order is split across addresses
+ * - Proof of delivery with the buyer's OTP (required before marking delivered manually)
  * - Manual state transitions (resolve stuck orders with reason)
  * 
  * ADD ONLY - no analytics, no charts
@@ -41,11 +43,16 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { logOrderEvent } from "@/lib/orderEventLogger";
 import { OrderState } from "@/lib/orderStateMachineV2";
-import { DeliveryState } from "@/lib/deliveryStateMachine";
+import { transitionOrder } from "@/lib/orderWorkflowEngine";
+import { DeliveryState, canAdminMarkDelivered } from "@/lib/deliveryStateMachine";
 import OrderDelayFlags from "@/components/OrderDelayFlags";
+import { SlaPolicy, fetchSlaPolicies } from "@/lib/slaEngine";
 import AdminOrderApproval from "@/components/AdminOrderApproval";
 import AdminSpecLocking from "@/components/AdminSpecLocking";
 import AdminQCDecision from "@/components/AdminQCDecision";
+import AdminOrderHoldCancel from "@/components/AdminOrderHoldCancel";
+import AdminCourierShipment from "@/components/AdminCourierShipment";
+import AdminProofOfDelivery from "@/components/AdminProofOfDelivery";
 
 interface AdminOrderControlPanelProps {
   order: any;
@@ -90,6 +97,8 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
   const [courierName, setCourierName] = useState(order.courier_name || "");
   const [trackingId, setTrackingId] = useState(order.tracking_id || "");
   const [assigningCourier, setAssigningCourier] = useState(false);
+  // Orders with shipments are moved per shipment (AdminCourierShipment)
+  const [hasShipments, setHasShipments] = useState(false);
   
   // Manual state transition
   const [targetOrderState, setTargetOrderState] = useState<string>("");
@@ -97,8 +106,12 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
   const [transitionReason, setTransitionReason] = useState("");
   const [isTransitioning, setIsTransitioning] = useState(false);
 
+  // SLA policies for delay thresholds
+  const [slaPolicies, setSlaPolicies] = useState<SlaPolicy[]>([]);
+
   useEffect(() => {
     fetchManufacturers();
+    fetchSlaPolicies().then(setSlaPolicies);
   }, []);
 
   const fetchManufacturers = async () => {
@@ -132,25 +145,19 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
     try {
       const now = new Date().toISOString();
       
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          manufacturer_id: selectedManufacturer,
-          assigned_at: now,
-          order_state: 'MANUFACTURER_ASSIGNED',
-          detailed_status: 'submitted_to_manufacturer',
-          state_updated_at: now,
-        })
-        .eq('id', order.id);
-
-      if (error) throw error;
-
-      await logOrderEvent(order.id, 'manufacturer_assigned', {
+      // ADMIN_APPROVED → MANUFACTURER_ASSIGNED (logs manufacturer_assigned)
+      const result = await transitionOrder(order, 'MANUFACTURER_ASSIGNED', 'admin', {
+        manufacturer_id: selectedManufacturer,
+        assigned_at: now,
+        detailed_status: 'submitted_to_manufacturer',
+      }, {
         manufacturer_id: selectedManufacturer,
         assigned_by: 'admin',
         timestamp: now,
       });
 
+      if (!result.success) throw new Error(result.error);
+
       toast.success("Manufacturer assigned successfully");
       onUpdate();
     } catch (error: any) {
@@ -232,20 +239,19 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
       const estimatedDelivery = new Date(now);
       estimatedDelivery.setDate(estimatedDelivery.getDate() + 3);
       
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          delivery_status: 'IN_TRANSIT',
-          in_transit_at: now,
-          dispatched_at: dispatchedAt,
-          estimated_delivery_date: estimatedDelivery.toISOString(),
-          order_state: 'DISPATCHED',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', order.id);
+      // READY_FOR_DISPATCH → DISPATCHED (logs dispatched)
+      const result = await transitionOrder(order, 'DISPATCHED', 'admin', {
+        delivery_status: 'IN_TRANSIT',
+        in_transit_at: now,
+        dispatched_at: dispatchedAt,
+        estimated_delivery_date: estimatedDelivery.toISOString(),
+      }, {
+        dispatched_at: dispatchedAt,
+        estimated_delivery: estimatedDelivery.toISOString(),
+        marked_by: 'admin',
+      });
 
-      if (error) throw error;
+      if (!result.success) throw new Error(result.error);
 
       await logOrderEvent(order.id, 'in_transit', {
         marked_by: 'admin',
@@ -254,12 +260,6 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
         courier_name: order.courier_name,
       });
 
-      await logOrderEvent(order.id, 'dispatched', {
-        dispatched_at: dispatchedAt,
-        estimated_delivery: estimatedDelivery.toISOString(),
-        marked_by: 'admin',
-      });
-
       toast.success("Order marked as in transit");
       onUpdate();
     } catch (error: any) {
@@ -271,8 +271,9 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
   };
 
   const handleMarkDelivered = async () => {
-    if (order.delivery_status !== 'IN_TRANSIT') {
-      toast.error("Order must be in transit before marking delivered");
+    const deliveredCheck = canAdminMarkDelivered(order);
+    if (!deliveredCheck.allowed) {
+      toast.error(deliveredCheck.reason || "Cannot mark delivered");
       return;
     }
 
@@ -280,25 +281,18 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
     try {
       const now = new Date().toISOString();
       
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          delivery_status: 'DELIVERED',
-          delivered_at: now,
-          order_state: 'DELIVERED',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', order.id);
-
-      if (error) throw error;
-
-      await logOrderEvent(order.id, 'order_delivered', {
+      // DISPATCHED → DELIVERED (logs order_delivered)
+      const result = await transitionOrder(order, 'DELIVERED', 'admin', {
+        delivery_status: 'DELIVERED',
+        delivered_at: now,
+      }, {
         marked_by: 'admin',
         timestamp: now,
         tracking_id: order.tracking_id,
       });
 
+      if (!result.success) throw new Error(result.error);
+
       toast.success("Order marked as delivered");
       onUpdate();
     } catch (error: any) {
@@ -328,9 +322,6 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
       };
 
       if (targetOrderState) {
-        updates.order_state = targetOrderState;
-        updates.state_updated_at = now;
-        
         // Set corresponding timestamps based on state
         if (targetOrderState === 'DISPATCHED') {
           updates.dispatched_at = now;
@@ -354,15 +345,7 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
         }
       }
 
-      const { error } = await supabase
-        .from('orders')
-        .update(updates)
-        .eq('id', order.id);
-
-      if (error) throw error;
-
-      // Log the manual transition
-      await logOrderEvent(order.id, 'dispatched', {
+      const transitionMetadata = {
         manual_transition: true,
         from_order_state: order.order_state,
         to_order_state: targetOrderState || order.order_state,
@@ -371,7 +354,24 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
         reason: transitionReason.trim(),
         admin_override: true,
         timestamp: now,
-      });
+      };
+
+      if (targetOrderState) {
+        // State changes still follow the workflow (the transition's events carry the override)
+        const { updated_at: _updatedAt, ...stateUpdates } = updates;
+        const result = await transitionOrder(order, targetOrderState as OrderState, 'admin', stateUpdates, transitionMetadata);
+        if (!result.success) throw new Error(result.error);
+      } else {
+        const { error } = await supabase
+          .from('orders')
+          .update(updates)
+          .eq('id', order.id);
+
+        if (error) throw error;
+
+        // Log the manual delivery transition
+        await logOrderEvent(order.id, 'dispatched', transitionMetadata);
+      }
 
       toast.success("Order state updated successfully");
       setTargetOrderState("");
@@ -391,6 +391,9 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
       {/* Order Approval Section - New approval workflow */}
       <AdminOrderApproval order={order} onUpdate={onUpdate} />
 
+      {/* Hold / Cancel - Exception states */}
+      <AdminOrderHoldCancel order={order} onUpdate={onUpdate} />
+
       {/* Spec Locking - Required before production */}
       <AdminSpecLocking order={order} onUpdate={onUpdate} />
 
@@ -400,7 +403,7 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
       {/* Delay Metrics - Admin visibility into manufacturer discipline */}
       <Card className="border-muted">
         <CardContent className="pt-4">
-          <OrderDelayFlags order={order} />
+          <OrderDelayFlags order={order} policies={slaPolicies} />
         </CardContent>
       </Card>
 
@@ -503,11 +506,21 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
             )}
           </div>
 
-          {/* Courier Assignment - Only when PACKED */}
-          {order.delivery_status === 'PACKED' && (
-            <div className="space-y-4 p-4 bg-blue-50 dark:bg-blue-950/30 rounded-lg">
-              <p className="text-sm font-medium text-blue-700 dark:text-blue-400">
-                Order is packed. Assign courier and schedule pickup:
+          {/* Courier Booking + Shipment Tracking */}
+          <AdminCourierShipment
+            order={order}
+            onUpdate={onUpdate}
+            onShipmentsChange={(shipments) => setHasShipments(shipments.length > 0)}
+          />
+
+          {/* Proof of Delivery - buyer's OTP at hand-over */}
+          <AdminProofOfDelivery order={order} onUpdate={onUpdate} />
+
+          {/* Manual Courier Assignment - Only when PACKED */}
+          {order.delivery_status === 'PACKED' && !hasShipments && (
+            <div className="space-y-4 p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm font-medium text-muted-foreground">
+                Or enter a courier booked outside Leorit:
               </p>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -550,7 +563,7 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
           )}
 
           {/* Mark In Transit - Only when PICKUP_SCHEDULED */}
-          {order.delivery_status === 'PICKUP_SCHEDULED' && (
+          {order.delivery_status === 'PICKUP_SCHEDULED' && !hasShipments && (
             <Button 
               onClick={handleMarkInTransit} 
               disabled={assigningCourier}
@@ -561,13 +574,15 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
           )}
 
           {/* Mark Delivered - Only when IN_TRANSIT */}
-          {order.delivery_status === 'IN_TRANSIT' && (
+          {order.delivery_status === 'IN_TRANSIT' && !hasShipments && (
             <Button 
               onClick={handleMarkDelivered} 
-              disabled={assigningCourier}
+              disabled={assigningCourier || !order.pod_confirmed_at}
               className="w-full bg-green-600 hover:bg-green-700"
             >
-              {assigningCourier ? "Processing..." : "Mark as Delivered"}
+              {assigningCourier
+                ? "Processing..."
+                : order.pod_confirmed_at ? "Mark as Delivered" : "Mark as Delivered (confirm POD first)"}
             </Button>
           )}
 
@@ -576,9 +591,12 @@ const AdminOrderControlPanel = ({ order, onUpdate }: AdminOrderControlPanelProps
             <strong>Delivery Flow:</strong>
             <div className="mt-1 space-y-1">
               <p>1. Manufacturer marks as PACKED (with video)</p>
-              <p>2. Admin assigns courier + tracking ID → PICKUP_SCHEDULED</p>
-              <p>3. Admin marks as IN_TRANSIT when picked up</p>
-              <p>4. Admin marks as DELIVERED on confirmation</p>
+              <p>2. Admin books the courier (or enters courier + tracking ID) → PICKUP_SCHEDULED</p>
+              <p>3. Courier pickup scan moves it to IN_TRANSIT automatically</p>
+              <p>4. Courier delivery scan marks it DELIVERED automatically</p>
+              <p>5. Courier or admin enters the buyer's delivery OTP (proof of delivery) - needed to release payment</p>
+              <p>Manual buttons remain for shipments without courier tracking.</p>
+              <p>Split orders move per shipment; the order is DELIVERED when every shipment is.</p>
             </div>
           </div>
         </CardContent>
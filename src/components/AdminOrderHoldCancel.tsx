@@ -0,0 +1,202 @@
+/**
+ * Admin Order Hold / Cancel Panel
+ *
+ * - Put On Hold: any active state → ON_HOLD (reason required, previous state remembered)
+ * - Resume: ON_HOLD → previous state
+ * - Cancel: any non-terminal state → CANCELLED (reason required, refund initiated if paid)
+ */
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Ban, PauseCircle, PlayCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { STATE_LABELS, OrderState, isTerminalState } from "@/lib/orderStateMachineV2";
+import { HoldCancelOrder, HoldCancelResult, cancelOrder, putOrderOnHold, resumeOrder, requiresRefundOnCancel } from "@/lib/orderHoldCancel";
+
+interface AdminOrderHoldCancelProps {
+  order: HoldCancelOrder;
+  onUpdate: () => void;
+}
+
+const AdminOrderHoldCancel = ({ order, onUpdate }: AdminOrderHoldCancelProps) => {
+  const [reason, setReason] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const orderState = order.order_state as OrderState | null;
+  const isOnHold = orderState === 'ON_HOLD';
+  const isCancelled = orderState === 'CANCELLED';
+  const isClosed = !orderState || (isTerminalState(orderState) && !isOnHold);
+  const refundOnCancel = requiresRefundOnCancel(order);
+  const hasReason = reason.trim().length >= 10;
+
+  const runAction = async (
+    action: (userId: string) => Promise<HoldCancelResult>,
+    successMessage: string
+  ) => {
+    setIsProcessing(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setIsProcessing(false);
+      toast.error("Not authenticated");
+      return;
+    }
+
+    const result = await action(user.id);
+    setIsProcessing(false);
+
+    if (!result.success) {
+      console.error('[AdminOrderHoldCancel] Error:', result.error);
+      toast.error(result.error || "Action failed");
+      return;
+    }
+
+    if (result.refundError) {
+      toast.error(`${successMessage} ${result.refundError}`);
+    } else {
+      toast.success(result.refundInitiated ? `${successMessage} Refund initiated.` : successMessage);
+    }
+    setReason("");
+    onUpdate();
+  };
+
+  if (isCancelled) {
+    return (
+      <Card className="border-red-200 bg-red-50/50 dark:bg-red-950/20">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg text-red-700 dark:text-red-400">
+            <Ban className="h-5 w-5" />
+            Order Cancelled
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm">
+          {order.cancelled_at && (
+            <p className="text-muted-foreground">
+              Cancelled on {new Date(order.cancelled_at).toLocaleString()}
+            </p>
+          )}
+          {order.cancellation_reason && <p>Reason: {order.cancellation_reason}</p>}
+          {order.refunded_at && (
+            <Badge variant="secondary" className="bg-red-100 text-red-700">Payment Refunded</Badge>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isClosed) {
+    return null;
+  }
+
+  return (
+    <Card className="border-slate-300">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <PauseCircle className="h-5 w-5" />
+          Hold / Cancel Order
+          {isOnHold && (
+            <Badge variant="secondary" className="ml-2 bg-slate-200 text-slate-700">
+              On Hold
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isOnHold && (
+          <div className="p-3 bg-slate-100 dark:bg-slate-900/40 rounded-lg space-y-1">
+            <p className="text-sm font-medium">
+              Held from: {STATE_LABELS[order.hold_previous_state as OrderState] || order.hold_previous_state}
+            </p>
+            {order.hold_reason && (
+              <p className="text-xs text-muted-foreground">Reason: {order.hold_reason}</p>
+            )}
+            {order.held_at && (
+              <p className="text-xs text-muted-foreground">
+                Since {new Date(order.held_at).toLocaleString()}
+              </p>
+            )}
+            <Button
+              onClick={() => runAction((userId) => resumeOrder(order, userId), "Order resumed")}
+              disabled={isProcessing}
+              className="w-full mt-2"
+            >
+              <PlayCircle className="h-4 w-4 mr-2" />
+              {isProcessing ? "Resuming..." : "Resume Order"}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Reason (Required)</Label>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Explain why this order is being held or cancelled (min 10 characters)..."
+            className="min-h-20"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {!isOnHold && (
+            <Button
+              variant="outline"
+              onClick={() => runAction((userId) => putOrderOnHold(order, userId, reason), "Order put on hold")}
+              disabled={!hasReason || isProcessing}
+            >
+              <PauseCircle className="h-4 w-4 mr-2" />
+              Put On Hold
+            </Button>
+          )}
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={!hasReason || isProcessing} className={isOnHold ? "col-span-2" : ""}>
+                <Ban className="h-4 w-4 mr-2" />
+                Cancel Order
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+                <AlertDialogDescription className="space-y-2">
+                  <p>This is permanent. The order will move to CANCELLED and cannot be resumed.</p>
+                  {refundOnCancel && (
+                    <p className="text-red-600 font-medium">
+                      Payment has been captured. A refund will be initiated to the buyer.
+                    </p>
+                  )}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep Order</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => runAction((userId) => cancelOrder(order, 'admin', userId, reason), "Order cancelled.")}
+                  className="bg-destructive text-destructive-foreground"
+                >
+                  Confirm Cancellation
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminOrderHoldCancel;
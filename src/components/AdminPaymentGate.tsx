@@ -2,14 +2,14 @@
  * Admin Payment Gate Component
  * 
  * Allows admin to:
- * - Request payment from buyer (after manufacturer assigned)
- * - View payment status
- * - Mark payment as confirmed
+ * - Request payment from buyer via the payment gateway (or a manual link)
+ * - View payment / gateway status
+ * - Mark payment as confirmed (manual payments; gateway payments confirm via webhook)
  * 
  * Enforces: MANUFACTURER_ASSIGNED → PAYMENT_REQUESTED → PAYMENT_CONFIRMED
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -27,12 +27,19 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { CreditCard, Clock, CheckCircle2, AlertTriangle, ExternalLink } from "lucide-react";
+import { CreditCard, Clock, CheckCircle2, AlertTriangle, ExternalLink, Zap } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { logOrderEvent } from "@/lib/orderEventLogger";
-import { logStateChange, validateStateTransition } from "@/lib/stateChangeLogger";
+import { logStateChange } from "@/lib/stateChangeLogger";
+import { transitionOrder } from "@/lib/orderWorkflowEngine";
 import { format } from "date-fns";
+import {
+  PAYMENT_INTENT_STATUS_LABELS,
+  PaymentIntent,
+  PaymentIntentStatus,
+  createGatewayPayment,
+  fetchOrderPaymentIntents,
+} from "@/lib/paymentGateway";
 
 interface AdminPaymentGateProps {
   order: {
@@ -52,6 +59,12 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
   const [paymentLink, setPaymentLink] = useState(order.payment_link || "");
   const [isRequesting, setIsRequesting] = useState(false);
   const [isConfirming, setIsConfirming] = useState(false);
+  const [isCreatingGatewayPayment, setIsCreatingGatewayPayment] = useState(false);
+  const [latestIntent, setLatestIntent] = useState<PaymentIntent | null>(null);
+
+  useEffect(() => {
+    fetchOrderPaymentIntents(order.id).then(intents => setLatestIntent(intents[0] || null));
+  }, [order.id, order.order_state]);
 
   const orderState = order.order_state || '';
   
@@ -84,8 +97,24 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
   // STRICT: Can confirm payment ONLY when order_state === 'PAYMENT_REQUESTED'
   const canConfirmPayment = isPaymentRequested;
 
-  const handleRequestPayment = async () => {
-    if (!paymentLink.trim()) {
+  const handleCreateGatewayPayment = async () => {
+    setIsCreatingGatewayPayment(true);
+    const result = await createGatewayPayment(order.id);
+    setIsCreatingGatewayPayment(false);
+
+    if (!result.success || !result.checkoutUrl) {
+      toast.error(result.error || "Failed to create gateway payment");
+      return;
+    }
+
+    await handleRequestPayment(result.checkoutUrl, {
+      provider: result.provider,
+      provider_order_id: result.providerOrderId,
+    });
+  };
+
+  const handleRequestPayment = async (link: string = paymentLink, gateway?: Record<string, unknown>) => {
+    if (!link.trim()) {
       toast.error("Please enter a payment link");
       return;
     }
@@ -101,50 +130,19 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
       return;
     }
 
-    // Validate state transition
-    const validationError = validateStateTransition(orderState, 'PAYMENT_REQUESTED');
-    if (validationError) {
-      toast.error(validationError);
-      return;
-    }
-
     setIsRequesting(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       const now = new Date().toISOString();
 
-      // CRITICAL FIX: Use .select() to verify update happened
-      const { data, error } = await supabase
-        .from('orders')
-        .update({
-          order_state: 'PAYMENT_REQUESTED',
-          payment_link: paymentLink.trim(),
-          payment_state: 'PAYMENT_INITIATED',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', order.id)
-        .select('order_state, payment_link')
-        .single();
-
-      if (error) {
-        console.error('[AdminPaymentGate] Request payment error:', error);
-        throw error;
-      }
-
-      // Verify the update actually happened
-      if (!data || data.order_state !== 'PAYMENT_REQUESTED') {
-        console.error('[AdminPaymentGate] State did not update:', data);
-        throw new Error('Payment request failed - please refresh and try again');
-      }
-
-      console.log('[AdminPaymentGate] Successfully updated to PAYMENT_REQUESTED:', data);
-
-      // Log state change (use valid actor_role)
-      await logStateChange(order.id, 'MANUFACTURER_ASSIGNED', 'PAYMENT_REQUESTED', user?.id || 'admin', 'admin');
-
-      await logOrderEvent(order.id, 'payment_requested', {
-        payment_link: paymentLink.trim(),
+      // Validates the transition, verifies the update happened and logs payment_requested
+      const result = await transitionOrder(order, 'PAYMENT_REQUESTED', 'admin', {
+        payment_link: link.trim(),
+        payment_state: 'PAYMENT_INITIATED',
+      }, {
+        payment_link: link.trim(),
+        payment_source: gateway ? 'gateway' : 'manual',
+        ...(gateway && { gateway }),
         requested_by: 'admin',
         previous_state: 'MANUFACTURER_ASSIGNED',
         new_state: 'PAYMENT_REQUESTED',
@@ -152,6 +150,13 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
         timestamp: now,
       });
 
+      if (!result.success) {
+        throw new Error(result.error || 'Payment request failed - please refresh and try again');
+      }
+
+      // Log state change (use valid actor_role)
+      await logStateChange(order.id, 'MANUFACTURER_ASSIGNED', 'PAYMENT_REQUESTED', user?.id || 'admin', 'admin');
+
       toast.success("Payment requested → Buyer can now see payment link");
       onUpdate();
     } catch (error: any) {
@@ -169,49 +174,16 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
       return;
     }
 
-    // Validate state transition
-    const validationError = validateStateTransition(orderState, 'PAYMENT_CONFIRMED');
-    if (validationError) {
-      toast.error(validationError);
-      return;
-    }
-
     setIsConfirming(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       const now = new Date().toISOString();
 
-      // CRITICAL FIX: Use .select() to verify update happened
-      const { data, error } = await supabase
-        .from('orders')
-        .update({
-          order_state: 'PAYMENT_CONFIRMED',
-          payment_state: 'PAYMENT_HELD',
-          payment_received_at: now,
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', order.id)
-        .select('order_state, payment_received_at')
-        .single();
-
-      if (error) {
-        console.error('[AdminPaymentGate] Confirm payment error:', error);
-        throw error;
-      }
-
-      // Verify the update actually happened
-      if (!data || data.order_state !== 'PAYMENT_CONFIRMED') {
-        console.error('[AdminPaymentGate] State did not update:', data);
-        throw new Error('Payment confirmation failed - please refresh and try again');
-      }
-
-      console.log('[AdminPaymentGate] Successfully updated to PAYMENT_CONFIRMED:', data);
-
-      // Log state change (use valid actor_role)
-      await logStateChange(order.id, 'PAYMENT_REQUESTED', 'PAYMENT_CONFIRMED', user?.id || 'admin', 'admin');
-
-      await logOrderEvent(order.id, 'payment_confirmed', {
+      // Validates the transition, verifies the update happened and logs payment_confirmed
+      const result = await transitionOrder(order, 'PAYMENT_CONFIRMED', 'admin', {
+        payment_state: 'PAYMENT_HELD',
+        payment_received_at: now,
+      }, {
         confirmed_by: 'admin',
         previous_state: 'PAYMENT_REQUESTED',
         new_state: 'PAYMENT_CONFIRMED',
@@ -219,6 +191,13 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
         timestamp: now,
       });
 
+      if (!result.success) {
+        throw new Error(result.error || 'Payment confirmation failed - please refresh and try again');
+      }
+
+      // Log state change (use valid actor_role)
+      await logStateChange(order.id, 'PAYMENT_REQUESTED', 'PAYMENT_CONFIRMED', user?.id || 'admin', 'admin');
+
       toast.success("Payment confirmed → Manufacturer can now start production");
       onUpdate();
     } catch (error: any) {
@@ -276,6 +255,16 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
         {/* Request Payment Section */}
         {canRequestPayment && (
           <div className="space-y-3">
+            <Button
+              size="sm"
+              className="w-full bg-yellow-600 hover:bg-yellow-700"
+              onClick={handleCreateGatewayPayment}
+              disabled={isCreatingGatewayPayment || isRequesting}
+            >
+              <Zap className="h-4 w-4 mr-2" />
+              {isCreatingGatewayPayment ? "Creating Payment..." : "Request Payment via Gateway"}
+            </Button>
+            <p className="text-xs text-muted-foreground text-center">or</p>
             <div>
               <Label className="text-xs">Payment Link (manual)</Label>
               <Input
@@ -285,16 +274,17 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
                 className="text-sm"
               />
               <p className="text-xs text-muted-foreground mt-1">
-                Generate payment link in Razorpay/Stripe and paste here
+                For payments collected outside the gateway - confirm manually once received
               </p>
             </div>
             <Button
               size="sm"
-              className="w-full bg-yellow-600 hover:bg-yellow-700"
-              onClick={handleRequestPayment}
+              variant="outline"
+              className="w-full"
+              onClick={() => handleRequestPayment()}
               disabled={!paymentLink.trim() || isRequesting}
             >
-              {isRequesting ? "Requesting..." : "Request Payment"}
+              {isRequesting ? "Requesting..." : "Request Payment (Manual Link)"}
             </Button>
           </div>
         )}
@@ -306,9 +296,24 @@ const AdminPaymentGate = ({ order, onUpdate }: AdminPaymentGateProps) => {
               <Clock className="h-4 w-4 text-yellow-600" />
               <AlertDescription className="text-yellow-700 text-sm">
                 Payment has been requested. Waiting for buyer to complete payment.
+                {latestIntent && " Gateway payments are confirmed automatically by the payment webhook."}
               </AlertDescription>
             </Alert>
 
+            {latestIntent && (
+              <div className="p-2 bg-background rounded border flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  Gateway: <span className="capitalize">{latestIntent.provider}</span>
+                </span>
+                <Badge variant="outline" className="text-xs">
+                  {PAYMENT_INTENT_STATUS_LABELS[latestIntent.status as PaymentIntentStatus] || latestIntent.status}
+                </Badge>
+              </div>
+            )}
+            {latestIntent?.status === 'failed' && latestIntent.failure_reason && (
+              <p className="text-xs text-red-600">{latestIntent.failure_reason}</p>
+            )}
+
             {order.payment_link && (
               <div className="p-2 bg-background rounded border">
                 <p className="text-xs text-muted-foreground">Payment Link</p>
@@ -0,0 +1,342 @@
+/**
+ * Admin Payment Schedule
+ *
+ * Before payment is captured: pick a template or edit the order's milestones
+ * (name, release state, percentage / fixed amount / remainder).
+ * After capture: per-milestone escrow status, with release for releasable tranches.
+ */
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Plus, Send, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { STATE_LABELS } from "@/lib/orderStateMachineV2";
+import {
+  MILESTONE_RELEASE_STATES,
+  MILESTONE_STATUS_COLORS,
+  MILESTONE_STATUS_LABELS,
+  MilestoneInput,
+  OrderPaymentMilestone,
+  PaymentScheduleTemplate,
+  fetchOrderMilestones,
+  fetchScheduleTemplates,
+  releaseMilestone,
+  resolveMilestoneAmounts,
+  saveOrderSchedule,
+  validateSchedule,
+} from "@/lib/paymentSchedule";
+
+type AmountMode = 'percentage' | 'fixed' | 'remainder';
+
+interface AdminPaymentScheduleProps {
+  order: {
+    id: string;
+    order_state: string | null;
+    payment_state: string | null;
+    total_order_value: number | null;
+    total_amount?: number | null;
+    escrow_amount?: number | null;
+  };
+  onUpdate: () => void;
+}
+
+const UNFUNDED_PAYMENT_STATES = [null, 'PAYMENT_INITIATED'];
+
+const getAmountMode = (milestone: MilestoneInput): AmountMode => {
+  if (milestone.percentage != null) return 'percentage';
+  if (milestone.fixed_amount != null) return 'fixed';
+  return 'remainder';
+};
+
+// Saved milestones only keep percentage + resolved amount; a trailing non-percentage tranche is the remainder
+const toDraft = (milestones: OrderPaymentMilestone[]): MilestoneInput[] =>
+  milestones.map((milestone, index) => ({
+    name: milestone.name,
+    release_state: milestone.release_state,
+    percentage: milestone.percentage,
+    fixed_amount:
+      milestone.percentage == null && index < milestones.length - 1 ? Number(milestone.amount) : null,
+  }));
+
+const AdminPaymentSchedule = ({ order, onUpdate }: AdminPaymentScheduleProps) => {
+  const [milestones, setMilestones] = useState<OrderPaymentMilestone[]>([]);
+  const [templates, setTemplates] = useState<PaymentScheduleTemplate[]>([]);
+  const [draft, setDraft] = useState<MilestoneInput[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [releasingId, setReleasingId] = useState<string | null>(null);
+
+  const total = Number(order.total_order_value ?? order.total_amount ?? order.escrow_amount ?? 0);
+  const editable =
+    UNFUNDED_PAYMENT_STATES.includes(order.payment_state) &&
+    order.order_state !== 'CANCELLED' &&
+    milestones.every((m) => m.status === 'pending');
+
+  useEffect(() => {
+    loadSchedule();
+  }, [order.id, order.order_state, order.payment_state]);
+
+  const loadSchedule = async () => {
+    setLoading(true);
+    const [orderMilestones, scheduleTemplates] = await Promise.all([
+      fetchOrderMilestones(order.id),
+      fetchScheduleTemplates(),
+    ]);
+    setMilestones(orderMilestones);
+    setTemplates(scheduleTemplates);
+
+    if (orderMilestones.length > 0) {
+      setDraft(toDraft(orderMilestones));
+    } else {
+      const defaultTemplate = scheduleTemplates.find((t) => t.is_default) || scheduleTemplates[0];
+      setDraft(defaultTemplate?.milestones || []);
+      setTemplateId(defaultTemplate?.id || null);
+    }
+    setLoading(false);
+  };
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setTemplateId(template.id);
+    setDraft(template.milestones.map((m) => ({ ...m })));
+  };
+
+  const updateDraft = (index: number, changes: Partial<MilestoneInput>) => {
+    setTemplateId(null);
+    setDraft((current) => current.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+  };
+
+  const setAmountMode = (index: number, mode: AmountMode) => {
+    const value = draft[index].percentage ?? draft[index].fixed_amount ?? 0;
+    updateDraft(index, {
+      percentage: mode === 'percentage' ? value : null,
+      fixed_amount: mode === 'fixed' ? value : null,
+    });
+  };
+
+  const setAmountValue = (index: number, raw: string) => {
+    const value = raw === '' ? 0 : Number(raw);
+    if (getAmountMode(draft[index]) === 'percentage') {
+      updateDraft(index, { percentage: value });
+    } else {
+      updateDraft(index, { fixed_amount: value });
+    }
+  };
+
+  const addMilestone = () => {
+    setTemplateId(null);
+    setDraft((current) => [
+      ...current,
+      { name: '', release_state: 'DELIVERED', percentage: 0 },
+    ]);
+  };
+
+  const removeMilestone = (index: number) => {
+    setTemplateId(null);
+    setDraft((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("Not authenticated");
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveOrderSchedule(order.id, total, draft, user.id, templateId);
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to save payment schedule");
+      return;
+    }
+
+    toast.success("Payment schedule saved");
+    await loadSchedule();
+    onUpdate();
+  };
+
+  const handleRelease = async (milestone: OrderPaymentMilestone) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("Not authenticated");
+      return;
+    }
+
+    setReleasingId(milestone.id);
+    const result = await releaseMilestone(milestone, user.id);
+    setReleasingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to release milestone");
+      return;
+    }
+
+    toast.success(`₹${Number(milestone.amount).toLocaleString()} released for "${milestone.name}"`);
+    await loadSchedule();
+    onUpdate();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading payment schedule...</p>;
+  }
+
+  const validation = validateSchedule(draft, total);
+  const previewAmounts = validation.valid ? resolveMilestoneAmounts(draft, total) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Payment Schedule
+        </h4>
+        <span className="text-xs text-muted-foreground">Total ₹{total.toLocaleString()}</span>
+      </div>
+
+      {editable ? (
+        <>
+          {templates.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs">Template</Label>
+              <Select value={templateId || ''} onValueChange={applyTemplate}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Custom schedule" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {draft.map((milestone, index) => {
+            const mode = getAmountMode(milestone);
+            return (
+              <div key={index} className="p-2 rounded border bg-background space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    className="h-8"
+                    placeholder="Milestone name"
+                    value={milestone.name}
+                    onChange={(e) => updateDraft(index, { name: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMilestone(index)}
+                    disabled={draft.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <Select
+                    value={milestone.release_state}
+                    onValueChange={(value) => updateDraft(index, { release_state: value as MilestoneInput['release_state'] })}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MILESTONE_RELEASE_STATES.map((state) => (
+                        <SelectItem key={state} value={state}>
+                          {STATE_LABELS[state]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={mode} onValueChange={(value) => setAmountMode(index, value as AmountMode)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">Percentage</SelectItem>
+                      <SelectItem value="fixed">Fixed ₹</SelectItem>
+                      <SelectItem value="remainder">Remainder</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {mode === 'remainder' ? (
+                    <div className="h-8 flex items-center text-xs text-muted-foreground">Balance</div>
+                  ) : (
+                    <Input
+                      className="h-8"
+                      type="number"
+                      min="0"
+                      value={(mode === 'percentage' ? milestone.percentage : milestone.fixed_amount) ?? 0}
+                      onChange={(e) => setAmountValue(index, e.target.value)}
+                    />
+                  )}
+                </div>
+                {previewAmounts[index] !== undefined && (
+                  <p className="text-xs text-muted-foreground">
+                    ₹{previewAmounts[index].toLocaleString()} released at {STATE_LABELS[milestone.release_state]}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+
+          {!validation.valid && <p className="text-xs text-red-600">{validation.error}</p>}
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={addMilestone}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Milestone
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || !validation.valid || total <= 0}>
+              {saving ? "Saving..." : milestones.length > 0 ? "Update Schedule" : "Set Schedule"}
+            </Button>
+          </div>
+          {milestones.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              If no schedule is set, the default template is applied when payment is captured.
+            </p>
+          )}
+        </>
+      ) : milestones.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No milestone schedule for this order.</p>
+      ) : (
+        milestones.map((milestone) => (
+          <div key={milestone.id} className="p-2 rounded border bg-background flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {milestone.sequence}. {milestone.name}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                ₹{Number(milestone.amount).toLocaleString()} at {STATE_LABELS[milestone.release_state]}
+                {milestone.released_at && ` • released ${format(new Date(milestone.released_at), "MMM d, yyyy")}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <Badge className={MILESTONE_STATUS_COLORS[milestone.status]}>
+                {MILESTONE_STATUS_LABELS[milestone.status]}
+              </Badge>
+              {milestone.status === 'releasable' && (
+                <Button size="sm" onClick={() => handleRelease(milestone)} disabled={releasingId === milestone.id}>
+                  <Send className="h-3 w-3 mr-1" />
+                  {releasingId === milestone.id ? "Releasing..." : "Release"}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default AdminPaymentSchedule;
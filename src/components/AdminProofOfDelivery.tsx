@@ -0,0 +1,190 @@
+/**
+ * Admin Proof of Delivery
+ *
+ * Confirms the hand-over with the OTP the buyer reads out (admins can't see it), with an
+ * optional photo of the recipient or signed delivery slip and the device location. The
+ * courier can do the same from the POD link copied here. Shows the recorded proof once
+ * confirmed.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Copy, MapPin, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { getSignedUrl } from "@/lib/orderFileStorage";
+import {
+  DeliveryProof,
+  PodLocation,
+  canConfirmPod,
+  confirmDeliveryPod,
+  fetchDeliveryProof,
+  getCourierPodLink,
+  getCurrentLocation,
+} from "@/lib/proofOfDelivery";
+
+interface AdminProofOfDeliveryProps {
+  order: {
+    id: string;
+    delivery_status?: string | null;
+    pod_confirmed_at?: string | null;
+  };
+  onUpdate: () => void;
+}
+
+const AdminProofOfDelivery = ({ order, onUpdate }: AdminProofOfDeliveryProps) => {
+  const [proof, setProof] = useState<DeliveryProof | null>(null);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [otp, setOtp] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [location, setLocation] = useState<PodLocation | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    loadProof();
+  }, [order.id, order.pod_confirmed_at]);
+
+  const loadProof = async () => {
+    const data = await fetchDeliveryProof(order.id);
+    setProof(data);
+    setPhotoUrl(data?.photo_url ? await getSignedUrl(data.photo_url) : null);
+  };
+
+  const handleLocate = async () => {
+    setLocating(true);
+    const current = await getCurrentLocation();
+    setLocating(false);
+
+    if (!current) {
+      toast.error("Location unavailable - allow location access or confirm without it");
+      return;
+    }
+    setLocation(current);
+  };
+
+  const handleCopyLink = async () => {
+    const result = await getCourierPodLink(order.id);
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to get the courier link");
+      return;
+    }
+    await navigator.clipboard.writeText(result.data);
+    toast.success("Courier POD link copied");
+  };
+
+  const handleConfirm = async () => {
+    setConfirming(true);
+    const result = await confirmDeliveryPod({ orderId: order.id, otp, recipientName, photo, location });
+    setConfirming(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to confirm delivery");
+      return;
+    }
+
+    toast.success("Delivery confirmed with the buyer's OTP");
+    setOtp("");
+    onUpdate();
+  };
+
+  if (proof) {
+    return (
+      <div className="p-4 border rounded-lg space-y-2 bg-green-50 dark:bg-green-950/30">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-green-700 dark:text-green-400 flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4" />
+            Proof of delivery recorded
+          </p>
+          <Badge variant="outline">{proof.confirmed_role === 'courier' ? 'Courier' : 'Admin'}</Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          OTP verified {new Date(proof.confirmed_at).toLocaleString()}
+          {proof.recipient_name && ` • Received by ${proof.recipient_name}`}
+        </p>
+        {proof.latitude !== null && proof.longitude !== null && (
+          <p className="text-xs text-muted-foreground font-mono">
+            {proof.latitude}, {proof.longitude}
+            {proof.location_accuracy_m !== null && ` (±${proof.location_accuracy_m} m)`}
+          </p>
+        )}
+        {photoUrl && (
+          <a href={photoUrl} target="_blank" rel="noopener noreferrer" className="inline-block">
+            <img src={photoUrl} alt="Delivery" className="h-24 w-24 object-cover rounded border" />
+          </a>
+        )}
+        {proof.photo_sha256 && (
+          <p className="text-xs text-muted-foreground font-mono break-all">SHA-256 {proof.photo_sha256}</p>
+        )}
+      </div>
+    );
+  }
+
+  const eligibility = canConfirmPod(order);
+  if (!eligibility.allowed) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Proof of Delivery
+        </p>
+        <Button size="sm" variant="outline" onClick={handleCopyLink}>
+          <Copy className="h-4 w-4 mr-1" />
+          Courier Link
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Enter the OTP the buyer reads out at hand-over. Payment can't be released without it.
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Delivery OTP</Label>
+          <Input
+            value={otp}
+            onChange={(e) => setOtp(e.target.value.replace(/\D/g, ''))}
+            placeholder="6 digits"
+            maxLength={6}
+            inputMode="numeric"
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Received by (optional)</Label>
+          <Input value={recipientName} onChange={(e) => setRecipientName(e.target.value)} placeholder="Recipient name" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Photo of recipient or signed slip (optional)</Label>
+        <Input
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <Button size="sm" variant="outline" onClick={handleLocate} disabled={locating}>
+          <MapPin className="h-4 w-4 mr-1" />
+          {locating ? "Locating..." : location ? "Update Location" : "Add Location"}
+        </Button>
+        {location && (
+          <span className="text-xs text-muted-foreground font-mono">
+            {location.latitude}, {location.longitude} (±{location.accuracy} m)
+          </span>
+        )}
+      </div>
+      <Button onClick={handleConfirm} disabled={confirming || otp.length !== 6} className="w-full">
+        {confirming ? "Confirming..." : "Confirm Delivery"}
+      </Button>
+    </div>
+  );
+};
+
+export default AdminProofOfDelivery;
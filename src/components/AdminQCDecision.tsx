@@ -4,6 +4,11 @@
  * Admin must approve/reject QC before:
  * - Delivery can proceed
  * - Payment can be released
+ *
+ * Decisions go through decide_qc_review: a submission claimed in the QC review queue can
+ * only be decided by its reviewer, and orders above the four-eyes threshold need a second
+ * admin to sign off the approval. QC uploaded without a record is opened as a submission
+ * (open_qc_review) and decided the same way.
  */
 
 import { useState, useEffect } from "react";
@@ -20,12 +25,25 @@ import {
   ShieldCheck, 
   AlertTriangle,
   Eye,
-  ExternalLink
+  ExternalLink,
+  Hand,
+  Users
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { logOrderEvent } from "@/lib/orderEventLogger";
 import { getSignedUrl } from "@/lib/orderFileStorage";
+import { QCDefect, fetchOrderDefects } from "@/lib/qcDefects";
+import QCDefectList from "@/components/QCDefectList";
+import {
+  ADMIN_QC_DECISION_LABELS,
+  AdminQCDecisionStatus,
+  QCReviewer,
+  claimQCReview,
+  decideQCReview,
+  fetchQCReviewers,
+  isOpenForReview,
+  openQCReview,
+} from "@/lib/qcReviewQueue";
 
 interface AdminQCDecisionProps {
   order: {
@@ -51,6 +69,10 @@ interface QCRecord {
   admin_decision: string | null;
   admin_notes: string | null;
   created_at: string;
+  assigned_to: string | null;
+  second_review_required: boolean;
+  first_approval_by: string | null;
+  first_approval_at: string | null;
 }
 
 const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
@@ -58,40 +80,50 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
   const [qcRecords, setQCRecords] = useState<QCRecord[]>([]);
   const [adminNotes, setAdminNotes] = useState('');
   const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+  const [defects, setDefects] = useState<QCDefect[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [reviewers, setReviewers] = useState<QCReviewer[]>([]);
 
   // Fetch QC records for this order
   useEffect(() => {
-    const fetchQCRecords = async () => {
-      const { data, error } = await supabase
-        .from('order_qc')
-        .select('*')
-        .eq('order_id', order.id)
-        .order('created_at', { ascending: false });
+    fetchQCRecords();
+  }, [order.id]);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id || null));
+    fetchQCReviewers().then(setReviewers);
+  }, []);
+
+  const fetchQCRecords = async () => {
+    const { data, error } = await supabase
+      .from('order_qc')
+      .select('*')
+      .eq('order_id', order.id)
+      .order('created_at', { ascending: false });
 
-      if (!error && data) {
-        setQCRecords(data);
-        
-        // Generate signed URLs for all files
-        const urls: Record<string, string> = {};
-        for (const record of data) {
-          if (record.file_urls) {
-            for (const fileUrl of record.file_urls) {
-              const signed = await getSignedUrl(fileUrl, 'orders');
-              if (signed) {
-                urls[fileUrl] = signed;
-              }
+    if (!error && data) {
+      setQCRecords(data);
+
+      // Generate signed URLs for all files
+      const urls: Record<string, string> = {};
+      for (const record of data) {
+        if (record.file_urls) {
+          for (const fileUrl of record.file_urls) {
+            const signed = await getSignedUrl(fileUrl, 'orders');
+            if (signed) {
+              urls[fileUrl] = signed;
             }
           }
         }
-        setSignedUrls(urls);
       }
-    };
+      setSignedUrls(urls);
+    }
 
-    fetchQCRecords();
-  }, [order.id]);
+      setDefects(await fetchOrderDefects(order.id));
+  };
 
-  // Check if there's pending QC that needs admin decision
-  const pendingQC = qcRecords.find(qc => qc.admin_decision === 'pending');
+  // Check if there's pending QC that needs admin decision (or a second sign-off)
+  const pendingQC = qcRecords.find(qc => qc.admin_decision && isOpenForReview(qc));
   const hasQCUploaded = order.sample_qc_uploaded_at || order.bulk_qc_uploaded_at;
 
   // If already approved, show approved state
@@ -135,55 +167,29 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
 
     setIsSubmitting(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const now = new Date().toISOString();
-
-      // Update QC record if exists
-      if (pendingQC) {
-        const { error: qcError } = await supabase
-          .from('order_qc')
-          .update({
-            admin_decision: decision,
-            admin_decision_by: user.id,
-            admin_decision_at: now,
-            admin_notes: adminNotes || null,
-          })
-          .eq('id', pendingQC.id);
-
-        if (qcError) throw qcError;
+      // QC records are decided server-side (claims, four-eyes, order approval, event log).
+      // QC uploaded without a record is opened as a submission first.
+      let qcId = pendingQC?.id;
+      if (!qcId) {
+        const opened = await openQCReview(order.id);
+        if (!opened.success || !opened.data) throw new Error(opened.error || "Failed to open QC review");
+        qcId = opened.data;
       }
 
-      // Update order
-      if (decision === 'approved') {
-        const { error: orderError } = await supabase
-          .from('orders')
-          .update({
-            admin_qc_approved: true,
-            admin_qc_approved_at: now,
-            admin_qc_approved_by: user.id,
-            updated_at: now,
-          })
-          .eq('id', order.id);
+      const result = await decideQCReview(qcId, decision, adminNotes);
+      if (!result.success) throw new Error(result.error);
 
-        if (orderError) throw orderError;
+      if (result.data === 'awaiting_second_review') {
+        toast.success("First approval recorded. A second admin needs to sign off.");
+      } else {
+        toast.success(
+          decision === 'approved'
+            ? "QC approved! Delivery and payment can now proceed."
+            : "QC rejected. Manufacturer will be notified."
+        );
       }
-
-      // Log event
-      await logOrderEvent(order.id, `admin_qc_${decision}`, {
-        decision,
-        notes: adminNotes,
-        decided_by: user.id,
-        timestamp: now,
-        qc_record_id: pendingQC?.id,
-      });
-
-      toast.success(
-        decision === 'approved' 
-          ? "QC approved! Delivery and payment can now proceed."
-          : "QC rejected. Manufacturer will be notified."
-      );
+      setAdminNotes('');
+      await fetchQCRecords();
       onUpdate();
     } catch (error: any) {
       console.error('Error processing QC decision:', error);
@@ -193,6 +199,31 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
     }
   };
 
+  const handleClaim = async () => {
+    if (!pendingQC) return;
+
+    setIsSubmitting(true);
+    const result = await claimQCReview(pendingQC.id);
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to claim review");
+      return;
+    }
+
+    toast.success("Review claimed");
+    await fetchQCRecords();
+  };
+
+  const reviewerName = (id: string) => {
+    if (id === userId) return 'you';
+    return reviewers.find((reviewer) => reviewer.user_id === id)?.email || id.slice(0, 8);
+  };
+
+  // Claimed by another reviewer, or waiting on a second admin after this admin's approval
+  const claimedByOther = !!pendingQC?.assigned_to && pendingQC.assigned_to !== userId;
+  const isFirstApprover = pendingQC?.admin_decision === 'awaiting_second_review' && pendingQC.first_approval_by === userId;
+
   const getDefectLabel = (defectType: string | null) => {
     const labels: Record<string, string> = {
       'none': 'None',
@@ -216,7 +247,7 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
             Admin QC Decision Required
           </CardTitle>
           <Badge variant="outline" className="bg-amber-100 text-amber-800">
-            Pending
+            {pendingQC?.admin_decision === 'awaiting_second_review' ? 'Awaiting second sign-off' : 'Pending'}
           </Badge>
         </div>
       </CardHeader>
@@ -228,6 +259,34 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
           </AlertDescription>
         </Alert>
 
+        {pendingQC?.second_review_required && (
+          <Alert className="border-blue-300 bg-blue-50">
+            <Users className="h-4 w-4 text-blue-600" />
+            <AlertDescription className="text-blue-800">
+              {pendingQC.admin_decision === 'awaiting_second_review' && pendingQC.first_approval_by
+                ? `First approval by ${reviewerName(pendingQC.first_approval_by)}${
+                    pendingQC.first_approval_at ? ` on ${new Date(pendingQC.first_approval_at).toLocaleString()}` : ''
+                  }. A different admin needs to sign off.`
+                : 'This order is above the four-eyes threshold: approval needs two different admins.'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {pendingQC && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {pendingQC.assigned_to ? `Claimed by ${reviewerName(pendingQC.assigned_to)}` : 'Not claimed in the QC review queue'}
+            </span>
+            {!pendingQC.assigned_to && !isFirstApprover && (
+              <Button size="sm" variant="outline" onClick={handleClaim} disabled={isSubmitting}>
+                <Hand className="mr-2 h-4 w-4" />
+                Claim
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* QC Records Summary */}
         {qcRecords.length > 0 && (
           <div className="space-y-3">
@@ -272,7 +331,7 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
                         'text-amber-600'
                       }
                     >
-                      {qc.admin_decision || 'pending'}
+                      {ADMIN_QC_DECISION_LABELS[(qc.admin_decision || 'pending') as AdminQCDecisionStatus] || qc.admin_decision}
                     </Badge>
                   </div>
                 </div>
@@ -281,6 +340,7 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
                     Notes: {qc.notes}
                   </p>
                 )}
+                <QCDefectList defects={defects.filter((defect) => defect.order_qc_id === qc.id)} />
                 {/* File previews */}
                 {qc.file_urls && qc.file_urls.length > 0 && (
                   <div className="flex flex-wrap gap-2 mt-2">
@@ -319,7 +379,7 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
         <div className="flex gap-3">
           <Button
             onClick={() => handleDecision('approved')}
-            disabled={isSubmitting}
+            disabled={isSubmitting || claimedByOther || isFirstApprover}
             className="flex-1 bg-green-600 hover:bg-green-700"
           >
             {isSubmitting ? (
@@ -327,13 +387,13 @@ const AdminQCDecision = ({ order, onUpdate }: AdminQCDecisionProps) => {
             ) : (
               <>
                 <CheckCircle2 className="mr-2 h-4 w-4" />
-                Approve QC
+                {pendingQC?.admin_decision === 'awaiting_second_review' ? 'Sign Off Approval' : 'Approve QC'}
               </>
             )}
           </Button>
           <Button
             onClick={() => handleDecision('rejected')}
-            disabled={isSubmitting}
+            disabled={isSubmitting || claimedByOther || isFirstApprover}
             variant="destructive"
             className="flex-1"
           >
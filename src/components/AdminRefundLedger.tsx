@@ -0,0 +1,436 @@
+/**
+ * Admin Refund Ledger
+ *
+ * Running escrow balance, the order's refund ledger with approve / reject for
+ * pending refunds (retry / release for refunds stuck while being paid out), and a
+ * form to record a partial refund linked to a dispute, a QC decision or a manual credit.
+ */
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Plus, ReceiptText, RotateCcw, Unlock, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { PaymentOrder } from "@/lib/paymentStateMachine";
+import { fetchOrderMilestones, OrderPaymentMilestone } from "@/lib/paymentSchedule";
+import {
+  OrderRefund,
+  REFUND_SOURCE_LABELS,
+  REFUND_STATUS_COLORS,
+  REFUND_STATUS_LABELS,
+  RefundRequestInput,
+  approveRefund,
+  calculateDefectRefund,
+  canRequestRefund,
+  computeEscrowBalance,
+  fetchOrderRefunds,
+  getOrderEscrowTotal,
+  rejectRefund,
+  releaseRefund,
+  requestRefund,
+} from "@/lib/refundLedger";
+
+interface AdminRefundLedgerProps {
+  order: PaymentOrder;
+  onUpdate: () => void;
+}
+
+interface RefundSourceOption {
+  id: string;
+  label: string;
+}
+
+type RequestSource = RefundRequestInput['sourceType'];
+
+const AdminRefundLedger = ({ order, onUpdate }: AdminRefundLedgerProps) => {
+  const [refunds, setRefunds] = useState<OrderRefund[]>([]);
+  const [milestones, setMilestones] = useState<OrderPaymentMilestone[]>([]);
+  const [disputes, setDisputes] = useState<RefundSourceOption[]>([]);
+  const [qcDecisions, setQcDecisions] = useState<RefundSourceOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [sourceType, setSourceType] = useState<RequestSource>('manual');
+  const [sourceId, setSourceId] = useState("");
+  const [defectiveQuantity, setDefectiveQuantity] = useState("");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  useEffect(() => {
+    loadLedger();
+  }, [order.id, order.payment_state]);
+
+  const loadLedger = async () => {
+    setLoading(true);
+    const [orderRefunds, orderMilestones, disputeResult, qcResult] = await Promise.all([
+      fetchOrderRefunds(order.id),
+      fetchOrderMilestones(order.id),
+      supabase.from('disputes').select('id, reason, status').eq('order_id', order.id),
+      supabase
+        .from('order_qc')
+        .select('id, stage, decision, admin_decision, created_at')
+        .eq('order_id', order.id)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    setRefunds(orderRefunds);
+    setMilestones(orderMilestones);
+    setDisputes(
+      (disputeResult.data || []).map((d) => ({
+        id: d.id,
+        label: `${d.reason.slice(0, 40)} (${d.status || 'open'})`,
+      }))
+    );
+    setQcDecisions(
+      (qcResult.data || []).map((qc) => ({
+        id: qc.id,
+        label: `${qc.stage} QC · ${qc.admin_decision || qc.decision || 'pending'}${
+          qc.created_at ? ` · ${format(new Date(qc.created_at), "MMM d")}` : ''
+        }`,
+      }))
+    );
+    setLoading(false);
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setSourceType('manual');
+    setSourceId("");
+    setDefectiveQuantity("");
+    setAmount("");
+    setReason("");
+  };
+
+  const orderValue = getOrderEscrowTotal(order);
+  const quantity = order.quantity || 0;
+  const balance = computeEscrowBalance(order, refunds, milestones);
+  const requestedAmount = Number(amount);
+  const requestCheck = canRequestRefund(order, balance, requestedAmount);
+  const sourceOptions = sourceType === 'dispute' ? disputes : sourceType === 'qc_decision' ? qcDecisions : [];
+
+  const handleDefectiveChange = (value: string) => {
+    setDefectiveQuantity(value);
+    const pieces = Number(value);
+    if (pieces > 0 && quantity > 0) {
+      setAmount(String(calculateDefectRefund(orderValue, quantity, pieces)));
+    }
+  };
+
+  const handleRequest = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("Not authenticated");
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await requestRefund(
+      {
+        orderId: order.id,
+        amount: requestedAmount,
+        reason,
+        sourceType,
+        disputeId: sourceType === 'dispute' ? sourceId : null,
+        qcId: sourceType === 'qc_decision' ? sourceId : null,
+        affectedQuantity: Number(defectiveQuantity) > 0 ? Number(defectiveQuantity) : null,
+      },
+      user.id
+    );
+    setSubmitting(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to record refund");
+      return;
+    }
+
+    toast.success("Refund recorded, awaiting approval");
+    resetForm();
+    await loadLedger();
+  };
+
+  const handleApprove = async (refund: OrderRefund) => {
+    setReviewingId(refund.id);
+    const result = await approveRefund(refund);
+    setReviewingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to approve refund");
+      return;
+    }
+
+    toast.success(`₹${Number(refund.amount).toLocaleString()} refunded to buyer`);
+    await loadLedger();
+    onUpdate();
+  };
+
+  const handleRelease = async (refund: OrderRefund) => {
+    setReviewingId(refund.id);
+    const result = await releaseRefund(refund);
+    setReviewingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to release refund");
+      return;
+    }
+
+    toast.success("Refund released");
+    await loadLedger();
+  };
+
+  const handleReject = async (refund: OrderRefund) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("Not authenticated");
+      return;
+    }
+
+    setReviewingId(refund.id);
+    const result = await rejectRefund(refund, user.id, rejectionReason);
+    setReviewingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to reject refund");
+      return;
+    }
+
+    toast.success("Refund rejected");
+    setRejectingId(null);
+    setRejectionReason("");
+    await loadLedger();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading refund ledger...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <ReceiptText className="h-4 w-4" />
+          Refund Ledger
+        </h4>
+        {!showForm && balance.refundable > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Partial Refund
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs">
+        <div className="p-2 rounded border bg-background">
+          <p className="text-muted-foreground">Captured</p>
+          <p className="font-semibold">₹{balance.captured.toLocaleString()}</p>
+        </div>
+        <div className="p-2 rounded border bg-background">
+          <p className="text-muted-foreground">Refunded</p>
+          <p className="font-semibold text-red-600">₹{balance.refunded.toLocaleString()}</p>
+        </div>
+        <div className="p-2 rounded border bg-background">
+          <p className="text-muted-foreground">Released</p>
+          <p className="font-semibold text-green-600">₹{balance.released.toLocaleString()}</p>
+        </div>
+        <div className="p-2 rounded border bg-background">
+          <p className="text-muted-foreground">In Escrow</p>
+          <p className="font-semibold">₹{balance.refundable.toLocaleString()}</p>
+        </div>
+        <div className="p-2 rounded border bg-background">
+          <p className="text-muted-foreground">Manufacturer Payout</p>
+          <p className="font-semibold">₹{balance.manufacturerPayout.toLocaleString()}</p>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="p-3 rounded border bg-background space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Linked to</Label>
+              <Select
+                value={sourceType}
+                onValueChange={(value) => {
+                  setSourceType(value as RequestSource);
+                  setSourceId("");
+                }}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">{REFUND_SOURCE_LABELS.manual}</SelectItem>
+                  <SelectItem value="dispute" disabled={disputes.length === 0}>
+                    {REFUND_SOURCE_LABELS.dispute}
+                  </SelectItem>
+                  <SelectItem value="qc_decision" disabled={qcDecisions.length === 0}>
+                    {REFUND_SOURCE_LABELS.qc_decision}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {sourceType !== 'manual' && (
+              <div className="space-y-1">
+                <Label className="text-xs">{REFUND_SOURCE_LABELS[sourceType]}</Label>
+                <Select value={sourceId} onValueChange={setSourceId}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Defective pieces{quantity > 0 ? ` (of ${quantity})` : ''}</Label>
+              <Input
+                className="h-8"
+                type="number"
+                min="0"
+                value={defectiveQuantity}
+                onChange={(e) => handleDefectiveChange(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Refund amount (₹)</Label>
+              <Input
+                className="h-8"
+                type="number"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <Textarea
+            placeholder="Reason (shown to buyer and manufacturer)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+          />
+          {amount && !requestCheck.allowed && <p className="text-xs text-red-600">{requestCheck.reason}</p>}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={handleRequest}
+              disabled={
+                submitting ||
+                !requestCheck.allowed ||
+                !reason.trim() ||
+                (sourceType !== 'manual' && !sourceId)
+              }
+            >
+              {submitting ? "Recording..." : "Record Refund"}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={resetForm}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {refunds.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No refunds recorded.</p>
+      ) : (
+        refunds.map((refund) => (
+          <div key={refund.id} className="p-2 rounded border bg-background space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  ₹{Number(refund.amount).toLocaleString()}
+                  {refund.affected_quantity ? ` · ${refund.affected_quantity} pcs` : ''}
+                  <span className="text-xs text-muted-foreground font-normal">
+                    {' '}· {REFUND_SOURCE_LABELS[refund.source_type]}
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">{refund.reason}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(refund.requested_at), "MMM d, yyyy HH:mm")}
+                  {refund.rejection_reason && ` · ${refund.rejection_reason}`}
+                </p>
+              </div>
+              {refund.status === 'pending' && refund.processing_at ? (
+                <Badge className="bg-blue-100 text-blue-800">Being Paid Out</Badge>
+              ) : (
+                <Badge className={REFUND_STATUS_COLORS[refund.status]}>{REFUND_STATUS_LABELS[refund.status]}</Badge>
+              )}
+            </div>
+            {refund.status === 'pending' && refund.processing_at && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Payout started {format(new Date(refund.processing_at), "MMM d, HH:mm")}. Retrying books a refund the
+                  gateway already made instead of paying again.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleApprove(refund)} disabled={reviewingId === refund.id}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    {reviewingId === refund.id ? "Refunding..." : "Retry Approval"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRelease(refund)}
+                    disabled={reviewingId === refund.id}
+                  >
+                    <Unlock className="h-3 w-3 mr-1" />
+                    Release
+                  </Button>
+                </div>
+              </div>
+            )}
+            {refund.status === 'pending' && !refund.processing_at && (
+              rejectingId === refund.id ? (
+                <div className="flex gap-2">
+                  <Input
+                    className="h-8"
+                    placeholder="Rejection reason"
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                  />
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleReject(refund)}
+                    disabled={reviewingId === refund.id || !rejectionReason.trim()}
+                  >
+                    Reject
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setRejectingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleApprove(refund)} disabled={reviewingId === refund.id}>
+                    <CheckCircle2 className="h-3 w-3 mr-1" />
+                    {reviewingId === refund.id ? "Refunding..." : "Approve & Refund"}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setRejectingId(refund.id)}>
+                    <XCircle className="h-3 w-3 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              )
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default AdminRefundLedger;
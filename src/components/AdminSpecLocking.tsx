@@ -3,9 +3,10 @@
  * 
  * Mandatory form for admin to lock specs before production can start.
  * Stores data in order_specs table and uploads sample image to specs folder.
+ * Print dimensions and the size chart are the targets QC measurements are checked against.
  */
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,11 +14,12 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { Lock, CheckCircle2, Upload, AlertTriangle, FileImage } from "lucide-react";
+import { Lock, CheckCircle2, Upload, AlertTriangle, FileImage, Plus, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { uploadOrderFile } from "@/lib/orderFileStorage";
 import { logOrderEvent } from "@/lib/orderEventLogger";
+import { SizeChartRow, fetchMeasurementSpec, saveSizeChart } from "@/lib/qcMeasurements";
 
 interface AdminSpecLockingProps {
   order: {
@@ -39,8 +41,24 @@ interface SpecFormData {
   print_position: string;
   print_size: string;
   tolerance_mm: string;
+  print_width_mm: string;
+  print_height_mm: string;
+  print_offset_mm: string;
 }
 
+interface SizeChartFormRow {
+  size: string;
+  chest_cm: string;
+  length_cm: string;
+  sleeve_cm: string;
+  tolerance_cm: string;
+}
+
+const EMPTY_SIZE_ROW: SizeChartFormRow = { size: '', chest_cm: '', length_cm: '', sleeve_cm: '', tolerance_cm: '1' };
+
+// Empty = not checked
+const parseOptional = (value: string): number | null => (value.trim() === '' ? null : parseFloat(value));
+
 const PRINT_TYPES = ['DTG', 'Screen', 'Embroidery', 'None'];
 const PRINT_POSITIONS = ['Front', 'Back', 'Both', 'None'];
 
@@ -48,6 +66,7 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
   const [isLocking, setIsLocking] = useState(false);
   const [sampleImage, setSampleImage] = useState<File | null>(null);
   const [existingSpecs, setExistingSpecs] = useState<any>(null);
+  const [sizeChart, setSizeChart] = useState<SizeChartFormRow[]>([]);
   const [formData, setFormData] = useState<SpecFormData>({
     fabric_type: order.fabric_type || '',
     gsm: '',
@@ -56,6 +75,9 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
     print_position: '',
     print_size: '',
     tolerance_mm: '2',
+    print_width_mm: '',
+    print_height_mm: '',
+    print_offset_mm: '',
   });
 
   // Fetch existing specs if any
@@ -77,8 +99,20 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
           print_position: data.print_position || '',
           print_size: data.print_size || '',
           tolerance_mm: data.tolerance_mm?.toString() || '2',
+          print_width_mm: data.print_width_mm?.toString() || '',
+          print_height_mm: data.print_height_mm?.toString() || '',
+          print_offset_mm: data.print_offset_mm?.toString() || '',
         });
       }
+
+      const { sizeChart: chart } = await fetchMeasurementSpec(order.id);
+      setSizeChart(chart.map((row) => ({
+        size: row.size,
+        chest_cm: row.chest_cm?.toString() || '',
+        length_cm: row.length_cm?.toString() || '',
+        sleeve_cm: row.sleeve_cm?.toString() || '',
+        tolerance_cm: row.tolerance_cm.toString(),
+      })));
     };
     fetchSpecs();
   }, [order.id]);
@@ -108,6 +142,15 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
               <div><span className="text-muted-foreground">Print Position:</span> {existingSpecs.print_position}</div>
               <div><span className="text-muted-foreground">Print Size:</span> {existingSpecs.print_size}</div>
               <div><span className="text-muted-foreground">Tolerance:</span> {existingSpecs.tolerance_mm}mm</div>
+              {(existingSpecs.print_width_mm || existingSpecs.print_height_mm) && (
+                <div>
+                  <span className="text-muted-foreground">Print Dimensions:</span>{' '}
+                  {existingSpecs.print_width_mm ?? '—'} × {existingSpecs.print_height_mm ?? '—'}mm
+                </div>
+              )}
+              {existingSpecs.print_offset_mm != null && (
+                <div><span className="text-muted-foreground">Print Offset:</span> {existingSpecs.print_offset_mm}mm</div>
+              )}
               {existingSpecs.approved_sample_url && (
                 <div className="col-span-2">
                   <span className="text-muted-foreground">Sample Image:</span>{' '}
@@ -118,6 +161,27 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
               )}
             </div>
           )}
+          {sizeChart.length > 0 && (
+            <div className="mt-3 text-sm">
+              <p className="text-muted-foreground mb-1">Size Chart (cm):</p>
+              <div className="grid grid-cols-5 gap-x-3 gap-y-1">
+                <span className="text-xs text-muted-foreground">Size</span>
+                <span className="text-xs text-muted-foreground">Chest</span>
+                <span className="text-xs text-muted-foreground">Length</span>
+                <span className="text-xs text-muted-foreground">Sleeve</span>
+                <span className="text-xs text-muted-foreground">Tolerance</span>
+                {sizeChart.map((row) => (
+                  <Fragment key={row.size}>
+                    <span className="font-medium">{row.size}</span>
+                    <span>{row.chest_cm || '—'}</span>
+                    <span>{row.length_cm || '—'}</span>
+                    <span>{row.sleeve_cm || '—'}</span>
+                    <span>±{row.tolerance_cm}</span>
+                  </Fragment>
+                ))}
+              </div>
+            </div>
+          )}
           <p className="text-xs text-muted-foreground mt-3">
             Locked on {order.specs_locked_at ? new Date(order.specs_locked_at).toLocaleString() : 'N/A'}
           </p>
@@ -170,6 +234,32 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
       return;
     }
 
+    const printWidth = parseOptional(formData.print_width_mm);
+    const printHeight = parseOptional(formData.print_height_mm);
+    const printOffset = parseOptional(formData.print_offset_mm);
+
+    if ([printWidth, printHeight].some((value) => value !== null && (isNaN(value) || value <= 0)) ||
+        (printOffset !== null && (isNaN(printOffset) || printOffset < 0))) {
+      toast.error("Please enter valid print dimensions");
+      return;
+    }
+
+    const chartRows: SizeChartRow[] = sizeChart.map((row) => ({
+      size: row.size,
+      chest_cm: parseOptional(row.chest_cm),
+      length_cm: parseOptional(row.length_cm),
+      sleeve_cm: parseOptional(row.sleeve_cm),
+      tolerance_cm: parseFloat(row.tolerance_cm),
+    }));
+
+    if (chartRows.some((row) =>
+      isNaN(row.tolerance_cm) || row.tolerance_cm < 0 ||
+      [row.chest_cm, row.length_cm, row.sleeve_cm].some((value) => value !== null && (isNaN(value) || value <= 0))
+    )) {
+      toast.error("Please enter valid size chart measurements");
+      return;
+    }
+
     setIsLocking(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -207,6 +297,9 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
         print_position: formData.print_position,
         print_size: formData.print_size,
         tolerance_mm: tolerance,
+        print_width_mm: printWidth,
+        print_height_mm: printHeight,
+        print_offset_mm: printOffset,
         approved_sample_url: sampleUrl,
         locked_by: user.id,
         created_at: now,
@@ -218,6 +311,10 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
 
       if (specsError) throw specsError;
 
+      // Size chart is locked with the specs, so it has to be saved first
+      const chartResult = await saveSizeChart(order.id, chartRows);
+      if (!chartResult.success) throw new Error(chartResult.error);
+
       // Update order to mark specs as locked
       const { error: orderError } = await supabase
         .from('orders')
@@ -237,6 +334,7 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
         fabric_type: formData.fabric_type,
         gsm: gsm,
         print_type: formData.print_type,
+        size_chart_sizes: chartRows.length,
         timestamp: now,
       });
 
@@ -359,6 +457,36 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label>Print Width × Height (mm)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                value={formData.print_width_mm}
+                onChange={(e) => setFormData(prev => ({ ...prev, print_width_mm: e.target.value }))}
+                placeholder="Width"
+              />
+              <span className="text-muted-foreground">×</span>
+              <Input
+                type="number"
+                value={formData.print_height_mm}
+                onChange={(e) => setFormData(prev => ({ ...prev, print_height_mm: e.target.value }))}
+                placeholder="Height"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="print_offset_mm">Print Offset (mm)</Label>
+            <Input
+              id="print_offset_mm"
+              type="number"
+              value={formData.print_offset_mm}
+              onChange={(e) => setFormData(prev => ({ ...prev, print_offset_mm: e.target.value }))}
+              placeholder="Down from the neck seam"
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="sample_image">Approved Sample Image</Label>
             <div className="flex items-center gap-2">
@@ -379,6 +507,49 @@ const AdminSpecLocking = ({ order, onUpdate }: AdminSpecLockingProps) => {
           </div>
         </div>
 
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Size Chart (cm, flat)</Label>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setSizeChart(prev => [...prev, { ...EMPTY_SIZE_ROW }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Size
+            </Button>
+          </div>
+          {sizeChart.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No size chart - QC measurements will only check the print dimensions.
+            </p>
+          ) : (
+            sizeChart.map((row, index) => (
+              <div key={index} className="grid grid-cols-6 gap-2">
+                {(['size', 'chest_cm', 'length_cm', 'sleeve_cm', 'tolerance_cm'] as const).map((field) => (
+                  <Input
+                    key={field}
+                    type={field === 'size' ? 'text' : 'number'}
+                    value={row[field]}
+                    onChange={(e) => setSizeChart(prev => prev.map((entry, i) => (
+                      i === index ? { ...entry, [field]: field === 'size' ? e.target.value.toUpperCase() : e.target.value } : entry
+                    )))}
+                    placeholder={{ size: 'Size', chest_cm: 'Chest', length_cm: 'Length', sleeve_cm: 'Sleeve', tolerance_cm: '± cm' }[field]}
+                  />
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setSizeChart(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
         <Button
           onClick={handleLockSpecs}
           disabled={isLocking}
@@ -0,0 +1,194 @@
+/**
+ * AQL Sampling Plan
+ *
+ * Sample size and accept/reject numbers per defect class for an order's bulk lot. The buyer
+ * (or an admin) can change the inspection level and AQLs until the first inspection is
+ * recorded. With an inspection, shows the defective pieces found and the pass/fail result.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, ClipboardList, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AQL_VALUES,
+  AqlOrder,
+  BulkQCInspection,
+  DEFAULT_AQL,
+  DEFECT_CLASS_DESCRIPTIONS,
+  DEFECT_CLASS_LABELS,
+  DefectClass,
+  INSPECTION_LEVELS,
+  INSPECTION_LEVEL_LABELS,
+  InspectionLevel,
+  getAqlPlan,
+  getOrderAqlPlan,
+  updateOrderAqlSettings,
+} from "@/lib/aqlSampling";
+
+interface AqlSamplingPlanProps {
+  order: AqlOrder;
+  inspection?: BulkQCInspection | null;
+  editable?: boolean;
+  onUpdate?: () => void;
+}
+
+const DEFECT_CLASSES: DefectClass[] = ['critical', 'major', 'minor'];
+
+const AqlSamplingPlan = ({ order, inspection, editable = false, onUpdate }: AqlSamplingPlanProps) => {
+  const [level, setLevel] = useState<InspectionLevel>((order.qc_inspection_level as InspectionLevel) || DEFAULT_AQL.level);
+  const [aqlMajor, setAqlMajor] = useState(String(order.qc_aql_major ?? DEFAULT_AQL.major));
+  const [aqlMinor, setAqlMinor] = useState(String(order.qc_aql_minor ?? DEFAULT_AQL.minor));
+  const [saving, setSaving] = useState(false);
+
+  // An inspection keeps the plan it was recorded under
+  const plan = inspection
+    ? getAqlPlan(inspection.lot_size, inspection.inspection_level, Number(inspection.aql_major), Number(inspection.aql_minor))
+    : editable
+      ? getAqlPlan(order.quantity, level, Number(aqlMajor), Number(aqlMinor))
+      : getOrderAqlPlan(order);
+
+  const isDirty = editable && (
+    level !== (order.qc_inspection_level || DEFAULT_AQL.level)
+    || Number(aqlMajor) !== Number(order.qc_aql_major ?? DEFAULT_AQL.major)
+    || Number(aqlMinor) !== Number(order.qc_aql_minor ?? DEFAULT_AQL.minor)
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await updateOrderAqlSettings(order.id, { level, major: Number(aqlMajor), minor: Number(aqlMinor) });
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to update the sampling plan");
+      return;
+    }
+
+    toast.success("Sampling plan updated");
+    onUpdate?.();
+  };
+
+  const found: Record<DefectClass, number> | null = inspection
+    ? { critical: inspection.critical_found, major: inspection.major_found, minor: inspection.minor_found }
+    : null;
+  const accepted: Record<DefectClass, number> | null = inspection
+    ? { critical: inspection.critical_accept, major: inspection.major_accept, minor: inspection.minor_accept }
+    : null;
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          AQL Sampling Plan
+        </p>
+        {inspection && (
+          <Badge className={inspection.result === 'pass' ? 'bg-green-600' : 'bg-red-600'}>
+            {inspection.result === 'pass' ? (
+              <CheckCircle2 className="h-3 w-3 mr-1" />
+            ) : (
+              <XCircle className="h-3 w-3 mr-1" />
+            )}
+            {inspection.result === 'pass' ? 'Lot Accepted' : 'Lot Rejected'}
+          </Badge>
+        )}
+      </div>
+
+      {editable && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Inspection level</Label>
+            <Select value={level} onValueChange={(value) => setLevel(value as InspectionLevel)}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INSPECTION_LEVELS.map((value) => (
+                  <SelectItem key={value} value={value}>{INSPECTION_LEVEL_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Major AQL</Label>
+            <Select value={aqlMajor} onValueChange={setAqlMajor}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AQL_VALUES.map((value) => (
+                  <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Minor AQL</Label>
+            <Select value={aqlMinor} onValueChange={setAqlMinor}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AQL_VALUES.map((value) => (
+                  <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Lot of {plan.lotSize} pieces · {INSPECTION_LEVEL_LABELS[plan.level]} · code letter {plan.codeLetter} ·
+        inspect <span className="font-medium text-foreground">{plan.sampleSize}</span> randomly drawn pieces
+        {inspection && ` (${inspection.inspected_count} inspected)`}
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Defect class</TableHead>
+            <TableHead>AQL</TableHead>
+            <TableHead>Accept</TableHead>
+            <TableHead>Reject</TableHead>
+            {found && <TableHead>Found</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {DEFECT_CLASSES.map((defectClass) => {
+            const classPlan = plan.classes[defectClass];
+            const accept = accepted ? accepted[defectClass] : classPlan.accept;
+            const failed = found !== null && found[defectClass] > accept;
+            return (
+              <TableRow key={defectClass}>
+                <TableCell title={DEFECT_CLASS_DESCRIPTIONS[defectClass]}>{DEFECT_CLASS_LABELS[defectClass]}</TableCell>
+                <TableCell>{defectClass === 'critical' ? '0 (none allowed)' : classPlan.aql}</TableCell>
+                <TableCell>{accept}</TableCell>
+                <TableCell>{accept + 1}</TableCell>
+                {found && (
+                  <TableCell className={failed ? 'text-red-600 font-medium' : ''}>{found[defectClass]}</TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {inspection?.notes && (
+        <p className="text-xs text-muted-foreground">Inspector notes: {inspection.notes}</p>
+      )}
+
+      {isDirty && (
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save Sampling Plan"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AqlSamplingPlan;
@@ -0,0 +1,169 @@
+/**
+ * Bulk QC Inspection Form
+ *
+ * ROLE: Manufacturer records the AQL inspection of the bulk lot - pieces inspected and
+ * defective pieces per class. The result follows from the order's sampling plan; a rejected
+ * lot has to be reworked and inspected again before bulk QC can be submitted.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import AqlSamplingPlan from "@/components/AqlSamplingPlan";
+import {
+  AqlOrder,
+  BulkQCInspection,
+  DEFECT_CLASS_DESCRIPTIONS,
+  DEFECT_CLASS_LABELS,
+  DefectClass,
+  evaluateInspection,
+  fetchBulkQCInspections,
+  getOrderAqlPlan,
+  recordBulkQCInspection,
+} from "@/lib/aqlSampling";
+import { BulkQCOrder, BulkQCTransitionResult, canSubmitBulkQC } from "@/lib/bulkQCWorkflow";
+
+interface BulkQCInspectionFormProps {
+  orderId: string;
+  onCheckChange: (check: BulkQCTransitionResult) => void;
+}
+
+type InspectionOrder = AqlOrder & BulkQCOrder;
+
+const DEFECT_CLASSES: DefectClass[] = ['critical', 'major', 'minor'];
+
+const BulkQCInspectionForm = ({ orderId, onCheckChange }: BulkQCInspectionFormProps) => {
+  const [order, setOrder] = useState<InspectionOrder | null>(null);
+  const [latest, setLatest] = useState<BulkQCInspection | null>(null);
+  const [inspectedCount, setInspectedCount] = useState("");
+  const [found, setFound] = useState<Record<DefectClass, string>>({ critical: "0", major: "0", minor: "0" });
+  const [notes, setNotes] = useState("");
+  const [recording, setRecording] = useState(false);
+
+  useEffect(() => {
+    loadInspection();
+  }, [orderId]);
+
+  const loadInspection = async () => {
+    const [{ data, error }, inspections] = await Promise.all([
+      supabase
+        .from('orders')
+        .select('id, quantity, order_state, bulk_qc_uploaded_at, qc_inspection_level, qc_aql_major, qc_aql_minor')
+        .eq('id', orderId)
+        .single(),
+      fetchBulkQCInspections(orderId),
+    ]);
+
+    if (error || !data) {
+      console.error('[AQL] Failed to load order:', error);
+      return;
+    }
+
+    const current = data as InspectionOrder;
+    setOrder(current);
+    setLatest(inspections[0] || null);
+    setInspectedCount((count) => count || String(getOrderAqlPlan(current).sampleSize));
+    onCheckChange(canSubmitBulkQC(current, inspections[0] || null));
+  };
+
+  if (!order) {
+    return null;
+  }
+
+  const plan = getOrderAqlPlan(order);
+  const counts = {
+    inspectedCount: Number(inspectedCount),
+    criticalFound: Number(found.critical),
+    majorFound: Number(found.major),
+    minorFound: Number(found.minor),
+  };
+  const preview = evaluateInspection(plan, counts);
+  const check = canSubmitBulkQC(order, latest);
+
+  const handleRecord = async () => {
+    setRecording(true);
+    const result = await recordBulkQCInspection(order, counts, notes);
+    setRecording(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to record the inspection");
+      return;
+    }
+
+    if (result.data.result === 'pass') {
+      toast.success("Lot accepted - you can submit bulk QC");
+    } else {
+      toast.error("Lot rejected - rework the lot and inspect a new sample");
+    }
+    setFound({ critical: "0", major: "0", minor: "0" });
+    setNotes("");
+    loadInspection();
+  };
+
+  return (
+    <div className="space-y-4">
+      {latest && check.aqlResult ? (
+        <AqlSamplingPlan order={order} inspection={latest} />
+      ) : (
+        <AqlSamplingPlan order={order} />
+      )}
+
+      {check.aqlResult !== 'pass' && (
+        <div className="space-y-3 p-4 border rounded-lg">
+          <p className="text-sm font-medium">Record AQL Inspection</p>
+          <p className="text-xs text-muted-foreground">
+            Draw {plan.sampleSize} pieces at random from the packed lot, inspect every one and count the
+            defective pieces per class.
+          </p>
+          <div className="grid grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Pieces inspected</Label>
+              <Input
+                type="number"
+                min={plan.sampleSize}
+                max={plan.lotSize}
+                value={inspectedCount}
+                onChange={(e) => setInspectedCount(e.target.value)}
+              />
+            </div>
+            {DEFECT_CLASSES.map((defectClass) => (
+              <div key={defectClass} className="space-y-1">
+                <Label className="text-xs" title={DEFECT_CLASS_DESCRIPTIONS[defectClass]}>
+                  {DEFECT_CLASS_LABELS[defectClass]} (accept {plan.classes[defectClass].accept})
+                </Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={found[defectClass]}
+                  onChange={(e) => setFound((prev) => ({ ...prev, [defectClass]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Defects found, rework done since the last inspection..."
+            rows={2}
+          />
+          <div className="flex items-center justify-between">
+            <span className={`text-sm font-medium ${preview.result === 'pass' ? 'text-green-600' : 'text-red-600'}`}>
+              {preview.result === 'pass'
+                ? 'Lot will be accepted'
+                : `Lot will be rejected (${preview.failedClasses.map((defectClass) => DEFECT_CLASS_LABELS[defectClass].toLowerCase()).join(', ')})`}
+            </span>
+            <Button size="sm" onClick={handleRecord} disabled={recording}>
+              {recording ? "Recording..." : "Record Inspection"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkQCInspectionForm;
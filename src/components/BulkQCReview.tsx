@@ -5,12 +5,13 @@
  * 
  * Enforces:
  * - BULK_QC_UPLOADED required before READY_FOR_DISPATCH
- * - Buyer must Approve or Reject bulk QC
+ * - Buyer must Approve or Reject bulk QC; approval is blocked when the latest AQL
+ *   inspection rejected the lot or a measured piece is out of tolerance
  * - Rejection requires mandatory reason
- * - All actions logged via logOrderEvent
+ * - State changes go through transitionOrder, which logs the transition events
  * 
  * Bulk QC video should show:
- * - Randomly sampled units
+ * - Randomly drawn AQL sample
  * - Front + back views
  * - Print + stitching quality
  * - Packaging proof (sealed cartons, quantity visible)
@@ -23,10 +24,16 @@ import { Label } from "@/components/ui/label";
 import { CheckCircle, XCircle, Package, Video } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { logOrderEvent } from "@/lib/orderEventLogger";
+import { transitionOrder } from "@/lib/orderWorkflowEngine";
 import { trackBulkQCApproved } from "@/lib/analyticsLogger";
 import { storeQCDecisionEvidence, storeAdminQCFeedback } from "@/lib/evidenceStorage";
 import StructuredQCFeedback from "@/components/StructuredQCFeedback";
+import { QCDefectDraft, recordQCDefects, validateDefects } from "@/lib/qcDefects";
+import AqlSamplingPlan from "@/components/AqlSamplingPlan";
+import QCFrameComparison from "@/components/QCFrameComparison";
+import QCMeasurementResults from "@/components/QCMeasurementResults";
+import { QCMeasurement, fetchLatestMeasurements } from "@/lib/qcMeasurements";
+import { BulkQCInspection, fetchBulkQCInspections } from "@/lib/aqlSampling";
 import { 
   canApproveBulkQC, 
   canRejectBulkQC, 
@@ -42,10 +49,13 @@ interface BulkQCReviewProps {
 
 const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
   const [order, setOrder] = useState<any>(null);
+  const [latestInspection, setLatestInspection] = useState<BulkQCInspection | null>(null);
+  const [measurements, setMeasurements] = useState<QCMeasurement[]>([]);
   const [loading, setLoading] = useState(true);
   const [showRejectForm, setShowRejectForm] = useState(false);
   const [rejectReason, setRejectReason] = useState("");
   const [structuredFeedback, setStructuredFeedback] = useState("");
+  const [defects, setDefects] = useState<QCDefectDraft[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
@@ -62,6 +72,12 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
 
       if (error) throw error;
       setOrder(data);
+      const [inspections, latestMeasurements] = await Promise.all([
+        fetchBulkQCInspections(orderId),
+        fetchLatestMeasurements(orderId, 'bulk'),
+      ]);
+      setLatestInspection(inspections[0] || null);
+      setMeasurements(latestMeasurements);
     } catch (error) {
       console.error('Error fetching order:', error);
       toast.error('Failed to load order details');
@@ -86,7 +102,7 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
       order_mode: order.order_mode,
       order_intent: order.order_intent,
       quantity: order.quantity,
-    });
+    }, latestInspection, measurements);
     
     if (!approvalCheck.allowed) {
       toast.error(approvalCheck.reason);
@@ -101,24 +117,17 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
     try {
       const now = createBulkQCTimestamp();
       
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          bulk_qc_approved_at: now,
-          bulk_status: 'qc_approved',
-          qc_feedback: 'Bulk QC approved by buyer',
-          order_state: 'READY_FOR_DISPATCH',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
-
-      // Log bulk QC approved event
-      await logOrderEvent(orderId, 'bulk_qc_approved', createBulkQCActionMetadata('bulk_qc_approved', order, {
+      // BULK_QC_UPLOADED → READY_FOR_DISPATCH (logs bulk_qc_approved)
+      const result = await transitionOrder(order, 'READY_FOR_DISPATCH', 'buyer', {
+        bulk_qc_approved_at: now,
+        bulk_status: 'qc_approved',
+        qc_feedback: 'Bulk QC approved by buyer',
+      }, createBulkQCActionMetadata('bulk_qc_approved', order, {
         approval_timestamp: now,
+        aql_inspection_id: latestInspection?.id ?? null,
       }));
+
+      if (!result.success) throw new Error(result.error);
       
       // Track bulk QC approved for analytics dashboard
       await trackBulkQCApproved(orderId, order.buyer_id);
@@ -167,30 +176,31 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
     // END: BULK QC WORKFLOW ENFORCEMENT
     // =====================================================
 
+    const defectCheck = validateDefects(defects, true);
+    if (!defectCheck.valid) {
+      toast.error(defectCheck.reason);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       const now = createBulkQCTimestamp();
-      
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          bulk_status: 'qc_rejected',
-          qc_feedback: `Bulk QC Rejected: ${rejectReason}`,
-          qc_feedback_structured: structuredFeedback || null,
-          // Go back to bulk in production for manufacturer to re-do
-          order_state: 'BULK_IN_PRODUCTION',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', orderId);
 
-      if (error) throw error;
+      // Defects first - they attach to the QC submission being rejected
+      const defectResult = await recordQCDefects(orderId, 'bulk', defects);
+      if (!defectResult.success) throw new Error(defectResult.error);
       
-      // Log bulk QC rejected event with reason
-      await logOrderEvent(orderId, 'bulk_qc_rejected', createBulkQCActionMetadata('bulk_qc_rejected', order, {
+      // Go back to bulk in production for manufacturer to re-do (logs bulk_qc_rejected)
+      const result = await transitionOrder(order, 'BULK_IN_PRODUCTION', 'buyer', {
+        bulk_status: 'qc_rejected',
+        qc_feedback: `Bulk QC Rejected: ${rejectReason}`,
+        qc_feedback_structured: structuredFeedback || null,
+      }, createBulkQCActionMetadata('bulk_qc_rejected', order, {
         reason: rejectReason,
         rejection_timestamp: now,
       }));
+
+      if (!result.success) throw new Error(result.error);
       
       // Store rejection evidence
       await storeQCDecisionEvidence(orderId, order.buyer_id, 'bulk', 'rejected', rejectReason, structuredFeedback);
@@ -204,6 +214,7 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
       setShowRejectForm(false);
       setRejectReason("");
       setStructuredFeedback("");
+      setDefects([]);
       fetchOrder();
       onStatusChange?.();
     } catch (error) {
@@ -231,6 +242,8 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
   // Show approval status if already processed
   const isApproved = order.bulk_qc_approved_at || orderState === 'READY_FOR_DISPATCH' || orderState === 'DISPATCHED' || orderState === 'DELIVERED' || orderState === 'COMPLETED';
   const isRejected = order.bulk_status === 'qc_rejected';
+  const aqlFailed = latestInspection?.result === 'fail';
+  const measurementsFailed = measurements.some((measurement) => measurement.result === 'fail');
 
   if (!bulkVideoUrl && !isApproved) {
     return (
@@ -291,18 +304,35 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
             </video>
           </div>
 
+          {/* Bulk keyframes vs approved sample and mockup */}
+          <QCFrameComparison orderId={orderId} stage="bulk" />
+
           {/* Quantity info */}
           <div className="p-3 bg-muted rounded-lg flex items-center justify-between">
             <span className="text-sm font-medium">Order Quantity:</span>
             <span className="text-lg font-bold">{order.quantity} pieces</span>
           </div>
 
+          {latestInspection && <AqlSamplingPlan order={order} inspection={latestInspection} />}
+          {aqlFailed && (
+            <p className="text-sm text-red-600">
+              The lot failed AQL inspection and cannot be approved. Reject it so the manufacturer reworks the lot.
+            </p>
+          )}
+
+          <QCMeasurementResults measurements={measurements} />
+          {measurementsFailed && (
+            <p className="text-sm text-red-600">
+              Measured pieces are out of tolerance and the lot cannot be approved. Reject it with the measurement defects.
+            </p>
+          )}
+
           {/* Action buttons - only show when order_state is BULK_QC_UPLOADED */}
           <div className="space-y-3">
             <div className="flex gap-3">
               <Button 
                 onClick={handleApprove}
-                disabled={isSubmitting}
+                disabled={isSubmitting || aqlFailed || measurementsFailed}
                 className="flex-1 bg-green-600 hover:bg-green-700 text-white"
               >
                 <CheckCircle className="w-4 h-4 mr-2" />
@@ -338,8 +368,13 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
                 {/* Structured QC Feedback - for ML labeling */}
                 <div className="pt-3 border-t border-red-200">
                   <StructuredQCFeedback
-                    value={structuredFeedback}
-                    onChange={setStructuredFeedback}
+                    orderId={orderId}
+                    productType={order.product_type}
+                    defects={defects}
+                    onChange={(next, summary) => {
+                      setDefects(next);
+                      setStructuredFeedback(summary);
+                    }}
                     isRequired={true}
                     stage="bulk"
                   />
@@ -350,7 +385,7 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
                     onClick={handleReject} 
                     size="sm"
                     variant="destructive"
-                    disabled={isSubmitting || rejectReason.trim().length < 10}
+                    disabled={isSubmitting || rejectReason.trim().length < 10 || !validateDefects(defects, true).valid}
                   >
                     {isSubmitting ? 'Rejecting...' : 'Confirm Rejection'}
                   </Button>
@@ -359,6 +394,7 @@ const BulkQCReview = ({ orderId, onStatusChange }: BulkQCReviewProps) => {
                       setShowRejectForm(false);
                       setRejectReason("");
                       setStructuredFeedback("");
+                      setDefects([]);
                     }} 
                     size="sm"
                     variant="outline"
@@ -0,0 +1,134 @@
+/**
+ * Buyer Order Cancellation
+ *
+ * Buyers can cancel their own order before payment is confirmed.
+ * After PAYMENT_CONFIRMED only an admin can cancel (see AdminOrderHoldCancel).
+ */
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Ban, PauseCircle } from "lucide-react";
+import { toast } from "sonner";
+import { OrderState, canBuyerCancel } from "@/lib/orderStateMachineV2";
+import { HoldCancelOrder, cancelOrder } from "@/lib/orderHoldCancel";
+
+interface BuyerCancelOrderProps {
+  order: HoldCancelOrder;
+  userId: string;
+  onUpdate: () => void;
+}
+
+const BuyerCancelOrder = ({ order, userId, onUpdate }: BuyerCancelOrderProps) => {
+  const [reason, setReason] = useState("");
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const orderState = order.order_state as OrderState | null;
+
+  if (orderState === 'CANCELLED') {
+    return (
+      <Alert className="border-red-200 bg-red-50">
+        <Ban className="h-4 w-4 text-red-600" />
+        <AlertDescription className="text-red-800">
+          <strong>This order has been cancelled.</strong>
+          {order.cancellation_reason && <p className="mt-1">Reason: {order.cancellation_reason}</p>}
+          {order.refunded_at && <p className="mt-1">Your payment has been refunded.</p>}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (orderState === 'ON_HOLD') {
+    return (
+      <Alert className="border-slate-300 bg-slate-50">
+        <PauseCircle className="h-4 w-4 text-slate-600" />
+        <AlertDescription className="text-slate-800">
+          <strong>This order is on hold.</strong>
+          {order.hold_reason && <p className="mt-1">{order.hold_reason}</p>}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!canBuyerCancel(orderState)) {
+    return null;
+  }
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    const result = await cancelOrder(order, 'buyer', userId, reason);
+    setIsCancelling(false);
+
+    if (!result.success) {
+      console.error('[BuyerCancelOrder] Error:', result.error);
+      toast.error(result.error || "Failed to cancel order");
+      return;
+    }
+
+    toast.success("Order cancelled");
+    setReason("");
+    onUpdate();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Ban className="h-5 w-5" />
+          Cancel Order
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          You can cancel this order until payment is confirmed.
+        </p>
+        <div className="space-y-2">
+          <Label>Reason for cancellation</Label>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Tell us why you are cancelling..."
+            className="min-h-16"
+          />
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={!reason.trim() || isCancelling}>
+              {isCancelling ? "Cancelling..." : "Cancel Order"}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This cannot be undone. You will need to place a new order to continue.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Order</AlertDialogCancel>
+              <AlertDialogAction onClick={handleCancel} className="bg-destructive text-destructive-foreground">
+                Confirm Cancellation
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BuyerCancelOrder;
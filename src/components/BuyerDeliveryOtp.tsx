@@ -0,0 +1,121 @@
+/**
+ * Buyer Delivery OTP
+ *
+ * The OTP the buyer gives the courier when the goods arrive - it is the proof of
+ * delivery, so it is shown only here. A locked OTP (five wrong entries) can be replaced.
+ * Once delivery is confirmed, shows who confirmed it and when.
+ */
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, KeyRound, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  DeliveryOtp,
+  DeliveryProof,
+  POD_MAX_OTP_ATTEMPTS,
+  fetchDeliveryOtp,
+  fetchDeliveryProof,
+  regenerateDeliveryOtp,
+} from "@/lib/proofOfDelivery";
+
+interface BuyerDeliveryOtpProps {
+  order: {
+    id: string;
+    delivery_status?: string | null;
+    pod_confirmed_at?: string | null;
+  };
+}
+
+const BuyerDeliveryOtp = ({ order }: BuyerDeliveryOtpProps) => {
+  const [otp, setOtp] = useState<DeliveryOtp | null>(null);
+  const [proof, setProof] = useState<DeliveryProof | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+
+  useEffect(() => {
+    loadOtp();
+  }, [order.id, order.delivery_status, order.pod_confirmed_at]);
+
+  const loadOtp = async () => {
+    const [currentOtp, currentProof] = await Promise.all([
+      fetchDeliveryOtp(order.id),
+      fetchDeliveryProof(order.id),
+    ]);
+    setOtp(currentOtp);
+    setProof(currentProof);
+  };
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    const result = await regenerateDeliveryOtp(order.id);
+    setRegenerating(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to generate a new OTP");
+      return;
+    }
+
+    toast.success("New delivery OTP generated");
+    loadOtp();
+  };
+
+  if (proof) {
+    return (
+      <Card className="border-green-200">
+        <CardContent className="pt-6 flex items-start gap-3">
+          <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5" />
+          <div>
+            <p className="font-medium">Delivery confirmed with your OTP</p>
+            <p className="text-sm text-muted-foreground">
+              {format(new Date(proof.confirmed_at), "dd MMM yyyy, HH:mm")}
+              {proof.recipient_name && ` · Received by ${proof.recipient_name}`}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!otp) {
+    return null;
+  }
+
+  const locked = otp.failed_attempts >= POD_MAX_OTP_ATTEMPTS;
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Delivery OTP
+        </CardTitle>
+        <CardDescription>
+          Share this code with the courier only once you have the goods in hand. It confirms the delivery.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {locked ? (
+          <p className="text-sm text-destructive">
+            This OTP was entered incorrectly {POD_MAX_OTP_ATTEMPTS} times and is locked.
+          </p>
+        ) : (
+          <p className="text-3xl font-bold font-mono tracking-[0.4em]">{otp.code}</p>
+        )}
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            Issued {format(new Date(otp.generated_at), "dd MMM yyyy, HH:mm")}
+            {otp.failed_attempts > 0 && !locked && ` · ${otp.failed_attempts} wrong attempt(s)`}
+          </p>
+          <Button size="sm" variant={locked ? "default" : "ghost"} onClick={handleRegenerate} disabled={regenerating}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${regenerating ? 'animate-spin' : ''}`} />
+            New OTP
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BuyerDeliveryOtp;
@@ -0,0 +1,100 @@
+/**
+ * Buyer Delivery Plan
+ *
+ * Lets the buyer of a bulk order ship it to several addresses (hostels, chapters)
+ * until pickup is scheduled. Once a shipment is booked the plan is read-only and
+ * progress is shown in BuyerDeliveryTracking.
+ */
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MapPin, Split } from "lucide-react";
+import DeliveryPlanDialog from "@/components/DeliveryPlanDialog";
+import { Shipment, fetchOrderShipments } from "@/lib/courier";
+import { formatSizeBreakdown } from "@/lib/deliveryPlan";
+
+interface BuyerDeliveryPlanProps {
+  order: {
+    id: string;
+    quantity: number;
+    delivery_status?: string | null;
+    order_state?: string | null;
+    corrected_csv_url?: string | null;
+  };
+}
+
+const BuyerDeliveryPlan = ({ order }: BuyerDeliveryPlanProps) => {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [planOpen, setPlanOpen] = useState(false);
+
+  useEffect(() => {
+    loadShipments();
+  }, [order.id, order.delivery_status]);
+
+  const loadShipments = async () => {
+    setShipments(await fetchOrderShipments(order.id));
+  };
+
+  const canPlan = order.quantity > 1
+    && !['DRAFT', 'CANCELLED', 'COMPLETED'].includes(order.order_state || 'DRAFT')
+    && ['NOT_STARTED', 'PACKED'].includes(order.delivery_status || 'NOT_STARTED')
+    && !shipments.some((shipment) => shipment.provider || shipment.awb_code);
+
+  // Nothing to show for single-address orders past the planning window
+  if (!canPlan && shipments.length < 2) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Delivery Addresses
+          </CardTitle>
+          {canPlan && (
+            <Button size="sm" variant="outline" onClick={() => setPlanOpen(true)}>
+              <Split className="h-4 w-4 mr-1" />
+              {shipments.length > 0 ? "Edit Split" : "Split Delivery"}
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          {shipments.length > 0
+            ? `Shipping to ${shipments.length} address(es)`
+            : "Shipping to your order address. Split the delivery to send pieces to several hostels or chapters."}
+        </CardDescription>
+      </CardHeader>
+      {shipments.length > 0 && (
+        <CardContent className="space-y-2">
+          {shipments.map((shipment) => (
+            <div key={shipment.id} className="flex items-start justify-between p-3 bg-muted/50 rounded-lg text-sm">
+              <div>
+                <p className="font-medium">{shipment.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {shipment.delivery_address.name}, {shipment.delivery_address.addressLine1}, {shipment.delivery_address.city} {shipment.delivery_address.pincode}
+                </p>
+                {Object.keys(shipment.allocation?.sizes || {}).length > 0 && (
+                  <p className="text-xs text-muted-foreground">{formatSizeBreakdown(shipment.allocation.sizes!)}</p>
+                )}
+              </div>
+              <span className="font-medium whitespace-nowrap">{shipment.quantity} pcs</span>
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <DeliveryPlanDialog
+        order={order}
+        shipments={shipments}
+        open={planOpen}
+        onOpenChange={setPlanOpen}
+        onSaved={loadShipments}
+      />
+    </Card>
+  );
+};
+
+export default BuyerDeliveryPlan;
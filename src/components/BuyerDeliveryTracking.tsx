@@ -4,8 +4,11 @@
  * Shows delivery status and tracking info to buyer.
  * Buyer can ONLY VIEW tracking - no actions allowed.
  * Tracking is shown INSIDE Leorit only (no external links to carrier sites).
+ * Courier scans (booked shipments) are listed as the scan history.
+ * Split orders list each shipment with its own status and tracking.
  */
 
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Truck, Package, CheckCircle2, Clock, MapPin } from "lucide-react";
@@ -16,6 +19,8 @@ import {
   getDeliveryStateColor,
   DeliveryState,
 } from "@/lib/deliveryStateMachine";
+import ShipmentScanHistory from "@/components/ShipmentScanHistory";
+import { Shipment, ShipmentTrackingEvent, fetchOrderShipments, fetchShipmentTrackingEvents } from "@/lib/courier";
 
 interface BuyerDeliveryTrackingProps {
   order: {
@@ -34,6 +39,18 @@ interface BuyerDeliveryTrackingProps {
 
 const BuyerDeliveryTracking = ({ order }: BuyerDeliveryTrackingProps) => {
   const trackingInfo = getBuyerVisibleTrackingInfo(order);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [scanEvents, setScanEvents] = useState<ShipmentTrackingEvent[]>([]);
+
+  useEffect(() => {
+    loadScans();
+  }, [order.id, order.delivery_status]);
+
+  const loadScans = async () => {
+    const orderShipments = await fetchOrderShipments(order.id);
+    setShipments(orderShipments);
+    setScanEvents(await fetchShipmentTrackingEvents(orderShipments.map((shipment) => shipment.id)));
+  };
   
   // Don't show if delivery hasn't started
   if (!trackingInfo.canSeeTracking) {
@@ -161,6 +178,47 @@ const BuyerDeliveryTracking = ({ order }: BuyerDeliveryTrackingProps) => {
           </div>
         )}
 
+        {/* Split delivery - one entry per shipment */}
+        {shipments.length > 1 && (
+          <div className="pt-4 border-t space-y-3">
+            <h4 className="text-sm font-medium text-muted-foreground">
+              Shipments ({shipments.filter((s) => s.delivery_status === 'DELIVERED').length} of {shipments.length} delivered)
+            </h4>
+            {shipments.map((shipment) => {
+              const events = scanEvents.filter((event) => event.shipment_id === shipment.id);
+              return (
+                <div key={shipment.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-sm font-medium">{shipment.label} · {shipment.quantity} pcs</p>
+                      <p className="text-xs text-muted-foreground">
+                        {shipment.delivery_address.city} {shipment.delivery_address.pincode}
+                      </p>
+                    </div>
+                    <Badge className={getDeliveryStateColor(shipment.delivery_status)}>
+                      {getDeliveryStateLabel(shipment.delivery_status)}
+                    </Badge>
+                  </div>
+                  {shipment.awb_code && (
+                    <p className="text-xs">
+                      {shipment.courier_name} · <span className="font-mono">{shipment.awb_code}</span>
+                    </p>
+                  )}
+                  {events.length > 0 && <ShipmentScanHistory events={events} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Scan History - courier scans for booked shipments */}
+        {shipments.length <= 1 && scanEvents.length > 0 && (
+          <div className="pt-4 border-t space-y-3">
+            <h4 className="text-sm font-medium text-muted-foreground">Scan History</h4>
+            <ShipmentScanHistory events={scanEvents} />
+          </div>
+        )}
+
         {/* Info Notice */}
         <div className="p-3 bg-muted/50 rounded-lg text-xs text-muted-foreground">
           <strong>Note:</strong> Tracking updates are managed by Leorit. 
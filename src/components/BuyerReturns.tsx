@@ -0,0 +1,144 @@
+/**
+ * Buyer Returns
+ *
+ * Returns (RMAs) of a delivered order: raise one with photos, follow the review,
+ * the return pickup and the remake, or withdraw it before it is reviewed.
+ */
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import RmaRequestDialog from "@/components/RmaRequestDialog";
+import { Shipment, fetchRmaShipments } from "@/lib/courier";
+import { getDeliveryStateLabel } from "@/lib/deliveryStateMachine";
+import {
+  REMAKE_STATUS_LABELS,
+  RMA_REASON_LABELS,
+  RMA_RESOLUTION_LABELS,
+  RMA_STATUS_COLORS,
+  RMA_STATUS_LABELS,
+  Rma,
+  canRequestRma,
+  fetchRmas,
+  withdrawRma,
+} from "@/lib/rma";
+
+interface BuyerReturnsProps {
+  order: {
+    id: string;
+    quantity: number;
+    delivery_status?: string | null;
+    order_state?: string | null;
+    delivered_at?: string | null;
+  };
+}
+
+const BuyerReturns = ({ order }: BuyerReturnsProps) => {
+  const [rmas, setRmas] = useState<Rma[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [requestOpen, setRequestOpen] = useState(false);
+
+  useEffect(() => {
+    loadRmas();
+  }, [order.id, order.delivery_status]);
+
+  const loadRmas = async () => {
+    const data = await fetchRmas({ orderId: order.id });
+    setRmas(data);
+    setShipments(await fetchRmaShipments(data.map((rma) => rma.id)));
+  };
+
+  const handleWithdraw = async (rma: Rma) => {
+    const result = await withdrawRma(rma.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to withdraw the return");
+      return;
+    }
+    toast.success(`Return ${rma.reference} withdrawn`);
+    loadRmas();
+  };
+
+  const eligibility = canRequestRma(order, rmas);
+
+  if (order.delivery_status !== 'DELIVERED' && rmas.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Returns & Remakes
+          </CardTitle>
+          {eligibility.allowed && (
+            <Button size="sm" variant="outline" onClick={() => setRequestOpen(true)}>
+              Report a Problem
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          {eligibility.allowed
+            ? "Wrong sizes or damaged pieces? Report them with photos and we'll remake or refund them."
+            : eligibility.reason}
+        </CardDescription>
+      </CardHeader>
+      {rmas.length > 0 && (
+        <CardContent className="space-y-3">
+          {rmas.map((rma) => (
+            <div key={rma.id} className="p-3 bg-muted/50 rounded-lg text-sm space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium">{rma.reference}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {RMA_REASON_LABELS[rma.reason]} · {rma.requested_quantity} pcs · raised {format(new Date(rma.created_at), 'dd MMM yyyy')}
+                  </p>
+                </div>
+                <Badge className={RMA_STATUS_COLORS[rma.status]}>{RMA_STATUS_LABELS[rma.status]}</Badge>
+              </div>
+
+              {rma.resolution && (
+                <p className="text-xs">
+                  {RMA_RESOLUTION_LABELS[rma.resolution]} approved for {rma.approved_quantity} pcs
+                  {rma.remake_status && ` · Remake: ${REMAKE_STATUS_LABELS[rma.remake_status]}`}
+                </p>
+              )}
+              {rma.review_note && (
+                <p className="text-xs text-muted-foreground">Note: {rma.review_note}</p>
+              )}
+
+              {shipments.filter((shipment) => shipment.rma_id === rma.id).map((shipment) => (
+                <p key={shipment.id} className="text-xs text-muted-foreground">
+                  {shipment.direction === 'return' ? 'Return pickup' : 'Replacements'}: {getDeliveryStateLabel(shipment.delivery_status)}
+                  {shipment.courier_name && ` · ${shipment.courier_name}`}
+                  {shipment.awb_code && ` (${shipment.awb_code})`}
+                </p>
+              ))}
+
+              {rma.status === 'requested' && (
+                <Button size="sm" variant="ghost" onClick={() => handleWithdraw(rma)}>
+                  Withdraw
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <RmaRequestDialog
+        orderId={order.id}
+        maxQuantity={eligibility.remaining}
+        open={requestOpen}
+        onOpenChange={setRequestOpen}
+        onSubmitted={loadRmas}
+      />
+    </Card>
+  );
+};
+
+export default BuyerReturns;
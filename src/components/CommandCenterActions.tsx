@@ -2,7 +2,8 @@
  * Command Center Admin Actions
  * 
  * Admin controls for order intervention:
- * - Assign / reassign manufacturer
+ * - Assign / reassign manufacturer (with routing suggestions)
+ * - Capacity warnings when an assignment would overbook the factory or miss the deadline
  * - Assign courier + tracking ID
  * - Manual delivery state transitions
  * 
@@ -38,13 +39,17 @@ import { Factory, Truck, RefreshCw, AlertTriangle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { logOrderEvent } from "@/lib/orderEventLogger";
-import { logStateChange, validateStateTransition } from "@/lib/stateChangeLogger";
+import { logStateChange } from "@/lib/stateChangeLogger";
+import { OrderTransitionUpdates, transitionOrder } from "@/lib/orderWorkflowEngine";
 import {
   canAdminSchedulePickup,
   canAdminMarkInTransit,
   canAdminMarkDelivered,
   DeliveryState,
 } from "@/lib/deliveryStateMachine";
+import { RoutingRecommendation } from "@/lib/manufacturerRouting";
+import { CapacityCheck, checkAssignmentCapacity } from "@/lib/manufacturerCapacity";
+import ManufacturerRoutingSuggestions from "@/components/ManufacturerRoutingSuggestions";
 
 interface CommandCenterActionsProps {
   order: any;
@@ -57,6 +62,10 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
   const [availableManufacturers, setAvailableManufacturers] = useState<any[]>([]);
   const [selectedManufacturer, setSelectedManufacturer] = useState<string>("");
   const [assigningManufacturer, setAssigningManufacturer] = useState(false);
+  const [capacityCheck, setCapacityCheck] = useState<{ manufacturerId: string; result: CapacityCheck } | null>(null);
+  const [checkingCapacity, setCheckingCapacity] = useState(false);
+  // Suggestion held back because of capacity warnings, assigned via the Assign button
+  const [pendingRouting, setPendingRouting] = useState<{ recommendation: RoutingRecommendation; rank: number } | null>(null);
 
   // Courier assignment
   const [courierName, setCourierName] = useState(order.courier_name || "");
@@ -70,6 +79,37 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
     fetchManufacturers();
   }, []);
 
+  useEffect(() => {
+    if (!selectedManufacturer) {
+      setCapacityCheck(null);
+      return;
+    }
+    runCapacityCheck(selectedManufacturer);
+  }, [selectedManufacturer]);
+
+  const runCapacityCheck = async (manufacturerId: string): Promise<CapacityCheck> => {
+    setCheckingCapacity(true);
+    const result = await checkAssignmentCapacity(order, manufacturerId);
+    setCapacityCheck({ manufacturerId, result });
+    setCheckingCapacity(false);
+    return result;
+  };
+
+  /**
+   * One-click suggestion: assign straight away unless the factory would be
+   * overbooked or miss the deadline - then select it and let the admin confirm
+   */
+  const handleAcceptSuggestion = async (recommendation: RoutingRecommendation, rank: number) => {
+    const check = await runCapacityCheck(recommendation.manufacturerId);
+    if (check.hasCapacityModel && check.warnings.length > 0) {
+      setSelectedManufacturer(recommendation.manufacturerId);
+      setPendingRouting({ recommendation, rank });
+      toast.warning(`${recommendation.companyName}: capacity warnings - review before assigning`);
+      return;
+    }
+    await handleAssignManufacturer(recommendation.manufacturerId, { recommendation, rank });
+  };
+
   const fetchManufacturers = async () => {
     // Use approved_manufacturers as the source of truth
     // Only fetch manufacturers that have linked their auth account
@@ -90,8 +130,11 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
     setAvailableManufacturers(active);
   };
 
-  const handleAssignManufacturer = async () => {
-    if (!selectedManufacturer) {
+  const handleAssignManufacturer = async (
+    manufacturerId: string = selectedManufacturer,
+    routing?: { recommendation: RoutingRecommendation; rank: number }
+  ) => {
+    if (!manufacturerId) {
       toast.error("Select a manufacturer");
       return;
     }
@@ -109,71 +152,72 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
       return;
     }
 
-    // Validate the transition (new assignment only)
-    if (!isReassign) {
-      const validationError = validateStateTransition(currentState, 'MANUFACTURER_ASSIGNED');
-      if (validationError) {
-        toast.error(validationError);
-        return;
-      }
-    }
-
     setAssigningManufacturer(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       const now = new Date().toISOString();
 
-      const updateData: any = {
-        manufacturer_id: selectedManufacturer,
+      const assignment: OrderTransitionUpdates = {
+        manufacturer_id: manufacturerId,
         assigned_at: now,
         detailed_status: 'submitted_to_manufacturer',
-        state_updated_at: now,
-        updated_at: now,
       };
-
-      // Only change state if not already MANUFACTURER_ASSIGNED (new assignment)
-      if (currentState === 'ADMIN_APPROVED') {
-        updateData.order_state = 'MANUFACTURER_ASSIGNED';
-      }
-
-      // CRITICAL FIX: Use .select() to verify update happened
-      const { data, error } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', order.id)
-        .select('order_state, manufacturer_id')
-        .single();
-
-      if (error) {
-        console.error('[CommandCenterActions] Update error:', error);
-        throw error;
-      }
-
-      // Verify the update actually happened
-      if (!data || data.manufacturer_id !== selectedManufacturer) {
-        console.error('[CommandCenterActions] Manufacturer assignment failed:', data);
-        throw new Error('Manufacturer assignment failed - please refresh and try again');
-      }
-
-      console.log('[CommandCenterActions] Successfully assigned manufacturer:', data);
-
-      // Log state change only for new assignments (use valid actor_role)
-      if (currentState === 'ADMIN_APPROVED') {
-        await logStateChange(order.id, 'ADMIN_APPROVED', 'MANUFACTURER_ASSIGNED', user?.id || 'admin', 'admin');
-      }
-
-      await logOrderEvent(order.id, 'manufacturer_assigned', {
-        manufacturer_id: selectedManufacturer,
+      const assignmentMetadata = {
+        manufacturer_id: manufacturerId,
         previous_manufacturer_id: order.manufacturer_id,
         is_reassignment: isReassign,
         previous_state: currentState,
         new_state: 'MANUFACTURER_ASSIGNED',
         assigned_by: 'admin_command_center',
         timestamp: now,
-      });
+        ...(capacityCheck?.manufacturerId === manufacturerId && {
+          capacity_warnings: capacityCheck.result.warnings,
+        }),
+        ...(routing && {
+          routing: {
+            rank: routing.rank,
+            score: routing.recommendation.score,
+            breakdown: routing.recommendation.breakdown,
+            reasons: routing.recommendation.reasons,
+            warnings: routing.recommendation.warnings,
+          },
+        }),
+      };
+
+      if (currentState === 'ADMIN_APPROVED') {
+        // New assignment: ADMIN_APPROVED → MANUFACTURER_ASSIGNED (logs manufacturer_assigned)
+        const result = await transitionOrder(order, 'MANUFACTURER_ASSIGNED', 'admin', assignment, assignmentMetadata);
+        if (!result.success) {
+          throw new Error(result.error || 'Manufacturer assignment failed - please refresh and try again');
+        }
+
+        // Log state change (use valid actor_role)
+        await logStateChange(order.id, 'ADMIN_APPROVED', 'MANUFACTURER_ASSIGNED', user?.id || 'admin', 'admin');
+      } else {
+        // Re-assignment keeps the state; use .select() to verify the update happened
+        const { data, error } = await supabase
+          .from('orders')
+          .update({ ...assignment, updated_at: now })
+          .eq('id', order.id)
+          .select('order_state, manufacturer_id')
+          .single();
+
+        if (error) {
+          console.error('[CommandCenterActions] Update error:', error);
+          throw error;
+        }
+
+        if (!data || data.manufacturer_id !== manufacturerId) {
+          console.error('[CommandCenterActions] Manufacturer assignment failed:', data);
+          throw new Error('Manufacturer assignment failed - please refresh and try again');
+        }
+
+        await logOrderEvent(order.id, 'manufacturer_assigned', assignmentMetadata);
+      }
 
       toast.success(isReassign ? "Manufacturer reassigned" : "Manufacturer assigned → Next: Add payment link");
       setSelectedManufacturer("");
+      setPendingRouting(null);
       onUpdate();
     } catch (error: any) {
       console.error('Error assigning manufacturer:', error);
@@ -250,20 +294,19 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
       const estimatedDelivery = new Date();
       estimatedDelivery.setDate(estimatedDelivery.getDate() + 3);
 
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          delivery_status: 'IN_TRANSIT',
-          in_transit_at: now,
-          dispatched_at: now,
-          estimated_delivery_date: estimatedDelivery.toISOString(),
-          order_state: 'DISPATCHED',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', order.id);
+      // READY_FOR_DISPATCH → DISPATCHED (logs dispatched)
+      const transition = await transitionOrder(order, 'DISPATCHED', 'admin', {
+        delivery_status: 'IN_TRANSIT',
+        in_transit_at: now,
+        dispatched_at: now,
+        estimated_delivery_date: estimatedDelivery.toISOString(),
+      }, {
+        dispatched_at: now,
+        estimated_delivery: estimatedDelivery.toISOString(),
+        marked_by: 'admin_command_center',
+      });
 
-      if (error) throw error;
+      if (!transition.success) throw new Error(transition.error);
 
       await logOrderEvent(order.id, 'in_transit', {
         marked_by: 'admin_command_center',
@@ -272,12 +315,6 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
         timestamp: now,
       });
 
-      await logOrderEvent(order.id, 'dispatched', {
-        dispatched_at: now,
-        estimated_delivery: estimatedDelivery.toISOString(),
-        marked_by: 'admin_command_center',
-      });
-
       toast.success("Marked as In Transit");
       onUpdate();
     } catch (error: any) {
@@ -299,25 +336,18 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
     try {
       const now = new Date().toISOString();
 
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          delivery_status: 'DELIVERED',
-          delivered_at: now,
-          order_state: 'DELIVERED',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', order.id);
-
-      if (error) throw error;
-
-      await logOrderEvent(order.id, 'order_delivered', {
+      // DISPATCHED → DELIVERED (logs order_delivered)
+      const transition = await transitionOrder(order, 'DELIVERED', 'admin', {
+        delivery_status: 'DELIVERED',
+        delivered_at: now,
+      }, {
         marked_by: 'admin_command_center',
         tracking_id: order.tracking_id,
         timestamp: now,
       });
 
+      if (!transition.success) throw new Error(transition.error);
+
       toast.success("Marked as Delivered");
       onUpdate();
     } catch (error: any) {
@@ -347,6 +377,13 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
               <span className="font-medium">{manufacturers[order.manufacturer_id] || order.manufacturer_id}</span>
             </div>
           )}
+          {(order.order_state === 'ADMIN_APPROVED' || order.order_state === 'MANUFACTURER_ASSIGNED') && (
+            <ManufacturerRoutingSuggestions
+              order={order}
+              onAccept={handleAcceptSuggestion}
+              disabled={assigningManufacturer || checkingCapacity}
+            />
+          )}
           <Select value={selectedManufacturer} onValueChange={setSelectedManufacturer}>
             <SelectTrigger>
               <SelectValue placeholder="Select manufacturer..." />
@@ -366,13 +403,44 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
                 ))}
             </SelectContent>
           </Select>
+          {selectedManufacturer && (
+            checkingCapacity ? (
+              <p className="text-xs text-muted-foreground">Checking capacity...</p>
+            ) : capacityCheck?.manufacturerId === selectedManufacturer && (
+              capacityCheck.result.hasCapacityModel && capacityCheck.result.warnings.length > 0 ? (
+                <div className="p-2 rounded border border-amber-200 bg-amber-50 dark:bg-amber-900/20 text-xs space-y-1">
+                  {capacityCheck.result.warnings.map(warning => (
+                    <p key={warning} className="text-amber-700 dark:text-amber-400 flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {capacityCheck.result.hasCapacityModel
+                    ? `Capacity OK - est. finish ${capacityCheck.result.estimatedCompletion}`
+                    : capacityCheck.result.warnings[0]}
+                </p>
+              )
+            )
+          )}
           <Button
             size="sm"
             className="w-full"
-            onClick={handleAssignManufacturer}
-            disabled={!selectedManufacturer || assigningManufacturer}
+            onClick={() =>
+              handleAssignManufacturer(
+                selectedManufacturer,
+                pendingRouting?.recommendation.manufacturerId === selectedManufacturer ? pendingRouting : undefined
+              )
+            }
+            disabled={!selectedManufacturer || assigningManufacturer || checkingCapacity}
           >
-            {assigningManufacturer ? "Assigning..." : order.manufacturer_id ? "Reassign" : "Assign"}
+            {assigningManufacturer
+              ? "Assigning..."
+              : capacityCheck?.manufacturerId === selectedManufacturer && capacityCheck.result.hasCapacityModel && capacityCheck.result.warnings.length > 0
+                ? "Assign Anyway"
+                : order.manufacturer_id ? "Reassign" : "Assign"}
           </Button>
         </CardContent>
       </Card>
@@ -452,11 +520,17 @@ const CommandCenterActions = ({ order, manufacturers, onUpdate }: CommandCenterA
             </Button>
           )}
 
+          {currentDeliveryState === 'IN_TRANSIT' && !order.pod_confirmed_at && (
+            <p className="text-xs text-muted-foreground">
+              Waiting for proof of delivery - enter the buyer's OTP on the order page.
+            </p>
+          )}
+
           {/* Mark Delivered */}
           {currentDeliveryState === 'IN_TRANSIT' && (
             <AlertDialog>
               <AlertDialogTrigger asChild>
-                <Button size="sm" variant="outline" className="w-full">
+                <Button size="sm" variant="outline" className="w-full" disabled={!order.pod_confirmed_at}>
                   Mark Delivered
                 </Button>
               </AlertDialogTrigger>
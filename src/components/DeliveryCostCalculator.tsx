@@ -1,57 +1,101 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { calculateDeliveryCost, formatWeight, formatCost } from "@/lib/deliveryCostCalculator";
+import { AlertTriangle } from "lucide-react";
+import {
+  DELIVERY_ZONE_LABELS,
+  calculateDeliveryCost,
+  formatWeight,
+  formatCost,
+} from "@/lib/deliveryCostCalculator";
 
 interface DeliveryCostCalculatorProps {
   productType: string;
   quantity: number;
   pincode?: string;
+  manufacturerPincode?: string;
 }
 
-const DeliveryCostCalculator = ({ productType, quantity, pincode }: DeliveryCostCalculatorProps) => {
-  const { weight, cost, slabs } = calculateDeliveryCost({
+const DeliveryCostCalculator = ({ productType, quantity, pincode, manufacturerPincode }: DeliveryCostCalculatorProps) => {
+  const delivery = calculateDeliveryCost({
     productType,
     quantity,
     buyerPincode: pincode,
+    manufacturerPincode,
   });
 
   const isBulkOrder = quantity > 1;
 
+  if (!delivery.serviceable) {
+    return (
+      <Card className="border-destructive/40">
+        <CardHeader>
+          <CardTitle>Delivery Estimate</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{delivery.reason || "We can't deliver to this pincode yet."} Please use a different shipping address.</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Delivery Estimate</CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
+        {pincode && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Delivery Pincode:</span>
+            <span className="font-medium">{pincode}</span>
+          </div>
+        )}
         <div className="flex justify-between">
-          <span className="text-muted-foreground">Product Weight:</span>
-          <Badge variant="secondary">{formatWeight(weight)}</Badge>
+          <span className="text-muted-foreground">Delivery Zone:</span>
+          <Badge variant="outline">{DELIVERY_ZONE_LABELS[delivery.zone]}</Badge>
         </div>
         <div className="flex justify-between">
           <span className="text-muted-foreground">Quantity:</span>
           <span className="font-medium">{quantity} pcs</span>
         </div>
-        {!isBulkOrder && (
+        {isBulkOrder && (
           <div className="flex justify-between">
-            <span className="text-muted-foreground">Weight Slabs:</span>
-            <span className="font-medium">{slabs} slab{slabs > 1 ? 's' : ''}</span>
+            <span className="text-muted-foreground">Cartons:</span>
+            <span className="font-medium">{delivery.cartons}</span>
           </div>
         )}
-        {pincode && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Chargeable Weight:</span>
+          <Badge variant="secondary">{formatWeight(delivery.chargeableWeight)}</Badge>
+        </div>
+        {delivery.volumetricWeight > delivery.actualWeight && (
+          <p className="text-xs text-muted-foreground">
+            Bulky item: charged on volumetric weight (actual {formatWeight(delivery.actualWeight)})
+          </p>
+        )}
+        {!isBulkOrder && (
           <div className="flex justify-between">
-            <span className="text-muted-foreground">Delivery Pincode:</span>
-            <span className="font-medium">{pincode}</span>
+            <span className="text-muted-foreground">Weight Slabs:</span>
+            <span className="font-medium">{delivery.slabs} slab{delivery.slabs > 1 ? 's' : ''}</span>
           </div>
         )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Cash on Delivery:</span>
+          <span className="font-medium">{delivery.codAvailable ? "Available" : "Not available"}</span>
+        </div>
         <div className="flex justify-between text-lg font-semibold pt-2 border-t">
           <span>Delivery Cost:</span>
-          <span className="text-primary">{formatCost(cost)}</span>
+          <span className="text-primary">{formatCost(delivery.cost)}</span>
         </div>
         <p className="text-xs text-muted-foreground">
-          {isBulkOrder 
-            ? "* Fixed bulk delivery charge" 
-            : "* Slab-based pricing: ₹35 for first 0.5kg, ₹20 per additional 0.5kg slab"
+          {isBulkOrder
+            ? "* Carton shipment, per-kg zone rate with a zone minimum"
+            : "* Parcel rate by zone, per 0.5kg slab"
           }
+          {!delivery.pincodeChecked && " - add a shipping address for your exact zone"}
         </p>
       </CardContent>
     </Card>
@@ -0,0 +1,349 @@
+/**
+ * Delivery Plan Dialog
+ *
+ * Splits an order into shipments to several addresses (buyer or admin). When the
+ * order has a roster CSV, rows are allocated to shipments - one shipment per value
+ * of a column such as Hostel, or row by row - and quantities and sizes follow from
+ * the rows. Without a roster, quantities are entered per shipment.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { Shipment } from "@/lib/courier";
+import { getPincodeServiceability } from "@/lib/deliveryCostCalculator";
+import {
+  EMPTY_SHIPMENT_ADDRESS,
+  PlannedShipment,
+  Roster,
+  ShipmentAddress,
+  fetchOrderRoster,
+  formatSizeBreakdown,
+  groupRosterBy,
+  setOrderDeliveryPlan,
+  summarizeRosterRows,
+} from "@/lib/deliveryPlan";
+
+interface DeliveryPlanDialogProps {
+  order: {
+    id: string;
+    quantity: number;
+    corrected_csv_url?: string | null;
+  };
+  shipments: Shipment[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+interface Destination {
+  key: string;
+  label: string;
+  quantity: string;
+  address: ShipmentAddress;
+}
+
+// Roster columns that describe the piece rather than where it ships
+const PIECE_COLUMNS = ['name', 'size', 'quantity', 'qty'];
+
+const newDestination = (label: string): Destination => ({
+  key: crypto.randomUUID(),
+  label,
+  quantity: '',
+  address: { ...EMPTY_SHIPMENT_ADDRESS },
+});
+
+const DeliveryPlanDialog = ({ order, shipments, open, onOpenChange, onSaved }: DeliveryPlanDialogProps) => {
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [destinations, setDestinations] = useState<Destination[]>([]);
+  // roster row index -> destination key
+  const [rowAssignments, setRowAssignments] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const existing = shipments.map((shipment) => ({
+      key: shipment.id,
+      label: shipment.label || '',
+      quantity: String(shipment.quantity || ''),
+      address: { ...EMPTY_SHIPMENT_ADDRESS, ...shipment.delivery_address },
+    }));
+    setDestinations(existing.length > 0 ? existing : [newDestination('Shipment 1'), newDestination('Shipment 2')]);
+
+    const assignments: Record<number, string> = {};
+    for (const shipment of shipments) {
+      for (const row of shipment.allocation?.roster_rows || []) assignments[row] = shipment.id;
+    }
+    setRowAssignments(assignments);
+
+    fetchOrderRoster(order.corrected_csv_url).then(setRoster);
+  }, [open, order.id]);
+
+  const groupColumns = (roster?.columns || []).filter((column) => !PIECE_COLUMNS.includes(column.toLowerCase()));
+  const hasRoster = !!roster && roster.rows.length > 0;
+
+  const rowsFor = (key: string) => (roster?.rows || []).filter((row) => rowAssignments[row.index] === key);
+
+  const quantityFor = (destination: Destination) => {
+    const rows = rowsFor(destination.key);
+    return rows.length > 0 ? summarizeRosterRows(rows).quantity : parseInt(destination.quantity, 10) || 0;
+  };
+
+  const allocated = destinations.reduce((sum, destination) => sum + quantityFor(destination), 0);
+  const unassignedRows = hasRoster ? roster.rows.filter((row) => !rowAssignments[row.index]).length : 0;
+
+  const updateDestination = (key: string, patch: Partial<Destination>) =>
+    setDestinations((current) => current.map((d) => (d.key === key ? { ...d, ...patch } : d)));
+
+  const updateAddress = (key: string, field: keyof ShipmentAddress, value: string) =>
+    setDestinations((current) =>
+      current.map((d) => (d.key === key ? { ...d, address: { ...d.address, [field]: value } } : d))
+    );
+
+  const removeDestination = (key: string) => {
+    setDestinations((current) => current.filter((d) => d.key !== key));
+    setRowAssignments((current) =>
+      Object.fromEntries(Object.entries(current).filter(([, assigned]) => assigned !== key))
+    );
+  };
+
+  const splitByColumn = (column: string) => {
+    if (!roster) return;
+    const groups = groupRosterBy(roster, column);
+    const next: Destination[] = [];
+    const assignments: Record<number, string> = {};
+    for (const [value, rows] of groups) {
+      const destination = newDestination(value);
+      next.push(destination);
+      for (const row of rows) assignments[row.index] = destination.key;
+    }
+    setDestinations(next);
+    setRowAssignments(assignments);
+  };
+
+  const handleSave = async () => {
+    for (const destination of destinations) {
+      const { serviceable, reason } = getPincodeServiceability(destination.address.pincode);
+      if (!serviceable) {
+        toast.error(`${destination.label || 'Shipment'}: ${reason}`);
+        return;
+      }
+    }
+    if (unassignedRows > 0) {
+      toast.error(`Assign all roster rows to a shipment (${unassignedRows} left)`);
+      return;
+    }
+    if (allocated !== order.quantity) {
+      toast.error(`Shipments add up to ${allocated} pcs but the order has ${order.quantity}`);
+      return;
+    }
+
+    const plan: PlannedShipment[] = destinations.map((destination) => {
+      const rows = rowsFor(destination.key);
+      return {
+        label: destination.label.trim(),
+        quantity: quantityFor(destination),
+        address: destination.address,
+        allocation: {
+          sizes: summarizeRosterRows(rows).sizes,
+          roster_rows: rows.map((row) => row.index),
+        },
+      };
+    });
+
+    setSaving(true);
+    const result = await setOrderDeliveryPlan(order.id, plan);
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to save delivery plan");
+      return;
+    }
+
+    toast.success(`Order split into ${result.data} shipment(s)`);
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Split Delivery</DialogTitle>
+          <DialogDescription>
+            Ship this order to several addresses. Each shipment is booked and tracked on its own;
+            the order is delivered when every shipment is.
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasRoster && groupColumns.length > 0 && (
+          <div className="flex items-end gap-3">
+            <div className="space-y-2 flex-1">
+              <Label>Create one shipment per roster column value</Label>
+              <Select onValueChange={splitByColumn}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a column (e.g. Hostel)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {groupColumns.map((column) => (
+                    <SelectItem key={column} value={column}>{column}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {destinations.map((destination, index) => {
+            const rows = rowsFor(destination.key);
+            const sizes = summarizeRosterRows(rows).sizes;
+            return (
+              <div key={destination.key} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center gap-3">
+                  <Input
+                    value={destination.label}
+                    onChange={(e) => updateDestination(destination.key, { label: e.target.value })}
+                    placeholder={`Shipment ${index + 1}`}
+                    className="font-medium"
+                  />
+                  {rows.length > 0 ? (
+                    <span className="text-sm whitespace-nowrap">{quantityFor(destination)} pcs</span>
+                  ) : (
+                    <Input
+                      type="number"
+                      min={1}
+                      value={destination.quantity}
+                      onChange={(e) => updateDestination(destination.key, { quantity: e.target.value })}
+                      placeholder="Pcs"
+                      className="w-24"
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeDestination(destination.key)}
+                    disabled={destinations.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {rows.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {rows.length} roster row(s){Object.keys(sizes).length > 0 && ` - ${formatSizeBreakdown(sizes)}`}
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    value={destination.address.name}
+                    onChange={(e) => updateAddress(destination.key, 'name', e.target.value)}
+                    placeholder="Recipient name"
+                  />
+                  <Input
+                    value={destination.address.phone}
+                    onChange={(e) => updateAddress(destination.key, 'phone', e.target.value)}
+                    placeholder="Phone"
+                  />
+                  <Input
+                    value={destination.address.addressLine1}
+                    onChange={(e) => updateAddress(destination.key, 'addressLine1', e.target.value)}
+                    placeholder="Address line 1"
+                    className="col-span-2"
+                  />
+                  <Input
+                    value={destination.address.addressLine2 || ''}
+                    onChange={(e) => updateAddress(destination.key, 'addressLine2', e.target.value)}
+                    placeholder="Address line 2 (optional)"
+                    className="col-span-2"
+                  />
+                  <Input
+                    value={destination.address.city}
+                    onChange={(e) => updateAddress(destination.key, 'city', e.target.value)}
+                    placeholder="City"
+                  />
+                  <Input
+                    value={destination.address.state}
+                    onChange={(e) => updateAddress(destination.key, 'state', e.target.value)}
+                    placeholder="State"
+                  />
+                  <Input
+                    value={destination.address.pincode}
+                    onChange={(e) => updateAddress(destination.key, 'pincode', e.target.value)}
+                    placeholder="Pincode"
+                    maxLength={6}
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDestinations((current) => [...current, newDestination(`Shipment ${current.length + 1}`)])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Shipment
+          </Button>
+        </div>
+
+        {hasRoster && (
+          <div className="space-y-2">
+            <Label>Roster allocation</Label>
+            <div className="max-h-64 overflow-y-auto border rounded-lg divide-y">
+              {roster.rows.map((row) => (
+                <div key={row.index} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="flex-1 truncate">
+                    {Object.values(row.values).filter(Boolean).join(' · ')}
+                  </span>
+                  <Select
+                    value={rowAssignments[row.index] || ''}
+                    onValueChange={(key) => setRowAssignments((current) => ({ ...current, [row.index]: key }))}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Unassigned" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {destinations.map((destination, index) => (
+                        <SelectItem key={destination.key} value={destination.key}>
+                          {destination.label || `Shipment ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <p className={`text-sm ${allocated === order.quantity ? 'text-muted-foreground' : 'text-destructive'}`}>
+          Allocated {allocated} of {order.quantity} pcs
+          {unassignedRows > 0 && ` - ${unassignedRows} roster row(s) unassigned`}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Delivery Plan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeliveryPlanDialog;
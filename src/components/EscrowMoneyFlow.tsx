@@ -1,17 +1,28 @@
 import { ArrowRight, Shield, Wallet } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { STATE_LABELS } from "@/lib/orderStateMachineV2";
+import {
+  MILESTONE_STATUS_COLORS,
+  MILESTONE_STATUS_LABELS,
+  OrderPaymentMilestone,
+  summarizeMilestones,
+} from "@/lib/paymentSchedule";
 
 interface EscrowMoneyFlowProps {
   stage: "payment" | "locked" | "released";
   amount: number;
   animated?: boolean;
+  // Milestone schedule; when present, shows held / releasable / released per tranche
+  milestones?: OrderPaymentMilestone[];
 }
 
 const EscrowMoneyFlow = ({
   stage,
   amount,
   animated = false,
+  milestones = [],
 }: EscrowMoneyFlowProps) => {
   const [showAnimation, setShowAnimation] = useState(false);
 
@@ -54,6 +65,7 @@ const EscrowMoneyFlow = ({
 
   const content = getContent();
   const Icon = content.icon;
+  const totals = summarizeMilestones(milestones);
 
   return (
     <Card className={`${content.bgColor} border-2 ${showAnimation ? "animate-pulse" : ""}`}>
@@ -79,6 +91,41 @@ const EscrowMoneyFlow = ({
             ₹{amount}
           </div>
         </div>
+
+        {milestones.length > 0 && (
+          <div className="mt-4 pt-4 border-t space-y-2">
+            <div className="grid grid-cols-3 gap-2 text-center text-xs">
+              <div className="p-2 rounded bg-white">
+                <p className="text-muted-foreground">Held</p>
+                <p className="font-bold text-amber-700">₹{totals.held.toLocaleString()}</p>
+              </div>
+              <div className="p-2 rounded bg-white">
+                <p className="text-muted-foreground">Releasable</p>
+                <p className="font-bold text-blue-700">₹{totals.releasable.toLocaleString()}</p>
+              </div>
+              <div className="p-2 rounded bg-white">
+                <p className="text-muted-foreground">Released</p>
+                <p className="font-bold text-green-700">₹{totals.released.toLocaleString()}</p>
+              </div>
+            </div>
+            {milestones.map((milestone) => (
+              <div key={milestone.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{milestone.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    At {STATE_LABELS[milestone.release_state] || milestone.release_state}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className="font-semibold">₹{Number(milestone.amount).toLocaleString()}</span>
+                  <Badge className={MILESTONE_STATUS_COLORS[milestone.status]}>
+                    {MILESTONE_STATUS_LABELS[milestone.status]}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
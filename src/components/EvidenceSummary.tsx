@@ -158,7 +158,7 @@ const EvidenceSummary = ({ order, manufacturerName, orderEvents = [] }: Evidence
     if (order.fake_payment_timestamp) {
       paymentHistory.push({ 
         label: "Payment Received", 
-        value: "55% Upfront",
+        value: `₹${(order.upfront_payable_amount || order.escrow_amount || 0).toLocaleString()} upfront`,
         timestamp: formatTimestamp(order.fake_payment_timestamp) || undefined
       });
     }
@@ -0,0 +1,298 @@
+/**
+ * Manufacturer Capacity Calendar
+ *
+ * Structured capacity (pieces/day per category), blackout dates and a 4-week
+ * production calendar of booked vs available pieces.
+ * Used by the manufacturer (own profile) and by admins (Manufacturer List → Manage).
+ */
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, Factory, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import {
+  BlackoutDate,
+  CAPACITY_CATEGORIES,
+  CapacityEntry,
+  ProductionBooking,
+  addBlackoutDate,
+  buildProductionCalendar,
+  deleteBlackoutDate,
+  deleteCapacityEntry,
+  fetchActiveBookings,
+  fetchBlackoutDates,
+  fetchManufacturerCapacity,
+  saveCapacityEntry,
+} from "@/lib/manufacturerCapacity";
+
+const CALENDAR_DAYS = 28;
+
+interface ManufacturerCapacityCalendarProps {
+  manufacturerId: string;
+  editable?: boolean;
+}
+
+const getLoadColor = (booked: number, capacity: number, blackout: boolean) => {
+  if (blackout) return 'bg-muted text-muted-foreground';
+  if (capacity === 0) return 'bg-muted/30';
+  const utilization = booked / capacity;
+  if (utilization > 1) return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+  if (utilization >= 0.8) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
+  if (utilization > 0) return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
+  return 'bg-muted/30';
+};
+
+const ManufacturerCapacityCalendar = ({ manufacturerId, editable = true }: ManufacturerCapacityCalendarProps) => {
+  const [capacity, setCapacity] = useState<CapacityEntry[]>([]);
+  const [blackouts, setBlackouts] = useState<BlackoutDate[]>([]);
+  const [bookings, setBookings] = useState<ProductionBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedEntryId, setSelectedEntryId] = useState<string>("");
+  const [newCategory, setNewCategory] = useState<string>("");
+  const [newPiecesPerDay, setNewPiecesPerDay] = useState("");
+  const [blackoutStart, setBlackoutStart] = useState("");
+  const [blackoutEnd, setBlackoutEnd] = useState("");
+  const [blackoutReason, setBlackoutReason] = useState("");
+
+  useEffect(() => {
+    loadCalendar();
+  }, [manufacturerId]);
+
+  const loadCalendar = async () => {
+    setLoading(true);
+    const [capacityRows, blackoutRows, bookingRows] = await Promise.all([
+      fetchManufacturerCapacity(manufacturerId),
+      fetchBlackoutDates(manufacturerId),
+      fetchActiveBookings(manufacturerId),
+    ]);
+    setCapacity(capacityRows);
+    setBlackouts(blackoutRows);
+    setBookings(bookingRows);
+    setSelectedEntryId(prev =>
+      capacityRows.some(c => c.id === prev) ? prev : capacityRows[0]?.id || ""
+    );
+    setLoading(false);
+  };
+
+  const handleSaveCapacity = async () => {
+    if (!newCategory) {
+      toast.error("Select a category");
+      return;
+    }
+
+    const result = await saveCapacityEntry(manufacturerId, newCategory, Number(newPiecesPerDay));
+    if (!result.success) {
+      toast.error(result.error || "Failed to save capacity");
+      return;
+    }
+
+    toast.success(`Capacity saved for ${newCategory}`);
+    setNewCategory("");
+    setNewPiecesPerDay("");
+    await loadCalendar();
+  };
+
+  const handleDeleteCapacity = async (entryId: string) => {
+    const result = await deleteCapacityEntry(entryId);
+    if (!result.success) {
+      toast.error(result.error || "Failed to remove capacity");
+      return;
+    }
+    await loadCalendar();
+  };
+
+  const handleAddBlackout = async () => {
+    if (!blackoutStart || !blackoutEnd) {
+      toast.error("Select start and end dates");
+      return;
+    }
+
+    const result = await addBlackoutDate(manufacturerId, blackoutStart, blackoutEnd, blackoutReason.trim() || null);
+    if (!result.success) {
+      toast.error(result.error || "Failed to add blackout");
+      return;
+    }
+
+    toast.success("Blackout dates added");
+    setBlackoutStart("");
+    setBlackoutEnd("");
+    setBlackoutReason("");
+    await loadCalendar();
+  };
+
+  const handleDeleteBlackout = async (blackoutId: string) => {
+    const result = await deleteBlackoutDate(blackoutId);
+    if (!result.success) {
+      toast.error(result.error || "Failed to remove blackout");
+      return;
+    }
+    await loadCalendar();
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-center text-sm text-muted-foreground">Loading capacity calendar...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const selectedEntry = capacity.find(c => c.id === selectedEntryId) || null;
+  const calendar = selectedEntry
+    ? buildProductionCalendar(selectedEntry, capacity, bookings, blackouts, format(new Date(), 'yyyy-MM-dd'), CALENDAR_DAYS)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Factory className="h-5 w-5" />
+          Production Capacity
+          <Badge variant="outline" className="text-xs font-normal">
+            {bookings.length} active booking(s)
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Capacity per category */}
+        <div className="space-y-2">
+          <Label>Pieces per day</Label>
+          {capacity.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No capacity on file yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {capacity.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between p-2 rounded border text-sm">
+                  <span>{entry.category}</span>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{entry.pieces_per_day} pcs/day</span>
+                    {editable && (
+                      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleDeleteCapacity(entry.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {editable && (
+            <div className="flex items-center gap-2">
+              <Select value={newCategory} onValueChange={setNewCategory}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CAPACITY_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                className="w-32"
+                placeholder="pcs/day"
+                value={newPiecesPerDay}
+                onChange={(e) => setNewPiecesPerDay(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleSaveCapacity}>
+                <Plus className="h-4 w-4 mr-1" />
+                Save
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Blackout dates */}
+        <div className="space-y-2">
+          <Label>Blackout dates</Label>
+          {blackouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No upcoming blackout dates.</p>
+          ) : (
+            <div className="space-y-1">
+              {blackouts.map(blackout => (
+                <div key={blackout.id} className="flex items-center justify-between p-2 rounded border text-sm">
+                  <span>
+                    {format(parseISO(blackout.start_date), 'dd MMM')} – {format(parseISO(blackout.end_date), 'dd MMM yyyy')}
+                    {blackout.reason && <span className="text-muted-foreground"> · {blackout.reason}</span>}
+                  </span>
+                  {editable && (
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleDeleteBlackout(blackout.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {editable && (
+            <div className="flex items-center gap-2">
+              <Input type="date" value={blackoutStart} onChange={(e) => setBlackoutStart(e.target.value)} />
+              <Input type="date" value={blackoutEnd} onChange={(e) => setBlackoutEnd(e.target.value)} />
+              <Input
+                placeholder="Reason (optional)"
+                value={blackoutReason}
+                onChange={(e) => setBlackoutReason(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleAddBlackout}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Production calendar */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="flex items-center gap-1">
+              <CalendarDays className="h-4 w-4" />
+              Next {CALENDAR_DAYS} days
+            </Label>
+            {capacity.length > 1 && (
+              <Select value={selectedEntryId} onValueChange={setSelectedEntryId}>
+                <SelectTrigger className="w-56 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {capacity.map(entry => (
+                    <SelectItem key={entry.id} value={entry.id}>{entry.category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {!selectedEntry ? (
+            <p className="text-sm text-muted-foreground">Add capacity to see the production calendar.</p>
+          ) : (
+            <div className="grid grid-cols-7 gap-1">
+              {calendar.map(day => (
+                <div
+                  key={day.date}
+                  className={`p-1.5 rounded text-xs ${getLoadColor(day.booked, day.capacity, day.blackout)}`}
+                  title={day.blackout ? 'Blackout' : `${day.booked} / ${day.capacity} pcs booked`}
+                >
+                  <div className="font-medium">{format(parseISO(day.date), 'EEE d')}</div>
+                  <div className="font-mono">
+                    {day.blackout ? 'Closed' : `${day.booked}/${day.capacity}`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ManufacturerCapacityCalendar;
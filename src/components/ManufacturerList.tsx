@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import DataTable from "@/components/DataTable";
 import ManufacturerPerformanceMetrics from "@/components/ManufacturerPerformanceMetrics";
 import ManufacturerPauseControl from "@/components/ManufacturerPauseControl";
+import ManufacturerCapacityCalendar from "@/components/ManufacturerCapacityCalendar";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
@@ -166,7 +167,7 @@ const ManufacturerList = () => {
         const mfr = manufacturers.find(m => m.user_id === showPauseControl);
         if (!mfr) return null;
         return (
-          <div className="animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="animate-in fade-in slide-in-from-top-2 duration-200 space-y-6">
             <ManufacturerPauseControl 
               manufacturer={mfr} 
               onUpdate={() => {
@@ -174,6 +175,7 @@ const ManufacturerList = () => {
                 setShowPauseControl(null);
               }} 
             />
+            <ManufacturerCapacityCalendar manufacturerId={mfr.user_id} />
           </div>
         );
       })()}
@@ -2,9 +2,8 @@
  * Manufacturer Pause Control Component
  * 
  * Admin-only control to pause/unpause manufacturers.
- * Paused manufacturers cannot receive new orders.
- * 
- * ADD-ONLY: No auto-routing logic, just raw control.
+ * Paused manufacturers cannot receive new orders and are
+ * excluded from routing suggestions (manufacturerRouting.ts).
  */
 
 import { useState } from "react";
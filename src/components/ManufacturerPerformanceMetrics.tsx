@@ -3,30 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Clock, AlertTriangle, CheckCircle, Truck, Package, XCircle } from "lucide-react";
-
-/**
- * Raw performance metrics for a manufacturer
- * Computed from existing order timestamps - NO derived intelligence
- */
-interface ManufacturerMetrics {
-  manufacturerId: string;
-  companyName: string;
-  // Raw counts
-  totalOrders: number;
-  completedOrders: number;
-  qcRejectionCount: number;
-  orderFailureCount: number;
-  // Average times (in hours for accept/QC, days for delivery)
-  avgAcceptanceTimeHours: number | null;
-  avgSampleQcDelayHours: number | null;
-  avgBulkQcDelayHours: number | null;
-  avgDeliveryDelayDays: number | null;
-  // Raw timestamp arrays for drill-down
-  acceptanceTimes: number[];
-  sampleQcDelays: number[];
-  bulkQcDelays: number[];
-  deliveryDelays: number[];
-}
+import { ManufacturerMetrics, computeManufacturerMetrics, groupOrdersByManufacturer } from "@/lib/manufacturerPerformance";
 
 interface Props {
   manufacturerId?: string; // If provided, show metrics for specific manufacturer
@@ -69,96 +46,10 @@ const ManufacturerPerformanceMetrics = ({ manufacturerId, showSummary = false }:
         companyNames[v.user_id] = v.company_name;
       });
 
-      // Group orders by manufacturer
-      const ordersByManufacturer: Record<string, any[]> = {};
-      orders?.forEach(order => {
-        const mId = order.manufacturer_id;
-        if (!ordersByManufacturer[mId]) {
-          ordersByManufacturer[mId] = [];
-        }
-        ordersByManufacturer[mId].push(order);
-      });
-
-      // Compute metrics for each manufacturer
+      // Group orders by manufacturer and compute metrics for each
+      const ordersByManufacturer = groupOrdersByManufacturer(orders || []);
       const computedMetrics: ManufacturerMetrics[] = Object.entries(ordersByManufacturer).map(
-        ([mId, mOrders]) => {
-          const acceptanceTimes: number[] = [];
-          const sampleQcDelays: number[] = [];
-          const bulkQcDelays: number[] = [];
-          const deliveryDelays: number[] = [];
-          let qcRejectionCount = 0;
-          let orderFailureCount = 0;
-          let completedOrders = 0;
-
-          mOrders.forEach(order => {
-            // Acceptance time: assigned_at → manufacturer_accept_time
-            if (order.assigned_at && order.manufacturer_accept_time) {
-              const assigned = new Date(order.assigned_at).getTime();
-              const accepted = new Date(order.manufacturer_accept_time).getTime();
-              const hoursToAccept = (accepted - assigned) / (1000 * 60 * 60);
-              if (hoursToAccept >= 0) acceptanceTimes.push(hoursToAccept);
-            }
-
-            // Sample QC delay: sample_production_started_at → qc_uploaded_at
-            if (order.sample_production_started_at && (order.qc_uploaded_at || order.sample_qc_uploaded_at)) {
-              const started = new Date(order.sample_production_started_at).getTime();
-              const uploaded = new Date(order.qc_uploaded_at || order.sample_qc_uploaded_at).getTime();
-              const hoursDelay = (uploaded - started) / (1000 * 60 * 60);
-              if (hoursDelay >= 0) sampleQcDelays.push(hoursDelay);
-            }
-
-            // Bulk QC delay: bulk_order_confirmed_at → dispatched_at (approximation)
-            if (order.bulk_order_confirmed_at && order.dispatched_at) {
-              const started = new Date(order.bulk_order_confirmed_at).getTime();
-              const dispatched = new Date(order.dispatched_at).getTime();
-              const hoursDelay = (dispatched - started) / (1000 * 60 * 60);
-              if (hoursDelay >= 0) bulkQcDelays.push(hoursDelay);
-            }
-
-            // Delivery delay: dispatched_at → delivered_at
-            if (order.dispatched_at && order.delivered_at) {
-              const dispatched = new Date(order.dispatched_at).getTime();
-              const delivered = new Date(order.delivered_at).getTime();
-              const daysDelay = (delivered - dispatched) / (1000 * 60 * 60 * 24);
-              if (daysDelay >= 0) deliveryDelays.push(daysDelay);
-            }
-
-            // QC rejection count
-            if (order.sample_status === 'rejected' || order.detailed_status === 'sample_rejected_by_buyer') {
-              qcRejectionCount++;
-            }
-
-            // Order failure flags
-            if (order.rejection_reason || order.detailed_status === 'rejected_by_manufacturer') {
-              orderFailureCount++;
-            }
-
-            // Completed orders
-            if (order.detailed_status === 'completed' || order.status === 'completed') {
-              completedOrders++;
-            }
-          });
-
-          // Calculate averages
-          const avg = (arr: number[]) => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : null;
-
-          return {
-            manufacturerId: mId,
-            companyName: companyNames[mId] || 'Unknown',
-            totalOrders: mOrders.length,
-            completedOrders,
-            qcRejectionCount,
-            orderFailureCount,
-            avgAcceptanceTimeHours: avg(acceptanceTimes),
-            avgSampleQcDelayHours: avg(sampleQcDelays),
-            avgBulkQcDelayHours: avg(bulkQcDelays),
-            avgDeliveryDelayDays: avg(deliveryDelays),
-            acceptanceTimes,
-            sampleQcDelays,
-            bulkQcDelays,
-            deliveryDelays,
-          };
-        }
+        ([mId, mOrders]) => computeManufacturerMetrics(mId, companyNames[mId] || 'Unknown', mOrders)
       );
 
       setMetrics(computedMetrics);
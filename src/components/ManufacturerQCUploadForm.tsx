@@ -6,19 +6,31 @@
  * 
  * State transition: Order moves to SAMPLE_QC_UPLOADED after submission.
  * Buyer will then review and approve/reject the sample.
+ * Bulk QC can only be submitted after a passing AQL inspection (BulkQCInspectionForm).
+ * Keyframes are extracted from the video on upload for side-by-side review.
+ * Orders with a size chart or print dimensions need a measurement sheet (QCMeasurementSheet).
+ * Each sample submission is a new revision round; none can be submitted while the order is
+ * escalated to a dispute for running out of revisions.
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Camera, Video, Upload, XCircle, Info } from "lucide-react";
+import { Camera, Video, Upload, XCircle, Info, History } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { logOrderEvent } from "@/lib/orderEventLogger";
+import { OrderTransitionUpdates, transitionOrder } from "@/lib/orderWorkflowEngine";
+import { BulkQCTransitionResult } from "@/lib/bulkQCWorkflow";
+import BulkQCInspectionForm from "@/components/BulkQCInspectionForm";
+import { extractKeyframes, storeQCKeyframes } from "@/lib/qcKeyframes";
+import QCMeasurementSheet from "@/components/QCMeasurementSheet";
+import { MeasurementDraft, recordQCMeasurements, summarizeMeasurements } from "@/lib/qcMeasurements";
+import { RevisionStatus, fetchRevisionStatus, formatRound } from "@/lib/sampleRevisions";
 
 interface ManufacturerQCUploadFormProps {
   orderId: string;
@@ -31,6 +43,32 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
   const [images, setImages] = useState<File[]>([]);
   const [video, setVideo] = useState<File | null>(null);
   const [notes, setNotes] = useState<string>('');
+  const [bulkCheck, setBulkCheck] = useState<BulkQCTransitionResult | null>(null);
+  const [measurements, setMeasurements] = useState<MeasurementDraft[]>([]);
+  const [measurementCheck, setMeasurementCheck] = useState<{ valid: boolean; reason?: string }>({ valid: true });
+  const [revisionStatus, setRevisionStatus] = useState<RevisionStatus | null>(null);
+
+  useEffect(() => {
+    if (stage !== 'sample') return;
+
+    const loadRevisionStatus = async () => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_mode, buyer_type')
+        .eq('id', orderId)
+        .single();
+
+      if (error || !data) {
+        console.error('[QC Upload] Failed to load revision status:', error);
+        return;
+      }
+      setRevisionStatus((await fetchRevisionStatus(data)).status);
+    };
+
+    loadRevisionStatus();
+  }, [orderId, stage]);
+
+  const revisionBlocked = stage === 'sample' && revisionStatus !== null && !revisionStatus.canSubmit;
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -74,6 +112,21 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
       return;
     }
 
+    if (stage === 'bulk' && !bulkCheck?.allowed) {
+      toast.error(bulkCheck?.reason || "Record the AQL inspection before submitting bulk QC");
+      return;
+    }
+
+    if (revisionBlocked) {
+      toast.error(revisionStatus?.reason || "A new sample round cannot be submitted right now");
+      return;
+    }
+
+    if (!measurementCheck.valid) {
+      toast.error(measurementCheck.reason || "Complete the measurement sheet");
+      return;
+    }
+
     setIsUploading(true);
     
     // Track upload results for rollback awareness
@@ -176,6 +229,23 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
           console.warn('[QC Upload] Legacy video upload warning:', legacyError);
           // Non-fatal - continue with main flow
         }
+
+        // Keyframes for side-by-side review - non-fatal, admins can reprocess the video
+        try {
+          const frames = await extractKeyframes(video);
+          const keyframeResult = await storeQCKeyframes(orderId, stage, videoData.path, frames, {
+            role: 'manufacturer',
+            id: user.id,
+            manufacturerId: user.id,
+          });
+          if (keyframeResult.success) {
+            console.log(`[QC Upload] ${keyframeResult.data} keyframes extracted`);
+          } else {
+            console.warn('[QC Upload] Keyframe storage warning:', keyframeResult.error);
+          }
+        } catch (keyframeError) {
+          console.warn('[QC Upload] Keyframe extraction warning:', keyframeError);
+        }
       }
 
       // ========================================
@@ -222,7 +292,7 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
         allFilePaths.push(uploadedVideoPath);
       }
 
-      const { error: qcError } = await supabase
+      const { data: qcRecord, error: qcError } = await supabase
         .from('order_qc')
         .insert({
           order_id: orderId,
@@ -237,7 +307,9 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
           file_urls: allFilePaths,
           admin_decision: 'pending',
           created_at: now,
-        });
+        })
+        .select('id')
+        .single();
 
       if (qcError) {
         console.error('[QC Upload] Failed to insert QC record:', qcError);
@@ -246,64 +318,78 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
 
       console.log('[QC Upload] QC record inserted successfully');
 
-      // ========================================
-      // STEP 5: Update order state to SAMPLE_QC_UPLOADED
-      // ========================================
-      const updateData: Record<string, any> = {
-        status: 'qc_uploaded',
-        detailed_status: 'qc_uploaded',
-        qc_uploaded_at: now,
-        qc_files: allFilePaths,
-        updated_at: now,
-      };
-
-      if (stage === 'sample') {
-        updateData.order_state = 'SAMPLE_QC_UPLOADED';
-        updateData.sample_status = 'qc_uploaded';
-        updateData.sample_qc_uploaded_at = now;
-        updateData.sample_qc_video_url = uploadedVideoPath;
-        updateData.state_updated_at = now;
-      } else {
-        updateData.order_state = 'BULK_QC_UPLOADED';
-        updateData.bulk_status = 'qc_uploaded';
-        updateData.bulk_qc_uploaded_at = now;
-        updateData.bulk_qc_video_url = uploadedVideoPath;
-        updateData.state_updated_at = now;
+      // Measurement sheet - each piece is checked against the spec as it is recorded
+      const measurementResult = await recordQCMeasurements(qcRecord.id, orderId, stage, measurements);
+      if (!measurementResult.success) {
+        throw new Error(`Failed to save measurements: ${measurementResult.error}`);
       }
+      const measured = summarizeMeasurements(measurementResult.data || []);
 
-      // Use .select() to verify update succeeded
-      const { data: updatedOrder, error: orderError } = await supabase
+      // ========================================
+      // STEP 5: Move the order to SAMPLE_QC_UPLOADED / BULK_QC_UPLOADED
+      // (the workflow engine checks the transition and logs the upload event)
+      // ========================================
+      const { data: currentOrder, error: currentError } = await supabase
         .from('orders')
-        .update(updateData)
+        .select('id, order_state, specs_locked, buyer_purpose, corrected_csv_url')
         .eq('id', orderId)
-        .select('order_state, qc_files')
         .single();
 
-      if (orderError) {
-        console.error('[QC Upload] Failed to update order state:', orderError);
-        throw new Error(`Failed to update order: ${orderError.message}`);
+      if (currentError || !currentOrder) {
+        console.error('[QC Upload] Failed to load order state:', currentError);
+        throw new Error(`Failed to update order: ${currentError?.message || 'order not found'}`);
       }
 
-      if (!updatedOrder || updatedOrder.order_state !== updateData.order_state) {
-        console.error('[QC Upload] Order state update verification failed:', updatedOrder);
-        throw new Error('Order state update failed - please refresh and try again');
-      }
-
-      console.log('[QC Upload] Order state updated successfully:', updatedOrder.order_state);
-
-      // ========================================
-      // STEP 6: Log event and notify buyer
-      // ========================================
-      await logOrderEvent(orderId, 'qc_uploaded', {
+      const updates: OrderTransitionUpdates = {
+        status: 'qc_uploaded',
+        detailed_status: 'qc_uploaded',
+        qc_uploaded_at: now,
+        qc_files: allFilePaths,
+        ...(stage === 'sample'
+          ? {
+              sample_status: 'qc_uploaded',
+              sample_qc_uploaded_at: now,
+              sample_qc_video_url: uploadedVideoPath,
+            }
+          : {
+              bulk_status: 'qc_uploaded',
+              bulk_qc_uploaded_at: now,
+              bulk_qc_video_url: uploadedVideoPath,
+            }),
+      };
+      const uploadMetadata = {
         stage,
         image_count: uploadedImagePaths.length,
         has_video: !!uploadedVideoPath,
         image_paths: uploadedImagePaths,
         video_path: uploadedVideoPath,
+        pieces_measured: measured.pieces,
+        pieces_out_of_tolerance: measured.failed,
         uploaded_by: 'manufacturer',
         awaiting_buyer_review: true,
         timestamp: now,
-      });
+      };
+
+      const transition = await transitionOrder(
+        currentOrder,
+        stage === 'sample' ? 'SAMPLE_QC_UPLOADED' : 'BULK_QC_UPLOADED',
+        'manufacturer',
+        updates,
+        uploadMetadata
+      );
+
+      if (!transition.success) {
+        console.error('[QC Upload] Order state update failed:', transition.error);
+        throw new Error(transition.error || 'Order state update failed - please refresh and try again');
+      }
+
+      // ========================================
+      // STEP 6: Log event and notify buyer
+      // ========================================
+      // The bulk transition logs bulk_qc_uploaded; qc_uploaded stays the stage-neutral upload event
+      if (stage === 'bulk') {
+        await logOrderEvent(orderId, 'qc_uploaded', uploadMetadata);
+      }
 
       const { data: orderData } = await supabase
         .from('orders')
@@ -322,6 +408,9 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
       }
 
       toast.success("Sample submitted for buyer review!");
+      if (measured.failed > 0) {
+        toast.warning(`${measured.failed} measured ${measured.failed === 1 ? 'piece is' : 'pieces are'} out of tolerance - this QC cannot be approved as is`);
+      }
       onUploadComplete();
     } catch (error: any) {
       console.error('[QC Upload] Error:', error);
@@ -354,6 +443,37 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
           </div>
         </div>
 
+        {stage === 'sample' && revisionStatus && (
+          <div
+            className={`flex items-start gap-2 p-3 rounded-lg text-sm ${
+              revisionBlocked ? 'bg-red-50 text-red-700' : 'bg-muted text-muted-foreground'
+            }`}
+          >
+            <History className="h-4 w-4 shrink-0 mt-0.5" />
+            <p>
+              {revisionBlocked
+                ? revisionStatus.reason
+                : revisionStatus.remaining === 0
+                  ? `This is sample round ${formatRound(revisionStatus.rounds + 1)}, past the limit of ${revisionStatus.maxRevisions} after the dispute was resolved.`
+                  : `This is sample round ${formatRound(revisionStatus.rounds + 1)} of ${revisionStatus.maxRevisions} allowed. ` +
+                    'If the last allowed round is not approved, the order is escalated to a dispute.'}
+            </p>
+          </div>
+        )}
+
+        {stage === 'bulk' && (
+          <BulkQCInspectionForm orderId={orderId} onCheckChange={setBulkCheck} />
+        )}
+
+        <QCMeasurementSheet
+          orderId={orderId}
+          drafts={measurements}
+          onChange={(drafts, check) => {
+            setMeasurements(drafts);
+            setMeasurementCheck(check);
+          }}
+        />
+
         {/* Image Upload */}
         <div className="space-y-2">
           <Label className="flex items-center gap-2">
@@ -419,7 +539,7 @@ const ManufacturerQCUploadForm = ({ orderId, stage, onUploadComplete }: Manufact
         {/* Submit Button */}
         <Button
           onClick={handleSubmit}
-          disabled={isUploading || images.length === 0}
+          disabled={isUploading || images.length === 0 || !measurementCheck.valid || revisionBlocked || (stage === 'bulk' && !bulkCheck?.allowed)}
           className="w-full"
         >
           {isUploading ? (
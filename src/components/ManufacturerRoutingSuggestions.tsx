@@ -0,0 +1,114 @@
+/**
+ * Manufacturer Routing Suggestions
+ *
+ * Shows the top 3 manufacturers ranked by manufacturerRouting.ts with the
+ * reasons behind each score. Admin accepts a suggestion in one click.
+ */
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, MapPin, RefreshCw, Sparkles } from "lucide-react";
+import {
+  RoutingOrder,
+  RoutingRecommendation,
+  RoutingResult,
+  getRoutingRecommendations,
+} from "@/lib/manufacturerRouting";
+
+interface ManufacturerRoutingSuggestionsProps {
+  order: RoutingOrder;
+  onAccept: (recommendation: RoutingRecommendation, rank: number) => void;
+  disabled?: boolean;
+}
+
+const ManufacturerRoutingSuggestions = ({ order, onAccept, disabled = false }: ManufacturerRoutingSuggestionsProps) => {
+  const [result, setResult] = useState<RoutingResult | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [order.id]);
+
+  const loadSuggestions = async () => {
+    setLoading(true);
+    try {
+      setResult(await getRoutingRecommendations(order));
+    } catch (error) {
+      console.error('[ManufacturerRoutingSuggestions] Error:', error);
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-muted-foreground">Ranking manufacturers...</p>;
+  }
+
+  if (!result || result.recommendations.length === 0) {
+    return (
+      <div className="p-2 bg-muted rounded text-xs text-muted-foreground">
+        No eligible manufacturers found.
+        {result && result.ineligible.length > 0 && ` ${result.ineligible.length} excluded (paused, unverified or category mismatch).`}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium flex items-center gap-1">
+          <Sparkles className="h-3 w-3" />
+          Suggested manufacturers
+        </p>
+        <Button variant="ghost" size="sm" className="h-6 px-2" onClick={loadSuggestions}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {result.recommendations.map((rec, index) => (
+        <div
+          key={rec.manufacturerId}
+          className={`p-2 rounded border text-xs space-y-1 ${index === 0 ? 'border-primary/40 bg-primary/5' : 'bg-muted/30'}`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <Badge variant="outline" className="text-xs">#{index + 1}</Badge>
+              <span className="font-medium truncate">{rec.companyName}</span>
+              {rec.city && (
+                <span className="text-muted-foreground flex items-center gap-0.5">
+                  <MapPin className="h-3 w-3" />
+                  {rec.city}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge variant="secondary" className="text-xs font-mono">{rec.score}/100</Badge>
+              <Button
+                size="sm"
+                className="h-6 px-2 text-xs"
+                variant={index === 0 ? 'default' : 'outline'}
+                onClick={() => onAccept(rec, index + 1)}
+                disabled={disabled || rec.manufacturerId === order.manufacturer_id}
+              >
+                {rec.manufacturerId === order.manufacturer_id ? 'Current' : 'Assign'}
+              </Button>
+            </div>
+          </div>
+          {rec.reasons.length > 0 && (
+            <p className="text-muted-foreground">{rec.reasons.join(' · ')}</p>
+          )}
+          {rec.warnings.map(warning => (
+            <p key={warning} className="text-amber-700 dark:text-amber-400 flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ManufacturerRoutingSuggestions;
@@ -70,6 +70,9 @@ const OrderCostBreakdown = ({
           <span>Total Amount:</span>
           <span className="text-primary">₹{totalAmount.toLocaleString()}</span>
         </div>
+        <p className="text-xs text-muted-foreground">
+          Prices are inclusive of GST. The tax split is shown on the tax invoice.
+        </p>
       </CardContent>
     </Card>
   );
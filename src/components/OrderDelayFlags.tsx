@@ -3,6 +3,7 @@
  * 
  * Displays computed delay metrics on orders for admin visibility.
  * Shows acceptance delay, sample QC delay, bulk QC delay, delivery delay.
+ * Thresholds come from sla_policies (see slaEngine.ts); defaults apply when none are passed.
  * 
  * ADD-ONLY: No scoring UI, just raw data display.
  */
@@ -10,6 +11,7 @@
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Clock, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { SlaPolicy, SlaStatus, getSlaStatus, getSlaThreshold } from "@/lib/slaEngine";
 
 interface OrderDelayFlagsProps {
   order: {
@@ -25,18 +27,13 @@ interface OrderDelayFlagsProps {
     bulk_qc_uploaded_at?: string | null;
     dispatched_at?: string | null;
     delivered_at?: string | null;
+    order_mode?: string | null;
+    buyer_type?: string | null;
   };
   compact?: boolean;
+  policies?: SlaPolicy[];
 }
 
-// Threshold constants (in hours)
-const THRESHOLDS = {
-  acceptance: { warning: 24, critical: 48 },      // 24h warning, 48h critical
-  sampleQC: { warning: 72, critical: 120 },       // 3 days warning, 5 days critical
-  bulkQC: { warning: 168, critical: 336 },        // 7 days warning, 14 days critical
-  delivery: { warning: 72, critical: 120 },       // 3 days warning, 5 days critical
-};
-
 const formatHours = (hours: number | null | undefined): string => {
   if (hours === null || hours === undefined) return '-';
   if (hours < 1) return `${Math.round(hours * 60)}m`;
@@ -44,17 +41,7 @@ const formatHours = (hours: number | null | undefined): string => {
   return `${(hours / 24).toFixed(1)}d`;
 };
 
-const getDelayStatus = (
-  hours: number | null | undefined, 
-  threshold: { warning: number; critical: number }
-): 'ok' | 'warning' | 'critical' | 'pending' => {
-  if (hours === null || hours === undefined) return 'pending';
-  if (hours >= threshold.critical) return 'critical';
-  if (hours >= threshold.warning) return 'warning';
-  return 'ok';
-};
-
-const getStatusColor = (status: 'ok' | 'warning' | 'critical' | 'pending'): string => {
+const getStatusColor = (status: SlaStatus): string => {
   switch (status) {
     case 'ok': return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
     case 'warning': return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
@@ -63,7 +50,7 @@ const getStatusColor = (status: 'ok' | 'warning' | 'critical' | 'pending'): stri
   }
 };
 
-const getStatusIcon = (status: 'ok' | 'warning' | 'critical' | 'pending') => {
+const getStatusIcon = (status: SlaStatus) => {
   switch (status) {
     case 'ok': return <CheckCircle2 className="w-3 h-3" />;
     case 'warning': return <Clock className="w-3 h-3" />;
@@ -72,14 +59,14 @@ const getStatusIcon = (status: 'ok' | 'warning' | 'critical' | 'pending') => {
   }
 };
 
-const OrderDelayFlags = ({ order, compact = false }: OrderDelayFlagsProps) => {
+const OrderDelayFlags = ({ order, compact = false, policies = [] }: OrderDelayFlagsProps) => {
   const delays = [
     {
       key: 'acceptance',
       label: 'Accept',
       fullLabel: 'Acceptance Delay',
       hours: order.acceptance_delay_hours,
-      threshold: THRESHOLDS.acceptance,
+      threshold: getSlaThreshold(policies, 'acceptance', order),
       hasData: !!order.manufacturer_accept_time,
       tooltip: 'Time from assignment to manufacturer acceptance',
     },
@@ -88,7 +75,7 @@ const OrderDelayFlags = ({ order, compact = false }: OrderDelayFlagsProps) => {
       label: 'Sample QC',
       fullLabel: 'Sample QC Delay',
       hours: order.sample_qc_delay_hours,
-      threshold: THRESHOLDS.sampleQC,
+      threshold: getSlaThreshold(policies, 'sample_qc', order),
       hasData: !!order.sample_qc_uploaded_at,
       tooltip: 'Time from production start to sample QC upload',
     },
@@ -97,7 +84,7 @@ const OrderDelayFlags = ({ order, compact = false }: OrderDelayFlagsProps) => {
       label: 'Bulk QC',
       fullLabel: 'Bulk QC Delay',
       hours: order.bulk_qc_delay_hours,
-      threshold: THRESHOLDS.bulkQC,
+      threshold: getSlaThreshold(policies, 'bulk_qc', order),
       hasData: !!order.bulk_qc_uploaded_at,
       tooltip: 'Time from sample approval to bulk QC upload',
     },
@@ -106,7 +93,7 @@ const OrderDelayFlags = ({ order, compact = false }: OrderDelayFlagsProps) => {
       label: 'Delivery',
       fullLabel: 'Delivery Time',
       hours: order.delivery_delay_hours,
-      threshold: THRESHOLDS.delivery,
+      threshold: getSlaThreshold(policies, 'delivery', order),
       hasData: !!order.delivered_at,
       tooltip: 'Time from dispatch to delivery',
     },
@@ -122,7 +109,7 @@ const OrderDelayFlags = ({ order, compact = false }: OrderDelayFlagsProps) => {
   if (compact) {
     // Compact view - just show badges with warnings/criticals
     const hasIssues = relevantDelays.some(d => {
-      const status = getDelayStatus(d.hours, d.threshold);
+      const status = getSlaStatus(d.hours, d.threshold);
       return status === 'warning' || status === 'critical';
     });
 
@@ -140,7 +127,7 @@ const OrderDelayFlags = ({ order, compact = false }: OrderDelayFlagsProps) => {
           <TooltipContent className="max-w-xs">
             <div className="space-y-1">
               {relevantDelays.map(d => {
-                const status = getDelayStatus(d.hours, d.threshold);
+                const status = getSlaStatus(d.hours, d.threshold);
                 if (status !== 'warning' && status !== 'critical') return null;
                 return (
                   <div key={d.key} className="flex items-center gap-2 text-xs">
@@ -165,7 +152,7 @@ const OrderDelayFlags = ({ order, compact = false }: OrderDelayFlagsProps) => {
       </h4>
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
         {delays.map(d => {
-          const status = d.hasData ? getDelayStatus(d.hours, d.threshold) : 'pending';
+          const status = d.hasData ? getSlaStatus(d.hours, d.threshold) : 'pending';
           return (
             <TooltipProvider key={d.key}>
               <Tooltip>
@@ -124,7 +124,7 @@ const OrderEvidenceView = ({ order, manufacturerInfo, manufacturerVerification }
   // Timeline events for display - complete order lifecycle
   const timelineEvents = [
     { label: "Order Created", timestamp: order.created_at, actor: "Buyer" },
-    { label: "Payment Received (55%)", timestamp: order.fake_payment_timestamp, actor: "System" },
+    { label: "Payment Received", timestamp: order.fake_payment_timestamp, actor: "System" },
     { label: "Escrow Locked", timestamp: order.escrow_locked_timestamp, actor: "System" },
     { label: "Assigned to Manufacturer", timestamp: order.assigned_at, actor: "Platform" },
     { label: "Manufacturer Accepted", timestamp: order.manufacturer_accept_time, actor: "Manufacturer" },
@@ -496,7 +496,7 @@ const OrderEvidenceView = ({ order, manufacturerInfo, manufacturerVerification }
               <span className="font-semibold">₹{(order.total_order_value || order.total_amount || 0).toLocaleString()}</span>
             </div>
             <div className="flex justify-between">
-              <span className="text-muted-foreground">Escrow Amount (55%):</span>
+              <span className="text-muted-foreground">Upfront Payable:</span>
               <span>₹{(order.upfront_payable_amount || order.escrow_amount || 0).toLocaleString()}</span>
             </div>
             {order.fake_payment_timestamp && (
@@ -6,6 +6,8 @@
  * - Sample QC (videos/images from sample QC)
  * - Bulk QC (videos/images from bulk QC)
  * - Delivery (packaging proof, delivery images)
+ * - Invoices / Credit Notes (generated GST documents)
+ * - Return Photos (buyer evidence for returns / remakes)
  */
 
 import { useEffect, useState, useMemo } from "react";
@@ -38,7 +40,9 @@ import {
   Package,
   ClipboardCheck,
   Truck,
+  Receipt,
   AlertCircle,
+  Undo2,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -52,6 +56,9 @@ interface GroupedFiles {
   qc_sample: OrderFile[];
   qc_bulk: OrderFile[];
   delivery: OrderFile[];
+  invoice: OrderFile[];
+  credit_note: OrderFile[];
+  rma: OrderFile[];
 }
 
 const FILE_TYPE_ICONS: Record<OrderFileType, React.ReactNode> = {
@@ -59,6 +66,9 @@ const FILE_TYPE_ICONS: Record<OrderFileType, React.ReactNode> = {
   qc_sample: <ClipboardCheck className="h-4 w-4" />,
   qc_bulk: <Package className="h-4 w-4" />,
   delivery: <Truck className="h-4 w-4" />,
+  invoice: <Receipt className="h-4 w-4" />,
+  credit_note: <Receipt className="h-4 w-4" />,
+  rma: <Undo2 className="h-4 w-4" />,
 };
 
 const FILE_TYPE_TITLES: Record<OrderFileType, string> = {
@@ -66,6 +76,9 @@ const FILE_TYPE_TITLES: Record<OrderFileType, string> = {
   qc_sample: "Sample QC Files",
   qc_bulk: "Bulk QC Files",
   delivery: "Delivery Proof",
+  invoice: "Tax Invoices",
+  credit_note: "Credit Notes",
+  rma: "Return Photos",
 };
 
 interface FileRowProps {
@@ -193,7 +206,7 @@ const OrderFilesSection = ({ orderId, showEmpty = false }: OrderFilesSectionProp
         acc[file.file_type].push(file);
         return acc;
       },
-      { spec: [], qc_sample: [], qc_bulk: [], delivery: [] }
+      { spec: [], qc_sample: [], qc_bulk: [], delivery: [], invoice: [], credit_note: [], rma: [] }
     );
   }, [files]);
 
@@ -270,7 +283,7 @@ const OrderFilesSection = ({ orderId, showEmpty = false }: OrderFilesSectionProp
     );
   }
 
-  const fileTypeOrder: OrderFileType[] = ['spec', 'qc_sample', 'qc_bulk', 'delivery'];
+  const fileTypeOrder: OrderFileType[] = ['spec', 'qc_sample', 'qc_bulk', 'delivery', 'invoice', 'credit_note', 'rma'];
   const nonEmptyTypes = fileTypeOrder.filter(type => groupedFiles[type].length > 0);
 
   return (
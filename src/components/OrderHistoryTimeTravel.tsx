@@ -0,0 +1,189 @@
+/**
+ * Order History Time Travel (Admin)
+ *
+ * Scrub through an order's history reconstructed from order_events.
+ * - Slider selects a point in time (one stop per event)
+ * - Diff shows what that event changed, or the snapshot vs the live order
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ChevronLeft, ChevronRight, Rewind } from "lucide-react";
+import { format } from "date-fns";
+import {
+  OrderHistoryFrame,
+  OrderSnapshot,
+  REPLAY_FIELD_LABELS,
+  REPLAY_TRACKED_FIELDS,
+  diffOrderSnapshots,
+  fetchOrderEventsForReplay,
+  replayOrderHistory,
+} from "@/lib/orderHistoryReplay";
+
+interface OrderHistoryTimeTravelProps {
+  order: Partial<OrderSnapshot> & { id: string; created_at: string };
+}
+
+type CompareMode = 'previous' | 'current';
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), "dd MMM yyyy, HH:mm");
+  }
+  return String(value);
+};
+
+const OrderHistoryTimeTravel = ({ order }: OrderHistoryTimeTravelProps) => {
+  const [frames, setFrames] = useState<OrderHistoryFrame[]>([]);
+  const [position, setPosition] = useState(0);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      const events = await fetchOrderEventsForReplay(order.id);
+      const replayed = replayOrderHistory(order, events);
+      setFrames(replayed);
+      setPosition(replayed.length - 1);
+      setLoading(false);
+    };
+    loadHistory();
+  }, [order]);
+
+  const frame = frames[position];
+
+  const diff = useMemo(() => {
+    if (!frame) return [];
+    if (compareMode === 'current') {
+      return diffOrderSnapshots(frame.snapshot, order);
+    }
+    const previous = frames[position - 1];
+    return previous ? diffOrderSnapshots(previous.snapshot, frame.snapshot) : [];
+  }, [frames, frame, position, compareMode, order]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <p className="text-sm text-muted-foreground">Loading order history...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!frame) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Rewind className="h-5 w-5" />
+          Time Travel
+          <Badge variant="outline" className="ml-2 text-xs font-normal">
+            {frames.length - 1} events
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setPosition(Math.max(0, position - 1))}
+            disabled={position === 0}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Slider
+            value={[position]}
+            min={0}
+            max={Math.max(0, frames.length - 1)}
+            step={1}
+            onValueChange={([value]) => setPosition(value)}
+            disabled={frames.length < 2}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setPosition(Math.min(frames.length - 1, position + 1))}
+            disabled={position === frames.length - 1}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary" className="text-xs font-mono">
+              {frame.event ? frame.event.event_type : 'order_created'}
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              {format(new Date(frame.timestamp), "dd MMM yyyy, HH:mm:ss")}
+            </span>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={compareMode === 'previous' ? 'default' : 'outline'}
+              onClick={() => setCompareMode('previous')}
+            >
+              vs Previous
+            </Button>
+            <Button
+              size="sm"
+              variant={compareMode === 'current' ? 'default' : 'outline'}
+              onClick={() => setCompareMode('current')}
+            >
+              vs Current
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Snapshot at selected point */}
+          <div className="space-y-1 max-h-80 overflow-y-auto p-3 bg-muted/30 rounded-lg border border-border/50">
+            <p className="text-xs font-medium text-muted-foreground mb-2">Snapshot</p>
+            {REPLAY_TRACKED_FIELDS.filter(field => frame.snapshot[field] !== null).map(field => (
+              <div
+                key={field}
+                className={`flex justify-between gap-4 text-xs ${frame.changedFields.includes(field) ? 'font-semibold text-primary' : ''}`}
+              >
+                <span className="text-muted-foreground">{REPLAY_FIELD_LABELS[field]}</span>
+                <span className="font-mono text-right break-all">{formatValue(frame.snapshot[field])}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Field diff */}
+          <div className="space-y-2 max-h-80 overflow-y-auto p-3 bg-muted/30 rounded-lg border border-border/50">
+            <p className="text-xs font-medium text-muted-foreground mb-2">
+              {compareMode === 'previous' ? 'Changed by this event' : 'Changed since this point'}
+            </p>
+            {diff.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No field changes.</p>
+            ) : (
+              diff.map(change => (
+                <div key={change.field} className="text-xs">
+                  <p className="font-medium">{change.label}</p>
+                  <p className="font-mono">
+                    <span className="text-red-600 line-through">{formatValue(change.before)}</span>
+                    {' → '}
+                    <span className="text-green-700">{formatValue(change.after)}</span>
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderHistoryTimeTravel;
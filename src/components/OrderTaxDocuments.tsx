@@ -0,0 +1,201 @@
+/**
+ * Order Tax Documents
+ *
+ * The order's GST tax invoice and credit notes with their tax split and PDF
+ * download. Admins can issue the invoice once payment is captured and any
+ * credit note missing for an approved refund.
+ */
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, Receipt } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { OrderRefund, fetchOrderRefunds } from "@/lib/refundLedger";
+import {
+  SUPPLY_TYPE_LABELS,
+  TAX_DOCUMENT_LABELS,
+  TaxInvoice,
+  fetchOrderTaxDocuments,
+  getTaxDocumentUrl,
+  issueCreditNote,
+  issueTaxInvoice,
+} from "@/lib/taxInvoices";
+
+interface OrderTaxDocumentsProps {
+  orderId: string;
+  paymentState: string | null;
+  isAdmin?: boolean;
+}
+
+const INVOICEABLE_PAYMENT_STATES = ['PAYMENT_HELD', 'PAYMENT_RELEASABLE', 'PAYMENT_RELEASED'];
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const OrderTaxDocuments = ({ orderId, paymentState, isAdmin = false }: OrderTaxDocumentsProps) => {
+  const [documents, setDocuments] = useState<TaxInvoice[]>([]);
+  const [refunds, setRefunds] = useState<OrderRefund[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [issuingId, setIssuingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [orderId, paymentState]);
+
+  const loadDocuments = async () => {
+    setLoading(true);
+    const [taxDocuments, orderRefunds] = await Promise.all([
+      fetchOrderTaxDocuments(orderId),
+      isAdmin ? fetchOrderRefunds(orderId) : Promise.resolve([]),
+    ]);
+    setDocuments(taxDocuments);
+    setRefunds(orderRefunds);
+    setLoading(false);
+  };
+
+  const handleIssueInvoice = async () => {
+    setIssuingId('invoice');
+    const result = await issueTaxInvoice(orderId);
+    setIssuingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to issue tax invoice");
+      return;
+    }
+
+    toast.success(`Tax invoice ${result.documentNumber} issued`);
+    await loadDocuments();
+  };
+
+  const handleIssueCreditNote = async (refund: OrderRefund) => {
+    setIssuingId(refund.id);
+    const result = await issueCreditNote(refund.id);
+    setIssuingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to issue credit note");
+      return;
+    }
+    if (!result.issued) {
+      toast.error(result.reason || "Credit note not issued");
+      return;
+    }
+
+    toast.success(`Credit note ${result.documentNumber} issued`);
+    await loadDocuments();
+  };
+
+  const handleDownload = async (document: TaxInvoice) => {
+    const url = await getTaxDocumentUrl(document);
+    if (!url) {
+      toast.error("PDF is not available yet");
+      return;
+    }
+    window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  const invoice = documents.find((d) => d.document_type === 'invoice');
+  const creditedRefundIds = new Set(documents.map((d) => d.refund_id).filter(Boolean));
+  const refundsWithoutCreditNote = invoice
+    ? refunds.filter((r) => r.status === 'approved' && !creditedRefundIds.has(r.id))
+    : [];
+  const canIssueInvoice = isAdmin && !invoice && INVOICEABLE_PAYMENT_STATES.includes(paymentState || '');
+
+  if (!loading && documents.length === 0 && !canIssueInvoice) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Tax Invoices
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading tax documents...</p>
+        ) : (
+          <>
+            {documents.map((document) => {
+              const isCreditNote = document.document_type === 'credit_note';
+              return (
+                <div key={document.id} className="p-3 rounded border space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold flex items-center gap-2">
+                        <FileText className="h-4 w-4 flex-shrink-0" />
+                        {document.document_number}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {TAX_DOCUMENT_LABELS[document.document_type]} • {format(new Date(document.issued_at), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Badge variant="outline">{SUPPLY_TYPE_LABELS[document.supply_type]}</Badge>
+                      <Button size="sm" variant="outline" onClick={() => handleDownload(document)} disabled={!document.pdf_path}>
+                        <Download className="h-3 w-3 mr-1" />
+                        PDF
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                    <span className="text-muted-foreground">Taxable value</span>
+                    <span className="text-right">{formatAmount(document.taxable_value)}</span>
+                    {document.supply_type === 'intra_state' ? (
+                      <>
+                        <span className="text-muted-foreground">CGST</span>
+                        <span className="text-right">{formatAmount(document.cgst_amount)}</span>
+                        <span className="text-muted-foreground">SGST</span>
+                        <span className="text-right">{formatAmount(document.sgst_amount)}</span>
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-muted-foreground">IGST</span>
+                        <span className="text-right">{formatAmount(document.igst_amount)}</span>
+                      </>
+                    )}
+                    <span className="font-semibold">{isCreditNote ? 'Total credit' : 'Invoice total'}</span>
+                    <span className={`text-right font-semibold ${isCreditNote ? 'text-red-600' : ''}`}>
+                      {isCreditNote ? '−' : ''}{formatAmount(document.total_amount)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Place of supply: {document.place_of_supply} ({document.place_of_supply_code})
+                    {document.recipient_gstin && ` • Buyer GSTIN ${document.recipient_gstin}`}
+                  </p>
+                  {isCreditNote && document.reason && (
+                    <p className="text-xs text-muted-foreground">Reason: {document.reason}</p>
+                  )}
+                </div>
+              );
+            })}
+
+            {canIssueInvoice && (
+              <Button size="sm" onClick={handleIssueInvoice} disabled={issuingId === 'invoice'}>
+                {issuingId === 'invoice' ? "Issuing..." : "Issue Tax Invoice"}
+              </Button>
+            )}
+
+            {isAdmin && refundsWithoutCreditNote.map((refund) => (
+              <div key={refund.id} className="flex items-center justify-between gap-2 p-2 rounded border border-dashed">
+                <p className="text-xs text-muted-foreground">
+                  Approved refund of {formatAmount(refund.amount)} has no credit note
+                </p>
+                <Button size="sm" variant="outline" onClick={() => handleIssueCreditNote(refund)} disabled={issuingId === refund.id}>
+                  {issuingId === refund.id ? "Issuing..." : "Issue Credit Note"}
+                </Button>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderTaxDocuments;
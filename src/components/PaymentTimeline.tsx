@@ -1,6 +1,9 @@
 import { format } from "date-fns";
-import { Clock, Shield, CheckCircle, ArrowRight } from "lucide-react";
+import { Clock, Shield, CheckCircle, ArrowRight, Undo2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { STATE_LABELS } from "@/lib/orderStateMachineV2";
+import { MILESTONE_STATUS_LABELS, OrderPaymentMilestone } from "@/lib/paymentSchedule";
+import { OrderRefund, REFUND_SOURCE_LABELS } from "@/lib/refundLedger";
 
 interface PaymentTimelineProps {
   orderCreatedAt: string;
@@ -11,6 +14,10 @@ interface PaymentTimelineProps {
   sampleApprovedAt: string | null;
   escrowReleasedTimestamp: string | null;
   escrowAmount: number;
+  // Milestone schedule; when present, each tranche gets its own release row
+  milestones?: OrderPaymentMilestone[];
+  // Refund ledger; approved refunds are listed and deducted from the manufacturer payout
+  refunds?: OrderRefund[];
 }
 
 const PaymentTimeline = ({
@@ -22,7 +29,13 @@ const PaymentTimeline = ({
   sampleApprovedAt,
   escrowReleasedTimestamp,
   escrowAmount = 500,
+  milestones = [],
+  refunds = [],
 }: PaymentTimelineProps) => {
+  const approvedRefunds = refunds.filter((refund) => refund.status === 'approved');
+  const refundedTotal = approvedRefunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const manufacturerPayout = Math.max(escrowAmount - refundedTotal, 0);
+
   const formatTimestamp = (timestamp?: string | null) => {
     if (!timestamp) return "Pending";
     return format(new Date(timestamp), "MMM dd, yyyy 'at' hh:mm a");
@@ -80,18 +93,48 @@ const PaymentTimeline = ({
       bgColor: "bg-green-100",
       completed: !!sampleApprovedAt,
     },
-    {
-      label: "Escrow Released",
-      timestamp: escrowReleasedTimestamp,
-      icon: ArrowRight,
-      color: "text-green-600",
-      bgColor: "bg-green-100",
-      completed: !!escrowReleasedTimestamp,
-      amount: escrowAmount,
-      description: `₹${escrowAmount} released to manufacturer`,
-    },
   ];
 
+  const releaseEvents = milestones.length > 0
+    ? milestones.map((milestone) => ({
+        label: `${milestone.name} Released`,
+        timestamp: milestone.released_at,
+        icon: ArrowRight,
+        color: "text-green-600",
+        bgColor: "bg-green-100",
+        completed: milestone.status === 'released',
+        amount: Number(milestone.amount),
+        showPendingDescription: true,
+        description: milestone.status === 'released'
+          ? `₹${Number(milestone.amount)} released to manufacturer`
+          : `${MILESTONE_STATUS_LABELS[milestone.status]} • releases at ${STATE_LABELS[milestone.release_state] || milestone.release_state}`,
+      }))
+    : [
+        {
+          label: "Escrow Released",
+          timestamp: escrowReleasedTimestamp,
+          icon: ArrowRight,
+          color: "text-green-600",
+          bgColor: "bg-green-100",
+          completed: !!escrowReleasedTimestamp,
+          amount: manufacturerPayout,
+          description: `₹${manufacturerPayout} released to manufacturer`,
+        },
+      ];
+
+  const refundEvents = approvedRefunds.map((refund) => ({
+    label: `Refund to Buyer (${REFUND_SOURCE_LABELS[refund.source_type]})`,
+    timestamp: refund.reviewed_at,
+    icon: Undo2,
+    color: "text-red-600",
+    bgColor: "bg-red-100",
+    completed: true,
+    amount: Number(refund.amount),
+    description: refund.affected_quantity
+      ? `${refund.affected_quantity} pcs · ${refund.reason}`
+      : refund.reason,
+  }));
+
   return (
     <Card>
       <CardHeader>
@@ -102,7 +145,7 @@ const PaymentTimeline = ({
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {timelineEvents.map((event, index) => {
+          {[...timelineEvents, ...refundEvents, ...releaseEvents].map((event, index) => {
             const Icon = event.icon;
             return (
               <div
@@ -128,7 +171,7 @@ const PaymentTimeline = ({
                   <p className="text-xs text-muted-foreground mt-1">
                     {formatTimestamp(event.timestamp)}
                   </p>
-                  {event.description && event.completed && (
+                  {event.description && (event.completed || "showPendingDescription" in event) && (
                     <p className="text-xs text-blue-600 mt-1 font-medium">
                       {event.description}
                     </p>
@@ -138,6 +181,14 @@ const PaymentTimeline = ({
             );
           })}
         </div>
+        {approvedRefunds.length > 0 && (
+          <div className="mt-4 pt-4 border-t flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              Manufacturer payout (₹{escrowAmount} − ₹{refundedTotal} refunded)
+            </span>
+            <span className="font-bold">₹{manufacturerPayout}</span>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
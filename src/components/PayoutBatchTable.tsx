@@ -0,0 +1,285 @@
+/**
+ * Payout Batch Table
+ *
+ * Weekly payout batches with their totals, status and CSV / PDF statements.
+ * The order breakdown of a batch opens in a dialog. Admins can mark pending
+ * batches paid (bank / UTR reference) or failed, and retry failed ones.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle, Download, FileText, List, RotateCcw, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  PAYOUT_STATUS_COLORS,
+  PAYOUT_STATUS_LABELS,
+  PayoutBatch,
+  PayoutBatchItem,
+  downloadPayoutStatementCsv,
+  downloadPayoutStatementPdf,
+  fetchPayoutBatchItems,
+  markPayoutFailed,
+  markPayoutPaid,
+  retryPayout,
+} from "@/lib/payoutBatches";
+
+interface PayoutBatchTableProps {
+  batches: PayoutBatch[];
+  isAdmin?: boolean;
+  manufacturerNames?: Record<string, string>;
+  onChanged?: () => void;
+}
+
+type StatusAction = { batch: PayoutBatch; status: 'paid' | 'failed' };
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPeriod = (batch: PayoutBatch) =>
+  `${format(new Date(batch.period_start), "MMM d")} – ${format(new Date(batch.period_end), "MMM d, yyyy")}`;
+
+const PayoutBatchTable = ({ batches, isAdmin = false, manufacturerNames = {}, onChanged }: PayoutBatchTableProps) => {
+  const [selectedBatch, setSelectedBatch] = useState<PayoutBatch | null>(null);
+  const [items, setItems] = useState<PayoutBatchItem[]>([]);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [statusAction, setStatusAction] = useState<StatusAction | null>(null);
+  const [statusNote, setStatusNote] = useState("");
+  const [updating, setUpdating] = useState(false);
+
+  const openBatch = async (batch: PayoutBatch) => {
+    setSelectedBatch(batch);
+    setItems(await fetchPayoutBatchItems(batch.id));
+  };
+
+  const handleDownload = async (batch: PayoutBatch, type: 'csv' | 'pdf') => {
+    setDownloadingId(`${batch.id}:${type}`);
+    const result = type === 'csv'
+      ? await downloadPayoutStatementCsv(batch)
+      : await downloadPayoutStatementPdf(batch);
+    setDownloadingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to download statement");
+    }
+  };
+
+  const handleStatusSubmit = async () => {
+    if (!statusAction) return;
+
+    setUpdating(true);
+    const result = statusAction.status === 'paid'
+      ? await markPayoutPaid(statusAction.batch.id, statusNote)
+      : await markPayoutFailed(statusAction.batch.id, statusNote);
+    setUpdating(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to update payout");
+      return;
+    }
+
+    toast.success(`Payout ${statusAction.batch.reference} marked ${statusAction.status}`);
+    setStatusAction(null);
+    setStatusNote("");
+    onChanged?.();
+  };
+
+  const handleRetry = async (batch: PayoutBatch) => {
+    const result = await retryPayout(batch.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to retry payout");
+      return;
+    }
+
+    toast.success(`Payout ${batch.reference} is pending again`);
+    onChanged?.();
+  };
+
+  if (batches.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No payout batches yet. Released orders are batched every week.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Statement</TableHead>
+            {isAdmin && <TableHead>Manufacturer</TableHead>}
+            <TableHead>Period</TableHead>
+            <TableHead className="text-right">Orders</TableHead>
+            <TableHead className="text-right">Gross</TableHead>
+            <TableHead className="text-right">Commission</TableHead>
+            <TableHead className="text-right">Refunds</TableHead>
+            <TableHead className="text-right">Deductions</TableHead>
+            <TableHead className="text-right">Net Payout</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {batches.map((batch) => (
+            <TableRow key={batch.id}>
+              <TableCell className="font-mono text-xs">{batch.reference}</TableCell>
+              {isAdmin && (
+                <TableCell>{manufacturerNames[batch.manufacturer_id] || batch.manufacturer_id.slice(0, 8)}</TableCell>
+              )}
+              <TableCell className="whitespace-nowrap">{formatPeriod(batch)}</TableCell>
+              <TableCell className="text-right">{batch.order_count}</TableCell>
+              <TableCell className="text-right font-mono">{formatAmount(batch.gross_amount)}</TableCell>
+              <TableCell className="text-right font-mono">{formatAmount(batch.commission_amount)}</TableCell>
+              <TableCell className="text-right font-mono">
+                {formatAmount(batch.refund_amount)}
+                {Number(batch.carried_refund_amount) > 0 && (
+                  <p className="text-xs text-muted-foreground">+{formatAmount(batch.carried_refund_amount)} earlier orders</p>
+                )}
+              </TableCell>
+              <TableCell className="text-right font-mono">{formatAmount(batch.adjustment_amount)}</TableCell>
+              <TableCell className="text-right font-mono font-semibold">{formatAmount(batch.net_amount)}</TableCell>
+              <TableCell>
+                <Badge className={PAYOUT_STATUS_COLORS[batch.status]}>{PAYOUT_STATUS_LABELS[batch.status]}</Badge>
+                {batch.status === 'paid' && batch.payment_reference && (
+                  <p className="text-xs text-muted-foreground mt-1">Ref {batch.payment_reference}</p>
+                )}
+                {batch.status === 'failed' && batch.failure_reason && (
+                  <p className="text-xs text-red-600 mt-1">{batch.failure_reason}</p>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-1">
+                  <Button size="sm" variant="ghost" onClick={() => openBatch(batch)} title="View orders">
+                    <List className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDownload(batch, 'csv')}
+                    disabled={downloadingId === `${batch.id}:csv`}
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    CSV
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDownload(batch, 'pdf')}
+                    disabled={downloadingId === `${batch.id}:pdf`}
+                  >
+                    <FileText className="h-3 w-3 mr-1" />
+                    PDF
+                  </Button>
+                  {isAdmin && batch.status !== 'paid' && (
+                    <Button size="sm" variant="outline" onClick={() => setStatusAction({ batch, status: 'paid' })} title="Mark paid">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                    </Button>
+                  )}
+                  {isAdmin && batch.status === 'pending' && (
+                    <Button size="sm" variant="outline" onClick={() => setStatusAction({ batch, status: 'failed' })} title="Mark failed">
+                      <XCircle className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                  {isAdmin && batch.status === 'failed' && (
+                    <Button size="sm" variant="outline" onClick={() => handleRetry(batch)} title="Retry payout">
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!selectedBatch} onOpenChange={(open) => !open && setSelectedBatch(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedBatch?.reference}</DialogTitle>
+            <DialogDescription>
+              {selectedBatch && `${formatPeriod(selectedBatch)} • ${selectedBatch.order_count} orders`}
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Released</TableHead>
+                <TableHead className="text-right">Order Value</TableHead>
+                <TableHead className="text-right">Delivery</TableHead>
+                <TableHead className="text-right">Commission</TableHead>
+                <TableHead className="text-right">Refunds</TableHead>
+                <TableHead className="text-right">Net</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-mono text-xs">{item.order_id.slice(0, 8).toUpperCase()}</TableCell>
+                  <TableCell className="text-sm">
+                    {item.released_at ? format(new Date(item.released_at), "MMM d, yyyy") : '—'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(item.order_value)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(item.delivery_cost)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(item.commission_amount)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatAmount(item.refund_amount)}</TableCell>
+                  <TableCell className="text-right font-mono font-semibold">{formatAmount(item.net_amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!statusAction} onOpenChange={(open) => { if (!open) { setStatusAction(null); setStatusNote(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {statusAction?.status === 'paid' ? 'Mark Payout Paid' : 'Mark Payout Failed'}
+            </DialogTitle>
+            <DialogDescription>
+              {statusAction && `${statusAction.batch.reference} • ${formatAmount(statusAction.batch.net_amount)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="payout-status-note">
+              {statusAction?.status === 'paid' ? 'Bank / UTR reference' : 'Failure reason'}
+            </Label>
+            <Input
+              id="payout-status-note"
+              value={statusNote}
+              onChange={(e) => setStatusNote(e.target.value)}
+              placeholder={statusAction?.status === 'paid' ? 'e.g. UTR number' : 'e.g. Bank account details rejected'}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusAction(null)}>Cancel</Button>
+            <Button
+              onClick={handleStatusSubmit}
+              disabled={updating || !statusNote.trim()}
+              variant={statusAction?.status === 'failed' ? 'destructive' : 'default'}
+            >
+              {updating ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PayoutBatchTable;
@@ -0,0 +1,83 @@
+/**
+ * QC Defect List
+ *
+ * Recorded defects of a QC submission with their catalogue label, severity and the mark on
+ * the QC photo, if any.
+ */
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { getSignedUrl } from "@/lib/orderFileStorage";
+import { DEFECT_CLASS_LABELS } from "@/lib/aqlSampling";
+import { DEFECT_CATEGORY_LABELS, QCDefect } from "@/lib/qcDefects";
+import QCPhotoAnnotator from "@/components/QCPhotoAnnotator";
+
+interface QCDefectListProps {
+  defects: QCDefect[];
+}
+
+const SEVERITY_CLASSES: Record<QCDefect['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  major: 'bg-amber-100 text-amber-800',
+  minor: 'bg-blue-100 text-blue-800',
+};
+
+const QCDefectList = ({ defects }: QCDefectListProps) => {
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const photoPaths = [...new Set(defects.map((defect) => defect.file_url).filter(Boolean) as string[])].join('|');
+
+  useEffect(() => {
+    const loadPhotos = async () => {
+      const urls: Record<string, string> = {};
+      for (const path of photoPaths ? photoPaths.split('|') : []) {
+        const signed = await getSignedUrl(path, 'orders');
+        if (signed) {
+          urls[path] = signed;
+        }
+      }
+      setPhotoUrls(urls);
+    };
+
+    loadPhotos();
+  }, [photoPaths]);
+
+  if (defects.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {defects.map((defect) => (
+        <div key={defect.id} className="flex gap-3 p-2 rounded border bg-background">
+          {defect.file_url && photoUrls[defect.file_url] && (
+            <a href={photoUrls[defect.file_url]} target="_blank" rel="noopener noreferrer" className="w-24 shrink-0">
+              <QCPhotoAnnotator imageUrl={photoUrls[defect.file_url]} annotation={defect.annotation} />
+            </a>
+          )}
+          <div className="space-y-1 text-sm min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{defect.defect?.label || defect.defect_code}</span>
+              <Badge variant="outline" className="text-xs">{defect.defect_code}</Badge>
+              <Badge className={`text-xs ${SEVERITY_CLASSES[defect.severity]}`}>
+                {DEFECT_CLASS_LABELS[defect.severity]}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {defect.defect ? `${DEFECT_CATEGORY_LABELS[defect.defect.category]} · ` : ''}
+              {defect.pieces} {defect.pieces === 1 ? 'piece' : 'pieces'}
+              {defect.location && ` · ${defect.location}`}
+            </p>
+            {defect.required_fix && (
+              <p className="text-xs">Fix: {defect.required_fix}</p>
+            )}
+            {defect.notes && (
+              <p className="text-xs text-muted-foreground">{defect.notes}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QCDefectList;
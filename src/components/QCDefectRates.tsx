@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Bug } from "lucide-react";
+import { DefectRate, fetchDefectRates } from "@/lib/qcDefects";
+
+const PRINT_METHOD_LABELS: Record<string, string> = {
+  dtg: 'DTG',
+  screen: 'Screen print',
+  embroidery: 'Embroidery',
+};
+
+const PERIODS: Record<string, number | null> = {
+  '30': 30,
+  '90': 90,
+  all: null,
+};
+
+// Defect rates per manufacturer and print method, with the codes behind them
+interface RateGroup {
+  key: string;
+  manufacturerId: string | null;
+  printMethod: string | null;
+  defects: number;
+  pieces: number;
+  submissions: number;
+  codes: DefectRate[];
+}
+
+const groupRates = (rates: DefectRate[]): RateGroup[] => {
+  const groups: Record<string, RateGroup> = {};
+  for (const rate of rates) {
+    const key = `${rate.manufacturer_id}|${rate.print_method}`;
+    groups[key] ??= {
+      key,
+      manufacturerId: rate.manufacturer_id,
+      printMethod: rate.print_method,
+      defects: 0,
+      pieces: 0,
+      submissions: rate.qc_submissions,
+      codes: [],
+    };
+    groups[key].defects += rate.defect_count;
+    groups[key].pieces += rate.pieces_affected;
+    groups[key].codes.push(rate);
+  }
+
+  const rateOf = (group: RateGroup) => (group.submissions > 0 ? group.defects / group.submissions : Infinity);
+  return Object.values(groups).sort((a, b) => rateOf(b) - rateOf(a));
+};
+
+const QCDefectRates = () => {
+  const [period, setPeriod] = useState("90");
+  const [groups, setGroups] = useState<RateGroup[]>([]);
+  const [companyNames, setCompanyNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchRates();
+  }, [period]);
+
+  const fetchRates = async () => {
+    setLoading(true);
+    const days = PERIODS[period];
+    const rates = await fetchDefectRates(days ? subDays(new Date(), days) : undefined);
+
+    const manufacturerIds = [...new Set(rates.map((rate) => rate.manufacturer_id).filter(Boolean) as string[])];
+    if (manufacturerIds.length > 0) {
+      const { data: verifications } = await supabase
+        .from("manufacturer_verifications")
+        .select("user_id, company_name")
+        .in("user_id", manufacturerIds);
+
+      const names: Record<string, string> = {};
+      verifications?.forEach((v) => {
+        names[v.user_id] = v.company_name;
+      });
+      setCompanyNames(names);
+    }
+
+    setGroups(groupRates(rates));
+    setLoading(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Bug className="h-4 w-4" />
+          QC Defect Rates by Manufacturer & Print Method
+        </CardTitle>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="all">All time</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="py-6 text-center text-muted-foreground">Loading defect rates...</p>
+        ) : groups.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">No defects recorded in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Manufacturer</TableHead>
+                <TableHead>Print method</TableHead>
+                <TableHead className="text-right">QC submissions</TableHead>
+                <TableHead className="text-right">Defects</TableHead>
+                <TableHead className="text-right">Defects / submission</TableHead>
+                <TableHead>Top defects</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.key}>
+                  <TableCell className="font-medium">
+                    {(group.manufacturerId && companyNames[group.manufacturerId]) || 'Unknown'}
+                  </TableCell>
+                  <TableCell>
+                    {group.printMethod ? PRINT_METHOD_LABELS[group.printMethod] || group.printMethod : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">{group.submissions}</TableCell>
+                  <TableCell className="text-right">
+                    {group.defects}
+                    <span className="text-xs text-muted-foreground"> ({group.pieces} pcs)</span>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {group.submissions > 0 ? (group.defects / group.submissions).toFixed(2) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {group.codes.slice(0, 3).map((code) => (
+                        <Badge key={code.defect_code} variant="outline" className="text-xs font-mono">
+                          {code.defect_code} × {code.defect_count}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QCDefectRates;
@@ -0,0 +1,291 @@
+/**
+ * QC Frame Comparison
+ *
+ * Keyframes of the latest QC video next to a reference - the approved sample photo, the
+ * buyer's mockups or (for bulk) the approved sample's own keyframes - so print placement
+ * and colour can be checked without scrubbing the video. Overlay mode lays the reference
+ * over the frame with adjustable opacity.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Columns2, Film, Layers, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  KeyframeStage,
+  QCKeyframe,
+  fetchQCKeyframes,
+  formatFrameTimestamp,
+  processStoredQCVideo,
+} from "@/lib/qcKeyframes";
+
+interface QCFrameComparisonProps {
+  orderId: string;
+  stage: KeyframeStage;
+  // Admins can (re)extract keyframes of a video uploaded without them
+  canReprocess?: boolean;
+}
+
+interface ReferenceImage {
+  key: string;
+  label: string;
+  url: string;
+}
+
+interface SignedFrame extends QCKeyframe {
+  url: string;
+}
+
+interface ComparisonSpecs {
+  print_position: string;
+  print_size: string;
+  color: string;
+  tolerance_mm: number;
+}
+
+const signFrames = async (frames: QCKeyframe[]): Promise<SignedFrame[]> => {
+  if (frames.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from('orders')
+    .createSignedUrls(frames.map((frame) => frame.path), 3600);
+
+  if (error || !data) {
+    console.error('[QCFrameComparison] Error signing keyframes:', error);
+    return [];
+  }
+
+  return frames
+    .map((frame, index) => ({ ...frame, url: data[index]?.signedUrl || '' }))
+    .filter((frame) => frame.url);
+};
+
+const QCFrameComparison = ({ orderId, stage, canReprocess = false }: QCFrameComparisonProps) => {
+  const [frames, setFrames] = useState<SignedFrame[]>([]);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [specs, setSpecs] = useState<ComparisonSpecs | null>(null);
+  const [videoPath, setVideoPath] = useState<string | null>(null);
+  const [manufacturerId, setManufacturerId] = useState<string | null>(null);
+  const [selectedFrame, setSelectedFrame] = useState(0);
+  const [referenceKey, setReferenceKey] = useState<string>("");
+  const [mode, setMode] = useState<'side' | 'overlay'>('side');
+  const [opacity, setOpacity] = useState(50);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    loadComparison();
+  }, [orderId, stage]);
+
+  const loadComparison = async () => {
+    setLoading(true);
+    const [{ data: order, error }, { data: orderSpecs }] = await Promise.all([
+      supabase
+        .from('orders')
+        .select('manufacturer_id, mockup_image, back_mockup_image, sample_qc_video_url, bulk_qc_video_url')
+        .eq('id', orderId)
+        .single(),
+      supabase
+        .from('order_specs')
+        .select('approved_sample_url, print_position, print_size, color, tolerance_mm')
+        .eq('order_id', orderId)
+        .maybeSingle(),
+    ]);
+
+    if (error || !order) {
+      console.error('[QCFrameComparison] Error fetching order:', error);
+      setLoading(false);
+      return;
+    }
+
+    const currentVideo = stage === 'bulk' ? order.bulk_qc_video_url : order.sample_qc_video_url;
+    const [stageFrames, sampleFrames] = await Promise.all([
+      currentVideo ? fetchQCKeyframes(orderId, stage, currentVideo) : [],
+      stage === 'bulk' && order.sample_qc_video_url ? fetchQCKeyframes(orderId, 'sample', order.sample_qc_video_url) : [],
+    ]);
+    const [signedStage, signedSample] = await Promise.all([signFrames(stageFrames), signFrames(sampleFrames)]);
+
+    const refs: ReferenceImage[] = [];
+    if (orderSpecs?.approved_sample_url) {
+      refs.push({ key: 'approved', label: 'Approved sample', url: orderSpecs.approved_sample_url });
+    }
+    if (order.mockup_image) {
+      refs.push({ key: 'mockup', label: 'Front mockup', url: order.mockup_image });
+    }
+    if (order.back_mockup_image) {
+      refs.push({ key: 'back_mockup', label: 'Back mockup', url: order.back_mockup_image });
+    }
+    signedSample.forEach((frame) => {
+      refs.push({ key: frame.id, label: `Sample video at ${formatFrameTimestamp(frame.timestamp)}`, url: frame.url });
+    });
+
+    setVideoPath(currentVideo);
+    setManufacturerId(order.manufacturer_id);
+    setFrames(signedStage);
+    setReferences(refs);
+    setSpecs(orderSpecs || null);
+    setSelectedFrame(0);
+    setReferenceKey((key) => (refs.some((ref) => ref.key === key) ? key : refs[0]?.key || ""));
+    setLoading(false);
+  };
+
+  const handleReprocess = async () => {
+    if (!videoPath) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setProcessing(true);
+    const result = await processStoredQCVideo(orderId, stage, videoPath, {
+      role: 'admin',
+      id: user.id,
+      manufacturerId,
+    });
+    setProcessing(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to extract keyframes");
+      return;
+    }
+
+    toast.success(`${result.data} keyframes extracted`);
+    loadComparison();
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  const frame = frames[selectedFrame];
+  const reference = references.find((ref) => ref.key === referenceKey);
+  const stageLabel = stage === 'bulk' ? 'Bulk' : 'Sample';
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Film className="h-4 w-4" />
+          Frame Comparison
+        </p>
+        <div className="flex items-center gap-1">
+          {canReprocess && videoPath && (
+            <Button size="sm" variant="ghost" onClick={handleReprocess} disabled={processing}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${processing ? 'animate-spin' : ''}`} />
+              {processing ? 'Extracting...' : frames.length > 0 ? 'Re-extract' : 'Extract Keyframes'}
+            </Button>
+          )}
+          {frame && reference && (
+            <>
+              <Button size="sm" variant={mode === 'side' ? 'secondary' : 'ghost'} onClick={() => setMode('side')}>
+                <Columns2 className="h-4 w-4 mr-1" />
+                Side by side
+              </Button>
+              <Button size="sm" variant={mode === 'overlay' ? 'secondary' : 'ghost'} onClick={() => setMode('overlay')}>
+                <Layers className="h-4 w-4 mr-1" />
+                Overlay
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {specs && (
+        <p className="text-xs text-muted-foreground">
+          Locked specs: print {specs.print_position} · {specs.print_size} · colour {specs.color} ·
+          placement tolerance ±{specs.tolerance_mm} mm
+        </p>
+      )}
+
+      {frames.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {videoPath
+            ? 'No keyframes have been extracted from this QC video yet.'
+            : `No ${stageLabel.toLowerCase()} QC video uploaded yet.`}
+        </p>
+      ) : (
+        <>
+          {references.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Label className="text-xs shrink-0">Compare with</Label>
+              <Select value={referenceKey} onValueChange={setReferenceKey}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {references.map((ref) => (
+                    <SelectItem key={ref.key} value={ref.key}>{ref.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {mode === 'overlay' && reference ? (
+            <div className="space-y-2">
+              <div className="relative bg-black rounded-lg overflow-hidden">
+                <img src={frame.url} alt={`${stageLabel} frame`} className="w-full h-auto" />
+                <img
+                  src={reference.url}
+                  alt={reference.label}
+                  className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                  style={{ opacity: opacity / 100 }}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <Label className="text-xs shrink-0">{reference.label} opacity</Label>
+                <Slider value={[opacity]} onValueChange={([value]) => setOpacity(value)} min={0} max={100} step={5} />
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {stageLabel} QC at {formatFrameTimestamp(frame.timestamp)}
+                </p>
+                <a href={frame.url} target="_blank" rel="noopener noreferrer">
+                  <img src={frame.url} alt={`${stageLabel} frame`} className="w-full h-64 object-contain bg-black rounded-lg" />
+                </a>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">{reference?.label || 'Reference'}</p>
+                {reference ? (
+                  <a href={reference.url} target="_blank" rel="noopener noreferrer">
+                    <img src={reference.url} alt={reference.label} className="w-full h-64 object-contain bg-muted rounded-lg" />
+                  </a>
+                ) : (
+                  <div className="h-64 flex items-center justify-center bg-muted rounded-lg text-xs text-muted-foreground">
+                    No approved sample or mockup on this order
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {frames.map((item, index) => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => setSelectedFrame(index)}
+                className={`relative h-16 w-24 shrink-0 overflow-hidden rounded border-2 ${
+                  index === selectedFrame ? 'border-primary' : 'border-transparent'
+                }`}
+              >
+                <img src={item.url} alt={`Frame ${index + 1}`} className="h-full w-full object-cover" />
+                <span className="absolute bottom-0 right-0 bg-black/70 px-1 text-[10px] text-white">
+                  {formatFrameTimestamp(item.timestamp)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QCFrameComparison;
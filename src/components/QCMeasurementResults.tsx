@@ -0,0 +1,108 @@
+/**
+ * QC Measurement Results
+ *
+ * Read-only measurement sheet of a QC submission: every measured piece with its result and
+ * the points out of tolerance. A failing piece blocks approval (canApproveSample /
+ * canApproveBulkQC).
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ruler } from "lucide-react";
+import {
+  MEASUREMENT_POINTS,
+  MEASUREMENT_POINT_LABELS,
+  MEASUREMENT_POINT_UNITS,
+  MeasurementPoint,
+  QCMeasurement,
+  formatDeviation,
+  summarizeMeasurements,
+} from "@/lib/qcMeasurements";
+
+interface QCMeasurementResultsProps {
+  measurements: QCMeasurement[];
+}
+
+const POINT_VALUE: Record<MeasurementPoint, (measurement: QCMeasurement) => number | null> = {
+  chest: (m) => m.chest_cm,
+  length: (m) => m.length_cm,
+  sleeve: (m) => m.sleeve_cm,
+  print_width: (m) => m.print_width_mm,
+  print_height: (m) => m.print_height_mm,
+  print_offset: (m) => m.print_offset_mm,
+};
+
+const QCMeasurementResults = ({ measurements }: QCMeasurementResultsProps) => {
+  if (measurements.length === 0) {
+    return null;
+  }
+
+  const summary = summarizeMeasurements(measurements);
+  const points = MEASUREMENT_POINTS.filter((point) =>
+    measurements.some((measurement) => POINT_VALUE[point](measurement) !== null)
+  );
+
+  return (
+    <div className="space-y-2 p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Ruler className="h-4 w-4" />
+          Measurements
+        </p>
+        {summary.failed > 0 ? (
+          <Badge variant="destructive">
+            {summary.failed} of {summary.pieces} out of tolerance
+          </Badge>
+        ) : (
+          <Badge className="bg-green-100 text-green-800">
+            All {summary.pieces} pieces in tolerance
+          </Badge>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Piece</TableHead>
+            {points.map((point) => (
+              <TableHead key={point} className="text-right">
+                {MEASUREMENT_POINT_LABELS[point]} ({MEASUREMENT_POINT_UNITS[point]})
+              </TableHead>
+            ))}
+            <TableHead>Result</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {measurements.map((measurement) => (
+            <TableRow key={measurement.id}>
+              <TableCell className="font-medium whitespace-nowrap">
+                {measurement.size} #{measurement.piece_number}
+              </TableCell>
+              {points.map((point) => {
+                const value = POINT_VALUE[point](measurement);
+                const failure = measurement.failures.find((entry) => entry.point === point);
+                return (
+                  <TableCell key={point} className={`text-right ${failure ? 'text-red-600 font-medium' : ''}`}>
+                    {value ?? '—'}
+                    {failure && (
+                      <span className="block text-[10px]">{formatDeviation(failure)}</span>
+                    )}
+                  </TableCell>
+                );
+              })}
+              <TableCell>
+                {measurement.result === 'fail' ? (
+                  <Badge variant="destructive">Fail</Badge>
+                ) : (
+                  <Badge className="bg-green-100 text-green-800">Pass</Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default QCMeasurementResults;
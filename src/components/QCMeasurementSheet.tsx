@@ -0,0 +1,203 @@
+/**
+ * QC Measurement Sheet
+ *
+ * ROLE: Manufacturer measures sampled pieces per size with the QC upload - garment points
+ * against the size chart, print dimensions against the locked spec. Each piece shows
+ * pass/fail as it is filled in; the parent records the sheet with the QC submission
+ * (recordQCMeasurements). Orders without measurement targets show nothing.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, Plus, Ruler, Trash2 } from "lucide-react";
+import {
+  MEASUREMENT_POINTS,
+  MEASUREMENT_POINT_LABELS,
+  MEASUREMENT_POINT_UNITS,
+  MeasurementDraft,
+  MeasurementPoint,
+  MeasurementSpec,
+  evaluateMeasurement,
+  fetchMeasurementSpec,
+  formatDeviation,
+  hasMeasurementTargets,
+  measurementTargets,
+  normalizeSize,
+  validateMeasurementSheet,
+} from "@/lib/qcMeasurements";
+
+interface QCMeasurementSheetProps {
+  orderId: string;
+  drafts: MeasurementDraft[];
+  onChange: (drafts: MeasurementDraft[], check: { valid: boolean; reason?: string }) => void;
+}
+
+const QCMeasurementSheet = ({ orderId, drafts, onChange }: QCMeasurementSheetProps) => {
+  const [spec, setSpec] = useState<MeasurementSpec | null>(null);
+  const [newSize, setNewSize] = useState("");
+
+  useEffect(() => {
+    fetchMeasurementSpec(orderId).then((loaded) => {
+      setSpec(loaded);
+      onChange(drafts, validateMeasurementSheet(loaded, drafts));
+    });
+  }, [orderId]);
+
+  if (!spec || !hasMeasurementTargets(spec)) {
+    return null;
+  }
+
+  const update = (next: MeasurementDraft[]) => {
+    onChange(next, validateMeasurementSheet(spec, next));
+  };
+
+  const addPiece = (size: string) => {
+    const normalized = normalizeSize(size);
+    if (!normalized) return;
+    const pieces = drafts.filter((draft) => normalizeSize(draft.size) === normalized).map((draft) => draft.piece_number);
+    update([...drafts, { size: normalized, piece_number: Math.max(0, ...pieces) + 1, values: {} }]);
+    setNewSize("");
+  };
+
+  const setValue = (index: number, point: MeasurementPoint, value: number) => {
+    update(drafts.map((draft, i) => (
+      i === index ? { ...draft, values: { ...draft.values, [point]: Number.isNaN(value) ? null : value } } : draft
+    )));
+  };
+
+  // Columns for every point that has a target on some size
+  const sizes = spec.sizeChart.map((row) => row.size);
+  const points = MEASUREMENT_POINTS.filter((point) =>
+    (sizes.length > 0 ? sizes : ['']).some((size) => measurementTargets(spec, size).some((target) => target.point === point))
+  );
+  const check = validateMeasurementSheet(spec, drafts);
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Ruler className="h-4 w-4" />
+          Measurement Sheet (Required) *
+        </Label>
+        <span className="text-xs text-muted-foreground">
+          {drafts.length} {drafts.length === 1 ? 'piece' : 'pieces'} measured
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Measure sampled pieces of each size flat. Garment points are checked against the size chart,
+        print dimensions against the locked spec.
+      </p>
+
+      {drafts.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Piece</TableHead>
+              {points.map((point) => (
+                <TableHead key={point}>
+                  {MEASUREMENT_POINT_LABELS[point]} ({MEASUREMENT_POINT_UNITS[point]})
+                </TableHead>
+              ))}
+              <TableHead>Result</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drafts.map((draft, index) => {
+              const targets = measurementTargets(spec, draft.size);
+              const evaluation = evaluateMeasurement(spec, draft);
+              return (
+                <TableRow key={`${draft.size}-${draft.piece_number}`}>
+                  <TableCell className="font-medium whitespace-nowrap">{draft.size} #{draft.piece_number}</TableCell>
+                  {points.map((point) => {
+                    const target = targets.find((entry) => entry.point === point);
+                    const failure = evaluation.failures.find((entry) => entry.point === point);
+                    return (
+                      <TableCell key={point}>
+                        {target ? (
+                          <div className="space-y-1">
+                            <Input
+                              type="number"
+                              step="0.1"
+                              className={`h-8 w-24 ${failure ? 'border-red-500' : ''}`}
+                              placeholder={String(target.target)}
+                              value={draft.values[point] ?? ''}
+                              onChange={(e) => setValue(index, point, e.target.valueAsNumber)}
+                            />
+                            <p className={`text-[10px] ${failure ? 'text-red-600' : 'text-muted-foreground'}`}>
+                              {failure ? formatDeviation(failure) : `${target.target} ±${target.tolerance}`}
+                            </p>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell>
+                    {evaluation.missing.length > 0 ? (
+                      <Badge variant="outline">Incomplete</Badge>
+                    ) : evaluation.result === 'pass' ? (
+                      <Badge className="bg-green-100 text-green-800">Pass</Badge>
+                    ) : (
+                      <Badge variant="destructive">Fail</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => update(drafts.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {sizes.length > 0 ? (
+          sizes.map((size) => (
+            <Button key={size} type="button" size="sm" variant="outline" onClick={() => addPiece(size)}>
+              <Plus className="w-4 h-4 mr-1" />
+              {size}
+            </Button>
+          ))
+        ) : (
+          <>
+            <Input
+              className="h-8 w-24"
+              placeholder="Size"
+              value={newSize}
+              onChange={(e) => setNewSize(e.target.value)}
+            />
+            <Button type="button" size="sm" variant="outline" onClick={() => addPiece(newSize)} disabled={!newSize.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Piece
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-start gap-2 text-xs">
+        <AlertCircle className={`w-4 h-4 mt-0.5 ${check.valid ? 'text-green-500' : 'text-amber-500'}`} />
+        <p className={check.valid ? 'text-green-600' : 'text-amber-600'}>
+          {check.valid
+            ? 'Sheet complete. Pieces out of tolerance will block approval until fixed.'
+            : check.reason}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default QCMeasurementSheet;
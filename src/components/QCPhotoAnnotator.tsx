@@ -0,0 +1,116 @@
+/**
+ * QC Photo Annotator
+ *
+ * Marks a defect on a QC photo: click to drop a pin, drag to draw a box. The mark is kept in
+ * fractions of the image so it lines up at any display size. Read-only mode just draws the
+ * mark (defect lists, thumbnails).
+ */
+
+import { PointerEvent, useRef, useState } from "react";
+import { DefectAnnotation } from "@/lib/qcDefects";
+
+interface QCPhotoAnnotatorProps {
+  imageUrl: string;
+  annotation: DefectAnnotation | null;
+  onChange?: (annotation: DefectAnnotation) => void;
+  label?: string;
+  className?: string;
+}
+
+// Drags shorter than this (fraction of the image) count as a click
+const MIN_BOX_SIZE = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const QCPhotoAnnotator = ({ imageUrl, annotation, onChange, label, className = "" }: QCPhotoAnnotatorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragBox, setDragBox] = useState<DefectAnnotation | null>(null);
+
+  const toPoint = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const toBox = (start: { x: number; y: number }, end: { x: number; y: number }): DefectAnnotation => ({
+    type: 'box',
+    x: round(Math.min(start.x, end.x)),
+    y: round(Math.min(start.y, end.y)),
+    width: round(Math.abs(end.x - start.x)),
+    height: round(Math.abs(end.y - start.y)),
+  });
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!onChange) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(toPoint(e));
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    setDragBox(toBox(dragStart, toPoint(e)));
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart || !onChange) return;
+    const end = toPoint(e);
+    const box = toBox(dragStart, end);
+    setDragStart(null);
+    setDragBox(null);
+
+    if (box.type === 'box' && box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) {
+      onChange(box);
+    } else {
+      onChange({ type: 'pin', x: round(end.x), y: round(end.y) });
+    }
+  };
+
+  const shown = dragBox || annotation;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative select-none overflow-hidden rounded-lg bg-muted ${onChange ? 'cursor-crosshair touch-none' : ''} ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <img src={imageUrl} alt="QC photo" className="block w-full h-auto pointer-events-none" draggable={false} />
+
+      {shown?.type === 'box' && (
+        <div
+          className="absolute border-2 border-red-500 bg-red-500/10"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`,
+          }}
+        >
+          {label && (
+            <span className="absolute -top-5 left-0 whitespace-nowrap rounded bg-red-500 px-1 text-[10px] font-medium text-white">
+              {label}
+            </span>
+          )}
+        </div>
+      )}
+
+      {shown?.type === 'pin' && (
+        <div
+          className="absolute -translate-x-1/2 -translate-y-1/2"
+          style={{ left: `${shown.x * 100}%`, top: `${shown.y * 100}%` }}
+        >
+          <div className="h-3 w-3 rounded-full border-2 border-white bg-red-500 shadow" />
+          {label && (
+            <span className="absolute left-4 -top-1 whitespace-nowrap rounded bg-red-500 px-1 text-[10px] font-medium text-white">
+              {label}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QCPhotoAnnotator;
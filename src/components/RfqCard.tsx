@@ -0,0 +1,134 @@
+/**
+ * RFQ Card
+ *
+ * One request for quotation with the buyer's requirements and the quotes it has
+ * received, each with its line items, validity and status. The page decides which
+ * quote actions are offered (buyers accept, responders and admins withdraw).
+ */
+
+import { ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExternalLink } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  RFQ_QUOTE_STATUS_COLORS,
+  RFQ_QUOTE_STATUS_LABELS,
+  RFQ_STATUS_COLORS,
+  RFQ_STATUS_LABELS,
+  Rfq,
+  RfqQuote,
+  getRfqQuoteStatus,
+} from "@/lib/rfq";
+
+interface RfqCardProps {
+  rfq: Rfq;
+  quotes: RfqQuote[];
+  // Shown next to each quote's status (e.g. Accept / Withdraw)
+  renderQuoteActions?: (quote: RfqQuote) => ReactNode;
+  // Shown in the card header (e.g. Send Quote / Cancel)
+  actions?: ReactNode;
+  emptyQuotesText?: string;
+}
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const RfqCard = ({ rfq, quotes, renderQuoteActions, actions, emptyQuotesText = "No quotes yet." }: RfqCardProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {rfq.quantity} x {rfq.product_type}
+              <Badge className={RFQ_STATUS_COLORS[rfq.status]}>{RFQ_STATUS_LABELS[rfq.status]}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Requested {format(new Date(rfq.created_at), "MMM d, yyyy")}
+              {rfq.expected_deadline && ` • Needed by ${format(new Date(rfq.expected_deadline), "MMM d, yyyy")}`}
+              {rfq.target_unit_price != null && ` • Target ${formatAmount(rfq.target_unit_price)} / piece`}
+            </CardDescription>
+          </div>
+          {actions && <div className="flex gap-2 shrink-0">{actions}</div>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 text-sm">
+          <p className="whitespace-pre-wrap">{rfq.requirements}</p>
+          <p className="text-muted-foreground">
+            {[rfq.fabric_preference, rfq.selected_color, `Design ${rfq.design_size}`].filter(Boolean).join(" • ")}
+          </p>
+          {rfq.google_drive_link && (
+            <a
+              href={rfq.google_drive_link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-primary hover:underline"
+            >
+              Reference files <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+
+        {quotes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{emptyQuotesText}</p>
+        ) : (
+          quotes.map((quote) => {
+            const status = getRfqQuoteStatus(quote);
+            return (
+              <div key={quote.id} className="border border-border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-sm">
+                    <span className="font-semibold">{formatAmount(quote.total_amount)}</span>
+                    <span className="text-muted-foreground">
+                      {quote.lead_time_days && ` • ${quote.lead_time_days} days lead time`}
+                      {status === 'submitted'
+                        ? ` • Expires ${formatDistanceToNow(new Date(quote.valid_until), { addSuffix: true })}`
+                        : ` • Valid until ${format(new Date(quote.valid_until), "MMM d, yyyy")}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className={RFQ_QUOTE_STATUS_COLORS[status]}>{RFQ_QUOTE_STATUS_LABELS[status]}</Badge>
+                    {renderQuoteActions?.(quote)}
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Unit price</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quote.line_items.map((line, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell className="text-right">{line.quantity}</TableCell>
+                        <TableCell className="text-right">{formatAmount(line.unit_price)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(line.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-right text-muted-foreground">Delivery</TableCell>
+                      <TableCell className="text-right">{formatAmount(quote.delivery_cost)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+
+                {quote.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{quote.notes}</p>}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RfqCard;
@@ -0,0 +1,212 @@
+/**
+ * RFQ Quote Form
+ *
+ * Dialog for admins and invited manufacturers to answer an RFQ with an itemised
+ * quote: line items, delivery cost, lead time and how long the quote stays valid.
+ * Totals shown here are a preview; submit_rfq_quote recomputes them.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Rfq, submitRfqQuote } from "@/lib/rfq";
+
+interface RfqQuoteFormProps {
+  rfq: Rfq | null;
+  onClose: () => void;
+  onSubmitted?: () => void;
+}
+
+type DraftLine = { description: string; quantity: string; unit_price: string };
+
+const toNumber = (value: string) => parseFloat(value) || 0;
+
+const formatAmount = (value: number) =>
+  `₹${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const RfqQuoteForm = ({ rfq, onClose, onSubmitted }: RfqQuoteFormProps) => {
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [deliveryCost, setDeliveryCost] = useState("0");
+  const [leadTimeDays, setLeadTimeDays] = useState("");
+  const [validDays, setValidDays] = useState("7");
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start every quote with the main production line for the requested quantity
+  const draftLines = lines.length > 0 || !rfq
+    ? lines
+    : [{ description: `${rfq.product_type} production`, quantity: String(rfq.quantity), unit_price: "" }];
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines(draftLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const subtotal = draftLines.reduce((sum, line) => sum + toNumber(line.quantity) * toNumber(line.unit_price), 0);
+  const total = subtotal + toNumber(deliveryCost);
+
+  const handleClose = () => {
+    setLines([]);
+    setDeliveryCost("0");
+    setLeadTimeDays("");
+    setValidDays("7");
+    setNotes("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!rfq) return;
+
+    setSubmitting(true);
+    const result = await submitRfqQuote(rfq.id, {
+      line_items: draftLines.map((line) => ({
+        description: line.description,
+        quantity: toNumber(line.quantity),
+        unit_price: toNumber(line.unit_price),
+      })),
+      delivery_cost: toNumber(deliveryCost),
+      lead_time_days: leadTimeDays ? parseInt(leadTimeDays) : null,
+      valid_days: parseInt(validDays) || 0,
+      notes,
+    });
+    setSubmitting(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to send quote");
+      return;
+    }
+
+    toast.success("Quote sent to the buyer");
+    handleClose();
+    onSubmitted?.();
+  };
+
+  return (
+    <Dialog open={!!rfq} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Send Quote</DialogTitle>
+          <DialogDescription>
+            {rfq && `${rfq.quantity} x ${rfq.product_type}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="w-24">Qty</TableHead>
+                <TableHead className="w-32">Unit price (₹)</TableHead>
+                <TableHead className="w-28 text-right">Amount</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {draftLines.map((line, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={line.description}
+                      onChange={(e) => updateLine(index, { description: e.target.value })}
+                      placeholder="e.g. Embroidery, trims, packaging"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={line.unit_price}
+                      onChange={(e) => updateLine(index, { unit_price: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatAmount(toNumber(line.quantity) * toNumber(line.unit_price))}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={draftLines.length === 1}
+                      onClick={() => setLines(draftLines.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setLines([...draftLines, { description: "", quantity: "1", unit_price: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Line
+          </Button>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Delivery cost (₹)</Label>
+              <Input type="number" min={0} value={deliveryCost} onChange={(e) => setDeliveryCost(e.target.value)} />
+            </div>
+            <div>
+              <Label>Lead time (days)</Label>
+              <Input type="number" min={1} value={leadTimeDays} onChange={(e) => setLeadTimeDays(e.target.value)} />
+            </div>
+            <div>
+              <Label>Valid for (days)</Label>
+              <Input type="number" min={1} max={60} value={validDays} onChange={(e) => setValidDays(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <Label>Notes for the buyer</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Assumptions, materials, exclusions..."
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-6 text-sm">
+            <span className="text-muted-foreground">Subtotal {formatAmount(subtotal)}</span>
+            <span className="font-semibold">Total {formatAmount(total)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || total <= 0}>
+            {submitting ? "Sending..." : "Send Quote"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RfqQuoteForm;
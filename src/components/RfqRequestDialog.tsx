@@ -0,0 +1,162 @@
+/**
+ * RFQ Request Dialog
+ *
+ * Lets a buyer ask for a quotation instead of placing a fixed-price order, for
+ * products the price book doesn't cover well (custom items, jackets, bags).
+ * Product, colour and fabric are carried over from the order wizard.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Rfq, createRfq } from "@/lib/rfq";
+import type { BuyerPurpose } from "@/lib/buyerPurposeValidation";
+
+interface RfqRequestDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmitted: (rfq: Rfq) => void;
+  buyerPurpose: BuyerPurpose;
+  productType: string;
+  selectedColor?: string;
+  fabricLabel?: string;
+  designSize?: string;
+  quantity?: number;
+  expectedDeadline?: Date;
+}
+
+const RfqRequestDialog = ({
+  open,
+  onClose,
+  onSubmitted,
+  buyerPurpose,
+  productType,
+  selectedColor,
+  fabricLabel,
+  designSize,
+  quantity: initialQuantity = 50,
+  expectedDeadline,
+}: RfqRequestDialogProps) => {
+  const [quantity, setQuantity] = useState(String(initialQuantity));
+  const [requirements, setRequirements] = useState("");
+  const [fabricPreference, setFabricPreference] = useState(fabricLabel || "");
+  const [targetUnitPrice, setTargetUnitPrice] = useState("");
+  const [deadline, setDeadline] = useState(expectedDeadline ? format(expectedDeadline, "yyyy-MM-dd") : "");
+  const [referenceLink, setReferenceLink] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const result = await createRfq({
+      buyer_purpose: buyerPurpose,
+      product_type: productType,
+      quantity: parseInt(quantity) || 0,
+      requirements,
+      fabric_preference: fabricPreference.trim() || null,
+      selected_color: selectedColor || null,
+      design_size: designSize,
+      target_unit_price: targetUnitPrice ? parseFloat(targetUnitPrice) : null,
+      expected_deadline: deadline ? new Date(deadline).toISOString() : null,
+      google_drive_link: referenceLink.trim() || null,
+    });
+    setSubmitting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to submit request");
+      return;
+    }
+
+    toast.success("Request sent - we'll notify you when quotes arrive");
+    onSubmitted(result.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Request a Quotation</DialogTitle>
+          <DialogDescription>
+            Describe your {productType.toLowerCase()} and we'll send you itemised quotes to choose from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Requirements *</Label>
+            <Textarea
+              value={requirements}
+              onChange={(e) => setRequirements(e.target.value)}
+              placeholder="Style, materials, lining, closures, branding, sizes, packaging..."
+              rows={5}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Quantity *</Label>
+              <Input type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            </div>
+            <div>
+              <Label>Target price per piece (₹)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={targetUnitPrice}
+                onChange={(e) => setTargetUnitPrice(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <Label>Fabric / material</Label>
+              <Input
+                value={fabricPreference}
+                onChange={(e) => setFabricPreference(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <Label>Needed by</Label>
+              <Input
+                type="date"
+                min={format(new Date(), "yyyy-MM-dd")}
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Reference files link</Label>
+            <Input
+              type="url"
+              value={referenceLink}
+              onChange={(e) => setReferenceLink(e.target.value)}
+              placeholder="Google Drive link to designs, tech packs or photos"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || !requirements.trim()}>
+            {submitting ? "Sending..." : "Send Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RfqRequestDialog;
@@ -0,0 +1,120 @@
+/**
+ * RMA Card
+ *
+ * One return with the buyer's report (pieces, description, photos), the admin's
+ * decision and its return / replacement shipments. The page decides which actions
+ * are offered (admins review and book shipments, manufacturers move the remake).
+ */
+
+import { ReactNode, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { format } from "date-fns";
+import type { Shipment } from "@/lib/courier";
+import { getDeliveryStateLabel } from "@/lib/deliveryStateMachine";
+import { getSignedUrl } from "@/lib/orderFileStorage";
+import {
+  REMAKE_STATUS_LABELS,
+  RMA_FAULT_LABELS,
+  RMA_REASON_LABELS,
+  RMA_RESOLUTION_LABELS,
+  RMA_STATUS_COLORS,
+  RMA_STATUS_LABELS,
+  Rma,
+} from "@/lib/rma";
+
+interface RmaCardProps {
+  rma: Rma;
+  shipments: Shipment[];
+  // Shown in the card header (e.g. Review / Start Remake)
+  actions?: ReactNode;
+  // Shown next to each shipment (e.g. Label / Mark Delivered)
+  renderShipmentActions?: (shipment: Shipment) => ReactNode;
+}
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const RmaCard = ({ rma, shipments, actions, renderShipmentActions }: RmaCardProps) => {
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    Promise.all(rma.photos.map((path) => getSignedUrl(path))).then((urls) =>
+      setPhotoUrls(urls.filter((url): url is string => !!url))
+    );
+  }, [rma.id]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {rma.reference}
+              <Badge className={RMA_STATUS_COLORS[rma.status]}>{RMA_STATUS_LABELS[rma.status]}</Badge>
+              {rma.remake_status && (
+                <Badge variant="outline">Remake: {REMAKE_STATUS_LABELS[rma.remake_status]}</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {RMA_REASON_LABELS[rma.reason]} • {rma.requested_quantity} pcs • Raised {format(new Date(rma.created_at), "MMM d, yyyy")}
+              {" • "}Order {rma.order_id.slice(0, 8)}
+            </CardDescription>
+          </div>
+          {actions && <div className="flex gap-2 shrink-0">{actions}</div>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="space-y-1">
+          <p className="whitespace-pre-wrap">{rma.description}</p>
+          <p className="text-muted-foreground">
+            {rma.items.map((item) => `${item.size || 'Any size'} × ${item.quantity}`).join(", ")}
+          </p>
+          <p className="text-muted-foreground">
+            {rma.address.name}, {rma.address.addressLine1}, {rma.address.city} {rma.address.pincode}
+          </p>
+        </div>
+
+        {photoUrls.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photoUrls.map((url) => (
+              <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                <img src={url} alt="Return evidence" className="h-20 w-20 object-cover rounded border" />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {rma.resolution && (
+          <div className="p-3 bg-muted/50 rounded-lg space-y-1">
+            <p>
+              <span className="font-medium">{RMA_RESOLUTION_LABELS[rma.resolution]}</span> of {rma.approved_quantity} pcs
+              {rma.fault && ` • ${RMA_FAULT_LABELS[rma.fault]} fault`}
+              {rma.return_required && ` • Return ${rma.return_received_at ? 'received' : 'required'}`}
+            </p>
+            {Number(rma.adjustment_amount) > 0 && (
+              <p className="text-muted-foreground">Payout deduction: {formatAmount(rma.adjustment_amount)}</p>
+            )}
+          </div>
+        )}
+        {rma.review_note && <p className="text-muted-foreground">Review note: {rma.review_note}</p>}
+
+        {shipments.map((shipment) => (
+          <div key={shipment.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+            <div>
+              <p className="font-medium">
+                {shipment.direction === 'return' ? 'Return pickup' : 'Replacements'} • {getDeliveryStateLabel(shipment.delivery_status)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {shipment.courier_name || 'Courier'}{shipment.awb_code && ` • AWB ${shipment.awb_code}`}
+              </p>
+            </div>
+            {renderShipmentActions && <div className="flex gap-2">{renderShipmentActions(shipment)}</div>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RmaCard;
@@ -0,0 +1,264 @@
+/**
+ * RMA Request Dialog
+ *
+ * Buyer reports wrong sizes, damaged or defective pieces on a delivered order: the
+ * affected pieces per size, what went wrong, photos and the address the pieces can be
+ * collected from (replacements are delivered there too).
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { getPincodeServiceability } from "@/lib/deliveryCostCalculator";
+import { EMPTY_SHIPMENT_ADDRESS, ShipmentAddress } from "@/lib/deliveryPlan";
+import { RMA_REASON_LABELS, RmaReason, requestRma } from "@/lib/rma";
+
+interface RmaRequestDialogProps {
+  orderId: string;
+  // Pieces that can still be returned
+  maxQuantity: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+interface ItemLine {
+  key: string;
+  size: string;
+  quantity: string;
+}
+
+const newLine = (): ItemLine => ({ key: crypto.randomUUID(), size: '', quantity: '' });
+
+const RmaRequestDialog = ({ orderId, maxQuantity, open, onOpenChange, onSubmitted }: RmaRequestDialogProps) => {
+  const [reason, setReason] = useState<RmaReason>('wrong_size');
+  const [description, setDescription] = useState('');
+  const [lines, setLines] = useState<ItemLine[]>([newLine()]);
+  const [address, setAddress] = useState<ShipmentAddress>({ ...EMPTY_SHIPMENT_ADDRESS });
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setReason('wrong_size');
+    setDescription('');
+    setLines([newLine()]);
+    setPhotos([]);
+    loadShippingAddress();
+  }, [open, orderId]);
+
+  // Default to where the order was delivered
+  const loadShippingAddress = async () => {
+    const { data } = await supabase
+      .from('order_shipping_info')
+      .select('full_name, phone, address_line1, address_line2, city, state, pincode, country')
+      .eq('order_id', orderId)
+      .maybeSingle();
+
+    setAddress(data
+      ? {
+        name: data.full_name,
+        phone: data.phone,
+        addressLine1: data.address_line1,
+        addressLine2: data.address_line2 || '',
+        city: data.city,
+        state: data.state,
+        pincode: data.pincode,
+        country: data.country || 'India',
+      }
+      : { ...EMPTY_SHIPMENT_ADDRESS });
+  };
+
+  const total = lines.reduce((sum, line) => sum + (parseInt(line.quantity, 10) || 0), 0);
+
+  const updateLine = (key: string, patch: Partial<ItemLine>) =>
+    setLines((current) => current.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+
+  const updateAddress = (field: keyof ShipmentAddress, value: string) =>
+    setAddress((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = async () => {
+    if (lines.some((line) => !(parseInt(line.quantity, 10) > 0))) {
+      toast.error("Enter the number of affected pieces on every line");
+      return;
+    }
+    if (total > maxQuantity) {
+      toast.error(`Only ${maxQuantity} piece(s) can be returned on this order`);
+      return;
+    }
+    const { serviceable, reason: pincodeReason } = getPincodeServiceability(address.pincode);
+    if (!serviceable) {
+      toast.error(pincodeReason);
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await requestRma({
+      orderId,
+      reason,
+      description,
+      items: lines.map((line) => ({
+        size: line.size.trim().toUpperCase() || null,
+        quantity: parseInt(line.quantity, 10),
+      })),
+      address,
+      photos,
+    });
+    setSubmitting(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to raise the return");
+      return;
+    }
+
+    toast.success("Return raised - we'll review it shortly");
+    onOpenChange(false);
+    onSubmitted();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Report a Problem</DialogTitle>
+          <DialogDescription>
+            Tell us which pieces are wrong or damaged. Once approved, they are remade or refunded;
+            we'll arrange a pickup if they need to come back.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What went wrong?</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as RmaReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RMA_REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Affected pieces</Label>
+            {lines.map((line) => (
+              <div key={line.key} className="flex items-center gap-3">
+                <Input
+                  value={line.size}
+                  onChange={(e) => updateLine(line.key, { size: e.target.value })}
+                  placeholder="Size (e.g. M)"
+                  className="w-40"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={line.quantity}
+                  onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                  placeholder="Pcs"
+                  className="w-24"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLines((current) => current.filter((l) => l.key !== line.key))}
+                  disabled={lines.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, newLine()])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Size
+              </Button>
+              <span className={`text-sm ${total > maxQuantity ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {total} of {maxQuantity} pcs
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Details</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. 6 pieces labelled M measure like S; 2 have torn seams"
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photos</Label>
+            <Input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+            />
+            <p className="text-xs text-muted-foreground">
+              {photos.length > 0
+                ? `${photos.length} photo(s) selected`
+                : "Add clear photos of the affected pieces and labels (at least one)"}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pickup / replacement address</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Input value={address.name} onChange={(e) => updateAddress('name', e.target.value)} placeholder="Contact name" />
+              <Input value={address.phone} onChange={(e) => updateAddress('phone', e.target.value)} placeholder="Phone" />
+              <Input
+                value={address.addressLine1}
+                onChange={(e) => updateAddress('addressLine1', e.target.value)}
+                placeholder="Address line 1"
+                className="col-span-2"
+              />
+              <Input
+                value={address.addressLine2 || ''}
+                onChange={(e) => updateAddress('addressLine2', e.target.value)}
+                placeholder="Address line 2 (optional)"
+                className="col-span-2"
+              />
+              <Input value={address.city} onChange={(e) => updateAddress('city', e.target.value)} placeholder="City" />
+              <Input value={address.state} onChange={(e) => updateAddress('state', e.target.value)} placeholder="State" />
+              <Input
+                value={address.pincode}
+                onChange={(e) => updateAddress('pincode', e.target.value)}
+                placeholder="Pincode"
+                maxLength={6}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting || photos.length === 0 || !description.trim()}>
+            {submitting ? "Submitting..." : "Raise Return"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RmaRequestDialog;
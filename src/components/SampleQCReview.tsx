@@ -8,9 +8,15 @@ import { supabase } from "@/integrations/supabase/client";
 import { canTransitionTo, getActionLabel, OrderDetailedStatus, isSampleOrder, canStartBulkProduction } from "@/lib/orderStateMachine";
 import { getOrderMode, shouldShowStartBulkButton, isBulkQCRequired } from "@/lib/orderModeUtils";
 import { logOrderEvent } from "@/lib/orderEventLogger";
+import { transitionOrder } from "@/lib/orderWorkflowEngine";
 import { trackSampleQCApproved } from "@/lib/analyticsLogger";
 import { storeQCDecisionEvidence, storeAdminQCFeedback } from "@/lib/evidenceStorage";
 import StructuredQCFeedback from "@/components/StructuredQCFeedback";
+import QCFrameComparison from "@/components/QCFrameComparison";
+import QCMeasurementResults from "@/components/QCMeasurementResults";
+import { QCMeasurement, fetchLatestMeasurements } from "@/lib/qcMeasurements";
+import { RevisionStatus, fetchRevisionStatus, formatRound } from "@/lib/sampleRevisions";
+import { QCDefectDraft, recordQCDefects, validateDefects } from "@/lib/qcDefects";
 import { 
   canApproveSample, 
   canRejectSample, 
@@ -37,9 +43,12 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
   const [concernMessage, setConcernMessage] = useState("");
   const [rejectReason, setRejectReason] = useState("");
   const [structuredFeedback, setStructuredFeedback] = useState("");
+  const [defects, setDefects] = useState<QCDefectDraft[]>([]);
   // QC data from order_qc table
   const [qcData, setQcData] = useState<any>(null);
   const [qcMediaUrls, setQcMediaUrls] = useState<QCMediaItem[]>([]);
+  const [measurements, setMeasurements] = useState<QCMeasurement[]>([]);
+  const [revisionStatus, setRevisionStatus] = useState<RevisionStatus | null>(null);
 
   useEffect(() => {
     fetchOrder();
@@ -76,6 +85,7 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
 
       if (orderError) throw orderError;
       setOrder(orderData);
+      setRevisionStatus((await fetchRevisionStatus(orderData)).status);
 
       // Fetch QC data from order_qc table (relational join via order_id)
       const { data: qcDetails, error: qcError } = await supabase
@@ -91,6 +101,7 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
       }
 
       setQcData(qcDetails);
+      setMeasurements(await fetchLatestMeasurements(orderId, 'sample'));
 
       // Generate signed URLs for QC files if they exist
       if (qcDetails?.file_urls && Array.isArray(qcDetails.file_urls)) {
@@ -134,7 +145,7 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
       sample_approved_at: order.sample_approved_at,
       order_mode: orderMode,
       order_intent: orderIntent,
-    });
+    }, measurements);
     
     if (!approvalCheck.allowed) {
       toast.error(approvalCheck.reason);
@@ -157,33 +168,24 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
       const now = new Date().toISOString();
       
       // STATE TRANSITION: SAMPLE_QC_UPLOADED → SAMPLE_APPROVED
-      // Buyer approves the sample after reviewing QC proof
-      const { error: approveError } = await supabase
-        .from('orders')
-        .update({ 
-          order_state: 'SAMPLE_APPROVED', // PRIMARY state transition
-          detailed_status: 'sample_approved_by_buyer',
-          sample_status: 'approved',
-          qc_feedback: 'Approved by buyer',
-          sample_approved_at: now,
-          sample_qc_approved_at: now,
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', orderId);
-
-      if (approveError) throw approveError;
-
-      // Log QC approved event for analytics
-      await logOrderEvent(orderId, 'qc_approved', { 
-        isSample, 
-        escrowAmount: order.escrow_amount, 
-        orderIntent, 
+      // Buyer approves the sample after reviewing QC proof (logs qc_approved)
+      const approval = await transitionOrder(order, 'SAMPLE_APPROVED', 'buyer', {
+        detailed_status: 'sample_approved_by_buyer',
+        sample_status: 'approved',
+        qc_feedback: 'Approved by buyer',
+        sample_approved_at: now,
+        sample_qc_approved_at: now,
+      }, {
+        isSample,
+        escrowAmount: order.escrow_amount,
+        orderIntent,
         orderMode,
         previous_state: 'SAMPLE_QC_UPLOADED',
         new_state: 'SAMPLE_APPROVED',
         approved_by: 'buyer',
       });
+
+      if (!approval.success) throw new Error(approval.error);
       
       // Track sample QC approved for analytics dashboard
       await trackSampleQCApproved(orderId, order.buyer_id);
@@ -193,22 +195,15 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
 
       // Determine next action based on order_mode
       if (orderMode === 'sample_only') {
-        // Sample-only flow: Complete the order and release escrow
-        const { error: completeError } = await supabase
-          .from('orders')
-          .update({
-            order_state: 'COMPLETED',
-            detailed_status: 'sample_completed',
-            status: 'completed',
-            escrow_status: 'fake_released',
-            escrow_released_timestamp: now,
-            state_updated_at: now,
-          })
-          .eq('id', orderId);
-          
-        if (completeError) throw completeError;
-        
-        await logOrderEvent(orderId, 'sample_completed', { orderMode, escrowReleased: true });
+        // Sample-only flow: Complete the order and release escrow (logs sample_completed)
+        const completion = await transitionOrder({ ...order, order_state: 'SAMPLE_APPROVED' }, 'COMPLETED', 'buyer', {
+          detailed_status: 'sample_completed',
+          status: 'completed',
+          escrow_status: 'fake_released',
+          escrow_released_timestamp: now,
+        }, { orderMode, escrowReleased: true });
+
+        if (!completion.success) throw new Error(completion.error);
         toast.success(`Sample order completed! ₹${order.escrow_amount} released from Escrow → Manufacturer Wallet`, { duration: 5000 });
       } else if (orderMode === 'sample_then_bulk') {
         // Sample then bulk flow: Sample approved, unlock bulk production
@@ -308,6 +303,12 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
     // =====================================================
     // END: SAMPLE QC WORKFLOW ENFORCEMENT
     // =====================================================
+
+    const defectCheck = validateDefects(defects, true);
+    if (!defectCheck.valid) {
+      toast.error(defectCheck.reason);
+      return;
+    }
     
     const newStatus: OrderDetailedStatus = 'sample_rejected_by_buyer';
     
@@ -318,33 +319,28 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
 
     try {
       const now = createQCTimestamp();
+
+      // Defects first - they attach to the QC submission being rejected
+      const defectResult = await recordQCDefects(orderId, 'sample', defects);
+      if (!defectResult.success) throw new Error(defectResult.error);
       
       // STATE TRANSITION: SAMPLE_QC_UPLOADED → SAMPLE_IN_PROGRESS (for re-work)
-      // Buyer rejects the sample, manufacturer needs to redo the sample
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          order_state: 'SAMPLE_IN_PROGRESS', // Back to production for re-work
-          detailed_status: newStatus,
-          sample_status: 'rejected',
-          qc_feedback: `Rejected: ${rejectReason}`,
-          qc_feedback_structured: structuredFeedback || null,
-          rejection_reason: rejectReason,
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
-      
-      // Log rejection event with reason for analytics
-      await logOrderEvent(orderId, 'qc_rejected', createQCActionMetadata('sample_rejected', order, {
+      // Buyer rejects the sample, manufacturer needs to redo the sample (logs qc_rejected)
+      const rejection = await transitionOrder(order, 'SAMPLE_IN_PROGRESS', 'buyer', {
+        detailed_status: newStatus,
+        sample_status: 'rejected',
+        qc_feedback: `Rejected: ${rejectReason}`,
+        qc_feedback_structured: structuredFeedback || null,
+        rejection_reason: rejectReason,
+      }, createQCActionMetadata('sample_rejected', order, {
         reason: rejectReason,
         rejection_timestamp: now,
         previous_state: 'SAMPLE_QC_UPLOADED',
         new_state: 'SAMPLE_IN_PROGRESS',
         rejected_by: 'buyer',
       }));
+
+      if (!rejection.success) throw new Error(rejection.error);
       
       // Store rejection evidence
       await storeQCDecisionEvidence(orderId, order.buyer_id, 'sample', 'rejected', rejectReason, structuredFeedback);
@@ -358,6 +354,7 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
       setShowRejectForm(false);
       setRejectReason("");
       setStructuredFeedback("");
+      setDefects([]);
       fetchOrder();
       onStatusChange?.();
     } catch (error) {
@@ -399,20 +396,14 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
       
       // STATE TRANSITION: SAMPLE_QC_UPLOADED → SAMPLE_IN_PROGRESS (for revision)
       // Buyer requests revision, manufacturer needs to re-upload
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          order_state: 'SAMPLE_IN_PROGRESS', // Back to production for revision
-          concern_notes: concernMessage,
-          qc_feedback: `Revision requested: ${concernMessage}`,
-          detailed_status: 'sample_in_production',
-          sample_status: 'revision_requested',
-          state_updated_at: now,
-          updated_at: now,
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
+      const revision = await transitionOrder(order, 'SAMPLE_IN_PROGRESS', 'buyer', {
+        concern_notes: concernMessage,
+        qc_feedback: `Revision requested: ${concernMessage}`,
+        detailed_status: 'sample_in_production',
+        sample_status: 'revision_requested',
+      }, { revision_requested: true, revision_reason: concernMessage });
+
+      if (!revision.success) throw new Error(revision.error);
       
       // Log revision request for analytics
       await logOrderEvent(orderId, 'concern_raised', createQCActionMetadata('sample_revision_requested', order, {
@@ -503,6 +494,8 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
                   </video>
                 </div>
               ))}
+              {/* Sample keyframes vs the buyer's mockup */}
+              <QCFrameComparison orderId={orderId} stage="sample" />
             </div>
           )}
 
@@ -541,12 +534,23 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
             </div>
           )}
 
+          <QCMeasurementResults measurements={measurements} />
+
+          {revisionStatus && revisionStatus.rounds > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Reviewing sample round {formatRound(revisionStatus.rounds)} of {revisionStatus.maxRevisions} allowed.
+              {revisionStatus.rounds >= revisionStatus.maxRevisions &&
+                ' This is the last allowed round - rejecting it or asking for another revision escalates the order to a dispute.'}
+            </p>
+          )}
+
           {/* Action buttons - only show when detailed_status is qc_uploaded */}
           {status === 'qc_uploaded' && (
             <div className="space-y-3">
               <div className="flex gap-3">
                 <Button 
                   onClick={handleApprove}
+                  disabled={measurements.some((measurement) => measurement.result === 'fail')}
                   className="flex-1 bg-green-600 hover:bg-green-700 text-white"
                 >
                   <CheckCircle className="w-4 h-4 mr-2" />
@@ -589,8 +593,13 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
                   {/* Structured QC Feedback - for ML labeling */}
                   <div className="pt-3 border-t border-red-200">
                     <StructuredQCFeedback
-                      value={structuredFeedback}
-                      onChange={setStructuredFeedback}
+                      orderId={orderId}
+                      productType={order.product_type}
+                      defects={defects}
+                      onChange={(next, summary) => {
+                        setDefects(next);
+                        setStructuredFeedback(summary);
+                      }}
                       isRequired={true}
                       stage="sample"
                     />
@@ -601,7 +610,7 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
                       onClick={handleReject} 
                       size="sm"
                       variant="destructive"
-                      disabled={rejectReason.trim().length < 10}
+                      disabled={rejectReason.trim().length < 10 || !validateDefects(defects, true).valid}
                     >
                       Confirm Rejection
                     </Button>
@@ -610,6 +619,7 @@ const SampleQCReview = ({ orderId, onStatusChange }: SampleQCReviewProps) => {
                         setShowRejectForm(false);
                         setRejectReason("");
                         setStructuredFeedback("");
+                        setDefects([]);
                       }} 
                       variant="ghost" 
                       size="sm"
@@ -0,0 +1,164 @@
+/**
+ * Sample Revision Timeline
+ *
+ * Every sample round (R1, R2, ...) with its QC evidence, the decision, the feedback and the
+ * defects recorded against it, newest first, plus where the order stands against its
+ * revision limit. Shown to the buyer and the manufacturer.
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, History, Image as ImageIcon, Video } from "lucide-react";
+import { getSignedUrl } from "@/lib/orderFileStorage";
+import { QCDefect, fetchOrderDefects } from "@/lib/qcDefects";
+import QCDefectList from "@/components/QCDefectList";
+import {
+  REVISION_DECISION_LABELS,
+  RevisionDecision,
+  RevisionStatus,
+  SampleRevision,
+  fetchRevisionStatus,
+  formatRound,
+} from "@/lib/sampleRevisions";
+
+interface SampleRevisionTimelineProps {
+  order: { id: string; order_mode?: string | null; buyer_type?: string | null };
+}
+
+const DECISION_CLASSES: Record<RevisionDecision, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  revision_requested: 'bg-amber-100 text-amber-800',
+};
+
+const isVideo = (path: string) => /\.(mp4|mov|webm|quicktime)$/i.test(path);
+
+const SampleRevisionTimeline = ({ order }: SampleRevisionTimelineProps) => {
+  const [revisions, setRevisions] = useState<SampleRevision[]>([]);
+  const [status, setStatus] = useState<RevisionStatus | null>(null);
+  const [defects, setDefects] = useState<QCDefect[]>([]);
+  const [fileUrls, setFileUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadRevisions();
+  }, [order.id, order.order_mode, order.buyer_type]);
+
+  const loadRevisions = async () => {
+    const [{ revisions: rounds, status: revisionStatus }, sampleDefects] = await Promise.all([
+      fetchRevisionStatus(order),
+      fetchOrderDefects(order.id, 'sample'),
+    ]);
+
+    const urls: Record<string, string> = {};
+    for (const path of rounds.flatMap((revision) => revision.file_urls)) {
+      const signed = await getSignedUrl(path, 'orders');
+      if (signed) {
+        urls[path] = signed;
+      }
+    }
+
+    setRevisions(rounds);
+    setStatus(revisionStatus);
+    setDefects(sampleDefects);
+    setFileUrls(urls);
+  };
+
+  if (!status || revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Sample Revisions
+          </CardTitle>
+          <Badge variant="outline">
+            {formatRound(status.rounds)} of {status.maxRevisions} allowed
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.inDispute && (
+          <Alert className="border-red-300 bg-red-50">
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{status.reason}</AlertDescription>
+          </Alert>
+        )}
+
+        {[...revisions].reverse().map((revision) => {
+          const roundDefects = defects.filter((defect) => defect.order_qc_id === revision.order_qc_id);
+          const images = revision.file_urls.filter((path) => !isVideo(path) && fileUrls[path]);
+          return (
+            <div key={revision.id} className="p-3 border rounded-lg space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="font-mono">{formatRound(revision.round)}</Badge>
+                  <Badge className={DECISION_CLASSES[revision.decision]}>
+                    {REVISION_DECISION_LABELS[revision.decision]}
+                  </Badge>
+                  {revision.escalated_at && (
+                    <Badge variant="destructive">
+                      Escalated{revision.dispute?.status === 'resolved' ? ' · resolved' : ''}
+                    </Badge>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  Submitted {format(new Date(revision.submitted_at), 'dd MMM yyyy, HH:mm')}
+                  {revision.decided_at && ` · decided ${format(new Date(revision.decided_at), 'dd MMM yyyy, HH:mm')}`}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {revision.video_path && fileUrls[revision.video_path] && (
+                  <a
+                    href={fileUrls[revision.video_path]}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-sm text-primary underline"
+                  >
+                    <Video className="h-4 w-4" />
+                    QC video
+                  </a>
+                )}
+                {images.map((path, index) => (
+                  <a key={path} href={fileUrls[path]} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={fileUrls[path]}
+                      alt={`${formatRound(revision.round)} QC image ${index + 1}`}
+                      className="h-12 w-12 object-cover rounded border"
+                    />
+                  </a>
+                ))}
+                {!revision.video_path && images.length === 0 && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <ImageIcon className="h-4 w-4" />
+                    No evidence files
+                  </span>
+                )}
+              </div>
+
+              {revision.feedback && (
+                <p className="text-sm bg-muted p-2 rounded whitespace-pre-wrap">{revision.feedback}</p>
+              )}
+              {revision.escalated_at && revision.dispute?.resolution && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Dispute resolution:</span> {revision.dispute.resolution}
+                </p>
+              )}
+              <QCDefectList defects={roundDefects} />
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SampleRevisionTimeline;
@@ -0,0 +1,55 @@
+/**
+ * Shipment Scan History
+ *
+ * Courier tracking scans for a shipment, newest first. Read-only; scans are
+ * recorded by the courier integration.
+ */
+
+import { MapPin } from "lucide-react";
+import { format } from "date-fns";
+import { ShipmentTrackingEvent, getTrackingStatusLabel } from "@/lib/courier";
+
+interface ShipmentScanHistoryProps {
+  events: ShipmentTrackingEvent[];
+  emptyText?: string;
+}
+
+const ShipmentScanHistory = ({ events, emptyText = "No scans yet." }: ShipmentScanHistoryProps) => {
+  if (events.length === 0) {
+    return <p className="text-xs text-muted-foreground">{emptyText}</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {events.map((event, index) => (
+        <li key={event.id} className="flex gap-3">
+          <div className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${index === 0 ? 'bg-primary' : 'bg-muted-foreground/40'}`} />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-2">
+              <p className={`text-sm ${index === 0 ? 'font-medium' : 'text-muted-foreground'}`}>
+                {getTrackingStatusLabel(event.status)}
+              </p>
+              <p className="text-xs text-muted-foreground whitespace-nowrap">
+                {format(new Date(event.occurred_at), "dd MMM, HH:mm")}
+              </p>
+            </div>
+            {(event.location || event.description) && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                {event.location && (
+                  <>
+                    <MapPin className="h-3 w-3" />
+                    {event.location}
+                  </>
+                )}
+                {event.location && event.description && <span>·</span>}
+                {event.description}
+              </p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ShipmentScanHistory;
@@ -18,9 +18,10 @@ interface ShippingAddress {
 interface ShippingAddressFormProps {
   onSubmit: (address: ShippingAddress) => void;
   onBack?: () => void;
+  submitLabel?: string;
 }
 
-const ShippingAddressForm = ({ onSubmit, onBack }: ShippingAddressFormProps) => {
+const ShippingAddressForm = ({ onSubmit, onBack, submitLabel = "Continue to Review" }: ShippingAddressFormProps) => {
   const [formData, setFormData] = useState<ShippingAddress>({
     full_name: "",
     phone: "",
@@ -135,7 +136,7 @@ const ShippingAddressForm = ({ onSubmit, onBack }: ShippingAddressFormProps) =>
                 Back
               </Button>
             )}
-            <Button type="submit">Continue to Review</Button>
+            <Button type="submit">{submitLabel}</Button>
           </div>
         </form>
       </CardContent>
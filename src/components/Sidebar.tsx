@@ -1,4 +1,4 @@
-import { Home, Package, ClipboardList, Settings, Shield, Users, FileCheck, Building2, Terminal, UserPlus, ScrollText } from "lucide-react";
+import { Home, Package, ClipboardList, Settings, Shield, Users, FileCheck, Building2, Terminal, UserPlus, ScrollText, Scale, Wallet, Tags, FileQuestion, Undo2, Bug, ListChecks } from "lucide-react";
 import { NavLink } from "./NavLink";
 import { cn } from "@/lib/utils";
 import logo from "@/assets/leorit-logo.png";
@@ -27,6 +27,7 @@ const Sidebar = ({ userRole }: SidebarProps) => {
     { to: "/buyer/dashboard", icon: Home, label: "Dashboard" },
     { to: "/buyer/start-order", icon: Package, label: "Start Order" },
     { to: "/buyer/orders", icon: ClipboardList, label: "Order Tracking" },
+    { to: "/buyer/quotations", icon: FileQuestion, label: "Quotations" },
     { to: "/buyer/profile", icon: Settings, label: "Profile" },
   ];
 
@@ -34,6 +35,9 @@ const Sidebar = ({ userRole }: SidebarProps) => {
     { to: "/manufacturer/dashboard", icon: Home, label: "Dashboard" },
     { to: "/manufacturer/orders", icon: Package, label: "Orders" },
     { to: "/manufacturer/qc", icon: FileCheck, label: "Upload QC" },
+    { to: "/manufacturer/rfqs", icon: FileQuestion, label: "RFQs" },
+    { to: "/manufacturer/remakes", icon: Undo2, label: "Remakes" },
+    { to: "/manufacturer/payouts", icon: Wallet, label: "Payouts" },
     { to: "/manufacturer/profile", icon: Settings, label: "Profile" },
   ];
 
@@ -45,6 +49,13 @@ const Sidebar = ({ userRole }: SidebarProps) => {
     { to: "/admin/analytics", icon: ClipboardList, label: "Analytics" },
     { to: "/admin/manufacturers", icon: Building2, label: "Manufacturers" },
     { to: "/admin/manufacturer-onboarding", icon: UserPlus, label: "Onboarding Requests" },
+    { to: "/admin/ledger", icon: Scale, label: "Ledger" },
+    { to: "/admin/payouts", icon: Wallet, label: "Payouts" },
+    { to: "/admin/qc-queue", icon: ListChecks, label: "QC Queue" },
+    { to: "/admin/defect-catalogue", icon: Bug, label: "Defect Catalogue" },
+    { to: "/admin/pricing", icon: Tags, label: "Pricing" },
+    { to: "/admin/rfqs", icon: FileQuestion, label: "RFQs" },
+    { to: "/admin/returns", icon: Undo2, label: "Returns" },
     { to: "/admin/system-logs", icon: ScrollText, label: "System Logs" },
   ];
 
@@ -0,0 +1,160 @@
+/**
+ * SLA Breach Queue (Command Center)
+ *
+ * Open SLA breaches recorded by the evaluate_sla_policies job.
+ * - Critical first, then newest
+ * - Acknowledge = admin has seen it; the breach stays open until the milestone is reached
+ * - "Run Check" evaluates now instead of waiting for the 15-minute schedule
+ */
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Check, Clock, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  SLA_METRIC_LABELS,
+  SlaBreach,
+  SlaMetric,
+  acknowledgeSlaBreach,
+  fetchOpenSlaBreaches,
+  runSlaEvaluation,
+} from "@/lib/slaEngine";
+
+interface SlaBreachQueueProps {
+  onOpenOrder: (orderId: string) => void;
+}
+
+const SlaBreachQueue = ({ onOpenOrder }: SlaBreachQueueProps) => {
+  const [breaches, setBreaches] = useState<SlaBreach[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    loadBreaches();
+  }, []);
+
+  const loadBreaches = async () => {
+    setLoading(true);
+    setBreaches(await fetchOpenSlaBreaches());
+    setLoading(false);
+  };
+
+  const handleRunCheck = async () => {
+    setRunning(true);
+    const result = await runSlaEvaluation();
+    setRunning(false);
+
+    if (!result.success) {
+      toast.error(result.error || "SLA check failed");
+      return;
+    }
+
+    toast.success(`SLA check complete: ${result.newBreaches} new breach(es)`);
+    await loadBreaches();
+  };
+
+  const handleAcknowledge = async (breachId: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("Not authenticated");
+      return;
+    }
+
+    const result = await acknowledgeSlaBreach(breachId, user.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to acknowledge breach");
+      return;
+    }
+
+    await loadBreaches();
+  };
+
+  const criticalCount = breaches.filter(b => b.severity === 'critical').length;
+
+  return (
+    <Card className={criticalCount > 0 ? "border-red-200" : ""}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <AlertTriangle className="h-5 w-5" />
+            SLA Breaches
+            {criticalCount > 0 && (
+              <Badge className="bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                {criticalCount} critical
+              </Badge>
+            )}
+            <Badge variant="outline" className="text-xs font-normal">
+              {breaches.length} open
+            </Badge>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={handleRunCheck} disabled={running}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+            Run Check
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading SLA breaches...</p>
+        ) : breaches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open SLA breaches.</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {breaches.map(breach => (
+              <div
+                key={breach.id}
+                className={`flex items-center justify-between gap-3 p-3 rounded-lg border ${
+                  breach.acknowledged_at ? 'bg-muted/30 opacity-70' : 'bg-muted/30'
+                }`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Badge
+                    className={
+                      breach.severity === 'critical'
+                        ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                        : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                    }
+                  >
+                    {breach.severity}
+                  </Badge>
+                  <button
+                    className="font-mono text-xs text-primary hover:underline"
+                    onClick={() => onOpenOrder(breach.order_id)}
+                  >
+                    {breach.order_id.slice(0, 8)}...
+                  </button>
+                  <span className="text-sm truncate">
+                    {SLA_METRIC_LABELS[breach.metric as SlaMetric] || breach.metric}
+                  </span>
+                  <span className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {Number(breach.elapsed_hours).toFixed(1)}h / {breach.threshold_hours}h
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(breach.detected_at), { addSuffix: true })}
+                  </span>
+                  {breach.acknowledged_at ? (
+                    <Badge variant="outline" className="text-xs">Acknowledged</Badge>
+                  ) : (
+                    <Button variant="ghost" size="sm" onClick={() => handleAcknowledge(breach.id)}>
+                      <Check className="h-3 w-3 mr-1" />
+                      Ack
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SlaBreachQueue;
@@ -1,129 +1,307 @@
 /**
- * Structured QC Feedback Component (Admin-Only)
- * 
- * Mandatory admin-only text field for every QC decision.
- * Required for any QC rejection.
- * 
- * Format:
- * Defect Type:
- * Severity:
- * Location:
- * Evidence reference:
- * Required fix:
- * Notes:
+ * Structured QC Feedback Component
+ *
+ * Defect list required for every QC rejection. Each defect is picked from the
+ * defect catalogue for the order's product type, with severity, pieces affected,
+ * location and required fix, and can be marked on a QC photo or video keyframe
+ * (pin or box).
+ *
+ * The parent records the defects (recordQCDefects) and stores the text summary
+ * as qc_feedback_structured.
  */
 
 import { useState, useEffect } from "react";
-import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { AlertCircle } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Crosshair, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import QCPhotoAnnotator from "@/components/QCPhotoAnnotator";
+import { fetchQCKeyframes } from "@/lib/qcKeyframes";
+import { DEFECT_CLASS_LABELS, DefectClass } from "@/lib/aqlSampling";
+import {
+  DEFECT_CATEGORY_LABELS,
+  DefectCode,
+  DefectStage,
+  QCDefectDraft,
+  createDefectDraft,
+  fetchDefectCodes,
+  formatDefectSummary,
+  validateDefects,
+} from "@/lib/qcDefects";
 
 interface StructuredQCFeedbackProps {
-  value: string;
-  onChange: (value: string) => void;
+  orderId: string;
+  productType?: string | null;
+  defects: QCDefectDraft[];
+  onChange: (defects: QCDefectDraft[], summary: string) => void;
   isRequired?: boolean;
-  stage?: 'sample' | 'bulk';
-  readOnly?: boolean;
+  stage?: DefectStage;
+}
+
+interface QCPhoto {
+  path: string;
+  url: string;
 }
 
-const FEEDBACK_TEMPLATE = `Defect Type:
-Severity:
-Location:
-Evidence reference:
-Required fix:
-Notes:`;
-
-const StructuredQCFeedback = ({ 
-  value, 
-  onChange, 
-  isRequired = false, 
+const DEFECT_CLASSES: DefectClass[] = ['critical', 'major', 'minor'];
+
+const StructuredQCFeedback = ({
+  orderId,
+  productType,
+  defects,
+  onChange,
+  isRequired = false,
   stage = 'sample',
-  readOnly = false 
 }: StructuredQCFeedbackProps) => {
-  const [internalValue, setInternalValue] = useState(value || FEEDBACK_TEMPLATE);
+  const [codes, setCodes] = useState<DefectCode[]>([]);
+  const [photos, setPhotos] = useState<QCPhoto[]>([]);
+  const [annotating, setAnnotating] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchDefectCodes(productType ?? null).then(setCodes);
+  }, [productType]);
 
   useEffect(() => {
-    if (value) {
-      setInternalValue(value);
-    } else if (!readOnly) {
-      setInternalValue(FEEDBACK_TEMPLATE);
-      onChange(FEEDBACK_TEMPLATE);
+    loadPhotos();
+  }, [orderId, stage]);
+
+  // Photos and video keyframes of the QC submission under review
+  const loadPhotos = async () => {
+    const { data, error } = await supabase
+      .from('order_qc')
+      .select('file_urls')
+      .eq('order_id', orderId)
+      .eq('stage', stage)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[StructuredQCFeedback] Error fetching QC photos:', error);
+      return;
     }
-  }, [value, readOnly]);
 
-  const handleChange = (newValue: string) => {
-    setInternalValue(newValue);
-    onChange(newValue);
+    const isVideo = (path: string) => /\.(mp4|mov|webm|quicktime)$/i.test(path);
+    const videoPath = (data?.file_urls || []).find(isVideo);
+    const keyframes = videoPath ? await fetchQCKeyframes(orderId, stage, videoPath) : [];
+    const paths = [
+      ...(data?.file_urls || []).filter((path) => !isVideo(path)),
+      ...keyframes.map((frame) => frame.path),
+    ];
+    const signed: QCPhoto[] = [];
+    for (const path of paths) {
+      const { data: signedData } = await supabase.storage.from('orders').createSignedUrl(path, 3600);
+      if (signedData?.signedUrl) {
+        signed.push({ path, url: signedData.signedUrl });
+      }
+    }
+    setPhotos(signed);
   };
 
-  // Validate that required fields are filled
-  const validateFeedback = (text: string): boolean => {
-    if (!isRequired) return true;
-    
-    const lines = text.split('\n');
-    const requiredFields = ['Defect Type:', 'Severity:', 'Location:', 'Required fix:'];
-    
-    for (const field of requiredFields) {
-      const line = lines.find(l => l.startsWith(field));
-      if (!line) return false;
-      const value = line.replace(field, '').trim();
-      if (!value || value.length < 2) return false;
-    }
-    
-    return true;
+  const update = (next: QCDefectDraft[]) => {
+    onChange(next, formatDefectSummary(next, codes));
   };
 
-  const isValid = validateFeedback(internalValue);
+  const updateDefect = (index: number, changes: Partial<QCDefectDraft>) => {
+    update(defects.map((defect, i) => (i === index ? { ...defect, ...changes } : defect)));
+  };
 
-  if (readOnly) {
-    return (
-      <div className="space-y-2">
-        <Label className="text-sm font-medium text-foreground">
-          QC Feedback (Structured)
-        </Label>
-        <div className="p-4 bg-muted rounded-lg">
-          <pre className="text-sm text-foreground whitespace-pre-wrap font-mono">
-            {value || 'No feedback provided'}
-          </pre>
-        </div>
-      </div>
-    );
-  }
+  const addDefect = () => {
+    if (codes.length === 0) return;
+    update([...defects, createDefectDraft(codes[0])]);
+  };
+
+  const changeCode = (index: number, value: string) => {
+    const code = codes.find((entry) => entry.code === value);
+    if (!code) return;
+    updateDefect(index, { defect_code: code.code, severity: code.default_severity });
+  };
+
+  const validation = validateDefects(defects, isRequired);
+  const current = annotating !== null ? defects[annotating] : null;
+  const currentPhoto = current ? photos.find((photo) => photo.path === current.file_url) || photos[0] : null;
 
   return (
-    <div className="space-y-2">
+    <div className="space-y-3">
       <div className="flex items-center justify-between">
         <Label className="text-sm font-medium text-foreground">
-          QC Feedback (Structured) {isRequired && <span className="text-red-500">*</span>}
+          Defects {isRequired && <span className="text-red-500">*</span>}
         </Label>
         <span className="text-xs text-muted-foreground">
           {stage === 'sample' ? 'Sample' : 'Bulk'} QC
         </span>
       </div>
-      
-      <Textarea
-        value={internalValue}
-        onChange={(e) => handleChange(e.target.value)}
-        placeholder={FEEDBACK_TEMPLATE}
-        className={`min-h-40 font-mono text-sm ${
-          isRequired && !isValid ? 'border-red-300 focus:border-red-500' : ''
-        }`}
-      />
+
+      {defects.map((defect, index) => {
+        const code = codes.find((entry) => entry.code === defect.defect_code);
+        return (
+          <div key={index} className="p-3 bg-background border rounded-lg space-y-2">
+            <div className="grid grid-cols-6 gap-2">
+              <div className="col-span-3 space-y-1">
+                <Label className="text-xs">Defect</Label>
+                <Select value={defect.defect_code} onValueChange={(value) => changeCode(index, value)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Pick a defect" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {codes.map((entry) => (
+                      <SelectItem key={entry.code} value={entry.code}>
+                        {DEFECT_CATEGORY_LABELS[entry.category]} · {entry.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label className="text-xs">Severity</Label>
+                <Select value={defect.severity} onValueChange={(value) => updateDefect(index, { severity: value as DefectClass })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEFECT_CLASSES.map((value) => (
+                      <SelectItem key={value} value={value}>{DEFECT_CLASS_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Pieces</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  className="h-8"
+                  value={defect.pieces}
+                  onChange={(e) => updateDefect(index, { pieces: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            {code?.description && (
+              <p className="text-xs text-muted-foreground">{code.description}</p>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                className="h-8"
+                placeholder="Location (e.g. front chest print, left sleeve seam)"
+                value={defect.location}
+                onChange={(e) => updateDefect(index, { location: e.target.value })}
+              />
+              <Input
+                className="h-8"
+                placeholder="Required fix"
+                value={defect.required_fix}
+                onChange={(e) => updateDefect(index, { required_fix: e.target.value })}
+              />
+            </div>
+            <Textarea
+              rows={1}
+              placeholder="Notes (optional)"
+              value={defect.notes}
+              onChange={(e) => updateDefect(index, { notes: e.target.value })}
+            />
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setAnnotating(index)}
+                  disabled={photos.length === 0}
+                >
+                  <Crosshair className="w-4 h-4 mr-1" />
+                  {defect.annotation ? 'Edit Mark' : 'Mark on Photo'}
+                </Button>
+                {defect.annotation && (
+                  <span className="text-xs text-muted-foreground">
+                    {defect.annotation.type === 'pin' ? 'Pin' : 'Box'} on photo {photos.findIndex((photo) => photo.path === defect.file_url) + 1}
+                  </span>
+                )}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => update(defects.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button type="button" size="sm" variant="outline" onClick={addDefect} disabled={codes.length === 0}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Defect
+      </Button>
 
       {isRequired && (
         <div className="flex items-start gap-2 text-xs">
-          <AlertCircle className={`w-4 h-4 mt-0.5 ${isValid ? 'text-green-500' : 'text-amber-500'}`} />
-          <p className={isValid ? 'text-green-600' : 'text-amber-600'}>
-            {isValid 
-              ? 'Required fields filled. This data will be used for ML training.'
-              : 'Fill in Defect Type, Severity, Location, and Required fix fields.'}
+          <AlertCircle className={`w-4 h-4 mt-0.5 ${validation.valid ? 'text-green-500' : 'text-amber-500'}`} />
+          <p className={validation.valid ? 'text-green-600' : 'text-amber-600'}>
+            {validation.valid
+              ? 'Defects complete. They will be recorded for quality analytics.'
+              : validation.reason}
           </p>
         </div>
       )}
 
       <p className="text-xs text-muted-foreground">
-        This structured feedback will be stored permanently and used for quality analytics and ML labeling.
+        Defects are stored permanently and used for defect-rate analytics and ML labeling.
       </p>
+
+      <Dialog open={annotating !== null} onOpenChange={(open) => !open && setAnnotating(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Mark Defect on Photo</DialogTitle>
+            <DialogDescription>
+              Click to drop a pin or drag to draw a box around the defect.
+            </DialogDescription>
+          </DialogHeader>
+          {current && currentPhoto && annotating !== null && (
+            <div className="space-y-3">
+              {photos.length > 1 && (
+                <div className="flex gap-2 overflow-x-auto">
+                  {photos.map((photo, i) => (
+                    <button
+                      key={photo.path}
+                      type="button"
+                      onClick={() => updateDefect(annotating, { file_url: photo.path, annotation: null })}
+                      className={`h-16 w-16 shrink-0 overflow-hidden rounded border-2 ${
+                        photo.path === currentPhoto.path ? 'border-primary' : 'border-transparent'
+                      }`}
+                    >
+                      <img src={photo.url} alt={`QC photo ${i + 1}`} className="h-full w-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
+              <QCPhotoAnnotator
+                imageUrl={currentPhoto.url}
+                annotation={current.file_url === currentPhoto.path ? current.annotation : null}
+                onChange={(annotation) => updateDefect(annotating, { file_url: currentPhoto.path, annotation })}
+                label={current.defect_code}
+              />
+              <div className="flex justify-end gap-2">
+                {current.annotation && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => updateDefect(annotating, { file_url: null, annotation: null })}
+                  >
+                    Clear Mark
+                  </Button>
+                )}
+                <Button type="button" onClick={() => setAnnotating(null)}>Done</Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
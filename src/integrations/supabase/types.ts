@@ -97,6 +97,159 @@ export type Database = {
         }
         Relationships: []
       }
+      bulk_qc_inspections: {
+        Row: {
+          aql_major: number
+          aql_minor: number
+          created_at: string
+          critical_accept: number
+          critical_found: number
+          id: string
+          inspected_by: string | null
+          inspected_count: number
+          inspection_level: string
+          lot_size: number
+          major_accept: number
+          major_found: number
+          minor_accept: number
+          minor_found: number
+          notes: string | null
+          order_id: string
+          result: string
+          sample_size: number
+        }
+        Insert: {
+          aql_major: number
+          aql_minor: number
+          created_at?: string
+          critical_accept?: number
+          critical_found?: number
+          id?: string
+          inspected_by?: string | null
+          inspected_count: number
+          inspection_level: string
+          lot_size: number
+          major_accept: number
+          major_found?: number
+          minor_accept: number
+          minor_found?: number
+          notes?: string | null
+          order_id: string
+          result: string
+          sample_size: number
+        }
+        Update: {
+          aql_major?: number
+          aql_minor?: number
+          created_at?: string
+          critical_accept?: number
+          critical_found?: number
+          id?: string
+          inspected_by?: string | null
+          inspected_count?: number
+          inspection_level?: string
+          lot_size?: number
+          major_accept?: number
+          major_found?: number
+          minor_accept?: number
+          minor_found?: number
+          notes?: string | null
+          order_id?: string
+          result?: string
+          sample_size?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_qc_inspections_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_otps: {
+        Row: {
+          code: string
+          courier_token: string
+          failed_attempts: number
+          generated_at: string
+          order_id: string
+        }
+        Insert: {
+          code: string
+          courier_token?: string
+          failed_attempts?: number
+          generated_at?: string
+          order_id: string
+        }
+        Update: {
+          code?: string
+          courier_token?: string
+          failed_attempts?: number
+          generated_at?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_otps_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_proofs: {
+        Row: {
+          confirmed_at: string
+          confirmed_by: string | null
+          confirmed_role: string
+          id: string
+          latitude: number | null
+          location_accuracy_m: number | null
+          longitude: number | null
+          order_id: string
+          photo_sha256: string | null
+          photo_url: string | null
+          recipient_name: string | null
+        }
+        Insert: {
+          confirmed_at?: string
+          confirmed_by?: string | null
+          confirmed_role: string
+          id?: string
+          latitude?: number | null
+          location_accuracy_m?: number | null
+          longitude?: number | null
+          order_id: string
+          photo_sha256?: string | null
+          photo_url?: string | null
+          recipient_name?: string | null
+        }
+        Update: {
+          confirmed_at?: string
+          confirmed_by?: string | null
+          confirmed_role?: string
+          id?: string
+          latitude?: number | null
+          location_accuracy_m?: number | null
+          longitude?: number | null
+          order_id?: string
+          photo_sha256?: string | null
+          photo_url?: string | null
+          recipient_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_proofs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       disputes: {
         Row: {
           created_at: string | null
@@ -141,6 +294,207 @@ export type Database = {
           },
         ]
       }
+      gst_hsn_codes: {
+        Row: {
+          code: string
+          description: string
+          gst_rate: number
+          high_gst_rate: number | null
+          is_default: boolean
+          is_service: boolean
+          product_types: string[]
+          unit_value_threshold: number | null
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          description: string
+          gst_rate: number
+          high_gst_rate?: number | null
+          is_default?: boolean
+          is_service?: boolean
+          product_types?: string[]
+          unit_value_threshold?: number | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          description?: string
+          gst_rate?: number
+          high_gst_rate?: number | null
+          is_default?: boolean
+          is_service?: boolean
+          product_types?: string[]
+          unit_value_threshold?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ledger_accounts: {
+        Row: {
+          account_type: string
+          code: string
+          name: string
+          normal_balance: string
+          sort_order: number
+        }
+        Insert: {
+          account_type: string
+          code: string
+          name: string
+          normal_balance: string
+          sort_order?: number
+        }
+        Update: {
+          account_type?: string
+          code?: string
+          name?: string
+          normal_balance?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      ledger_entries: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entry_type: string
+          id: string
+          memo: string | null
+          order_id: string
+          source_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entry_type: string
+          id?: string
+          memo?: string | null
+          order_id: string
+          source_id?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entry_type?: string
+          id?: string
+          memo?: string | null
+          order_id?: string
+          source_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_lines: {
+        Row: {
+          account_code: string
+          credit: number
+          debit: number
+          entry_id: string
+          id: string
+          order_id: string
+        }
+        Insert: {
+          account_code: string
+          credit?: number
+          debit?: number
+          entry_id: string
+          id?: string
+          order_id: string
+        }
+        Update: {
+          account_code?: string
+          credit?: number
+          debit?: number
+          entry_id?: string
+          id?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_lines_account_code_fkey"
+            columns: ["account_code"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "ledger_lines_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_lines_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manufacturer_blackout_dates: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          manufacturer_id: string
+          reason: string | null
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          manufacturer_id: string
+          reason?: string | null
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          manufacturer_id?: string
+          reason?: string | null
+          start_date?: string
+        }
+        Relationships: []
+      }
+      manufacturer_capacity: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          manufacturer_id: string
+          pieces_per_day: number
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          id?: string
+          manufacturer_id: string
+          pieces_per_day: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          manufacturer_id?: string
+          pieces_per_day?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       manufacturer_onboarding_requests: {
         Row: {
           capacity: string
@@ -189,6 +543,7 @@ export type Database = {
       manufacturer_verifications: {
         Row: {
           capacity: string
+          categories: string[]
           city: string | null
           company_name: string
           country: string | null
@@ -211,6 +566,7 @@ export type Database = {
         }
         Insert: {
           capacity: string
+          categories?: string[]
           city?: string | null
           company_name: string
           country?: string | null
@@ -233,6 +589,7 @@ export type Database = {
         }
         Update: {
           capacity?: string
+          categories?: string[]
           city?: string | null
           company_name?: string
           country?: string | null
@@ -451,23 +808,95 @@ export type Database = {
           },
         ]
       }
+      order_payment_milestones: {
+        Row: {
+          amount: number
+          created_at: string
+          held_at: string | null
+          id: string
+          name: string
+          order_id: string
+          percentage: number | null
+          releasable_at: string | null
+          release_state: Database["public"]["Enums"]["order_state"]
+          released_at: string | null
+          released_by: string | null
+          sequence: number
+          status: string
+          template_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          held_at?: string | null
+          id?: string
+          name: string
+          order_id: string
+          percentage?: number | null
+          releasable_at?: string | null
+          release_state: Database["public"]["Enums"]["order_state"]
+          released_at?: string | null
+          released_by?: string | null
+          sequence: number
+          status?: string
+          template_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          held_at?: string | null
+          id?: string
+          name?: string
+          order_id?: string
+          percentage?: number | null
+          releasable_at?: string | null
+          release_state?: Database["public"]["Enums"]["order_state"]
+          released_at?: string | null
+          released_by?: string | null
+          sequence?: number
+          status?: string
+          template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_payment_milestones_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payment_milestones_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "payment_schedule_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_qc: {
         Row: {
           admin_decision: string | null
           admin_decision_at: string | null
           admin_decision_by: string | null
           admin_notes: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          assigned_to: string | null
           created_at: string | null
           decision: string | null
           defect_severity: number | null
           defect_type: string | null
           file_urls: string[] | null
+          first_approval_at: string | null
+          first_approval_by: string | null
           id: string
           notes: string | null
           order_id: string
           reason_code: string | null
           reviewer: string
           reviewer_id: string | null
+          second_review_required: boolean
           stage: string
         }
         Insert: {
@@ -475,17 +904,23 @@ export type Database = {
           admin_decision_at?: string | null
           admin_decision_by?: string | null
           admin_notes?: string | null
+          assigned_at?: string | null
+          assigned_by?: string | null
+          assigned_to?: string | null
           created_at?: string | null
           decision?: string | null
           defect_severity?: number | null
           defect_type?: string | null
           file_urls?: string[] | null
+          first_approval_at?: string | null
+          first_approval_by?: string | null
           id?: string
           notes?: string | null
           order_id: string
           reason_code?: string | null
           reviewer: string
           reviewer_id?: string | null
+          second_review_required?: boolean
           stage: string
         }
         Update: {
@@ -493,17 +928,23 @@ export type Database = {
           admin_decision_at?: string | null
           admin_decision_by?: string | null
           admin_notes?: string | null
+          assigned_at?: string | null
+          assigned_by?: string | null
+          assigned_to?: string | null
           created_at?: string | null
           decision?: string | null
           defect_severity?: number | null
           defect_type?: string | null
           file_urls?: string[] | null
+          first_approval_at?: string | null
+          first_approval_by?: string | null
           id?: string
           notes?: string | null
           order_id?: string
           reason_code?: string | null
           reviewer?: string
           reviewer_id?: string | null
+          second_review_required?: boolean
           stage?: string
         }
         Relationships: [
@@ -516,52 +957,296 @@ export type Database = {
           },
         ]
       }
-      order_shipping_info: {
+      order_refunds: {
         Row: {
-          address_line1: string
-          address_line2: string | null
-          city: string
-          country: string
-          created_at: string | null
-          full_name: string
+          affected_quantity: number | null
+          amount: number
+          created_at: string
+          dispute_id: string | null
+          gateway_refund_id: string | null
           id: string
           order_id: string
-          phone: string
-          pincode: string
-          state: string
+          payout_batch_id: string | null
+          processing_at: string | null
+          processing_by: string | null
+          qc_id: string | null
+          reason: string
+          rejection_reason: string | null
+          requested_at: string
+          requested_by: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          rma_id: string | null
+          source_type: string
+          status: string
         }
         Insert: {
-          address_line1: string
-          address_line2?: string | null
-          city: string
-          country?: string
-          created_at?: string | null
-          full_name: string
+          affected_quantity?: number | null
+          amount: number
+          created_at?: string
+          dispute_id?: string | null
+          gateway_refund_id?: string | null
           id?: string
           order_id: string
-          phone: string
-          pincode: string
-          state: string
+          payout_batch_id?: string | null
+          processing_at?: string | null
+          processing_by?: string | null
+          qc_id?: string | null
+          reason: string
+          rejection_reason?: string | null
+          requested_at?: string
+          requested_by: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rma_id?: string | null
+          source_type?: string
+          status?: string
         }
         Update: {
-          address_line1?: string
-          address_line2?: string | null
-          city?: string
-          country?: string
-          created_at?: string | null
-          full_name?: string
+          affected_quantity?: number | null
+          amount?: number
+          created_at?: string
+          dispute_id?: string | null
+          gateway_refund_id?: string | null
           id?: string
           order_id?: string
-          phone?: string
-          pincode?: string
-          state?: string
+          payout_batch_id?: string | null
+          processing_at?: string | null
+          processing_by?: string | null
+          qc_id?: string | null
+          reason?: string
+          rejection_reason?: string | null
+          requested_at?: string
+          requested_by?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rma_id?: string | null
+          source_type?: string
+          status?: string
         }
         Relationships: [
           {
-            foreignKeyName: "order_shipping_info_order_id_fkey"
-            columns: ["order_id"]
-            isOneToOne: true
-            referencedRelation: "orders"
+            foreignKeyName: "order_refunds_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_payout_batch_id_fkey"
+            columns: ["payout_batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_qc_id_fkey"
+            columns: ["qc_id"]
+            isOneToOne: false
+            referencedRelation: "order_qc"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_rmas: {
+        Row: {
+          address: Json
+          adjustment_amount: number
+          approved_quantity: number | null
+          buyer_id: string
+          closed_at: string | null
+          created_at: string
+          description: string
+          fault: string | null
+          id: string
+          items: Json
+          manufacturer_id: string | null
+          order_id: string
+          photos: string[]
+          reason: string
+          reference: string
+          refund_id: string | null
+          remake_started_at: string | null
+          remake_status: string | null
+          requested_quantity: number
+          resolution: string | null
+          return_received_at: string | null
+          return_required: boolean
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          address: Json
+          adjustment_amount?: number
+          approved_quantity?: number | null
+          buyer_id: string
+          closed_at?: string | null
+          created_at?: string
+          description: string
+          fault?: string | null
+          id?: string
+          items?: Json
+          manufacturer_id?: string | null
+          order_id: string
+          photos?: string[]
+          reason: string
+          reference: string
+          refund_id?: string | null
+          remake_started_at?: string | null
+          remake_status?: string | null
+          requested_quantity: number
+          resolution?: string | null
+          return_received_at?: string | null
+          return_required?: boolean
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: Json
+          adjustment_amount?: number
+          approved_quantity?: number | null
+          buyer_id?: string
+          closed_at?: string | null
+          created_at?: string
+          description?: string
+          fault?: string | null
+          id?: string
+          items?: Json
+          manufacturer_id?: string | null
+          order_id?: string
+          photos?: string[]
+          reason?: string
+          reference?: string
+          refund_id?: string | null
+          remake_started_at?: string | null
+          remake_status?: string | null
+          requested_quantity?: number
+          resolution?: string | null
+          return_received_at?: string | null
+          return_required?: boolean
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_rmas_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_rmas_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "order_refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_shipping_info: {
+        Row: {
+          address_line1: string
+          address_line2: string | null
+          city: string
+          country: string
+          created_at: string | null
+          full_name: string
+          id: string
+          order_id: string
+          phone: string
+          pincode: string
+          state: string
+        }
+        Insert: {
+          address_line1: string
+          address_line2?: string | null
+          city: string
+          country?: string
+          created_at?: string | null
+          full_name: string
+          id?: string
+          order_id: string
+          phone: string
+          pincode: string
+          state: string
+        }
+        Update: {
+          address_line1?: string
+          address_line2?: string | null
+          city?: string
+          country?: string
+          created_at?: string | null
+          full_name?: string
+          id?: string
+          order_id?: string
+          phone?: string
+          pincode?: string
+          state?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_shipping_info_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_size_chart: {
+        Row: {
+          chest_cm: number | null
+          created_at: string
+          id: string
+          length_cm: number | null
+          order_id: string
+          size: string
+          sleeve_cm: number | null
+          tolerance_cm: number
+        }
+        Insert: {
+          chest_cm?: number | null
+          created_at?: string
+          id?: string
+          length_cm?: number | null
+          order_id: string
+          size: string
+          sleeve_cm?: number | null
+          tolerance_cm?: number
+        }
+        Update: {
+          chest_cm?: number | null
+          created_at?: string
+          id?: string
+          length_cm?: number | null
+          order_id?: string
+          size?: string
+          sleeve_cm?: number | null
+          tolerance_cm?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_size_chart_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
             referencedColumns: ["id"]
           },
         ]
@@ -576,9 +1261,12 @@ export type Database = {
           id: string
           locked_by: string | null
           order_id: string
+          print_height_mm: number | null
+          print_offset_mm: number | null
           print_position: string
           print_size: string
           print_type: string
+          print_width_mm: number | null
           tolerance_mm: number
         }
         Insert: {
@@ -590,9 +1278,12 @@ export type Database = {
           id?: string
           locked_by?: string | null
           order_id: string
+          print_height_mm?: number | null
+          print_offset_mm?: number | null
           print_position: string
           print_size: string
           print_type: string
+          print_width_mm?: number | null
           tolerance_mm: number
         }
         Update: {
@@ -604,9 +1295,12 @@ export type Database = {
           id?: string
           locked_by?: string | null
           order_id?: string
+          print_height_mm?: number | null
+          print_offset_mm?: number | null
           print_position?: string
           print_size?: string
           print_type?: string
+          print_width_mm?: number | null
           tolerance_mm?: number
         }
         Relationships: [
@@ -641,6 +1335,9 @@ export type Database = {
           buyer_notes: string | null
           buyer_purpose: Database["public"]["Enums"]["buyer_purpose"] | null
           buyer_type: Database["public"]["Enums"]["buyer_type"] | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           concern_notes: string | null
           corrected_csv_url: string | null
           courier_name: string | null
@@ -667,11 +1364,15 @@ export type Database = {
           fake_payment_timestamp: string | null
           generated_preview: string | null
           google_drive_link: string | null
+          held_at: string | null
+          hold_previous_state: string | null
+          hold_reason: string | null
           id: string
           in_transit_at: string | null
           manufacturer_accept_time: string | null
           manufacturer_id: string | null
           mockup_image: string | null
+          name_personalisation: boolean
           order_intent: Database["public"]["Enums"]["order_intent"] | null
           order_mode: Database["public"]["Enums"]["order_mode"] | null
           order_state: Database["public"]["Enums"]["order_state"] | null
@@ -682,11 +1383,18 @@ export type Database = {
           payment_state: string | null
           payment_status: string | null
           pickup_scheduled_at: string | null
+          platform_commission_rate: number
+          pod_confirmed_at: string | null
+          price_quote_id: string | null
+          print_method: string | null
           product_category: string | null
           product_type: string
+          qc_aql_major: number
+          qc_aql_minor: number
           qc_feedback: string | null
           qc_feedback_structured: string | null
           qc_files: string[] | null
+          qc_inspection_level: string
           qc_status: string | null
           qc_uploaded_at: string | null
           qc_video_url: string | null
@@ -695,6 +1403,7 @@ export type Database = {
           refunded_at: string | null
           refunded_by: string | null
           rejection_reason: string | null
+          rfq_quote_id: string | null
           sample_approved_at: string | null
           sample_order_placed_at: string | null
           sample_production_started_at: string | null
@@ -739,6 +1448,9 @@ export type Database = {
           buyer_notes?: string | null
           buyer_purpose?: Database["public"]["Enums"]["buyer_purpose"] | null
           buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           concern_notes?: string | null
           corrected_csv_url?: string | null
           courier_name?: string | null
@@ -765,11 +1477,15 @@ export type Database = {
           fake_payment_timestamp?: string | null
           generated_preview?: string | null
           google_drive_link?: string | null
+          held_at?: string | null
+          hold_previous_state?: string | null
+          hold_reason?: string | null
           id?: string
           in_transit_at?: string | null
           manufacturer_accept_time?: string | null
           manufacturer_id?: string | null
           mockup_image?: string | null
+          name_personalisation?: boolean
           order_intent?: Database["public"]["Enums"]["order_intent"] | null
           order_mode?: Database["public"]["Enums"]["order_mode"] | null
           order_state?: Database["public"]["Enums"]["order_state"] | null
@@ -780,11 +1496,18 @@ export type Database = {
           payment_state?: string | null
           payment_status?: string | null
           pickup_scheduled_at?: string | null
+          platform_commission_rate?: number
+          pod_confirmed_at?: string | null
+          price_quote_id?: string | null
+          print_method?: string | null
           product_category?: string | null
           product_type: string
+          qc_aql_major?: number
+          qc_aql_minor?: number
           qc_feedback?: string | null
           qc_feedback_structured?: string | null
           qc_files?: string[] | null
+          qc_inspection_level?: string
           qc_status?: string | null
           qc_uploaded_at?: string | null
           qc_video_url?: string | null
@@ -793,6 +1516,7 @@ export type Database = {
           refunded_at?: string | null
           refunded_by?: string | null
           rejection_reason?: string | null
+          rfq_quote_id?: string | null
           sample_approved_at?: string | null
           sample_order_placed_at?: string | null
           sample_production_started_at?: string | null
@@ -837,6 +1561,9 @@ export type Database = {
           buyer_notes?: string | null
           buyer_purpose?: Database["public"]["Enums"]["buyer_purpose"] | null
           buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           concern_notes?: string | null
           corrected_csv_url?: string | null
           courier_name?: string | null
@@ -863,11 +1590,15 @@ export type Database = {
           fake_payment_timestamp?: string | null
           generated_preview?: string | null
           google_drive_link?: string | null
+          held_at?: string | null
+          hold_previous_state?: string | null
+          hold_reason?: string | null
           id?: string
           in_transit_at?: string | null
           manufacturer_accept_time?: string | null
           manufacturer_id?: string | null
           mockup_image?: string | null
+          name_personalisation?: boolean
           order_intent?: Database["public"]["Enums"]["order_intent"] | null
           order_mode?: Database["public"]["Enums"]["order_mode"] | null
           order_state?: Database["public"]["Enums"]["order_state"] | null
@@ -878,11 +1609,18 @@ export type Database = {
           payment_state?: string | null
           payment_status?: string | null
           pickup_scheduled_at?: string | null
+          platform_commission_rate?: number
+          pod_confirmed_at?: string | null
+          price_quote_id?: string | null
+          print_method?: string | null
           product_category?: string | null
           product_type?: string
+          qc_aql_major?: number
+          qc_aql_minor?: number
           qc_feedback?: string | null
           qc_feedback_structured?: string | null
           qc_files?: string[] | null
+          qc_inspection_level?: string
           qc_status?: string | null
           qc_uploaded_at?: string | null
           qc_video_url?: string | null
@@ -891,6 +1629,7 @@ export type Database = {
           refunded_at?: string | null
           refunded_by?: string | null
           rejection_reason?: string | null
+          rfq_quote_id?: string | null
           sample_approved_at?: string | null
           sample_order_placed_at?: string | null
           sample_production_started_at?: string | null
@@ -914,98 +1653,1553 @@ export type Database = {
           updated_at?: string
           upfront_payable_amount?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "orders_price_quote_id_fkey"
+            columns: ["price_quote_id"]
+            isOneToOne: false
+            referencedRelation: "price_quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_rfq_quote_id_fkey"
+            columns: ["rfq_quote_id"]
+            isOneToOne: false
+            referencedRelation: "rfq_quotes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      platform_metrics: {
+      payment_gateway_refunds: {
         Row: {
-          completed_orders: number | null
+          amount: number
+          completed_at: string | null
           created_at: string
+          failure_reason: string | null
           id: string
-          metric_date: string
-          pending_qc: number | null
-          rejected_orders: number | null
-          total_buyers: number | null
-          total_manufacturers: number | null
-          total_orders: number | null
-          total_revenue: number | null
+          intent_id: string
+          order_id: string
+          provider_refund_id: string | null
+          reason: string
+          requested_by: string | null
+          status: string
         }
         Insert: {
-          completed_orders?: number | null
+          amount: number
+          completed_at?: string | null
           created_at?: string
-          id?: string
-          metric_date?: string
-          pending_qc?: number | null
-          rejected_orders?: number | null
-          total_buyers?: number | null
-          total_manufacturers?: number | null
-          total_orders?: number | null
-          total_revenue?: number | null
+          failure_reason?: string | null
+          id: string
+          intent_id: string
+          order_id: string
+          provider_refund_id?: string | null
+          reason: string
+          requested_by?: string | null
+          status?: string
         }
         Update: {
-          completed_orders?: number | null
+          amount?: number
+          completed_at?: string | null
           created_at?: string
+          failure_reason?: string | null
           id?: string
-          metric_date?: string
-          pending_qc?: number | null
-          rejected_orders?: number | null
-          total_buyers?: number | null
-          total_manufacturers?: number | null
-          total_orders?: number | null
-          total_revenue?: number | null
+          intent_id?: string
+          order_id?: string
+          provider_refund_id?: string | null
+          reason?: string
+          requested_by?: string | null
+          status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payment_gateway_refunds_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "order_refunds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_gateway_refunds_intent_id_fkey"
+            columns: ["intent_id"]
+            isOneToOne: false
+            referencedRelation: "payment_intents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_gateway_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      payment_intents: {
         Row: {
-          company_name: string | null
+          amount: number
+          captured_at: string | null
+          checkout_url: string | null
           created_at: string
-          email: string
+          created_by: string | null
+          currency: string
+          failure_reason: string | null
           id: string
-          on_time_deliveries: number | null
-          onboarding_completed: boolean | null
-          onboarding_completed_at: string | null
-          onboarding_type: string | null
-          performance_score: number | null
-          qc_pass_rate: number | null
-          total_disputes: number | null
+          order_id: string
+          provider: string
+          provider_order_id: string
+          provider_payment_id: string | null
+          provider_refund_id: string | null
+          refunded_amount: number
+          refunded_at: string | null
+          status: string
           updated_at: string
         }
         Insert: {
-          company_name?: string | null
+          amount: number
+          captured_at?: string | null
+          checkout_url?: string | null
           created_at?: string
-          email: string
-          id: string
-          on_time_deliveries?: number | null
-          onboarding_completed?: boolean | null
-          onboarding_completed_at?: string | null
-          onboarding_type?: string | null
-          performance_score?: number | null
-          qc_pass_rate?: number | null
-          total_disputes?: number | null
+          created_by?: string | null
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          provider: string
+          provider_order_id: string
+          provider_payment_id?: string | null
+          provider_refund_id?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
+          status?: string
           updated_at?: string
         }
         Update: {
-          company_name?: string | null
+          amount?: number
+          captured_at?: string | null
+          checkout_url?: string | null
           created_at?: string
-          email?: string
+          created_by?: string | null
+          currency?: string
+          failure_reason?: string | null
           id?: string
-          on_time_deliveries?: number | null
-          onboarding_completed?: boolean | null
-          onboarding_completed_at?: string | null
-          onboarding_type?: string | null
-          performance_score?: number | null
-          qc_pass_rate?: number | null
-          total_disputes?: number | null
+          order_id?: string
+          provider?: string
+          provider_order_id?: string
+          provider_payment_id?: string | null
+          provider_refund_id?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
+          status?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payment_intents_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      system_logs: {
+      payment_schedule_templates: {
         Row: {
-          actor_id: string | null
-          actor_role: string
           created_at: string
-          entity_id: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          milestones: Json
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          milestones: Json
+          name: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          milestones?: Json
+          name?: string
+        }
+        Relationships: []
+      }
+      payment_webhook_events: {
+        Row: {
+          delivery_count: number
+          event_id: string
+          event_type: string
+          id: string
+          last_received_at: string
+          payload: Json
+          processed_at: string | null
+          provider: string
+          provider_order_id: string | null
+          provider_payment_id: string | null
+          received_at: string
+          result: string | null
+        }
+        Insert: {
+          delivery_count?: number
+          event_id: string
+          event_type: string
+          id?: string
+          last_received_at?: string
+          payload?: Json
+          processed_at?: string | null
+          provider: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          received_at?: string
+          result?: string | null
+        }
+        Update: {
+          delivery_count?: number
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_received_at?: string
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          received_at?: string
+          result?: string | null
+        }
+        Relationships: []
+      }
+      payout_adjustments: {
+        Row: {
+          amount: number
+          batch_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          manufacturer_id: string
+          order_id: string
+          reason: string
+          rma_id: string | null
+        }
+        Insert: {
+          amount: number
+          batch_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          manufacturer_id: string
+          order_id: string
+          reason: string
+          rma_id?: string | null
+        }
+        Update: {
+          amount?: number
+          batch_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          manufacturer_id?: string
+          order_id?: string
+          reason?: string
+          rma_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_adjustments_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_adjustments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_adjustments_rma_id_fkey"
+            columns: ["rma_id"]
+            isOneToOne: false
+            referencedRelation: "order_rmas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_batch_items: {
+        Row: {
+          batch_id: string
+          commission_amount: number
+          commission_rate: number
+          created_at: string
+          delivery_cost: number
+          id: string
+          net_amount: number
+          order_id: string
+          order_value: number
+          refund_amount: number
+          released_at: string | null
+        }
+        Insert: {
+          batch_id: string
+          commission_amount: number
+          commission_rate: number
+          created_at?: string
+          delivery_cost?: number
+          id?: string
+          net_amount: number
+          order_id: string
+          order_value: number
+          refund_amount?: number
+          released_at?: string | null
+        }
+        Update: {
+          batch_id?: string
+          commission_amount?: number
+          commission_rate?: number
+          created_at?: string
+          delivery_cost?: number
+          id?: string
+          net_amount?: number
+          order_id?: string
+          order_value?: number
+          refund_amount?: number
+          released_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_batch_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_batch_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_batches: {
+        Row: {
+          adjustment_amount: number
+          carried_refund_amount: number
+          commission_amount: number
+          created_at: string
+          delivery_amount: number
+          failed_at: string | null
+          failure_reason: string | null
+          gross_amount: number
+          id: string
+          manufacturer_id: string
+          net_amount: number
+          order_count: number
+          paid_at: string | null
+          paid_by: string | null
+          payment_reference: string | null
+          period_end: string
+          period_start: string
+          reference: string
+          refund_amount: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          adjustment_amount?: number
+          carried_refund_amount?: number
+          commission_amount?: number
+          created_at?: string
+          delivery_amount?: number
+          failed_at?: string | null
+          failure_reason?: string | null
+          gross_amount?: number
+          id?: string
+          manufacturer_id: string
+          net_amount?: number
+          order_count?: number
+          paid_at?: string | null
+          paid_by?: string | null
+          payment_reference?: string | null
+          period_end: string
+          period_start: string
+          reference: string
+          refund_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          adjustment_amount?: number
+          carried_refund_amount?: number
+          commission_amount?: number
+          created_at?: string
+          delivery_amount?: number
+          failed_at?: string | null
+          failure_reason?: string | null
+          gross_amount?: number
+          id?: string
+          manufacturer_id?: string
+          net_amount?: number
+          order_count?: number
+          paid_at?: string | null
+          paid_by?: string | null
+          payment_reference?: string | null
+          period_end?: string
+          period_start?: string
+          reference?: string
+          refund_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      platform_metrics: {
+        Row: {
+          completed_orders: number | null
+          created_at: string
+          id: string
+          metric_date: string
+          pending_qc: number | null
+          rejected_orders: number | null
+          total_buyers: number | null
+          total_manufacturers: number | null
+          total_orders: number | null
+          total_revenue: number | null
+        }
+        Insert: {
+          completed_orders?: number | null
+          created_at?: string
+          id?: string
+          metric_date?: string
+          pending_qc?: number | null
+          rejected_orders?: number | null
+          total_buyers?: number | null
+          total_manufacturers?: number | null
+          total_orders?: number | null
+          total_revenue?: number | null
+        }
+        Update: {
+          completed_orders?: number | null
+          created_at?: string
+          id?: string
+          metric_date?: string
+          pending_qc?: number | null
+          rejected_orders?: number | null
+          total_buyers?: number | null
+          total_manufacturers?: number | null
+          total_orders?: number | null
+          total_revenue?: number | null
+        }
+        Relationships: []
+      }
+      price_book_fabrics: {
+        Row: {
+          fabric_id: string
+          label: string
+          price_book_id: string
+          unit_price: number
+        }
+        Insert: {
+          fabric_id: string
+          label: string
+          price_book_id: string
+          unit_price: number
+        }
+        Update: {
+          fabric_id?: string
+          label?: string
+          price_book_id?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_fabrics_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_book_quantity_tiers: {
+        Row: {
+          discount_rate: number
+          min_quantity: number
+          price_book_id: string
+        }
+        Insert: {
+          discount_rate?: number
+          min_quantity: number
+          price_book_id: string
+        }
+        Update: {
+          discount_rate?: number
+          min_quantity?: number
+          price_book_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_quantity_tiers_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_book_rush_tiers: {
+        Row: {
+          max_lead_days: number
+          price_book_id: string
+          surcharge_rate: number
+        }
+        Insert: {
+          max_lead_days: number
+          price_book_id: string
+          surcharge_rate: number
+        }
+        Update: {
+          max_lead_days?: number
+          price_book_id?: string
+          surcharge_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_rush_tiers_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_book_surcharges: {
+        Row: {
+          code: string
+          id: string
+          label: string
+          price_book_id: string
+          surcharge_type: string
+          unit_amount: number
+        }
+        Insert: {
+          code: string
+          id?: string
+          label: string
+          price_book_id: string
+          surcharge_type: string
+          unit_amount?: number
+        }
+        Update: {
+          code?: string
+          id?: string
+          label?: string
+          price_book_id?: string
+          surcharge_type?: string
+          unit_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_surcharges_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_books: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          default_unit_price: number
+          id: string
+          is_active: boolean
+          name: string
+          quote_validity_minutes: number
+          sample_unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          default_unit_price: number
+          id?: string
+          is_active?: boolean
+          name: string
+          quote_validity_minutes?: number
+          sample_unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          default_unit_price?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          quote_validity_minutes?: number
+          sample_unit_price?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      price_quotes: {
+        Row: {
+          buyer_id: string
+          consumed_at: string | null
+          created_at: string
+          delivery_cost: number
+          delivery_pincode: string | null
+          delivery_zone: string | null
+          expires_at: string
+          fabric_id: string | null
+          goods_subtotal: number
+          id: string
+          is_sample: boolean
+          line_items: Json
+          order_id: string | null
+          price_book_id: string
+          print_method: string | null
+          product_type: string
+          quantity: number
+          request: Json
+          rush_fee: number
+          signature: string
+          total_amount: number
+          unit_price: number
+        }
+        Insert: {
+          buyer_id: string
+          consumed_at?: string | null
+          created_at?: string
+          delivery_cost?: number
+          delivery_pincode?: string | null
+          delivery_zone?: string | null
+          expires_at: string
+          fabric_id?: string | null
+          goods_subtotal: number
+          id?: string
+          is_sample?: boolean
+          line_items?: Json
+          order_id?: string | null
+          price_book_id: string
+          print_method?: string | null
+          product_type: string
+          quantity: number
+          request: Json
+          rush_fee?: number
+          signature: string
+          total_amount: number
+          unit_price: number
+        }
+        Update: {
+          buyer_id?: string
+          consumed_at?: string | null
+          created_at?: string
+          delivery_cost?: number
+          delivery_pincode?: string | null
+          delivery_zone?: string | null
+          expires_at?: string
+          fabric_id?: string | null
+          goods_subtotal?: number
+          id?: string
+          is_sample?: boolean
+          line_items?: Json
+          order_id?: string | null
+          price_book_id?: string
+          print_method?: string | null
+          product_type?: string
+          quantity?: number
+          request?: Json
+          rush_fee?: number
+          signature?: string
+          total_amount?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_quotes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_quotes_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_bookings: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          manufacturer_id: string
+          order_id: string
+          product_type: string | null
+          quantity: number
+          released_at: string | null
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          manufacturer_id: string
+          order_id: string
+          product_type?: string | null
+          quantity: number
+          released_at?: string | null
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          manufacturer_id?: string
+          order_id?: string
+          product_type?: string | null
+          quantity?: number
+          released_at?: string | null
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_bookings_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          company_name: string | null
+          created_at: string
+          email: string
+          gstin: string | null
+          id: string
+          on_time_deliveries: number | null
+          onboarding_completed: boolean | null
+          onboarding_completed_at: string | null
+          onboarding_type: string | null
+          performance_score: number | null
+          qc_pass_rate: number | null
+          total_disputes: number | null
+          updated_at: string
+        }
+        Insert: {
+          company_name?: string | null
+          created_at?: string
+          email: string
+          gstin?: string | null
+          id: string
+          on_time_deliveries?: number | null
+          onboarding_completed?: boolean | null
+          onboarding_completed_at?: string | null
+          onboarding_type?: string | null
+          performance_score?: number | null
+          qc_pass_rate?: number | null
+          total_disputes?: number | null
+          updated_at?: string
+        }
+        Update: {
+          company_name?: string | null
+          created_at?: string
+          email?: string
+          gstin?: string | null
+          id?: string
+          on_time_deliveries?: number | null
+          onboarding_completed?: boolean | null
+          onboarding_completed_at?: string | null
+          onboarding_type?: string | null
+          performance_score?: number | null
+          qc_pass_rate?: number | null
+          total_disputes?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      qc_defect_codes: {
+        Row: {
+          active: boolean
+          category: string
+          code: string
+          created_at: string
+          default_severity: string
+          description: string | null
+          label: string
+          product_types: string[]
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          category: string
+          code: string
+          created_at?: string
+          default_severity: string
+          description?: string | null
+          label: string
+          product_types?: string[]
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          category?: string
+          code?: string
+          created_at?: string
+          default_severity?: string
+          description?: string | null
+          label?: string
+          product_types?: string[]
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      qc_defects: {
+        Row: {
+          annotation: Json | null
+          created_at: string
+          defect_code: string
+          file_url: string | null
+          id: string
+          location: string | null
+          manufacturer_id: string | null
+          notes: string | null
+          order_id: string
+          order_qc_id: string | null
+          pieces: number
+          print_method: string | null
+          product_type: string | null
+          recorded_by: string | null
+          recorded_by_role: string | null
+          required_fix: string | null
+          severity: string
+          stage: string
+        }
+        Insert: {
+          annotation?: Json | null
+          created_at?: string
+          defect_code: string
+          file_url?: string | null
+          id?: string
+          location?: string | null
+          manufacturer_id?: string | null
+          notes?: string | null
+          order_id: string
+          order_qc_id?: string | null
+          pieces?: number
+          print_method?: string | null
+          product_type?: string | null
+          recorded_by?: string | null
+          recorded_by_role?: string | null
+          required_fix?: string | null
+          severity: string
+          stage: string
+        }
+        Update: {
+          annotation?: Json | null
+          created_at?: string
+          defect_code?: string
+          file_url?: string | null
+          id?: string
+          location?: string | null
+          manufacturer_id?: string | null
+          notes?: string | null
+          order_id?: string
+          order_qc_id?: string | null
+          pieces?: number
+          print_method?: string | null
+          product_type?: string | null
+          recorded_by?: string | null
+          recorded_by_role?: string | null
+          required_fix?: string | null
+          severity?: string
+          stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_defects_defect_code_fkey"
+            columns: ["defect_code"]
+            isOneToOne: false
+            referencedRelation: "qc_defect_codes"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "qc_defects_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_defects_order_qc_id_fkey"
+            columns: ["order_qc_id"]
+            isOneToOne: false
+            referencedRelation: "order_qc"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_measurements: {
+        Row: {
+          chest_cm: number | null
+          created_at: string
+          failures: Json
+          id: string
+          length_cm: number | null
+          measured_by: string | null
+          order_id: string
+          order_qc_id: string
+          piece_number: number
+          print_height_mm: number | null
+          print_offset_mm: number | null
+          print_width_mm: number | null
+          result: string | null
+          size: string
+          sleeve_cm: number | null
+          stage: string
+        }
+        Insert: {
+          chest_cm?: number | null
+          created_at?: string
+          failures?: Json
+          id?: string
+          length_cm?: number | null
+          measured_by?: string | null
+          order_id: string
+          order_qc_id: string
+          piece_number: number
+          print_height_mm?: number | null
+          print_offset_mm?: number | null
+          print_width_mm?: number | null
+          result?: string | null
+          size: string
+          sleeve_cm?: number | null
+          stage: string
+        }
+        Update: {
+          chest_cm?: number | null
+          created_at?: string
+          failures?: Json
+          id?: string
+          length_cm?: number | null
+          measured_by?: string | null
+          order_id?: string
+          order_qc_id?: string
+          piece_number?: number
+          print_height_mm?: number | null
+          print_offset_mm?: number | null
+          print_width_mm?: number | null
+          result?: string | null
+          size?: string
+          sleeve_cm?: number | null
+          stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_measurements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_measurements_order_qc_id_fkey"
+            columns: ["order_qc_id"]
+            isOneToOne: false
+            referencedRelation: "order_qc"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_review_policies: {
+        Row: {
+          buyer_type: Database["public"]["Enums"]["buyer_type"] | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          order_mode: Database["public"]["Enums"]["order_mode"] | null
+          second_review_min_value: number
+          updated_at: string
+        }
+        Insert: {
+          buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          order_mode?: Database["public"]["Enums"]["order_mode"] | null
+          second_review_min_value: number
+          updated_at?: string
+        }
+        Update: {
+          buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          order_mode?: Database["public"]["Enums"]["order_mode"] | null
+          second_review_min_value?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rfq_invitations: {
+        Row: {
+          created_at: string
+          invited_by: string | null
+          manufacturer_id: string
+          rfq_id: string
+        }
+        Insert: {
+          created_at?: string
+          invited_by?: string | null
+          manufacturer_id: string
+          rfq_id: string
+        }
+        Update: {
+          created_at?: string
+          invited_by?: string | null
+          manufacturer_id?: string
+          rfq_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rfq_invitations_rfq_id_fkey"
+            columns: ["rfq_id"]
+            isOneToOne: false
+            referencedRelation: "rfqs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rfq_quotes: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          delivery_cost: number
+          goods_subtotal: number
+          id: string
+          lead_time_days: number | null
+          line_items: Json
+          notes: string | null
+          responder_id: string
+          responder_role: string
+          rfq_id: string
+          status: string
+          total_amount: number
+          valid_until: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          delivery_cost?: number
+          goods_subtotal: number
+          id?: string
+          lead_time_days?: number | null
+          line_items?: Json
+          notes?: string | null
+          responder_id: string
+          responder_role: string
+          rfq_id: string
+          status?: string
+          total_amount: number
+          valid_until: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          delivery_cost?: number
+          goods_subtotal?: number
+          id?: string
+          lead_time_days?: number | null
+          line_items?: Json
+          notes?: string | null
+          responder_id?: string
+          responder_role?: string
+          rfq_id?: string
+          status?: string
+          total_amount?: number
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rfq_quotes_rfq_id_fkey"
+            columns: ["rfq_id"]
+            isOneToOne: false
+            referencedRelation: "rfqs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rfqs: {
+        Row: {
+          accepted_quote_id: string | null
+          buyer_id: string
+          buyer_purpose: Database["public"]["Enums"]["buyer_purpose"]
+          closed_at: string | null
+          created_at: string
+          design_size: string
+          expected_deadline: string | null
+          fabric_preference: string | null
+          google_drive_link: string | null
+          id: string
+          order_id: string | null
+          product_type: string
+          quantity: number
+          requirements: string
+          selected_color: string | null
+          status: string
+          target_unit_price: number | null
+          updated_at: string
+        }
+        Insert: {
+          accepted_quote_id?: string | null
+          buyer_id: string
+          buyer_purpose?: Database["public"]["Enums"]["buyer_purpose"]
+          closed_at?: string | null
+          created_at?: string
+          design_size?: string
+          expected_deadline?: string | null
+          fabric_preference?: string | null
+          google_drive_link?: string | null
+          id?: string
+          order_id?: string | null
+          product_type: string
+          quantity: number
+          requirements: string
+          selected_color?: string | null
+          status?: string
+          target_unit_price?: number | null
+          updated_at?: string
+        }
+        Update: {
+          accepted_quote_id?: string | null
+          buyer_id?: string
+          buyer_purpose?: Database["public"]["Enums"]["buyer_purpose"]
+          closed_at?: string | null
+          created_at?: string
+          design_size?: string
+          expected_deadline?: string | null
+          fabric_preference?: string | null
+          google_drive_link?: string | null
+          id?: string
+          order_id?: string | null
+          product_type?: string
+          quantity?: number
+          requirements?: string
+          selected_color?: string | null
+          status?: string
+          target_unit_price?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rfqs_accepted_quote_id_fkey"
+            columns: ["accepted_quote_id"]
+            isOneToOne: false
+            referencedRelation: "rfq_quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rfqs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sample_revision_policies: {
+        Row: {
+          buyer_type: Database["public"]["Enums"]["buyer_type"] | null
+          created_at: string
+          id: string
+          is_active: boolean
+          max_revisions: number
+          name: string
+          order_mode: Database["public"]["Enums"]["order_mode"] | null
+          updated_at: string
+        }
+        Insert: {
+          buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_revisions: number
+          name: string
+          order_mode?: Database["public"]["Enums"]["order_mode"] | null
+          updated_at?: string
+        }
+        Update: {
+          buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_revisions?: number
+          name?: string
+          order_mode?: Database["public"]["Enums"]["order_mode"] | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sample_revisions: {
+        Row: {
+          decided_at: string | null
+          decided_by: string | null
+          decision: string
+          dispute_id: string | null
+          escalated_at: string | null
+          feedback: string | null
+          feedback_structured: string | null
+          file_urls: string[]
+          id: string
+          order_id: string
+          order_qc_id: string | null
+          round: number
+          submitted_at: string
+          submitted_by: string | null
+          video_path: string | null
+        }
+        Insert: {
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          dispute_id?: string | null
+          escalated_at?: string | null
+          feedback?: string | null
+          feedback_structured?: string | null
+          file_urls?: string[]
+          id?: string
+          order_id: string
+          order_qc_id?: string | null
+          round: number
+          submitted_at?: string
+          submitted_by?: string | null
+          video_path?: string | null
+        }
+        Update: {
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          dispute_id?: string | null
+          escalated_at?: string | null
+          feedback?: string | null
+          feedback_structured?: string | null
+          file_urls?: string[]
+          id?: string
+          order_id?: string
+          order_qc_id?: string | null
+          round?: number
+          submitted_at?: string
+          submitted_by?: string | null
+          video_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sample_revisions_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sample_revisions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sample_revisions_order_qc_id_fkey"
+            columns: ["order_qc_id"]
+            isOneToOne: true
+            referencedRelation: "order_qc"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipment_tracking_events: {
+        Row: {
+          awb_code: string
+          delivery_count: number
+          description: string | null
+          event_id: string
+          id: string
+          last_received_at: string
+          location: string | null
+          occurred_at: string
+          payload: Json
+          processed_at: string | null
+          provider: string
+          raw_status: string | null
+          received_at: string
+          result: string | null
+          shipment_id: string | null
+          status: string
+        }
+        Insert: {
+          awb_code: string
+          delivery_count?: number
+          description?: string | null
+          event_id: string
+          id?: string
+          last_received_at?: string
+          location?: string | null
+          occurred_at: string
+          payload?: Json
+          processed_at?: string | null
+          provider: string
+          raw_status?: string | null
+          received_at?: string
+          result?: string | null
+          shipment_id?: string | null
+          status: string
+        }
+        Update: {
+          awb_code?: string
+          delivery_count?: number
+          description?: string | null
+          event_id?: string
+          id?: string
+          last_received_at?: string
+          location?: string | null
+          occurred_at?: string
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          raw_status?: string | null
+          received_at?: string
+          result?: string | null
+          shipment_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipment_tracking_events_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipments: {
+        Row: {
+          allocation: Json
+          awb_code: string | null
+          courier_name: string | null
+          created_at: string
+          created_by: string | null
+          delivered_at: string | null
+          delivery_address: Json
+          delivery_status: string
+          direction: string
+          id: string
+          in_transit_at: string | null
+          label: string | null
+          label_url: string | null
+          last_event_at: string | null
+          order_id: string
+          pickup_address: Json | null
+          pickup_scheduled_at: string | null
+          pickup_scheduled_for: string | null
+          provider: string | null
+          provider_shipment_id: string | null
+          quantity: number | null
+          rma_id: string | null
+          status: string | null
+          updated_at: string
+          weight_kg: number | null
+        }
+        Insert: {
+          allocation?: Json
+          awb_code?: string | null
+          courier_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          delivered_at?: string | null
+          delivery_address: Json
+          delivery_status?: string
+          direction?: string
+          id?: string
+          in_transit_at?: string | null
+          label?: string | null
+          label_url?: string | null
+          last_event_at?: string | null
+          order_id: string
+          pickup_address?: Json | null
+          pickup_scheduled_at?: string | null
+          pickup_scheduled_for?: string | null
+          provider?: string | null
+          provider_shipment_id?: string | null
+          quantity?: number | null
+          rma_id?: string | null
+          status?: string | null
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Update: {
+          allocation?: Json
+          awb_code?: string | null
+          courier_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          delivered_at?: string | null
+          delivery_address?: Json
+          delivery_status?: string
+          direction?: string
+          id?: string
+          in_transit_at?: string | null
+          label?: string | null
+          label_url?: string | null
+          last_event_at?: string | null
+          order_id?: string
+          pickup_address?: Json | null
+          pickup_scheduled_at?: string | null
+          pickup_scheduled_for?: string | null
+          provider?: string | null
+          provider_shipment_id?: string | null
+          quantity?: number | null
+          rma_id?: string | null
+          status?: string | null
+          updated_at?: string
+          weight_kg?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_breaches: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          detected_at: string
+          elapsed_hours: number
+          id: string
+          metric: string
+          order_id: string
+          policy_id: string | null
+          resolved_at: string | null
+          severity: string
+          threshold_hours: number
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          detected_at?: string
+          elapsed_hours: number
+          id?: string
+          metric: string
+          order_id: string
+          policy_id?: string | null
+          resolved_at?: string | null
+          severity: string
+          threshold_hours: number
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          detected_at?: string
+          elapsed_hours?: number
+          id?: string
+          metric?: string
+          order_id?: string
+          policy_id?: string | null
+          resolved_at?: string | null
+          severity?: string
+          threshold_hours?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_breaches_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sla_breaches_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "sla_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_policies: {
+        Row: {
+          buyer_type: Database["public"]["Enums"]["buyer_type"] | null
+          created_at: string
+          critical_hours: number
+          id: string
+          is_active: boolean
+          metric: string
+          name: string
+          order_mode: Database["public"]["Enums"]["order_mode"] | null
+          updated_at: string
+          warning_hours: number
+        }
+        Insert: {
+          buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          created_at?: string
+          critical_hours: number
+          id?: string
+          is_active?: boolean
+          metric: string
+          name: string
+          order_mode?: Database["public"]["Enums"]["order_mode"] | null
+          updated_at?: string
+          warning_hours: number
+        }
+        Update: {
+          buyer_type?: Database["public"]["Enums"]["buyer_type"] | null
+          created_at?: string
+          critical_hours?: number
+          id?: string
+          is_active?: boolean
+          metric?: string
+          name?: string
+          order_mode?: Database["public"]["Enums"]["order_mode"] | null
+          updated_at?: string
+          warning_hours?: number
+        }
+        Relationships: []
+      }
+      system_logs: {
+        Row: {
+          actor_id: string | null
+          actor_role: string
+          created_at: string
+          entity_id: string | null
           entity_type: string
           event_type: string
           id: string
@@ -1033,6 +3227,142 @@ export type Database = {
         }
         Relationships: []
       }
+      tax_document_sequences: {
+        Row: {
+          document_type: string
+          financial_year: string
+          last_number: number
+        }
+        Insert: {
+          document_type: string
+          financial_year: string
+          last_number?: number
+        }
+        Update: {
+          document_type?: string
+          financial_year?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      tax_invoices: {
+        Row: {
+          cgst_amount: number
+          document_number: string
+          document_type: string
+          financial_year: string
+          id: string
+          igst_amount: number
+          invoice_id: string | null
+          issued_at: string
+          issued_by: string | null
+          line_items: Json
+          order_id: string
+          pdf_path: string | null
+          place_of_supply: string
+          place_of_supply_code: string
+          reason: string | null
+          recipient_address: string | null
+          recipient_gstin: string | null
+          recipient_name: string
+          refund_id: string | null
+          sgst_amount: number
+          supplier_address: string | null
+          supplier_gstin: string
+          supplier_id: string | null
+          supplier_name: string
+          supplier_state: string
+          supplier_state_code: string
+          supply_type: string
+          taxable_value: number
+          total_amount: number
+        }
+        Insert: {
+          cgst_amount?: number
+          document_number: string
+          document_type: string
+          financial_year: string
+          id?: string
+          igst_amount?: number
+          invoice_id?: string | null
+          issued_at?: string
+          issued_by?: string | null
+          line_items?: Json
+          order_id: string
+          pdf_path?: string | null
+          place_of_supply: string
+          place_of_supply_code: string
+          reason?: string | null
+          recipient_address?: string | null
+          recipient_gstin?: string | null
+          recipient_name: string
+          refund_id?: string | null
+          sgst_amount?: number
+          supplier_address?: string | null
+          supplier_gstin: string
+          supplier_id?: string | null
+          supplier_name: string
+          supplier_state: string
+          supplier_state_code: string
+          supply_type: string
+          taxable_value: number
+          total_amount: number
+        }
+        Update: {
+          cgst_amount?: number
+          document_number?: string
+          document_type?: string
+          financial_year?: string
+          id?: string
+          igst_amount?: number
+          invoice_id?: string | null
+          issued_at?: string
+          issued_by?: string | null
+          line_items?: Json
+          order_id?: string
+          pdf_path?: string | null
+          place_of_supply?: string
+          place_of_supply_code?: string
+          reason?: string | null
+          recipient_address?: string | null
+          recipient_gstin?: string | null
+          recipient_name?: string
+          refund_id?: string | null
+          sgst_amount?: number
+          supplier_address?: string | null
+          supplier_gstin?: string
+          supplier_id?: string | null
+          supplier_name?: string
+          supplier_state?: string
+          supplier_state_code?: string
+          supply_type?: string
+          taxable_value?: number
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_invoices_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "tax_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_invoices_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: true
+            referencedRelation: "order_refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -1056,9 +3386,187 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      ledger_trial_balance: {
+        Row: {
+          account_code: string | null
+          account_name: string | null
+          account_type: string | null
+          balance: number | null
+          normal_balance: string | null
+          sort_order: number | null
+          total_credit: number | null
+          total_debit: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_rfq_quote: {
+        Args: { _quote_id: string; _shipping: Json }
+        Returns: string
+      }
+      apply_courier_tracking_event: {
+        Args: {
+          _awb_code: string
+          _description: string
+          _event_id: string
+          _location: string
+          _occurred_at: string
+          _payload: Json
+          _provider: string
+          _raw_status: string
+          _status: string
+        }
+        Returns: string
+      }
+      apply_payment_webhook: {
+        Args: {
+          _amount: number
+          _event_id: string
+          _event_type: string
+          _payload: Json
+          _provider: string
+          _provider_order_id: string
+          _provider_payment_id: string
+        }
+        Returns: string
+      }
+      approve_order_refund: {
+        Args: { _refund_id: string }
+        Returns: number
+      }
+      book_rma_shipment: {
+        Args: {
+          _courier_name: string
+          _direction: string
+          _rma_id: string
+          _tracking_id: string
+        }
+        Returns: string
+      }
+      cancel_order_with_refund: {
+        Args: {
+          _from_state: string
+          _order_id: string
+          _reason: string
+        }
+        Returns: Json
+      }
+      cancel_rfq: {
+        Args: { _rfq_id: string }
+        Returns: undefined
+      }
+      check_ledger_consistency: {
+        Args: never
+        Returns: {
+          actual: number
+          expected: number
+          issue: string
+          order_id: string
+          payment_state: string
+        }[]
+      }
+      claim_order_refund: {
+        Args: { _refund_id: string }
+        Returns: undefined
+      }
+      claim_qc_review: {
+        Args: {
+          _assignee?: string
+          _qc_id: string
+        }
+        Returns: undefined
+      }
+      confirm_delivery_pod: {
+        Args: {
+          _latitude?: number
+          _location_accuracy_m?: number
+          _longitude?: number
+          _order_id: string
+          _otp: string
+          _photo_sha256?: string
+          _photo_url?: string
+          _recipient_name?: string
+        }
+        Returns: string
+      }
+      confirm_gateway_refund: {
+        Args: {
+          _provider_refund_id: string
+          _refund_id: string
+        }
+        Returns: Json
+      }
+      create_order_payment_milestones: {
+        Args: {
+          _order_id: string
+          _template_id: string
+        }
+        Returns: number
+      }
+      decide_qc_review: {
+        Args: {
+          _decision: string
+          _notes?: string
+          _qc_id: string
+        }
+        Returns: string
+      }
+      evaluate_sla_policies: {
+        Args: never
+        Returns: number
+      }
+      generate_payout_batches: {
+        Args: { _period_start?: string }
+        Returns: number
+      }
+      get_delivery_pod_token: {
+        Args: { _order_id: string }
+        Returns: string
+      }
+      get_max_sample_revisions: {
+        Args: { _order_id: string }
+        Returns: number
+      }
+      get_order_refundable_balance: {
+        Args: { _order_id: string }
+        Returns: number
+      }
+      get_qc_defect_rates: {
+        Args: { _since?: string }
+        Returns: {
+          category: string
+          defect_code: string
+          defect_count: number
+          defect_rate: number
+          manufacturer_id: string
+          pieces_affected: number
+          print_method: string
+          qc_submissions: number
+        }[]
+      }
+      get_qc_review_metrics: {
+        Args: { _since?: string }
+        Returns: {
+          approvals: number
+          avg_response_hours: number
+          avg_turnaround_hours: number
+          decisions: number
+          first_approvals: number
+          median_turnaround_hours: number
+          rejections: number
+          reviewer_id: string
+          second_signoffs: number
+        }[]
+      }
+      get_qc_reviewers: {
+        Args: never
+        Returns: {
+          company_name: string
+          email: string
+          user_id: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -1070,6 +3578,189 @@ export type Database = {
         }
         Returns: boolean
       }
+      invite_rfq_manufacturers: {
+        Args: { _manufacturer_ids: string[]; _rfq_id: string }
+        Returns: number
+      }
+      issue_tax_document: {
+        Args: { _document: Json }
+        Returns: {
+          cgst_amount: number
+          document_number: string
+          document_type: string
+          financial_year: string
+          id: string
+          igst_amount: number
+          invoice_id: string | null
+          issued_at: string
+          issued_by: string | null
+          line_items: Json
+          order_id: string
+          pdf_path: string | null
+          place_of_supply: string
+          place_of_supply_code: string
+          reason: string | null
+          recipient_address: string | null
+          recipient_gstin: string | null
+          recipient_name: string
+          refund_id: string | null
+          sgst_amount: number
+          supplier_address: string | null
+          supplier_gstin: string
+          supplier_id: string | null
+          supplier_name: string
+          supplier_state: string
+          supplier_state_code: string
+          supply_type: string
+          taxable_value: number
+          total_amount: number
+        }
+      }
+      ledger_order_balance: {
+        Args: {
+          _account: string
+          _order_id: string
+        }
+        Returns: number
+      }
+      ledger_post: {
+        Args: {
+          _entry_type: string
+          _lines: Json
+          _memo: string
+          _order_id: string
+          _source_id: string
+        }
+        Returns: string
+      }
+      ledger_post_order_event: {
+        Args: {
+          _amount?: number
+          _event: string
+          _order_id: string
+          _source_id?: string
+        }
+        Returns: string
+      }
+      open_qc_review: {
+        Args: { _order_id: string }
+        Returns: string
+      }
+      order_has_measurement_targets: {
+        Args: { _order_id: string }
+        Returns: boolean
+      }
+      order_upfront_payable_amount: {
+        Args: { _total_amount: number }
+        Returns: number
+      }
+      payout_batch_carried_refunds: {
+        Args: { _batch_id: string }
+        Returns: number
+      }
+      qc_second_review_required: {
+        Args: { _order_id: string }
+        Returns: boolean
+      }
+      regenerate_delivery_otp: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      release_gateway_refund: {
+        Args: {
+          _failure_reason: string
+          _refund_id: string
+        }
+        Returns: undefined
+      }
+      release_order_refund: {
+        Args: { _refund_id: string }
+        Returns: undefined
+      }
+      release_qc_review: {
+        Args: { _qc_id: string }
+        Returns: undefined
+      }
+      request_rma: {
+        Args: {
+          _address: Json
+          _description: string
+          _items: Json
+          _order_id: string
+          _photos: string[]
+          _reason: string
+        }
+        Returns: string
+      }
+      reserve_gateway_refund: {
+        Args: {
+          _refund_id: string
+          _requested_by: string
+        }
+        Returns: Json
+      }
+      review_rma: {
+        Args: {
+          _adjustment_amount?: number
+          _approve: boolean
+          _approved_quantity?: number
+          _fault?: string
+          _note?: string
+          _refund_amount?: number
+          _resolution?: string
+          _return_required?: boolean
+          _rma_id: string
+        }
+        Returns: undefined
+      }
+      set_order_delivery_plan: {
+        Args: { _order_id: string; _shipments: Json }
+        Returns: number
+      }
+      submit_rfq_quote: {
+        Args: {
+          _delivery_cost: number
+          _lead_time_days: number
+          _line_items: Json
+          _notes?: string
+          _rfq_id: string
+          _valid_days: number
+        }
+        Returns: string
+      }
+      update_payout_batch_status: {
+        Args: {
+          _batch_id: string
+          _failure_reason?: string
+          _payment_reference?: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      update_rma_remake_status: {
+        Args: {
+          _rma_id: string
+          _to_status: string
+        }
+        Returns: undefined
+      }
+      update_shipment_delivery_status: {
+        Args: {
+          _courier_name?: string
+          _shipment_id: string
+          _to_state: string
+          _tracking_id?: string
+        }
+        Returns: undefined
+      }
+      withdraw_rfq_quote: {
+        Args: { _quote_id: string }
+        Returns: undefined
+      }
+      withdraw_rma: {
+        Args: { _rma_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "buyer" | "manufacturer" | "admin"
@@ -1115,6 +3806,8 @@ export type Database = {
         | "DISPATCHED"
         | "DELIVERED"
         | "COMPLETED"
+        | "ON_HOLD"
+        | "CANCELLED"
       payment_state:
         | "PAYMENT_INITIATED"
         | "PAYMENT_HELD"
@@ -1293,6 +3986,8 @@ export const Constants = {
         "DISPATCHED",
         "DELIVERED",
         "COMPLETED",
+        "ON_HOLD",
+        "CANCELLED",
       ],
       payment_state: [
         "PAYMENT_INITIATED",
@@ -0,0 +1,315 @@
+/**
+ * AQL Sampling (ISO 2859-1)
+ *
+ * Single sampling plans, normal inspection, for bulk QC. The buyer chooses the inspection
+ * level and the AQLs for major and minor defects; critical defects are zero-tolerance.
+ * From the lot size (order quantity) the plan gives how many pieces the manufacturer
+ * inspects and how many defective pieces per class are accepted. One more than the accept
+ * number rejects the lot.
+ *
+ * Mirrors aql_sampling_plan() in the database, which computes the plan and result when an
+ * inspection is recorded - the numbers here are for display and form validation.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type InspectionLevel = 'I' | 'II' | 'III';
+export type DefectClass = 'critical' | 'major' | 'minor';
+export type InspectionResult = 'pass' | 'fail';
+
+export const INSPECTION_LEVELS: InspectionLevel[] = ['I', 'II', 'III'];
+
+export const INSPECTION_LEVEL_LABELS: Record<InspectionLevel, string> = {
+  I: 'Level I (reduced discrimination)',
+  II: 'Level II (standard)',
+  III: 'Level III (tightened discrimination)',
+};
+
+export const AQL_VALUES = [0.065, 0.1, 0.15, 0.25, 0.4, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5];
+
+export const DEFAULT_AQL = { level: 'II' as InspectionLevel, major: 2.5, minor: 4.0 };
+
+export const DEFECT_CLASS_LABELS: Record<DefectClass, string> = {
+  critical: 'Critical',
+  major: 'Major',
+  minor: 'Minor',
+};
+
+export const DEFECT_CLASS_DESCRIPTIONS: Record<DefectClass, string> = {
+  critical: 'Unsafe or unusable (e.g. sharp objects, broken closures, wrong product)',
+  major: 'Likely to cause a return (e.g. open seams, misprints, stains, wrong size label)',
+  minor: 'Cosmetic, unlikely to cause a return (e.g. loose threads, slight shade variation)',
+};
+
+const CODE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J', 'K', 'L', 'M', 'N', 'P', 'Q', 'R'];
+const SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000];
+const LOT_SIZE_BOUNDS = [8, 15, 25, 50, 90, 150, 280, 500, 1200, 3200, 10000, 35000, 150000, 500000];
+const LEVEL_I_LETTERS = [0, 0, 1, 2, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+// Accept numbers along diagonals 8..15 of Table II-A (diagonal 5 is 0, 6 and 7 are arrows)
+const DIAGONAL_ACCEPTS = [1, 2, 3, 5, 7, 10, 14, 21];
+
+export interface ClassPlan {
+  aql: number;
+  sampleSize: number;
+  accept: number;
+  reject: number;
+}
+
+export interface AqlPlan {
+  lotSize: number;
+  level: InspectionLevel;
+  codeLetter: string;
+  // Defects are counted over one sample, the largest any class needs
+  sampleSize: number;
+  classes: Record<DefectClass, ClassPlan>;
+}
+
+export interface BulkQCInspection {
+  id: string;
+  order_id: string;
+  lot_size: number;
+  inspection_level: InspectionLevel;
+  aql_major: number;
+  aql_minor: number;
+  sample_size: number;
+  critical_accept: number;
+  major_accept: number;
+  minor_accept: number;
+  inspected_count: number;
+  critical_found: number;
+  major_found: number;
+  minor_found: number;
+  result: InspectionResult;
+  notes: string | null;
+  inspected_by: string | null;
+  created_at: string;
+}
+
+export interface InspectionCounts {
+  inspectedCount: number;
+  criticalFound: number;
+  majorFound: number;
+  minorFound: number;
+}
+
+export interface AqlOrder {
+  id: string;
+  quantity: number;
+  qc_inspection_level?: string | null;
+  qc_aql_major?: number | null;
+  qc_aql_minor?: number | null;
+}
+
+export interface AqlResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+/**
+ * Sample size code letter index (Table I)
+ */
+function codeLetterIndex(lotSize: number, level: InspectionLevel): number {
+  let range = LOT_SIZE_BOUNDS.findIndex((bound) => lotSize <= bound);
+  if (range === -1) range = LOT_SIZE_BOUNDS.length;
+
+  if (level === 'I') return LEVEL_I_LETTERS[range];
+  if (level === 'III') return range + 1;
+  return range;
+}
+
+/**
+ * Sample size and accept number for one defect class (Table II-A). AQL 0 is zero tolerance.
+ */
+export function getClassPlan(lotSize: number, level: InspectionLevel, aql: number): ClassPlan {
+  let letter = codeLetterIndex(lotSize, level);
+
+  if (aql === 0) {
+    return { aql, sampleSize: Math.min(SAMPLE_SIZES[letter], lotSize), accept: 0, reject: 1 };
+  }
+
+  const step = AQL_VALUES.indexOf(aql) - 5;
+  if (step < -5) {
+    throw new Error(`Unsupported AQL: ${aql}`);
+  }
+
+  // Follow the arrows to the nearest plan in the same AQL column
+  const diagonal = letter + step;
+  if (diagonal < 5) letter = 5 - step;
+  else if (diagonal === 6) letter -= 1;
+  else if (diagonal === 7) letter += 1;
+  else if (diagonal > 15) letter = 15 - step;
+
+  const resolved = letter + step;
+  const accept = resolved === 5 ? 0 : DIAGONAL_ACCEPTS[resolved - 8];
+
+  return { aql, sampleSize: Math.min(SAMPLE_SIZES[letter], lotSize), accept, reject: accept + 1 };
+}
+
+/**
+ * Full sampling plan for a lot
+ */
+export function getAqlPlan(lotSize: number, level: InspectionLevel, aqlMajor: number, aqlMinor: number): AqlPlan {
+  const classes = {
+    critical: getClassPlan(lotSize, level, 0),
+    major: getClassPlan(lotSize, level, aqlMajor),
+    minor: getClassPlan(lotSize, level, aqlMinor),
+  };
+
+  return {
+    lotSize,
+    level,
+    codeLetter: CODE_LETTERS[codeLetterIndex(lotSize, level)],
+    sampleSize: Math.max(classes.critical.sampleSize, classes.major.sampleSize, classes.minor.sampleSize),
+    classes,
+  };
+}
+
+/**
+ * Sampling plan from the order's settings
+ */
+export function getOrderAqlPlan(order: AqlOrder): AqlPlan {
+  return getAqlPlan(
+    order.quantity,
+    (order.qc_inspection_level as InspectionLevel) || DEFAULT_AQL.level,
+    Number(order.qc_aql_major ?? DEFAULT_AQL.major),
+    Number(order.qc_aql_minor ?? DEFAULT_AQL.minor)
+  );
+}
+
+/**
+ * Validate recorded counts against a plan
+ */
+export function validateInspectionCounts(plan: AqlPlan, counts: InspectionCounts): { valid: boolean; reason?: string } {
+  if (!Number.isInteger(counts.inspectedCount) || counts.inspectedCount < plan.sampleSize) {
+    return { valid: false, reason: `At least ${plan.sampleSize} pieces must be inspected for a lot of ${plan.lotSize}.` };
+  }
+  if (counts.inspectedCount > plan.lotSize) {
+    return { valid: false, reason: `Cannot inspect more pieces than the lot holds (${plan.lotSize}).` };
+  }
+
+  const found = [counts.criticalFound, counts.majorFound, counts.minorFound];
+  if (found.some((count) => !Number.isInteger(count) || count < 0)) {
+    return { valid: false, reason: 'Defect counts must be whole numbers.' };
+  }
+  if (found.some((count) => count > counts.inspectedCount)) {
+    return { valid: false, reason: 'Defective pieces cannot exceed the pieces inspected.' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Pass/fail of an inspection: any class at or above its reject number fails the lot
+ */
+export function evaluateInspection(plan: AqlPlan, counts: InspectionCounts): { result: InspectionResult; failedClasses: DefectClass[] } {
+  const found: Record<DefectClass, number> = {
+    critical: counts.criticalFound,
+    major: counts.majorFound,
+    minor: counts.minorFound,
+  };
+
+  const failedClasses = (Object.keys(found) as DefectClass[]).filter(
+    (defectClass) => found[defectClass] >= plan.classes[defectClass].reject
+  );
+
+  return { result: failedClasses.length > 0 ? 'fail' : 'pass', failedClasses };
+}
+
+/**
+ * Classes that failed a recorded inspection
+ */
+export function getFailedClasses(inspection: BulkQCInspection): DefectClass[] {
+  const failed: DefectClass[] = [];
+  if (inspection.critical_found > inspection.critical_accept) failed.push('critical');
+  if (inspection.major_found > inspection.major_accept) failed.push('major');
+  if (inspection.minor_found > inspection.minor_accept) failed.push('minor');
+  return failed;
+}
+
+/**
+ * Inspections of an order, newest first
+ */
+export async function fetchBulkQCInspections(orderId: string): Promise<BulkQCInspection[]> {
+  const { data, error } = await supabase
+    .from('bulk_qc_inspections')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[AQL] Failed to fetch inspections:', error);
+    return [];
+  }
+
+  return (data || []) as BulkQCInspection[];
+}
+
+/**
+ * Record an inspection of the bulk lot (manufacturer). The database recomputes the plan
+ * and result from the order.
+ */
+export async function recordBulkQCInspection(
+  order: AqlOrder,
+  counts: InspectionCounts,
+  notes?: string
+): Promise<AqlResult<BulkQCInspection>> {
+  const plan = getOrderAqlPlan(order);
+  const validation = validateInspectionCounts(plan, counts);
+  if (!validation.valid) {
+    return { success: false, error: validation.reason };
+  }
+
+  const { data, error } = await supabase
+    .from('bulk_qc_inspections')
+    .insert({
+      order_id: order.id,
+      lot_size: plan.lotSize,
+      inspection_level: plan.level,
+      aql_major: plan.classes.major.aql,
+      aql_minor: plan.classes.minor.aql,
+      sample_size: plan.sampleSize,
+      critical_accept: plan.classes.critical.accept,
+      major_accept: plan.classes.major.accept,
+      minor_accept: plan.classes.minor.accept,
+      inspected_count: counts.inspectedCount,
+      critical_found: counts.criticalFound,
+      major_found: counts.majorFound,
+      minor_found: counts.minorFound,
+      result: evaluateInspection(plan, counts).result,
+      notes: notes?.trim() || null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[AQL] Failed to record inspection:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: data as BulkQCInspection };
+}
+
+/**
+ * Change the order's sampling plan (buyer or admin), until the first inspection
+ */
+export async function updateOrderAqlSettings(
+  orderId: string,
+  settings: { level: InspectionLevel; major: number; minor: number }
+): Promise<AqlResult> {
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      qc_inspection_level: settings.level,
+      qc_aql_major: settings.major,
+      qc_aql_minor: settings.minor,
+    })
+    .eq('id', orderId);
+
+  if (error) {
+    console.error('[AQL] Failed to update sampling plan:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
@@ -3,13 +3,15 @@
  * 
  * Enforces state transitions for bulk QC workflow:
  * - Manufacturer must upload bulk QC video for BULK_QC_UPLOADED
+ * - Manufacturer must record a passing AQL inspection (aqlSampling.ts) before BULK_QC_UPLOADED
  * - BULK_QC_UPLOADED required before READY_FOR_DISPATCH
- * - Buyer must Approve or Reject bulk QC
+ * - Buyer must Approve or Reject bulk QC; approval follows the latest AQL inspection
+ * - Approval is blocked while a piece on the latest measurement sheet is out of tolerance
  * - Rejection requires mandatory reason
  * - All actions timestamped and logged
  * 
  * Bulk QC video requirements:
- * - Randomly sampled units
+ * - Randomly drawn AQL sample (size from the sampling plan)
  * - Front + back views
  * - Print + stitching quality
  * - Packaging proof (sealed cartons, quantity visible)
@@ -18,6 +20,8 @@
  */
 
 import { OrderState, canTransition } from './orderStateMachineV2';
+import { BulkQCInspection, DEFECT_CLASS_LABELS, getFailedClasses } from './aqlSampling';
+import { QCMeasurement, summarizeMeasurements } from './qcMeasurements';
 
 export interface BulkQCOrder {
   id: string;
@@ -35,13 +39,15 @@ export interface BulkQCOrder {
 export interface BulkQCTransitionResult {
   allowed: boolean;
   reason?: string;
+  // Outcome of the latest AQL inspection, when one was recorded
+  aqlResult?: 'pass' | 'fail';
 }
 
 /**
  * Bulk QC video requirements checklist
  */
 export const BULK_QC_REQUIREMENTS = [
-  'Randomly sampled units from the batch',
+  'Randomly drawn AQL sample - the number of pieces set by the sampling plan',
   'Front and back views of products',
   'Print quality close-up',
   'Stitching quality close-up',
@@ -66,6 +72,36 @@ export function canUploadBulkQC(order: BulkQCOrder): BulkQCTransitionResult {
   return { allowed: true };
 }
 
+/**
+ * Check if the manufacturer can submit bulk QC for review
+ * Requires: a passing AQL inspection recorded since the last submission
+ */
+export function canSubmitBulkQC(order: BulkQCOrder, latestInspection?: BulkQCInspection | null): BulkQCTransitionResult {
+  const uploadCheck = canUploadBulkQC(order);
+  if (!uploadCheck.allowed) {
+    return uploadCheck;
+  }
+
+  const isCurrent = latestInspection
+    && (!order.bulk_qc_uploaded_at || new Date(latestInspection.created_at) > new Date(order.bulk_qc_uploaded_at));
+  if (!latestInspection || !isCurrent) {
+    return {
+      allowed: false,
+      reason: 'Record the AQL inspection of the bulk lot before submitting bulk QC.',
+    };
+  }
+
+  if (latestInspection.result !== 'pass') {
+    return {
+      allowed: false,
+      reason: 'The bulk lot failed AQL inspection. Rework the lot and record a new inspection.',
+      aqlResult: 'fail',
+    };
+  }
+
+  return { allowed: true, aqlResult: 'pass' };
+}
+
 /**
  * Validate that bulk QC video is present before allowing BULK_QC_UPLOADED
  */
@@ -117,9 +153,15 @@ export function canTransitionToReadyForDispatch(order: BulkQCOrder): BulkQCTrans
 
 /**
  * Check if buyer can approve bulk QC
- * Requires: Order must be in BULK_QC_UPLOADED state with video uploaded
+ * Requires: Order must be in BULK_QC_UPLOADED state with video uploaded, and the latest
+ * AQL inspection must have passed. Orders submitted before AQL sampling have no inspection
+ * and are approved manually. No piece on the latest measurement sheet may be out of tolerance.
  */
-export function canApproveBulkQC(order: BulkQCOrder): BulkQCTransitionResult {
+export function canApproveBulkQC(
+  order: BulkQCOrder,
+  latestInspection?: BulkQCInspection | null,
+  measurements: Pick<QCMeasurement, 'size' | 'result'>[] = []
+): BulkQCTransitionResult {
   // Must have bulk QC video uploaded
   if (!order.bulk_qc_video_url) {
     return {
@@ -136,8 +178,26 @@ export function canApproveBulkQC(order: BulkQCOrder): BulkQCTransitionResult {
       reason: `Cannot approve bulk QC from current state: ${currentState}. Must be in BULK_QC_UPLOADED.`,
     };
   }
+
+  if (latestInspection && latestInspection.result !== 'pass') {
+    const failed = getFailedClasses(latestInspection).map((defectClass) => DEFECT_CLASS_LABELS[defectClass].toLowerCase());
+    return {
+      allowed: false,
+      reason: `Cannot approve: the lot failed AQL inspection (${failed.join(', ')} defects over the accept number).`,
+      aqlResult: 'fail',
+    };
+  }
+
+  const measured = summarizeMeasurements(measurements);
+  if (measured.failed > 0) {
+    return {
+      allowed: false,
+      reason: `Cannot approve: ${measured.failed} of ${measured.pieces} measured pieces are out of tolerance.`,
+      aqlResult: latestInspection ? 'pass' : undefined,
+    };
+  }
   
-  return { allowed: true };
+  return { allowed: true, aqlResult: latestInspection ? 'pass' : undefined };
 }
 
 /**
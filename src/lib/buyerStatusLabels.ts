@@ -27,6 +27,8 @@ export const orderStateLabels: Record<string, string> = {
   DISPATCHED: 'Shipped',
   DELIVERED: 'Delivered',
   COMPLETED: 'Completed',
+  ON_HOLD: 'On Hold',
+  CANCELLED: 'Cancelled',
 };
 
 /**
@@ -49,6 +51,8 @@ export const orderStateColors: Record<string, string> = {
   DISPATCHED: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300',
   DELIVERED: 'bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300',
   COMPLETED: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300',
+  ON_HOLD: 'bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  CANCELLED: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
 };
 
 /**
@@ -0,0 +1,272 @@
+/**
+ * Courier Integration (client)
+ *
+ * Wrapper around the courier-shipment edge function plus shipment / scan history
+ * queries. The courier (Shiprocket or the local mock courier) is selected
+ * server-side by COURIER_PROVIDER.
+ *
+ * Rules:
+ * - Booking a courier moves a shipment PACKED → PICKUP_SCHEDULED (admin); split orders
+ *   book each planned shipment (see lib/deliveryPlan.ts)
+ * - IN_TRANSIT and DELIVERED are applied ONLY from tracking scans, as the system actor
+ *   (courier-webhook, or polling through syncShipmentTracking)
+ * - Duplicate scans are recorded but never applied twice
+ * - Manual courier entry remains for shipments booked outside the integration
+ * - RMA return and replacement shipments use the same flow but are kept out of the
+ *   order's own shipments (see lib/rma.ts)
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { DeliveryState } from "./deliveryStateMachine";
+import type { ShipmentAddress, ShipmentAllocation } from "./deliveryPlan";
+
+export type CourierProviderName = 'shiprocket' | 'mock';
+
+// RMA returns travel buyer -> manufacturer; everything else is outbound
+export type ShipmentDirection = 'outbound' | 'return';
+
+export type TrackingStatus =
+  | 'pickup_scheduled'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception'
+  | 'rto'
+  | 'cancelled';
+
+// Planned shipments of a split order have no provider / AWB until booked.
+// RMA shipments (rma_id set) are the return pickup or the replacements of an RMA.
+export interface Shipment {
+  id: string;
+  order_id: string;
+  rma_id: string | null;
+  direction: ShipmentDirection;
+  label: string | null;
+  delivery_status: DeliveryState;
+  quantity: number | null;
+  allocation: Partial<ShipmentAllocation>;
+  delivery_address: ShipmentAddress;
+  provider: string | null;
+  provider_shipment_id: string | null;
+  awb_code: string | null;
+  courier_name: string | null;
+  label_url: string | null;
+  status: string | null;
+  weight_kg: number | null;
+  pickup_scheduled_for: string | null;
+  pickup_scheduled_at: string | null;
+  in_transit_at: string | null;
+  last_event_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export interface ShipmentTrackingEvent {
+  id: string;
+  shipment_id: string | null;
+  awb_code: string;
+  status: string;
+  raw_status: string | null;
+  location: string | null;
+  description: string | null;
+  occurred_at: string;
+}
+
+export interface CourierResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  pickup_scheduled: 'Pickup Scheduled',
+  picked_up: 'Picked Up',
+  in_transit: 'In Transit',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery Exception',
+  rto: 'Returning to Origin',
+  cancelled: 'Cancelled',
+};
+
+export const getTrackingStatusLabel = (status: string) =>
+  TRACKING_STATUS_LABELS[status as TrackingStatus] || status;
+
+async function invokeCourier<T>(body: Record<string, unknown>): Promise<{ data: T | null; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('courier-shipment', { body });
+
+  if (error) {
+    console.error(`[Courier] ${body.action} failed:`, error);
+    return { data: null, error: error.message };
+  }
+  if (data?.error) {
+    return { data: null, error: data.error };
+  }
+  return { data: data as T };
+}
+
+const SHIPMENT_COLUMNS = 'id, order_id, rma_id, direction, label, delivery_status, quantity, allocation, delivery_address, provider, provider_shipment_id, awb_code, courier_name, label_url, status, weight_kg, pickup_scheduled_for, pickup_scheduled_at, in_transit_at, last_event_at, delivered_at, created_at';
+
+/**
+ * Fetch the shipments of an order, in plan order (RMA shipments excluded)
+ */
+export async function fetchOrderShipments(orderId: string): Promise<Shipment[]> {
+  const { data, error } = await supabase
+    .from('shipments')
+    .select(SHIPMENT_COLUMNS)
+    .eq('order_id', orderId)
+    .is('rma_id', null)
+    .order('created_at', { ascending: true })
+    .order('label', { ascending: true });
+
+  if (error) {
+    console.error('[Courier] Failed to fetch shipments:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as Shipment[];
+}
+
+/**
+ * Fetch the return and replacement shipments of RMAs
+ */
+export async function fetchRmaShipments(rmaIds: string[]): Promise<Shipment[]> {
+  if (rmaIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('shipments')
+    .select(SHIPMENT_COLUMNS)
+    .in('rma_id', rmaIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[Courier] Failed to fetch RMA shipments:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as Shipment[];
+}
+
+/**
+ * Fetch the scan history of shipments, newest scan first
+ */
+export async function fetchShipmentTrackingEvents(shipmentIds: string[]): Promise<ShipmentTrackingEvent[]> {
+  if (shipmentIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('shipment_tracking_events')
+    .select('id, shipment_id, awb_code, status, raw_status, location, description, occurred_at')
+    .in('shipment_id', shipmentIds)
+    .order('occurred_at', { ascending: false });
+
+  if (error) {
+    console.error('[Courier] Failed to fetch tracking events:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Book a PACKED order with the configured courier (admin) - a planned shipment of a
+ * split order when shipmentId is given. Weight is estimated from the pieces unless
+ * given in kg.
+ */
+export async function createCourierShipment(
+  orderId: string,
+  weightKg?: number,
+  shipmentId?: string
+): Promise<CourierResult<{ awbCode: string; courierName: string }>> {
+  const { data, error } = await invokeCourier<{ awb_code: string; courier_name: string }>({
+    action: 'create_shipment',
+    order_id: orderId,
+    shipment_id: shipmentId,
+    weight_kg: weightKg,
+  });
+
+  if (!data) {
+    return { success: false, error: error || 'Failed to book courier' };
+  }
+
+  return { success: true, data: { awbCode: data.awb_code, courierName: data.courier_name } };
+}
+
+/**
+ * Book an RMA's return pickup or replacement shipment with the configured courier (admin)
+ */
+export async function createRmaCourierShipment(
+  rmaId: string,
+  direction: ShipmentDirection,
+  weightKg?: number
+): Promise<CourierResult<{ awbCode: string; courierName: string }>> {
+  const { data, error } = await invokeCourier<{ awb_code: string; courier_name: string }>({
+    action: 'create_rma_shipment',
+    rma_id: rmaId,
+    direction,
+    weight_kg: weightKg,
+  });
+
+  if (!data) {
+    return { success: false, error: error || 'Failed to book courier' };
+  }
+
+  return { success: true, data: { awbCode: data.awb_code, courierName: data.courier_name } };
+}
+
+/**
+ * Download the shipping label; hosted labels open in a new tab
+ */
+export async function downloadShipmentLabel(shipment: Shipment): Promise<CourierResult> {
+  const { data, error } = await supabase.functions.invoke('courier-shipment', {
+    body: { action: 'get_label', shipment_id: shipment.id },
+  });
+
+  if (error) {
+    console.error('[Courier] Label failed:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (data instanceof Blob) {
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `label-${shipment.awb_code}.pdf`;
+    link.click();
+    URL.revokeObjectURL(url);
+    return { success: true };
+  }
+
+  if (data?.label_url) {
+    window.open(data.label_url, '_blank', 'noopener');
+    return { success: true };
+  }
+
+  return { success: false, error: data?.error || 'Failed to fetch label' };
+}
+
+/**
+ * Poll the courier for new scans and apply them (admin)
+ */
+export async function syncShipmentTracking(shipmentId: string): Promise<CourierResult<number>> {
+  const { data, error } = await invokeCourier<{ events: number }>({ action: 'sync', shipment_id: shipmentId });
+
+  if (!data) {
+    return { success: false, error: error || 'Failed to sync tracking' };
+  }
+
+  return { success: true, data: data.events };
+}
+
+/**
+ * Push the next scan of a mock courier shipment through the webhook (admin)
+ */
+export async function simulateCourierScan(shipmentId: string): Promise<CourierResult> {
+  const { data, error } = await invokeCourier<{ step: number }>({ action: 'simulate_scan', shipment_id: shipmentId });
+
+  if (!data) {
+    return { success: false, error: error || 'Failed to simulate scan' };
+  }
+
+  return { success: true };
+}
@@ -1,81 +1,29 @@
-// Delivery cost calculation based on weight slabs
-
-interface DeliveryCostParams {
-  productType: string;
-  quantity: number;
-  buyerPincode?: string;
-  manufacturerPincode?: string;
-}
-
-interface DeliveryCostResult {
+// Delivery cost calculation by pincode zone, carton packing and volumetric weight.
+// The rating itself is shared with the price-quote edge function, which charges the
+// same amount on the signed quote.
+
+import {
+  rateDelivery,
+  type DeliveryRate,
+  type DeliveryRateParams,
+} from "../../supabase/functions/_shared/pricing/delivery.ts";
+
+export {
+  DEFAULT_ORIGIN_PINCODE,
+  DELIVERY_ZONE_LABELS,
+  getPincodeServiceability,
+  isValidPincode,
+} from "../../supabase/functions/_shared/pricing/delivery.ts";
+export type { DeliveryRate, DeliveryZone } from "../../supabase/functions/_shared/pricing/delivery.ts";
+
+interface DeliveryCostResult extends DeliveryRate {
+  // Chargeable weight (higher of actual and volumetric)
   weight: number;
-  cost: number;
-  slabs: number;
 }
 
-// Product weights in kg
-const PRODUCT_WEIGHTS: Record<string, number> = {
-  "t-shirts": 0.25,
-  "t-shirt": 0.25,
-  "hoodies": 0.60,
-  "hoodie": 0.60,
-  "caps": 0.15,
-  "cap": 0.15,
-  "bags": 0.30,
-  "bag": 0.30,
-  "jackets": 0.70,
-  "jacket": 0.70,
-  "custom": 0.25, // default
-};
-
-export const calculateDeliveryCost = ({
-  productType,
-  quantity,
-  buyerPincode,
-  manufacturerPincode,
-}: DeliveryCostParams): DeliveryCostResult => {
-  // Fixed bulk delivery cost for orders with quantity > 1
-  const BULK_DELIVERY_COST = 1500;
-
-  // For bulk orders (quantity > 1), use fixed delivery cost
-  if (quantity > 1) {
-    const productWeight =
-      PRODUCT_WEIGHTS[productType.toLowerCase()] ||
-      PRODUCT_WEIGHTS["custom"];
-    const totalWeight = productWeight * quantity;
-
-    return {
-      weight: totalWeight,
-      cost: BULK_DELIVERY_COST,
-      slabs: 0, // Not applicable for bulk
-    };
-  }
-
-  // For sample orders (quantity === 1), use slab-based calculation
-  const productWeight =
-    PRODUCT_WEIGHTS[productType.toLowerCase()] ||
-    PRODUCT_WEIGHTS["custom"];
-
-  // Calculate total weight
-  const totalWeight = productWeight * quantity;
-
-  // Calculate cost using slab formula
-  let cost: number;
-  let slabs: number;
-
-  if (totalWeight <= 0.5) {
-    cost = 35;
-    slabs = 1;
-  } else {
-    slabs = Math.ceil(totalWeight / 0.5);
-    cost = 35 + (slabs - 1) * 20;
-  }
-
-  return {
-    weight: totalWeight,
-    cost,
-    slabs,
-  };
+export const calculateDeliveryCost = (params: DeliveryRateParams): DeliveryCostResult => {
+  const rate = rateDelivery(params);
+  return { ...rate, weight: rate.chargeableWeight };
 };
 
 // Format weight for display
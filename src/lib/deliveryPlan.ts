@@ -0,0 +1,206 @@
+/**
+ * Split Deliveries
+ *
+ * One production run shipped to several addresses (hostels, chapters, offices).
+ * Each planned shipment gets its own address and a share of the order's CSV roster
+ * (orders.corrected_csv_url), and is then booked, tracked and delivered on its own.
+ *
+ * Rules:
+ * - The buyer (or admin) plans the split before pickup is scheduled; re-planning
+ *   replaces the previous plan and is refused once any shipment is booked
+ * - Shipment quantities must add up to the order quantity; a roster row ships to
+ *   exactly one address
+ * - orders.delivery_status is the least advanced shipment state, so the order is
+ *   DELIVERED only when every shipment is (sync_order_delivery_from_shipments)
+ * - Couriers booked outside Leorit are entered per shipment by an admin
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { ShipmentAddress } from "../../supabase/functions/_shared/couriers/types.ts";
+import type { DeliveryState } from "./deliveryStateMachine";
+
+export type { ShipmentAddress };
+
+export interface RosterRow {
+  // Position in the roster (0-based, header excluded) - the allocation key
+  index: number;
+  values: Record<string, string>;
+  size: string | null;
+  quantity: number;
+}
+
+export interface Roster {
+  columns: string[];
+  rows: RosterRow[];
+}
+
+export interface ShipmentAllocation {
+  sizes: Record<string, number>;
+  roster_rows: number[];
+}
+
+export interface PlannedShipment {
+  label: string;
+  quantity: number;
+  address: ShipmentAddress;
+  allocation: ShipmentAllocation;
+}
+
+export interface DeliveryPlanResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+export const EMPTY_SHIPMENT_ADDRESS: ShipmentAddress = {
+  name: '',
+  phone: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  pincode: '',
+  country: 'India',
+};
+
+/**
+ * Split one CSV line, honouring quoted fields ("Doe, Jane")
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parse a roster CSV (Name,Size,Quantity plus any grouping columns such as Hostel).
+ * Rows without a Quantity column count as one piece.
+ */
+export function parseRosterCsv(text: string): Roster {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return { columns: [], rows: [] };
+
+  const columns = splitCsvLine(lines[0]);
+  const sizeColumn = columns.find((column) => column.toLowerCase() === 'size');
+  const quantityColumn = columns.find((column) => ['quantity', 'qty'].includes(column.toLowerCase()));
+
+  const rows = lines.slice(1).map((line, index) => {
+    const cells = splitCsvLine(line);
+    const values = Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']));
+    const quantity = quantityColumn ? parseInt(values[quantityColumn], 10) : 1;
+    return {
+      index,
+      values,
+      size: sizeColumn ? values[sizeColumn].toUpperCase() || null : null,
+      quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : 1,
+    };
+  });
+
+  return { columns, rows };
+}
+
+/**
+ * Download and parse the order's roster CSV; null when the order has none
+ */
+export async function fetchOrderRoster(csvPath: string | null | undefined): Promise<Roster | null> {
+  if (!csvPath) return null;
+
+  const { data, error } = await supabase.storage.from('design-files').download(csvPath);
+  if (error || !data) {
+    console.error('[DeliveryPlan] Failed to download roster:', error);
+    return null;
+  }
+
+  return parseRosterCsv(await data.text());
+}
+
+/**
+ * Pieces and size breakdown of a set of roster rows
+ */
+export function summarizeRosterRows(rows: RosterRow[]): { quantity: number; sizes: Record<string, number> } {
+  const sizes: Record<string, number> = {};
+  let quantity = 0;
+  for (const row of rows) {
+    quantity += row.quantity;
+    if (row.size) sizes[row.size] = (sizes[row.size] || 0) + row.quantity;
+  }
+  return { quantity, sizes };
+}
+
+/**
+ * Group roster rows by a column (e.g. Hostel) - one planned shipment per value
+ */
+export function groupRosterBy(roster: Roster, column: string): Map<string, RosterRow[]> {
+  const groups = new Map<string, RosterRow[]>();
+  for (const row of roster.rows) {
+    const key = row.values[column]?.trim() || 'Unassigned';
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return groups;
+}
+
+export const formatSizeBreakdown = (sizes: Record<string, number>) =>
+  Object.entries(sizes).map(([size, count]) => `${size} × ${count}`).join(', ');
+
+/**
+ * Replace the order's delivery plan (buyer or admin, before anything is booked)
+ */
+export async function setOrderDeliveryPlan(
+  orderId: string,
+  shipments: PlannedShipment[]
+): Promise<DeliveryPlanResult<number>> {
+  const { data, error } = await supabase.rpc('set_order_delivery_plan', {
+    _order_id: orderId,
+    _shipments: JSON.parse(JSON.stringify(shipments)),
+  });
+
+  if (error) {
+    console.error('[DeliveryPlan] Failed to save plan:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: data as number };
+}
+
+/**
+ * Move one shipment booked outside Leorit forward (admin).
+ * PICKUP_SCHEDULED needs the courier name and tracking ID.
+ */
+export async function updateShipmentDeliveryStatus(
+  shipmentId: string,
+  toState: Extract<DeliveryState, 'PICKUP_SCHEDULED' | 'IN_TRANSIT' | 'DELIVERED'>,
+  courier?: { courierName: string; trackingId: string }
+): Promise<DeliveryPlanResult> {
+  const { error } = await supabase.rpc('update_shipment_delivery_status', {
+    _shipment_id: shipmentId,
+    _to_state: toState,
+    _courier_name: courier?.courierName,
+    _tracking_id: courier?.trackingId,
+  });
+
+  if (error) {
+    console.error('[DeliveryPlan] Failed to update shipment:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
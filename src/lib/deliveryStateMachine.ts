@@ -3,19 +3,28 @@
  * 
  * Delivery States:
  * - PACKED: Manufacturer marks order as packed, uploads packaging video
- * - PICKUP_SCHEDULED: Admin assigns courier and schedules pickup
+ * - PICKUP_SCHEDULED: Admin books the courier (or enters courier + tracking ID)
  * - IN_TRANSIT: Order is in transit with carrier
  * - DELIVERED: Order delivered to buyer
  * 
  * Rules:
  * - Manufacturer can ONLY mark PACKED & upload packaging video
- * - Admin assigns courier + tracking ID (PICKUP_SCHEDULED, IN_TRANSIT)
+ * - Admin books the courier (PICKUP_SCHEDULED)
+ * - IN_TRANSIT / DELIVERED follow courier tracking scans as the system actor
+ *   (apply_courier_tracking_event, see lib/courier.ts); admin can still set them manually
+ * - Admin marks DELIVERED manually only after proof of delivery (buyer's OTP, see
+ *   lib/proofOfDelivery.ts)
+ * - Split orders (lib/deliveryPlan.ts) run this machine per shipment; the order's
+ *   delivery_status is the least advanced shipment, so DELIVERED means all delivered
  * - Buyer sees tracking INSIDE Leorit only
  * - No direct buyer-manufacturer delivery coordination
  * 
- * This is ADD-ONLY enforcement logic. No external integrations.
+ * This is ADD-ONLY enforcement logic.
+ * Transitions and permissions are defined in orderWorkflow.ts.
  */
 
+import { DELIVERY_WORKFLOW, buildTransitionMap, buildTransitionPermissions } from './orderWorkflow';
+
 export type DeliveryState = 
   | 'NOT_STARTED'
   | 'PACKED'
@@ -37,6 +46,7 @@ export interface DeliveryOrder {
   courier_name?: string | null;
   pickup_scheduled_at?: string | null;
   in_transit_at?: string | null;
+  pod_confirmed_at?: string | null;
 }
 
 export interface DeliveryTransitionResult {
@@ -45,25 +55,14 @@ export interface DeliveryTransitionResult {
 }
 
 /**
- * Valid delivery state transitions
+ * Valid delivery state transitions (from the shared workflow definition)
  */
-const VALID_TRANSITIONS: Record<DeliveryState, DeliveryState[]> = {
-  'NOT_STARTED': ['PACKED'],
-  'PACKED': ['PICKUP_SCHEDULED'],
-  'PICKUP_SCHEDULED': ['IN_TRANSIT'],
-  'IN_TRANSIT': ['DELIVERED'],
-  'DELIVERED': [], // Terminal state
-};
+const VALID_TRANSITIONS: Record<DeliveryState, DeliveryState[]> = buildTransitionMap(DELIVERY_WORKFLOW);
 
 /**
  * Who can perform each transition
  */
-const TRANSITION_PERMISSIONS: Record<string, ActorRole[]> = {
-  'NOT_STARTED->PACKED': ['manufacturer'],
-  'PACKED->PICKUP_SCHEDULED': ['admin'],
-  'PICKUP_SCHEDULED->IN_TRANSIT': ['admin', 'system'],
-  'IN_TRANSIT->DELIVERED': ['admin', 'system'],
-};
+const TRANSITION_PERMISSIONS: Record<string, ActorRole[]> = buildTransitionPermissions(DELIVERY_WORKFLOW);
 
 /**
  * Check if a delivery state transition is valid
@@ -222,6 +221,14 @@ export function canAdminMarkDelivered(order: DeliveryOrder): DeliveryTransitionR
     };
   }
 
+  // Proof the buyer received the goods, not just admin intent
+  if (!order.pod_confirmed_at) {
+    return {
+      allowed: false,
+      reason: "Confirm delivery with the buyer's OTP before marking delivered.",
+    };
+  }
+
   return canActorPerformTransition(currentDeliveryState, 'DELIVERED', 'admin');
 }
 
@@ -1,7 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 
-export type EvidenceStage = 'sample' | 'bulk' | 'delivery' | 'specification';
-export type UploaderRole = 'buyer' | 'manufacturer' | 'admin';
+export type EvidenceStage = 'sample' | 'bulk' | 'delivery' | 'specification' | 'post_delivery';
+export type UploaderRole = 'buyer' | 'manufacturer' | 'admin' | 'courier';
 
 export interface EvidenceItem {
   orderId: string;
@@ -192,6 +192,33 @@ export async function storeGoogleDriveEvidence(
   });
 }
 
+/**
+ * Store a buyer's photos of damaged / wrong pieces raised in a return (RMA)
+ */
+export async function storeRmaEvidence(
+  orderId: string,
+  buyerId: string,
+  rmaId: string,
+  reason: string,
+  files: { url: string; name: string }[]
+): Promise<void> {
+  const evidenceItems: EvidenceItem[] = files.map(file => ({
+    orderId,
+    evidenceType: 'rma_photo',
+    stage: 'post_delivery' as EvidenceStage,
+    fileUrl: file.url,
+    fileName: file.name,
+    uploaderRole: 'buyer' as UploaderRole,
+    uploaderId: buyerId,
+    metadata: {
+      rma_id: rmaId,
+      reason,
+    }
+  }));
+
+  await storeMultipleEvidence(evidenceItems);
+}
+
 /**
  * Get all evidence for an order
  */
@@ -1,7 +1,7 @@
+// Fabric catalogue. Prices per fabric live in the active price book (price_book_fabrics).
 export interface FabricOption {
   id: string;
   label: string;
-  unit_price_bulk: number;
   weight: number; // in kg
   category: 'hoodie' | 't-shirt' | 'default';
 }
@@ -11,21 +11,18 @@ export const FABRIC_OPTIONS: FabricOption[] = [
   {
     id: 'hoodie-400gsm',
     label: '400 GSM Fleece',
-    unit_price_bulk: 380,
     weight: 0.60,
     category: 'hoodie'
   },
   {
     id: 'hoodie-350gsm',
     label: '350 GSM Fleece',
-    unit_price_bulk: 320,
     weight: 0.60,
     category: 'hoodie'
   },
   {
     id: 'hoodie-300gsm',
     label: '300 GSM Fleece',
-    unit_price_bulk: 280,
     weight: 0.60,
     category: 'hoodie'
   },
@@ -33,21 +30,18 @@ export const FABRIC_OPTIONS: FabricOption[] = [
   {
     id: 'tshirt-240gsm',
     label: '240 GSM Combed Cotton',
-    unit_price_bulk: 260,
     weight: 0.25,
     category: 't-shirt'
   },
   {
     id: 'tshirt-220gsm',
     label: '220 GSM Cotton',
-    unit_price_bulk: 235,
     weight: 0.25,
     category: 't-shirt'
   },
   {
     id: 'tshirt-180gsm',
     label: '180 GSM Cotton',
-    unit_price_bulk: 210,
     weight: 0.25,
     category: 't-shirt'
   },
@@ -55,7 +49,6 @@ export const FABRIC_OPTIONS: FabricOption[] = [
   {
     id: 'custom-default',
     label: 'Custom (default pricing)',
-    unit_price_bulk: 380,
     weight: 0.25,
     category: 'default'
   }
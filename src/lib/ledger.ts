@@ -0,0 +1,156 @@
+/**
+ * Double-Entry Ledger
+ *
+ * Every payment state transition posts a balanced entry (database triggers,
+ * see ledger_post_order_event). Per order, with T = order value,
+ * D = delivery cost, C = platform commission:
+ *
+ *   order_invoiced     Dr Buyer Receivable T   Cr Manufacturer Payable T-C-D, Platform Commission C, Courier Cost D
+ *   payment_captured   Dr Escrow T             Cr Buyer Receivable T
+ *   milestone_released Dr Manufacturer Payable / Platform Cash / Courier Cost (pro rata)   Cr Escrow
+ *   partial_refund     Dr Manufacturer Payable Cr Escrow
+ *   settlement         clears remaining payables out of escrow (PAYMENT_RELEASED)
+ *   reversal           reverses what is still owed (PAYMENT_REFUNDED / cancelled before payment)
+ *
+ * Rules:
+ * - The ledger is written only by the database; the client is read-only
+ * - Entries are idempotent per (order, entry type, source)
+ * - check_ledger_consistency flags orders whose balances don't match payment_state
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type LedgerAccountCode =
+  | 'buyer_receivable'
+  | 'escrow'
+  | 'platform_cash'
+  | 'manufacturer_payable'
+  | 'courier_cost'
+  | 'platform_commission';
+
+export type LedgerEntryType =
+  | 'order_invoiced'
+  | 'payment_captured'
+  | 'milestone_released'
+  | 'partial_refund'
+  | 'settlement'
+  | 'reversal';
+
+export type LedgerIssueType =
+  | 'missing_capture_entry'
+  | 'escrow_mismatch'
+  | 'receivable_outstanding'
+  | 'escrow_not_cleared'
+  | 'payables_not_settled'
+  | 'escrow_without_payment'
+  | 'unbalanced_entry';
+
+export interface TrialBalanceRow {
+  account_code: LedgerAccountCode;
+  account_name: string;
+  account_type: string;
+  normal_balance: 'debit' | 'credit';
+  total_debit: number;
+  total_credit: number;
+  balance: number;
+}
+
+export interface LedgerLine {
+  id: string;
+  account_code: LedgerAccountCode;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerEntry {
+  id: string;
+  order_id: string;
+  entry_type: LedgerEntryType;
+  source_id: string;
+  memo: string | null;
+  created_at: string;
+  lines: LedgerLine[];
+}
+
+export interface LedgerIssue {
+  order_id: string;
+  payment_state: string;
+  issue: LedgerIssueType;
+  expected: number | null;
+  actual: number | null;
+}
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  order_invoiced: 'Order Invoiced',
+  payment_captured: 'Payment Captured',
+  milestone_released: 'Milestone Released',
+  partial_refund: 'Partial Refund',
+  settlement: 'Settlement',
+  reversal: 'Reversal',
+};
+
+export const LEDGER_ISSUE_LABELS: Record<LedgerIssueType, string> = {
+  missing_capture_entry: 'Payment captured but not posted',
+  escrow_mismatch: 'Escrow balance differs from refundable balance',
+  receivable_outstanding: 'Buyer receivable open after payment',
+  escrow_not_cleared: 'Escrow not cleared after release / refund',
+  payables_not_settled: 'Payables open after release / refund',
+  escrow_without_payment: 'Escrow holds money without a captured payment',
+  unbalanced_entry: 'Entry debits and credits differ',
+};
+
+/**
+ * Balance in the account's natural direction (credit accounts positive when credited)
+ */
+export function getNaturalBalance(row: Pick<TrialBalanceRow, 'balance' | 'normal_balance'>): number {
+  return row.normal_balance === 'credit' ? -Number(row.balance) : Number(row.balance);
+}
+
+/**
+ * Fetch the platform-wide trial balance, in chart-of-accounts order
+ */
+export async function fetchTrialBalance(): Promise<TrialBalanceRow[]> {
+  const { data, error } = await supabase
+    .from('ledger_trial_balance')
+    .select('account_code, account_name, account_type, normal_balance, total_debit, total_credit, balance')
+    .order('sort_order');
+
+  if (error) {
+    console.error('[Ledger] Failed to fetch trial balance:', error);
+    return [];
+  }
+
+  return (data || []) as TrialBalanceRow[];
+}
+
+/**
+ * Fetch an order's ledger entries with their lines, oldest first
+ */
+export async function fetchOrderLedger(orderId: string): Promise<LedgerEntry[]> {
+  const { data, error } = await supabase
+    .from('ledger_entries')
+    .select('id, order_id, entry_type, source_id, memo, created_at, lines:ledger_lines(id, account_code, debit, credit)')
+    .eq('order_id', orderId)
+    .order('created_at');
+
+  if (error) {
+    console.error('[Ledger] Failed to fetch order ledger:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as LedgerEntry[];
+}
+
+/**
+ * Run the consistency checker across all orders (admin)
+ */
+export async function checkLedgerConsistency(): Promise<{ issues: LedgerIssue[]; error?: string }> {
+  const { data, error } = await supabase.rpc('check_ledger_consistency');
+
+  if (error) {
+    console.error('[Ledger] Consistency check failed:', error);
+    return { issues: [], error: error.message };
+  }
+
+  return { issues: (data || []) as LedgerIssue[] };
+}
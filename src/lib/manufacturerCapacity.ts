@@ -0,0 +1,483 @@
+/**
+ * Manufacturer Capacity Calendar
+ *
+ * Structured capacity (pieces/day per category) and blackout dates per manufacturer.
+ * The sync_production_booking trigger books an order's quantity between
+ * PAYMENT_CONFIRMED and expected_deadline; bookings are released once production
+ * is finished (READY_FOR_DISPATCH onwards) or the order is cancelled.
+ *
+ * Rules:
+ * - A booking's quantity is spread evenly over its working days (blackouts excluded)
+ * - Bookings only consume capacity of the category they resolve to
+ * - No deadline = DEFAULT_PRODUCTION_WINDOW_DAYS from today
+ * - Capacity checks warn, they never block an assignment
+ */
+
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { getRequiredCategories, RoutingOrder } from "./manufacturerRouting";
+
+// Matches the trigger's fallback window when an order has no expected_deadline
+export const DEFAULT_PRODUCTION_WINDOW_DAYS = 30;
+
+// Onboarding form categories a manufacturer can declare capacity for
+export const CAPACITY_CATEGORIES = [
+  'T-Shirts',
+  'Hoodies',
+  'Apparel Stitching',
+  'Printing (DTF / Screen / Sublimation)',
+  'Fabric Processing',
+  'Fabric Supply',
+] as const;
+
+// How far ahead the earliest-finish simulation looks before giving up
+const MAX_SCHEDULE_HORIZON_DAYS = 365;
+
+export interface CapacityEntry {
+  id: string;
+  manufacturer_id: string;
+  category: string;
+  pieces_per_day: number;
+}
+
+export interface BlackoutDate {
+  id: string;
+  manufacturer_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+}
+
+export interface ProductionBooking {
+  id: string;
+  order_id: string;
+  manufacturer_id: string;
+  product_type: string | null;
+  quantity: number;
+  start_date: string;
+  end_date: string;
+  released_at: string | null;
+}
+
+export interface CalendarDay {
+  date: string;
+  capacity: number;
+  booked: number;
+  blackout: boolean;
+}
+
+export interface CapacityOrder extends RoutingOrder {
+  expected_deadline?: string | null;
+}
+
+export interface RemainingCapacity {
+  category: string;
+  // Pieces the category can make over the window, blackouts excluded
+  windowCapacity: number;
+  // Spare pieces after existing bookings
+  remaining: number;
+  windowDays: number;
+}
+
+export interface CapacityCheck {
+  hasCapacityModel: boolean;
+  category: string | null;
+  piecesPerDay: number | null;
+  overbookedDays: number;
+  peakUtilization: number;
+  estimatedCompletion: string | null;
+  deadline: string | null;
+  warnings: string[];
+}
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const today = () => toDateKey(new Date());
+
+/**
+ * Whether a date (yyyy-MM-dd) falls inside any blackout range
+ */
+export function isBlackoutDate(date: string, blackouts: BlackoutDate[]): boolean {
+  return blackouts.some(b => date >= b.start_date && date <= b.end_date);
+}
+
+/**
+ * Working days (yyyy-MM-dd) between two dates inclusive, blackouts excluded
+ */
+export function getWorkingDays(startDate: string, endDate: string, blackouts: BlackoutDate[]): string[] {
+  const days: string[] = [];
+  for (let day = parseISO(startDate); toDateKey(day) <= endDate; day = addDays(day, 1)) {
+    const key = toDateKey(day);
+    if (!isBlackoutDate(key, blackouts)) days.push(key);
+  }
+  return days;
+}
+
+/**
+ * Pieces per day a booking consumes, keyed by date.
+ * A booking with no working days lands entirely on its start date.
+ */
+export function getBookingDailyLoad(
+  booking: Pick<ProductionBooking, 'quantity' | 'start_date' | 'end_date'>,
+  blackouts: BlackoutDate[]
+): Record<string, number> {
+  const workingDays = getWorkingDays(booking.start_date, booking.end_date, blackouts);
+  if (workingDays.length === 0) {
+    return { [booking.start_date]: booking.quantity };
+  }
+
+  const perDay = booking.quantity / workingDays.length;
+  return Object.fromEntries(workingDays.map(day => [day, perDay]));
+}
+
+/**
+ * Capacity row that serves an order: first required category the manufacturer has on file
+ */
+export function resolveCapacityEntry(
+  order: Pick<RoutingOrder, 'product_type' | 'product_category' | 'buyer_purpose'>,
+  capacity: CapacityEntry[]
+): CapacityEntry | null {
+  const required = getRequiredCategories({ id: '', quantity: null, ...order });
+  for (const category of required) {
+    const entry = capacity.find(c => c.category.toLowerCase() === category.toLowerCase());
+    if (entry) return entry;
+  }
+  return null;
+}
+
+/**
+ * Day-by-day capacity vs booked pieces for one category
+ */
+export function buildProductionCalendar(
+  entry: CapacityEntry,
+  capacity: CapacityEntry[],
+  bookings: ProductionBooking[],
+  blackouts: BlackoutDate[],
+  fromDate: string,
+  days: number
+): CalendarDay[] {
+  const booked: Record<string, number> = {};
+  bookings
+    .filter(booking => resolveCapacityEntry({ product_type: booking.product_type }, capacity)?.id === entry.id)
+    .forEach(booking => {
+      Object.entries(getBookingDailyLoad(booking, blackouts)).forEach(([day, load]) => {
+        booked[day] = (booked[day] || 0) + load;
+      });
+    });
+
+  const calendar: CalendarDay[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = toDateKey(addDays(parseISO(fromDate), i));
+    const blackout = isBlackoutDate(date, blackouts);
+    calendar.push({
+      date,
+      capacity: blackout ? 0 : entry.pieces_per_day,
+      booked: Math.round(booked[date] || 0),
+      blackout,
+    });
+  }
+  return calendar;
+}
+
+/**
+ * Spare pieces for an order's category over the next production window, after existing bookings.
+ * Null when the manufacturer has no structured capacity for the order's categories.
+ */
+export function getRemainingCapacity(
+  order: Pick<RoutingOrder, 'product_type' | 'product_category' | 'buyer_purpose'>,
+  capacity: CapacityEntry[],
+  bookings: ProductionBooking[],
+  blackouts: BlackoutDate[],
+  fromDate: string = today(),
+  days: number = DEFAULT_PRODUCTION_WINDOW_DAYS
+): RemainingCapacity | null {
+  const entry = resolveCapacityEntry(order, capacity);
+  if (!entry) return null;
+
+  const calendar = buildProductionCalendar(entry, capacity, bookings, blackouts, fromDate, days);
+  return {
+    category: entry.category,
+    windowCapacity: calendar.reduce((sum, day) => sum + day.capacity, 0),
+    remaining: calendar.reduce((sum, day) => sum + Math.max(0, day.capacity - day.booked), 0),
+    windowDays: days,
+  };
+}
+
+/**
+ * Remaining capacity of several manufacturers for one order, keyed by manufacturer.
+ * Manufacturers without structured capacity for the order are left out.
+ */
+export async function fetchRemainingCapacities(
+  order: RoutingOrder,
+  manufacturerIds: string[]
+): Promise<Map<string, RemainingCapacity>> {
+  const remaining = new Map<string, RemainingCapacity>();
+  if (manufacturerIds.length === 0) return remaining;
+
+  const [{ data: capacity, error: capacityError }, { data: blackouts }, { data: bookings }] = await Promise.all([
+    supabase
+      .from('manufacturer_capacity')
+      .select('id, manufacturer_id, category, pieces_per_day')
+      .in('manufacturer_id', manufacturerIds),
+    supabase
+      .from('manufacturer_blackout_dates')
+      .select('id, manufacturer_id, start_date, end_date, reason')
+      .in('manufacturer_id', manufacturerIds)
+      .gte('end_date', today()),
+    supabase
+      .from('production_bookings')
+      .select('id, order_id, manufacturer_id, product_type, quantity, start_date, end_date, released_at')
+      .in('manufacturer_id', manufacturerIds)
+      .is('released_at', null)
+      .gte('end_date', today()),
+  ]);
+
+  if (capacityError) {
+    console.error('[Capacity] Failed to fetch capacity:', capacityError);
+    return remaining;
+  }
+
+  for (const manufacturerId of manufacturerIds) {
+    const result = getRemainingCapacity(
+      order,
+      (capacity || []).filter(c => c.manufacturer_id === manufacturerId),
+      // The order's own booking (re-assignment) must not count against it
+      (bookings || []).filter(b => b.manufacturer_id === manufacturerId && b.order_id !== order.id),
+      (blackouts || []).filter(b => b.manufacturer_id === manufacturerId)
+    );
+    if (result) remaining.set(manufacturerId, result);
+  }
+
+  return remaining;
+}
+
+/**
+ * Fetch capacity rows for a manufacturer
+ */
+export async function fetchManufacturerCapacity(manufacturerId: string): Promise<CapacityEntry[]> {
+  const { data, error } = await supabase
+    .from('manufacturer_capacity')
+    .select('id, manufacturer_id, category, pieces_per_day')
+    .eq('manufacturer_id', manufacturerId)
+    .order('category');
+
+  if (error) {
+    console.error('[Capacity] Failed to fetch capacity:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch blackout dates that have not ended yet
+ */
+export async function fetchBlackoutDates(manufacturerId: string): Promise<BlackoutDate[]> {
+  const { data, error } = await supabase
+    .from('manufacturer_blackout_dates')
+    .select('id, manufacturer_id, start_date, end_date, reason')
+    .eq('manufacturer_id', manufacturerId)
+    .gte('end_date', today())
+    .order('start_date');
+
+  if (error) {
+    console.error('[Capacity] Failed to fetch blackout dates:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch unreleased bookings that have not ended yet
+ */
+export async function fetchActiveBookings(manufacturerId: string): Promise<ProductionBooking[]> {
+  const { data, error } = await supabase
+    .from('production_bookings')
+    .select('id, order_id, manufacturer_id, product_type, quantity, start_date, end_date, released_at')
+    .eq('manufacturer_id', manufacturerId)
+    .is('released_at', null)
+    .gte('end_date', today())
+    .order('start_date');
+
+  if (error) {
+    console.error('[Capacity] Failed to fetch bookings:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Create or update pieces/day for a category
+ */
+export async function saveCapacityEntry(
+  manufacturerId: string,
+  category: string,
+  piecesPerDay: number
+): Promise<{ success: boolean; error?: string }> {
+  if (!Number.isInteger(piecesPerDay) || piecesPerDay <= 0) {
+    return { success: false, error: 'Pieces per day must be a positive whole number' };
+  }
+
+  const { error } = await supabase
+    .from('manufacturer_capacity')
+    .upsert(
+      {
+        manufacturer_id: manufacturerId,
+        category,
+        pieces_per_day: piecesPerDay,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'manufacturer_id,category' }
+    );
+
+  if (error) {
+    console.error('[Capacity] Failed to save capacity:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function deleteCapacityEntry(entryId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.from('manufacturer_capacity').delete().eq('id', entryId);
+
+  if (error) {
+    console.error('[Capacity] Failed to delete capacity:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function addBlackoutDate(
+  manufacturerId: string,
+  startDate: string,
+  endDate: string,
+  reason: string | null
+): Promise<{ success: boolean; error?: string }> {
+  if (endDate < startDate) {
+    return { success: false, error: 'End date must be on or after start date' };
+  }
+
+  const { error } = await supabase
+    .from('manufacturer_blackout_dates')
+    .insert({ manufacturer_id: manufacturerId, start_date: startDate, end_date: endDate, reason });
+
+  if (error) {
+    console.error('[Capacity] Failed to add blackout:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function deleteBlackoutDate(blackoutId: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.from('manufacturer_blackout_dates').delete().eq('id', blackoutId);
+
+  if (error) {
+    console.error('[Capacity] Failed to delete blackout:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Would assigning this order overbook the manufacturer or miss the buyer's deadline?
+ * - Overbooking: the order's quantity spread over today → deadline on top of existing bookings
+ * - Deadline: earliest finish using only spare capacity left by existing bookings
+ */
+export async function checkAssignmentCapacity(
+  order: CapacityOrder,
+  manufacturerId: string
+): Promise<CapacityCheck> {
+  const [capacity, blackouts, allBookings] = await Promise.all([
+    fetchManufacturerCapacity(manufacturerId),
+    fetchBlackoutDates(manufacturerId),
+    fetchActiveBookings(manufacturerId),
+  ]);
+  // Re-assigning the same order must not count its own booking twice
+  const bookings = allBookings.filter(booking => booking.order_id !== order.id);
+
+  const start = today();
+  const deadline = order.expected_deadline ? toDateKey(new Date(order.expected_deadline)) : null;
+  const windowEnd = deadline && deadline >= start
+    ? deadline
+    : toDateKey(addDays(parseISO(start), DEFAULT_PRODUCTION_WINDOW_DAYS));
+
+  const entry = resolveCapacityEntry(order, capacity);
+  if (!entry) {
+    return {
+      hasCapacityModel: false,
+      category: null,
+      piecesPerDay: null,
+      overbookedDays: 0,
+      peakUtilization: 0,
+      estimatedCompletion: null,
+      deadline,
+      warnings: [
+        capacity.length === 0
+          ? 'No structured capacity on file - overbooking cannot be checked'
+          : `No capacity on file for ${getRequiredCategories(order).join(' / ')}`,
+      ],
+    };
+  }
+
+  const quantity = order.quantity || 0;
+  const horizon = Math.max(
+    MAX_SCHEDULE_HORIZON_DAYS,
+    Math.ceil((parseISO(windowEnd).getTime() - parseISO(start).getTime()) / 86400000) + 1
+  );
+  const calendar = buildProductionCalendar(entry, capacity, bookings, blackouts, start, horizon);
+
+  // Overbooking inside the booking window
+  const orderLoad = getBookingDailyLoad({ quantity, start_date: start, end_date: windowEnd }, blackouts);
+  let overbookedDays = 0;
+  let peakUtilization = 0;
+  calendar
+    .filter(day => day.date <= windowEnd)
+    .forEach(day => {
+      const total = day.booked + (orderLoad[day.date] || 0);
+      if (day.capacity === 0) {
+        if (total > 0) overbookedDays++;
+        return;
+      }
+      const utilization = total / day.capacity;
+      peakUtilization = Math.max(peakUtilization, utilization);
+      if (utilization > 1) overbookedDays++;
+    });
+
+  // Earliest finish using spare capacity only
+  let remaining = quantity;
+  let estimatedCompletion: string | null = quantity === 0 ? start : null;
+  for (const day of calendar) {
+    if (remaining <= 0) break;
+    remaining -= Math.max(0, day.capacity - day.booked);
+    if (remaining <= 0) estimatedCompletion = day.date;
+  }
+
+  const warnings: string[] = [];
+  if (overbookedDays > 0) {
+    warnings.push(
+      `Overbooks ${entry.category} on ${overbookedDays} day(s) - peak ${Math.round(peakUtilization * 100)}% of ${entry.pieces_per_day} pcs/day`
+    );
+  }
+  if (!estimatedCompletion) {
+    warnings.push(`No spare ${entry.category} capacity to finish ${quantity} pcs within ${MAX_SCHEDULE_HORIZON_DAYS} days`);
+  } else if (deadline && estimatedCompletion > deadline) {
+    warnings.push(`Earliest finish ${estimatedCompletion} misses the buyer's deadline ${deadline}`);
+  }
+
+  return {
+    hasCapacityModel: true,
+    category: entry.category,
+    piecesPerDay: entry.pieces_per_day,
+    overbookedDays,
+    peakUtilization,
+    estimatedCompletion,
+    deadline,
+    warnings,
+  };
+}
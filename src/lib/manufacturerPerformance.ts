@@ -0,0 +1,145 @@
+/**
+ * Manufacturer Performance Metrics
+ *
+ * Raw performance metrics computed from existing order timestamps.
+ * Shared by ManufacturerPerformanceMetrics (display) and manufacturerRouting (ranking).
+ */
+
+/**
+ * Raw performance metrics for a manufacturer
+ * Computed from existing order timestamps - NO derived intelligence
+ */
+export interface ManufacturerMetrics {
+  manufacturerId: string;
+  companyName: string;
+  // Raw counts
+  totalOrders: number;
+  completedOrders: number;
+  qcRejectionCount: number;
+  orderFailureCount: number;
+  // Average times (in hours for accept/QC, days for delivery)
+  avgAcceptanceTimeHours: number | null;
+  avgSampleQcDelayHours: number | null;
+  avgBulkQcDelayHours: number | null;
+  avgDeliveryDelayDays: number | null;
+  // Raw timestamp arrays for drill-down
+  acceptanceTimes: number[];
+  sampleQcDelays: number[];
+  bulkQcDelays: number[];
+  deliveryDelays: number[];
+}
+
+/**
+ * Order fields used for performance metrics
+ */
+export interface PerformanceOrder {
+  manufacturer_id: string | null;
+  assigned_at?: string | null;
+  manufacturer_accept_time?: string | null;
+  sample_production_started_at?: string | null;
+  qc_uploaded_at?: string | null;
+  sample_qc_uploaded_at?: string | null;
+  bulk_order_confirmed_at?: string | null;
+  dispatched_at?: string | null;
+  delivered_at?: string | null;
+  sample_status?: string | null;
+  detailed_status?: string | null;
+  rejection_reason?: string | null;
+  status?: string | null;
+}
+
+const hoursBetween = (from: string, to: string): number =>
+  (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60);
+
+const avg = (arr: number[]) => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : null;
+
+/**
+ * Compute metrics for one manufacturer from their orders
+ */
+export function computeManufacturerMetrics(
+  manufacturerId: string,
+  companyName: string,
+  orders: PerformanceOrder[]
+): ManufacturerMetrics {
+  const acceptanceTimes: number[] = [];
+  const sampleQcDelays: number[] = [];
+  const bulkQcDelays: number[] = [];
+  const deliveryDelays: number[] = [];
+  let qcRejectionCount = 0;
+  let orderFailureCount = 0;
+  let completedOrders = 0;
+
+  orders.forEach(order => {
+    // Acceptance time: assigned_at → manufacturer_accept_time
+    if (order.assigned_at && order.manufacturer_accept_time) {
+      const hoursToAccept = hoursBetween(order.assigned_at, order.manufacturer_accept_time);
+      if (hoursToAccept >= 0) acceptanceTimes.push(hoursToAccept);
+    }
+
+    // Sample QC delay: sample_production_started_at → qc_uploaded_at
+    const qcUploadedAt = order.qc_uploaded_at || order.sample_qc_uploaded_at;
+    if (order.sample_production_started_at && qcUploadedAt) {
+      const hoursDelay = hoursBetween(order.sample_production_started_at, qcUploadedAt);
+      if (hoursDelay >= 0) sampleQcDelays.push(hoursDelay);
+    }
+
+    // Bulk QC delay: bulk_order_confirmed_at → dispatched_at (approximation)
+    if (order.bulk_order_confirmed_at && order.dispatched_at) {
+      const hoursDelay = hoursBetween(order.bulk_order_confirmed_at, order.dispatched_at);
+      if (hoursDelay >= 0) bulkQcDelays.push(hoursDelay);
+    }
+
+    // Delivery delay: dispatched_at → delivered_at
+    if (order.dispatched_at && order.delivered_at) {
+      const daysDelay = hoursBetween(order.dispatched_at, order.delivered_at) / 24;
+      if (daysDelay >= 0) deliveryDelays.push(daysDelay);
+    }
+
+    // QC rejection count
+    if (order.sample_status === 'rejected' || order.detailed_status === 'sample_rejected_by_buyer') {
+      qcRejectionCount++;
+    }
+
+    // Order failure flags
+    if (order.rejection_reason || order.detailed_status === 'rejected_by_manufacturer') {
+      orderFailureCount++;
+    }
+
+    // Completed orders
+    if (order.detailed_status === 'completed' || order.status === 'completed') {
+      completedOrders++;
+    }
+  });
+
+  return {
+    manufacturerId,
+    companyName,
+    totalOrders: orders.length,
+    completedOrders,
+    qcRejectionCount,
+    orderFailureCount,
+    avgAcceptanceTimeHours: avg(acceptanceTimes),
+    avgSampleQcDelayHours: avg(sampleQcDelays),
+    avgBulkQcDelayHours: avg(bulkQcDelays),
+    avgDeliveryDelayDays: avg(deliveryDelays),
+    acceptanceTimes,
+    sampleQcDelays,
+    bulkQcDelays,
+    deliveryDelays,
+  };
+}
+
+/**
+ * Group orders by manufacturer_id
+ */
+export function groupOrdersByManufacturer<T extends PerformanceOrder>(orders: T[]): Record<string, T[]> {
+  const grouped: Record<string, T[]> = {};
+  orders.forEach(order => {
+    if (!order.manufacturer_id) return;
+    if (!grouped[order.manufacturer_id]) {
+      grouped[order.manufacturer_id] = [];
+    }
+    grouped[order.manufacturer_id].push(order);
+  });
+  return grouped;
+}
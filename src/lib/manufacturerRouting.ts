@@ -0,0 +1,373 @@
+/**
+ * Manufacturer Routing
+ *
+ * Ranks eligible manufacturers for an admin-approved order and explains why.
+ * The admin still makes the assignment - routing only proposes a top 3.
+ *
+ * Rules:
+ * - Eligible: verified, linked auth account, not paused, category fits (when known)
+ * - Score (0-100) = category fit (30) + capacity headroom (25) + performance (20)
+ *   + proximity to the buyer (15) + current open-order load (10)
+ * - Capacity headroom uses the structured capacity calendar when the manufacturer has one for
+ *   the order's category, otherwise the free-text monthly capacity less open-order units
+ * - Unknown data scores neutral, never disqualifies
+ * - Every score component comes with a human-readable reason
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { computeManufacturerMetrics, groupOrdersByManufacturer, ManufacturerMetrics, PerformanceOrder } from "./manufacturerPerformance";
+import { DEFAULT_SLA_THRESHOLDS } from "./slaEngine";
+import { fetchRemainingCapacities, RemainingCapacity } from "./manufacturerCapacity";
+
+export type RoutingFactor = 'category' | 'capacity' | 'performance' | 'proximity' | 'load';
+
+export const ROUTING_WEIGHTS: Record<RoutingFactor, number> = {
+  category: 30,
+  capacity: 25,
+  performance: 20,
+  proximity: 15,
+  load: 10,
+};
+
+/**
+ * Orders in these states count towards a manufacturer's current load
+ */
+export const OPEN_ORDER_STATES = [
+  'MANUFACTURER_ASSIGNED',
+  'PAYMENT_REQUESTED',
+  'PAYMENT_CONFIRMED',
+  'SAMPLE_IN_PROGRESS',
+  'SAMPLE_QC_UPLOADED',
+  'SAMPLE_APPROVED',
+  'BULK_UNLOCKED',
+  'BULK_IN_PRODUCTION',
+  'BULK_QC_UPLOADED',
+  'READY_FOR_DISPATCH',
+  'ON_HOLD',
+] as const;
+
+// Open orders at which the load score reaches zero
+const FULL_LOAD_ORDER_COUNT = 10;
+
+export interface RoutingOrder {
+  id: string;
+  product_type: string | null;
+  product_category?: string | null;
+  buyer_purpose?: string | null;
+  quantity: number | null;
+  manufacturer_id?: string | null;
+}
+
+export interface RoutingBuyerLocation {
+  city?: string | null;
+  state?: string | null;
+}
+
+export interface ManufacturerCandidate {
+  userId: string;
+  companyName: string;
+  city: string | null;
+  state: string | null;
+  capacity: string | null;
+  // From the capacity calendar - null when no structured capacity covers the order
+  remainingCapacity: RemainingCapacity | null;
+  categories: string[];
+  paused: boolean;
+  verified: boolean;
+  openOrderCount: number;
+  openOrderUnits: number;
+  metrics: ManufacturerMetrics | null;
+}
+
+export interface RoutingRecommendation {
+  manufacturerId: string;
+  companyName: string;
+  city: string | null;
+  state: string | null;
+  score: number;
+  breakdown: Record<RoutingFactor, number>;
+  reasons: string[];
+  warnings: string[];
+}
+
+export interface IneligibleManufacturer {
+  manufacturerId: string;
+  companyName: string;
+  reason: string;
+}
+
+export interface RoutingResult {
+  recommendations: RoutingRecommendation[];
+  ineligible: IneligibleManufacturer[];
+}
+
+const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase();
+
+/**
+ * Manufacturing categories (onboarding form labels) that can fulfil an order
+ */
+export function getRequiredCategories(order: RoutingOrder): string[] {
+  if (order.buyer_purpose === 'fabric_only') {
+    return ['Fabric Supply', 'Fabric Processing'];
+  }
+
+  const product = normalize(order.product_category || order.product_type);
+  if (product.includes('hoodie') || product.includes('sweatshirt')) {
+    return ['Hoodies', 'Apparel Stitching'];
+  }
+  if (product.includes('shirt') || product.includes('tee')) {
+    return ['T-Shirts', 'Apparel Stitching'];
+  }
+  return ['Apparel Stitching'];
+}
+
+/**
+ * Parse a free-text monthly capacity ("5,000 pcs / month", "500-1000") into units.
+ * Uses the lower bound of a range. Returns null when no number is present.
+ */
+export function parseMonthlyCapacity(capacity: string | null | undefined): number | null {
+  if (!capacity) return null;
+  const match = capacity.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k)?/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]) * (match[2] ? 1000 : 1);
+  return value > 0 ? value : null;
+}
+
+function scoreCategory(candidate: ManufacturerCandidate, required: string[]) {
+  if (candidate.categories.length === 0) {
+    return { score: ROUTING_WEIGHTS.category / 2, reason: null, warning: 'Categories not on file' };
+  }
+
+  const offered = candidate.categories.map(normalize);
+  const matches = required.filter(category => offered.includes(normalize(category)));
+  if (matches.length === 0) {
+    return { score: 0, reason: null, warning: null };
+  }
+
+  // Primary (first) category is a full match, fallback categories score less
+  const isPrimary = matches.includes(required[0]);
+  return {
+    score: isPrimary ? ROUTING_WEIGHTS.category : Math.round(ROUTING_WEIGHTS.category * 0.7),
+    reason: `Makes ${matches.join(', ')}`,
+    warning: null,
+  };
+}
+
+function scoreStructuredCapacity(remaining: RemainingCapacity, quantity: number) {
+  const horizon = `next ${remaining.windowDays} days`;
+  if (remaining.remaining < quantity) {
+    return {
+      score: 0,
+      reason: null,
+      warning: `Order of ${quantity} pcs exceeds free ${remaining.category} capacity (${Math.round(remaining.remaining)} of ${remaining.windowCapacity} pcs over the ${horizon})`,
+    };
+  }
+
+  const ratio = (remaining.remaining - quantity) / remaining.windowCapacity;
+  return {
+    score: Math.round(ROUTING_WEIGHTS.capacity * Math.min(1, 0.4 + ratio)),
+    reason: `${Math.round(remaining.remaining).toLocaleString()} pcs free ${remaining.category} capacity over the ${horizon}`,
+    warning: null,
+  };
+}
+
+function scoreCapacity(candidate: ManufacturerCandidate, quantity: number) {
+  if (candidate.remainingCapacity) {
+    return scoreStructuredCapacity(candidate.remainingCapacity, quantity);
+  }
+
+  const monthly = parseMonthlyCapacity(candidate.capacity);
+  if (monthly === null) {
+    return { score: Math.round(ROUTING_WEIGHTS.capacity / 2), reason: null, warning: 'Capacity not stated' };
+  }
+
+  const headroom = monthly - candidate.openOrderUnits;
+  if (headroom < quantity) {
+    return {
+      score: 0,
+      reason: null,
+      warning: `Order of ${quantity} pcs exceeds free capacity (${Math.max(0, headroom)} of ${monthly} pcs/month)`,
+    };
+  }
+
+  const ratio = (headroom - quantity) / monthly;
+  return {
+    score: Math.round(ROUTING_WEIGHTS.capacity * Math.min(1, 0.4 + ratio)),
+    reason: `${headroom.toLocaleString()} pcs/month free capacity`,
+    warning: null,
+  };
+}
+
+function scorePerformance(metrics: ManufacturerMetrics | null) {
+  if (!metrics || metrics.totalOrders === 0) {
+    return { score: ROUTING_WEIGHTS.performance / 2, reason: 'No order history yet', warning: null };
+  }
+
+  const half = ROUTING_WEIGHTS.performance / 2;
+  const acceptanceTarget = DEFAULT_SLA_THRESHOLDS.acceptance.warning;
+  const acceptanceScore = metrics.avgAcceptanceTimeHours === null
+    ? half / 2
+    : half * Math.max(0, 1 - metrics.avgAcceptanceTimeHours / (acceptanceTarget * 2));
+  const failures = metrics.qcRejectionCount + metrics.orderFailureCount;
+  const reliabilityScore = half * Math.max(0, 1 - failures / metrics.totalOrders);
+
+  const reasons: string[] = [`${metrics.totalOrders} past orders`];
+  if (metrics.avgAcceptanceTimeHours !== null) {
+    reasons.push(`accepts in ${metrics.avgAcceptanceTimeHours.toFixed(1)}h on average`);
+  }
+  if (failures === 0) {
+    reasons.push('no QC rejections or failures');
+  }
+
+  return {
+    score: Math.round(acceptanceScore + reliabilityScore),
+    reason: reasons.join(', '),
+    warning: failures > 0 ? `${failures} QC rejection(s) / failure(s) in history` : null,
+  };
+}
+
+function scoreProximity(candidate: ManufacturerCandidate, buyer: RoutingBuyerLocation | null) {
+  if (!buyer || (!buyer.city && !buyer.state)) {
+    return { score: Math.round(ROUTING_WEIGHTS.proximity / 3), reason: null, warning: null };
+  }
+  if (buyer.city && normalize(candidate.city) === normalize(buyer.city)) {
+    return { score: ROUTING_WEIGHTS.proximity, reason: `Same city as buyer (${candidate.city})`, warning: null };
+  }
+  if (buyer.state && normalize(candidate.state) === normalize(buyer.state)) {
+    return { score: Math.round(ROUTING_WEIGHTS.proximity * 0.66), reason: `Same state as buyer (${candidate.state})`, warning: null };
+  }
+  return { score: 0, reason: null, warning: null };
+}
+
+function scoreLoad(candidate: ManufacturerCandidate) {
+  const score = Math.round(ROUTING_WEIGHTS.load * Math.max(0, 1 - candidate.openOrderCount / FULL_LOAD_ORDER_COUNT));
+  return {
+    score,
+    reason: candidate.openOrderCount === 0 ? 'No open orders' : `${candidate.openOrderCount} open order(s)`,
+    warning: null,
+  };
+}
+
+/**
+ * Rank candidates for an order (pure - no database access)
+ */
+export function rankManufacturers(
+  order: RoutingOrder,
+  candidates: ManufacturerCandidate[],
+  buyerLocation: RoutingBuyerLocation | null = null
+): RoutingResult {
+  const required = getRequiredCategories(order);
+  const quantity = order.quantity || 1;
+  const recommendations: RoutingRecommendation[] = [];
+  const ineligible: IneligibleManufacturer[] = [];
+
+  for (const candidate of candidates) {
+    if (!candidate.verified) {
+      ineligible.push({ manufacturerId: candidate.userId, companyName: candidate.companyName, reason: 'Not verified' });
+      continue;
+    }
+    if (candidate.paused) {
+      ineligible.push({ manufacturerId: candidate.userId, companyName: candidate.companyName, reason: 'Paused' });
+      continue;
+    }
+
+    const category = scoreCategory(candidate, required);
+    if (category.score === 0) {
+      ineligible.push({
+        manufacturerId: candidate.userId,
+        companyName: candidate.companyName,
+        reason: `Does not make ${required.join(' / ')}`,
+      });
+      continue;
+    }
+
+    const factors = {
+      category,
+      capacity: scoreCapacity(candidate, quantity),
+      performance: scorePerformance(candidate.metrics),
+      proximity: scoreProximity(candidate, buyerLocation),
+      load: scoreLoad(candidate),
+    };
+
+    const breakdown = Object.fromEntries(
+      Object.entries(factors).map(([factor, result]) => [factor, result.score])
+    ) as Record<RoutingFactor, number>;
+
+    recommendations.push({
+      manufacturerId: candidate.userId,
+      companyName: candidate.companyName,
+      city: candidate.city,
+      state: candidate.state,
+      score: Object.values(breakdown).reduce((sum, value) => sum + value, 0),
+      breakdown,
+      reasons: Object.values(factors).map(f => f.reason).filter((r): r is string => !!r),
+      warnings: Object.values(factors).map(f => f.warning).filter((w): w is string => !!w),
+    });
+  }
+
+  recommendations.sort((a, b) => b.score - a.score);
+  return { recommendations, ineligible };
+}
+
+/**
+ * Load candidates and rank them for an order
+ * @param order - Order being routed
+ * @param limit - Number of recommendations to return (default top 3)
+ */
+export async function getRoutingRecommendations(order: RoutingOrder, limit = 3): Promise<RoutingResult> {
+  const [{ data: approved }, { data: verifications }, { data: assignedOrders }, { data: shipping }] = await Promise.all([
+    supabase
+      .from('approved_manufacturers')
+      .select('linked_user_id, company_name, city, state, capacity, verified')
+      .eq('verified', true)
+      .not('linked_user_id', 'is', null),
+    supabase
+      .from('manufacturer_verifications')
+      .select('user_id, city, state, capacity, categories, paused, verified'),
+    supabase
+      .from('orders')
+      .select('id, manufacturer_id, order_state, quantity, assigned_at, manufacturer_accept_time, sample_production_started_at, qc_uploaded_at, sample_qc_uploaded_at, bulk_order_confirmed_at, dispatched_at, delivered_at, sample_status, detailed_status, rejection_reason, status')
+      .not('manufacturer_id', 'is', null),
+    supabase
+      .from('order_shipping_info')
+      .select('city, state')
+      .eq('order_id', order.id)
+      .maybeSingle(),
+  ]);
+
+  const verificationByUser = new Map((verifications || []).map(v => [v.user_id, v]));
+  const ordersByManufacturer = groupOrdersByManufacturer<PerformanceOrder & { id: string; order_state: string | null; quantity: number }>(
+    (assignedOrders || []).filter(o => o.id !== order.id)
+  );
+
+  const linked = (approved || []).filter(m => m.linked_user_id);
+  const remainingCapacities = await fetchRemainingCapacities(order, linked.map(m => m.linked_user_id as string));
+
+  const candidates: ManufacturerCandidate[] = linked
+    .map(m => {
+      const userId = m.linked_user_id as string;
+      const verification = verificationByUser.get(userId);
+      const history = ordersByManufacturer[userId] || [];
+      const openOrders = history.filter(o =>
+        (OPEN_ORDER_STATES as readonly string[]).includes(o.order_state || '')
+      );
+
+      return {
+        userId,
+        companyName: m.company_name,
+        city: m.city || verification?.city || null,
+        state: m.state || verification?.state || null,
+        capacity: m.capacity || verification?.capacity || null,
+        remainingCapacity: remainingCapacities.get(userId) || null,
+        categories: verification?.categories || [],
+        paused: !!verification?.paused,
+        verified: m.verified && verification?.verified !== false,
+        openOrderCount: openOrders.length,
+        openOrderUnits: openOrders.reduce((sum, o) => sum + (o.quantity || 0), 0),
+        metrics: history.length > 0 ? computeManufacturerMetrics(userId, m.company_name, history) : null,
+      };
+    });
+
+  const result = rankManufacturers(order, candidates, shipping || null);
+  return { ...result, recommendations: result.recommendations.slice(0, limit) };
+}
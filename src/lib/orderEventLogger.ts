@@ -27,6 +27,7 @@ export type OrderEventType =
   | 'bulk_qc_uploaded'                // Bulk QC video uploaded by manufacturer
   | 'bulk_qc_approved'                // Bulk QC approved by buyer
   | 'bulk_qc_rejected'                // Bulk QC rejected by buyer (reason required)
+  | 'bulk_qc_inspection_recorded'     // AQL inspection of the bulk lot recorded (logged by trigger)
   // Delivery state machine events
   | 'order_packed'                    // Manufacturer marked order as packed
   | 'packaging_video_uploaded'        // Manufacturer uploaded packaging video
@@ -40,6 +41,14 @@ export type OrderEventType =
   | 'payment_releasable'              // All conditions met for release
   | 'payment_released'                // Payment released to manufacturer
   | 'payment_refunded'                // Payment refunded to buyer (admin only)
+  // Refund ledger events
+  | 'partial_refund_requested'        // Admin recorded a partial refund (dispute / QC decision / manual)
+  | 'partial_refund_approved'         // Partial refund approved and booked (logged by approve_order_refund)
+  | 'partial_refund_rejected'         // Partial refund request rejected
+  // Milestone payment schedule events
+  | 'payment_schedule_set'            // Admin set the order's milestone payment schedule
+  | 'milestone_payment_releasable'    // Order reached a milestone's release state (logged by trigger)
+  | 'milestone_payment_released'      // Admin released a milestone tranche to the manufacturer
   // CSV validation events
   | 'csv_uploaded'                    // CSV file uploaded by buyer
   | 'csv_validation_passed'           // CSV validation gate passed for bulk transition
@@ -54,9 +63,35 @@ export type OrderEventType =
   | 'payment_confirmed'               // Admin confirmed payment received
   // Spec locking events
   | 'specs_locked'                    // Admin locked specs before production
-  // Admin QC decision events
-  | 'admin_qc_approved'               // Admin approved QC
+  // Admin QC decision events - logged by the QC review functions
+  | 'admin_qc_approved'               // Admin approved QC (second sign-off on four-eyes orders)
   | 'admin_qc_rejected'               // Admin rejected QC
+  | 'admin_qc_first_approval'         // First of two admin approvals on an order above the four-eyes threshold
+  | 'qc_review_claimed'               // Reviewer claimed, or was assigned, a QC submission
+  // Cancellation / hold events
+  | 'order_cancelled'                 // Order cancelled by buyer (pre-payment) or admin (with reason)
+  | 'order_put_on_hold'               // Admin put order ON_HOLD (previous state remembered)
+  | 'order_resumed'                   // Admin resumed order from ON_HOLD to its previous state
+  // SLA events
+  | 'sla_breached'                    // SLA warning/critical threshold crossed (logged by evaluate_sla_policies job)
+  // Returns / remake (RMA) events - logged by the RMA functions and sync_rma_from_shipments
+  | 'rma_requested'                   // Buyer raised a return with photo evidence
+  | 'rma_withdrawn'                   // Buyer withdrew a return before review
+  | 'rma_approved'                    // Admin approved quantities, fault and resolution
+  | 'rma_rejected'                    // Admin rejected a return (reason required)
+  | 'rma_shipment_status_changed'     // Return pickup or replacement shipment moved
+  | 'rma_return_received'             // Returned pieces delivered to the manufacturer
+  | 'remake_started'                  // Manufacturer started producing replacements
+  | 'remake_packed'                   // Replacements packed, ready to ship
+  | 'remake_shipped'                  // Replacement shipment booked
+  | 'remake_delivered'                // Replacements delivered to the buyer
+  | 'rma_closed'                      // Return resolved
+  // Proof of delivery events - logged by the POD functions
+  | 'delivery_otp_issued'             // Delivery OTP issued (or regenerated) for the buyer
+  | 'delivery_otp_failed'             // Wrong OTP entered at hand-over
+  | 'pod_confirmed'                   // Delivery confirmed with the buyer's OTP
+  // Sample revision events
+  | 'sample_revision_escalated'       // Last allowed sample round rejected, dispute raised (logged by close_sample_revision)
   // State machine transition events
   | 'state_transition';               // Generic state transition event
 
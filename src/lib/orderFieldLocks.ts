@@ -5,11 +5,12 @@
  * - Buyer notes → read-only after SUBMITTED
  * - Fabric / color / specs → read-only after SAMPLE_APPROVED
  * - Quantity → locked after SUBMITTED
+ * - ON_HOLD / CANCELLED → every field read-only
  * 
  * This is ADD-ONLY enforcement logic.
  */
 
-import { OrderState, getStateIndex, ORDER_STATES } from './orderStateMachineV2';
+import { OrderState, getStateIndex, ORDER_STATES, isExceptionState } from './orderStateMachineV2';
 
 /**
  * Field categories that can be locked
@@ -63,6 +64,11 @@ export function isFieldLocked(
     return false; // No state = not locked (DRAFT or new order)
   }
   
+  // Held and cancelled orders are frozen
+  if (isExceptionState(currentState)) {
+    return true;
+  }
+  
   const lockThreshold = FIELD_LOCK_THRESHOLDS[field];
   if (!lockThreshold) {
     return false;
@@ -235,6 +241,14 @@ export function getEditRestrictionMessage(currentState: OrderState | null | unde
     return null;
   }
   
+  if (currentState === 'CANCELLED') {
+    return 'This order has been cancelled and can no longer be edited.';
+  }
+  
+  if (currentState === 'ON_HOLD') {
+    return 'This order is on hold. Editing is disabled until an admin resumes it.';
+  }
+  
   if (getStateIndex(currentState) >= getStateIndex('SAMPLE_APPROVED')) {
     return 'This order has been approved. Specifications are locked for manufacturing consistency.';
   }
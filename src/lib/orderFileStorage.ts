@@ -1,6 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
 
-export type OrderFileType = 'spec' | 'qc_sample' | 'qc_bulk' | 'delivery';
+export type OrderFileType = 'spec' | 'qc_sample' | 'qc_bulk' | 'delivery' | 'invoice' | 'credit_note' | 'rma';
 export type UploadedBy = 'admin' | 'manufacturer' | 'system' | 'buyer';
 
 export interface OrderFile {
@@ -203,6 +203,9 @@ export function getFileTypeLabel(fileType: OrderFileType): string {
     qc_sample: 'Sample QC',
     qc_bulk: 'Bulk QC',
     delivery: 'Delivery Proof',
+    invoice: 'Tax Invoice',
+    credit_note: 'Credit Note',
+    rma: 'Return Photos',
   };
   return labels[fileType] || fileType;
 }
@@ -216,6 +219,9 @@ export function getFileTypeBadgeColor(fileType: OrderFileType): string {
     qc_sample: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400',
     qc_bulk: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400',
     delivery: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+    invoice: 'bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-400',
+    credit_note: 'bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-400',
+    rma: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400',
   };
   return colors[fileType] || 'bg-gray-100 text-gray-800';
 }
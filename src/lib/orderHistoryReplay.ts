@@ -0,0 +1,374 @@
+/**
+ * Order History Replay (time travel)
+ *
+ * Folds order_events into snapshots of the order at any point in time.
+ *
+ * Rules:
+ * - order_events is the source of truth for history; the orders row is only "now"
+ * - Each event type has a reducer that patches the tracked fields it knows about
+ * - Fields never touched by an event keep the value of the current orders row
+ * - Initial state is taken from the first event that records a from/previous state
+ * - Read-only: replay never writes to the database
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { OrderEventType } from "./orderEventLogger";
+
+/**
+ * Fields reconstructed by the replay (everything else is static for the order's lifetime)
+ */
+export const REPLAY_TRACKED_FIELDS = [
+  'order_state',
+  'payment_state',
+  'delivery_status',
+  'manufacturer_id',
+  'admin_approved_at',
+  'admin_notes',
+  'payment_link',
+  'payment_received_at',
+  'specs_locked',
+  'specs_locked_at',
+  'specs_locked_by',
+  'fabric_type',
+  'admin_qc_approved',
+  'admin_qc_approved_at',
+  'sample_qc_uploaded_at',
+  'sample_approved_at',
+  'bulk_qc_uploaded_at',
+  'bulk_qc_approved_at',
+  'corrected_csv_url',
+  'packed_at',
+  'packaging_video_url',
+  'pickup_scheduled_at',
+  'courier_name',
+  'tracking_id',
+  'in_transit_at',
+  'dispatched_at',
+  'estimated_delivery_date',
+  'delivered_at',
+  'pod_confirmed_at',
+  'refunded_at',
+  'refund_reason',
+  'cancellation_reason',
+  'cancelled_at',
+  'hold_reason',
+  'hold_previous_state',
+  'held_at',
+] as const;
+
+export type ReplayTrackedField = typeof REPLAY_TRACKED_FIELDS[number];
+
+export type OrderSnapshot = Record<ReplayTrackedField, unknown>;
+
+export interface ReplayOrderEvent {
+  id: string;
+  event_type: string;
+  event_timestamp: string;
+  metadata: Json | null;
+}
+
+export interface OrderHistoryFrame {
+  timestamp: string;
+  event: ReplayOrderEvent | null; // null = order creation
+  snapshot: OrderSnapshot;
+  changedFields: ReplayTrackedField[];
+}
+
+export interface SnapshotFieldDiff {
+  field: ReplayTrackedField;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+type EventMetadata = Record<string, unknown>;
+type SnapshotReducer = (metadata: EventMetadata, timestamp: string) => Partial<OrderSnapshot>;
+
+export const REPLAY_FIELD_LABELS: Record<ReplayTrackedField, string> = {
+  order_state: 'Order State',
+  payment_state: 'Payment State',
+  delivery_status: 'Delivery Status',
+  manufacturer_id: 'Manufacturer',
+  admin_approved_at: 'Admin Approved At',
+  admin_notes: 'Admin Notes',
+  payment_link: 'Payment Link',
+  payment_received_at: 'Payment Received At',
+  specs_locked: 'Specs Locked',
+  specs_locked_at: 'Specs Locked At',
+  specs_locked_by: 'Specs Locked By',
+  fabric_type: 'Fabric',
+  admin_qc_approved: 'Admin QC Approved',
+  admin_qc_approved_at: 'Admin QC Decided At',
+  sample_qc_uploaded_at: 'Sample QC Uploaded At',
+  sample_approved_at: 'Sample Approved At',
+  bulk_qc_uploaded_at: 'Bulk QC Uploaded At',
+  bulk_qc_approved_at: 'Bulk QC Approved At',
+  corrected_csv_url: 'Size CSV',
+  packed_at: 'Packed At',
+  packaging_video_url: 'Packaging Video',
+  pickup_scheduled_at: 'Pickup Scheduled At',
+  courier_name: 'Courier',
+  tracking_id: 'Tracking ID',
+  in_transit_at: 'In Transit At',
+  dispatched_at: 'Dispatched At',
+  estimated_delivery_date: 'Estimated Delivery',
+  delivered_at: 'Delivered At',
+  pod_confirmed_at: 'Proof of Delivery At',
+  refunded_at: 'Refunded At',
+  refund_reason: 'Refund Reason',
+  cancellation_reason: 'Cancellation Reason',
+  cancelled_at: 'Cancelled At',
+  hold_reason: 'Hold Reason',
+  hold_previous_state: 'Held From State',
+  held_at: 'Held At',
+};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+/**
+ * Target order_state recorded on an event (metadata naming varies by caller)
+ */
+const targetState = (metadata: EventMetadata): string | undefined =>
+  asString(metadata.to_state) ?? asString(metadata.new_state) ?? asString(metadata.to_order_state);
+
+/**
+ * Source order_state recorded on an event, used to seed the creation snapshot
+ */
+const sourceState = (metadata: EventMetadata): string | undefined =>
+  asString(metadata.from_state) ?? asString(metadata.previous_state) ?? asString(metadata.from_order_state);
+
+const paymentState = (state: string): SnapshotReducer => () => ({ payment_state: state });
+
+/**
+ * Event-specific field patches. order_state is applied generically from
+ * to_state / new_state metadata before these run.
+ */
+const EVENT_REDUCERS: Partial<Record<OrderEventType, SnapshotReducer>> = {
+  order_submitted_for_review: () => ({ order_state: 'SUBMITTED' }),
+  admin_approved: (_, ts) => ({ admin_approved_at: ts, admin_notes: null }),
+  changes_requested: (m) => ({ admin_notes: asString(m.notes) ?? null }),
+  manufacturer_assigned: (m) => ({ manufacturer_id: asString(m.manufacturer_id) ?? null }),
+  payment_requested: (m) => ({ payment_link: asString(m.payment_link) ?? null }),
+  payment_confirmed: (m, ts) => ({
+    payment_received_at: ts,
+    payment_state: asString(m.payment_state) ?? 'PAYMENT_HELD',
+  }),
+  payment_initiated: paymentState('PAYMENT_INITIATED'),
+  payment_held: paymentState('PAYMENT_HELD'),
+  payment_releasable: paymentState('PAYMENT_RELEASABLE'),
+  payment_released: paymentState('PAYMENT_RELEASED'),
+  payment_refunded: (m, ts) => ({
+    payment_state: 'PAYMENT_REFUNDED',
+    refunded_at: ts,
+    refund_reason: asString(m.reason) ?? null,
+  }),
+  specs_locked: (m, ts) => ({
+    specs_locked: true,
+    specs_locked_at: ts,
+    specs_locked_by: asString(m.locked_by) ?? null,
+    ...(asString(m.fabric_type) ? { fabric_type: m.fabric_type } : {}),
+  }),
+  admin_qc_approved: (_, ts) => ({ admin_qc_approved: true, admin_qc_approved_at: ts }),
+  admin_qc_rejected: (_, ts) => ({ admin_qc_approved: false, admin_qc_approved_at: ts }),
+  qc_uploaded: (m, ts) => (m.stage === 'bulk' ? { bulk_qc_uploaded_at: ts } : { sample_qc_uploaded_at: ts }),
+  qc_approved: (_, ts) => ({ sample_approved_at: ts }),
+  bulk_qc_uploaded: (_, ts) => ({ bulk_qc_uploaded_at: ts }),
+  bulk_qc_approved: (_, ts) => ({ bulk_qc_approved_at: ts }),
+  csv_uploaded: (m) => ({ corrected_csv_url: asString(m.csv_url) ?? null }),
+  order_packed: (_, ts) => ({ delivery_status: 'PACKED', packed_at: ts }),
+  packaging_video_uploaded: (m) => ({ packaging_video_url: asString(m.packaging_video_url) ?? null }),
+  pickup_scheduled: (m, ts) => ({
+    delivery_status: 'PICKUP_SCHEDULED',
+    pickup_scheduled_at: ts,
+    courier_name: asString(m.courier_name) ?? null,
+    tracking_id: asString(m.tracking_id) ?? null,
+  }),
+  courier_assigned: (m) => ({
+    courier_name: asString(m.courier_name) ?? null,
+    tracking_id: asString(m.tracking_id) ?? null,
+  }),
+  in_transit: (_, ts) => ({ delivery_status: 'IN_TRANSIT', in_transit_at: ts }),
+  dispatched: (m, ts) => ({
+    dispatched_at: asString(m.dispatched_at) ?? ts,
+    estimated_delivery_date: asString(m.estimated_delivery) ?? asString(m.estimatedDelivery) ?? null,
+  }),
+  order_delivered: (_, ts) => ({ delivery_status: 'DELIVERED', delivered_at: ts }),
+  delivered: (_, ts) => ({ delivery_status: 'DELIVERED', delivered_at: ts }),
+  pod_confirmed: (_, ts) => ({ pod_confirmed_at: ts }),
+  order_cancelled: (m, ts) => ({
+    order_state: 'CANCELLED',
+    cancellation_reason: asString(m.reason) ?? null,
+    cancelled_at: ts,
+  }),
+  order_put_on_hold: (m, ts) => ({
+    order_state: 'ON_HOLD',
+    hold_reason: asString(m.reason) ?? null,
+    hold_previous_state: sourceState(m) ?? null,
+    held_at: ts,
+  }),
+  order_resumed: () => ({ hold_previous_state: null, held_at: null }),
+};
+
+const toMetadata = (metadata: Json | null): EventMetadata =>
+  metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? (metadata as EventMetadata) : {};
+
+/**
+ * Apply a single event to a snapshot, returning the new snapshot and the fields it changed
+ */
+export function applyOrderEvent(
+  snapshot: OrderSnapshot,
+  event: ReplayOrderEvent
+): { snapshot: OrderSnapshot; changedFields: ReplayTrackedField[] } {
+  const metadata = toMetadata(event.metadata);
+  const patch: Partial<OrderSnapshot> = {};
+
+  // Manual overrides can move delivery_status alongside order_state
+  const state = targetState(metadata);
+  if (state) patch.order_state = state;
+  const deliveryState = asString(metadata.to_delivery_state);
+  if (deliveryState) patch.delivery_status = deliveryState;
+
+  const reducer = EVENT_REDUCERS[event.event_type as OrderEventType];
+  if (reducer) Object.assign(patch, reducer(metadata, event.event_timestamp));
+
+  const next = { ...snapshot, ...patch };
+  const changedFields = REPLAY_TRACKED_FIELDS.filter(field => !isSameValue(snapshot[field], next[field]));
+
+  return { snapshot: next, changedFields };
+}
+
+/**
+ * Creation snapshot: tracked fields cleared, order_state seeded from the first
+ * event that records where the order came from.
+ */
+function buildCreationSnapshot(order: Partial<OrderSnapshot>, events: ReplayOrderEvent[]): OrderSnapshot {
+  const snapshot = {} as OrderSnapshot;
+  for (const field of REPLAY_TRACKED_FIELDS) {
+    snapshot[field] = null;
+  }
+
+  // Fields no event ever writes keep their current value (e.g. legacy orders without events)
+  const touched = new Set<ReplayTrackedField>();
+  let seed = snapshot;
+  for (const event of events) {
+    const result = applyOrderEvent(seed, event);
+    result.changedFields.forEach(field => touched.add(field));
+    seed = result.snapshot;
+  }
+  for (const field of REPLAY_TRACKED_FIELDS) {
+    if (!touched.has(field) && field !== 'order_state') {
+      snapshot[field] = order[field] ?? null;
+    }
+  }
+
+  for (const event of events) {
+    const from = sourceState(toMetadata(event.metadata));
+    if (from) {
+      snapshot.order_state = from;
+      break;
+    }
+  }
+  if (!snapshot.order_state && !touched.has('order_state')) {
+    snapshot.order_state = order.order_state ?? null;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Replay all events into an ordered list of frames (creation first)
+ * @param order - Current orders row (provides created_at and untracked values)
+ * @param events - order_events for the order, any order
+ */
+export function replayOrderHistory(
+  order: Partial<OrderSnapshot> & { created_at: string },
+  events: ReplayOrderEvent[]
+): OrderHistoryFrame[] {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.event_timestamp).getTime() - new Date(b.event_timestamp).getTime()
+  );
+
+  let snapshot = buildCreationSnapshot(order, sorted);
+  const frames: OrderHistoryFrame[] = [
+    { timestamp: order.created_at, event: null, snapshot, changedFields: [] },
+  ];
+
+  for (const event of sorted) {
+    const result = applyOrderEvent(snapshot, event);
+    snapshot = result.snapshot;
+    frames.push({
+      timestamp: event.event_timestamp,
+      event,
+      snapshot,
+      changedFields: result.changedFields,
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Get the snapshot of the order as it was at a timestamp
+ * Returns the latest frame at or before the timestamp (creation frame if earlier).
+ */
+export function getOrderSnapshotAt(frames: OrderHistoryFrame[], timestamp: string | Date): OrderHistoryFrame | null {
+  if (frames.length === 0) return null;
+
+  const target = new Date(timestamp).getTime();
+  let match = frames[0];
+  for (const frame of frames) {
+    if (new Date(frame.timestamp).getTime() > target) break;
+    match = frame;
+  }
+  return match;
+}
+
+/**
+ * Field-by-field diff between two snapshots (only changed fields)
+ */
+export function diffOrderSnapshots(before: OrderSnapshot, after: Partial<OrderSnapshot>): SnapshotFieldDiff[] {
+  return REPLAY_TRACKED_FIELDS
+    .filter(field => !isSameValue(before[field], after[field] ?? null))
+    .map(field => ({
+      field,
+      label: REPLAY_FIELD_LABELS[field],
+      before: before[field],
+      after: after[field] ?? null,
+    }));
+}
+
+/**
+ * Fetch every event for an order in replay order (ascending, no limit)
+ */
+export async function fetchOrderEventsForReplay(orderId: string): Promise<ReplayOrderEvent[]> {
+  const { data, error } = await supabase
+    .from('order_events')
+    .select('id, event_type, event_timestamp, metadata')
+    .eq('order_id', orderId)
+    .order('event_timestamp', { ascending: true });
+
+  if (error) {
+    console.error('[OrderHistoryReplay] Failed to fetch events:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Reconstruct the order as it was at a timestamp
+ */
+export async function reconstructOrderAt(
+  order: Partial<OrderSnapshot> & { id: string; created_at: string },
+  timestamp: string | Date
+): Promise<OrderSnapshot | null> {
+  const events = await fetchOrderEventsForReplay(order.id);
+  const frame = getOrderSnapshotAt(replayOrderHistory(order, events), timestamp);
+  return frame?.snapshot ?? null;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return (a ?? null) === (b ?? null);
+}
@@ -0,0 +1,211 @@
+/**
+ * Order Cancellation & Hold
+ *
+ * Rules (defined in orderWorkflow.ts, enforced by the state trigger):
+ * - Buyer may cancel before PAYMENT_CONFIRMED
+ * - Admin may cancel at any time, with a reason
+ * - Admin may put an order ON_HOLD (reason required); it resumes to the state it was held in
+ * - Cancelling an order with captured payment initiates a refund (canAdminRefund) of the
+ *   remaining escrow balance, recorded in the refund ledger together with the cancellation
+ * - The refund is paid out once the cancellation is written; a failed payout stays in the
+ *   refund ledger to be retried
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { OrderState, WorkflowActor } from "./orderWorkflow";
+import { checkOrderTransition, OrderWorkflowContext, runOrderTransitionEffects, transitionOrder } from "./orderWorkflowEngine";
+import { PaymentOrder, PaymentState, canAdminRefund } from "./paymentStateMachine";
+import { logStateChange } from "./stateChangeLogger";
+import { logOrderEvent } from "./orderEventLogger";
+import { logOrderLifecycleEvent, logPaymentEvent } from "./systemLogger";
+import { payOutRefund } from "./refundLedger";
+
+export type HoldCancelOrder = OrderWorkflowContext & PaymentOrder & {
+  cancelled_at?: string | null;
+  held_at?: string | null;
+  refunded_at?: string | null;
+};
+
+export interface HoldCancelResult {
+  success: boolean;
+  error?: string;
+  refundInitiated?: boolean;
+  // The order was cancelled but the refund did not go through
+  refundError?: string;
+}
+
+interface CancellationRefund {
+  refund_id: string | null;
+  amount: number;
+}
+
+const CAPTURED_PAYMENT_STATES: PaymentState[] = ['PAYMENT_HELD', 'PAYMENT_RELEASABLE'];
+
+/**
+ * Check if cancelling this order should initiate a refund
+ * Refund only when money was actually captured and canAdminRefund allows it
+ */
+export function requiresRefundOnCancel(order: PaymentOrder): boolean {
+  const paymentState = order.payment_state as PaymentState;
+  const paymentCaptured =
+    CAPTURED_PAYMENT_STATES.includes(paymentState) ||
+    (paymentState === 'PAYMENT_INITIATED' && !!(order.escrow_locked_timestamp || order.fake_payment_timestamp));
+
+  return paymentCaptured && canAdminRefund(order).allowed;
+}
+
+/**
+ * Cancel an order
+ * @param order - Order to cancel
+ * @param actor - 'buyer' (pre-payment only) or 'admin'
+ * @param actorId - User performing the cancellation
+ * @param reason - Cancellation reason (required)
+ */
+export async function cancelOrder(
+  order: HoldCancelOrder,
+  actor: Extract<WorkflowActor, 'buyer' | 'admin'>,
+  actorId: string,
+  reason: string
+): Promise<HoldCancelResult> {
+  const fromState = order.order_state as OrderState;
+  const trimmedReason = reason.trim();
+
+  const check = checkOrderTransition({ ...order, cancellation_reason: trimmedReason }, 'CANCELLED', actor);
+  if (!check.allowed) {
+    return { success: false, error: check.reason };
+  }
+
+  // Refunds are admin-only (PAYMENT_WORKFLOW); buyers can only cancel before payment is captured
+  let refund: CancellationRefund | null = null;
+  if (actor === 'admin' && requiresRefundOnCancel(order)) {
+    // Cancels and records the refund together, only while the order is still in fromState
+    const { data, error } = await supabase.rpc('cancel_order_with_refund', {
+      _order_id: order.id,
+      _from_state: fromState,
+      _reason: trimmedReason,
+    });
+
+    if (error) {
+      console.error('[OrderHoldCancel] Cancel error:', error);
+      return { success: false, error: error.message };
+    }
+
+    refund = data as unknown as CancellationRefund;
+    await runOrderTransitionEffects(order.id, fromState, 'CANCELLED', {
+      actor,
+      reason: trimmedReason,
+      cancelled_by: actorId,
+      refund_initiated: !!refund.refund_id,
+    });
+  } else {
+    const now = new Date().toISOString();
+    // Only writes while the order is still in fromState, so a concurrent change is not overwritten
+    const transition = await transitionOrder(
+      order,
+      'CANCELLED',
+      actor,
+      {
+        cancellation_reason: trimmedReason,
+        cancelled_at: now,
+        cancelled_by: actorId,
+      },
+      { reason: trimmedReason, cancelled_by: actorId, refund_initiated: false }
+    );
+    if (!transition.success) {
+      return { success: false, error: transition.error };
+    }
+  }
+
+  await logStateChange(order.id, fromState, 'CANCELLED', actorId, actor);
+  await logOrderLifecycleEvent('order_cancelled', order.id, actorId, actor, {
+    from_state: fromState,
+    reason: trimmedReason,
+  });
+
+  if (!refund?.refund_id) {
+    return { success: true, refundInitiated: false };
+  }
+
+  await logOrderEvent(order.id, 'payment_refunded', {
+    from_payment_state: order.payment_state,
+    to_payment_state: 'PAYMENT_REFUNDED',
+    amount: refund.amount,
+    reason: trimmedReason,
+    trigger: 'order_cancelled',
+    refunded_by: actorId,
+    refund_id: refund.refund_id,
+  });
+  await logPaymentEvent('payment_refunded', order.id, actorId, actor, {
+    amount: refund.amount,
+    reason: trimmedReason,
+    trigger: 'order_cancelled',
+  });
+
+  // Paid out only once the cancellation is written; a failed payout stays in the refund ledger
+  const payout = await payOutRefund(refund.refund_id);
+  if (!payout.success) {
+    return { success: true, refundInitiated: true, refundError: `${payout.error}. Retry it from the refund ledger.` };
+  }
+
+  return { success: true, refundInitiated: true };
+}
+
+/**
+ * Put an order ON_HOLD (admin only). The current state is remembered for resume.
+ */
+export async function putOrderOnHold(
+  order: HoldCancelOrder,
+  actorId: string,
+  reason: string
+): Promise<HoldCancelResult> {
+  const fromState = order.order_state as OrderState;
+  const trimmedReason = reason.trim();
+
+  const now = new Date().toISOString();
+  const transition = await transitionOrder(
+    order,
+    'ON_HOLD',
+    'admin',
+    {
+      hold_reason: trimmedReason,
+      hold_previous_state: fromState,
+      held_at: now,
+    },
+    { reason: trimmedReason, held_by: actorId }
+  );
+  if (!transition.success) {
+    return { success: false, error: transition.error };
+  }
+
+  await logStateChange(order.id, fromState, 'ON_HOLD', actorId, 'admin');
+
+  return { success: true };
+}
+
+/**
+ * Resume an order from ON_HOLD to the state it was held in (admin only)
+ */
+export async function resumeOrder(order: HoldCancelOrder, actorId: string): Promise<HoldCancelResult> {
+  const resumeState = order.hold_previous_state as OrderState | null;
+  if (order.order_state !== 'ON_HOLD' || !resumeState) {
+    return { success: false, error: 'Order is not on hold.' };
+  }
+
+  const transition = await transitionOrder(
+    order,
+    resumeState,
+    'admin',
+    {
+      hold_previous_state: null,
+      held_at: null,
+    },
+    { resumed_by: actorId, hold_reason: order.hold_reason }
+  );
+  if (!transition.success) {
+    return { success: false, error: transition.error };
+  }
+
+  await logStateChange(order.id, 'ON_HOLD', resumeState, actorId, 'admin');
+
+  return { success: true };
+}
@@ -1,4 +1,5 @@
 // Order State Machine - Clean state transitions
+// Legacy detailed_status (V1) flow. order_state rules live in orderWorkflow.ts
 export type OrderDetailedStatus =
   | 'created'
   | 'submitted_to_manufacturer'
@@ -2,73 +2,31 @@
  * Order State Machine V2 - Strict Linear State Transitions
  * 
  * This is ADD-ONLY and does not replace the existing orderStateMachine.ts
- * Server-side enforcement is done via database triggers.
+ * Transitions are defined once in orderWorkflow.ts; the database trigger is
+ * generated from the same definition.
  * This file provides client-side helpers for UI and validation.
  */
 
 import { logOrderEvent } from './orderEventLogger';
 import { BuyerPurpose, isCsvRequiredForBulk } from './buyerPurposeValidation';
+import {
+  BUYER_CANCELLABLE_STATES,
+  EXCEPTION_STATES,
+  ORDER_WORKFLOW,
+  ORDER_WORKFLOW_GUARDS,
+  OrderState,
+  buildTransitionMap,
+} from './orderWorkflow';
 
-// Order states in strict linear order
-export type OrderState =
-  | 'DRAFT'
-  | 'SUBMITTED'
-  | 'ADMIN_APPROVED'
-  | 'MANUFACTURER_ASSIGNED'
-  | 'PAYMENT_REQUESTED'
-  | 'PAYMENT_CONFIRMED'
-  | 'SAMPLE_IN_PROGRESS'
-  | 'SAMPLE_QC_UPLOADED'
-  | 'SAMPLE_APPROVED'
-  | 'BULK_UNLOCKED'
-  | 'BULK_IN_PRODUCTION'
-  | 'BULK_QC_UPLOADED'
-  | 'READY_FOR_DISPATCH'
-  | 'DISPATCHED'
-  | 'DELIVERED'
-  | 'COMPLETED';
+export type { OrderState } from './orderWorkflow';
 
-// All states in order (for progress tracking)
-export const ORDER_STATES: OrderState[] = [
-  'DRAFT',
-  'SUBMITTED',
-  'ADMIN_APPROVED',
-  'MANUFACTURER_ASSIGNED',
-  'PAYMENT_REQUESTED',
-  'PAYMENT_CONFIRMED',
-  'SAMPLE_IN_PROGRESS',
-  'SAMPLE_QC_UPLOADED',
-  'SAMPLE_APPROVED',
-  'BULK_UNLOCKED',
-  'BULK_IN_PRODUCTION',
-  'BULK_QC_UPLOADED',
-  'READY_FOR_DISPATCH',
-  'DISPATCHED',
-  'DELIVERED',
-  'COMPLETED',
-];
+// All states in order (for progress tracking) - excludes ON_HOLD / CANCELLED
+export const ORDER_STATES: OrderState[] = ORDER_WORKFLOW.states.filter(
+  state => !EXCEPTION_STATES.includes(state)
+);
 
-// Valid transitions map (mirrors server-side logic)
-// UPDATED: Allow sample QC upload directly after payment (no production start required)
-const VALID_TRANSITIONS: Record<OrderState, OrderState[]> = {
-  DRAFT: ['SUBMITTED'],
-  SUBMITTED: ['ADMIN_APPROVED'],
-  ADMIN_APPROVED: ['MANUFACTURER_ASSIGNED'],
-  MANUFACTURER_ASSIGNED: ['PAYMENT_REQUESTED'],
-  PAYMENT_REQUESTED: ['PAYMENT_CONFIRMED'],
-  // SAMPLE QC workflow: Can upload sample QC directly after payment OR start production first
-  PAYMENT_CONFIRMED: ['SAMPLE_QC_UPLOADED', 'SAMPLE_IN_PROGRESS', 'BULK_IN_PRODUCTION'],
-  SAMPLE_IN_PROGRESS: ['SAMPLE_QC_UPLOADED'],
-  SAMPLE_QC_UPLOADED: ['SAMPLE_APPROVED', 'SAMPLE_IN_PROGRESS'], // Allow rejection loop
-  SAMPLE_APPROVED: ['BULK_UNLOCKED', 'COMPLETED'], // Can complete if sample-only order
-  BULK_UNLOCKED: ['BULK_IN_PRODUCTION'],
-  BULK_IN_PRODUCTION: ['BULK_QC_UPLOADED'],
-  BULK_QC_UPLOADED: ['READY_FOR_DISPATCH', 'BULK_IN_PRODUCTION'], // Allow rejection loop
-  READY_FOR_DISPATCH: ['DISPATCHED'],
-  DISPATCHED: ['DELIVERED'],
-  DELIVERED: ['COMPLETED'],
-  COMPLETED: [],
-};
+// Valid transitions map - derived from the shared workflow definition (mirrors server-side trigger)
+const VALID_TRANSITIONS: Record<OrderState, OrderState[]> = buildTransitionMap(ORDER_WORKFLOW);
 
 // Human-readable labels for each state
 export const STATE_LABELS: Record<OrderState, string> = {
@@ -88,6 +46,8 @@ export const STATE_LABELS: Record<OrderState, string> = {
   DISPATCHED: 'Dispatched',
   DELIVERED: 'Delivered',
   COMPLETED: 'Completed',
+  ON_HOLD: 'On Hold',
+  CANCELLED: 'Cancelled',
 };
 
 // State colors for UI badges
@@ -108,6 +68,8 @@ export const STATE_COLORS: Record<OrderState, string> = {
   DISPATCHED: 'bg-sky-100 text-sky-700 border-sky-300',
   DELIVERED: 'bg-emerald-100 text-emerald-700 border-emerald-300',
   COMPLETED: 'bg-green-200 text-green-800 border-green-400',
+  ON_HOLD: 'bg-slate-200 text-slate-700 border-slate-400',
+  CANCELLED: 'bg-red-100 text-red-700 border-red-300',
 };
 
 /**
@@ -117,9 +79,9 @@ export const STATE_COLORS: Record<OrderState, string> = {
  * @returns boolean - True if transition is allowed
  */
 export function canTransition(from: OrderState | null | undefined, to: OrderState): boolean {
-  // If no current state, only DRAFT is allowed
+  // If no current state, only initial states are allowed
   if (!from) {
-    return to === 'DRAFT';
+    return ORDER_WORKFLOW.initialStates.includes(to);
   }
   
   const allowedTransitions = VALID_TRANSITIONS[from];
@@ -133,7 +95,7 @@ export function canTransition(from: OrderState | null | undefined, to: OrderStat
  */
 export function getValidNextStates(currentState: OrderState | null | undefined): OrderState[] {
   if (!currentState) {
-    return ['DRAFT'];
+    return ORDER_WORKFLOW.initialStates;
   }
   return VALID_TRANSITIONS[currentState] || [];
 }
@@ -147,6 +109,24 @@ export function isTerminalState(state: OrderState): boolean {
   return VALID_TRANSITIONS[state]?.length === 0;
 }
 
+/**
+ * Check if order is on hold or cancelled (outside the linear flow)
+ * @param state - Current order state
+ * @returns boolean - True if state is ON_HOLD or CANCELLED
+ */
+export function isExceptionState(state: OrderState | null | undefined): boolean {
+  return !!state && EXCEPTION_STATES.includes(state);
+}
+
+/**
+ * Check if buyer can cancel the order (only before PAYMENT_CONFIRMED)
+ * @param state - Current order state
+ * @returns boolean - True if buyer can cancel
+ */
+export function canBuyerCancel(state: OrderState | null | undefined): boolean {
+  return !!state && BUYER_CANCELLABLE_STATES.includes(state);
+}
+
 /**
  * Check if buyer can edit the order (only in DRAFT state)
  * @param state - Current order state
@@ -272,7 +252,7 @@ export function validateTransition(
   }
   
   if (!from) {
-    return `Orders must start in DRAFT state. Cannot create order in ${to} state.`;
+    return `Orders must start in ${ORDER_WORKFLOW.initialStates.join(' or ')} state. Cannot create order in ${to} state.`;
   }
   
   if (isTerminalState(from)) {
@@ -349,7 +329,7 @@ export function validateCsvForBulkTransition(
   if (!hasCsvUploaded(data)) {
     return {
       allowed: false,
-      reason: 'CSV required before bulk production. Please upload CSV with sizes and names.',
+      reason: ORDER_WORKFLOW_GUARDS.csv_for_bulk.message,
     };
   }
   
@@ -26,6 +26,7 @@ export type OrderIntent = typeof ORDER_INTENT[keyof typeof ORDER_INTENT];
 // upfront_payable_amount = UPFRONT_PAYMENT_RATIO * total_order_value
 // remaining = (1 - UPFRONT_PAYMENT_RATIO) * total_order_value (released later)
 
+/** @deprecated Legacy fixed split; new orders use milestone schedules (paymentSchedule.ts) */
 export const PAYMENT_CONSTANTS = {
   UPFRONT_PAYMENT_RATIO: 0.55, // 55% paid upfront
   REMAINING_PAYMENT_RATIO: 0.45, // 45% released after delivery
@@ -0,0 +1,347 @@
+/**
+ * Order Workflow Definition - Single Source of Truth
+ *
+ * Declarative description of every state machine an order moves through:
+ * - ORDER_WORKFLOW: order_state (V2 lifecycle)
+ * - PAYMENT_WORKFLOW: payment_state (escrow)
+ * - DELIVERY_WORKFLOW: delivery_status
+ * - RMA_WORKFLOW / REMAKE_WORKFLOW: returns raised after delivery (order_rmas)
+ *
+ * Each transition lists the actor roles allowed to perform it, the guards that
+ * must pass and the order events emitted once it succeeds.
+ *
+ * The client state machines (orderStateMachineV2.ts, paymentStateMachine.ts,
+ * deliveryStateMachine.ts, stateChangeLogger.ts) derive their transition maps
+ * from here, and the validate_order_state_transition trigger is generated from
+ * ORDER_WORKFLOW by `npm run workflow:sql` (see orderWorkflowSql.ts).
+ *
+ * This module must stay free of runtime imports (no Supabase client) so the
+ * SQL generator can load it outside the browser.
+ */
+
+import type { OrderEventType } from './orderEventLogger';
+import type { PaymentState } from './paymentStateMachine';
+import type { DeliveryState } from './deliveryStateMachine';
+import type { RemakeStatus, RmaStatus } from './rma';
+
+export type WorkflowActor = 'buyer' | 'manufacturer' | 'admin' | 'system';
+
+// Order states in strict linear order
+export type OrderState =
+  | 'DRAFT'
+  | 'SUBMITTED'
+  | 'ADMIN_APPROVED'
+  | 'MANUFACTURER_ASSIGNED'
+  | 'PAYMENT_REQUESTED'
+  | 'PAYMENT_CONFIRMED'
+  | 'SAMPLE_IN_PROGRESS'
+  | 'SAMPLE_QC_UPLOADED'
+  | 'SAMPLE_APPROVED'
+  | 'BULK_UNLOCKED'
+  | 'BULK_IN_PRODUCTION'
+  | 'BULK_QC_UPLOADED'
+  | 'READY_FOR_DISPATCH'
+  | 'DISPATCHED'
+  | 'DELIVERED'
+  | 'COMPLETED'
+  // Exception states (outside the linear flow)
+  | 'ON_HOLD'
+  | 'CANCELLED';
+
+/**
+ * Named guards that can be attached to order transitions.
+ * Client-side evaluation lives in orderWorkflowEngine.ts, server-side
+ * evaluation uses the `sql` predicate below (evaluated against NEW).
+ */
+export type OrderWorkflowGuard =
+  | 'csv_for_bulk'
+  | 'specs_locked'
+  | 'cancellation_reason'
+  | 'hold_reason'
+  | 'resume_previous_state';
+
+export interface WorkflowGuardDefinition {
+  description: string;
+  message: string;
+  sql: string;
+}
+
+export const ORDER_WORKFLOW_GUARDS: Record<OrderWorkflowGuard, WorkflowGuardDefinition> = {
+  csv_for_bulk: {
+    description: 'CSV with sizes and names is required before bulk production (merch_bulk only)',
+    message: 'CSV required before bulk production. Please upload CSV with sizes and names.',
+    sql: "NEW.buyer_purpose IS DISTINCT FROM 'merch_bulk' OR NEW.corrected_csv_url IS NOT NULL",
+  },
+  specs_locked: {
+    description: 'Specs must be locked by admin before production can start',
+    message: 'Specs must be locked by admin before production can start.',
+    sql: 'NEW.specs_locked IS TRUE',
+  },
+  cancellation_reason: {
+    description: 'A cancellation reason must be recorded',
+    message: 'A reason is required to cancel an order.',
+    sql: "NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL",
+  },
+  hold_reason: {
+    description: 'A hold reason must be recorded',
+    message: 'A reason is required to put an order on hold.',
+    sql: "NULLIF(trim(NEW.hold_reason), '') IS NOT NULL",
+  },
+  resume_previous_state: {
+    description: 'An order on hold can only resume to the state it was held in',
+    message: 'Order can only resume to the state it was in before being put on hold.',
+    sql: 'OLD.hold_previous_state = NEW.order_state::text',
+  },
+};
+
+export interface WorkflowTransition<S extends string, G extends string = never> {
+  from: S;
+  to: S;
+  actors: WorkflowActor[];
+  guards?: G[];
+  events?: OrderEventType[];
+  // Column assignments applied by the generated trigger when this transition fires
+  sqlSetters?: string[];
+}
+
+export interface WorkflowSqlBinding {
+  table: string;
+  column: string;
+  functionName: string;
+  triggerName: string;
+}
+
+export interface WorkflowDefinition<S extends string, G extends string = never> {
+  name: string;
+  states: S[];
+  // States a row may be created in (transition from NULL)
+  initialStates: S[];
+  transitions: WorkflowTransition<S, G>[];
+  // Present only for workflows enforced by a generated database trigger
+  sql?: WorkflowSqlBinding;
+}
+
+// Order states outside the linear happy path
+export const EXCEPTION_STATES: OrderState[] = ['ON_HOLD', 'CANCELLED'];
+
+// Buyer may cancel only before payment is confirmed; admin may cancel any non-terminal order
+export const BUYER_CANCELLABLE_STATES: OrderState[] = [
+  'DRAFT',
+  'SUBMITTED',
+  'ADMIN_APPROVED',
+  'MANUFACTURER_ASSIGNED',
+  'PAYMENT_REQUESTED',
+];
+
+// States an admin can put on hold (and resume back to)
+export const HOLDABLE_STATES: OrderState[] = [
+  'SUBMITTED',
+  'ADMIN_APPROVED',
+  'MANUFACTURER_ASSIGNED',
+  'PAYMENT_REQUESTED',
+  'PAYMENT_CONFIRMED',
+  'SAMPLE_IN_PROGRESS',
+  'SAMPLE_QC_UPLOADED',
+  'SAMPLE_APPROVED',
+  'BULK_UNLOCKED',
+  'BULK_IN_PRODUCTION',
+  'BULK_QC_UPLOADED',
+  'READY_FOR_DISPATCH',
+  'DISPATCHED',
+  'DELIVERED',
+];
+
+const CANCELLED_SQL_SETTERS = ['NEW.cancelled_at := now()', 'NEW.cancelled_by := auth.uid()'];
+
+function buildCancellationTransitions(): WorkflowTransition<OrderState, OrderWorkflowGuard>[] {
+  const cancellableStates: OrderState[] = ['DRAFT', ...HOLDABLE_STATES, 'ON_HOLD'];
+  return cancellableStates.map((from): WorkflowTransition<OrderState, OrderWorkflowGuard> => ({
+    from,
+    to: 'CANCELLED',
+    actors: BUYER_CANCELLABLE_STATES.includes(from) ? ['buyer', 'admin'] : ['admin'],
+    guards: ['cancellation_reason'],
+    events: ['order_cancelled'],
+    sqlSetters: CANCELLED_SQL_SETTERS,
+  }));
+}
+
+function buildHoldTransitions(): WorkflowTransition<OrderState, OrderWorkflowGuard>[] {
+  return HOLDABLE_STATES.flatMap((state): WorkflowTransition<OrderState, OrderWorkflowGuard>[] => [
+    {
+      from: state,
+      to: 'ON_HOLD',
+      actors: ['admin'],
+      guards: ['hold_reason'],
+      events: ['order_put_on_hold'],
+      sqlSetters: ['NEW.hold_previous_state := OLD.order_state::text', 'NEW.held_at := now()'],
+    },
+    {
+      from: 'ON_HOLD',
+      to: state,
+      actors: ['admin'],
+      guards: ['resume_previous_state'],
+      events: ['order_resumed'],
+      sqlSetters: ['NEW.hold_previous_state := NULL', 'NEW.held_at := NULL'],
+    },
+  ]);
+}
+
+export const ORDER_WORKFLOW: WorkflowDefinition<OrderState, OrderWorkflowGuard> = {
+  name: 'order',
+  states: [
+    'DRAFT',
+    'SUBMITTED',
+    'ADMIN_APPROVED',
+    'MANUFACTURER_ASSIGNED',
+    'PAYMENT_REQUESTED',
+    'PAYMENT_CONFIRMED',
+    'SAMPLE_IN_PROGRESS',
+    'SAMPLE_QC_UPLOADED',
+    'SAMPLE_APPROVED',
+    'BULK_UNLOCKED',
+    'BULK_IN_PRODUCTION',
+    'BULK_QC_UPLOADED',
+    'READY_FOR_DISPATCH',
+    'DISPATCHED',
+    'DELIVERED',
+    'COMPLETED',
+    'ON_HOLD',
+    'CANCELLED',
+  ],
+  initialStates: ['DRAFT', 'SUBMITTED'],
+  transitions: [
+    { from: 'DRAFT', to: 'SUBMITTED', actors: ['buyer'], events: ['order_submitted_for_review'] },
+    { from: 'SUBMITTED', to: 'ADMIN_APPROVED', actors: ['admin'], events: ['admin_approved'] },
+    { from: 'ADMIN_APPROVED', to: 'MANUFACTURER_ASSIGNED', actors: ['admin'], events: ['manufacturer_assigned'] },
+    { from: 'MANUFACTURER_ASSIGNED', to: 'PAYMENT_REQUESTED', actors: ['admin'], events: ['payment_requested'] },
+    { from: 'PAYMENT_REQUESTED', to: 'PAYMENT_CONFIRMED', actors: ['admin', 'system'], events: ['payment_confirmed'] },
+    // SAMPLE QC workflow: Can upload sample QC directly after payment OR start production first
+    { from: 'PAYMENT_CONFIRMED', to: 'SAMPLE_QC_UPLOADED', actors: ['manufacturer', 'admin'], guards: ['specs_locked'], events: ['qc_uploaded'] },
+    { from: 'PAYMENT_CONFIRMED', to: 'SAMPLE_IN_PROGRESS', actors: ['manufacturer', 'admin'], guards: ['specs_locked'], events: ['sample_production_started'] },
+    { from: 'PAYMENT_CONFIRMED', to: 'BULK_IN_PRODUCTION', actors: ['manufacturer', 'admin'], guards: ['specs_locked', 'csv_for_bulk'], events: ['bulk_production_started'] },
+    { from: 'SAMPLE_IN_PROGRESS', to: 'SAMPLE_QC_UPLOADED', actors: ['manufacturer', 'admin'], events: ['qc_uploaded'] },
+    { from: 'SAMPLE_QC_UPLOADED', to: 'SAMPLE_APPROVED', actors: ['buyer', 'admin'], events: ['qc_approved'] },
+    // Rejection loop
+    { from: 'SAMPLE_QC_UPLOADED', to: 'SAMPLE_IN_PROGRESS', actors: ['buyer', 'admin'], events: ['qc_rejected'] },
+    { from: 'SAMPLE_APPROVED', to: 'BULK_UNLOCKED', actors: ['buyer', 'admin', 'system'], guards: ['csv_for_bulk'], events: ['bulk_unlocked'] },
+    // Sample-only orders complete straight after approval
+    { from: 'SAMPLE_APPROVED', to: 'COMPLETED', actors: ['buyer', 'admin', 'system'], events: ['sample_completed'] },
+    { from: 'BULK_UNLOCKED', to: 'BULK_IN_PRODUCTION', actors: ['manufacturer', 'admin'], guards: ['specs_locked', 'csv_for_bulk'], events: ['bulk_production_started'] },
+    { from: 'BULK_IN_PRODUCTION', to: 'BULK_QC_UPLOADED', actors: ['manufacturer', 'admin'], events: ['bulk_qc_uploaded'] },
+    { from: 'BULK_QC_UPLOADED', to: 'READY_FOR_DISPATCH', actors: ['buyer', 'admin'], events: ['bulk_qc_approved'] },
+    // Rejection loop
+    { from: 'BULK_QC_UPLOADED', to: 'BULK_IN_PRODUCTION', actors: ['buyer', 'admin'], events: ['bulk_qc_rejected'] },
+    { from: 'READY_FOR_DISPATCH', to: 'DISPATCHED', actors: ['admin', 'system'], events: ['dispatched'] },
+    { from: 'DISPATCHED', to: 'DELIVERED', actors: ['admin', 'buyer', 'system'], events: ['order_delivered'] },
+    { from: 'DELIVERED', to: 'COMPLETED', actors: ['admin', 'buyer', 'system'] },
+    ...buildCancellationTransitions(),
+    ...buildHoldTransitions(),
+  ],
+  sql: {
+    table: 'orders',
+    column: 'order_state',
+    functionName: 'validate_order_state_transition',
+    triggerName: 'enforce_order_state_transition',
+  },
+};
+
+export const PAYMENT_WORKFLOW: WorkflowDefinition<PaymentState> = {
+  name: 'payment',
+  states: [
+    'PAYMENT_INITIATED',
+    'PAYMENT_HELD',
+    'PAYMENT_RELEASABLE',
+    'PAYMENT_RELEASED',
+    'PAYMENT_REFUNDED',
+  ],
+  initialStates: ['PAYMENT_INITIATED'],
+  transitions: [
+    { from: 'PAYMENT_INITIATED', to: 'PAYMENT_HELD', actors: ['system', 'buyer'], events: ['payment_held'] },
+    { from: 'PAYMENT_HELD', to: 'PAYMENT_RELEASABLE', actors: ['system'], events: ['payment_releasable'] },
+    { from: 'PAYMENT_RELEASABLE', to: 'PAYMENT_RELEASED', actors: ['system', 'admin'], events: ['payment_released'] },
+    // Refunds - ADMIN ONLY (no refund after release)
+    { from: 'PAYMENT_INITIATED', to: 'PAYMENT_REFUNDED', actors: ['admin'], events: ['payment_refunded'] },
+    { from: 'PAYMENT_HELD', to: 'PAYMENT_REFUNDED', actors: ['admin'], events: ['payment_refunded'] },
+    { from: 'PAYMENT_RELEASABLE', to: 'PAYMENT_REFUNDED', actors: ['admin'], events: ['payment_refunded'] },
+  ],
+};
+
+export const DELIVERY_WORKFLOW: WorkflowDefinition<DeliveryState> = {
+  name: 'delivery',
+  states: ['NOT_STARTED', 'PACKED', 'PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED'],
+  initialStates: ['NOT_STARTED'],
+  transitions: [
+    { from: 'NOT_STARTED', to: 'PACKED', actors: ['manufacturer'], events: ['order_packed'] },
+    { from: 'PACKED', to: 'PICKUP_SCHEDULED', actors: ['admin'], events: ['pickup_scheduled'] },
+    { from: 'PICKUP_SCHEDULED', to: 'IN_TRANSIT', actors: ['admin', 'system'], events: ['in_transit'] },
+    { from: 'IN_TRANSIT', to: 'DELIVERED', actors: ['admin', 'system'], events: ['order_delivered'] },
+  ],
+};
+
+export const RMA_WORKFLOW: WorkflowDefinition<RmaStatus> = {
+  name: 'rma',
+  states: ['requested', 'approved', 'rejected', 'withdrawn', 'closed'],
+  initialStates: ['requested'],
+  transitions: [
+    { from: 'requested', to: 'approved', actors: ['admin'], events: ['rma_approved'] },
+    { from: 'requested', to: 'rejected', actors: ['admin'], events: ['rma_rejected'] },
+    { from: 'requested', to: 'withdrawn', actors: ['buyer'], events: ['rma_withdrawn'] },
+    // Refund without a return closes on approval, otherwise once the return or
+    // the replacements are delivered
+    { from: 'approved', to: 'closed', actors: ['admin', 'system'], events: ['rma_closed'] },
+  ],
+};
+
+// Replacements of an approved remake RMA; shipping follows the replacement shipment
+export const REMAKE_WORKFLOW: WorkflowDefinition<RemakeStatus> = {
+  name: 'remake',
+  states: ['awaiting_return', 'not_started', 'in_production', 'packed', 'shipped', 'delivered'],
+  initialStates: ['awaiting_return', 'not_started'],
+  transitions: [
+    { from: 'awaiting_return', to: 'not_started', actors: ['admin', 'system'], events: ['rma_return_received'] },
+    { from: 'not_started', to: 'in_production', actors: ['manufacturer', 'admin'], events: ['remake_started'] },
+    { from: 'in_production', to: 'packed', actors: ['manufacturer', 'admin'], events: ['remake_packed'] },
+    { from: 'packed', to: 'shipped', actors: ['admin'], events: ['remake_shipped'] },
+    { from: 'shipped', to: 'delivered', actors: ['admin', 'system'], events: ['remake_delivered'] },
+  ],
+};
+
+/**
+ * Build a from → [to] map for a workflow
+ */
+export function buildTransitionMap<S extends string, G extends string>(
+  workflow: WorkflowDefinition<S, G>
+): Record<S, S[]> {
+  const map = {} as Record<S, S[]>;
+  for (const state of workflow.states) {
+    map[state] = [];
+  }
+  for (const transition of workflow.transitions) {
+    map[transition.from].push(transition.to);
+  }
+  return map;
+}
+
+/**
+ * Build a "FROM->TO" → allowed actors map for a workflow
+ */
+export function buildTransitionPermissions<S extends string, G extends string>(
+  workflow: WorkflowDefinition<S, G>
+): Record<string, WorkflowActor[]> {
+  const permissions: Record<string, WorkflowActor[]> = {};
+  for (const transition of workflow.transitions) {
+    permissions[`${transition.from}->${transition.to}`] = transition.actors;
+  }
+  return permissions;
+}
+
+/**
+ * Find the transition definition between two states
+ */
+export function findTransition<S extends string, G extends string>(
+  workflow: WorkflowDefinition<S, G>,
+  from: S,
+  to: S
+): WorkflowTransition<S, G> | undefined {
+  return workflow.transitions.find(t => t.from === from && t.to === to);
+}
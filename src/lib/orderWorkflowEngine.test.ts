@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { updateBuilder, logOrderEvent } = vi.hoisted(() => {
+  const builder = {
+    update: vi.fn(),
+    eq: vi.fn(),
+    select: vi.fn(),
+    maybeSingle: vi.fn(),
+  };
+  builder.update.mockReturnValue(builder);
+  builder.eq.mockReturnValue(builder);
+  builder.select.mockReturnValue(builder);
+  return { updateBuilder: builder, logOrderEvent: vi.fn() };
+});
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(() => updateBuilder) },
+}));
+
+vi.mock('./orderEventLogger', () => ({ logOrderEvent }));
+
+import { checkOrderTransition, OrderWorkflowContext, transitionOrder } from './orderWorkflowEngine';
+import { ORDER_WORKFLOW_GUARDS } from './orderWorkflow';
+
+const order = (overrides: Partial<OrderWorkflowContext> = {}): OrderWorkflowContext => ({
+  id: 'order-1',
+  order_state: 'SUBMITTED',
+  buyer_purpose: 'blank_apparel',
+  specs_locked: true,
+  ...overrides,
+});
+
+describe('checkOrderTransition', () => {
+  describe('actors', () => {
+    it('allows a declared actor', () => {
+      expect(checkOrderTransition(order(), 'ADMIN_APPROVED', 'admin')).toEqual({ allowed: true });
+    });
+
+    it('rejects an actor the transition does not list', () => {
+      const result = checkOrderTransition(order(), 'ADMIN_APPROVED', 'manufacturer');
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain('Only admin can');
+    });
+
+    it('lets the system confirm payment but not a buyer', () => {
+      const requested = order({ order_state: 'PAYMENT_REQUESTED' });
+      expect(checkOrderTransition(requested, 'PAYMENT_CONFIRMED', 'system').allowed).toBe(true);
+      expect(checkOrderTransition(requested, 'PAYMENT_CONFIRMED', 'buyer').allowed).toBe(false);
+    });
+
+    it('lets a buyer cancel only before payment is confirmed', () => {
+      const reason = { cancellation_reason: 'Changed my mind' };
+      expect(checkOrderTransition(order({ order_state: 'PAYMENT_REQUESTED', ...reason }), 'CANCELLED', 'buyer').allowed).toBe(true);
+      expect(checkOrderTransition(order({ order_state: 'PAYMENT_CONFIRMED', ...reason }), 'CANCELLED', 'buyer').allowed).toBe(false);
+      expect(checkOrderTransition(order({ order_state: 'PAYMENT_CONFIRMED', ...reason }), 'CANCELLED', 'admin').allowed).toBe(true);
+    });
+
+    it('allows only admins to hold and resume orders', () => {
+      const held = order({ order_state: 'ON_HOLD', hold_previous_state: 'SUBMITTED' });
+      expect(checkOrderTransition(order({ hold_reason: 'Stock check' }), 'ON_HOLD', 'buyer').allowed).toBe(false);
+      expect(checkOrderTransition(held, 'SUBMITTED', 'manufacturer').allowed).toBe(false);
+      expect(checkOrderTransition(held, 'SUBMITTED', 'admin').allowed).toBe(true);
+    });
+  });
+
+  describe('guards', () => {
+    it('rejects transitions the workflow does not declare before checking the actor', () => {
+      const result = checkOrderTransition(order(), 'DELIVERED', 'admin');
+      expect(result.allowed).toBe(false);
+      expect(result.guard).toBeUndefined();
+    });
+
+    it('requires a cancellation reason', () => {
+      const result = checkOrderTransition(order({ cancellation_reason: '  ' }), 'CANCELLED', 'admin');
+      expect(result).toEqual({
+        allowed: false,
+        reason: ORDER_WORKFLOW_GUARDS.cancellation_reason.message,
+        guard: 'cancellation_reason',
+      });
+    });
+
+    it('requires a hold reason', () => {
+      const result = checkOrderTransition(order(), 'ON_HOLD', 'admin');
+      expect(result.allowed).toBe(false);
+      expect(result.guard).toBe('hold_reason');
+      expect(checkOrderTransition(order({ hold_reason: 'Stock check' }), 'ON_HOLD', 'admin').allowed).toBe(true);
+    });
+
+    it('resumes only to the state the order was held in', () => {
+      const held = order({ order_state: 'ON_HOLD', hold_previous_state: 'PAYMENT_CONFIRMED' });
+      const result = checkOrderTransition(held, 'SUBMITTED', 'admin');
+      expect(result.allowed).toBe(false);
+      expect(result.guard).toBe('resume_previous_state');
+      expect(checkOrderTransition(held, 'PAYMENT_CONFIRMED', 'admin').allowed).toBe(true);
+    });
+
+    it('requires locked specs before production', () => {
+      const result = checkOrderTransition(
+        order({ order_state: 'PAYMENT_CONFIRMED', specs_locked: false }),
+        'SAMPLE_IN_PROGRESS',
+        'manufacturer'
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.guard).toBe('specs_locked');
+    });
+
+    it('requires a CSV before bulk production of merch orders only', () => {
+      const merch = order({ order_state: 'PAYMENT_CONFIRMED', buyer_purpose: 'merch_bulk' });
+      const result = checkOrderTransition(merch, 'BULK_IN_PRODUCTION', 'manufacturer');
+      expect(result.allowed).toBe(false);
+      expect(result.guard).toBe('csv_for_bulk');
+      expect(result.reason).toBe(ORDER_WORKFLOW_GUARDS.csv_for_bulk.message);
+
+      expect(checkOrderTransition({ ...merch, corrected_csv_url: 'orders/1/sizes.csv' }, 'BULK_IN_PRODUCTION', 'manufacturer').allowed).toBe(true);
+      expect(checkOrderTransition({ ...merch, buyer_purpose: 'blank_apparel' }, 'BULK_IN_PRODUCTION', 'manufacturer').allowed).toBe(true);
+    });
+  });
+});
+
+describe('transitionOrder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('writes only while the order is still in its current state and logs the transition events', async () => {
+    updateBuilder.maybeSingle.mockResolvedValueOnce({ data: { id: 'order-1', order_state: 'ADMIN_APPROVED' }, error: null });
+
+    const result = await transitionOrder(order(), 'ADMIN_APPROVED', 'admin', { admin_notes: 'ok' });
+
+    expect(result).toEqual({ success: true });
+    expect(updateBuilder.update).toHaveBeenCalledWith(expect.objectContaining({ order_state: 'ADMIN_APPROVED', admin_notes: 'ok' }));
+    expect(updateBuilder.eq).toHaveBeenCalledWith('order_state', 'SUBMITTED');
+    expect(logOrderEvent).toHaveBeenCalledWith('order-1', 'admin_approved', expect.objectContaining({ actor: 'admin' }));
+  });
+
+  it('fails without side effects when another user changed the order first', async () => {
+    updateBuilder.maybeSingle.mockResolvedValueOnce({ data: null, error: null });
+
+    const result = await transitionOrder(order(), 'ADMIN_APPROVED', 'admin');
+
+    expect(result.success).toBe(false);
+    expect(logOrderEvent).not.toHaveBeenCalled();
+  });
+
+  it('does not write when the check fails', async () => {
+    const result = await transitionOrder(order(), 'ADMIN_APPROVED', 'buyer');
+
+    expect(result.success).toBe(false);
+    expect(updateBuilder.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Order Workflow Engine
+ *
+ * Client-side evaluation of the declarative ORDER_WORKFLOW:
+ * - Actor role permissions per transition
+ * - Guards (CSV for bulk, specs locked) using the existing guard helpers
+ * - Side-effect hooks (order events) after a successful transition
+ * - transitionOrder: check, write and run the hooks in one call - the way every
+ *   order_state change in the app goes
+ *
+ * The database trigger enforces the same rules (generated from orderWorkflow.ts).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import {
+  ORDER_WORKFLOW,
+  ORDER_WORKFLOW_GUARDS,
+  OrderState,
+  OrderWorkflowGuard,
+  WorkflowActor,
+  findTransition,
+} from './orderWorkflow';
+import { validateTransition, validateCsvForBulkTransition } from './orderStateMachineV2';
+import { canStartProduction } from './executionGates';
+import { BuyerPurpose } from './buyerPurposeValidation';
+import { logOrderEvent } from './orderEventLogger';
+
+export interface OrderWorkflowContext {
+  id: string;
+  order_state: string | null;
+  buyer_purpose?: string | null;
+  corrected_csv_url?: string | null;
+  csv_file_url?: string | null;
+  specs_locked?: boolean | null;
+  cancellation_reason?: string | null;
+  hold_reason?: string | null;
+  hold_previous_state?: string | null;
+}
+
+export interface WorkflowCheckResult {
+  allowed: boolean;
+  reason?: string;
+  guard?: OrderWorkflowGuard;
+}
+
+export interface OrderTransitionResult {
+  success: boolean;
+  error?: string;
+}
+
+// Columns written together with the state change (order_state itself is set by transitionOrder)
+export type OrderTransitionUpdates = Omit<Database['public']['Tables']['orders']['Update'], 'order_state'>;
+
+type GuardEvaluator = (order: OrderWorkflowContext, to: OrderState) => { allowed: boolean; reason?: string };
+
+const GUARD_EVALUATORS: Record<OrderWorkflowGuard, GuardEvaluator> = {
+  csv_for_bulk: (order, to) =>
+    validateCsvForBulkTransition(to, {
+      orderId: order.id,
+      buyerPurpose: (order.buyer_purpose as BuyerPurpose) || null,
+      csvFileUrl: order.csv_file_url,
+      correctedCsvUrl: order.corrected_csv_url,
+    }),
+  specs_locked: (order) =>
+    canStartProduction({
+      id: order.id,
+      order_state: order.order_state,
+      specs_locked: order.specs_locked ?? null,
+      admin_qc_approved: null,
+      sample_qc_uploaded_at: null,
+      bulk_qc_uploaded_at: null,
+      sample_approved_at: null,
+      bulk_qc_approved_at: null,
+      order_mode: null,
+    }),
+  cancellation_reason: (order) =>
+    order.cancellation_reason?.trim()
+      ? { allowed: true }
+      : { allowed: false, reason: ORDER_WORKFLOW_GUARDS.cancellation_reason.message },
+  hold_reason: (order) =>
+    order.hold_reason?.trim()
+      ? { allowed: true }
+      : { allowed: false, reason: ORDER_WORKFLOW_GUARDS.hold_reason.message },
+  resume_previous_state: (order, to) =>
+    order.hold_previous_state === to
+      ? { allowed: true }
+      : { allowed: false, reason: ORDER_WORKFLOW_GUARDS.resume_previous_state.message },
+};
+
+/**
+ * Check whether an actor may move an order to the target state.
+ * Validates the transition, the actor role and every guard attached to it.
+ * Pass the order with the values about to be written (e.g. cancellation_reason).
+ */
+export function checkOrderTransition(
+  order: OrderWorkflowContext,
+  to: OrderState,
+  actor: WorkflowActor
+): WorkflowCheckResult {
+  const from = order.order_state as OrderState | null;
+
+  const transitionError = validateTransition(from, to);
+  if (transitionError) {
+    return { allowed: false, reason: transitionError };
+  }
+
+  // Initial states (creation) carry no actor or guard rules
+  if (!from) {
+    return { allowed: true };
+  }
+
+  const transition = findTransition(ORDER_WORKFLOW, from, to);
+  if (!transition.actors.includes(actor)) {
+    return {
+      allowed: false,
+      reason: `${actor} cannot perform transition ${from} → ${to}. Only ${transition.actors.join(', ')} can.`,
+    };
+  }
+
+  for (const guard of transition.guards || []) {
+    const result = GUARD_EVALUATORS[guard](order, to);
+    if (!result.allowed) {
+      return { allowed: false, reason: result.reason, guard };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Run side-effect hooks declared on a transition (order event logging).
+ * Call after the order row has been updated successfully.
+ */
+export async function runOrderTransitionEffects(
+  orderId: string,
+  from: OrderState,
+  to: OrderState,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  const transition = findTransition(ORDER_WORKFLOW, from, to);
+  if (!transition?.events) return;
+
+  for (const eventType of transition.events) {
+    await logOrderEvent(orderId, eventType, {
+      from_state: from,
+      to_state: to,
+      ...metadata,
+    });
+  }
+}
+
+/**
+ * Move an order to the target state: checks the transition for the actor, writes the new
+ * state with the given columns, then runs the transition's hooks (order events, with the
+ * given metadata). The write only applies while the order is still in its current state,
+ * so a transition raced by another user fails instead of overwriting it.
+ */
+export async function transitionOrder(
+  order: OrderWorkflowContext,
+  to: OrderState,
+  actor: WorkflowActor,
+  updates: OrderTransitionUpdates = {},
+  metadata?: Record<string, unknown>
+): Promise<OrderTransitionResult> {
+  const from = order.order_state as OrderState;
+
+  const check = checkOrderTransition({ ...order, ...(updates as Partial<OrderWorkflowContext>) }, to, actor);
+  if (!check.allowed) {
+    return { success: false, error: check.reason };
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('orders')
+    .update({
+      ...updates,
+      order_state: to,
+      state_updated_at: now,
+      updated_at: now,
+    })
+    .eq('id', order.id)
+    .eq('order_state', from)
+    .select('id, order_state')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[OrderWorkflowEngine] Transition error:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data || data.order_state !== to) {
+    return { success: false, error: 'The order has changed in the meantime - please refresh and try again' };
+  }
+
+  await runOrderTransitionEffects(order.id, from, to, { actor, ...metadata });
+  return { success: true };
+}
@@ -0,0 +1,113 @@
+/**
+ * Order Workflow SQL Generator
+ *
+ * Renders the plpgsql trigger function that enforces a workflow definition
+ * (transitions, actor roles and guard predicates) on the database.
+ * Used by scripts/generateWorkflowSql.ts - do not hand-edit the generated
+ * migrations, change orderWorkflow.ts and regenerate instead.
+ */
+
+import {
+  ORDER_WORKFLOW_GUARDS,
+  WorkflowActor,
+  WorkflowDefinition,
+  WorkflowGuardDefinition,
+} from './orderWorkflow';
+
+const sqlString = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * SQL expression that is true when the current user may act as one of the given roles.
+ * 'system' maps to requests without an authenticated user (service role, cron, triggers).
+ */
+function actorCondition(actors: WorkflowActor[]): string {
+  const checks = actors.map(actor =>
+    actor === 'system'
+      ? 'auth.uid() IS NULL'
+      : `has_role(auth.uid(), ${sqlString(actor)}::app_role)`
+  );
+  return checks.join(' OR ');
+}
+
+/**
+ * First line of every migration generated for a workflow - identifies them among the migrations
+ */
+export function generatedWorkflowSqlHeader(workflowName: string): string {
+  return `-- GENERATED FROM src/lib/orderWorkflow.ts (${workflowName} workflow). DO NOT EDIT BY HAND.`;
+}
+
+/**
+ * Generate the CREATE OR REPLACE FUNCTION + trigger statements for a workflow
+ */
+export function generateTransitionTriggerSql<S extends string, G extends string>(
+  workflow: WorkflowDefinition<S, G>,
+  guards: Record<string, WorkflowGuardDefinition> = ORDER_WORKFLOW_GUARDS
+): string {
+  if (!workflow.sql) {
+    throw new Error(`Workflow "${workflow.name}" has no SQL binding`);
+  }
+
+  const { table, column, functionName, triggerName } = workflow.sql;
+  const initialStates = workflow.initialStates.map(sqlString).join(', ');
+
+  const transitionBlocks = workflow.transitions.map(transition => {
+    const lines: string[] = [];
+    lines.push(`  IF OLD.${column}::text = ${sqlString(transition.from)} AND NEW.${column}::text = ${sqlString(transition.to)} THEN`);
+    lines.push(`    IF NOT (${actorCondition(transition.actors)}) THEN`);
+    lines.push(`      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: ${transition.actors.join(', ')}.', OLD.${column}, NEW.${column};`);
+    lines.push('    END IF;');
+    for (const guardName of transition.guards || []) {
+      const guard = guards[guardName];
+      if (!guard) {
+        throw new Error(`Unknown guard "${guardName}" on ${transition.from} -> ${transition.to}`);
+      }
+      lines.push(`    -- Guard: ${guardName}`);
+      lines.push(`    IF NOT (${guard.sql}) THEN`);
+      lines.push(`      RAISE EXCEPTION ${sqlString(guard.message)};`);
+      lines.push('    END IF;');
+    }
+    for (const setter of transition.sqlSetters || []) {
+      lines.push(`    ${setter};`);
+    }
+    lines.push(`    NEW.state_updated_at := now();`);
+    lines.push('    RETURN NEW;');
+    lines.push('  END IF;');
+    return lines.join('\n');
+  });
+
+  return `${generatedWorkflowSqlHeader(workflow.name)}
+-- Regenerate with: npm run workflow:sql
+CREATE OR REPLACE FUNCTION public.${functionName}()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- If ${column} is not changing, allow the update
+  IF OLD.${column} IS NOT DISTINCT FROM NEW.${column} THEN
+    RETURN NEW;
+  END IF;
+
+  -- If old state is NULL, only allow initial states
+  IF OLD.${column} IS NULL THEN
+    IF NEW.${column}::text IN (${initialStates}) THEN
+      NEW.state_updated_at := now();
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Invalid state transition: NULL -> %. Must start in one of: ${workflow.initialStates.join(', ')}.', NEW.${column};
+  END IF;
+
+${transitionBlocks.join('\n\n')}
+
+  RAISE EXCEPTION 'Invalid state transition: % -> %. This transition is not allowed.', OLD.${column}, NEW.${column};
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS ${triggerName} ON public.${table};
+CREATE TRIGGER ${triggerName}
+  BEFORE UPDATE ON public.${table}
+  FOR EACH ROW
+  EXECUTE FUNCTION public.${functionName}();
+`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Payment Gateway (client)
+ *
+ * Thin wrapper around the payment-gateway edge function. The provider
+ * (Razorpay or the local simulator) is selected server-side by PAYMENT_PROVIDER.
+ *
+ * Rules:
+ * - Payment capture is applied ONLY by the signed payment-webhook
+ *   (PAYMENT_INITIATED → PAYMENT_HELD, PAYMENT_REQUESTED → PAYMENT_CONFIRMED)
+ * - Duplicate webhook deliveries are recorded but never applied twice
+ * - Admin "Confirm Payment Received" remains for payments made outside the gateway
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type PaymentProviderName = 'razorpay' | 'simulator';
+
+export type PaymentIntentStatus = 'created' | 'captured' | 'failed' | 'refunded';
+
+export interface PaymentIntent {
+  id: string;
+  order_id: string;
+  provider: string;
+  provider_order_id: string;
+  provider_payment_id: string | null;
+  amount: number;
+  currency: string;
+  status: string;
+  checkout_url: string | null;
+  failure_reason: string | null;
+  provider_refund_id: string | null;
+  refunded_amount: number;
+  captured_at: string | null;
+  refunded_at: string | null;
+  created_at: string;
+}
+
+export interface GatewayPaymentResult {
+  success: boolean;
+  error?: string;
+  provider?: PaymentProviderName;
+  checkoutUrl?: string;
+  providerOrderId?: string;
+}
+
+export interface GatewayRefundResult {
+  success: boolean;
+  error?: string;
+  refunded?: boolean;
+  refundId?: string;
+  amount?: number;
+  provider?: PaymentProviderName;
+}
+
+export const PAYMENT_INTENT_STATUS_LABELS: Record<PaymentIntentStatus, string> = {
+  created: 'Awaiting Payment',
+  captured: 'Captured',
+  failed: 'Failed',
+  refunded: 'Refunded',
+};
+
+async function invokeGateway<T>(body: Record<string, unknown>): Promise<{ data: T | null; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('payment-gateway', { body });
+
+  if (error) {
+    console.error(`[PaymentGateway] ${body.action} failed:`, error);
+    return { data: null, error: error.message };
+  }
+  if (data?.error) {
+    return { data: null, error: data.error };
+  }
+  return { data: data as T };
+}
+
+/**
+ * Create a provider order / checkout link for an order (admin)
+ */
+export async function createGatewayPayment(orderId: string): Promise<GatewayPaymentResult> {
+  const { data, error } = await invokeGateway<{
+    provider: PaymentProviderName;
+    checkout_url: string;
+    provider_order_id: string;
+  }>({ action: 'create_payment', order_id: orderId });
+
+  if (!data) {
+    return { success: false, error: error || 'Failed to create payment' };
+  }
+
+  return {
+    success: true,
+    provider: data.provider,
+    checkoutUrl: data.checkout_url,
+    providerOrderId: data.provider_order_id,
+  };
+}
+
+/**
+ * Pay out a claimed ledger refund from the captured gateway payment of its order (admin).
+ * The ledger refund id is the idempotency key: retrying never refunds twice.
+ * Succeeds with refunded=false when the order was never paid through the gateway.
+ */
+export async function refundGatewayPayment(refundId: string): Promise<GatewayRefundResult> {
+  const { data, error } = await invokeGateway<{
+    refunded: boolean;
+    refund_id?: string;
+    amount?: number;
+    provider?: PaymentProviderName;
+  }>({ action: 'refund', refund_id: refundId });
+
+  if (!data) {
+    return { success: false, error: error || 'Refund failed' };
+  }
+
+  return {
+    success: true,
+    refunded: data.refunded,
+    refundId: data.refund_id,
+    amount: data.amount,
+    provider: data.provider,
+  };
+}
+
+/**
+ * Complete a simulator checkout. Delivers a signed webhook (optionally several
+ * times to exercise duplicate handling) and returns each delivery's result.
+ */
+export async function simulateCheckout(
+  providerOrderId: string,
+  outcome: 'success' | 'failure',
+  deliveries = 1
+): Promise<{ success: boolean; error?: string; results?: string[] }> {
+  const { data, error } = await invokeGateway<{ results: string[] }>({
+    action: 'simulate_checkout',
+    provider_order_id: providerOrderId,
+    outcome,
+    deliveries,
+  });
+
+  if (!data) {
+    return { success: false, error: error || 'Simulated checkout failed' };
+  }
+
+  return { success: true, results: data.results };
+}
+
+/**
+ * Fetch a payment intent by provider order id (simulator checkout page)
+ */
+export async function fetchPaymentIntentByProviderOrder(providerOrderId: string): Promise<PaymentIntent | null> {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select('*')
+    .eq('provider_order_id', providerOrderId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[PaymentGateway] Failed to fetch intent:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Fetch all payment intents for an order, newest first
+ */
+export async function fetchOrderPaymentIntents(orderId: string): Promise<PaymentIntent[]> {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[PaymentGateway] Failed to fetch intents:', error);
+    return [];
+  }
+
+  return data || [];
+}
@@ -0,0 +1,351 @@
+/**
+ * Milestone Payment Schedules
+ *
+ * Replaces the fixed 55/45 split. Each order has named milestones tied to an
+ * order state (e.g. SAMPLE_APPROVED, BULK_QC_UPLOADED, DELIVERED). The full
+ * order value is captured into escrow up front; the sync_payment_milestones
+ * trigger then tracks each tranche separately:
+ *
+ *   pending → held (payment captured) → releasable (release_state reached) → released (admin)
+ *   held / releasable → refunded (order refunded)
+ *
+ * Rules:
+ * - Fixed amounts are allocated first, then percentages; the milestone with
+ *   neither (or the last one) receives the remainder, so amounts always sum to the total
+ * - Schedules can only be changed while every milestone is still pending
+ * - No schedule at capture time = the default template (Standard 55/45)
+ * - Releasing the last milestone of a PAYMENT_RELEASABLE order marks it PAYMENT_RELEASED
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { ORDER_WORKFLOW, EXCEPTION_STATES, OrderState } from "./orderWorkflow";
+import { logOrderEvent } from "./orderEventLogger";
+import { logPaymentEvent } from "./systemLogger";
+
+export type MilestoneStatus = 'pending' | 'held' | 'releasable' | 'released' | 'refunded';
+
+// States a milestone may be tied to (exception states never release money)
+export const MILESTONE_RELEASE_STATES: OrderState[] = ORDER_WORKFLOW.states.filter(
+  (state) => !EXCEPTION_STATES.includes(state) && ORDER_WORKFLOW.states.indexOf(state) > ORDER_WORKFLOW.states.indexOf('PAYMENT_CONFIRMED')
+);
+
+export interface MilestoneInput {
+  name: string;
+  release_state: OrderState;
+  percentage?: number | null;
+  fixed_amount?: number | null;
+}
+
+export interface PaymentScheduleTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  milestones: MilestoneInput[];
+  is_default: boolean;
+}
+
+export interface OrderPaymentMilestone {
+  id: string;
+  order_id: string;
+  sequence: number;
+  name: string;
+  release_state: OrderState;
+  percentage: number | null;
+  amount: number;
+  status: MilestoneStatus;
+  held_at: string | null;
+  releasable_at: string | null;
+  released_at: string | null;
+  released_by: string | null;
+}
+
+export interface ScheduleValidation {
+  valid: boolean;
+  error?: string;
+}
+
+export interface PaymentScheduleResult {
+  success: boolean;
+  error?: string;
+}
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: 'Awaiting Payment',
+  held: 'Held in Escrow',
+  releasable: 'Ready to Release',
+  released: 'Released',
+  refunded: 'Refunded',
+};
+
+export const MILESTONE_STATUS_COLORS: Record<MilestoneStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  held: 'bg-amber-100 text-amber-800',
+  releasable: 'bg-blue-100 text-blue-800',
+  released: 'bg-green-100 text-green-800',
+  refunded: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Check whether an order has reached a milestone's release state.
+ * Mirrors the trigger: states compare in workflow order, exception states never reach.
+ */
+export function isMilestoneReached(orderState: string | null | undefined, releaseState: OrderState): boolean {
+  if (!orderState || EXCEPTION_STATES.includes(orderState as OrderState)) return false;
+  const current = ORDER_WORKFLOW.states.indexOf(orderState as OrderState);
+  return current >= 0 && current >= ORDER_WORKFLOW.states.indexOf(releaseState);
+}
+
+/**
+ * Validate a schedule against an order total
+ */
+export function validateSchedule(milestones: MilestoneInput[], total: number): ScheduleValidation {
+  if (milestones.length === 0) {
+    return { valid: false, error: 'A schedule needs at least one milestone.' };
+  }
+
+  if (milestones.some((m) => !m.name.trim())) {
+    return { valid: false, error: 'Every milestone needs a name.' };
+  }
+
+  if (milestones.some((m) => !MILESTONE_RELEASE_STATES.includes(m.release_state))) {
+    return { valid: false, error: 'Milestones must release at a production or delivery state.' };
+  }
+
+  for (let i = 1; i < milestones.length; i++) {
+    const previous = ORDER_WORKFLOW.states.indexOf(milestones[i - 1].release_state);
+    if (ORDER_WORKFLOW.states.indexOf(milestones[i].release_state) < previous) {
+      return { valid: false, error: 'Milestones must be in order of their release state.' };
+    }
+  }
+
+  const remainderCount = milestones.filter((m) => m.fixed_amount == null && m.percentage == null).length;
+  if (remainderCount > 1) {
+    return { valid: false, error: 'Only one milestone can take the remaining balance.' };
+  }
+
+  if (milestones.some((m) => (m.fixed_amount ?? 0) < 0 || (m.percentage ?? 0) < 0)) {
+    return { valid: false, error: 'Milestone amounts cannot be negative.' };
+  }
+
+  const fixedTotal = milestones.reduce((sum, m) => sum + (m.fixed_amount ?? 0), 0);
+  const percentageTotal = milestones.reduce((sum, m) => sum + (m.percentage ?? 0), 0);
+
+  if (fixedTotal > total) {
+    return { valid: false, error: `Fixed amounts (₹${fixedTotal.toLocaleString()}) exceed the order total.` };
+  }
+
+  if (percentageTotal > 100) {
+    return { valid: false, error: `Percentages add up to ${percentageTotal}%, more than 100%.` };
+  }
+
+  if (remainderCount === 0 && fixedTotal === 0 && percentageTotal !== 100) {
+    return { valid: false, error: `Percentages add up to ${percentageTotal}%, they must total 100%.` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Resolve milestone amounts for an order total (same allocation as
+ * create_order_payment_milestones): fixed amounts first, then percentages,
+ * remainder and rounding difference to the remainder milestone or the last one.
+ */
+export function resolveMilestoneAmounts(milestones: MilestoneInput[], total: number): number[] {
+  let allocated = 0;
+  const amounts = milestones.map((m) => {
+    let amount = 0;
+    if (m.fixed_amount != null) {
+      amount = Math.min(m.fixed_amount, total - allocated);
+    } else if (m.percentage != null) {
+      amount = Math.round((total * m.percentage) / 100);
+    }
+    allocated += amount;
+    return amount;
+  });
+
+  const remainderIndex = milestones.findIndex((m) => m.fixed_amount == null && m.percentage == null);
+  const targetIndex = remainderIndex >= 0 ? remainderIndex : amounts.length - 1;
+  if (targetIndex >= 0) {
+    amounts[targetIndex] += total - allocated;
+  }
+
+  return amounts;
+}
+
+/**
+ * Fetch active schedule templates, default first
+ */
+export async function fetchScheduleTemplates(): Promise<PaymentScheduleTemplate[]> {
+  const { data, error } = await supabase
+    .from('payment_schedule_templates')
+    .select('id, name, description, milestones, is_default')
+    .eq('is_active', true)
+    .order('is_default', { ascending: false })
+    .order('name');
+
+  if (error) {
+    console.error('[PaymentSchedule] Failed to fetch templates:', error);
+    return [];
+  }
+
+  return (data || []).map((template) => ({
+    ...template,
+    milestones: (template.milestones as unknown as MilestoneInput[]) || [],
+  }));
+}
+
+/**
+ * Fetch an order's milestones in sequence
+ */
+export async function fetchOrderMilestones(orderId: string): Promise<OrderPaymentMilestone[]> {
+  const { data, error } = await supabase
+    .from('order_payment_milestones')
+    .select('id, order_id, sequence, name, release_state, percentage, amount, status, held_at, releasable_at, released_at, released_by')
+    .eq('order_id', orderId)
+    .order('sequence');
+
+  if (error) {
+    console.error('[PaymentSchedule] Failed to fetch milestones:', error);
+    return [];
+  }
+
+  return (data || []) as OrderPaymentMilestone[];
+}
+
+/**
+ * Set (or replace) an order's payment schedule (admin, before payment is captured)
+ */
+export async function saveOrderSchedule(
+  orderId: string,
+  total: number,
+  milestones: MilestoneInput[],
+  actorId: string,
+  templateId?: string | null
+): Promise<PaymentScheduleResult> {
+  const validation = validateSchedule(milestones, total);
+  if (!validation.valid) {
+    return { success: false, error: validation.error };
+  }
+
+  const existing = await fetchOrderMilestones(orderId);
+  if (existing.some((m) => m.status !== 'pending')) {
+    return { success: false, error: 'Payment has already been captured; the schedule can no longer change.' };
+  }
+
+  if (existing.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('order_payment_milestones')
+      .delete()
+      .eq('order_id', orderId)
+      .eq('status', 'pending');
+
+    if (deleteError) {
+      console.error('[PaymentSchedule] Failed to clear schedule:', deleteError);
+      return { success: false, error: deleteError.message };
+    }
+  }
+
+  const amounts = resolveMilestoneAmounts(milestones, total);
+  const { error } = await supabase.from('order_payment_milestones').insert(
+    milestones.map((m, index) => ({
+      order_id: orderId,
+      sequence: index + 1,
+      name: m.name.trim(),
+      release_state: m.release_state,
+      percentage: m.percentage ?? null,
+      amount: amounts[index],
+      template_id: templateId ?? null,
+    }))
+  );
+
+  if (error) {
+    console.error('[PaymentSchedule] Failed to save schedule:', error);
+    return { success: false, error: error.message };
+  }
+
+  await logOrderEvent(orderId, 'payment_schedule_set', {
+    template_id: templateId ?? null,
+    total,
+    milestones: milestones.map((m, index) => ({
+      name: m.name.trim(),
+      release_state: m.release_state,
+      amount: amounts[index],
+    })),
+    set_by: actorId,
+  });
+
+  return { success: true };
+}
+
+/**
+ * Release a releasable milestone to the manufacturer (admin)
+ */
+export async function releaseMilestone(
+  milestone: OrderPaymentMilestone,
+  actorId: string
+): Promise<PaymentScheduleResult> {
+  if (milestone.status !== 'releasable') {
+    return {
+      success: false,
+      error: `Only releasable milestones can be released. "${milestone.name}" is ${MILESTONE_STATUS_LABELS[milestone.status].toLowerCase()}.`,
+    };
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('order_payment_milestones')
+    .update({ status: 'released', released_at: now, released_by: actorId })
+    .eq('id', milestone.id)
+    .eq('status', 'releasable')
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[PaymentSchedule] Release error:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Milestone was already released or is no longer releasable.' };
+  }
+
+  await logOrderEvent(milestone.order_id, 'milestone_payment_released', {
+    milestone_id: milestone.id,
+    milestone_name: milestone.name,
+    sequence: milestone.sequence,
+    amount: milestone.amount,
+    released_by: actorId,
+  });
+  await logPaymentEvent('payment_released', milestone.order_id, actorId, 'admin', {
+    milestone_id: milestone.id,
+    milestone_name: milestone.name,
+    amount: milestone.amount,
+  });
+
+  // Last tranche out: close the order-level payment state
+  const remaining = (await fetchOrderMilestones(milestone.order_id)).filter((m) => m.status !== 'released');
+  if (remaining.length === 0) {
+    const { error: orderError } = await supabase
+      .from('orders')
+      .update({ payment_state: 'PAYMENT_RELEASED', escrow_released_timestamp: now, updated_at: now })
+      .eq('id', milestone.order_id)
+      .eq('payment_state', 'PAYMENT_RELEASABLE');
+
+    if (orderError) {
+      console.error('[PaymentSchedule] Failed to mark order payment released:', orderError);
+    }
+  }
+
+  return { success: true };
+}
+
+/**
+ * Sum milestone amounts by status (escrow breakdown)
+ */
+export function summarizeMilestones(milestones: OrderPaymentMilestone[]): Record<MilestoneStatus, number> {
+  const totals: Record<MilestoneStatus, number> = { pending: 0, held: 0, releasable: 0, released: 0, refunded: 0 };
+  for (const milestone of milestones) {
+    totals[milestone.status] += Number(milestone.amount);
+  }
+  return totals;
+}
@@ -4,7 +4,7 @@
  * Payment States:
  * - PAYMENT_INITIATED: Payment process started (order created)
  * - PAYMENT_HELD: Payment captured and held in escrow
- * - PAYMENT_RELEASABLE: All conditions met for release (QC approved + delivered)
+ * - PAYMENT_RELEASABLE: All conditions met for release (QC approved + delivered with POD)
  * - PAYMENT_RELEASED: Payment released to manufacturer
  * - PAYMENT_REFUNDED: Payment refunded to buyer (admin only)
  * 
@@ -14,11 +14,18 @@
  * - PAYMENT_RELEASED only after:
  *   - BULK_QC_APPROVED
  *   - DELIVERY = DELIVERED
+ *   - Proof of delivery confirmed with the buyer's OTP (proofOfDelivery.ts)
  * - Admin override allowed ONLY for refunds
+ * - Partial refunds are booked in the refund ledger (refundLedger.ts); PAYMENT_REFUNDED
+ *   is only reached once the whole escrow balance has been refunded
  * 
- * This is ADD-ONLY enforcement logic. NO payment gateway integration.
+ * This is ADD-ONLY enforcement logic. Gateway capture (PAYMENT_INITIATED → PAYMENT_HELD)
+ * is applied by the payment-webhook edge function; see paymentGateway.ts.
+ * Transitions and permissions are defined in orderWorkflow.ts.
  */
 
+import { PAYMENT_WORKFLOW, buildTransitionMap, buildTransitionPermissions } from './orderWorkflow';
+
 export type PaymentState = 
   | 'PAYMENT_INITIATED'
   | 'PAYMENT_HELD'
@@ -49,6 +56,7 @@ export interface PaymentOrder {
   // Delivery
   delivery_status?: string | null;
   delivered_at?: string | null;
+  pod_confirmed_at?: string | null;
   // Order mode
   order_mode?: string | null;
   order_intent?: string | null;
@@ -61,28 +69,15 @@ export interface PaymentTransitionResult {
 }
 
 /**
- * Valid payment state transitions
+ * Valid payment state transitions (from the shared workflow definition)
  */
-const VALID_TRANSITIONS: Record<PaymentState, PaymentState[]> = {
-  'PAYMENT_INITIATED': ['PAYMENT_HELD', 'PAYMENT_REFUNDED'],
-  'PAYMENT_HELD': ['PAYMENT_RELEASABLE', 'PAYMENT_REFUNDED'],
-  'PAYMENT_RELEASABLE': ['PAYMENT_RELEASED', 'PAYMENT_REFUNDED'],
-  'PAYMENT_RELEASED': [], // Terminal state (no refund after release)
-  'PAYMENT_REFUNDED': [], // Terminal state
-};
+const VALID_TRANSITIONS: Record<PaymentState, PaymentState[]> = buildTransitionMap(PAYMENT_WORKFLOW);
 
 /**
  * Who can perform each transition
+ * Refunds are ADMIN ONLY; no refund after release
  */
-const TRANSITION_PERMISSIONS: Record<string, PaymentActorRole[]> = {
-  'PAYMENT_INITIATED->PAYMENT_HELD': ['system', 'buyer'],
-  'PAYMENT_HELD->PAYMENT_RELEASABLE': ['system'],
-  'PAYMENT_RELEASABLE->PAYMENT_RELEASED': ['system', 'admin'],
-  // Refunds - ADMIN ONLY
-  'PAYMENT_INITIATED->PAYMENT_REFUNDED': ['admin'],
-  'PAYMENT_HELD->PAYMENT_REFUNDED': ['admin'],
-  'PAYMENT_RELEASABLE->PAYMENT_REFUNDED': ['admin'],
-};
+const TRANSITION_PERMISSIONS: Record<string, PaymentActorRole[]> = buildTransitionPermissions(PAYMENT_WORKFLOW);
 
 /**
  * Check if a payment state transition is valid
@@ -197,7 +192,7 @@ export function canStartBulkProductionPayment(order: PaymentOrder): PaymentTrans
 
 /**
  * Check if payment can transition to RELEASABLE
- * RULE: PAYMENT_RELEASABLE only after BULK_QC_APPROVED AND DELIVERY = DELIVERED
+ * RULE: PAYMENT_RELEASABLE only after BULK_QC_APPROVED AND DELIVERY = DELIVERED AND POD
  */
 export function canMarkPaymentReleasable(order: PaymentOrder): PaymentTransitionResult {
   const paymentState = (order.payment_state as PaymentState) || 'PAYMENT_INITIATED';
@@ -246,6 +241,14 @@ export function canMarkPaymentReleasable(order: PaymentOrder): PaymentTransition
     };
   }
 
+  // RULE: Proof of delivery required (enforced by enforce_pod_before_payment_release)
+  if (!order.pod_confirmed_at) {
+    return {
+      allowed: false,
+      reason: "Proof of delivery (buyer's OTP) is required before payment release.",
+    };
+  }
+
   return { allowed: true };
 }
 
@@ -374,6 +377,7 @@ export function createPaymentActionMetadata(
 
 /**
  * Calculate payment amounts based on order value
+ * @deprecated Fixed 55/45 split; use per-order milestone schedules (paymentSchedule.ts)
  */
 export function calculatePaymentSplit(totalOrderValue: number): {
   upfrontAmount: number;
@@ -431,6 +435,12 @@ export function getPaymentReleaseConditions(order: PaymentOrder): {
       met: !!order.delivered_at || order.delivery_status === 'DELIVERED',
       required: true,
     });
+
+    conditions.push({
+      label: 'Proof of Delivery',
+      met: !!order.pod_confirmed_at,
+      required: true,
+    });
   }
   
   const allConditionsMet = conditions
@@ -0,0 +1,316 @@
+/**
+ * Manufacturer Payout Batches
+ *
+ * Weekly settlement batches (generate_payout_batches, Mondays for the week just
+ * ended) collect every PAYMENT_RELEASED order per manufacturer that hasn't been
+ * paid out yet. Per order:
+ *   commission = (order value - delivery cost - approved refunds) x commission rate
+ *   net payout = order value - delivery cost - commission - approved refunds
+ * Refunds approved after their order was paid out are carried into the next batch,
+ * less the commission they no longer earn.
+ * Deductions for factory-fault returns (payout_adjustments) are then taken from the
+ * batch total, oldest first, as far as it covers them; the rest waits for a later batch.
+ *
+ * Rules:
+ * - An order is paid out in exactly one batch
+ * - Batch status: pending → paid (bank / UTR reference required) | failed (reason required)
+ * - Failed batches can be retried (back to pending) or marked paid
+ * - Statements download as CSV (built here) or PDF (payout-statement edge function)
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type PayoutBatchStatus = 'pending' | 'paid' | 'failed';
+
+export interface PayoutBatch {
+  id: string;
+  reference: string;
+  manufacturer_id: string;
+  period_start: string;
+  period_end: string;
+  status: PayoutBatchStatus;
+  order_count: number;
+  gross_amount: number;
+  delivery_amount: number;
+  commission_amount: number;
+  refund_amount: number;
+  // Refunds on orders paid out in earlier batches, net of commission
+  carried_refund_amount: number;
+  adjustment_amount: number;
+  net_amount: number;
+  payment_reference: string | null;
+  failure_reason: string | null;
+  paid_at: string | null;
+  failed_at: string | null;
+  created_at: string;
+}
+
+export interface PayoutBatchItem {
+  id: string;
+  batch_id: string;
+  order_id: string;
+  released_at: string | null;
+  order_value: number;
+  delivery_cost: number;
+  commission_rate: number;
+  commission_amount: number;
+  refund_amount: number;
+  net_amount: number;
+}
+
+export interface PayoutSummary {
+  paid: number;
+  pending: number;
+  failed: number;
+  // Released orders waiting for the next weekly batch (gross)
+  awaitingBatch: number;
+  awaitingBatchOrders: number;
+}
+
+export interface PayoutResult {
+  success: boolean;
+  error?: string;
+}
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutBatchStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  failed: 'Failed',
+};
+
+export const PAYOUT_STATUS_COLORS: Record<PayoutBatchStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Totals across a manufacturer's batches
+ */
+export function summarizePayouts(
+  batches: PayoutBatch[],
+  unbatchedOrders: { total_order_value: number | null }[] = []
+): PayoutSummary {
+  const sumOf = (status: PayoutBatchStatus) =>
+    batches.filter((b) => b.status === status).reduce((sum, b) => sum + Number(b.net_amount), 0);
+
+  return {
+    paid: sumOf('paid'),
+    pending: sumOf('pending'),
+    failed: sumOf('failed'),
+    awaitingBatch: unbatchedOrders.reduce((sum, o) => sum + Number(o.total_order_value || 0), 0),
+    awaitingBatchOrders: unbatchedOrders.length,
+  };
+}
+
+/**
+ * Fetch payout batches, newest period first. All manufacturers when no id is given (admin).
+ */
+export async function fetchPayoutBatches(manufacturerId?: string): Promise<PayoutBatch[]> {
+  let query = supabase
+    .from('payout_batches')
+    .select('*')
+    .order('period_start', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (manufacturerId) {
+    query = query.eq('manufacturer_id', manufacturerId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[PayoutBatches] Failed to fetch batches:', error);
+    return [];
+  }
+
+  return (data || []) as PayoutBatch[];
+}
+
+/**
+ * Fetch the statement lines of a batch
+ */
+export async function fetchPayoutBatchItems(batchId: string): Promise<PayoutBatchItem[]> {
+  const { data, error } = await supabase
+    .from('payout_batch_items')
+    .select('*')
+    .eq('batch_id', batchId)
+    .order('released_at');
+
+  if (error) {
+    console.error('[PayoutBatches] Failed to fetch batch items:', error);
+    return [];
+  }
+
+  return (data || []) as PayoutBatchItem[];
+}
+
+/**
+ * Released orders of a manufacturer that are not in any batch yet
+ */
+export async function fetchUnbatchedReleasedOrders(
+  manufacturerId: string
+): Promise<{ id: string; total_order_value: number | null }[]> {
+  const [{ data: orders, error }, { data: items }] = await Promise.all([
+    supabase
+      .from('orders')
+      .select('id, total_order_value')
+      .eq('manufacturer_id', manufacturerId)
+      .eq('payment_state', 'PAYMENT_RELEASED'),
+    supabase.from('payout_batch_items').select('order_id'),
+  ]);
+
+  if (error) {
+    console.error('[PayoutBatches] Failed to fetch released orders:', error);
+    return [];
+  }
+
+  const batchedOrderIds = new Set((items || []).map((item) => item.order_id));
+  return (orders || []).filter((order) => !batchedOrderIds.has(order.id));
+}
+
+/**
+ * Build batches now (admin). Defaults to the last full week.
+ */
+export async function generatePayoutBatches(periodStart?: string): Promise<{ success: boolean; error?: string; batches?: number }> {
+  const { data, error } = await supabase.rpc('generate_payout_batches', {
+    _period_start: periodStart,
+  });
+
+  if (error) {
+    console.error('[PayoutBatches] Generate error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, batches: data ?? 0 };
+}
+
+async function updateBatchStatus(
+  batchId: string,
+  status: PayoutBatchStatus,
+  options: { paymentReference?: string; failureReason?: string } = {}
+): Promise<PayoutResult> {
+  const { error } = await supabase.rpc('update_payout_batch_status', {
+    _batch_id: batchId,
+    _status: status,
+    _payment_reference: options.paymentReference,
+    _failure_reason: options.failureReason,
+  });
+
+  if (error) {
+    console.error(`[PayoutBatches] Failed to mark batch ${status}:`, error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Mark a batch paid with the bank transfer / UTR reference (admin)
+ */
+export async function markPayoutPaid(batchId: string, paymentReference: string): Promise<PayoutResult> {
+  if (!paymentReference.trim()) {
+    return { success: false, error: 'A bank / UTR reference is required.' };
+  }
+  return updateBatchStatus(batchId, 'paid', { paymentReference });
+}
+
+/**
+ * Mark a batch failed (admin, reason required)
+ */
+export async function markPayoutFailed(batchId: string, failureReason: string): Promise<PayoutResult> {
+  if (!failureReason.trim()) {
+    return { success: false, error: 'A failure reason is required.' };
+  }
+  return updateBatchStatus(batchId, 'failed', { failureReason });
+}
+
+/**
+ * Put a failed batch back in the queue (admin)
+ */
+export async function retryPayout(batchId: string): Promise<PayoutResult> {
+  return updateBatchStatus(batchId, 'pending');
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Statement as CSV: one row per order plus a totals row
+ */
+export function buildPayoutStatementCsv(batch: PayoutBatch, items: PayoutBatchItem[]): string {
+  const rows: (string | number | null)[][] = [
+    ['Statement', batch.reference],
+    ['Period', `${batch.period_start} to ${batch.period_end}`],
+    ['Status', PAYOUT_STATUS_LABELS[batch.status]],
+    ['Payment reference', batch.payment_reference],
+    [],
+    ['Order ID', 'Released', 'Order value', 'Delivery cost', 'Commission rate', 'Commission', 'Refunds', 'Net payout'],
+    ...items.map((item) => [
+      item.order_id,
+      item.released_at ? item.released_at.slice(0, 10) : null,
+      item.order_value,
+      item.delivery_cost,
+      `${Math.round(Number(item.commission_rate) * 10000) / 100}%`,
+      item.commission_amount,
+      item.refund_amount,
+      item.net_amount,
+    ]),
+    ...(Number(batch.carried_refund_amount) > 0
+      ? [['Refunds on earlier payouts', null, null, null, null, null, null, -batch.carried_refund_amount]]
+      : []),
+    ...(Number(batch.adjustment_amount) > 0
+      ? [['Return deductions', null, null, null, null, null, null, -batch.adjustment_amount]]
+      : []),
+    [
+      'Total',
+      null,
+      batch.gross_amount,
+      batch.delivery_amount,
+      null,
+      batch.commission_amount,
+      batch.refund_amount,
+      batch.net_amount,
+    ],
+  ];
+
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download the CSV statement of a batch
+ */
+export async function downloadPayoutStatementCsv(batch: PayoutBatch): Promise<PayoutResult> {
+  const items = await fetchPayoutBatchItems(batch.id);
+  const csv = buildPayoutStatementCsv(batch, items);
+  saveBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${batch.reference}.csv`);
+  return { success: true };
+}
+
+/**
+ * Download the PDF statement of a batch (rendered by the payout-statement function)
+ */
+export async function downloadPayoutStatementPdf(batch: PayoutBatch): Promise<PayoutResult> {
+  const { data, error } = await supabase.functions.invoke('payout-statement', {
+    body: { batch_id: batch.id },
+  });
+
+  if (error || !(data instanceof Blob)) {
+    console.error('[PayoutBatches] PDF statement failed:', error);
+    return { success: false, error: error?.message || 'Failed to generate statement' };
+  }
+
+  saveBlob(data, `${batch.reference}.pdf`);
+  return { success: true };
+}
@@ -0,0 +1,217 @@
+/**
+ * Order Pricing (client)
+ *
+ * Prices come from the active price book and are computed server-side by the
+ * price-quote edge function; the client only displays them.
+ *
+ * Rules:
+ * - Bulk unit price per fabric, less the quantity break discount; samples have a flat price
+ * - Per-piece surcharges for print method, each printed area and name personalisation
+ * - Rush fee on the goods subtotal when expected_deadline is close
+ * - Delivery rated by the buyer's pincode zone (see deliveryCostCalculator.ts);
+ *   signed quotes need a serviceable delivery pincode
+ * - An order insert must reference a signed quote (price_quote_id); the database
+ *   copies the quote's amounts onto the order and rejects expired or reused quotes
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { DeliveryZone } from "@/lib/deliveryCostCalculator";
+
+export type SurchargeType = 'print_method' | 'print_area' | 'personalisation';
+
+export interface PriceQuoteRequest {
+  buyer_purpose: 'merch_bulk' | 'blank_apparel' | 'fabric_only';
+  product_type: string;
+  quantity: number;
+  is_sample: boolean;
+  fabric_id: string | null;
+  print_method: string | null;
+  print_areas: string[];
+  personalisation: boolean;
+  expected_deadline: string | null;
+  delivery_pincode: string | null;
+}
+
+export interface PriceQuoteLine {
+  code: string;
+  label: string;
+  quantity: number;
+  unit_amount: number;
+  amount: number;
+}
+
+export interface PriceEstimate {
+  price_book: string;
+  unit_price: number;
+  discount_rate: number;
+  lines: PriceQuoteLine[];
+  goods_subtotal: number;
+  lead_days: number | null;
+  rush_rate: number;
+  rush_fee: number;
+  delivery_cost: number;
+  delivery_zone: DeliveryZone;
+  chargeable_weight: number;
+  cod_available: boolean;
+  total_amount: number;
+}
+
+export interface SignedPriceQuote extends PriceEstimate {
+  quote_id: string;
+  signature: string;
+  expires_at: string;
+}
+
+export interface PriceBook {
+  id: string;
+  name: string;
+  is_active: boolean;
+  sample_unit_price: number;
+  default_unit_price: number;
+  quote_validity_minutes: number;
+  fabrics: { fabric_id: string; label: string; unit_price: number }[];
+  quantity_tiers: { min_quantity: number; discount_rate: number }[];
+  surcharges: { id: string; surcharge_type: SurchargeType; code: string; label: string; unit_amount: number }[];
+  rush_tiers: { max_lead_days: number; surcharge_rate: number }[];
+}
+
+export interface PricingResult<T> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+export const SURCHARGE_TYPE_LABELS: Record<SurchargeType, string> = {
+  print_method: 'Print Method',
+  print_area: 'Print Area',
+  personalisation: 'Personalisation',
+};
+
+async function invokePriceQuote<T>(body: Record<string, unknown>): Promise<PricingResult<T>> {
+  const { data, error } = await supabase.functions.invoke('price-quote', { body });
+
+  if (error) {
+    console.error(`[Pricing] ${body.action} failed:`, error);
+    return { success: false, error: error.message };
+  }
+  if (data?.error) {
+    return { success: false, error: data.error };
+  }
+
+  return { success: true, data: data as T };
+}
+
+/**
+ * Price breakdown for display (not stored, not signed)
+ */
+export async function estimateOrderPrice(request: PriceQuoteRequest): Promise<PricingResult<PriceEstimate>> {
+  return invokePriceQuote<PriceEstimate>({ action: 'estimate', ...request });
+}
+
+/**
+ * Signed quote to place the order with (valid for a limited time, single use)
+ */
+export async function requestPriceQuote(request: PriceQuoteRequest): Promise<PricingResult<SignedPriceQuote>> {
+  return invokePriceQuote<SignedPriceQuote>({ action: 'quote', ...request });
+}
+
+/**
+ * Fetch the active price book with its fabrics, tiers and surcharges
+ */
+export async function fetchActivePriceBook(): Promise<PriceBook | null> {
+  const { data: book, error } = await supabase
+    .from('price_books')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error || !book) {
+    if (error) console.error('[Pricing] Failed to fetch price book:', error);
+    return null;
+  }
+
+  const [fabrics, tiers, surcharges, rushTiers] = await Promise.all([
+    supabase.from('price_book_fabrics').select('fabric_id, label, unit_price').eq('price_book_id', book.id),
+    supabase.from('price_book_quantity_tiers').select('min_quantity, discount_rate').eq('price_book_id', book.id).order('min_quantity'),
+    supabase.from('price_book_surcharges').select('id, surcharge_type, code, label, unit_amount').eq('price_book_id', book.id).order('surcharge_type'),
+    supabase.from('price_book_rush_tiers').select('max_lead_days, surcharge_rate').eq('price_book_id', book.id).order('max_lead_days'),
+  ]);
+
+  return {
+    ...book,
+    fabrics: fabrics.data || [],
+    quantity_tiers: tiers.data || [],
+    surcharges: (surcharges.data || []) as PriceBook['surcharges'],
+    rush_tiers: rushTiers.data || [],
+  };
+}
+
+/**
+ * Save edits to a price book (admin). Tiers are replaced as a whole.
+ * Quotes already issued keep the prices they were signed with.
+ */
+export async function savePriceBook(book: PriceBook): Promise<PricingResult<null>> {
+  const fail = (error: { message: string }) => {
+    console.error('[Pricing] Failed to save price book:', error);
+    return { success: false, error: error.message };
+  };
+
+  if (book.quantity_tiers.some((t) => t.discount_rate < 0 || t.discount_rate >= 1)) {
+    return { success: false, error: 'Quantity discounts must be between 0% and 100%' };
+  }
+  if (new Set(book.quantity_tiers.map((t) => t.min_quantity)).size !== book.quantity_tiers.length) {
+    return { success: false, error: 'Each quantity break needs a different starting quantity' };
+  }
+  if (new Set(book.rush_tiers.map((t) => t.max_lead_days)).size !== book.rush_tiers.length) {
+    return { success: false, error: 'Each rush fee needs a different number of days' };
+  }
+
+  const { error: bookError } = await supabase
+    .from('price_books')
+    .update({
+      name: book.name,
+      sample_unit_price: book.sample_unit_price,
+      default_unit_price: book.default_unit_price,
+      quote_validity_minutes: book.quote_validity_minutes,
+    })
+    .eq('id', book.id);
+  if (bookError) return fail(bookError);
+
+  const { error: fabricError } = await supabase
+    .from('price_book_fabrics')
+    .upsert(book.fabrics.map((f) => ({ ...f, price_book_id: book.id })));
+  if (fabricError) return fail(fabricError);
+
+  const { error: surchargeError } = await supabase
+    .from('price_book_surcharges')
+    .upsert(book.surcharges.map((s) => ({ ...s, price_book_id: book.id })));
+  if (surchargeError) return fail(surchargeError);
+
+  const { error: tierDeleteError } = await supabase
+    .from('price_book_quantity_tiers')
+    .delete()
+    .eq('price_book_id', book.id);
+  if (tierDeleteError) return fail(tierDeleteError);
+
+  if (book.quantity_tiers.length > 0) {
+    const { error: tierError } = await supabase
+      .from('price_book_quantity_tiers')
+      .insert(book.quantity_tiers.map((t) => ({ ...t, price_book_id: book.id })));
+    if (tierError) return fail(tierError);
+  }
+
+  const { error: rushDeleteError } = await supabase
+    .from('price_book_rush_tiers')
+    .delete()
+    .eq('price_book_id', book.id);
+  if (rushDeleteError) return fail(rushDeleteError);
+
+  if (book.rush_tiers.length > 0) {
+    const { error: rushError } = await supabase
+      .from('price_book_rush_tiers')
+      .insert(book.rush_tiers.map((t) => ({ ...t, price_book_id: book.id })));
+    if (rushError) return fail(rushError);
+  }
+
+  return { success: true };
+}
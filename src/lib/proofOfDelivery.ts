@@ -0,0 +1,288 @@
+/**
+ * Proof of Delivery (POD)
+ *
+ * Once an order is handed to a courier the buyer gets a 6-digit delivery OTP (shown on
+ * their order page only). At hand-over the courier - through the public POD link
+ * (/pod/:token, delivery-pod edge function) - or an admin enters it, optionally with a
+ * photo of the recipient or signed delivery slip and the device's location.
+ *
+ * Rules:
+ * - The OTP can be entered once the order is PICKUP_SCHEDULED, IN_TRANSIT or DELIVERED
+ * - Five wrong entries lock the OTP until the buyer generates a new one
+ * - The confirmation is stored as delivery-stage evidence (proof_of_delivery) with the
+ *   photo's SHA-256, so a swapped file can be detected later
+ * - Payment can't become releasable without POD (orders.pod_confirmed_at): see
+ *   canMarkPaymentReleasable and the sync_payment_milestones trigger
+ * - Orders without courier tracking are only marked DELIVERED after POD
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { uploadOrderFile } from "./orderFileStorage";
+
+export type PodConfirmedRole = 'admin' | 'courier';
+export type PodConfirmOutcome = 'confirmed' | 'invalid_otp' | 'locked';
+
+export const POD_MAX_OTP_ATTEMPTS = 5;
+
+// Delivery states in which the hand-over can be confirmed
+export const POD_DELIVERY_STATES = ['PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED'];
+
+export interface DeliveryOtp {
+  order_id: string;
+  code: string;
+  courier_token: string;
+  failed_attempts: number;
+  generated_at: string;
+}
+
+export interface DeliveryProof {
+  id: string;
+  order_id: string;
+  confirmed_role: PodConfirmedRole;
+  confirmed_by: string | null;
+  recipient_name: string | null;
+  photo_url: string | null;
+  photo_sha256: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy_m: number | null;
+  confirmed_at: string;
+}
+
+export interface PodLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+export interface PodConfirmation {
+  orderId: string;
+  otp: string;
+  recipientName?: string;
+  photo?: File | null;
+  location?: PodLocation | null;
+}
+
+export interface PodResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+export const POD_OUTCOME_MESSAGES: Record<Exclude<PodConfirmOutcome, 'confirmed'>, string> = {
+  invalid_otp: 'Incorrect OTP. Ask the recipient to check the OTP on their order page.',
+  locked: `The OTP was entered incorrectly ${POD_MAX_OTP_ATTEMPTS} times. The buyer needs to generate a new one.`,
+};
+
+/**
+ * Whether delivery can be confirmed with the OTP now
+ */
+export function canConfirmPod(order: { delivery_status?: string | null; pod_confirmed_at?: string | null }): { allowed: boolean; reason?: string } {
+  if (order.pod_confirmed_at) {
+    return { allowed: false, reason: 'Delivery has already been confirmed.' };
+  }
+  if (!POD_DELIVERY_STATES.includes(order.delivery_status || '')) {
+    return { allowed: false, reason: 'Delivery can be confirmed once the order has been handed to a courier.' };
+  }
+  return { allowed: true };
+}
+
+/**
+ * SHA-256 of a file as hex
+ */
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Current device location, or null if unavailable or refused
+ */
+export function getCurrentLocation(): Promise<PodLocation | null> {
+  if (!('geolocation' in navigator)) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: Math.round(position.coords.latitude * 1e6) / 1e6,
+        longitude: Math.round(position.coords.longitude * 1e6) / 1e6,
+        accuracy: Math.round(position.coords.accuracy),
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  });
+}
+
+/**
+ * The buyer's delivery OTP (null for anyone else, or before it is issued)
+ */
+export async function fetchDeliveryOtp(orderId: string): Promise<DeliveryOtp | null> {
+  const { data, error } = await supabase
+    .from('delivery_otps')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[POD] Failed to fetch delivery OTP:', error);
+    return null;
+  }
+
+  return data as DeliveryOtp | null;
+}
+
+/**
+ * Recorded proof of delivery, if any
+ */
+export async function fetchDeliveryProof(orderId: string): Promise<DeliveryProof | null> {
+  const { data, error } = await supabase
+    .from('delivery_proofs')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[POD] Failed to fetch delivery proof:', error);
+    return null;
+  }
+
+  return data as DeliveryProof | null;
+}
+
+/**
+ * Replace the delivery OTP (buyer), e.g. after it was locked
+ */
+export async function regenerateDeliveryOtp(orderId: string): Promise<PodResult> {
+  const { error } = await supabase.rpc('regenerate_delivery_otp', { _order_id: orderId });
+
+  if (error) {
+    console.error('[POD] Failed to regenerate OTP:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Link the courier opens at hand-over to enter the OTP (admin)
+ */
+export async function getCourierPodLink(orderId: string): Promise<PodResult<string>> {
+  const { data, error } = await supabase.rpc('get_delivery_pod_token', { _order_id: orderId });
+
+  if (error) {
+    console.error('[POD] Failed to fetch POD link:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: `${window.location.origin}/pod/${data}` };
+}
+
+/**
+ * Confirm delivery with the buyer's OTP (admin). The photo is uploaded first and
+ * referenced by the proof.
+ */
+export async function confirmDeliveryPod(input: PodConfirmation): Promise<PodResult> {
+  if (!/^\d{6}$/.test(input.otp.trim())) {
+    return { success: false, error: 'Enter the 6-digit OTP from the buyer.' };
+  }
+
+  let photoUrl: string | undefined;
+  let photoSha256: string | undefined;
+  if (input.photo) {
+    photoSha256 = await hashFile(input.photo);
+    const upload = await uploadOrderFile(input.orderId, 'delivery', input.photo, 'admin');
+    if (!upload.success || !upload.fileUrl) {
+      return { success: false, error: upload.error || 'Failed to upload the delivery photo' };
+    }
+    photoUrl = upload.fileUrl;
+  }
+
+  const { data, error } = await supabase.rpc('confirm_delivery_pod', {
+    _order_id: input.orderId,
+    _otp: input.otp.trim(),
+    _recipient_name: input.recipientName?.trim() || undefined,
+    _photo_url: photoUrl,
+    _photo_sha256: photoSha256,
+    _latitude: input.location?.latitude,
+    _longitude: input.location?.longitude,
+    _location_accuracy_m: input.location?.accuracy,
+  });
+
+  if (error) {
+    console.error('[POD] Failed to confirm delivery:', error);
+    return { success: false, error: error.message };
+  }
+
+  const outcome = data as PodConfirmOutcome;
+  if (outcome !== 'confirmed') {
+    return { success: false, error: POD_OUTCOME_MESSAGES[outcome] };
+  }
+
+  return { success: true };
+}
+
+export interface CourierPodLookup {
+  order_ref: string;
+  delivery_status: string | null;
+  confirmed_at: string | null;
+  locked: boolean;
+}
+
+/**
+ * Order behind a courier POD link (no login)
+ */
+export async function lookupCourierPod(token: string): Promise<PodResult<CourierPodLookup>> {
+  const body = new FormData();
+  body.append('action', 'lookup');
+  body.append('token', token);
+
+  const { data, error } = await supabase.functions.invoke('delivery-pod', { body });
+
+  if (error || data?.error) {
+    console.error('[POD] Courier link lookup failed:', error || data?.error);
+    return { success: false, error: data?.error || 'This delivery link is not valid.' };
+  }
+
+  return { success: true, data: data as CourierPodLookup };
+}
+
+/**
+ * Confirm delivery from the courier POD link. The edge function uploads the photo and
+ * hashes it server-side.
+ */
+export async function confirmCourierPod(token: string, input: Omit<PodConfirmation, 'orderId'>): Promise<PodResult> {
+  if (!/^\d{6}$/.test(input.otp.trim())) {
+    return { success: false, error: 'Enter the 6-digit OTP from the buyer.' };
+  }
+
+  const body = new FormData();
+  body.append('action', 'confirm');
+  body.append('token', token);
+  body.append('otp', input.otp.trim());
+  if (input.recipientName?.trim()) body.append('recipient_name', input.recipientName.trim());
+  if (input.photo) body.append('photo', input.photo);
+  if (input.location) {
+    body.append('latitude', String(input.location.latitude));
+    body.append('longitude', String(input.location.longitude));
+    body.append('accuracy', String(input.location.accuracy));
+  }
+
+  const { data, error } = await supabase.functions.invoke('delivery-pod', { body });
+
+  if (error || data?.error) {
+    console.error('[POD] Courier confirmation failed:', error || data?.error);
+    return { success: false, error: data?.error || error?.message || 'Failed to confirm delivery' };
+  }
+
+  const outcome = data.result as PodConfirmOutcome;
+  if (outcome !== 'confirmed') {
+    return { success: false, error: POD_OUTCOME_MESSAGES[outcome] };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,329 @@
+/**
+ * QC Defects
+ *
+ * Defects found in QC are picked from a managed catalogue (qc_defect_codes) and recorded one
+ * row each in qc_defects, optionally marked on a QC photo with a pin or a box. Rows carry the
+ * order's manufacturer, product type and print method so defect rates can be reported per
+ * manufacturer and print type (get_qc_defect_rates).
+ *
+ * The defect list is also rendered as text into orders.qc_feedback_structured and the QC
+ * evidence trail, which keep the readable summary they always had.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { DEFECT_CLASS_LABELS, DefectClass } from "@/lib/aqlSampling";
+
+export type DefectCategory =
+  | 'print'
+  | 'colour'
+  | 'stitching'
+  | 'measurement'
+  | 'fabric'
+  | 'trims'
+  | 'labelling'
+  | 'packaging'
+  | 'other';
+
+export type DefectStage = 'sample' | 'bulk';
+
+export const DEFECT_CATEGORIES: DefectCategory[] = [
+  'print', 'colour', 'stitching', 'measurement', 'fabric', 'trims', 'labelling', 'packaging', 'other',
+];
+
+export const DEFECT_CATEGORY_LABELS: Record<DefectCategory, string> = {
+  print: 'Print',
+  colour: 'Colour',
+  stitching: 'Stitching',
+  measurement: 'Measurement',
+  fabric: 'Fabric',
+  trims: 'Trims & Closures',
+  labelling: 'Labelling',
+  packaging: 'Packaging',
+  other: 'Other',
+};
+
+// Product types a code can be limited to (StartOrder product picker)
+export const DEFECT_PRODUCT_TYPES = ['T-Shirts', 'Hoodies', 'Caps', 'Bags', 'Jackets', 'Custom'];
+
+export const DEFECT_CODE_PATTERN = /^[A-Z]{3}-[A-Z0-9]{2,10}$/;
+
+// Pin or box on a QC photo, in fractions of the image size
+export type DefectAnnotation =
+  | { type: 'pin'; x: number; y: number }
+  | { type: 'box'; x: number; y: number; width: number; height: number };
+
+export interface DefectCode {
+  code: string;
+  label: string;
+  category: DefectCategory;
+  default_severity: DefectClass;
+  // Empty = every product type
+  product_types: string[];
+  description: string | null;
+  active: boolean;
+  sort_order: number;
+}
+
+export interface QCDefect {
+  id: string;
+  order_id: string;
+  order_qc_id: string | null;
+  stage: DefectStage;
+  defect_code: string;
+  severity: DefectClass;
+  pieces: number;
+  location: string | null;
+  required_fix: string | null;
+  notes: string | null;
+  file_url: string | null;
+  annotation: DefectAnnotation | null;
+  recorded_by_role: 'buyer' | 'admin' | 'manufacturer' | null;
+  manufacturer_id: string | null;
+  product_type: string | null;
+  print_method: string | null;
+  created_at: string;
+  defect: { label: string; category: DefectCategory } | null;
+}
+
+// A defect being entered in a QC review, before it is recorded
+export interface QCDefectDraft {
+  defect_code: string;
+  severity: DefectClass;
+  pieces: number;
+  location: string;
+  required_fix: string;
+  notes: string;
+  file_url: string | null;
+  annotation: DefectAnnotation | null;
+}
+
+export interface DefectRate {
+  manufacturer_id: string | null;
+  print_method: string | null;
+  defect_code: string;
+  category: DefectCategory;
+  defect_count: number;
+  pieces_affected: number;
+  qc_submissions: number;
+  defect_rate: number | null;
+}
+
+export interface DefectResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+/**
+ * Whether a catalogue code applies to a product type
+ */
+export function appliesToProduct(code: DefectCode, productType?: string | null): boolean {
+  return code.product_types.length === 0 || !productType || code.product_types.includes(productType);
+}
+
+/**
+ * New draft for a code, at the code's default severity
+ */
+export function createDefectDraft(code: DefectCode): QCDefectDraft {
+  return {
+    defect_code: code.code,
+    severity: code.default_severity,
+    pieces: 1,
+    location: '',
+    required_fix: '',
+    notes: '',
+    file_url: null,
+    annotation: null,
+  };
+}
+
+/**
+ * Check drafts before a QC rejection is submitted
+ */
+export function validateDefects(drafts: QCDefectDraft[], isRequired: boolean): { valid: boolean; reason?: string } {
+  if (isRequired && drafts.length === 0) {
+    return { valid: false, reason: 'Add at least one defect from the catalogue.' };
+  }
+
+  for (const [index, draft] of drafts.entries()) {
+    const row = `Defect ${index + 1}`;
+    if (!draft.defect_code) {
+      return { valid: false, reason: `${row}: pick a defect code.` };
+    }
+    if (!Number.isInteger(draft.pieces) || draft.pieces < 1) {
+      return { valid: false, reason: `${row}: pieces affected must be a whole number of at least 1.` };
+    }
+    if (draft.location.trim().length < 2) {
+      return { valid: false, reason: `${row}: say where the defect is.` };
+    }
+    if (draft.required_fix.trim().length < 2) {
+      return { valid: false, reason: `${row}: say what the manufacturer has to fix.` };
+    }
+    if (draft.annotation && !draft.file_url) {
+      return { valid: false, reason: `${row}: the mark has no photo.` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Readable summary of the defects, stored as qc_feedback_structured and in the evidence trail
+ */
+export function formatDefectSummary(drafts: QCDefectDraft[], codes: DefectCode[]): string {
+  return drafts
+    .map((draft, index) => {
+      const code = codes.find((entry) => entry.code === draft.defect_code);
+      const lines = [
+        `${index + 1}. ${draft.defect_code}${code ? ` ${code.label}` : ''}`,
+        `Severity: ${DEFECT_CLASS_LABELS[draft.severity]} (${draft.pieces} ${draft.pieces === 1 ? 'piece' : 'pieces'})`,
+        `Location: ${draft.location.trim()}`,
+        `Evidence reference: ${draft.file_url ? `${draft.file_url}${draft.annotation ? ` (${draft.annotation.type})` : ''}` : 'none'}`,
+        `Required fix: ${draft.required_fix.trim()}`,
+      ];
+      if (draft.notes.trim()) {
+        lines.push(`Notes: ${draft.notes.trim()}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Catalogue codes, in display order. Pass a product type to get only the active codes
+ * that apply to it.
+ */
+export async function fetchDefectCodes(productType?: string | null): Promise<DefectCode[]> {
+  let query = supabase
+    .from('qc_defect_codes')
+    .select('code, label, category, default_severity, product_types, description, active, sort_order')
+    .order('sort_order', { ascending: true });
+
+  if (productType !== undefined) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[QCDefects] Failed to fetch defect codes:', error);
+    return [];
+  }
+
+  const codes = (data || []) as DefectCode[];
+  return productType === undefined ? codes : codes.filter((code) => appliesToProduct(code, productType));
+}
+
+/**
+ * Add or update a catalogue code (admin). Codes are retired, not deleted - recorded
+ * defects keep pointing at them.
+ */
+export async function saveDefectCode(code: DefectCode): Promise<DefectResult> {
+  if (!DEFECT_CODE_PATTERN.test(code.code)) {
+    return { success: false, error: `Code ${code.code || '(empty)'} must look like PRT-MISREG.` };
+  }
+  if (!code.label.trim()) {
+    return { success: false, error: `${code.code}: label is required.` };
+  }
+
+  const { error } = await supabase
+    .from('qc_defect_codes')
+    .upsert({
+      code: code.code,
+      label: code.label.trim(),
+      category: code.category,
+      default_severity: code.default_severity,
+      product_types: code.product_types,
+      description: code.description?.trim() || null,
+      active: code.active,
+      sort_order: code.sort_order,
+    });
+
+  if (error) {
+    console.error('[QCDefects] Failed to save defect code:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Record the defects of a QC review. The database attaches them to the latest QC
+ * submission of the stage and snapshots the order for analytics.
+ */
+export async function recordQCDefects(
+  orderId: string,
+  stage: DefectStage,
+  drafts: QCDefectDraft[]
+): Promise<DefectResult> {
+  if (drafts.length === 0) {
+    return { success: true };
+  }
+
+  const validation = validateDefects(drafts, true);
+  if (!validation.valid) {
+    return { success: false, error: validation.reason };
+  }
+
+  const { error } = await supabase
+    .from('qc_defects')
+    .insert(drafts.map((draft) => ({
+      order_id: orderId,
+      stage,
+      defect_code: draft.defect_code,
+      severity: draft.severity,
+      pieces: draft.pieces,
+      location: draft.location.trim(),
+      required_fix: draft.required_fix.trim(),
+      notes: draft.notes.trim() || null,
+      file_url: draft.file_url,
+      annotation: draft.annotation,
+    })));
+
+  if (error) {
+    console.error('[QCDefects] Failed to record defects:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Defects recorded on an order, newest first
+ */
+export async function fetchOrderDefects(orderId: string, stage?: DefectStage): Promise<QCDefect[]> {
+  let query = supabase
+    .from('qc_defects')
+    .select('*, defect:qc_defect_codes(label, category)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (stage) {
+    query = query.eq('stage', stage);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[QCDefects] Failed to fetch defects:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as QCDefect[];
+}
+
+/**
+ * Defect rates per manufacturer, print method and code (admin)
+ */
+export async function fetchDefectRates(since?: Date): Promise<DefectRate[]> {
+  const { data, error } = await supabase.rpc('get_qc_defect_rates', {
+    _since: since?.toISOString(),
+  });
+
+  if (error) {
+    console.error('[QCDefects] Failed to fetch defect rates:', error);
+    return [];
+  }
+
+  return (data || []) as DefectRate[];
+}
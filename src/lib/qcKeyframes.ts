@@ -0,0 +1,308 @@
+/**
+ * QC Video Keyframes
+ *
+ * Extracts keyframes from a QC video in the browser and stores them as order evidence, so
+ * reviewers can compare stills with the approved sample and the mockup instead of scrubbing
+ * through the video.
+ *
+ * The video is sampled every second; a frame is kept when it differs enough from the last
+ * kept frame (a new angle or a new piece), so a steady shot of one garment gives one frame.
+ * Frames are JPEGs in the orders bucket next to the video, recorded in order_evidence as
+ * `<stage>_qc_keyframe` with the video path and timestamp in the metadata.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { storeMultipleEvidence, UploaderRole } from "@/lib/evidenceStorage";
+
+export type KeyframeStage = 'sample' | 'bulk';
+
+export interface ExtractedFrame {
+  blob: Blob;
+  timestamp: number;
+  // Difference from the previous kept frame, 0-1 (1 for the first frame)
+  sceneScore: number;
+  width: number;
+  height: number;
+}
+
+export interface QCKeyframe {
+  id: string;
+  path: string;
+  videoPath: string;
+  timestamp: number;
+  frameIndex: number;
+  sceneScore: number;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+export interface KeyframeOptions {
+  maxFrames?: number;
+  minFrames?: number;
+  intervalSeconds?: number;
+  sceneThreshold?: number;
+}
+
+export interface KeyframeResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+const DEFAULT_OPTIONS: Required<KeyframeOptions> = {
+  maxFrames: 12,
+  minFrames: 4,
+  intervalSeconds: 1,
+  sceneThreshold: 0.12,
+};
+
+// Fingerprint size for scene detection and longest side of stored frames
+const FINGERPRINT_WIDTH = 32;
+const FINGERPRINT_HEIGHT = 18;
+const MAX_FRAME_SIZE = 1280;
+const JPEG_QUALITY = 0.85;
+
+export const keyframeEvidenceType = (stage: KeyframeStage) => `${stage}_qc_keyframe`;
+
+export function formatFrameTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+}
+
+function loadVideo(source: File | string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('The video could not be decoded in this browser'));
+    video.src = typeof source === 'string' ? source : URL.createObjectURL(source);
+  });
+}
+
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+}
+
+function fingerprint(video: HTMLVideoElement, canvas: HTMLCanvasElement): Uint8ClampedArray {
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  context.drawImage(video, 0, 0, FINGERPRINT_WIDTH, FINGERPRINT_HEIGHT);
+  const { data } = context.getImageData(0, 0, FINGERPRINT_WIDTH, FINGERPRINT_HEIGHT);
+  const luma = new Uint8ClampedArray(FINGERPRINT_WIDTH * FINGERPRINT_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+}
+
+function difference(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / (a.length * 255);
+}
+
+function capture(video: HTMLVideoElement): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve({ blob, width: canvas.width, height: canvas.height }) : reject(new Error('Failed to encode frame'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+}
+
+/**
+ * Pick keyframes by scene change, topped up with evenly spaced frames for short or static
+ * videos and capped at maxFrames (largest changes win, the opening frame is always kept).
+ */
+export async function extractKeyframes(source: File | string, options: KeyframeOptions = {}): Promise<ExtractedFrame[]> {
+  const { maxFrames, minFrames, intervalSeconds, sceneThreshold } = { ...DEFAULT_OPTIONS, ...options };
+  const video = await loadVideo(source);
+
+  try {
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const canvas = document.createElement('canvas');
+    canvas.width = FINGERPRINT_WIDTH;
+    canvas.height = FINGERPRINT_HEIGHT;
+
+    let picked: { timestamp: number; sceneScore: number }[] = [];
+    let previous: Uint8ClampedArray | null = null;
+    for (let time = 0; time < Math.max(duration, 0.01); time += intervalSeconds) {
+      await seek(video, time);
+      const current = fingerprint(video, canvas);
+      const score = previous ? difference(previous, current) : 1;
+      if (score >= sceneThreshold) {
+        picked.push({ timestamp: time, sceneScore: score });
+        previous = current;
+      }
+    }
+
+    if (picked.length < minFrames && duration > 0) {
+      for (let i = 1; i <= minFrames; i++) {
+        const timestamp = (duration * i) / (minFrames + 1);
+        if (!picked.some((frame) => Math.abs(frame.timestamp - timestamp) < intervalSeconds / 2)) {
+          picked.push({ timestamp, sceneScore: 0 });
+        }
+      }
+    }
+
+    if (picked.length > maxFrames) {
+      const [first, ...rest] = picked;
+      picked = [first, ...rest.sort((a, b) => b.sceneScore - a.sceneScore).slice(0, maxFrames - 1)];
+    }
+    picked.sort((a, b) => a.timestamp - b.timestamp);
+
+    const frames: ExtractedFrame[] = [];
+    for (const frame of picked) {
+      await seek(video, frame.timestamp);
+      frames.push({ ...frame, sceneScore: Math.round(frame.sceneScore * 1000) / 1000, ...(await capture(video)) });
+    }
+    return frames;
+  } finally {
+    if (video.src.startsWith('blob:')) {
+      URL.revokeObjectURL(video.src);
+    }
+  }
+}
+
+/**
+ * Upload extracted frames next to the video and record them as evidence
+ */
+export async function storeQCKeyframes(
+  orderId: string,
+  stage: KeyframeStage,
+  videoPath: string,
+  frames: ExtractedFrame[],
+  uploader: { role: UploaderRole; id: string; manufacturerId?: string | null }
+): Promise<KeyframeResult<number>> {
+  const uploaded: { path: string; frame: ExtractedFrame; index: number }[] = [];
+  const batch = Date.now();
+
+  for (const [index, frame] of frames.entries()) {
+    const path = `${orderId}/qc_${stage}/frames/${batch}_frame_${index}_${Math.round(frame.timestamp * 1000)}ms.jpg`;
+    const { error } = await supabase.storage
+      .from('orders')
+      .upload(path, frame.blob, { contentType: 'image/jpeg', cacheControl: '3600', upsert: false });
+
+    if (error) {
+      console.error('[Keyframes] Frame upload failed:', error);
+      return { success: false, error: `Failed to upload frame ${index + 1}: ${error.message}` };
+    }
+    uploaded.push({ path, frame, index });
+  }
+
+  const result = await storeMultipleEvidence(uploaded.map(({ path, frame, index }) => ({
+    orderId,
+    manufacturerId: uploader.manufacturerId || undefined,
+    evidenceType: keyframeEvidenceType(stage),
+    stage,
+    fileUrl: path,
+    fileName: `Frame at ${formatFrameTimestamp(frame.timestamp)}`,
+    uploaderRole: uploader.role,
+    uploaderId: uploader.id,
+    metadata: {
+      video_path: videoPath,
+      timestamp_seconds: Math.round(frame.timestamp * 100) / 100,
+      frame_index: index,
+      scene_score: frame.sceneScore,
+      width: frame.width,
+      height: frame.height,
+    },
+  })));
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, data: uploaded.length };
+}
+
+/**
+ * Extract and store keyframes of a video already in the orders bucket (reprocessing)
+ */
+export async function processStoredQCVideo(
+  orderId: string,
+  stage: KeyframeStage,
+  videoPath: string,
+  uploader: { role: UploaderRole; id: string; manufacturerId?: string | null }
+): Promise<KeyframeResult<number>> {
+  const { data, error } = await supabase.storage.from('orders').createSignedUrl(videoPath, 3600);
+  if (error || !data?.signedUrl) {
+    return { success: false, error: 'Could not access the QC video' };
+  }
+
+  try {
+    const frames = await extractKeyframes(data.signedUrl);
+    return await storeQCKeyframes(orderId, stage, videoPath, frames, uploader);
+  } catch (err) {
+    console.error('[Keyframes] Extraction failed:', err);
+    return { success: false, error: err instanceof Error ? err.message : 'Keyframe extraction failed' };
+  }
+}
+
+/**
+ * Keyframes of a stage, in video order. Pass the video path to get only that video's
+ * frames (the latest upload); a reprocessed video keeps its latest batch.
+ */
+export async function fetchQCKeyframes(orderId: string, stage: KeyframeStage, videoPath?: string | null): Promise<QCKeyframe[]> {
+  let query = supabase
+    .from('order_evidence')
+    .select('id, file_url, metadata, created_at')
+    .eq('order_id', orderId)
+    .eq('evidence_type', keyframeEvidenceType(stage))
+    .order('created_at', { ascending: false });
+
+  if (videoPath) {
+    query = query.eq('metadata->>video_path', videoPath);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[Keyframes] Failed to fetch keyframes:', error);
+    return [];
+  }
+
+  const frames = (data || [])
+    .filter((row) => row.file_url)
+    .map((row) => {
+      const metadata = (row.metadata || {}) as Record<string, number | string>;
+      return {
+        id: row.id,
+        path: row.file_url as string,
+        videoPath: String(metadata.video_path || ''),
+        timestamp: Number(metadata.timestamp_seconds || 0),
+        frameIndex: Number(metadata.frame_index || 0),
+        sceneScore: Number(metadata.scene_score || 0),
+        width: Number(metadata.width || 0),
+        height: Number(metadata.height || 0),
+        createdAt: row.created_at,
+      };
+    });
+
+  // Latest batch per video
+  const latestBatch: Record<string, string> = {};
+  for (const frame of frames) {
+    const batch = frame.path.split('/').pop()!.split('_')[0];
+    latestBatch[frame.videoPath] ??= batch;
+  }
+
+  return frames
+    .filter((frame) => frame.path.split('/').pop()!.startsWith(`${latestBatch[frame.videoPath]}_`))
+    .sort((a, b) => a.videoPath.localeCompare(b.videoPath) || a.timestamp - b.timestamp);
+}
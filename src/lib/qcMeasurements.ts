@@ -0,0 +1,374 @@
+/**
+ * QC Measurements
+ *
+ * With each QC submission the manufacturer measures sampled pieces per size: chest, length
+ * and sleeve against the order's size chart (order_size_chart, cm, tolerance per size) and
+ * print width, height and offset against the locked spec (order_specs, mm, tolerance_mm).
+ *
+ * The database checks every piece when it is recorded (evaluate_qc_measurement) and blocks
+ * approval of a submission with a piece out of tolerance (enforce_qc_measurements);
+ * evaluateMeasurement mirrors the check so the sheet shows pass/fail while it is filled in.
+ * Orders without targets are not measured.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type MeasurementStage = 'sample' | 'bulk';
+
+export type MeasurementPoint = 'chest' | 'length' | 'sleeve' | 'print_width' | 'print_height' | 'print_offset';
+
+export const MEASUREMENT_POINTS: MeasurementPoint[] = [
+  'chest', 'length', 'sleeve', 'print_width', 'print_height', 'print_offset',
+];
+
+export const MEASUREMENT_POINT_LABELS: Record<MeasurementPoint, string> = {
+  chest: 'Chest',
+  length: 'Length',
+  sleeve: 'Sleeve',
+  print_width: 'Print width',
+  print_height: 'Print height',
+  print_offset: 'Print offset',
+};
+
+export const MEASUREMENT_POINT_UNITS: Record<MeasurementPoint, 'cm' | 'mm'> = {
+  chest: 'cm',
+  length: 'cm',
+  sleeve: 'cm',
+  print_width: 'mm',
+  print_height: 'mm',
+  print_offset: 'mm',
+};
+
+// qc_measurements column per point
+const POINT_COLUMNS = {
+  chest: 'chest_cm',
+  length: 'length_cm',
+  sleeve: 'sleeve_cm',
+  print_width: 'print_width_mm',
+  print_height: 'print_height_mm',
+  print_offset: 'print_offset_mm',
+} as const;
+
+export interface SizeChartRow {
+  size: string;
+  chest_cm: number | null;
+  length_cm: number | null;
+  sleeve_cm: number | null;
+  tolerance_cm: number;
+}
+
+export interface PrintTargets {
+  print_width_mm: number | null;
+  print_height_mm: number | null;
+  print_offset_mm: number | null;
+  tolerance_mm: number;
+}
+
+export interface MeasurementSpec {
+  sizeChart: SizeChartRow[];
+  print: PrintTargets | null;
+}
+
+export interface MeasurementTarget {
+  point: MeasurementPoint;
+  target: number;
+  tolerance: number;
+}
+
+export interface MeasurementFailure extends MeasurementTarget {
+  measured: number;
+  deviation: number;
+}
+
+// A measured piece being entered, before it is recorded
+export interface MeasurementDraft {
+  size: string;
+  piece_number: number;
+  values: Partial<Record<MeasurementPoint, number | null>>;
+}
+
+export interface QCMeasurement {
+  id: string;
+  order_id: string;
+  order_qc_id: string;
+  stage: MeasurementStage;
+  size: string;
+  piece_number: number;
+  chest_cm: number | null;
+  length_cm: number | null;
+  sleeve_cm: number | null;
+  print_width_mm: number | null;
+  print_height_mm: number | null;
+  print_offset_mm: number | null;
+  result: 'pass' | 'fail' | null;
+  failures: MeasurementFailure[];
+  measured_by: string | null;
+  created_at: string;
+}
+
+export interface MeasurementSummary {
+  pieces: number;
+  failed: number;
+  sizes: string[];
+}
+
+export interface MeasurementResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+export const normalizeSize = (size: string) => size.trim().toUpperCase();
+
+// Whether QC needs a measurement sheet (order_has_measurement_targets)
+export function hasMeasurementTargets(spec: MeasurementSpec | null): boolean {
+  if (!spec) return false;
+  const { print } = spec;
+  return spec.sizeChart.length > 0
+    || (!!print && [print.print_width_mm, print.print_height_mm, print.print_offset_mm].some((target) => target != null));
+}
+
+function targetFor(spec: MeasurementSpec, size: string, point: MeasurementPoint): MeasurementTarget | null {
+  if (point.startsWith('print_')) {
+    const target = spec.print?.[POINT_COLUMNS[point] as keyof PrintTargets];
+    return spec.print && target != null ? { point, target, tolerance: spec.print.tolerance_mm } : null;
+  }
+
+  const row = spec.sizeChart.find((entry) => entry.size === normalizeSize(size));
+  const target = row?.[POINT_COLUMNS[point] as keyof SizeChartRow] as number | null | undefined;
+  return row && target != null ? { point, target, tolerance: row.tolerance_cm } : null;
+}
+
+/**
+ * Points to measure for a size, with their targets
+ */
+export function measurementTargets(spec: MeasurementSpec, size: string): MeasurementTarget[] {
+  return MEASUREMENT_POINTS
+    .map((point) => targetFor(spec, size, point))
+    .filter((target): target is MeasurementTarget => target !== null);
+}
+
+/**
+ * Pass/fail of a piece, as evaluate_qc_measurement decides it. Points without a
+ * value are reported as missing and do not fail the piece here.
+ */
+export function evaluateMeasurement(
+  spec: MeasurementSpec,
+  draft: MeasurementDraft
+): { result: 'pass' | 'fail'; failures: MeasurementFailure[]; missing: MeasurementPoint[] } {
+  const failures: MeasurementFailure[] = [];
+  const missing: MeasurementPoint[] = [];
+
+  for (const target of measurementTargets(spec, draft.size)) {
+    const measured = draft.values[target.point];
+    if (measured == null || Number.isNaN(measured)) {
+      missing.push(target.point);
+      continue;
+    }
+    const deviation = measured - target.target;
+    if (Math.abs(deviation) > target.tolerance) {
+      failures.push({ ...target, measured, deviation });
+    }
+  }
+
+  return { result: failures.length === 0 ? 'pass' : 'fail', failures, missing };
+}
+
+/**
+ * Check a sheet before the QC upload. Orders without targets need no sheet.
+ */
+export function validateMeasurementSheet(spec: MeasurementSpec | null, drafts: MeasurementDraft[]): { valid: boolean; reason?: string } {
+  if (!spec || !hasMeasurementTargets(spec)) {
+    return { valid: true };
+  }
+
+  if (drafts.length === 0) {
+    return { valid: false, reason: 'Measure at least one sampled piece.' };
+  }
+
+  const seen = new Set<string>();
+  for (const draft of drafts) {
+    const size = normalizeSize(draft.size);
+    const row = `${size || 'Piece'} #${draft.piece_number}`;
+    if (!size) {
+      return { valid: false, reason: 'Pick a size for every measured piece.' };
+    }
+    if (spec.sizeChart.length > 0 && !spec.sizeChart.some((entry) => entry.size === size)) {
+      return { valid: false, reason: `${row}: size ${size} is not on the size chart.` };
+    }
+    if (seen.has(`${size}|${draft.piece_number}`)) {
+      return { valid: false, reason: `${row} is measured twice.` };
+    }
+    seen.add(`${size}|${draft.piece_number}`);
+
+    const { missing } = evaluateMeasurement(spec, draft);
+    if (missing.length > 0) {
+      return { valid: false, reason: `${row}: measure ${missing.map((point) => MEASUREMENT_POINT_LABELS[point].toLowerCase()).join(', ')}.` };
+    }
+  }
+
+  return { valid: true };
+}
+
+export function formatDeviation(failure: Pick<MeasurementFailure, 'point' | 'deviation' | 'tolerance'>): string {
+  const unit = MEASUREMENT_POINT_UNITS[failure.point];
+  const sign = failure.deviation > 0 ? '+' : '';
+  return `${sign}${Math.round(failure.deviation * 10) / 10} ${unit} (±${failure.tolerance})`;
+}
+
+export function summarizeMeasurements(measurements: Pick<QCMeasurement, 'size' | 'result'>[]): MeasurementSummary {
+  return {
+    pieces: measurements.length,
+    failed: measurements.filter((measurement) => measurement.result === 'fail').length,
+    sizes: [...new Set(measurements.map((measurement) => measurement.size))],
+  };
+}
+
+/**
+ * Size chart and print targets of an order
+ */
+export async function fetchMeasurementSpec(orderId: string): Promise<MeasurementSpec> {
+  const [{ data: chart, error: chartError }, { data: specs, error: specsError }] = await Promise.all([
+    supabase
+      .from('order_size_chart')
+      .select('size, chest_cm, length_cm, sleeve_cm, tolerance_cm')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('order_specs')
+      .select('print_width_mm, print_height_mm, print_offset_mm, tolerance_mm')
+      .eq('order_id', orderId)
+      .maybeSingle(),
+  ]);
+
+  if (chartError || specsError) {
+    console.error('[QCMeasurements] Failed to fetch measurement spec:', chartError || specsError);
+  }
+
+  return {
+    sizeChart: (chart || []) as SizeChartRow[],
+    print: specs || null,
+  };
+}
+
+/**
+ * Replace the size chart of an order (admin, before the specs are locked)
+ */
+export async function saveSizeChart(orderId: string, rows: SizeChartRow[]): Promise<MeasurementResult> {
+  const sizes = rows.map((row) => normalizeSize(row.size));
+  if (sizes.some((size) => !size)) {
+    return { success: false, error: 'Every size chart row needs a size.' };
+  }
+  if (new Set(sizes).size !== sizes.length) {
+    return { success: false, error: 'Each size can appear on the size chart only once.' };
+  }
+
+  const { error: deleteError } = await supabase
+    .from('order_size_chart')
+    .delete()
+    .eq('order_id', orderId);
+
+  if (deleteError) {
+    console.error('[QCMeasurements] Failed to clear size chart:', deleteError);
+    return { success: false, error: deleteError.message };
+  }
+
+  if (rows.length === 0) {
+    return { success: true };
+  }
+
+  const { error } = await supabase
+    .from('order_size_chart')
+    .insert(rows.map((row) => ({
+      order_id: orderId,
+      size: normalizeSize(row.size),
+      chest_cm: row.chest_cm,
+      length_cm: row.length_cm,
+      sleeve_cm: row.sleeve_cm,
+      tolerance_cm: row.tolerance_cm,
+    })));
+
+  if (error) {
+    console.error('[QCMeasurements] Failed to save size chart:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Record the measurement sheet of a QC submission. The database sets each piece's
+ * result; the recorded rows are returned.
+ */
+export async function recordQCMeasurements(
+  orderQcId: string,
+  orderId: string,
+  stage: MeasurementStage,
+  drafts: MeasurementDraft[]
+): Promise<MeasurementResult<QCMeasurement[]>> {
+  if (drafts.length === 0) {
+    return { success: true, data: [] };
+  }
+
+  const value = (draft: MeasurementDraft, point: MeasurementPoint) => draft.values[point] ?? null;
+
+  const { data, error } = await supabase
+    .from('qc_measurements')
+    .insert(drafts.map((draft) => ({
+      order_id: orderId,
+      order_qc_id: orderQcId,
+      stage,
+      size: normalizeSize(draft.size),
+      piece_number: draft.piece_number,
+      chest_cm: value(draft, 'chest'),
+      length_cm: value(draft, 'length'),
+      sleeve_cm: value(draft, 'sleeve'),
+      print_width_mm: value(draft, 'print_width'),
+      print_height_mm: value(draft, 'print_height'),
+      print_offset_mm: value(draft, 'print_offset'),
+    })))
+    .select('*');
+
+  if (error) {
+    console.error('[QCMeasurements] Failed to record measurements:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: (data || []) as unknown as QCMeasurement[] };
+}
+
+/**
+ * Measurements of the latest QC submission of a stage, by size and piece
+ */
+export async function fetchLatestMeasurements(orderId: string, stage: MeasurementStage): Promise<QCMeasurement[]> {
+  const { data: qc, error: qcError } = await supabase
+    .from('order_qc')
+    .select('id')
+    .eq('order_id', orderId)
+    .eq('stage', stage)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (qcError) {
+    console.error('[QCMeasurements] Failed to fetch QC submission:', qcError);
+    return [];
+  }
+  if (!qc) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('qc_measurements')
+    .select('*')
+    .eq('order_qc_id', qc.id)
+    .order('size', { ascending: true })
+    .order('piece_number', { ascending: true });
+
+  if (error) {
+    console.error('[QCMeasurements] Failed to fetch measurements:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as QCMeasurement[];
+}
@@ -0,0 +1,258 @@
+/**
+ * Admin QC Review Queue
+ *
+ * Orders in SAMPLE_QC_UPLOADED / BULK_QC_UPLOADED are reviewed from a shared queue, oldest
+ * first. A reviewer claims the latest QC submission (or an admin assigns it) and decides it
+ * through decide_qc_review. Orders worth at least the qc_review_policies threshold need a
+ * second admin to sign off the approval (four-eyes); the first approval parks the submission
+ * as 'awaiting_second_review'.
+ */
+
+import { differenceInMinutes } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { OrderState } from "./orderStateMachineV2";
+
+export type AdminQCDecisionStatus = 'pending' | 'awaiting_second_review' | 'approved' | 'rejected';
+
+export const ADMIN_QC_DECISION_LABELS: Record<AdminQCDecisionStatus, string> = {
+  pending: 'Pending',
+  awaiting_second_review: 'Awaiting second sign-off',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export type QueueFilter = 'all' | 'mine' | 'unassigned' | 'second_review';
+
+export interface QueueQCRecord {
+  id: string;
+  stage: string;
+  created_at: string | null;
+  admin_decision: string | null;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  second_review_required: boolean;
+  first_approval_by: string | null;
+  first_approval_at: string | null;
+}
+
+export interface QueueOrder {
+  id: string;
+  order_state: string | null;
+  product_type: string;
+  quantity: number;
+  total_order_value: number | null;
+  total_amount: number | null;
+  sample_qc_uploaded_at: string | null;
+  bulk_qc_uploaded_at: string | null;
+  created_at: string;
+}
+
+export interface QueueEntry {
+  order: QueueOrder;
+  // Latest QC submission of the order (null when QC was uploaded without a record)
+  qc: QueueQCRecord | null;
+  stage: 'sample' | 'bulk';
+  // When QC was uploaded - the queue is sorted on this
+  submittedAt: string;
+}
+
+export interface QCReviewer {
+  user_id: string;
+  email: string | null;
+  company_name: string | null;
+}
+
+export interface QCReviewMetrics {
+  // null on the total row
+  reviewer_id: string | null;
+  decisions: number;
+  approvals: number;
+  rejections: number;
+  first_approvals: number;
+  second_signoffs: number;
+  // QC submission to this reviewer's action, first approvals included
+  avg_response_hours: number | null;
+  // QC submission to final decision
+  avg_turnaround_hours: number | null;
+  median_turnaround_hours: number | null;
+}
+
+export interface QCReviewResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+const QUEUE_STATES: OrderState[] = ['SAMPLE_QC_UPLOADED', 'BULK_QC_UPLOADED'];
+
+/**
+ * Whether a submission still needs an admin decision
+ */
+export const isOpenForReview = (qc: { admin_decision: string | null } | null) =>
+  !qc || !qc.admin_decision || qc.admin_decision === 'pending' || qc.admin_decision === 'awaiting_second_review';
+
+/**
+ * Time waiting in the queue, e.g. "45m", "6h", "3d 4h"
+ */
+export function formatQueueAge(since: string, now: Date = new Date()): string {
+  const minutes = Math.max(0, differenceInMinutes(now, new Date(since)));
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 > 0 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+export function formatHours(hours: number | null): string {
+  if (hours === null || hours === undefined) return '—';
+  return hours < 24 ? `${hours}h` : `${(hours / 24).toFixed(1)}d`;
+}
+
+export function filterQueue(entries: QueueEntry[], filter: QueueFilter, userId: string | null): QueueEntry[] {
+  switch (filter) {
+    case 'mine':
+      return entries.filter(entry => entry.qc?.assigned_to === userId);
+    case 'unassigned':
+      return entries.filter(entry => !entry.qc?.assigned_to);
+    case 'second_review':
+      return entries.filter(entry => entry.qc?.admin_decision === 'awaiting_second_review');
+    default:
+      return entries;
+  }
+}
+
+/**
+ * Orders waiting on QC review with their latest submission, oldest upload first
+ */
+export async function fetchQCReviewQueue(): Promise<QueueEntry[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      id, order_state, product_type, quantity, total_order_value, total_amount,
+      sample_qc_uploaded_at, bulk_qc_uploaded_at, created_at,
+      order_qc(id, stage, created_at, admin_decision, assigned_to, assigned_at,
+        second_review_required, first_approval_by, first_approval_at)
+    `)
+    .in('order_state', QUEUE_STATES);
+
+  if (error) {
+    console.error('[QCReviewQueue] Failed to fetch queue:', error);
+    return [];
+  }
+
+  const entries = (data || []).map(({ order_qc, ...order }) => {
+    const stage: 'sample' | 'bulk' = order.order_state === 'BULK_QC_UPLOADED' ? 'bulk' : 'sample';
+    const qc = ((order_qc || []) as QueueQCRecord[])
+      .filter(record => record.stage === stage)
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''))[0] || null;
+    const submittedAt = (stage === 'bulk' ? order.bulk_qc_uploaded_at : order.sample_qc_uploaded_at)
+      || qc?.created_at
+      || order.created_at;
+
+    return { order, qc, stage, submittedAt };
+  });
+
+  return entries.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+/**
+ * Admins who can be assigned QC reviews
+ */
+export async function fetchQCReviewers(): Promise<QCReviewer[]> {
+  const { data, error } = await supabase.rpc('get_qc_reviewers');
+
+  if (error) {
+    console.error('[QCReviewQueue] Failed to fetch reviewers:', error);
+    return [];
+  }
+
+  return (data || []) as QCReviewer[];
+}
+
+/**
+ * Claim a submission, or assign it to another admin
+ */
+export async function claimQCReview(qcId: string, assignee?: string): Promise<QCReviewResult> {
+  const { error } = await supabase.rpc('claim_qc_review', {
+    _qc_id: qcId,
+    _assignee: assignee,
+  });
+
+  if (error) {
+    console.error('[QCReviewQueue] Failed to claim review:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+export async function releaseQCReview(qcId: string): Promise<QCReviewResult> {
+  const { error } = await supabase.rpc('release_qc_review', { _qc_id: qcId });
+
+  if (error) {
+    console.error('[QCReviewQueue] Failed to release review:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Submission to decide for an order whose QC was uploaded without a record - created on the
+ * order's current QC stage unless one is already open
+ */
+export async function openQCReview(orderId: string): Promise<QCReviewResult<string>> {
+  const { data, error } = await supabase.rpc('open_qc_review', { _order_id: orderId });
+
+  if (error) {
+    console.error('[QCReviewQueue] Failed to open review:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: data as string };
+}
+
+/**
+ * Approve or reject a submission (notes required to reject). Returns the resulting
+ * decision - 'awaiting_second_review' after the first of two approvals.
+ */
+export async function decideQCReview(
+  qcId: string,
+  decision: 'approved' | 'rejected',
+  notes: string
+): Promise<QCReviewResult<AdminQCDecisionStatus>> {
+  if (decision === 'rejected' && !notes.trim()) {
+    return { success: false, error: 'Please provide notes explaining the rejection' };
+  }
+
+  const { data, error } = await supabase.rpc('decide_qc_review', {
+    _qc_id: qcId,
+    _decision: decision,
+    _notes: notes.trim() || undefined,
+  });
+
+  if (error) {
+    console.error('[QCReviewQueue] Failed to decide review:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: data as AdminQCDecisionStatus };
+}
+
+/**
+ * Review turnaround per reviewer plus a total row (reviewer_id null)
+ */
+export async function fetchQCReviewMetrics(since?: Date): Promise<QCReviewMetrics[]> {
+  const { data, error } = await supabase.rpc('get_qc_review_metrics', {
+    _since: since?.toISOString(),
+  });
+
+  if (error) {
+    console.error('[QCReviewQueue] Failed to fetch review metrics:', error);
+    return [];
+  }
+
+  return (data || []) as QCReviewMetrics[];
+}
@@ -0,0 +1,367 @@
+/**
+ * Refund Ledger
+ *
+ * Partial refunds against the escrow, one ledger row per refund. Each refund is
+ * linked to what caused it (dispute, QC decision, cancellation, return or manual credit)
+ * and must be approved by an admin (approve_order_refund) before money moves.
+ *
+ * Escrow balance:
+ *   refundable         = captured - approved refunds - released to manufacturer
+ *   manufacturer payout = captured - approved refunds
+ *
+ * Rules:
+ * - A refund can never exceed the refundable balance (checked again on approval)
+ * - An admin claims a refund before paying it out; a claimed refund cannot be rejected
+ * - Gateway payments are refunded at the provider before the refund is approved, keyed by the
+ *   refund id: a refund the provider has not confirmed stays claimed and the approval is retried
+ * - Approved refunds come out of unreleased milestones, last tranche first
+ * - Refunding the whole balance before any release marks the order PAYMENT_REFUNDED
+ * - Every approved refund gets a GST credit note against the order's tax invoice
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { logOrderEvent } from "./orderEventLogger";
+import { PaymentOrder, PaymentState, canAdminRefund } from "./paymentStateMachine";
+import { OrderPaymentMilestone } from "./paymentSchedule";
+import { refundGatewayPayment } from "./paymentGateway";
+import { issueCreditNote } from "./taxInvoices";
+
+export type RefundSourceType = 'dispute' | 'qc_decision' | 'cancellation' | 'manual' | 'rma';
+
+export type RefundStatus = 'pending' | 'approved' | 'rejected';
+
+export interface OrderRefund {
+  id: string;
+  order_id: string;
+  amount: number;
+  reason: string;
+  source_type: RefundSourceType;
+  dispute_id: string | null;
+  qc_id: string | null;
+  rma_id: string | null;
+  affected_quantity: number | null;
+  status: RefundStatus;
+  requested_by: string;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  rejection_reason: string | null;
+  gateway_refund_id: string | null;
+  processing_by: string | null;
+  processing_at: string | null;
+}
+
+export interface RefundRequestInput {
+  orderId: string;
+  amount: number;
+  reason: string;
+  sourceType: Exclude<RefundSourceType, 'cancellation' | 'rma'>;
+  disputeId?: string | null;
+  qcId?: string | null;
+  affectedQuantity?: number | null;
+}
+
+export interface EscrowBalance {
+  captured: number;
+  refunded: number;
+  pendingRefunds: number;
+  released: number;
+  refundable: number;
+  manufacturerPayout: number;
+}
+
+export interface RefundLedgerResult {
+  success: boolean;
+  error?: string;
+}
+
+export const REFUND_SOURCE_LABELS: Record<RefundSourceType, string> = {
+  dispute: 'Dispute',
+  qc_decision: 'QC Decision',
+  cancellation: 'Cancellation',
+  manual: 'Manual Credit',
+  rma: 'Return (RMA)',
+};
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'Pending Approval',
+  approved: 'Refunded',
+  rejected: 'Rejected',
+};
+
+export const REFUND_STATUS_COLORS: Record<RefundStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+};
+
+const UNCAPTURED_PAYMENT_STATES: (PaymentState | null)[] = [null, 'PAYMENT_INITIATED'];
+
+/**
+ * Order value the escrow was funded with
+ */
+export function getOrderEscrowTotal(order: PaymentOrder): number {
+  return Number(order.total_order_value ?? order.total_amount ?? order.escrow_amount ?? 0);
+}
+
+/**
+ * Running escrow balance (same math as get_order_refundable_balance)
+ */
+export function computeEscrowBalance(
+  order: PaymentOrder,
+  refunds: OrderRefund[],
+  milestones: OrderPaymentMilestone[] = []
+): EscrowBalance {
+  const paymentState = (order.payment_state as PaymentState) || null;
+  const isCaptured = !UNCAPTURED_PAYMENT_STATES.includes(paymentState) || !!order.escrow_locked_timestamp;
+  const captured = isCaptured ? getOrderEscrowTotal(order) : 0;
+
+  const sumOf = (status: RefundStatus) =>
+    refunds.filter((r) => r.status === status).reduce((sum, r) => sum + Number(r.amount), 0);
+  const refunded = sumOf('approved');
+  const pendingRefunds = sumOf('pending');
+
+  let released = 0;
+  if (milestones.length > 0) {
+    released = milestones
+      .filter((m) => m.status === 'released')
+      .reduce((sum, m) => sum + Number(m.amount), 0);
+  } else if (paymentState === 'PAYMENT_RELEASED') {
+    released = captured - refunded;
+  }
+
+  return {
+    captured,
+    refunded,
+    pendingRefunds,
+    released,
+    refundable: Math.max(captured - refunded - released, 0),
+    manufacturerPayout: Math.max(captured - refunded, 0),
+  };
+}
+
+/**
+ * Pro-rata refund for defective pieces, e.g. 12 of 200
+ */
+export function calculateDefectRefund(orderValue: number, quantity: number, defectiveQuantity: number): number {
+  if (quantity <= 0 || defectiveQuantity <= 0) return 0;
+  return Math.round((orderValue * Math.min(defectiveQuantity, quantity)) / quantity);
+}
+
+/**
+ * Check if a partial refund can be requested
+ * Pending requests count against the balance so they cannot overdraw it together
+ */
+export function canRequestRefund(order: PaymentOrder, balance: EscrowBalance, amount: number): { allowed: boolean; reason?: string } {
+  const adminRefund = canAdminRefund(order);
+  if (!adminRefund.allowed) {
+    return adminRefund;
+  }
+
+  if (balance.captured === 0) {
+    return { allowed: false, reason: 'No payment has been captured for this order.' };
+  }
+
+  if (!(amount > 0)) {
+    return { allowed: false, reason: 'Refund amount must be greater than zero.' };
+  }
+
+  const available = balance.refundable - balance.pendingRefunds;
+  if (amount > available) {
+    return {
+      allowed: false,
+      reason: `Refund of ₹${amount.toLocaleString()} exceeds the available escrow balance of ₹${available.toLocaleString()}.`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Fetch an order's refund ledger, oldest first
+ */
+export async function fetchOrderRefunds(orderId: string): Promise<OrderRefund[]> {
+  const { data, error } = await supabase
+    .from('order_refunds')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('requested_at');
+
+  if (error) {
+    console.error('[RefundLedger] Failed to fetch refunds:', error);
+    return [];
+  }
+
+  return (data || []) as OrderRefund[];
+}
+
+/**
+ * Record a partial refund request (admin); it moves no money until approved
+ */
+export async function requestRefund(
+  input: RefundRequestInput,
+  actorId: string
+): Promise<RefundLedgerResult> {
+  const reason = input.reason.trim();
+  if (!reason) {
+    return { success: false, error: 'A refund reason is required.' };
+  }
+
+  const { data, error } = await supabase
+    .from('order_refunds')
+    .insert({
+      order_id: input.orderId,
+      amount: input.amount,
+      reason,
+      source_type: input.sourceType,
+      dispute_id: input.disputeId ?? null,
+      qc_id: input.qcId ?? null,
+      affected_quantity: input.affectedQuantity ?? null,
+      requested_by: actorId,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('[RefundLedger] Request error:', error);
+    return { success: false, error: error.message };
+  }
+
+  await logOrderEvent(input.orderId, 'partial_refund_requested', {
+    refund_id: data.id,
+    amount: input.amount,
+    reason,
+    source_type: input.sourceType,
+    dispute_id: input.disputeId ?? null,
+    qc_id: input.qcId ?? null,
+    affected_quantity: input.affectedQuantity ?? null,
+    requested_by: actorId,
+  });
+
+  return { success: true };
+}
+
+/**
+ * Approve a pending refund (admin): claim it, refund at the gateway, then book it in the ledger
+ */
+export async function approveRefund(refund: OrderRefund): Promise<RefundLedgerResult> {
+  if (refund.status !== 'pending') {
+    return { success: false, error: 'Refund has already been reviewed.' };
+  }
+
+  const { data: balance, error: balanceError } = await supabase.rpc('get_order_refundable_balance', {
+    _order_id: refund.order_id,
+  });
+
+  if (balanceError) {
+    console.error('[RefundLedger] Balance error:', balanceError);
+    return { success: false, error: balanceError.message };
+  }
+
+  if (Number(refund.amount) > Number(balance)) {
+    return {
+      success: false,
+      error: `Refund of ₹${Number(refund.amount).toLocaleString()} exceeds the refundable balance of ₹${Number(balance).toLocaleString()}.`,
+    };
+  }
+
+  // Only one admin pays a refund out at a time
+  const { error: claimError } = await supabase.rpc('claim_order_refund', { _refund_id: refund.id });
+  if (claimError) {
+    console.error('[RefundLedger] Claim error:', claimError);
+    return { success: false, error: claimError.message };
+  }
+
+  return payOutRefund(refund.id);
+}
+
+/**
+ * Refund a claimed refund at the gateway and book it (admin).
+ * If the gateway refused, the claim is released; a refund that may have reached the provider
+ * stays claimed, and approving it again books the provider's refund instead of paying twice.
+ */
+export async function payOutRefund(refundId: string): Promise<RefundLedgerResult> {
+  const gatewayRefund = await refundGatewayPayment(refundId);
+  if (!gatewayRefund.success) {
+    const { error: releaseError } = await supabase.rpc('release_order_refund', { _refund_id: refundId });
+    if (releaseError) {
+      console.error('[RefundLedger] Refund stays claimed:', releaseError);
+    }
+    return { success: false, error: `Gateway refund failed: ${gatewayRefund.error}` };
+  }
+
+  const { error } = await supabase.rpc('approve_order_refund', { _refund_id: refundId });
+
+  if (error) {
+    console.error('[RefundLedger] Approve error:', error);
+    return { success: false, error: error.message };
+  }
+
+  // The refund stands even if the credit note fails; it can be issued again from the order
+  const creditNote = await issueCreditNote(refundId);
+  if (!creditNote.success) {
+    console.error('[RefundLedger] Credit note not issued:', creditNote.error);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Give up the claim on a refund that was not sent to the gateway (admin)
+ */
+export async function releaseRefund(refund: OrderRefund): Promise<RefundLedgerResult> {
+  const { error } = await supabase.rpc('release_order_refund', { _refund_id: refund.id });
+
+  if (error) {
+    console.error('[RefundLedger] Release error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Reject a pending refund (admin, reason required)
+ */
+export async function rejectRefund(
+  refund: OrderRefund,
+  actorId: string,
+  reason: string
+): Promise<RefundLedgerResult> {
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) {
+    return { success: false, error: 'A rejection reason is required.' };
+  }
+
+  const { data, error } = await supabase
+    .from('order_refunds')
+    .update({
+      status: 'rejected',
+      reviewed_by: actorId,
+      reviewed_at: new Date().toISOString(),
+      rejection_reason: trimmedReason,
+    })
+    .eq('id', refund.id)
+    .eq('status', 'pending')
+    .is('processing_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[RefundLedger] Reject error:', error);
+    return { success: false, error: error.message };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Refund has already been reviewed or is being paid out.' };
+  }
+
+  await logOrderEvent(refund.order_id, 'partial_refund_rejected', {
+    refund_id: refund.id,
+    amount: refund.amount,
+    reason: trimmedReason,
+    rejected_by: actorId,
+  });
+
+  return { success: true };
+}
@@ -0,0 +1,323 @@
+/**
+ * Requests for Quotation (RFQ)
+ *
+ * For products the price book can't price (custom items, jackets, bags) the buyer
+ * describes the requirements instead of placing a fixed-price order. Admins, or
+ * manufacturers an admin invites, answer with itemised quotes.
+ *
+ * Rules:
+ * - RFQ status: open → quoted (first quote received) → accepted | cancelled
+ * - Quote status: submitted → accepted | declined | withdrawn; a submitted quote
+ *   past valid_until is shown as expired and can't be accepted
+ * - Quote amounts are recomputed by submit_rfq_quote from the line items
+ * - Accepting a quote (accept_rfq_quote) declines the others and creates the order in
+ *   SUBMITTED; the order insert copies the quoted amounts, so they can't be changed
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { BuyerPurpose } from "@/lib/buyerPurposeValidation";
+
+export type RfqStatus = 'open' | 'quoted' | 'accepted' | 'cancelled';
+export type RfqQuoteStatus = 'submitted' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+
+// Products that usually need a quotation rather than price book pricing
+export const RFQ_SUGGESTED_PRODUCTS = ['Custom', 'Jackets', 'Bags'];
+
+export interface Rfq {
+  id: string;
+  buyer_id: string;
+  buyer_purpose: BuyerPurpose;
+  product_type: string;
+  quantity: number;
+  requirements: string;
+  fabric_preference: string | null;
+  selected_color: string | null;
+  design_size: string;
+  target_unit_price: number | null;
+  expected_deadline: string | null;
+  google_drive_link: string | null;
+  status: RfqStatus;
+  accepted_quote_id: string | null;
+  order_id: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export interface RfqQuoteLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface RfqQuote {
+  id: string;
+  rfq_id: string;
+  responder_id: string;
+  responder_role: 'admin' | 'manufacturer';
+  line_items: RfqQuoteLine[];
+  goods_subtotal: number;
+  delivery_cost: number;
+  total_amount: number;
+  lead_time_days: number | null;
+  notes: string | null;
+  valid_until: string;
+  status: Exclude<RfqQuoteStatus, 'expired'>;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+export interface NewRfq {
+  buyer_purpose: BuyerPurpose;
+  product_type: string;
+  quantity: number;
+  requirements: string;
+  fabric_preference?: string | null;
+  selected_color?: string | null;
+  design_size?: string;
+  target_unit_price?: number | null;
+  expected_deadline?: string | null;
+  google_drive_link?: string | null;
+}
+
+export interface NewRfqQuote {
+  line_items: Omit<RfqQuoteLine, 'amount'>[];
+  delivery_cost: number;
+  lead_time_days: number | null;
+  valid_days: number;
+  notes?: string;
+}
+
+export interface RfqShippingAddress {
+  full_name: string;
+  phone: string;
+  address_line1: string;
+  address_line2: string;
+  pincode: string;
+  city: string;
+  state: string;
+  country: string;
+}
+
+export interface RfqResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+export const RFQ_STATUS_LABELS: Record<RfqStatus, string> = {
+  open: 'Awaiting Quotes',
+  quoted: 'Quoted',
+  accepted: 'Accepted',
+  cancelled: 'Cancelled',
+};
+
+export const RFQ_STATUS_COLORS: Record<RfqStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  quoted: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export const RFQ_QUOTE_STATUS_LABELS: Record<RfqQuoteStatus, string> = {
+  submitted: 'Open',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired',
+};
+
+export const RFQ_QUOTE_STATUS_COLORS: Record<RfqQuoteStatus, string> = {
+  submitted: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-600',
+  withdrawn: 'bg-gray-100 text-gray-600',
+  expired: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Status to show for a quote (a submitted quote past valid_until is expired)
+ */
+export function getRfqQuoteStatus(quote: RfqQuote, now: Date = new Date()): RfqQuoteStatus {
+  if (quote.status === 'submitted' && new Date(quote.valid_until) < now) {
+    return 'expired';
+  }
+  return quote.status;
+}
+
+/**
+ * Submitted RFQs of the current buyer, or all RFQs visible to the caller
+ * (invited RFQs for a manufacturer, every RFQ for an admin)
+ */
+export async function fetchRfqs(options: { buyerId?: string; status?: RfqStatus } = {}): Promise<Rfq[]> {
+  let query = supabase
+    .from('rfqs')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (options.buyerId) {
+    query = query.eq('buyer_id', options.buyerId);
+  }
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[RFQ] Failed to fetch RFQs:', error);
+    return [];
+  }
+
+  return (data || []) as Rfq[];
+}
+
+/**
+ * Quotes on the given RFQs, newest first
+ */
+export async function fetchRfqQuotes(rfqIds: string[]): Promise<RfqQuote[]> {
+  if (rfqIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('rfq_quotes')
+    .select('*')
+    .in('rfq_id', rfqIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[RFQ] Failed to fetch quotes:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as RfqQuote[];
+}
+
+/**
+ * Manufacturers invited to quote on an RFQ
+ */
+export async function fetchRfqInvitations(rfqId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('rfq_invitations')
+    .select('manufacturer_id')
+    .eq('rfq_id', rfqId);
+
+  if (error) {
+    console.error('[RFQ] Failed to fetch invitations:', error);
+    return [];
+  }
+
+  return (data || []).map((invitation) => invitation.manufacturer_id);
+}
+
+/**
+ * Submit an RFQ (buyer)
+ */
+export async function createRfq(rfq: NewRfq): Promise<RfqResult<Rfq>> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Not signed in' };
+  }
+  if (!rfq.requirements.trim()) {
+    return { success: false, error: 'Please describe your requirements' };
+  }
+  if (!Number.isInteger(rfq.quantity) || rfq.quantity < 1) {
+    return { success: false, error: 'Quantity must be at least 1' };
+  }
+
+  const { data, error } = await supabase
+    .from('rfqs')
+    .insert({ ...rfq, requirements: rfq.requirements.trim(), buyer_id: user.id })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[RFQ] Failed to create RFQ:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: data as Rfq };
+}
+
+/**
+ * Invite manufacturers to quote (admin)
+ */
+export async function inviteRfqManufacturers(rfqId: string, manufacturerIds: string[]): Promise<RfqResult<number>> {
+  const { data, error } = await supabase.rpc('invite_rfq_manufacturers', {
+    _rfq_id: rfqId,
+    _manufacturer_ids: manufacturerIds,
+  });
+
+  if (error) {
+    console.error('[RFQ] Invite error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: data ?? 0 };
+}
+
+/**
+ * Respond with an itemised quote (admin or invited manufacturer)
+ */
+export async function submitRfqQuote(rfqId: string, quote: NewRfqQuote): Promise<RfqResult<string>> {
+  const { data, error } = await supabase.rpc('submit_rfq_quote', {
+    _rfq_id: rfqId,
+    _line_items: quote.line_items as unknown as Json,
+    _delivery_cost: quote.delivery_cost,
+    _lead_time_days: quote.lead_time_days,
+    _valid_days: quote.valid_days,
+    _notes: quote.notes,
+  });
+
+  if (error) {
+    console.error('[RFQ] Submit quote error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data };
+}
+
+/**
+ * Withdraw a quote that hasn't been accepted (its responder or an admin)
+ */
+export async function withdrawRfqQuote(quoteId: string): Promise<RfqResult> {
+  const { error } = await supabase.rpc('withdraw_rfq_quote', { _quote_id: quoteId });
+
+  if (error) {
+    console.error('[RFQ] Withdraw quote error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Accept a quote (buyer). Returns the id of the order created from it.
+ */
+export async function acceptRfqQuote(quoteId: string, shipping: RfqShippingAddress): Promise<RfqResult<string>> {
+  const { data, error } = await supabase.rpc('accept_rfq_quote', {
+    _quote_id: quoteId,
+    _shipping: shipping as unknown as Json,
+  });
+
+  if (error) {
+    console.error('[RFQ] Accept quote error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data };
+}
+
+/**
+ * Cancel an RFQ that has no accepted quote (its buyer or an admin)
+ */
+export async function cancelRfq(rfqId: string): Promise<RfqResult> {
+  const { error } = await supabase.rpc('cancel_rfq', { _rfq_id: rfqId });
+
+  if (error) {
+    console.error('[RFQ] Cancel error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
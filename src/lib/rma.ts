@@ -0,0 +1,363 @@
+/**
+ * Returns and Remakes (RMA)
+ *
+ * After delivery the buyer can report wrong sizes, damaged or defective pieces with
+ * photos (stored as order_evidence, stage post_delivery). An admin approves how many
+ * pieces qualify, who is at fault and the resolution: a remake by the manufacturer or
+ * a refund through the refund ledger.
+ *
+ * Rules:
+ * - RMA status (RMA_WORKFLOW): requested → approved | rejected | withdrawn; approved → closed
+ * - Returns are raised within RMA_WINDOW_DAYS of delivery, for at most the order quantity
+ *   across all open and approved RMAs
+ * - Remake status (REMAKE_WORKFLOW): awaiting_return → not_started → in_production →
+ *   packed → shipped → delivered; the manufacturer moves production, shipping follows the
+ *   replacement shipment
+ * - Return pickups and replacements are shipments with rma_id set, booked through the
+ *   courier integration or manually; they never move the order's delivery_status
+ * - A factory fault can carry a deduction from the manufacturer's next payout batch
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { ShipmentAddress } from "./deliveryPlan";
+import type { ShipmentDirection } from "./courier";
+import { uploadOrderFile } from "./orderFileStorage";
+import { storeRmaEvidence } from "./evidenceStorage";
+import { REMAKE_WORKFLOW, buildTransitionMap } from "./orderWorkflow";
+
+export type RmaStatus = 'requested' | 'approved' | 'rejected' | 'withdrawn' | 'closed';
+export type RemakeStatus = 'awaiting_return' | 'not_started' | 'in_production' | 'packed' | 'shipped' | 'delivered';
+export type RmaReason = 'wrong_size' | 'damaged' | 'defective' | 'misprint' | 'missing_pieces' | 'other';
+export type RmaResolution = 'remake' | 'refund';
+export type RmaFault = 'factory' | 'buyer' | 'courier';
+
+export const RMA_WINDOW_DAYS = 14;
+
+export interface RmaItem {
+  size: string | null;
+  quantity: number;
+}
+
+export interface Rma {
+  id: string;
+  reference: string;
+  order_id: string;
+  buyer_id: string;
+  manufacturer_id: string | null;
+  reason: RmaReason;
+  description: string;
+  items: RmaItem[];
+  requested_quantity: number;
+  approved_quantity: number | null;
+  photos: string[];
+  address: ShipmentAddress;
+  status: RmaStatus;
+  resolution: RmaResolution | null;
+  fault: RmaFault | null;
+  return_required: boolean;
+  remake_status: RemakeStatus | null;
+  refund_id: string | null;
+  adjustment_amount: number;
+  review_note: string | null;
+  reviewed_at: string | null;
+  return_received_at: string | null;
+  remake_started_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export interface NewRma {
+  orderId: string;
+  reason: RmaReason;
+  description: string;
+  items: RmaItem[];
+  address: ShipmentAddress;
+  photos: File[];
+}
+
+export interface RmaDecision {
+  approvedQuantity: number;
+  resolution: RmaResolution;
+  fault: RmaFault;
+  returnRequired: boolean;
+  refundAmount?: number;
+  adjustmentAmount?: number;
+  note?: string;
+}
+
+export interface RmaResult<T = undefined> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+export const RMA_REASON_LABELS: Record<RmaReason, string> = {
+  wrong_size: 'Wrong size',
+  damaged: 'Damaged in transit',
+  defective: 'Defective / poor stitching',
+  misprint: 'Misprint',
+  missing_pieces: 'Missing pieces',
+  other: 'Other',
+};
+
+export const RMA_STATUS_LABELS: Record<RmaStatus, string> = {
+  requested: 'Awaiting Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+  closed: 'Closed',
+};
+
+export const RMA_STATUS_COLORS: Record<RmaStatus, string> = {
+  requested: 'bg-amber-100 text-amber-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-600',
+  closed: 'bg-green-100 text-green-800',
+};
+
+export const REMAKE_STATUS_LABELS: Record<RemakeStatus, string> = {
+  awaiting_return: 'Awaiting Return',
+  not_started: 'Not Started',
+  in_production: 'In Production',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+};
+
+export const RMA_RESOLUTION_LABELS: Record<RmaResolution, string> = {
+  remake: 'Remake',
+  refund: 'Refund',
+};
+
+export const RMA_FAULT_LABELS: Record<RmaFault, string> = {
+  factory: 'Factory',
+  buyer: 'Buyer',
+  courier: 'Courier',
+};
+
+const REMAKE_TRANSITIONS = buildTransitionMap(REMAKE_WORKFLOW);
+
+/**
+ * Next remake step the manufacturer can take, if any
+ */
+export function getNextManufacturerRemakeStatus(status: RemakeStatus | null): Extract<RemakeStatus, 'in_production' | 'packed'> | null {
+  if (!status) return null;
+  const next = REMAKE_TRANSITIONS[status].find((to) => to === 'in_production' || to === 'packed');
+  return (next as Extract<RemakeStatus, 'in_production' | 'packed'>) || null;
+}
+
+/**
+ * Whether the buyer can still raise a return on a delivered order
+ */
+export function canRequestRma(
+  order: { delivery_status?: string | null; order_state?: string | null; delivered_at?: string | null; quantity: number },
+  rmas: Rma[],
+  now: Date = new Date()
+): { allowed: boolean; remaining: number; reason?: string } {
+  const claimed = rmas
+    .filter((rma) => ['requested', 'approved', 'closed'].includes(rma.status))
+    .reduce((sum, rma) => sum + (rma.approved_quantity ?? rma.requested_quantity), 0);
+  const remaining = Math.max(order.quantity - claimed, 0);
+
+  if (order.delivery_status !== 'DELIVERED' || !['DELIVERED', 'COMPLETED'].includes(order.order_state || '')) {
+    return { allowed: false, remaining, reason: 'Returns open once the order is delivered.' };
+  }
+  if (order.delivered_at && now.getTime() - new Date(order.delivered_at).getTime() > RMA_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+    return { allowed: false, remaining, reason: `Returns must be raised within ${RMA_WINDOW_DAYS} days of delivery.` };
+  }
+  if (remaining === 0) {
+    return { allowed: false, remaining, reason: 'Every piece of this order is already covered by a return.' };
+  }
+  return { allowed: true, remaining };
+}
+
+/**
+ * Shipment direction still to be booked for an approved RMA, if any
+ */
+export function getPendingRmaShipment(rma: Rma, bookedDirections: ShipmentDirection[]): ShipmentDirection | null {
+  if (rma.status !== 'approved') return null;
+  if (rma.return_required && !rma.return_received_at && !bookedDirections.includes('return')) return 'return';
+  if (rma.remake_status === 'packed' && !bookedDirections.includes('outbound')) return 'outbound';
+  return null;
+}
+
+/**
+ * RMAs visible to the caller (buyer: their own, manufacturer: approved ones for their
+ * orders, admin: all), newest first
+ */
+export async function fetchRmas(options: { orderId?: string; status?: RmaStatus } = {}): Promise<Rma[]> {
+  let query = supabase
+    .from('order_rmas')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (options.orderId) {
+    query = query.eq('order_id', options.orderId);
+  }
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[RMA] Failed to fetch RMAs:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as Rma[];
+}
+
+/**
+ * Raise a return (buyer): uploads the photos, records the RMA, then files the photos
+ * as post-delivery evidence
+ */
+export async function requestRma(input: NewRma): Promise<RmaResult<string>> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Not signed in' };
+  }
+  if (input.photos.length === 0) {
+    return { success: false, error: 'Add at least one photo of the affected pieces' };
+  }
+  if (!input.description.trim()) {
+    return { success: false, error: 'Describe the problem' };
+  }
+
+  const uploaded: { url: string; name: string }[] = [];
+  for (const photo of input.photos) {
+    const result = await uploadOrderFile(input.orderId, 'rma', photo, 'buyer');
+    if (!result.success || !result.fileUrl) {
+      return { success: false, error: result.error || `Failed to upload ${photo.name}` };
+    }
+    uploaded.push({ url: result.fileUrl, name: photo.name });
+  }
+
+  const { data, error } = await supabase.rpc('request_rma', {
+    _order_id: input.orderId,
+    _reason: input.reason,
+    _description: input.description.trim(),
+    _items: JSON.parse(JSON.stringify(input.items)),
+    _address: JSON.parse(JSON.stringify(input.address)),
+    _photos: uploaded.map((file) => file.url),
+  });
+
+  if (error) {
+    console.error('[RMA] Failed to raise RMA:', error);
+    return { success: false, error: error.message };
+  }
+
+  await storeRmaEvidence(input.orderId, user.id, data as string, input.reason, uploaded);
+
+  return { success: true, data: data as string };
+}
+
+/**
+ * Withdraw a return that hasn't been reviewed yet (buyer)
+ */
+export async function withdrawRma(rmaId: string): Promise<RmaResult> {
+  const { error } = await supabase.rpc('withdraw_rma', { _rma_id: rmaId });
+
+  if (error) {
+    console.error('[RMA] Failed to withdraw RMA:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Approve a return (admin)
+ */
+export async function approveRma(rmaId: string, decision: RmaDecision): Promise<RmaResult> {
+  const { error } = await supabase.rpc('review_rma', {
+    _rma_id: rmaId,
+    _approve: true,
+    _approved_quantity: decision.approvedQuantity,
+    _resolution: decision.resolution,
+    _fault: decision.fault,
+    _return_required: decision.returnRequired,
+    _refund_amount: decision.resolution === 'refund' ? decision.refundAmount : undefined,
+    _adjustment_amount: decision.fault === 'factory' ? decision.adjustmentAmount ?? 0 : 0,
+    _note: decision.note,
+  });
+
+  if (error) {
+    console.error('[RMA] Failed to approve RMA:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Reject a return (admin, reason required)
+ */
+export async function rejectRma(rmaId: string, note: string): Promise<RmaResult> {
+  if (!note.trim()) {
+    return { success: false, error: 'A reason is required to reject a return.' };
+  }
+
+  const { error } = await supabase.rpc('review_rma', {
+    _rma_id: rmaId,
+    _approve: false,
+    _note: note.trim(),
+  });
+
+  if (error) {
+    console.error('[RMA] Failed to reject RMA:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Move a remake forward (manufacturer, or admin on their behalf)
+ */
+export async function updateRemakeStatus(
+  rmaId: string,
+  toStatus: Extract<RemakeStatus, 'in_production' | 'packed'>
+): Promise<RmaResult> {
+  const { error } = await supabase.rpc('update_rma_remake_status', {
+    _rma_id: rmaId,
+    _to_status: toStatus,
+  });
+
+  if (error) {
+    console.error('[RMA] Failed to update remake:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Record a return pickup or replacement booked outside Leorit (admin). Courier
+ * bookings go through createRmaCourierShipment (lib/courier.ts).
+ */
+export async function bookRmaShipmentManually(
+  rmaId: string,
+  direction: ShipmentDirection,
+  courierName: string,
+  trackingId: string
+): Promise<RmaResult<string>> {
+  if (!courierName.trim() || !trackingId.trim()) {
+    return { success: false, error: 'Courier name and tracking ID are required.' };
+  }
+
+  const { data, error } = await supabase.rpc('book_rma_shipment', {
+    _rma_id: rmaId,
+    _direction: direction,
+    _courier_name: courierName.trim(),
+    _tracking_id: trackingId.trim(),
+  });
+
+  if (error) {
+    console.error('[RMA] Failed to book shipment:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, data: data as string };
+}
@@ -4,6 +4,7 @@
  * Enforces state transitions for sample QC workflow:
  * - Manufacturer must upload QC video for SAMPLE_QC_UPLOADED
  * - Buyer can Approve, Reject (reason mandatory), Request revision (reason mandatory)
+ * - Approval is blocked while a piece on the latest measurement sheet is out of tolerance
  * - BULK_UNLOCKED only after SAMPLE_APPROVED
  * - All actions timestamped and logged
  * 
@@ -11,6 +12,7 @@
  */
 
 import { OrderState, canTransition } from './orderStateMachineV2';
+import { QCMeasurement, summarizeMeasurements } from './qcMeasurements';
 
 export interface SampleQCOrder {
   id: string;
@@ -69,9 +71,14 @@ export function validateQCVideoUploaded(order: SampleQCOrder, newVideoUrl?: stri
 
 /**
  * Check if buyer can approve sample
- * Requires: Order must be in SAMPLE_QC_UPLOADED state
+ * Requires: Order must be in SAMPLE_QC_UPLOADED state, and no piece on the latest
+ * measurement sheet may be out of tolerance. Samples submitted without a sheet are
+ * approved manually.
  */
-export function canApproveSample(order: SampleQCOrder): QCTransitionResult {
+export function canApproveSample(
+  order: SampleQCOrder,
+  measurements: Pick<QCMeasurement, 'size' | 'result'>[] = []
+): QCTransitionResult {
   const currentState = order.order_state;
   
   // Must have QC video uploaded
@@ -95,6 +102,14 @@ export function canApproveSample(order: SampleQCOrder): QCTransitionResult {
       reason: `Cannot approve from current state: ${currentState}. Must be in SAMPLE_QC_UPLOADED.`,
     };
   }
+
+  const measured = summarizeMeasurements(measurements);
+  if (measured.failed > 0) {
+    return {
+      allowed: false,
+      reason: `Cannot approve: ${measured.failed} of ${measured.pieces} measured pieces are out of tolerance.`,
+    };
+  }
   
   return { allowed: true };
 }
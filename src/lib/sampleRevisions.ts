@@ -0,0 +1,156 @@
+/**
+ * Sample Revision Rounds
+ *
+ * Each sample QC submission is a revision round (R1, R2, ...) in sample_revisions with its
+ * own evidence, decision, feedback and timestamps. The database opens a round when sample
+ * QC is uploaded (open_sample_revision) and closes it when the buyer approves, rejects or
+ * asks for a revision (close_sample_revision).
+ *
+ * sample_revision_policies caps the rounds per order_mode / buyer_type. Rejecting the last
+ * allowed round raises a dispute; no further round can be submitted until an admin resolves it.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type RevisionDecision = 'pending' | 'approved' | 'rejected' | 'revision_requested';
+
+export const REVISION_DECISION_LABELS: Record<RevisionDecision, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  revision_requested: 'Revision requested',
+};
+
+// Used when no policy applies (same as the seeded default policy)
+export const DEFAULT_MAX_SAMPLE_REVISIONS = 3;
+
+export interface SampleRevision {
+  id: string;
+  order_id: string;
+  round: number;
+  order_qc_id: string | null;
+  video_path: string | null;
+  file_urls: string[];
+  submitted_by: string | null;
+  submitted_at: string;
+  decision: RevisionDecision;
+  feedback: string | null;
+  feedback_structured: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  escalated_at: string | null;
+  dispute_id: string | null;
+  dispute: { status: string | null; resolution: string | null } | null;
+}
+
+export interface SampleRevisionPolicy {
+  id: string;
+  name: string;
+  order_mode: string | null;
+  buyer_type: string | null;
+  max_revisions: number;
+  is_active: boolean;
+}
+
+export interface RevisionStatus {
+  rounds: number;
+  maxRevisions: number;
+  // Rounds the manufacturer can still submit before the limit
+  remaining: number;
+  // Escalation dispute still open
+  inDispute: boolean;
+  canSubmit: boolean;
+  reason?: string;
+}
+
+export const formatRound = (round: number) => `R${round}`;
+
+/**
+ * Pick the most specific active policy for an order (same order as get_max_sample_revisions)
+ */
+export function resolveRevisionPolicy(
+  policies: SampleRevisionPolicy[],
+  order: { order_mode?: string | null; buyer_type?: string | null }
+): SampleRevisionPolicy | null {
+  const candidates = policies.filter(policy =>
+    policy.is_active &&
+    (!policy.order_mode || policy.order_mode === order.order_mode) &&
+    (!policy.buyer_type || policy.buyer_type === order.buyer_type)
+  );
+
+  const specificity = (policy: SampleRevisionPolicy) => (policy.order_mode ? 2 : 0) + (policy.buyer_type ? 1 : 0);
+  return candidates.sort((a, b) => specificity(b) - specificity(a))[0] || null;
+}
+
+/**
+ * Where an order stands against its revision limit
+ */
+export function getRevisionStatus(revisions: SampleRevision[], maxRevisions: number): RevisionStatus {
+  const rounds = revisions.length;
+  const inDispute = revisions.some(revision =>
+    revision.dispute_id && (revision.dispute?.status || 'open') !== 'resolved'
+  );
+  const status = {
+    rounds,
+    maxRevisions,
+    remaining: Math.max(0, maxRevisions - rounds),
+    inDispute,
+  };
+
+  if (inDispute) {
+    return {
+      ...status,
+      canSubmit: false,
+      reason: `The sample was not approved within ${maxRevisions} revision rounds and is in dispute. A new round can be submitted once an admin resolves it.`,
+    };
+  }
+
+  return { ...status, canSubmit: true };
+}
+
+export async function fetchRevisionPolicies(): Promise<SampleRevisionPolicy[]> {
+  const { data, error } = await supabase
+    .from('sample_revision_policies')
+    .select('id, name, order_mode, buyer_type, max_revisions, is_active')
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('[SampleRevisions] Failed to fetch policies:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Revision rounds of an order, oldest first
+ */
+export async function fetchSampleRevisions(orderId: string): Promise<SampleRevision[]> {
+  const { data, error } = await supabase
+    .from('sample_revisions')
+    .select('*, dispute:disputes(status, resolution)')
+    .eq('order_id', orderId)
+    .order('round', { ascending: true });
+
+  if (error) {
+    console.error('[SampleRevisions] Failed to fetch revisions:', error);
+    return [];
+  }
+
+  return (data || []) as SampleRevision[];
+}
+
+/**
+ * Revision rounds of an order with its limit and status
+ */
+export async function fetchRevisionStatus(
+  order: { id: string; order_mode?: string | null; buyer_type?: string | null }
+): Promise<{ revisions: SampleRevision[]; status: RevisionStatus }> {
+  const [revisions, policies] = await Promise.all([
+    fetchSampleRevisions(order.id),
+    fetchRevisionPolicies(),
+  ]);
+  const maxRevisions = resolveRevisionPolicy(policies, order)?.max_revisions ?? DEFAULT_MAX_SAMPLE_REVISIONS;
+
+  return { revisions, status: getRevisionStatus(revisions, maxRevisions) };
+}
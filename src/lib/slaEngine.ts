@@ -0,0 +1,183 @@
+/**
+ * SLA Engine
+ *
+ * Delay thresholds live in the sla_policies table (per metric, optionally per
+ * order_mode / buyer_type). The evaluate_sla_policies() job runs every 15 minutes,
+ * records breaches in sla_breaches, notifies admins + manufacturer and logs sla_breached.
+ *
+ * Rules:
+ * - Most specific active policy wins (order_mode + buyer_type > one of them > default)
+ * - Each order / metric / severity breaches at most once
+ * - ON_HOLD, CANCELLED and COMPLETED orders are not evaluated
+ * - A breach resolves when the milestone that stops its clock is reached
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type SlaMetric = 'acceptance' | 'sample_qc' | 'bulk_qc' | 'delivery';
+
+export type SlaSeverity = 'warning' | 'critical';
+
+export type SlaStatus = 'ok' | SlaSeverity | 'pending';
+
+export interface SlaThreshold {
+  warning: number;
+  critical: number;
+}
+
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  metric: string;
+  order_mode: string | null;
+  buyer_type: string | null;
+  warning_hours: number;
+  critical_hours: number;
+  is_active: boolean;
+}
+
+export interface SlaBreach {
+  id: string;
+  order_id: string;
+  policy_id: string | null;
+  metric: string;
+  severity: string;
+  threshold_hours: number;
+  elapsed_hours: number;
+  detected_at: string;
+  resolved_at: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+}
+
+/**
+ * Fallback thresholds (hours) used until policies load, matching the seeded defaults
+ */
+export const DEFAULT_SLA_THRESHOLDS: Record<SlaMetric, SlaThreshold> = {
+  acceptance: { warning: 24, critical: 48 },      // 24h warning, 48h critical
+  sample_qc: { warning: 72, critical: 120 },      // 3 days warning, 5 days critical
+  bulk_qc: { warning: 168, critical: 336 },       // 7 days warning, 14 days critical
+  delivery: { warning: 72, critical: 120 },       // 3 days warning, 5 days critical
+};
+
+export const SLA_METRIC_LABELS: Record<SlaMetric, string> = {
+  acceptance: 'Manufacturer Acceptance',
+  sample_qc: 'Sample QC Upload',
+  bulk_qc: 'Bulk QC Upload',
+  delivery: 'Delivery',
+};
+
+/**
+ * Pick the most specific active policy for an order and metric
+ */
+export function resolveSlaPolicy(
+  policies: SlaPolicy[],
+  metric: SlaMetric,
+  order: { order_mode?: string | null; buyer_type?: string | null }
+): SlaPolicy | null {
+  const candidates = policies.filter(policy =>
+    policy.is_active &&
+    policy.metric === metric &&
+    (!policy.order_mode || policy.order_mode === order.order_mode) &&
+    (!policy.buyer_type || policy.buyer_type === order.buyer_type)
+  );
+
+  const specificity = (policy: SlaPolicy) => (policy.order_mode ? 2 : 0) + (policy.buyer_type ? 1 : 0);
+  return candidates.sort((a, b) => specificity(b) - specificity(a))[0] || null;
+}
+
+/**
+ * Threshold for an order and metric (policy if one applies, otherwise the default)
+ */
+export function getSlaThreshold(
+  policies: SlaPolicy[],
+  metric: SlaMetric,
+  order: { order_mode?: string | null; buyer_type?: string | null }
+): SlaThreshold {
+  const policy = resolveSlaPolicy(policies, metric, order);
+  return policy
+    ? { warning: Number(policy.warning_hours), critical: Number(policy.critical_hours) }
+    : DEFAULT_SLA_THRESHOLDS[metric];
+}
+
+/**
+ * Classify elapsed hours against a threshold
+ */
+export function getSlaStatus(hours: number | null | undefined, threshold: SlaThreshold): SlaStatus {
+  if (hours === null || hours === undefined) return 'pending';
+  if (hours >= threshold.critical) return 'critical';
+  if (hours >= threshold.warning) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Fetch active SLA policies
+ */
+export async function fetchSlaPolicies(): Promise<SlaPolicy[]> {
+  const { data, error } = await supabase
+    .from('sla_policies')
+    .select('id, name, metric, order_mode, buyer_type, warning_hours, critical_hours, is_active')
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('[SLA] Failed to fetch policies:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch unresolved breaches, critical first then newest
+ */
+export async function fetchOpenSlaBreaches(): Promise<SlaBreach[]> {
+  const { data, error } = await supabase
+    .from('sla_breaches')
+    .select('*')
+    .is('resolved_at', null)
+    .order('detected_at', { ascending: false });
+
+  if (error) {
+    console.error('[SLA] Failed to fetch breaches:', error);
+    return [];
+  }
+
+  return (data || []).sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1
+  );
+}
+
+/**
+ * Mark a breach as seen by an admin (it stays open until the clock stops)
+ */
+export async function acknowledgeSlaBreach(
+  breachId: string,
+  adminId: string
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('sla_breaches')
+    .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: adminId })
+    .eq('id', breachId);
+
+  if (error) {
+    console.error('[SLA] Failed to acknowledge breach:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Run the evaluation job now (admin only) instead of waiting for the schedule
+ * @returns Number of new breaches recorded
+ */
+export async function runSlaEvaluation(): Promise<{ success: boolean; newBreaches?: number; error?: string }> {
+  const { data, error } = await supabase.rpc('evaluate_sla_policies');
+
+  if (error) {
+    console.error('[SLA] Evaluation failed:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, newBreaches: data ?? 0 };
+}
@@ -6,6 +6,9 @@
  */
 
 import { supabase } from "@/integrations/supabase/client";
+import { ORDER_WORKFLOW, OrderState, buildTransitionMap } from "./orderWorkflow";
+
+const VALID_TRANSITIONS = buildTransitionMap(ORDER_WORKFLOW);
 
 export interface StateChangeLog {
   order_id: string;
@@ -64,44 +67,26 @@ export async function logStateChange(
 /**
  * Validate that a state transition is allowed
  * Returns an error message if invalid, null if valid
+ * Transitions come from the shared workflow definition (orderWorkflow.ts)
  */
 export function validateStateTransition(
   currentState: string | null,
   targetState: string
 ): string | null {
-  const VALID_TRANSITIONS: Record<string, string[]> = {
-    'DRAFT': ['SUBMITTED'],
-    'SUBMITTED': ['ADMIN_APPROVED'],
-    'ADMIN_APPROVED': ['MANUFACTURER_ASSIGNED'],
-    'MANUFACTURER_ASSIGNED': ['PAYMENT_REQUESTED'],
-    'PAYMENT_REQUESTED': ['PAYMENT_CONFIRMED'],
-    'PAYMENT_CONFIRMED': ['SAMPLE_IN_PROGRESS', 'BULK_IN_PRODUCTION'],
-    'SAMPLE_IN_PROGRESS': ['SAMPLE_QC_UPLOADED'],
-    'SAMPLE_QC_UPLOADED': ['SAMPLE_APPROVED', 'SAMPLE_IN_PROGRESS'],
-    'SAMPLE_APPROVED': ['BULK_UNLOCKED', 'COMPLETED'],
-    'BULK_UNLOCKED': ['BULK_IN_PRODUCTION'],
-    'BULK_IN_PRODUCTION': ['BULK_QC_UPLOADED'],
-    'BULK_QC_UPLOADED': ['READY_FOR_DISPATCH', 'BULK_IN_PRODUCTION'],
-    'READY_FOR_DISPATCH': ['DISPATCHED'],
-    'DISPATCHED': ['DELIVERED'],
-    'DELIVERED': ['COMPLETED'],
-    'COMPLETED': [],
-  };
-
-  // If no current state, only DRAFT or SUBMITTED allowed
+  // If no current state, only initial states allowed
   if (!currentState) {
-    if (targetState === 'DRAFT' || targetState === 'SUBMITTED') {
+    if (ORDER_WORKFLOW.initialStates.includes(targetState as OrderState)) {
       return null;
     }
-    return `Orders must start in DRAFT or SUBMITTED state, not ${targetState}`;
+    return `Orders must start in ${ORDER_WORKFLOW.initialStates.join(' or ')} state, not ${targetState}`;
   }
 
-  const allowedTransitions = VALID_TRANSITIONS[currentState];
+  const allowedTransitions = VALID_TRANSITIONS[currentState as OrderState];
   if (!allowedTransitions) {
     return `Unknown current state: ${currentState}`;
   }
 
-  if (!allowedTransitions.includes(targetState)) {
+  if (!allowedTransitions.includes(targetState as OrderState)) {
     return `Invalid transition: ${currentState} → ${targetState}. Allowed: ${allowedTransitions.join(', ') || 'none'}`;
   }
 
@@ -112,25 +97,6 @@ export function validateStateTransition(
  * Get the next allowed states from current state
  */
 export function getNextAllowedStates(currentState: string | null): string[] {
-  const VALID_TRANSITIONS: Record<string, string[]> = {
-    'DRAFT': ['SUBMITTED'],
-    'SUBMITTED': ['ADMIN_APPROVED'],
-    'ADMIN_APPROVED': ['MANUFACTURER_ASSIGNED'],
-    'MANUFACTURER_ASSIGNED': ['PAYMENT_REQUESTED'],
-    'PAYMENT_REQUESTED': ['PAYMENT_CONFIRMED'],
-    'PAYMENT_CONFIRMED': ['SAMPLE_IN_PROGRESS', 'BULK_IN_PRODUCTION'],
-    'SAMPLE_IN_PROGRESS': ['SAMPLE_QC_UPLOADED'],
-    'SAMPLE_QC_UPLOADED': ['SAMPLE_APPROVED', 'SAMPLE_IN_PROGRESS'],
-    'SAMPLE_APPROVED': ['BULK_UNLOCKED', 'COMPLETED'],
-    'BULK_UNLOCKED': ['BULK_IN_PRODUCTION'],
-    'BULK_IN_PRODUCTION': ['BULK_QC_UPLOADED'],
-    'BULK_QC_UPLOADED': ['READY_FOR_DISPATCH', 'BULK_IN_PRODUCTION'],
-    'READY_FOR_DISPATCH': ['DISPATCHED'],
-    'DISPATCHED': ['DELIVERED'],
-    'DELIVERED': ['COMPLETED'],
-    'COMPLETED': [],
-  };
-
-  if (!currentState) return ['DRAFT', 'SUBMITTED'];
-  return VALID_TRANSITIONS[currentState] || [];
+  if (!currentState) return ORDER_WORKFLOW.initialStates;
+  return VALID_TRANSITIONS[currentState as OrderState] || [];
 }
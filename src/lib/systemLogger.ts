@@ -37,6 +37,7 @@ export type SystemEventType =
   | 'order_dispatched'
   | 'order_delivered'
   | 'order_completed'
+  | 'order_cancelled'
   // Dispute events
   | 'dispute_created'
   | 'dispute_resolved'
@@ -0,0 +1,146 @@
+/**
+ * GST Tax Invoices (client)
+ *
+ * Tax invoices and credit notes are computed, numbered and rendered server-side
+ * (tax-invoice edge function). Order prices are GST-inclusive; each document shows
+ * the taxable value and CGST + SGST (intra-state) or IGST (inter-state), decided by
+ * the manufacturer's state vs the place of supply (order_shipping_info.state).
+ *
+ * Rules:
+ * - One tax invoice per order, issued once payment is captured
+ * - One credit note per approved refund, against the order's invoice
+ * - Numbers are sequential per financial year: INV/26-27/000001, CN/26-27/000001
+ * - PDFs live in the orders bucket ({order_id}/invoice|credit_note/) and order_files
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { getSignedUrl } from "./orderFileStorage";
+
+export type TaxDocumentType = 'invoice' | 'credit_note';
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface TaxInvoiceLine {
+  description: string;
+  hsn_code: string;
+  quantity: number | null;
+  unit_price: number | null;
+  gst_rate: number;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface TaxInvoice {
+  id: string;
+  order_id: string;
+  document_type: TaxDocumentType;
+  document_number: string;
+  financial_year: string;
+  invoice_id: string | null;
+  refund_id: string | null;
+  supplier_name: string;
+  supplier_gstin: string;
+  supplier_state: string;
+  recipient_name: string;
+  recipient_gstin: string | null;
+  place_of_supply: string;
+  place_of_supply_code: string;
+  supply_type: SupplyType;
+  line_items: TaxInvoiceLine[];
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+  reason: string | null;
+  pdf_path: string | null;
+  issued_at: string;
+}
+
+export interface TaxDocumentResult {
+  success: boolean;
+  error?: string;
+  issued?: boolean;
+  documentNumber?: string;
+  reason?: string;
+}
+
+export const TAX_DOCUMENT_LABELS: Record<TaxDocumentType, string> = {
+  invoice: 'Tax Invoice',
+  credit_note: 'Credit Note',
+};
+
+export const SUPPLY_TYPE_LABELS: Record<SupplyType, string> = {
+  intra_state: 'CGST + SGST',
+  inter_state: 'IGST',
+};
+
+// 2-digit state code, PAN, entity number, 'Z', checksum
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function isValidGstin(value: string): boolean {
+  return GSTIN_PATTERN.test(value.trim().toUpperCase());
+}
+
+async function invokeTaxInvoice(body: Record<string, unknown>): Promise<TaxDocumentResult> {
+  const { data, error } = await supabase.functions.invoke('tax-invoice', { body });
+
+  if (error) {
+    console.error(`[TaxInvoices] ${body.action} failed:`, error);
+    return { success: false, error: error.message };
+  }
+  if (data?.error) {
+    return { success: false, error: data.error };
+  }
+
+  return {
+    success: true,
+    issued: data.issued,
+    documentNumber: data.document_number,
+    reason: data.reason,
+  };
+}
+
+/**
+ * Issue (or re-fetch) the tax invoice for an order (admin)
+ */
+export async function issueTaxInvoice(orderId: string): Promise<TaxDocumentResult> {
+  return invokeTaxInvoice({ action: 'issue_invoice', order_id: orderId });
+}
+
+/**
+ * Issue the credit note for an approved refund (admin).
+ * Succeeds with issued=false when the order has no tax invoice.
+ */
+export async function issueCreditNote(refundId: string): Promise<TaxDocumentResult> {
+  return invokeTaxInvoice({ action: 'issue_credit_note', refund_id: refundId });
+}
+
+/**
+ * Fetch an order's tax invoice and credit notes, oldest first
+ */
+export async function fetchOrderTaxDocuments(orderId: string): Promise<TaxInvoice[]> {
+  const { data, error } = await supabase
+    .from('tax_invoices')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('issued_at');
+
+  if (error) {
+    console.error('[TaxInvoices] Failed to fetch tax documents:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as TaxInvoice[];
+}
+
+/**
+ * Signed download URL for a document's PDF
+ */
+export async function getTaxDocumentUrl(document: TaxInvoice): Promise<string | null> {
+  if (!document.pdf_path) return null;
+  return getSignedUrl(document.pdf_path, 'orders', { download: true });
+}
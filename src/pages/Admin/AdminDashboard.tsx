@@ -19,6 +19,7 @@ import Sidebar from "@/components/Sidebar";
 import DashboardCard from "@/components/DashboardCard";
 import DataTable from "@/components/DataTable";
 import OrderDelayFlags from "@/components/OrderDelayFlags";
+import { SlaPolicy, fetchSlaPolicies } from "@/lib/slaEngine";
 import BuyerPurposeBadge from "@/components/BuyerPurposeBadge";
 import { Users, Package, AlertCircle, LogOut, RefreshCw, Eye, Factory, AlertTriangle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
@@ -69,6 +70,7 @@ const AdminDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [loggingOut, setLoggingOut] = useState(false);
   const [manufacturerMap, setManufacturerMap] = useState<Record<string, string>>({});
+  const [slaPolicies, setSlaPolicies] = useState<SlaPolicy[]>([]);
   
   // Filters
   const [stateFilter, setStateFilter] = useState<string>("all");
@@ -106,6 +108,7 @@ const AdminDashboard = () => {
 
   useEffect(() => {
     fetchAdminData();
+    fetchSlaPolicies().then(setSlaPolicies);
   }, []);
 
   // Apply filters when data or filters change
@@ -370,7 +373,7 @@ const AdminDashboard = () => {
       header: "Delays",
       accessor: "acceptance_delay_hours",
       cell: (value: number, row: any) => (
-        <OrderDelayFlags order={row} compact />
+        <OrderDelayFlags order={row} compact policies={slaPolicies} />
       )
     },
     {
@@ -3,6 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import Sidebar from "@/components/Sidebar";
 import DashboardCard from "@/components/DashboardCard";
 import ManufacturerPerformanceMetrics from "@/components/ManufacturerPerformanceMetrics";
+import QCDefectRates from "@/components/QCDefectRates";
 import { Package, TrendingUp, Clock, Users, Truck, RefreshCw, Factory, CheckCircle, UserPlus, Star, ShoppingBag, ArrowRightCircle, Layers, Percent } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -505,6 +506,12 @@ const Analytics = () => {
             <ManufacturerPerformanceMetrics showSummary />
           </div>
 
+          {/* QC Defect Rates */}
+          <div className="mb-8">
+            <h2 className="text-xl font-bold text-foreground mb-4">QC Defect Rates</h2>
+            <QCDefectRates />
+          </div>
+
           {/* Manufacturer Metrics */}
           <div className="mb-8">
             <h2 className="text-xl font-bold text-foreground mb-4">Manufacturer Metrics</h2>
@@ -57,6 +57,7 @@ import AdminOrderApproval from "@/components/AdminOrderApproval";
 import AdminPaymentGate from "@/components/AdminPaymentGate";
 import AdminProductionFilesView from "@/components/AdminProductionFilesView";
 import EvidenceSummary from "@/components/EvidenceSummary";
+import SlaBreachQueue from "@/components/SlaBreachQueue";
 import { format } from "date-fns";
 
 interface Order {
@@ -276,6 +277,11 @@ const CommandCenter = () => {
     await fetchOrders();
   };
 
+  const handleOpenOrderById = (orderId: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (order) handleOrderClick(order);
+  };
+
   const filteredOrders = orders.filter(order => {
     const term = searchTerm.toLowerCase();
     return (
@@ -344,6 +350,9 @@ const CommandCenter = () => {
             </div>
           </div>
 
+          {/* SLA Breach Queue */}
+          <SlaBreachQueue onOpenOrder={handleOpenOrderById} />
+
           {/* Orders Table */}
           <Card>
             <CardContent className="p-0">
@@ -0,0 +1,238 @@
+/**
+ * Defect Catalogue
+ *
+ * Defect codes buyers and admins pick from when rejecting QC. Codes can be limited to
+ * product types and retired; they are never deleted, recorded defects keep their code.
+ */
+
+import { useEffect, useState } from "react";
+import Sidebar from "@/components/Sidebar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, RefreshCw, Save } from "lucide-react";
+import { toast } from "sonner";
+import { DEFECT_CLASS_LABELS, DefectClass } from "@/lib/aqlSampling";
+import {
+  DEFECT_CATEGORIES,
+  DEFECT_CATEGORY_LABELS,
+  DEFECT_PRODUCT_TYPES,
+  DefectCategory,
+  DefectCode,
+  fetchDefectCodes,
+  saveDefectCode,
+} from "@/lib/qcDefects";
+
+const DEFECT_CLASSES: DefectClass[] = ['critical', 'major', 'minor'];
+
+const DefectCatalogue = () => {
+  const [codes, setCodes] = useState<DefectCode[]>([]);
+  const [changed, setChanged] = useState<Set<string>>(new Set());
+  const [newCode, setNewCode] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCodes();
+  }, []);
+
+  const loadCodes = async () => {
+    setLoading(true);
+    setCodes(await fetchDefectCodes());
+    setChanged(new Set());
+    setLoading(false);
+  };
+
+  const updateCode = (code: string, changes: Partial<DefectCode>) => {
+    setCodes((current) => current.map((entry) => (entry.code === code ? { ...entry, ...changes } : entry)));
+    setChanged((current) => new Set(current).add(code));
+  };
+
+  const toggleProductType = (entry: DefectCode, productType: string) => {
+    updateCode(entry.code, {
+      product_types: entry.product_types.includes(productType)
+        ? entry.product_types.filter((type) => type !== productType)
+        : [...entry.product_types, productType],
+    });
+  };
+
+  const handleAdd = () => {
+    const code = newCode.trim().toUpperCase();
+    if (codes.some((entry) => entry.code === code)) {
+      toast.error(`${code} is already in the catalogue`);
+      return;
+    }
+
+    setCodes((current) => [...current, {
+      code,
+      label: '',
+      category: 'other',
+      default_severity: 'major',
+      product_types: [],
+      description: null,
+      active: true,
+      sort_order: (current[current.length - 1]?.sort_order || 0) + 10,
+    }]);
+    setChanged((current) => new Set(current).add(code));
+    setNewCode("");
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    for (const entry of codes.filter((code) => changed.has(code.code))) {
+      const result = await saveDefectCode(entry);
+      if (!result.success) {
+        setSaving(false);
+        toast.error(result.error || `Failed to save ${entry.code}`);
+        return;
+      }
+    }
+    setSaving(false);
+
+    toast.success("Defect catalogue saved");
+    await loadCodes();
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="admin" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Defect Catalogue</h1>
+              <p className="text-muted-foreground">Defect codes used in QC reviews and defect-rate analytics</p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={changed.size === 0 || saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : `Save Changes${changed.size > 0 ? ` (${changed.size})` : ''}`}
+              </Button>
+              <Button onClick={loadCodes} variant="outline" disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Defect Codes</CardTitle>
+              <CardDescription>
+                Product types limit where a code is offered - none selected means every product.
+                Retired codes stay on defects already recorded.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2 max-w-md">
+                <Input
+                  placeholder="New code, e.g. PRT-GHOST"
+                  value={newCode}
+                  onChange={(e) => setNewCode(e.target.value)}
+                />
+                <Button variant="outline" onClick={handleAdd} disabled={!newCode.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Code
+                </Button>
+              </div>
+
+              {loading ? (
+                <div className="text-center py-8">Loading...</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-56">Code / Label</TableHead>
+                      <TableHead className="w-40">Category</TableHead>
+                      <TableHead className="w-32">Default severity</TableHead>
+                      <TableHead>Product types</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="w-20">Active</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {codes.map((entry) => (
+                      <TableRow key={entry.code} className={entry.active ? '' : 'opacity-60'}>
+                        <TableCell className="space-y-1">
+                          <p className="text-xs font-mono text-muted-foreground">{entry.code}</p>
+                          <Input
+                            value={entry.label}
+                            placeholder="Label"
+                            onChange={(e) => updateCode(entry.code, { label: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={entry.category}
+                            onValueChange={(value) => updateCode(entry.code, { category: value as DefectCategory })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DEFECT_CATEGORIES.map((category) => (
+                                <SelectItem key={category} value={category}>{DEFECT_CATEGORY_LABELS[category]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={entry.default_severity}
+                            onValueChange={(value) => updateCode(entry.code, { default_severity: value as DefectClass })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DEFECT_CLASSES.map((value) => (
+                                <SelectItem key={value} value={value}>{DEFECT_CLASS_LABELS[value]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {DEFECT_PRODUCT_TYPES.map((productType) => (
+                              <Badge
+                                key={productType}
+                                variant={entry.product_types.includes(productType) ? 'default' : 'outline'}
+                                className="cursor-pointer"
+                                onClick={() => toggleProductType(entry, productType)}
+                              >
+                                {productType}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={entry.description || ''}
+                            onChange={(e) => updateCode(entry.code, { description: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={entry.active}
+                            onCheckedChange={(active) => updateCode(entry.code, { active })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DefectCatalogue;
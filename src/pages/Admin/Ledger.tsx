@@ -0,0 +1,252 @@
+/**
+ * Ledger
+ *
+ * Platform trial balance from the double-entry ledger, plus the consistency
+ * checker that flags orders whose ledger doesn't match their payment_state.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Sidebar from "@/components/Sidebar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, BookOpen, CheckCircle, ExternalLink, RefreshCw, Scale } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  LEDGER_ENTRY_LABELS,
+  LEDGER_ISSUE_LABELS,
+  LedgerEntry,
+  LedgerIssue,
+  TrialBalanceRow,
+  checkLedgerConsistency,
+  fetchOrderLedger,
+  fetchTrialBalance,
+  getNaturalBalance,
+} from "@/lib/ledger";
+
+const formatAmount = (value: number | null) =>
+  value === null ? '—' : `₹${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const Ledger = () => {
+  const navigate = useNavigate();
+  const [trialBalance, setTrialBalance] = useState<TrialBalanceRow[]>([]);
+  const [issues, setIssues] = useState<LedgerIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [orderEntries, setOrderEntries] = useState<LedgerEntry[]>([]);
+
+  useEffect(() => {
+    loadLedger();
+  }, []);
+
+  const loadLedger = async () => {
+    setLoading(true);
+    setTrialBalance(await fetchTrialBalance());
+    await runCheck();
+    setLoading(false);
+  };
+
+  const runCheck = async () => {
+    setChecking(true);
+    const result = await checkLedgerConsistency();
+    setChecking(false);
+
+    if (result.error) {
+      toast.error(`Consistency check failed: ${result.error}`);
+      return;
+    }
+    setIssues(result.issues);
+  };
+
+  const openOrderLedger = async (orderId: string) => {
+    setSelectedOrderId(orderId);
+    setOrderEntries(await fetchOrderLedger(orderId));
+  };
+
+  const totalDebit = trialBalance.reduce((sum, row) => sum + Number(row.total_debit), 0);
+  const totalCredit = trialBalance.reduce((sum, row) => sum + Number(row.total_credit), 0);
+  const isBalanced = Math.abs(totalDebit - totalCredit) < 0.01;
+  const flaggedOrders = new Set(issues.map((issue) => issue.order_id)).size;
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="admin" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Ledger</h1>
+              <p className="text-muted-foreground">Trial balance and ledger consistency across all orders</p>
+            </div>
+            <Button onClick={loadLedger} variant="outline" disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <Scale className="h-5 w-5" />
+                  Trial Balance
+                </span>
+                {!loading && (
+                  <Badge className={isBalanced ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}>
+                    {isBalanced ? 'Balanced' : `Out of balance by ${formatAmount(totalDebit - totalCredit)}`}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trialBalance.map((row) => (
+                    <TableRow key={row.account_code}>
+                      <TableCell className="font-medium">{row.account_name}</TableCell>
+                      <TableCell className="capitalize text-muted-foreground">{row.account_type}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(row.total_debit)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatAmount(row.total_credit)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(getNaturalBalance(row))} {row.normal_balance === 'credit' ? 'Cr' : 'Dr'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-semibold">
+                    <TableCell colSpan={2}>Total</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(totalDebit)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatAmount(totalCredit)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  {issues.length === 0 ? (
+                    <CheckCircle className="h-5 w-5 text-green-600" />
+                  ) : (
+                    <AlertTriangle className="h-5 w-5 text-amber-600" />
+                  )}
+                  Consistency Check
+                </span>
+                <div className="flex items-center gap-2">
+                  {issues.length > 0 && (
+                    <Badge className="bg-amber-100 text-amber-700">
+                      {issues.length} issue{issues.length === 1 ? '' : 's'} · {flaggedOrders} order{flaggedOrders === 1 ? '' : 's'}
+                    </Badge>
+                  )}
+                  <Button size="sm" variant="outline" onClick={runCheck} disabled={checking}>
+                    {checking ? "Checking..." : "Run Check"}
+                  </Button>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {issues.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Every order's ledger matches its payment state.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Payment State</TableHead>
+                      <TableHead>Issue</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Actual</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {issues.map((issue, index) => (
+                      <TableRow key={`${issue.order_id}-${issue.issue}-${index}`}>
+                        <TableCell className="font-mono text-xs">{issue.order_id.slice(0, 8)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{issue.payment_state}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{LEDGER_ISSUE_LABELS[issue.issue] || issue.issue}</TableCell>
+                        <TableCell className="text-right font-mono">{formatAmount(issue.expected)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatAmount(issue.actual)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button size="sm" variant="ghost" onClick={() => openOrderLedger(issue.order_id)}>
+                              <BookOpen className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => navigate(`/admin/order/${issue.order_id}`)}>
+                              <ExternalLink className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={!!selectedOrderId} onOpenChange={(open) => !open && setSelectedOrderId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Order Ledger</DialogTitle>
+            <DialogDescription className="font-mono">{selectedOrderId}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {orderEntries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No entries posted for this order.</p>
+            ) : (
+              orderEntries.map((entry) => (
+                <div key={entry.id} className="p-3 rounded border space-y-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium">{LEDGER_ENTRY_LABELS[entry.entry_type] || entry.entry_type}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                    </p>
+                  </div>
+                  {entry.lines.map((line) => (
+                    <div key={line.id} className="grid grid-cols-3 text-xs font-mono">
+                      <span className={line.credit > 0 ? 'pl-4' : ''}>{line.account_code}</span>
+                      <span className="text-right">{line.debit > 0 ? formatAmount(line.debit) : ''}</span>
+                      <span className="text-right">{line.credit > 0 ? formatAmount(line.credit) : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Ledger;
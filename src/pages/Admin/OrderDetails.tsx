@@ -3,12 +3,17 @@ import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Sidebar from "@/components/Sidebar";
 import OrderCostBreakdown from "@/components/OrderCostBreakdown";
+import OrderTaxDocuments from "@/components/OrderTaxDocuments";
 import DeliveryTrackingInfo from "@/components/DeliveryTrackingInfo";
 import OrderEvidenceView from "@/components/OrderEvidenceView";
 import EvidenceSummary from "@/components/EvidenceSummary";
 import AdminOrderControlPanel from "@/components/AdminOrderControlPanel";
 import AdminProductionFilesView from "@/components/AdminProductionFilesView";
 import AdminPaymentGate from "@/components/AdminPaymentGate";
+import AdminPaymentSchedule from "@/components/AdminPaymentSchedule";
+import AdminRefundLedger from "@/components/AdminRefundLedger";
+import OrderHistoryTimeTravel from "@/components/OrderHistoryTimeTravel";
+import QCFrameComparison from "@/components/QCFrameComparison";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -35,6 +40,7 @@ import {
 } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { fetchOrderMilestones, MILESTONE_STATUS_LABELS, OrderPaymentMilestone } from "@/lib/paymentSchedule";
 
 const AdminOrderDetails = () => {
   const { id } = useParams();
@@ -45,6 +51,7 @@ const AdminOrderDetails = () => {
   const [manufacturerInfo, setManufacturerInfo] = useState<any>(null);
   const [manufacturerVerification, setManufacturerVerification] = useState<any>(null);
   const [orderEvents, setOrderEvents] = useState<any[]>([]);
+  const [milestones, setMilestones] = useState<OrderPaymentMilestone[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -111,6 +118,7 @@ const AdminOrderDetails = () => {
       setManufacturerVerification(verificationData);
     }
 
+    setMilestones(await fetchOrderMilestones(orderData.id));
     setOrder(orderData);
     setShippingInfo(shippingData);
     setLoading(false);
@@ -197,6 +205,8 @@ const AdminOrderDetails = () => {
       case 'DISPATCHED': return 'bg-violet-100 text-violet-800 dark:bg-violet-900/30 dark:text-violet-300';
       case 'DELIVERED': return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
       case 'COMPLETED': return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300';
+      case 'ON_HOLD': return 'bg-slate-200 text-slate-800 dark:bg-slate-800/50 dark:text-slate-300';
+      case 'CANCELLED': return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
       default: return 'bg-muted text-muted-foreground';
     }
   };
@@ -347,6 +357,24 @@ const AdminOrderDetails = () => {
                   await fetchOrderEvents();
                 }} 
               />
+              <div className="mt-4 pt-4 border-t">
+                <AdminPaymentSchedule
+                  order={order}
+                  onUpdate={async () => {
+                    await fetchOrderDetails();
+                    await fetchOrderEvents();
+                  }}
+                />
+              </div>
+              <div className="mt-4 pt-4 border-t">
+                <AdminRefundLedger
+                  order={order}
+                  onUpdate={async () => {
+                    await fetchOrderDetails();
+                    await fetchOrderEvents();
+                  }}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -536,13 +564,21 @@ const AdminOrderDetails = () => {
                   <span className="font-bold text-lg">₹{(order.total_order_value || order.total_amount || 0).toLocaleString()}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Upfront (55%):</span>
+                  <span className="text-muted-foreground">Upfront Payable:</span>
                   <span className="font-semibold text-primary">₹{(order.upfront_payable_amount || order.escrow_amount || 0).toLocaleString()}</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Remaining (45%):</span>
-                  <span className="font-medium">₹{Math.round((order.total_order_value || order.total_amount || 0) * 0.45).toLocaleString()}</span>
-                </div>
+                {milestones.map((milestone) => (
+                  <div key={milestone.id} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {milestone.name}
+                      {milestone.percentage != null && ` (${milestone.percentage}%)`}:
+                    </span>
+                    <span className="font-medium">
+                      ₹{Number(milestone.amount).toLocaleString()}
+                      <span className="ml-2 text-xs text-muted-foreground">{MILESTONE_STATUS_LABELS[milestone.status]}</span>
+                    </span>
+                  </div>
+                ))}
                 <div className="flex justify-between pt-2 border-t">
                   <span className="text-muted-foreground">Delivery Cost:</span>
                   <span className="font-medium">₹{order.delivery_cost || 0}</span>
@@ -901,7 +937,7 @@ const AdminOrderDetails = () => {
                   />
                   
                   <TimelineItem
-                    label="Payment Received (Upfront 55%)"
+                    label="Payment Received"
                     timestamp={order.fake_payment_timestamp}
                     completed={!!order.fake_payment_timestamp}
                     actor="System"
@@ -1002,6 +1038,9 @@ const AdminOrderDetails = () => {
             </CardContent>
           </Card>
 
+          {/* Time Travel - order snapshots replayed from order_events */}
+          <OrderHistoryTimeTravel order={order} />
+
           {/* Database Event Log (from order_events table) */}
           <Card>
             <CardHeader>
@@ -1062,6 +1101,9 @@ const AdminOrderDetails = () => {
                   <source src={order.qc_files[0]} type="video/mp4" />
                   Your browser does not support the video tag.
                 </video>
+                <div className="mt-4">
+                  <QCFrameComparison orderId={order.id} stage={order.bulk_qc_video_url ? 'bulk' : 'sample'} canReprocess />
+                </div>
                 {order.qc_feedback && (
                   <div className="mt-4 p-3 bg-muted rounded">
                     <p className="text-sm font-medium text-muted-foreground mb-1">Buyer QC Feedback:</p>
@@ -1097,6 +1139,8 @@ const AdminOrderDetails = () => {
             fabricType={order.fabric_type || undefined}
           />
 
+          <OrderTaxDocuments orderId={order.id} paymentState={order.payment_state} isAdmin />
+
           {/* Tracking Info (if exists) */}
           {(order.tracking_id || order.dispatched_at) && (
             <DeliveryTrackingInfo
@@ -0,0 +1,140 @@
+/**
+ * Payouts
+ *
+ * All manufacturer payout batches. Admins record bank transfers (paid with a
+ * UTR reference), failures and retries, and can build batches ahead of the
+ * weekly job.
+ */
+
+import { useEffect, useState } from "react";
+import Sidebar from "@/components/Sidebar";
+import PayoutBatchTable from "@/components/PayoutBatchTable";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Layers, RefreshCw, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { PayoutBatch, PayoutBatchStatus, fetchPayoutBatches, generatePayoutBatches } from "@/lib/payoutBatches";
+
+const STATUS_FILTERS: (PayoutBatchStatus | 'all')[] = ['all', 'pending', 'failed', 'paid'];
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const Payouts = () => {
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [manufacturerNames, setManufacturerNames] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<PayoutBatchStatus | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const loadBatches = async () => {
+    setLoading(true);
+    const payoutBatches = await fetchPayoutBatches();
+    setBatches(payoutBatches);
+
+    const manufacturerIds = [...new Set(payoutBatches.map((b) => b.manufacturer_id))];
+    if (manufacturerIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, company_name, email')
+        .in('id', manufacturerIds);
+      setManufacturerNames(
+        Object.fromEntries((profiles || []).map((p) => [p.id, p.company_name || p.email]))
+      );
+    }
+    setLoading(false);
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    const result = await generatePayoutBatches();
+    setGenerating(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to generate payout batches");
+      return;
+    }
+
+    toast.success(
+      result.batches ? `${result.batches} payout batches created or updated` : "No released orders to batch for last week"
+    );
+    await loadBatches();
+  };
+
+  const visibleBatches = statusFilter === 'all' ? batches : batches.filter((b) => b.status === statusFilter);
+  const pendingTotal = batches
+    .filter((b) => b.status === 'pending')
+    .reduce((sum, b) => sum + Number(b.net_amount), 0);
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="admin" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Payouts</h1>
+              <p className="text-muted-foreground">
+                Weekly manufacturer settlement batches • {formatAmount(pendingTotal)} pending
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleGenerate} disabled={generating}>
+                <Layers className="h-4 w-4 mr-2" />
+                {generating ? "Generating..." : "Generate Last Week"}
+              </Button>
+              <Button onClick={loadBatches} variant="outline" disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <Wallet className="h-5 w-5" />
+                  Payout Batches
+                </span>
+                <div className="flex gap-1">
+                  {STATUS_FILTERS.map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={statusFilter === status ? 'default' : 'outline'}
+                      onClick={() => setStatusFilter(status)}
+                      className="capitalize"
+                    >
+                      {status}
+                    </Button>
+                  ))}
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">Loading...</div>
+              ) : (
+                <PayoutBatchTable
+                  batches={visibleBatches}
+                  isAdmin
+                  manufacturerNames={manufacturerNames}
+                  onChanged={loadBatches}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Payouts;
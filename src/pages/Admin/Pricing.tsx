@@ -0,0 +1,343 @@
+/**
+ * Pricing
+ *
+ * Edit the active price book: sample and fabric prices, quantity breaks,
+ * surcharges and rush fees. Changes apply to new quotes straight away; quotes
+ * already issued keep the prices they were signed with.
+ */
+
+import { useEffect, useState } from "react";
+import Sidebar from "@/components/Sidebar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PriceBook, SURCHARGE_TYPE_LABELS, fetchActivePriceBook, savePriceBook } from "@/lib/pricing";
+
+// Rates are edited as percentages and stored as fractions
+const toPercent = (rate: number) => Math.round(Number(rate) * 10000) / 100;
+const fromPercent = (value: string) => (parseFloat(value) || 0) / 100;
+const toNumber = (value: string) => parseFloat(value) || 0;
+
+const Pricing = () => {
+  const [book, setBook] = useState<PriceBook | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadBook();
+  }, []);
+
+  const loadBook = async () => {
+    setLoading(true);
+    setBook(await fetchActivePriceBook());
+    setLoading(false);
+  };
+
+  const updateBook = (changes: Partial<PriceBook>) => {
+    setBook((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSave = async () => {
+    if (!book) return;
+
+    setSaving(true);
+    const result = await savePriceBook(book);
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to save prices");
+      return;
+    }
+
+    toast.success("Prices saved - new quotes use them from now on");
+    await loadBook();
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="admin" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Pricing</h1>
+              <p className="text-muted-foreground">Price book used for every buyer quote</p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={!book || saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Prices"}
+              </Button>
+              <Button onClick={loadBook} variant="outline" disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : !book ? (
+            <div className="text-center py-8 text-muted-foreground">No active price book.</div>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    {book.name}
+                    <Badge className="bg-green-100 text-green-700">Active</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label>Sample price (per piece, ₹)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={book.sample_unit_price}
+                      onChange={(e) => updateBook({ sample_unit_price: toNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Default bulk price (per piece, ₹)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={book.default_unit_price}
+                      onChange={(e) => updateBook({ default_unit_price: toNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Quote validity (minutes)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={book.quote_validity_minutes}
+                      onChange={(e) => updateBook({ quote_validity_minutes: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Fabric Prices</CardTitle>
+                    <CardDescription>Bulk price per piece before quantity discounts</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Fabric</TableHead>
+                          <TableHead className="w-32">₹ / piece</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {book.fabrics.map((fabric, index) => (
+                          <TableRow key={fabric.fabric_id}>
+                            <TableCell>
+                              {fabric.label}
+                              <p className="text-xs text-muted-foreground font-mono">{fabric.fabric_id}</p>
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={fabric.unit_price}
+                                onChange={(e) => updateBook({
+                                  fabrics: book.fabrics.map((f, i) => i === index ? { ...f, unit_price: toNumber(e.target.value) } : f),
+                                })}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Surcharges</CardTitle>
+                    <CardDescription>Added per piece</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Surcharge</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead className="w-32">₹ / piece</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {book.surcharges.map((surcharge, index) => (
+                          <TableRow key={surcharge.id}>
+                            <TableCell>{surcharge.label}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {SURCHARGE_TYPE_LABELS[surcharge.surcharge_type]}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={surcharge.unit_amount}
+                                onChange={(e) => updateBook({
+                                  surcharges: book.surcharges.map((s, i) => i === index ? { ...s, unit_amount: toNumber(e.target.value) } : s),
+                                })}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      Quantity Breaks
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateBook({
+                          quantity_tiers: [...book.quantity_tiers, { min_quantity: 1, discount_rate: 0 }],
+                        })}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add
+                      </Button>
+                    </CardTitle>
+                    <CardDescription>The highest break at or below the order quantity applies (bulk only)</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>From quantity</TableHead>
+                          <TableHead>Discount %</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {book.quantity_tiers.map((tier, index) => (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={1}
+                                value={tier.min_quantity}
+                                onChange={(e) => updateBook({
+                                  quantity_tiers: book.quantity_tiers.map((t, i) => i === index ? { ...t, min_quantity: Math.max(1, parseInt(e.target.value) || 1) } : t),
+                                })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={99}
+                                value={toPercent(tier.discount_rate)}
+                                onChange={(e) => updateBook({
+                                  quantity_tiers: book.quantity_tiers.map((t, i) => i === index ? { ...t, discount_rate: fromPercent(e.target.value) } : t),
+                                })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => updateBook({ quantity_tiers: book.quantity_tiers.filter((_, i) => i !== index) })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      Rush Fees
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateBook({
+                          rush_tiers: [...book.rush_tiers, { max_lead_days: 7, surcharge_rate: 0 }],
+                        })}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add
+                      </Button>
+                    </CardTitle>
+                    <CardDescription>Charged on the goods subtotal when the deadline is within the given days</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Deadline within (days)</TableHead>
+                          <TableHead>Fee %</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {book.rush_tiers.map((tier, index) => (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={tier.max_lead_days}
+                                onChange={(e) => updateBook({
+                                  rush_tiers: book.rush_tiers.map((t, i) => i === index ? { ...t, max_lead_days: Math.max(0, parseInt(e.target.value) || 0) } : t),
+                                })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={toPercent(tier.surcharge_rate)}
+                                onChange={(e) => updateBook({
+                                  rush_tiers: book.rush_tiers.map((t, i) => i === index ? { ...t, surcharge_rate: fromPercent(e.target.value) } : t),
+                                })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => updateBook({ rush_tiers: book.rush_tiers.filter((_, i) => i !== index) })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Pricing;
@@ -0,0 +1,398 @@
+/**
+ * QC Review Queue
+ *
+ * Every order waiting on QC review (sample or bulk QC uploaded), oldest upload first.
+ * Reviewers claim a submission or assign it to another admin, then decide it on the order
+ * page. Orders above the four-eyes threshold need a second admin to sign off the approval.
+ * Turnaround per reviewer is shown below the queue.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { subDays } from "date-fns";
+import Sidebar from "@/components/Sidebar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Clock, ExternalLink, Hand, RefreshCw, ShieldCheck, Timer, UserX, Users } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  ADMIN_QC_DECISION_LABELS,
+  AdminQCDecisionStatus,
+  QCReviewMetrics,
+  QCReviewer,
+  QueueEntry,
+  QueueFilter,
+  claimQCReview,
+  fetchQCReviewMetrics,
+  fetchQCReviewQueue,
+  fetchQCReviewers,
+  filterQueue,
+  formatHours,
+  formatQueueAge,
+  isOpenForReview,
+  releaseQCReview,
+} from "@/lib/qcReviewQueue";
+
+const FILTER_LABELS: Record<QueueFilter, string> = {
+  all: 'All',
+  mine: 'Mine',
+  unassigned: 'Unassigned',
+  second_review: 'Awaiting second sign-off',
+};
+
+const PERIODS: Record<string, number | null> = {
+  '30': 30,
+  '90': 90,
+  all: null,
+};
+
+const QCReviewQueue = () => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [reviewers, setReviewers] = useState<QCReviewer[]>([]);
+  const [metrics, setMetrics] = useState<QCReviewMetrics[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<QueueFilter>('all');
+  const [period, setPeriod] = useState("30");
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  useEffect(() => {
+    loadMetrics();
+  }, [period]);
+
+  const loadQueue = async () => {
+    setLoading(true);
+    const [{ data: { user } }, queue, admins] = await Promise.all([
+      supabase.auth.getUser(),
+      fetchQCReviewQueue(),
+      fetchQCReviewers(),
+    ]);
+    setUserId(user?.id || null);
+    setEntries(queue);
+    setReviewers(admins);
+    setLoading(false);
+  };
+
+  const loadMetrics = async () => {
+    const days = PERIODS[period];
+    setMetrics(await fetchQCReviewMetrics(days ? subDays(new Date(), days) : undefined));
+  };
+
+  const reviewerName = (id: string | null) => {
+    if (!id) return null;
+    if (id === userId) return 'You';
+    const reviewer = reviewers.find((entry) => entry.user_id === id);
+    return reviewer?.email || reviewer?.company_name || id.slice(0, 8);
+  };
+
+  const handleClaim = async (qcId: string, assignee?: string) => {
+    setBusyId(qcId);
+    const result = await claimQCReview(qcId, assignee);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to claim review");
+      return;
+    }
+
+    toast.success(assignee && assignee !== userId ? `Assigned to ${reviewerName(assignee)}` : "Review claimed");
+    await loadQueue();
+  };
+
+  const handleRelease = async (qcId: string) => {
+    setBusyId(qcId);
+    const result = await releaseQCReview(qcId);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to release review");
+      return;
+    }
+
+    toast.success("Review released to the queue");
+    await loadQueue();
+  };
+
+  const openEntries = entries.filter((entry) => isOpenForReview(entry.qc));
+  const visible = filterQueue(openEntries, filter, userId);
+  const total = metrics.find((row) => row.reviewer_id === null);
+  const reviewerRows = metrics.filter((row) => row.reviewer_id !== null);
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="admin" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">QC Review Queue</h1>
+              <p className="text-muted-foreground">Sample and bulk QC waiting on an admin decision, oldest first</p>
+            </div>
+            <Button onClick={loadQueue} variant="outline" disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">In Queue</CardTitle>
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{openEntries.length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Unassigned</CardTitle>
+                <UserX className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{filterQueue(openEntries, 'unassigned', userId).length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Awaiting Second Sign-off</CardTitle>
+                <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{filterQueue(openEntries, 'second_review', userId).length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Oldest Waiting</CardTitle>
+                <Timer className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {openEntries[0] ? formatQueueAge(openEntries[0].submittedAt) : '—'}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Queue</CardTitle>
+                  <CardDescription>
+                    Claim a submission before reviewing it. Open the order to approve or reject.
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {(Object.keys(FILTER_LABELS) as QueueFilter[]).map((key) => (
+                    <Button
+                      key={key}
+                      size="sm"
+                      variant={filter === key ? 'default' : 'outline'}
+                      onClick={() => setFilter(key)}
+                    >
+                      {FILTER_LABELS[key]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="text-center py-8">Loading...</div>
+              ) : visible.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">Nothing waiting for review</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead>Waiting</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Reviewer</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map(({ order, qc, stage, submittedAt }) => {
+                      const decision = (qc?.admin_decision || 'pending') as AdminQCDecisionStatus;
+                      const assignees = reviewers.filter((reviewer) =>
+                        reviewer.user_id !== qc?.assigned_to &&
+                        !(decision === 'awaiting_second_review' && reviewer.user_id === qc?.first_approval_by)
+                      );
+                      return (
+                        <TableRow key={order.id}>
+                          <TableCell>
+                            <p className="font-mono text-sm">{order.id.slice(0, 8)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {order.product_type} · {order.quantity} pcs
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{stage === 'sample' ? 'Sample' : 'Bulk'} QC</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <p>₹{(order.total_order_value || order.total_amount || 0).toLocaleString()}</p>
+                            {qc?.second_review_required && (
+                              <Badge variant="outline" className="mt-1 text-xs">
+                                <Users className="h-3 w-3 mr-1" />
+                                Four-eyes
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{formatQueueAge(submittedAt)}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="outline"
+                              className={decision === 'awaiting_second_review' ? 'bg-blue-100 text-blue-800' : 'bg-amber-100 text-amber-800'}
+                            >
+                              {ADMIN_QC_DECISION_LABELS[decision] || decision}
+                            </Badge>
+                            {qc?.first_approval_by && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                1st approval: {reviewerName(qc.first_approval_by)}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {qc?.assigned_to ? (
+                              <div>
+                                <p className="text-sm">{reviewerName(qc.assigned_to)}</p>
+                                {qc.assigned_at && (
+                                  <p className="text-xs text-muted-foreground">
+                                    claimed {formatQueueAge(qc.assigned_at)} ago
+                                  </p>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">Unassigned</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end items-center gap-2">
+                              {qc && !qc.assigned_to && (
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleClaim(qc.id)}
+                                  disabled={busyId === qc.id || (decision === 'awaiting_second_review' && qc.first_approval_by === userId)}
+                                >
+                                  <Hand className="h-4 w-4 mr-1" />
+                                  Claim
+                                </Button>
+                              )}
+                              {qc && assignees.length > 0 && (
+                                <Select value="" onValueChange={(assignee) => handleClaim(qc.id, assignee)}>
+                                  <SelectTrigger className="h-9 w-32" disabled={busyId === qc.id}>
+                                    <SelectValue placeholder="Assign" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {assignees.map((reviewer) => (
+                                      <SelectItem key={reviewer.user_id} value={reviewer.user_id}>
+                                        {reviewerName(reviewer.user_id)}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                              {qc?.assigned_to && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleRelease(qc.id)}
+                                  disabled={busyId === qc.id}
+                                >
+                                  Release
+                                </Button>
+                              )}
+                              <Button size="sm" variant="ghost" onClick={() => navigate(`/admin/order/${order.id}`)}>
+                                <ExternalLink className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Review Turnaround</CardTitle>
+                  <CardDescription>
+                    Turnaround runs from QC upload to the final decision; response includes first approvals.
+                  </CardDescription>
+                </div>
+                <Select value={period} onValueChange={setPeriod}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="30">Last 30 days</SelectItem>
+                    <SelectItem value="90">Last 90 days</SelectItem>
+                    <SelectItem value="all">All time</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!total ? (
+                <div className="text-center py-8 text-muted-foreground">No QC decisions in this period</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reviewer</TableHead>
+                      <TableHead className="text-right">Decisions</TableHead>
+                      <TableHead className="text-right">Approved</TableHead>
+                      <TableHead className="text-right">Rejected</TableHead>
+                      <TableHead className="text-right">First approvals</TableHead>
+                      <TableHead className="text-right">Second sign-offs</TableHead>
+                      <TableHead className="text-right">Avg response</TableHead>
+                      <TableHead className="text-right">Avg turnaround</TableHead>
+                      <TableHead className="text-right">Median turnaround</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...reviewerRows, total].map((row) => (
+                      <TableRow key={row.reviewer_id || 'total'} className={row.reviewer_id ? '' : 'font-semibold bg-muted/50'}>
+                        <TableCell>{row.reviewer_id ? reviewerName(row.reviewer_id) : 'All reviewers'}</TableCell>
+                        <TableCell className="text-right">{row.decisions}</TableCell>
+                        <TableCell className="text-right">{row.approvals}</TableCell>
+                        <TableCell className="text-right">{row.rejections}</TableCell>
+                        <TableCell className="text-right">{row.first_approvals}</TableCell>
+                        <TableCell className="text-right">{row.second_signoffs}</TableCell>
+                        <TableCell className="text-right">{formatHours(row.avg_response_hours)}</TableCell>
+                        <TableCell className="text-right">{formatHours(row.avg_turnaround_hours)}</TableCell>
+                        <TableCell className="text-right">{formatHours(row.median_turnaround_hours)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default QCReviewQueue;
@@ -0,0 +1,516 @@
+/**
+ * Returns
+ *
+ * Buyer returns (RMAs) on delivered orders. Admins approve how many pieces qualify,
+ * who is at fault and whether the pieces are remade or refunded, then book the
+ * return pickup and, once the manufacturer has packed the remake, the replacement
+ * shipment - with the courier, or entered manually when booked outside Leorit.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Sidebar from "@/components/Sidebar";
+import RmaCard from "@/components/RmaCard";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle, FileDown, PackageCheck, RefreshCw, ScanLine, Truck, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { calculateDefectRefund } from "@/lib/refundLedger";
+import { updateShipmentDeliveryStatus } from "@/lib/deliveryPlan";
+import {
+  Shipment,
+  ShipmentDirection,
+  createRmaCourierShipment,
+  downloadShipmentLabel,
+  fetchRmaShipments,
+  simulateCourierScan,
+  syncShipmentTracking,
+} from "@/lib/courier";
+import {
+  RMA_FAULT_LABELS,
+  RMA_RESOLUTION_LABELS,
+  RMA_STATUS_LABELS,
+  Rma,
+  RmaFault,
+  RmaResolution,
+  RmaStatus,
+  approveRma,
+  bookRmaShipmentManually,
+  fetchRmas,
+  getPendingRmaShipment,
+  rejectRma,
+} from "@/lib/rma";
+
+type OrderValue = { id: string; quantity: number; value: number };
+
+const Returns = () => {
+  const navigate = useNavigate();
+  const [rmas, setRmas] = useState<Rma[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [orders, setOrders] = useState<OrderValue[]>([]);
+  const [statusFilter, setStatusFilter] = useState<RmaStatus | 'all'>('requested');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  // Review dialog
+  const [reviewingRma, setReviewingRma] = useState<Rma | null>(null);
+  const [approve, setApprove] = useState(true);
+  const [approvedQuantity, setApprovedQuantity] = useState("");
+  const [resolution, setResolution] = useState<RmaResolution>('remake');
+  const [fault, setFault] = useState<RmaFault>('factory');
+  const [returnRequired, setReturnRequired] = useState(true);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  // Booking dialog
+  const [booking, setBooking] = useState<{ rma: Rma; direction: ShipmentDirection } | null>(null);
+  const [weightKg, setWeightKg] = useState("");
+  const [courierName, setCourierName] = useState("");
+  const [trackingId, setTrackingId] = useState("");
+
+  useEffect(() => {
+    loadRmas();
+  }, [statusFilter]);
+
+  const loadRmas = async () => {
+    setLoading(true);
+    const data = await fetchRmas({ status: statusFilter === 'all' ? undefined : statusFilter });
+    setRmas(data);
+
+    const orderIds = [...new Set(data.map((rma) => rma.order_id))];
+    const [rmaShipments, { data: orderRows }] = await Promise.all([
+      fetchRmaShipments(data.map((rma) => rma.id)),
+      orderIds.length > 0
+        ? supabase
+          .from('orders')
+          .select('id, quantity, total_order_value, total_amount, escrow_amount')
+          .in('id', orderIds)
+        : Promise.resolve({ data: [] }),
+    ]);
+    setShipments(rmaShipments);
+    setOrders((orderRows || []).map((order) => ({
+      id: order.id,
+      quantity: order.quantity,
+      value: Number(order.total_order_value ?? order.total_amount ?? order.escrow_amount ?? 0),
+    })));
+    setLoading(false);
+  };
+
+  // Pro-rata value of the approved pieces, the default refund and deduction
+  const suggestedAmount = (rma: Rma, quantity: number) => {
+    const order = orders.find((o) => o.id === rma.order_id);
+    return order ? calculateDefectRefund(order.value, order.quantity, quantity) : 0;
+  };
+
+  const openReview = (rma: Rma) => {
+    const suggested = String(suggestedAmount(rma, rma.requested_quantity));
+    setReviewingRma(rma);
+    setApprove(true);
+    setApprovedQuantity(String(rma.requested_quantity));
+    setResolution('remake');
+    setFault(rma.reason === 'damaged' ? 'courier' : 'factory');
+    setReturnRequired(rma.reason !== 'missing_pieces');
+    setRefundAmount(suggested);
+    setAdjustmentAmount(rma.reason === 'damaged' ? "" : suggested);
+    setNote("");
+  };
+
+  const handleQuantityChange = (value: string) => {
+    setApprovedQuantity(value);
+    if (!reviewingRma) return;
+    const suggested = String(suggestedAmount(reviewingRma, parseInt(value, 10) || 0));
+    setRefundAmount(suggested);
+    if (fault === 'factory') setAdjustmentAmount(suggested);
+  };
+
+  const handleReview = async () => {
+    if (!reviewingRma) return;
+
+    setWorking(true);
+    const result = approve
+      ? await approveRma(reviewingRma.id, {
+        approvedQuantity: parseInt(approvedQuantity, 10) || 0,
+        resolution,
+        fault,
+        returnRequired,
+        refundAmount: parseFloat(refundAmount) || 0,
+        adjustmentAmount: parseFloat(adjustmentAmount) || 0,
+        note: note.trim() || undefined,
+      })
+      : await rejectRma(reviewingRma.id, note);
+    setWorking(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to review the return");
+      return;
+    }
+
+    toast.success(`Return ${reviewingRma.reference} ${approve ? 'approved' : 'rejected'}`);
+    setReviewingRma(null);
+    await loadRmas();
+  };
+
+  const openBooking = (rma: Rma, direction: ShipmentDirection) => {
+    setBooking({ rma, direction });
+    setWeightKg("");
+    setCourierName("");
+    setTrackingId("");
+  };
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, success: string, failure: string) => {
+    setWorking(true);
+    const result = await action();
+    setWorking(false);
+
+    if (!result.success) {
+      toast.error(result.error || failure);
+      return false;
+    }
+
+    toast.success(success);
+    await loadRmas();
+    return true;
+  };
+
+  const handleBookCourier = async () => {
+    if (!booking) return;
+    const booked = await run(
+      () => createRmaCourierShipment(booking.rma.id, booking.direction, weightKg ? parseFloat(weightKg) : undefined),
+      "Booked with the courier",
+      "Failed to book courier"
+    );
+    if (booked) setBooking(null);
+  };
+
+  const handleBookManually = async () => {
+    if (!booking) return;
+    const booked = await run(
+      () => bookRmaShipmentManually(booking.rma.id, booking.direction, courierName, trackingId),
+      "Courier assigned, pickup scheduled",
+      "Failed to assign courier"
+    );
+    if (booked) setBooking(null);
+  };
+
+  const handleLabel = async (shipment: Shipment) => {
+    const result = await downloadShipmentLabel(shipment);
+    if (!result.success) {
+      toast.error(result.error || "Failed to fetch label");
+    }
+  };
+
+  const renderShipmentActions = (shipment: Shipment) => {
+    const isFinal = shipment.delivery_status === 'DELIVERED' || ['delivered', 'rto', 'cancelled'].includes(shipment.status || '');
+
+    if (shipment.provider) {
+      return (
+        <>
+          <Button size="sm" variant="outline" onClick={() => handleLabel(shipment)}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Label
+          </Button>
+          {!isFinal && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => run(() => syncShipmentTracking(shipment.id), "Tracking synced", "Failed to sync tracking")}
+              disabled={working}
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Sync
+            </Button>
+          )}
+          {!isFinal && shipment.provider === 'mock' && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => run(() => simulateCourierScan(shipment.id), "Scan delivered to the courier webhook", "Failed to simulate scan")}
+              disabled={working}
+            >
+              <ScanLine className="h-4 w-4 mr-1" />
+              Next Scan
+            </Button>
+          )}
+        </>
+      );
+    }
+
+    // Booked outside Leorit: no scans, admin moves it
+    if (shipment.delivery_status === 'PICKUP_SCHEDULED') {
+      return (
+        <Button
+          size="sm"
+          onClick={() => run(() => updateShipmentDeliveryStatus(shipment.id, 'IN_TRANSIT'), "Shipment in transit", "Failed to update shipment")}
+          disabled={working}
+          className="bg-orange-600 hover:bg-orange-700"
+        >
+          Mark In Transit
+        </Button>
+      );
+    }
+    if (shipment.delivery_status === 'IN_TRANSIT') {
+      return (
+        <Button
+          size="sm"
+          onClick={() => run(() => updateShipmentDeliveryStatus(shipment.id, 'DELIVERED'), "Shipment delivered", "Failed to update shipment")}
+          disabled={working}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          Mark Delivered
+        </Button>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="admin" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Returns</h1>
+              <p className="text-muted-foreground">Wrong-size, damaged and defective pieces reported after delivery</p>
+            </div>
+            <div className="flex gap-2">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as RmaStatus | 'all')}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All returns</SelectItem>
+                  {(Object.keys(RMA_STATUS_LABELS) as RmaStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{RMA_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={loadRmas} variant="outline" disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : rmas.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No returns.</div>
+          ) : (
+            rmas.map((rma) => {
+              const rmaShipments = shipments.filter((shipment) => shipment.rma_id === rma.id);
+              const pending = getPendingRmaShipment(rma, rmaShipments.map((shipment) => shipment.direction));
+              return (
+                <RmaCard
+                  key={rma.id}
+                  rma={rma}
+                  shipments={rmaShipments}
+                  actions={
+                    <>
+                      {rma.status === 'requested' && (
+                        <Button size="sm" onClick={() => openReview(rma)}>
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Review
+                        </Button>
+                      )}
+                      {pending && (
+                        <Button size="sm" onClick={() => openBooking(rma, pending)}>
+                          <Truck className="h-4 w-4 mr-1" />
+                          {pending === 'return' ? 'Book Return Pickup' : 'Ship Replacements'}
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/admin/order/${rma.order_id}`)}>
+                        View Order
+                      </Button>
+                    </>
+                  }
+                  renderShipmentActions={renderShipmentActions}
+                />
+              );
+            })
+          )}
+        </div>
+      </main>
+
+      <Dialog open={!!reviewingRma} onOpenChange={(open) => !open && setReviewingRma(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Review {reviewingRma?.reference}</DialogTitle>
+            <DialogDescription>
+              {reviewingRma?.requested_quantity} piece(s) reported. Approve what qualifies or reject with a reason.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <Select value={approve ? 'approve' : 'reject'} onValueChange={(value) => setApprove(value === 'approve')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="approve">Approve</SelectItem>
+                <SelectItem value="reject">Reject</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {approve && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Approved pieces</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={reviewingRma?.requested_quantity}
+                      value={approvedQuantity}
+                      onChange={(e) => handleQuantityChange(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Resolution</Label>
+                    <Select value={resolution} onValueChange={(value) => setResolution(value as RmaResolution)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RMA_RESOLUTION_LABELS) as RmaResolution[]).map((value) => (
+                          <SelectItem key={value} value={value}>{RMA_RESOLUTION_LABELS[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Fault</Label>
+                    <Select
+                      value={fault}
+                      onValueChange={(value) => {
+                        setFault(value as RmaFault);
+                        if (value !== 'factory') setAdjustmentAmount("");
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RMA_FAULT_LABELS) as RmaFault[]).map((value) => (
+                          <SelectItem key={value} value={value}>{RMA_FAULT_LABELS[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {resolution === 'refund' && (
+                    <div className="space-y-2">
+                      <Label>Refund (₹)</Label>
+                      <Input type="number" min={0} value={refundAmount} onChange={(e) => setRefundAmount(e.target.value)} />
+                    </div>
+                  )}
+                  {fault === 'factory' && (
+                    <div className="space-y-2">
+                      <Label>Payout deduction (₹)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={adjustmentAmount}
+                        onChange={(e) => setAdjustmentAmount(e.target.value)}
+                        placeholder="None"
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="rma-return-required"
+                    checked={returnRequired}
+                    onCheckedChange={(checked) => setReturnRequired(checked === true)}
+                  />
+                  <Label htmlFor="rma-return-required" className="font-normal">
+                    Collect the pieces from the buyer before remaking
+                  </Label>
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>{approve ? 'Note (optional)' : 'Reason for rejection'}</Label>
+              <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewingRma(null)}>Cancel</Button>
+            <Button
+              onClick={handleReview}
+              disabled={working || (!approve && !note.trim())}
+              variant={approve ? 'default' : 'destructive'}
+            >
+              {approve ? <CheckCircle className="h-4 w-4 mr-1" /> : <XCircle className="h-4 w-4 mr-1" />}
+              {working ? "Saving..." : approve ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!booking} onOpenChange={(open) => !open && setBooking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {booking?.direction === 'return' ? 'Book Return Pickup' : 'Ship Replacements'}
+            </DialogTitle>
+            <DialogDescription>
+              {booking?.direction === 'return'
+                ? "Collect the pieces from the buyer and deliver them to the manufacturer."
+                : "Collect the remade pieces from the manufacturer and deliver them to the buyer."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-end gap-3">
+              <div className="space-y-2 flex-1">
+                <Label>Parcel weight (kg)</Label>
+                <Input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={weightKg}
+                  onChange={(e) => setWeightKg(e.target.value)}
+                  placeholder="Estimated from pieces if empty"
+                />
+              </div>
+              <Button onClick={handleBookCourier} disabled={working}>
+                <PackageCheck className="h-4 w-4 mr-2" />
+                {working ? "Booking..." : "Book Courier"}
+              </Button>
+            </div>
+            <div className="flex items-end gap-3">
+              <Input value={courierName} onChange={(e) => setCourierName(e.target.value)} placeholder="Courier name" />
+              <Input value={trackingId} onChange={(e) => setTrackingId(e.target.value)} placeholder="Tracking ID" />
+              <Button
+                variant="outline"
+                onClick={handleBookManually}
+                disabled={working || !courierName.trim() || !trackingId.trim()}
+              >
+                Assign
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Returns;
@@ -0,0 +1,256 @@
+/**
+ * RFQs
+ *
+ * Buyer requests for quotation. Admins answer with itemised quotes themselves or
+ * invite verified manufacturers to quote, and can withdraw open quotes or cancel
+ * a request. The buyer's accepted quote becomes a SUBMITTED order.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Sidebar from "@/components/Sidebar";
+import RfqCard from "@/components/RfqCard";
+import RfqQuoteForm from "@/components/RfqQuoteForm";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RefreshCw, Send, UserPlus, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  RFQ_STATUS_LABELS,
+  Rfq,
+  RfqQuote,
+  RfqStatus,
+  cancelRfq,
+  fetchRfqInvitations,
+  fetchRfqQuotes,
+  fetchRfqs,
+  getRfqQuoteStatus,
+  inviteRfqManufacturers,
+  withdrawRfqQuote,
+} from "@/lib/rfq";
+
+type Manufacturer = { user_id: string; company_name: string };
+
+const Rfqs = () => {
+  const navigate = useNavigate();
+  const [rfqs, setRfqs] = useState<Rfq[]>([]);
+  const [quotes, setQuotes] = useState<RfqQuote[]>([]);
+  const [manufacturers, setManufacturers] = useState<Manufacturer[]>([]);
+  const [statusFilter, setStatusFilter] = useState<RfqStatus | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [quotingRfq, setQuotingRfq] = useState<Rfq | null>(null);
+  const [invitingRfq, setInvitingRfq] = useState<Rfq | null>(null);
+  const [invitedIds, setInvitedIds] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    loadRfqs();
+  }, [statusFilter]);
+
+  const loadRfqs = async () => {
+    setLoading(true);
+    const [allRfqs, { data: verified }] = await Promise.all([
+      fetchRfqs({ status: statusFilter === 'all' ? undefined : statusFilter }),
+      // approved_manufacturers is the source of truth; only linked accounts can be invited
+      supabase
+        .from('approved_manufacturers')
+        .select('linked_user_id, company_name')
+        .eq('verified', true)
+        .not('linked_user_id', 'is', null)
+        .order('company_name'),
+    ]);
+    setRfqs(allRfqs);
+    setQuotes(await fetchRfqQuotes(allRfqs.map((rfq) => rfq.id)));
+    setManufacturers((verified || []).map((m) => ({ user_id: m.linked_user_id as string, company_name: m.company_name })));
+    setLoading(false);
+  };
+
+  const responderName = (quote: RfqQuote) =>
+    quote.responder_role === 'admin'
+      ? 'Platform'
+      : manufacturers.find((m) => m.user_id === quote.responder_id)?.company_name || 'Manufacturer';
+
+  const openInvite = async (rfq: Rfq) => {
+    setInvitingRfq(rfq);
+    setSelectedIds([]);
+    setInvitedIds(await fetchRfqInvitations(rfq.id));
+  };
+
+  const handleInvite = async () => {
+    if (!invitingRfq) return;
+
+    setInviting(true);
+    const result = await inviteRfqManufacturers(invitingRfq.id, selectedIds);
+    setInviting(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to invite manufacturers");
+      return;
+    }
+
+    toast.success(`Invited ${result.data} manufacturer(s) to quote`);
+    setInvitingRfq(null);
+  };
+
+  const handleWithdraw = async (quote: RfqQuote) => {
+    const result = await withdrawRfqQuote(quote.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to withdraw quote");
+      return;
+    }
+    toast.success("Quote withdrawn");
+    await loadRfqs();
+  };
+
+  const handleCancel = async (rfq: Rfq) => {
+    const result = await cancelRfq(rfq.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to cancel request");
+      return;
+    }
+    toast.success("Request cancelled");
+    await loadRfqs();
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="admin" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">RFQs</h1>
+              <p className="text-muted-foreground">Buyer requests for quotation on custom products</p>
+            </div>
+            <div className="flex gap-2">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as RfqStatus | 'all')}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All requests</SelectItem>
+                  {(Object.keys(RFQ_STATUS_LABELS) as RfqStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{RFQ_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={loadRfqs} variant="outline" disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : rfqs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No requests for quotation.</div>
+          ) : (
+            rfqs.map((rfq) => {
+              const isOpen = rfq.status === 'open' || rfq.status === 'quoted';
+              return (
+                <RfqCard
+                  key={rfq.id}
+                  rfq={rfq}
+                  quotes={quotes.filter((quote) => quote.rfq_id === rfq.id)}
+                  actions={
+                    isOpen ? (
+                      <>
+                        <Button size="sm" onClick={() => setQuotingRfq(rfq)}>
+                          <Send className="h-4 w-4 mr-1" />
+                          Send Quote
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openInvite(rfq)}>
+                          <UserPlus className="h-4 w-4 mr-1" />
+                          Invite
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleCancel(rfq)}>
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel
+                        </Button>
+                      </>
+                    ) : rfq.order_id ? (
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/admin/order/${rfq.order_id}`)}>
+                        View Order
+                      </Button>
+                    ) : null
+                  }
+                  renderQuoteActions={(quote) => (
+                    <>
+                      <span className="text-xs text-muted-foreground">{responderName(quote)}</span>
+                      {getRfqQuoteStatus(quote) === 'submitted' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleWithdraw(quote)}>
+                          Withdraw
+                        </Button>
+                      )}
+                    </>
+                  )}
+                />
+              );
+            })
+          )}
+        </div>
+      </main>
+
+      <RfqQuoteForm rfq={quotingRfq} onClose={() => setQuotingRfq(null)} onSubmitted={loadRfqs} />
+
+      <Dialog open={!!invitingRfq} onOpenChange={(open) => !open && setInvitingRfq(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Manufacturers</DialogTitle>
+            <DialogDescription>
+              Invited manufacturers can see this request and send their own quote.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {manufacturers.length === 0 && (
+              <p className="text-sm text-muted-foreground">No verified manufacturers.</p>
+            )}
+            {manufacturers.map((manufacturer) => {
+              const alreadyInvited = invitedIds.includes(manufacturer.user_id);
+              return (
+                <div key={manufacturer.user_id} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`invite-${manufacturer.user_id}`}
+                    checked={alreadyInvited || selectedIds.includes(manufacturer.user_id)}
+                    disabled={alreadyInvited}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds((ids) =>
+                        checked ? [...ids, manufacturer.user_id] : ids.filter((id) => id !== manufacturer.user_id)
+                      )
+                    }
+                  />
+                  <Label htmlFor={`invite-${manufacturer.user_id}`} className="font-normal">
+                    {manufacturer.company_name}
+                    {alreadyInvited && <span className="text-muted-foreground"> (invited)</span>}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInvitingRfq(null)}>Cancel</Button>
+            <Button onClick={handleInvite} disabled={inviting || selectedIds.length === 0}>
+              {inviting ? "Inviting..." : `Invite ${selectedIds.length || ''}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Rfqs;
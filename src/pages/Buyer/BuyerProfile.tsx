@@ -6,11 +6,15 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { isValidGstin } from "@/lib/taxInvoices";
 
 const BuyerProfile = () => {
   const [isRepeatBuyer, setIsRepeatBuyer] = useState(false);
   const [bulkOrderCount, setBulkOrderCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [gstin, setGstin] = useState("");
+  const [savingGstin, setSavingGstin] = useState(false);
 
   useEffect(() => {
     const checkRepeatBuyer = async () => {
@@ -28,6 +32,13 @@ const BuyerProfile = () => {
         const count = bulkOrders?.length || 0;
         setBulkOrderCount(count);
         setIsRepeatBuyer(count >= 2);
+
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("gstin")
+          .eq("id", user.id)
+          .maybeSingle();
+        setGstin(profile?.gstin || "");
       } catch (error) {
         console.error("Error checking repeat buyer status:", error);
       } finally {
@@ -38,6 +49,34 @@ const BuyerProfile = () => {
     checkRepeatBuyer();
   }, []);
 
+  const handleSaveGstin = async () => {
+    const value = gstin.trim().toUpperCase();
+    if (value && !isValidGstin(value)) {
+      toast.error("Enter a valid 15-character GSTIN");
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("Not authenticated");
+      return;
+    }
+
+    setSavingGstin(true);
+    const { error } = await supabase
+      .from("profiles")
+      .update({ gstin: value || null })
+      .eq("id", user.id);
+    setSavingGstin(false);
+
+    if (error) {
+      console.error("Error saving GSTIN:", error);
+      toast.error("Failed to save GSTIN");
+      return;
+    }
+    toast.success(value ? "GSTIN saved" : "GSTIN removed");
+  };
+
   return (
     <div className="flex min-h-screen bg-background w-full">
       <Sidebar userRole="buyer" />
@@ -77,6 +116,33 @@ const BuyerProfile = () => {
             </div>
           </div>
 
+          {/* GST details for tax invoices */}
+          <div className="bg-card border border-border rounded-xl p-6 mb-6">
+            <h2 className="text-lg font-semibold text-foreground mb-1">Tax Details</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Add your GSTIN to receive B2B tax invoices and claim input tax credit
+            </p>
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <Label>GSTIN</Label>
+                <Input
+                  className="mt-1"
+                  placeholder="e.g. 29ABCDE1234F1Z5"
+                  maxLength={15}
+                  value={gstin}
+                  onChange={(e) => setGstin(e.target.value.toUpperCase())}
+                />
+              </div>
+              <Button
+                className="bg-foreground text-background hover:bg-gray-800"
+                onClick={handleSaveGstin}
+                disabled={savingGstin}
+              >
+                {savingGstin ? "Saving..." : "Save GSTIN"}
+              </Button>
+            </div>
+          </div>
+
           <div className="bg-card border border-border rounded-xl p-8">
             <form className="space-y-6">
               <div className="grid grid-cols-2 gap-6">
@@ -7,16 +7,25 @@ import EscrowMoneyFlow from "@/components/EscrowMoneyFlow";
 import OrderChat from "@/components/OrderChat";
 import DeliveryTrackingInfo from "@/components/DeliveryTrackingInfo";
 import OrderCostBreakdown from "@/components/OrderCostBreakdown";
+import OrderTaxDocuments from "@/components/OrderTaxDocuments";
 import OrderModeInfoBanner from "@/components/OrderModeInfoBanner";
 import SampleQCReview from "@/components/SampleQCReview";
+import BulkQCReview from "@/components/BulkQCReview";
+import AqlSamplingPlan from "@/components/AqlSamplingPlan";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import BuyerPaymentGate from "@/components/BuyerPaymentGate";
+import BuyerCancelOrder from "@/components/BuyerCancelOrder";
 import { FileText, Package, MapPin, CreditCard, Info, AlertTriangle, ExternalLink, Video, Image as ImageIcon, CheckCircle } from "lucide-react";
 import { toast } from "sonner";
 import { getBuyerDisplayStatus, isAwaitingReview } from "@/lib/buyerStatusLabels";
+import { fetchOrderMilestones, OrderPaymentMilestone } from "@/lib/paymentSchedule";
+import { fetchOrderRefunds, getOrderEscrowTotal, OrderRefund } from "@/lib/refundLedger";
+import { BulkQCInspection, fetchBulkQCInspections } from "@/lib/aqlSampling";
+import { getOrderMode } from "@/lib/orderModeUtils";
+import SampleRevisionTimeline from "@/components/SampleRevisionTimeline";
 
 interface QCMediaItem {
   url: string;
@@ -29,6 +38,9 @@ const OrderDetails = () => {
   const [shippingInfo, setShippingInfo] = useState<any>(null);
   const [qcData, setQcData] = useState<any>(null);
   const [qcMediaUrls, setQcMediaUrls] = useState<QCMediaItem[]>([]);
+  const [milestones, setMilestones] = useState<OrderPaymentMilestone[]>([]);
+  const [refunds, setRefunds] = useState<OrderRefund[]>([]);
+  const [bulkInspections, setBulkInspections] = useState<BulkQCInspection[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUserId, setCurrentUserId] = useState("");
 
@@ -109,6 +121,9 @@ const OrderDetails = () => {
       setQcMediaUrls(mediaItems);
     }
 
+    setMilestones(await fetchOrderMilestones(orderData.id));
+    setRefunds(await fetchOrderRefunds(orderData.id));
+    setBulkInspections(await fetchBulkQCInspections(orderData.id));
     setOrder(orderData);
     setShippingInfo(shippingData);
     setQcData(qcDetails);
@@ -136,6 +151,8 @@ const OrderDetails = () => {
 
   const displayStatus = getBuyerDisplayStatus(order);
   const awaitingReview = isAwaitingReview(order);
+  // Milestone amounts are net of refunds; the timeline shows the captured total and deducts refunds itself
+  const escrowAmount = milestones.length > 0 ? getOrderEscrowTotal(order) : order.escrow_amount || 500;
 
   return (
     <div className="flex min-h-screen bg-background">
@@ -168,6 +185,9 @@ const OrderDetails = () => {
             </Alert>
           )}
 
+          {/* Cancellation / hold status */}
+          <BuyerCancelOrder order={order} userId={currentUserId} onUpdate={fetchOrderDetails} />
+
           {/* PAYMENT GATE - Shows payment status to buyer */}
           <BuyerPaymentGate order={order} />
 
@@ -316,6 +336,8 @@ const OrderDetails = () => {
             fabricType={order.fabric_type || undefined}
           />
 
+          <OrderTaxDocuments orderId={order.id} paymentState={order.payment_state} />
+
           {order.tracking_id || order.dispatched_at ? (
             <DeliveryTrackingInfo
               trackingId={order.tracking_id || undefined}
@@ -325,7 +347,7 @@ const OrderDetails = () => {
             />
           ) : null}
 
-          {order.quantity === 1 && (
+          {(order.quantity === 1 || milestones.length > 0) && (
             <>
               <PaymentTimeline
                 orderCreatedAt={order.created_at}
@@ -335,30 +357,50 @@ const OrderDetails = () => {
                 qcUploadedAt={order.qc_uploaded_at}
                 sampleApprovedAt={order.sample_approved_at}
                 escrowReleasedTimestamp={order.escrow_released_timestamp}
-                escrowAmount={order.escrow_amount || 500}
+                escrowAmount={escrowAmount}
+                milestones={milestones}
+                refunds={refunds}
               />
               {order.escrow_released_timestamp ? (
                 <EscrowMoneyFlow
                   stage="released"
-                  amount={order.escrow_amount || 500}
+                  amount={escrowAmount}
+                  milestones={milestones}
                 />
               ) : order.escrow_locked_timestamp ? (
                 <EscrowMoneyFlow
                   stage="locked"
-                  amount={order.escrow_amount || 500}
+                  amount={escrowAmount}
+                  milestones={milestones}
                 />
               ) : order.fake_payment_timestamp ? (
                 <EscrowMoneyFlow
                   stage="payment"
-                  amount={order.escrow_amount || 500}
+                  amount={escrowAmount}
+                  milestones={milestones}
                 />
               ) : null}
             </>
           )}
 
+          {/* AQL sampling plan for the bulk lot - editable until the first inspection */}
+          {getOrderMode(order) !== 'sample_only' && order.order_state !== 'BULK_QC_UPLOADED' && (
+            <AqlSamplingPlan
+              order={order}
+              inspection={bulkInspections[0] || null}
+              editable={bulkInspections.length === 0}
+              onUpdate={() => fetchOrderDetails()}
+            />
+          )}
+
+          {/* Bulk QC Review Section - approval follows the AQL inspection */}
+          {order.order_state === 'BULK_QC_UPLOADED' && (
+            <BulkQCReview orderId={order.id} onStatusChange={() => fetchOrderDetails()} />
+          )}
+
           {/* Sample QC Review Section - Shows when order is in QC review state */}
-          {(order.order_state === 'SAMPLE_QC_UPLOADED' || 
-            order.order_state === 'BULK_QC_UPLOADED' ||
+          {order.order_state !== 'BULK_QC_UPLOADED' &&
+           (order.order_state === 'SAMPLE_QC_UPLOADED' || 
             order.detailed_status === 'qc_uploaded' ||
             order.sample_status === 'qc_uploaded') && (
             <Card className="border-primary/30 bg-primary/5">
@@ -448,6 +490,9 @@ const OrderDetails = () => {
             </Card>
           )}
 
+          {/* Sample revision rounds with their own evidence and decisions */}
+          <SampleRevisionTimeline order={order} />
+
           <OrderChat orderId={order.id} currentUserId={currentUserId} />
         </div>
       </div>
@@ -6,6 +6,9 @@ import PaymentTimeline from "@/components/PaymentTimeline";
 import EscrowMoneyFlow from "@/components/EscrowMoneyFlow";
 import OrderModeInfoBanner from "@/components/OrderModeInfoBanner";
 import BuyerDeliveryTracking from "@/components/BuyerDeliveryTracking";
+import BuyerDeliveryOtp from "@/components/BuyerDeliveryOtp";
+import BuyerDeliveryPlan from "@/components/BuyerDeliveryPlan";
+import BuyerReturns from "@/components/BuyerReturns";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
@@ -17,7 +20,8 @@ import { canTransitionTo, OrderDetailedStatus, isSampleOrder } from "@/lib/order
 import { buyerStatusLabels, buyerStatusColors, getBuyerDisplayStatus, isAwaitingReview } from "@/lib/buyerStatusLabels";
 import { getOrderMode } from "@/lib/orderModeUtils";
 import { logOrderEvent } from "@/lib/orderEventLogger";
-import { PAYMENT_CONSTANTS } from "@/lib/orderStatusConstants";
+import { fetchOrderMilestones, OrderPaymentMilestone } from "@/lib/paymentSchedule";
+import { fetchOrderRefunds, getOrderEscrowTotal, OrderRefund } from "@/lib/refundLedger";
 import { format, parseISO } from "date-fns";
 
 const OrderTracking = () => {
@@ -25,6 +29,8 @@ const OrderTracking = () => {
   const [selectedOrder, setSelectedOrder] = useState<string | null>(null);
   const [orders, setOrders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedMilestones, setSelectedMilestones] = useState<OrderPaymentMilestone[]>([]);
+  const [selectedRefunds, setSelectedRefunds] = useState<OrderRefund[]>([]);
 
   /**
    * Check if order is in a QC review state where buyer should see QC media
@@ -83,6 +89,16 @@ const OrderTracking = () => {
     };
   }, []);
 
+  useEffect(() => {
+    if (!selectedOrder) {
+      setSelectedMilestones([]);
+      setSelectedRefunds([]);
+      return;
+    }
+    fetchOrderMilestones(selectedOrder).then(setSelectedMilestones);
+    fetchOrderRefunds(selectedOrder).then(setSelectedRefunds);
+  }, [selectedOrder, orders]);
+
   const fetchOrders = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -114,7 +130,6 @@ const OrderTracking = () => {
     const orderMode = getOrderMode(order); // Use order_mode for explicit enforcement
     const orderIntent = order.order_intent; // Backward compatibility
     const totalOrderValue = order.total_order_value || order.escrow_amount || 0;
-    const upfrontAmount = order.upfront_payable_amount || order.escrow_amount || 0;
 
     try {
       const now = new Date().toISOString();
@@ -138,48 +153,21 @@ const OrderTracking = () => {
       });
 
       // =====================================================
-      // PAYMENT RELEASE ENFORCEMENT (order_mode aware)
-      // Remaining 45% can ONLY be released if:
-      // 1. Bulk QC is approved (for bulk orders)
-      // 2. Delivery is confirmed (we just did this)
+      // PAYMENT RELEASE
+      // Money is released per payment milestone by admin once each milestone's
+      // release state is reached - delivery itself releases nothing
       // =====================================================
-      
-      let canReleaseRemainingPayment = false;
-      let releaseReason = '';
-      
-      if (orderMode === 'sample_only') {
-        // Sample-only: No remaining payment - upfront was already released at sample approval
-        canReleaseRemainingPayment = false;
-        releaseReason = 'sample_only_no_remaining';
-      } else if (orderMode === 'sample_then_bulk' || orderMode === 'direct_bulk') {
-        // Bulk orders: Check if bulk QC was approved
-        // Bulk QC is considered approved if detailed_status reached 'dispatched' 
-        // (which means it passed through bulk production)
-        const bulkQCApproved = currentStatus === 'dispatched' && order.sample_approved_at;
-        
-        if (bulkQCApproved) {
-          canReleaseRemainingPayment = true;
-          releaseReason = 'bulk_qc_approved_and_delivered';
-        } else {
-          canReleaseRemainingPayment = false;
-          releaseReason = 'bulk_qc_not_approved';
-        }
-      } else {
-        // Legacy orders without order_mode - use existing behavior
-        canReleaseRemainingPayment = true;
-        releaseReason = 'legacy_order';
-      }
-
-      // Calculate remaining amount (45% of total)
-      const remainingAmount = Math.round(totalOrderValue * PAYMENT_CONSTANTS.REMAINING_PAYMENT_RATIO);
+      const milestones = await fetchOrderMilestones(orderId);
+      const outstanding = milestones.filter(m => m.status === 'held' || m.status === 'releasable');
+      const heldAmount = outstanding.reduce((sum, m) => sum + Number(m.amount), 0);
 
-      // Update to completed and handle escrow release
+      // Update to completed
       const updateData: any = {
         detailed_status: 'completed',
         status: 'completed',
         sample_status: 'delivered',
         bulk_status: orderMode === 'sample_only' ? 'not_started' : 'completed',
-        escrow_status: canReleaseRemainingPayment ? 'fake_released' : 'partial_released',
+        escrow_status: heldAmount > 0 ? 'partial_released' : 'fake_released',
         escrow_released_timestamp: now
       };
 
@@ -190,38 +178,22 @@ const OrderTracking = () => {
 
       if (completedError) throw completedError;
 
-      // Log payment release events
-      if (canReleaseRemainingPayment) {
-        await logOrderEvent(orderId, 'remaining_payment_released', {
-          amount: remainingAmount,
-          reason: releaseReason,
-          totalOrderValue,
-          upfrontAmount,
-          remainingAmount
-        });
-        
-        await logOrderEvent(orderId, 'full_payment_released', {
+      if (heldAmount > 0) {
+        await logOrderEvent(orderId, 'delivered', {
+          remainingPaymentHeld: true,
+          heldAmount,
+          heldMilestones: outstanding.map(m => m.name),
           totalOrderValue,
-          upfrontAmount,
-          remainingAmount,
-          orderMode,
-          orderIntent
+          orderMode
         });
-        
+
         toast.success(
-          `Order completed! Full payment ₹${totalOrderValue.toLocaleString()} released to manufacturer.`,
+          `Order delivered! ₹${heldAmount.toLocaleString()} stays in escrow until the remaining payment milestones are released.`,
           { duration: 5000 }
         );
       } else {
-        // Log that remaining payment was NOT released
-        await logOrderEvent(orderId, 'delivered', {
-          remainingPaymentHeld: true,
-          reason: releaseReason,
-          heldAmount: remainingAmount
-        });
-        
         toast.success(
-          `Order delivered! Upfront payment ₹${upfrontAmount.toLocaleString()} released.`,
+          `Order completed! Payment of ₹${totalOrderValue.toLocaleString()} has been settled.`,
           { duration: 5000 }
         );
       }
@@ -414,10 +386,11 @@ const OrderTracking = () => {
             )}
           </div>
 
-          {/* Payment Timeline Section - Only for Sample Orders */}
+          {/* Payment Timeline Section - Sample orders and orders with a milestone schedule */}
           {selectedOrder && (() => {
             const order = orders.find(o => o.id === selectedOrder);
-            if (!order || !isSampleOrder(order.quantity)) return null;
+            const hasMilestones = selectedMilestones.length > 0;
+            if (!order || (!isSampleOrder(order.quantity) && !hasMilestones)) return null;
             
             // Only show escrow flow if escrow has been locked (manufacturer accepted)
             if (!order.escrow_locked_timestamp) return null;
@@ -429,13 +402,15 @@ const OrderTracking = () => {
             } else if (order.fake_payment_timestamp) {
               escrowStage = "payment";
             }
+            const escrowAmount = hasMilestones ? getOrderEscrowTotal(order) : order.escrow_amount || 500;
 
             return (
               <div className="mb-6">
                 <EscrowMoneyFlow 
                   stage={escrowStage}
-                  amount={order.escrow_amount || 500}
+                  amount={escrowAmount}
                   animated={false}
+                  milestones={selectedMilestones}
                 />
                 <div className="mt-6">
                   <PaymentTimeline
@@ -446,7 +421,9 @@ const OrderTracking = () => {
                     qcUploadedAt={order.qc_uploaded_at}
                     sampleApprovedAt={order.sample_approved_at}
                     escrowReleasedTimestamp={order.escrow_released_timestamp}
-                    escrowAmount={order.escrow_amount || 500}
+                    escrowAmount={escrowAmount}
+                    milestones={selectedMilestones}
+                    refunds={selectedRefunds}
                   />
                 </div>
               </div>
@@ -540,8 +517,11 @@ const OrderTracking = () => {
             if (!order) return null;
             
             return (
-              <div className="mb-6">
+              <div className="mb-6 space-y-6">
+                <BuyerDeliveryPlan order={order} />
+                <BuyerDeliveryOtp order={order} />
                 <BuyerDeliveryTracking order={order} />
+                <BuyerReturns order={order} />
               </div>
             );
           })()}
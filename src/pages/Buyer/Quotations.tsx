@@ -0,0 +1,201 @@
+/**
+ * Quotations
+ *
+ * The buyer's requests for quotation and the quotes received for them.
+ * Accepting a quote asks for the shipping address and places the order at the
+ * quoted price; it then goes to admin review like any other order.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Sidebar from "@/components/Sidebar";
+import RfqCard from "@/components/RfqCard";
+import ShippingAddressForm from "@/components/ShippingAddressForm";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Plus, RefreshCw, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Rfq,
+  RfqQuote,
+  RfqShippingAddress,
+  acceptRfqQuote,
+  cancelRfq,
+  fetchRfqQuotes,
+  fetchRfqs,
+  getRfqQuoteStatus,
+} from "@/lib/rfq";
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const Quotations = () => {
+  const navigate = useNavigate();
+  const [rfqs, setRfqs] = useState<Rfq[]>([]);
+  const [quotes, setQuotes] = useState<RfqQuote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acceptingQuote, setAcceptingQuote] = useState<RfqQuote | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadRfqs();
+  }, []);
+
+  const loadRfqs = async () => {
+    setLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const buyerRfqs = await fetchRfqs({ buyerId: user.id });
+    setRfqs(buyerRfqs);
+    setQuotes(await fetchRfqQuotes(buyerRfqs.map((rfq) => rfq.id)));
+    setLoading(false);
+  };
+
+  const handleAccept = async (address: RfqShippingAddress) => {
+    if (!acceptingQuote) return;
+
+    setSubmitting(true);
+    const result = await acceptRfqQuote(acceptingQuote.id, address);
+    setSubmitting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to accept quote");
+      return;
+    }
+
+    toast.success("Quote accepted - your order has been submitted for review");
+    setAcceptingQuote(null);
+    navigate(`/buyer/order/${result.data}`);
+  };
+
+  const handleCancel = async (rfq: Rfq) => {
+    const result = await cancelRfq(rfq.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to cancel request");
+      return;
+    }
+
+    toast.success("Request cancelled");
+    await loadRfqs();
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="buyer" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Quotations</h1>
+              <p className="text-muted-foreground">Requests for custom products and the quotes you have received</p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => navigate("/buyer/start-order")}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Request
+              </Button>
+              <Button onClick={loadRfqs} variant="outline" disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : rfqs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No requests yet. Choose a custom product in Start Order to request a quotation.
+            </div>
+          ) : (
+            rfqs.map((rfq) => (
+              <RfqCard
+                key={rfq.id}
+                rfq={rfq}
+                quotes={quotes.filter((quote) => quote.rfq_id === rfq.id)}
+                emptyQuotesText="We're preparing quotes for you. You'll be notified when one arrives."
+                actions={
+                  rfq.order_id ? (
+                    <Button size="sm" variant="outline" onClick={() => navigate(`/buyer/order/${rfq.order_id}`)}>
+                      View Order
+                    </Button>
+                  ) : (rfq.status === 'open' || rfq.status === 'quoted') ? (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="outline">
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel Request
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Cancel this request?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Open quotes will be declined. You can submit a new request at any time.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep Request</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleCancel(rfq)}>Cancel Request</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  ) : null
+                }
+                renderQuoteActions={(quote) =>
+                  getRfqQuoteStatus(quote) === 'submitted' && rfq.status !== 'accepted' ? (
+                    <Button size="sm" onClick={() => setAcceptingQuote(quote)}>
+                      Accept
+                    </Button>
+                  ) : null
+                }
+              />
+            ))
+          )}
+        </div>
+      </main>
+
+      <Dialog open={!!acceptingQuote} onOpenChange={(open) => !open && !submitting && setAcceptingQuote(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Accept Quote</DialogTitle>
+            <DialogDescription>
+              {acceptingQuote && `Your order will be placed at ${formatAmount(acceptingQuote.total_amount)}. `}
+              Other quotes for this request will be declined.
+            </DialogDescription>
+          </DialogHeader>
+          <ShippingAddressForm
+            onSubmit={handleAccept}
+            onBack={() => setAcceptingQuote(null)}
+            submitLabel={submitting ? "Placing Order..." : "Accept & Place Order"}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Quotations;
@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import Sidebar from "@/components/Sidebar";
 import UploadBox from "@/components/UploadBox";
 import MockupViewer3D from "@/components/MockupViewer3D";
@@ -11,13 +11,14 @@ import BuyerPurposeSelector, { BuyerPurpose } from "@/components/BuyerPurposeSel
 import ColorSelector from "@/components/ColorSelector";
 import BuyerNotesInput from "@/components/BuyerNotesInput";
 import DesignFilesSubmission from "@/components/DesignFilesSubmission";
+import RfqRequestDialog from "@/components/RfqRequestDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { ArrowRight, Sparkles, Download, Edit, Link2, Type, Shield, CalendarIcon, CheckCircle2, Phone } from "lucide-react";
+import { ArrowRight, Sparkles, Download, Edit, Link2, Type, Shield, CalendarIcon, CheckCircle2, Phone, FileQuestion } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { OrderDetailedStatus } from "@/lib/orderStateMachine";
@@ -25,8 +26,17 @@ import { logOrderEvent } from "@/lib/orderEventLogger";
 import { trackOrderCreated } from "@/lib/analyticsLogger";
 import { storeSpecificationEvidence, storeGoogleDriveEvidence } from "@/lib/evidenceStorage";
 import { trackExistingFile } from "@/lib/orderFileStorage";
-import { calculateDeliveryCost } from "@/lib/deliveryCostCalculator";
 import { getFabricsForProduct, getDefaultFabric, getFabricById, FabricOption } from "@/lib/fabrics";
+import {
+  PriceBook,
+  PriceEstimate,
+  PriceQuoteRequest,
+  estimateOrderPrice,
+  fetchActivePriceBook,
+  requestPriceQuote,
+} from "@/lib/pricing";
+import { RFQ_SUGGESTED_PRODUCTS } from "@/lib/rfq";
+import { DELIVERY_ZONE_LABELS, getPincodeServiceability } from "@/lib/deliveryCostCalculator";
 import { format, addDays } from "date-fns";
 import { cn } from "@/lib/utils";
 import { validateOrderSubmission, formatValidationErrors } from "@/lib/buyerPurposeValidation";
@@ -40,6 +50,7 @@ const StartOrder = () => {
   const [csvFile, setCsvFile] = useState<File | null>(null);
   const [productType, setProductType] = useState("");
   const [designSize, setDesignSize] = useState("A4");
+  const [printMethod, setPrintMethod] = useState("dtg");
   const [mockupDescription, setMockupDescription] = useState("");
   const [mockupImage, setMockupImage] = useState("");
   const [backMockupImage, setBackMockupImage] = useState("");
@@ -62,6 +73,9 @@ const StartOrder = () => {
   const [buyerNotes, setBuyerNotes] = useState<string>("");
   const [showOrderConfirmation, setShowOrderConfirmation] = useState(false);
   const [submittedOrderId, setSubmittedOrderId] = useState<string | null>(null);
+  const [priceBook, setPriceBook] = useState<PriceBook | null>(null);
+  const [priceEstimate, setPriceEstimate] = useState<PriceEstimate | null>(null);
+  const [isPricing, setIsPricing] = useState(false);
 
   // Design Files Submission (buyer inputs)
   const [designExplanation, setDesignExplanation] = useState<string>("");
@@ -70,6 +84,9 @@ const StartOrder = () => {
   // Optional: additional buyer attachment (stored to storage + evidence)
   const [buyerAttachmentFile, setBuyerAttachmentFile] = useState<File | null>(null);
 
+  // RFQ mode: ask for quotes instead of placing a fixed-price order
+  const [showRfqDialog, setShowRfqDialog] = useState(false);
+
   const fabricSectionRef = useRef<HTMLDivElement>(null);
 
   // Flow routing helpers based on buyer_purpose
@@ -158,6 +175,67 @@ const StartOrder = () => {
   // Determine what internal step we're on for rendering
   const internalStep = getInternalStep(step);
 
+  useEffect(() => {
+    fetchActivePriceBook().then(setPriceBook);
+  }, []);
+
+  // Pricing request for the current selections - priced server-side by price-quote
+  const buildPriceRequest = (): PriceQuoteRequest => {
+    const isFabricOnly = buyerPurpose === "fabric_only";
+    const sample = !isFabricOnly && isSampleOnly;
+    const fabric = sample ? null : (selectedFabric || getDefaultFabric(isFabricOnly ? "Fabric" : productType));
+
+    return {
+      buyer_purpose: buyerPurpose || 'merch_bulk',
+      product_type: isFabricOnly ? "Fabric" : productType,
+      quantity: sample ? 1 : bulkQuantity,
+      is_sample: sample,
+      fabric_id: fabric?.id || null,
+      print_method: printMethod,
+      print_areas: [
+        ...(designFile || mockupImage ? ['front'] : []),
+        ...(backDesignFile || backMockupImage ? ['back'] : []),
+      ],
+      personalisation: enableNamePersonalization,
+      expected_deadline: expectedDeadline ? expectedDeadline.toISOString() : null,
+      delivery_pincode: shippingAddress?.pincode || null,
+    };
+  };
+
+  // Bulk price per piece from the active price book (before quantity discounts)
+  const getFabricPrice = (fabric: FabricOption | null) => {
+    if (!priceBook) return null;
+    return priceBook.fabrics.find((f) => f.fabric_id === fabric?.id)?.unit_price ?? priceBook.default_unit_price;
+  };
+
+  const printMethods = priceBook?.surcharges.filter((s) => s.surcharge_type === 'print_method') || [];
+
+  // Refresh the order summary price on the payment step
+  useEffect(() => {
+    if (internalStep !== 6 || showOrderConfirmation) return;
+    if (bulkQuantity < 1 || bulkQuantity > 1000) {
+      setPriceEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsPricing(true);
+      const result = await estimateOrderPrice(buildPriceRequest());
+      if (cancelled) return;
+      setIsPricing(false);
+      setPriceEstimate(result.data || null);
+      if (!result.success) {
+        toast.error(result.error || "Failed to calculate price");
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [internalStep, showOrderConfirmation, isSampleOnly, bulkQuantity, selectedFabric, printMethod, expectedDeadline, shippingAddress]);
+
   const handleRecommendFabric = (fabricId: string) => {
     const fabric = getFabricById(fabricId);
     if (fabric) {
@@ -397,6 +475,23 @@ const StartOrder = () => {
                     </button>
                   ))}
                 </div>
+
+                {/* RFQ mode for products without a standard price */}
+                {productType && RFQ_SUGGESTED_PRODUCTS.includes(productType) && (
+                  <div className="flex items-center justify-between gap-4 p-4 border border-border rounded-xl bg-gray-50">
+                    <div>
+                      <h3 className="font-semibold text-foreground">Need a custom quotation?</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {productType} often need special materials or construction. Describe your requirements and
+                        compare itemised quotes before you order.
+                      </p>
+                    </div>
+                    <Button variant="outline" onClick={() => setShowRfqDialog(true)}>
+                      <FileQuestion className="w-4 h-4 mr-2" />
+                      Request a Quotation
+                    </Button>
+                  </div>
+                )}
                 
                 {/* Color selection for merch_bulk and blank_apparel */}
                 {(buyerPurpose === "merch_bulk" || buyerPurpose === "blank_apparel") && productType && (
@@ -441,7 +536,26 @@ const StartOrder = () => {
                     </SelectContent>
                   </Select>
                 </div>
-                
+
+                {printMethods.length > 0 && (
+                  <div>
+                    <Label>Print Method</Label>
+                    <Select value={printMethod} onValueChange={setPrintMethod}>
+                      <SelectTrigger className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {printMethods.map((method) => (
+                          <SelectItem key={method.code} value={method.code}>
+                            {method.label}
+                            {method.unit_amount > 0 && ` (+₹${method.unit_amount}/piece)`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <UploadBox
                   label="Front Design (Required)"
                   description="PNG, JPG, SVG up to 10MB"
@@ -697,14 +811,20 @@ const StartOrder = () => {
                         ))}
                       </SelectContent>
                     </Select>
-                    {selectedFabric && (
+                    {selectedFabric && getFabricPrice(selectedFabric) !== null && (
                       <p className="text-xs text-muted-foreground mt-1">
-                        Price per piece (bulk): ₹{selectedFabric.unit_price_bulk}
+                        Price per piece (bulk): ₹{getFabricPrice(selectedFabric)}
+                      </p>
+                    )}
+                    {priceBook && priceBook.quantity_tiers.some((t) => t.discount_rate > 0) && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        * Quantity discounts:{" "}
+                        {priceBook.quantity_tiers
+                          .filter((t) => t.discount_rate > 0)
+                          .map((t) => `${Math.round(t.discount_rate * 100)}% off from ${t.min_quantity} pcs`)
+                          .join(", ")}
                       </p>
                     )}
-                    <p className="text-xs text-muted-foreground mt-1">
-                      * Quantity discounts may apply — platform uses static slabs.
-                    </p>
                   </div>
 
                   <div>
@@ -779,6 +899,12 @@ const StartOrder = () => {
                 <ShippingAddressForm
                   onSubmit={(address) => {
                     setShippingAddress(address);
+                    // Delivery is rated by pincode; stop here if we can't ship there
+                    const serviceability = getPincodeServiceability(address.pincode);
+                    if (!serviceability.serviceable) {
+                      toast.error(serviceability.reason || "We can't deliver to this pincode yet");
+                      return;
+                    }
                     handleNextStep();
                   }}
                   onBack={handlePrevStep}
@@ -893,7 +1019,9 @@ const StartOrder = () => {
                             </div>
                             <div className="flex justify-between">
                               <span className="text-muted-foreground">Sample Cost:</span>
-                              <span className="font-bold text-foreground">₹500</span>
+                              <span className="font-bold text-foreground">
+                                {priceBook ? `₹${priceBook.sample_unit_price}` : "—"}
+                              </span>
                             </div>
                           </div>
                         </div>
@@ -956,11 +1084,15 @@ const StartOrder = () => {
                             </div>
                             <div className="flex justify-between">
                               <span className="text-muted-foreground">Price per piece:</span>
-                              <span className="font-medium text-foreground">₹{selectedFabric?.unit_price_bulk || 380}</span>
+                              <span className="font-medium text-foreground">
+                                {priceEstimate && !isSampleOnly ? `₹${priceEstimate.unit_price}` : "—"}
+                              </span>
                             </div>
                             <div className="flex justify-between">
                               <span className="text-muted-foreground">Bulk Cost:</span>
-                              <span className="font-bold text-foreground">₹{(bulkQuantity * (selectedFabric?.unit_price_bulk || 380)).toLocaleString()}</span>
+                              <span className="font-bold text-foreground">
+                                {priceEstimate && !isSampleOnly ? `₹${(bulkQuantity * priceEstimate.unit_price).toLocaleString()}` : "—"}
+                              </span>
                             </div>
                           </div>
                         </div>
@@ -978,42 +1110,47 @@ const StartOrder = () => {
                 <div className="p-6 bg-gray-50 rounded-xl border border-border space-y-3">
                   <h3 className="font-semibold text-foreground mb-3">Order Summary</h3>
                   
-                  {(() => {
-                    const quantity = (buyerPurpose === "fabric_only" || !isSampleOnly) ? bulkQuantity : 1;
-                    // For bulk orders, use selected fabric price; for sample, use ₹500
-                    const pricePerPiece = (buyerPurpose === "fabric_only" || !isSampleOnly) 
-                      ? (selectedFabric?.unit_price_bulk || 380) 
-                      : 500;
-                    const orderCost = quantity * pricePerPiece;
-                    const deliveryCost = calculateDeliveryCost({
-                      productType: buyerPurpose === "fabric_only" ? "Fabric" : productType,
-                      quantity,
-                    }).cost;
-                    const totalAmount = orderCost + deliveryCost;
-
-                    return (
-                      <>
-                        <div className="flex justify-between text-sm">
+                  {isPricing && !priceEstimate ? (
+                    <p className="text-sm text-muted-foreground">Calculating price...</p>
+                  ) : !priceEstimate ? (
+                    <p className="text-sm text-muted-foreground">Price unavailable - check the quantity and try again.</p>
+                  ) : (
+                    <>
+                      {priceEstimate.lines.map((line) => (
+                        <div key={line.code} className="flex justify-between text-sm">
                           <span className="text-muted-foreground">
-                            {(buyerPurpose === "fabric_only" || !isSampleOnly) 
-                              ? `${buyerPurpose === "fabric_only" ? "Fabric" : "Bulk"} Cost (${quantity} × ₹${pricePerPiece}):` 
-                              : "Sample Cost:"}
+                            {line.label} ({line.quantity} × ₹{line.unit_amount.toLocaleString()}):
                           </span>
-                          <span className="font-medium text-foreground">₹{orderCost.toLocaleString()}</span>
+                          <span className="font-medium text-foreground">₹{line.amount.toLocaleString()}</span>
                         </div>
+                      ))}
+                      {priceEstimate.discount_rate > 0 && (
+                        <p className="text-xs text-green-700">
+                          Includes {Math.round(priceEstimate.discount_rate * 100)}% quantity discount
+                        </p>
+                      )}
+                      {priceEstimate.rush_fee > 0 && (
                         <div className="flex justify-between text-sm">
-                          <span className="text-muted-foreground">Delivery Cost:</span>
-                          <span className="font-medium text-foreground">₹{deliveryCost.toLocaleString()}</span>
+                          <span className="text-muted-foreground">
+                            Rush Fee ({Math.round(priceEstimate.rush_rate * 100)}%, {priceEstimate.lead_days} days to deadline):
+                          </span>
+                          <span className="font-medium text-foreground">₹{priceEstimate.rush_fee.toLocaleString()}</span>
                         </div>
-                        <div className="pt-3 border-t border-border">
-                          <div className="flex justify-between text-lg">
-                            <span className="text-foreground font-semibold">Estimated Order Value:</span>
-                            <span className="font-bold text-foreground">₹{totalAmount.toLocaleString()}</span>
-                          </div>
+                      )}
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          Delivery Cost ({DELIVERY_ZONE_LABELS[priceEstimate.delivery_zone]}, {priceEstimate.chargeable_weight} kg):
+                        </span>
+                        <span className="font-medium text-foreground">₹{priceEstimate.delivery_cost.toLocaleString()}</span>
+                      </div>
+                      <div className="pt-3 border-t border-border">
+                        <div className="flex justify-between text-lg">
+                          <span className="text-foreground font-semibold">Estimated Order Value:</span>
+                          <span className="font-bold text-foreground">₹{priceEstimate.total_amount.toLocaleString()}</span>
                         </div>
-                      </>
-                    );
-                  })()}
+                      </div>
+                    </>
+                  )}
                   
                   <div className="pt-3 border-t border-border">
                     <p className="text-xs text-muted-foreground">
@@ -1086,35 +1223,31 @@ const StartOrder = () => {
                       }
 
                       const quantity = isSampleOnly ? 1 : bulkQuantity;
-                      // For bulk orders, use selected fabric price or default fabric; for sample, use ₹500
                       const fabric = isSampleOnly ? null : (selectedFabric || getDefaultFabric(productType));
-                      const pricePerPiece = isSampleOnly ? 500 : (fabric?.unit_price_bulk || 380);
-                      
-                      // Calculate delivery cost
-                      const deliveryCostResult = calculateDeliveryCost({
-                        productType,
-                        quantity,
-                      });
-                      const deliveryCost = deliveryCostResult.cost;
-                      
-                      // Calculate order values
-                      const orderCost = quantity * pricePerPiece;
-                      
-                      // PAYMENT BREAKDOWN (Add-only logic)
-                      // total_order_value: Full cost (sample + bulk + delivery)
-                      // upfront_payable_amount: 55% of total - what buyer pays initially
-                      // Remaining 45% is locked and released after delivery
-                      const totalOrderValue = orderCost + deliveryCost;
-                      const upfrontPayableAmount = Math.round(totalOrderValue * 0.55);
-                      
-                      // For escrow, we lock the upfront amount initially
-                      // The remaining amount will be collected/released at later stages
-                      const escrowAmount = upfrontPayableAmount;
-                      const totalAmount = totalOrderValue; // Buyer sees full cost
 
                       // START: Order Submission Processing
                       setIsProcessingPayment(true);
                       toast.loading("Submitting order for review...", { id: "payment-processing" });
+
+                      // =====================================================
+                      // SIGNED PRICE QUOTE - prices are computed server-side
+                      // The order references the quote; the database copies its
+                      // total, delivery cost and upfront / escrow amount
+                      // =====================================================
+                      const quoteResult = await requestPriceQuote(buildPriceRequest());
+                      if (!quoteResult.success || !quoteResult.data) {
+                        toast.dismiss("payment-processing");
+                        toast.error(quoteResult.error || "Failed to price your order");
+                        setIsProcessingPayment(false);
+                        return;
+                      }
+                      const priceQuote = quoteResult.data;
+
+                      // PAYMENT BREAKDOWN
+                      // total_order_value: Full cost (goods + surcharges + rush fee + delivery)
+                      // The full value is paid upfront into escrow; the order's milestone
+                      // schedule releases it to the manufacturer in tranches
+                      const totalOrderValue = priceQuote.total_amount;
                       
                       // =====================================================
                       // UPLOAD FILES TO STORAGE - CRITICAL FOR ADMIN VISIBILITY
@@ -1212,11 +1345,12 @@ const StartOrder = () => {
                         product_type: effectiveProductType,
                         design_size: designSize,
                         quantity: effectiveQuantity,
+                        price_quote_id: priceQuote.quote_id,
                         total_order_value: totalOrderValue,
-                        upfront_payable_amount: upfrontPayableAmount,
-                        escrow_amount: escrowAmount,
-                        delivery_cost: deliveryCost,
-                        total_amount: totalAmount,
+                        upfront_payable_amount: totalOrderValue,
+                        escrow_amount: totalOrderValue,
+                        delivery_cost: priceQuote.delivery_cost,
+                        total_amount: totalOrderValue,
                         escrow_status: 'pending', // NOT 'fake_paid' - payment pending admin approval
                         order_state: 'SUBMITTED', // ADMIN-FIRST: Order starts in SUBMITTED, not MANUFACTURER_ASSIGNED
                         detailed_status: 'created' as OrderDetailedStatus, // Pre-approval state
@@ -1224,7 +1358,8 @@ const StartOrder = () => {
                         sample_status: 'not_started',
                         // NO fake_payment_timestamp - payment not yet received
                         fabric_type: fabric?.label || null,
-                        fabric_unit_price: fabric?.unit_price_bulk || null,
+                        fabric_unit_price: fabric ? priceQuote.unit_price : null,
+                        print_method: buyerPurpose === "merch_bulk" ? printMethod : null,
                         sample_order_placed_at: (buyerPurpose !== "fabric_only" && isSampleOnly) ? now : null,
                         bulk_order_confirmed_at: (buyerPurpose === "fabric_only" || !isSampleOnly) ? now : null,
                         sample_to_bulk_conversion: buyerPurpose !== "fabric_only" && !isSampleOnly,
@@ -1269,10 +1404,12 @@ const StartOrder = () => {
 
                       // Save shipping address
                       if (shippingAddress && orderResponse) {
-                        await supabase.from('order_shipping_info').insert({
+                        // Rejected by the database if the pincode differs from the priced quote
+                        const { error: shippingError } = await supabase.from('order_shipping_info').insert({
                           order_id: orderResponse.id,
                           ...shippingAddress
                         });
+                        if (shippingError) throw shippingError;
                       }
 
                       // Log order event for analytics
@@ -1282,7 +1419,7 @@ const StartOrder = () => {
                         { 
                           quantity, 
                           productType, 
-                          escrowAmount, 
+                          escrowAmount: totalOrderValue,
                           fabricType: fabric?.label,
                           buyerPurpose,
                           hasDesignExplanation: !!designExplanation,
@@ -1409,6 +1546,24 @@ const StartOrder = () => {
         />
       )}
 
+      {showRfqDialog && buyerPurpose && (
+        <RfqRequestDialog
+          open={showRfqDialog}
+          onClose={() => setShowRfqDialog(false)}
+          onSubmitted={() => {
+            setShowRfqDialog(false);
+            window.location.href = '/buyer/quotations';
+          }}
+          buyerPurpose={buyerPurpose}
+          productType={productType}
+          selectedColor={selectedColor}
+          fabricLabel={selectedFabric?.label}
+          designSize={designSize}
+          quantity={bulkQuantity}
+          expectedDeadline={expectedDeadline}
+        />
+      )}
+
       {showNameCustomizer && csvAnalysis && designFile && (
         <NameCustomizer
           csvColumns={csvAnalysis.split('\n')
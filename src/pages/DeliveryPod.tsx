@@ -0,0 +1,171 @@
+/**
+ * Courier Proof of Delivery
+ *
+ * Public page behind the POD link an admin shares with the courier. No login: the
+ * courier enters the OTP the recipient reads out, optionally with a photo of the
+ * recipient or signed slip and the device location.
+ */
+
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, Lock, MapPin, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CourierPodLookup,
+  PodLocation,
+  confirmCourierPod,
+  getCurrentLocation,
+  lookupCourierPod,
+} from "@/lib/proofOfDelivery";
+
+const DeliveryPod = () => {
+  const { token } = useParams<{ token: string }>();
+  const [lookup, setLookup] = useState<CourierPodLookup | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [otp, setOtp] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [location, setLocation] = useState<PodLocation | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    loadLookup();
+  }, [token]);
+
+  const loadLookup = async () => {
+    if (!token) return;
+    setLoading(true);
+    const result = await lookupCourierPod(token);
+    setLookup(result.data || null);
+    setLoading(false);
+  };
+
+  const handleLocate = async () => {
+    setLocating(true);
+    const current = await getCurrentLocation();
+    setLocating(false);
+
+    if (!current) {
+      toast.error("Location unavailable - allow location access or confirm without it");
+      return;
+    }
+    setLocation(current);
+  };
+
+  const handleConfirm = async () => {
+    if (!token) return;
+    setConfirming(true);
+    const result = await confirmCourierPod(token, { otp, recipientName, photo, location });
+    setConfirming(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to confirm delivery");
+      setOtp("");
+      await loadLookup();
+      return;
+    }
+
+    toast.success("Delivery confirmed");
+    await loadLookup();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!lookup) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">This delivery link is not valid.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Proof of Delivery
+          </CardTitle>
+          <p className="text-xs text-muted-foreground font-mono">Order {lookup.order_ref}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {lookup.confirmed_at ? (
+            <div className="p-4 rounded-lg border bg-green-50 dark:bg-green-950/30 flex items-start gap-3">
+              <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5" />
+              <div>
+                <p className="font-medium">Delivery confirmed</p>
+                <p className="text-xs text-muted-foreground">{new Date(lookup.confirmed_at).toLocaleString()}</p>
+              </div>
+            </div>
+          ) : lookup.locked ? (
+            <div className="p-4 rounded-lg border flex items-start gap-3">
+              <Lock className="h-5 w-5 text-destructive mt-0.5" />
+              <p className="text-sm">
+                The OTP was entered incorrectly too many times. Ask the recipient to generate a new OTP on their
+                order page, then try again.
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Ask the recipient for the delivery OTP on their order page once the goods are handed over.
+              </p>
+              <div className="space-y-2">
+                <Label>Delivery OTP</Label>
+                <Input
+                  value={otp}
+                  onChange={(e) => setOtp(e.target.value.replace(/\D/g, ''))}
+                  placeholder="6 digits"
+                  maxLength={6}
+                  inputMode="numeric"
+                  className="font-mono text-lg tracking-widest"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Received by (optional)</Label>
+                <Input value={recipientName} onChange={(e) => setRecipientName(e.target.value)} placeholder="Recipient name" />
+              </div>
+              <div className="space-y-2">
+                <Label>Photo of recipient or signed slip (optional)</Label>
+                <Input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <Button size="sm" variant="outline" onClick={handleLocate} disabled={locating}>
+                  <MapPin className="h-4 w-4 mr-1" />
+                  {locating ? "Locating..." : location ? "Update Location" : "Add Location"}
+                </Button>
+                {location && (
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {location.latitude}, {location.longitude} (±{location.accuracy} m)
+                  </span>
+                )}
+              </div>
+              <Button onClick={handleConfirm} disabled={confirming || otp.length !== 6} className="w-full">
+                {confirming ? "Confirming..." : "Confirm Delivery"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DeliveryPod;
@@ -4,14 +4,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import ManufacturerPerformanceScore from "@/components/ManufacturerPerformanceScore";
+import ManufacturerCapacityCalendar from "@/components/ManufacturerCapacityCalendar";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { isValidGstin } from "@/lib/taxInvoices";
 
 const ManufacturerProfile = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
   const [profile, setProfile] = useState({
     company_name: "",
+    gstin: "",
     email: "",
     phone: "",
     address: "",
@@ -29,6 +33,7 @@ const ManufacturerProfile = () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setUserId(user.id);
 
       const { data, error } = await supabase
         .from('profiles')
@@ -42,6 +47,7 @@ const ManufacturerProfile = () => {
         const score = (data.on_time_deliveries || 0) * 2 + (data.qc_pass_rate || 0) * 3 - (data.total_disputes || 0) * 5;
         setProfile({
           company_name: data.company_name || "",
+          gstin: data.gstin || "",
           email: data.email || "",
           phone: "",
           address: "",
@@ -60,6 +66,12 @@ const ManufacturerProfile = () => {
   };
 
   const handleSave = async () => {
+    const gstin = profile.gstin.trim().toUpperCase();
+    if (gstin && !isValidGstin(gstin)) {
+      toast.error("Enter a valid 15-character GSTIN");
+      return;
+    }
+
     setSaving(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -69,6 +81,7 @@ const ManufacturerProfile = () => {
         .from('profiles')
         .update({
           company_name: profile.company_name,
+          gstin: gstin || null,
         })
         .eq('id', user.id);
 
@@ -141,6 +154,20 @@ const ManufacturerProfile = () => {
                 />
               </div>
 
+              <div>
+                <Label>GSTIN</Label>
+                <Input
+                  className="mt-1"
+                  placeholder="e.g. 29ABCDE1234F1Z5"
+                  maxLength={15}
+                  value={profile.gstin}
+                  onChange={(e) => setProfile({ ...profile, gstin: e.target.value.toUpperCase() })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Required to issue GST tax invoices for your orders
+                </p>
+              </div>
+
               <div>
                 <Label>Phone</Label>
                 <Input 
@@ -171,6 +198,8 @@ const ManufacturerProfile = () => {
               </Button>
             </form>
           </div>
+
+          {userId && <ManufacturerCapacityCalendar manufacturerId={userId} />}
         </div>
       </main>
     </div>
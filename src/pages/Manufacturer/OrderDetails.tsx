@@ -5,6 +5,7 @@ import Sidebar from "@/components/Sidebar";
 import OrderChat from "@/components/OrderChat";
 import ManufacturerPackingAction from "@/components/ManufacturerPackingAction";
 import OrderCostBreakdown from "@/components/OrderCostBreakdown";
+import OrderTaxDocuments from "@/components/OrderTaxDocuments";
 import DeliveryTrackingInfo from "@/components/DeliveryTrackingInfo";
 import OrderModeInfoBanner from "@/components/OrderModeInfoBanner";
 import ManufacturerPaymentGate from "@/components/ManufacturerPaymentGate";
@@ -17,6 +18,9 @@ import { format } from "date-fns";
 import { getOrderMode, getManufacturerQCUploadType } from "@/lib/orderModeUtils";
 import BuyerPurposeBadge from "@/components/BuyerPurposeBadge";
 import { canManufacturerStartProduction } from "@/components/ManufacturerPaymentGate";
+import QCDefectList from "@/components/QCDefectList";
+import { QCDefect, fetchOrderDefects } from "@/lib/qcDefects";
+import SampleRevisionTimeline from "@/components/SampleRevisionTimeline";
 
 const ManufacturerOrderDetails = () => {
   const { id } = useParams();
@@ -25,6 +29,7 @@ const ManufacturerOrderDetails = () => {
   const [buyerProfile, setBuyerProfile] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [currentUserId, setCurrentUserId] = useState("");
+  const [defects, setDefects] = useState<QCDefect[]>([]);
 
   useEffect(() => {
     fetchOrderDetails();
@@ -65,6 +70,10 @@ const ManufacturerOrderDetails = () => {
       setBuyerProfile(profileData);
     }
 
+    // Defects of the last rejected QC submission
+    const orderDefects = await fetchOrderDefects(orderData.id);
+    setDefects(orderDefects.filter((defect) => defect.order_qc_id === orderDefects[0]?.order_qc_id));
+
     setOrder(orderData);
     setShippingInfo(shippingData);
     setLoading(false);
@@ -490,6 +499,13 @@ const ManufacturerOrderDetails = () => {
                     </p>
                   </div>
                 )}
+
+                {defects.length > 0 && (
+                  <div className="pt-2 border-t">
+                    <p className="text-sm font-medium text-muted-foreground mb-2">Defects to Fix:</p>
+                    <QCDefectList defects={defects} />
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -592,6 +608,9 @@ const ManufacturerOrderDetails = () => {
             </CardContent>
           </Card>
 
+          {/* Sample revision rounds with their own evidence and decisions */}
+          <SampleRevisionTimeline order={order} />
+
           {/* Production Files Section */}
           <Card>
             <CardHeader>
@@ -799,6 +818,8 @@ const ManufacturerOrderDetails = () => {
             fabricType={order.fabric_type || undefined}
           />
 
+          <OrderTaxDocuments orderId={order.id} paymentState={order.payment_state} />
+
           {/* Manufacturer Packing Action - ONLY action manufacturer can do for delivery */}
           {order.order_state && ['READY_FOR_DISPATCH', 'BULK_QC_UPLOADED'].includes(order.order_state) && (
             <ManufacturerPackingAction order={order} onUpdate={fetchOrderDetails} />
@@ -0,0 +1,102 @@
+/**
+ * Payouts
+ *
+ * The manufacturer's weekly payout batches with downloadable statements, plus
+ * what has been paid, what is pending and what is waiting for the next batch.
+ */
+
+import { useEffect, useState } from "react";
+import Sidebar from "@/components/Sidebar";
+import DashboardCard from "@/components/DashboardCard";
+import PayoutBatchTable from "@/components/PayoutBatchTable";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle, Clock, RefreshCw, Wallet } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  PayoutBatch,
+  PayoutSummary,
+  fetchPayoutBatches,
+  fetchUnbatchedReleasedOrders,
+  summarizePayouts,
+} from "@/lib/payoutBatches";
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const Payouts = () => {
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [summary, setSummary] = useState<PayoutSummary>(summarizePayouts([]));
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadPayouts();
+  }, []);
+
+  const loadPayouts = async () => {
+    setLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const [payoutBatches, unbatchedOrders] = await Promise.all([
+      fetchPayoutBatches(user.id),
+      fetchUnbatchedReleasedOrders(user.id),
+    ]);
+    setBatches(payoutBatches);
+    setSummary(summarizePayouts(payoutBatches, unbatchedOrders));
+    setLoading(false);
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="manufacturer" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Payouts</h1>
+              <p className="text-muted-foreground">
+                Weekly settlements of released orders, net of platform commission and refunds
+              </p>
+            </div>
+            <Button onClick={loadPayouts} variant="outline" disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <DashboardCard title="Paid to Date" value={formatAmount(summary.paid)} icon={CheckCircle} />
+            <DashboardCard title="Pending Payout" value={formatAmount(summary.pending)} icon={Clock} />
+            <DashboardCard
+              title="Awaiting Next Batch"
+              value={formatAmount(summary.awaitingBatch)}
+              icon={Wallet}
+              description={`${summary.awaitingBatchOrders} released orders, before deductions`}
+            />
+            <DashboardCard
+              title="Failed Payouts"
+              value={formatAmount(summary.failed)}
+              icon={AlertCircle}
+              description="Our team will retry these"
+            />
+          </div>
+
+          <div className="bg-card border border-border rounded-xl p-6">
+            <h2 className="text-xl font-bold text-foreground mb-4">Payout Batches</h2>
+            {loading ? (
+              <div className="text-center py-8">Loading...</div>
+            ) : (
+              <PayoutBatchTable batches={batches} />
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Payouts;
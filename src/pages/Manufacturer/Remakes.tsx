@@ -0,0 +1,122 @@
+/**
+ * Remakes
+ *
+ * Approved returns on the manufacturer's orders. Remakes start once the returned
+ * pieces arrive (or straight away when no return is needed); packed remakes are
+ * collected by the courier the admin books, whose label can be downloaded here.
+ */
+
+import { useEffect, useState } from "react";
+import Sidebar from "@/components/Sidebar";
+import RmaCard from "@/components/RmaCard";
+import { Button } from "@/components/ui/button";
+import { FileDown, Hammer, Package, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Shipment, downloadShipmentLabel, fetchRmaShipments } from "@/lib/courier";
+import { Rma, fetchRmas, getNextManufacturerRemakeStatus, updateRemakeStatus } from "@/lib/rma";
+
+const Remakes = () => {
+  const [rmas, setRmas] = useState<Rma[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadRmas();
+  }, []);
+
+  const loadRmas = async () => {
+    setLoading(true);
+    // RLS limits this to approved and closed returns on the manufacturer's orders
+    const data = await fetchRmas();
+    setRmas(data);
+    setShipments(await fetchRmaShipments(data.map((rma) => rma.id)));
+    setLoading(false);
+  };
+
+  const handleAdvance = async (rma: Rma, toStatus: 'in_production' | 'packed') => {
+    setWorking(true);
+    const result = await updateRemakeStatus(rma.id, toStatus);
+    setWorking(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to update remake");
+      return;
+    }
+
+    toast.success(toStatus === 'in_production' ? "Remake started" : "Remake packed - the courier will be booked");
+    await loadRmas();
+  };
+
+  const handleLabel = async (shipment: Shipment) => {
+    const result = await downloadShipmentLabel(shipment);
+    if (!result.success) {
+      toast.error(result.error || "Failed to fetch label");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="manufacturer" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Remakes</h1>
+              <p className="text-muted-foreground">Pieces returned by buyers that need to be remade</p>
+            </div>
+            <Button onClick={loadRmas} variant="outline" disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : rmas.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No returns on your orders.</div>
+          ) : (
+            rmas.map((rma) => {
+              const next = getNextManufacturerRemakeStatus(rma.remake_status);
+              return (
+                <RmaCard
+                  key={rma.id}
+                  rma={rma}
+                  shipments={shipments.filter((shipment) => shipment.rma_id === rma.id)}
+                  actions={
+                    rma.status === 'approved' && next && (
+                      <Button size="sm" onClick={() => handleAdvance(rma, next)} disabled={working}>
+                        {next === 'in_production' ? (
+                          <>
+                            <Hammer className="h-4 w-4 mr-1" />
+                            Start Remake
+                          </>
+                        ) : (
+                          <>
+                            <Package className="h-4 w-4 mr-1" />
+                            Mark Packed
+                          </>
+                        )}
+                      </Button>
+                    )
+                  }
+                  renderShipmentActions={(shipment) =>
+                    shipment.provider && shipment.direction === 'outbound' && (
+                      <Button size="sm" variant="outline" onClick={() => handleLabel(shipment)}>
+                        <FileDown className="h-4 w-4 mr-1" />
+                        Label
+                      </Button>
+                    )
+                  }
+                />
+              );
+            })
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Remakes;
@@ -0,0 +1,101 @@
+/**
+ * RFQs
+ *
+ * Requests for quotation the manufacturer has been invited to. The manufacturer
+ * sends itemised quotes to the buyer and sees only their own quotes; if the buyer
+ * accepts one, the order goes to admin review before it is assigned.
+ */
+
+import { useEffect, useState } from "react";
+import Sidebar from "@/components/Sidebar";
+import RfqCard from "@/components/RfqCard";
+import RfqQuoteForm from "@/components/RfqQuoteForm";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Rfq, RfqQuote, fetchRfqQuotes, fetchRfqs, getRfqQuoteStatus, withdrawRfqQuote } from "@/lib/rfq";
+
+const Rfqs = () => {
+  const [rfqs, setRfqs] = useState<Rfq[]>([]);
+  const [quotes, setQuotes] = useState<RfqQuote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [quotingRfq, setQuotingRfq] = useState<Rfq | null>(null);
+
+  useEffect(() => {
+    loadRfqs();
+  }, []);
+
+  const loadRfqs = async () => {
+    setLoading(true);
+    // RLS limits both to the RFQs this manufacturer was invited to and their own quotes
+    const invitedRfqs = await fetchRfqs();
+    setRfqs(invitedRfqs);
+    setQuotes(await fetchRfqQuotes(invitedRfqs.map((rfq) => rfq.id)));
+    setLoading(false);
+  };
+
+  const handleWithdraw = async (quote: RfqQuote) => {
+    const result = await withdrawRfqQuote(quote.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to withdraw quote");
+      return;
+    }
+    toast.success("Quote withdrawn");
+    await loadRfqs();
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <Sidebar userRole="manufacturer" />
+
+      <main className="ml-64 flex-1 p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">RFQs</h1>
+              <p className="text-muted-foreground">Requests for quotation you have been invited to</p>
+            </div>
+            <Button onClick={loadRfqs} variant="outline" disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : rfqs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No invitations to quote yet.</div>
+          ) : (
+            rfqs.map((rfq) => (
+              <RfqCard
+                key={rfq.id}
+                rfq={rfq}
+                quotes={quotes.filter((quote) => quote.rfq_id === rfq.id)}
+                emptyQuotesText="You haven't quoted on this request yet."
+                actions={
+                  (rfq.status === 'open' || rfq.status === 'quoted') && (
+                    <Button size="sm" onClick={() => setQuotingRfq(rfq)}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Send Quote
+                    </Button>
+                  )
+                }
+                renderQuoteActions={(quote) =>
+                  getRfqQuoteStatus(quote) === 'submitted' && (
+                    <Button size="sm" variant="ghost" onClick={() => handleWithdraw(quote)}>
+                      Withdraw
+                    </Button>
+                  )
+                }
+              />
+            ))
+          )}
+        </div>
+      </main>
+
+      <RfqQuoteForm rfq={quotingRfq} onClose={() => setQuotingRfq(null)} onSubmitted={loadRfqs} />
+    </div>
+  );
+};
+
+export default Rfqs;
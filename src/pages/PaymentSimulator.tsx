@@ -0,0 +1,166 @@
+/**
+ * Payment Simulator Checkout
+ *
+ * Hosted-checkout stand-in for the local simulator provider.
+ * Paying or declining delivers a signed webhook to payment-webhook, so the
+ * order moves through exactly the same path as a real gateway payment.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, CreditCard, FlaskConical, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PAYMENT_INTENT_STATUS_LABELS,
+  PaymentIntent,
+  PaymentIntentStatus,
+  fetchPaymentIntentByProviderOrder,
+  simulateCheckout,
+} from "@/lib/paymentGateway";
+
+const PaymentSimulator = () => {
+  const { providerOrderId } = useParams<{ providerOrderId: string }>();
+  const navigate = useNavigate();
+  const [intent, setIntent] = useState<PaymentIntent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [deliveries, setDeliveries] = useState("1");
+  const [results, setResults] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadIntent();
+  }, [providerOrderId]);
+
+  const loadIntent = async () => {
+    if (!providerOrderId) return;
+    setLoading(true);
+    setIntent(await fetchPaymentIntentByProviderOrder(providerOrderId));
+    setLoading(false);
+  };
+
+  const handleCheckout = async (outcome: 'success' | 'failure') => {
+    if (!providerOrderId) return;
+    setSubmitting(true);
+    const result = await simulateCheckout(providerOrderId, outcome, Number(deliveries));
+    setSubmitting(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Simulated checkout failed");
+      return;
+    }
+
+    setResults(result.results || []);
+    toast.success(outcome === 'success' ? "Payment captured" : "Payment declined");
+    await loadIntent();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!intent || intent.provider !== 'simulator') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Simulator payment not found.</p>
+      </div>
+    );
+  }
+
+  const isOpen = intent.status === 'created' || intent.status === 'failed';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <CreditCard className="h-5 w-5" />
+              Checkout
+            </span>
+            <Badge variant="outline" className="flex items-center gap-1">
+              <FlaskConical className="h-3 w-3" />
+              Simulator
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="p-4 rounded-lg border bg-muted/30">
+            <p className="text-xs text-muted-foreground">Amount</p>
+            <p className="text-2xl font-bold">₹{Number(intent.amount).toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground mt-1 font-mono">
+              Order {intent.order_id.slice(0, 8)} · {intent.provider_order_id}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Status</span>
+            <Badge variant={intent.status === 'captured' ? 'default' : 'secondary'}>
+              {PAYMENT_INTENT_STATUS_LABELS[intent.status as PaymentIntentStatus] || intent.status}
+            </Badge>
+          </div>
+          {intent.failure_reason && intent.status === 'failed' && (
+            <p className="text-xs text-red-600">{intent.failure_reason}</p>
+          )}
+
+          {isOpen && (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-xs">Webhook deliveries</Label>
+                <Select value={deliveries} onValueChange={setDeliveries}>
+                  <SelectTrigger className="w-24 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">1</SelectItem>
+                    <SelectItem value="2">2</SelectItem>
+                    <SelectItem value="3">3</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  className="bg-green-600 hover:bg-green-700"
+                  onClick={() => handleCheckout('success')}
+                  disabled={submitting}
+                >
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Pay
+                </Button>
+                <Button variant="outline" onClick={() => handleCheckout('failure')} disabled={submitting}>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Decline
+                </Button>
+              </div>
+            </>
+          )}
+
+          {results.length > 0 && (
+            <div className="p-2 rounded border text-xs space-y-1">
+              <p className="font-medium">Webhook results</p>
+              {results.map((result, index) => (
+                <p key={index} className="font-mono text-muted-foreground">
+                  #{index + 1}: {result}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <Button variant="ghost" className="w-full" onClick={() => navigate(-1)}>
+            Back to order
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaymentSimulator;
@@ -0,0 +1,70 @@
+/**
+ * Courier provider registry
+ *
+ * COURIER_PROVIDER selects the courier for new shipments (default: mock).
+ * Existing shipments always use the provider they were booked with.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { mockCourierProvider } from './mock.ts';
+import { shiprocketProvider } from './shiprocket.ts';
+import type { CourierProvider, CourierProviderName, TrackingEvent } from './types.ts';
+
+export type {
+  CourierLabel,
+  CourierProvider,
+  CourierProviderName,
+  ShipmentAddress,
+  StoredShipment,
+  TrackingEvent,
+} from './types.ts';
+
+const PROVIDERS: Record<CourierProviderName, CourierProvider> = {
+  shiprocket: shiprocketProvider,
+  mock: mockCourierProvider,
+};
+
+export function isCourierProviderName(value: string | null | undefined): value is CourierProviderName {
+  return !!value && value in PROVIDERS;
+}
+
+export function getCourierProvider(name: CourierProviderName): CourierProvider {
+  return PROVIDERS[name];
+}
+
+export function getDefaultCourierProvider(): CourierProvider {
+  const configured = Deno.env.get('COURIER_PROVIDER');
+  return isCourierProviderName(configured) ? PROVIDERS[configured] : mockCourierProvider;
+}
+
+/**
+ * Apply tracking events oldest first through apply_courier_tracking_event().
+ * Polling and webhooks can deliver the same scan; the event id makes that a no-op.
+ * Returns the result per event id; throws on the first database error.
+ */
+export async function applyTrackingEvents(
+  client: SupabaseClient,
+  providerName: CourierProviderName,
+  events: TrackingEvent[]
+): Promise<Record<string, string>> {
+  const results: Record<string, string> = {};
+  const ordered = [...events].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+  for (const event of ordered) {
+    const { data, error } = await client.rpc("apply_courier_tracking_event", {
+      _provider: providerName,
+      _event_id: event.eventId,
+      _awb_code: event.awbCode,
+      _status: event.status,
+      _raw_status: event.rawStatus,
+      _location: event.location,
+      _description: event.description,
+      _occurred_at: event.occurredAt,
+      _payload: event.raw,
+    });
+    if (error) throw error;
+    results[event.eventId] = data as string;
+  }
+
+  return results;
+}
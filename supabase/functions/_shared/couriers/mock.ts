@@ -0,0 +1,180 @@
+/**
+ * Local mock courier
+ *
+ * Fully offline courier for development and demos. Scans follow a fixed route,
+ * one every MOCK_COURIER_MINUTES_PER_SCAN minutes (default 10) after booking, so
+ * polling moves a shipment along on its own. An admin can also push the next scan
+ * as a signed webhook (courier-shipment simulate_scan), exactly like a real courier.
+ *
+ * Env: MOCK_COURIER_SECRET (webhook signing secret), MOCK_COURIER_MINUTES_PER_SCAN
+ */
+
+import { PDFDocument, StandardFonts } from "https://esm.sh/pdf-lib@1.17.1";
+import { hmacSha256Hex, verifyHmacSignature } from '../payments/signature.ts';
+import type {
+  CourierLabel,
+  CourierProvider,
+  CreateShipmentInput,
+  ProviderShipment,
+  ShipmentAddress,
+  StoredShipment,
+  TrackingEvent,
+  TrackingStatus,
+} from './types.ts';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-courier-signature';
+
+export const MOCK_COURIER_NAME = 'Leorit Mock Express';
+
+// Route every mock shipment takes, one scan per step
+const MOCK_ROUTE: { status: TrackingStatus; rawStatus: string; location: (s: StoredShipment) => string }[] = [
+  { status: 'picked_up', rawStatus: 'PICKED UP', location: (s) => s.pickup_address.city },
+  { status: 'in_transit', rawStatus: 'IN TRANSIT', location: (s) => `${s.pickup_address.city} Hub` },
+  { status: 'in_transit', rawStatus: 'REACHED DESTINATION HUB', location: (s) => `${s.delivery_address.city} Hub` },
+  { status: 'out_for_delivery', rawStatus: 'OUT FOR DELIVERY', location: (s) => s.delivery_address.city },
+  { status: 'delivered', rawStatus: 'DELIVERED', location: (s) => s.delivery_address.city },
+];
+
+export interface MockWebhookBody {
+  awb: string;
+  step: number;
+  location: string | null;
+  occurred_at: string;
+}
+
+function getSecret(): string {
+  const secret = Deno.env.get('MOCK_COURIER_SECRET');
+  if (!secret) {
+    throw new Error('MOCK_COURIER_SECRET is not configured');
+  }
+  return secret;
+}
+
+const minutesPerScan = () => Math.max(Number(Deno.env.get('MOCK_COURIER_MINUTES_PER_SCAN')) || 10, 1);
+
+function routeEvent(awbCode: string, step: number, location: string | null, occurredAt: string): TrackingEvent {
+  const scan = MOCK_ROUTE[step];
+  return {
+    // Same id whether the scan arrives by polling or webhook
+    eventId: `${awbCode}:${step}`,
+    awbCode,
+    status: scan.status,
+    rawStatus: scan.rawStatus,
+    location,
+    description: `${scan.rawStatus.charAt(0)}${scan.rawStatus.slice(1).toLowerCase()}`,
+    occurredAt,
+    raw: { awb: awbCode, step },
+  };
+}
+
+/**
+ * Index of the next route scan after the shipment's current status (null when delivered)
+ */
+export function nextMockStep(events: { raw_status: string }[]): number | null {
+  const next = events.filter((event) => MOCK_ROUTE.some((scan) => scan.rawStatus === event.raw_status)).length;
+  return next < MOCK_ROUTE.length ? next : null;
+}
+
+/**
+ * Sign the given route scan as a webhook - used by courier-shipment to push the next scan
+ */
+export async function signMockWebhook(
+  shipment: StoredShipment,
+  step: number
+): Promise<{ rawBody: string; headers: Record<string, string> }> {
+  const body: MockWebhookBody = {
+    awb: shipment.awb_code,
+    step,
+    location: MOCK_ROUTE[step].location(shipment),
+    occurred_at: new Date().toISOString(),
+  };
+  const rawBody = JSON.stringify(body);
+  return {
+    rawBody,
+    headers: {
+      'Content-Type': 'application/json',
+      [MOCK_SIGNATURE_HEADER]: await hmacSha256Hex(getSecret(), rawBody),
+    },
+  };
+}
+
+const formatAddress = (address: ShipmentAddress) =>
+  [
+    address.name,
+    address.addressLine1,
+    address.addressLine2,
+    `${address.city}, ${address.state} ${address.pincode}`,
+    `Phone: ${address.phone}`,
+  ].filter((line): line is string => !!line);
+
+async function renderLabel(shipment: StoredShipment): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  // 4 x 6 inch thermal label
+  const page = pdf.addPage([288, 432]);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  // Standard fonts are WinAnsi only
+  const safe = (text: string) => text.replace(/[^\x20-\x7E]/g, '');
+
+  let y = 400;
+  const line = (text: string, size = 10, useBold = false) => {
+    page.drawText(safe(text), { x: 16, y, size, font: useBold ? bold : font });
+    y -= size + 6;
+  };
+
+  line(MOCK_COURIER_NAME, 14, true);
+  line(`AWB ${shipment.awb_code}`, 18, true);
+  y -= 8;
+  line('DELIVER TO', 9, true);
+  formatAddress(shipment.delivery_address).forEach((text) => line(text));
+  y -= 8;
+  line('FROM', 9, true);
+  formatAddress(shipment.pickup_address).forEach((text) => line(text, 9));
+  y -= 8;
+  line(`Weight: ${shipment.weight_kg} kg`, 9);
+  line(`Shipment: ${shipment.id}`, 8);
+
+  return await pdf.save();
+}
+
+export const mockCourierProvider: CourierProvider = {
+  name: 'mock',
+
+  createShipment(_input: CreateShipmentInput): Promise<ProviderShipment> {
+    const awbCode = `MOCK${Date.now().toString().slice(-8)}${Math.floor(Math.random() * 90 + 10)}`;
+    return Promise.resolve({
+      providerShipmentId: `mock_shp_${crypto.randomUUID()}`,
+      awbCode,
+      courierName: MOCK_COURIER_NAME,
+      labelUrl: null,
+      pickupScheduledFor: new Date(Date.now() + minutesPerScan() * 60 * 1000).toISOString(),
+    });
+  },
+
+  async getLabel(shipment: StoredShipment): Promise<CourierLabel> {
+    return { pdf: await renderLabel(shipment) };
+  },
+
+  fetchTracking(shipment: StoredShipment): Promise<TrackingEvent[]> {
+    const bookedAt = new Date(shipment.created_at).getTime();
+    const stepMs = minutesPerScan() * 60 * 1000;
+    const stepsDone = Math.min(Math.floor((Date.now() - bookedAt) / stepMs), MOCK_ROUTE.length);
+
+    const events: TrackingEvent[] = [];
+    for (let step = 0; step < stepsDone; step++) {
+      const occurredAt = new Date(bookedAt + (step + 1) * stepMs).toISOString();
+      events.push(routeEvent(shipment.awb_code, step, MOCK_ROUTE[step].location(shipment), occurredAt));
+    }
+    return Promise.resolve(events);
+  },
+
+  async verifyWebhook(rawBody: string, headers: Headers): Promise<TrackingEvent[] | null> {
+    const valid = await verifyHmacSignature(getSecret(), rawBody, headers.get(MOCK_SIGNATURE_HEADER));
+    if (!valid) return null;
+
+    const body = JSON.parse(rawBody) as MockWebhookBody;
+    if (!MOCK_ROUTE[body.step]) return [];
+
+    return [routeEvent(body.awb, body.step, body.location, body.occurred_at)];
+  },
+};
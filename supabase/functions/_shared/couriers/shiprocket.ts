@@ -0,0 +1,259 @@
+/**
+ * Shiprocket adapter
+ *
+ * - Shipments are ad-hoc orders; an AWB is assigned and pickup requested straight away
+ * - Reverse pickups (RMA returns) are return orders collected from the buyer's address
+ * - Labels are hosted PDFs (courier/generate/label)
+ * - Tracking: courier/track/awb polling, or webhooks authenticated with the
+ *   x-api-key token configured in the Shiprocket panel
+ *
+ * Env: SHIPROCKET_EMAIL, SHIPROCKET_PASSWORD, SHIPROCKET_WEBHOOK_TOKEN,
+ *      SHIPROCKET_PICKUP_LOCATION (pickup location nickname, default "Primary")
+ */
+
+import { timingSafeEqual } from '../payments/signature.ts';
+import type {
+  CourierLabel,
+  CourierProvider,
+  CreateShipmentInput,
+  ProviderShipment,
+  StoredShipment,
+  TrackingEvent,
+  TrackingStatus,
+} from './types.ts';
+
+const SHIPROCKET_API_BASE = 'https://apiv2.shiprocket.in/v1/external';
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+}
+
+// Shiprocket tokens are valid for 10 days; one per function instance is plenty
+let cachedToken: string | null = null;
+
+async function getToken(): Promise<string> {
+  if (cachedToken) return cachedToken;
+
+  const response = await fetch(`${SHIPROCKET_API_BASE}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: requireEnv('SHIPROCKET_EMAIL'), password: requireEnv('SHIPROCKET_PASSWORD') }),
+  });
+  const data = await response.json();
+  if (!response.ok || !data?.token) {
+    throw new Error(data?.message || `Shiprocket login failed (${response.status})`);
+  }
+  cachedToken = data.token as string;
+  return cachedToken;
+}
+
+async function shiprocketRequest<T>(path: string, init: { method?: string; body?: Record<string, unknown> } = {}): Promise<T> {
+  const response = await fetch(`${SHIPROCKET_API_BASE}${path}`, {
+    method: init.method || (init.body ? 'POST' : 'GET'),
+    headers: {
+      'Authorization': `Bearer ${await getToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    const message = data?.message || `Shiprocket request failed (${response.status})`;
+    throw new Error(message);
+  }
+  return data as T;
+}
+
+/**
+ * Map Shiprocket's status labels ("PICKED UP", "OUT FOR DELIVERY", "RTO INITIATED", ...)
+ */
+export function normalizeShiprocketStatus(label: string): TrackingStatus | null {
+  const status = label.trim().toUpperCase();
+  if (status.startsWith('RTO')) return 'rto';
+  if (status.includes('CANCEL')) return 'cancelled';
+  if (status === 'DELIVERED') return 'delivered';
+  if (status.includes('OUT FOR DELIVERY')) return 'out_for_delivery';
+  if (status.includes('UNDELIVERED') || status.includes('EXCEPTION') || status.includes('LOST') || status.includes('DAMAGED')) {
+    return 'exception';
+  }
+  if (status.includes('PICKED UP') || status === 'SHIPPED') return 'picked_up';
+  if (status.includes('TRANSIT') || status.includes('REACHED') || status.includes('DESTINATION')) return 'in_transit';
+  if (status.includes('PICKUP') || status.includes('AWB ASSIGNED') || status.includes('MANIFEST')) return 'pickup_scheduled';
+  return null;
+}
+
+interface ShiprocketScan {
+  date?: string;
+  status?: string;
+  activity?: string;
+  location?: string;
+  'sr-status'?: string | number;
+  'sr-status-label'?: string;
+}
+
+interface ShiprocketWebhookBody {
+  awb?: string | number;
+  current_status?: string;
+  current_status_id?: number;
+  shipment_status?: string;
+  current_timestamp?: string;
+  scans?: ShiprocketScan[];
+}
+
+// Shiprocket timestamps are IST without an offset ("2026-10-19 14:05:00")
+const toIso = (value: string | undefined) => {
+  if (!value) return new Date().toISOString();
+  const parsed = new Date(value.includes('T') || value.includes('+') ? value : `${value.replace(' ', 'T')}+05:30`);
+  return isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+};
+
+function normalizeScan(awbCode: string, scan: ShiprocketScan): TrackingEvent | null {
+  const rawStatus = scan['sr-status-label'] || scan.status || scan.activity || '';
+  const status = normalizeShiprocketStatus(rawStatus);
+  if (!status) return null;
+
+  const occurredAt = toIso(scan.date);
+  return {
+    eventId: `${awbCode}:${occurredAt}:${rawStatus}`,
+    awbCode,
+    status,
+    rawStatus,
+    location: scan.location || null,
+    description: scan.activity || null,
+    occurredAt,
+    raw: scan as unknown as Record<string, unknown>,
+  };
+}
+
+export const shiprocketProvider: CourierProvider = {
+  name: 'shiprocket',
+
+  async createShipment(input: CreateShipmentInput): Promise<ProviderShipment> {
+    const parcel = {
+      order_id: input.shipmentId,
+      order_date: new Date().toISOString().slice(0, 16).replace('T', ' '),
+      order_items: [{
+        name: input.productType,
+        sku: `${input.productType}-${input.orderId.slice(0, 8)}`,
+        units: input.quantity,
+        selling_price: Math.round((input.declaredValue / input.quantity) * 100) / 100,
+      }],
+      payment_method: 'Prepaid',
+      sub_total: input.declaredValue,
+      weight: input.weightKg,
+      length: 30,
+      breadth: 25,
+      height: 10,
+    };
+
+    // Returns are picked up from the buyer and delivered to the manufacturer
+    const order = input.reverse
+      ? await shiprocketRequest<{ order_id: number; shipment_id: number }>('/orders/create/return', {
+        body: {
+          ...parcel,
+          pickup_customer_name: input.pickup.name,
+          pickup_address: input.pickup.addressLine1,
+          pickup_address_2: input.pickup.addressLine2 || '',
+          pickup_city: input.pickup.city,
+          pickup_state: input.pickup.state,
+          pickup_country: input.pickup.country,
+          pickup_pincode: input.pickup.pincode,
+          pickup_phone: input.pickup.phone,
+          shipping_customer_name: input.delivery.name,
+          shipping_address: input.delivery.addressLine1,
+          shipping_address_2: input.delivery.addressLine2 || '',
+          shipping_city: input.delivery.city,
+          shipping_state: input.delivery.state,
+          shipping_country: input.delivery.country,
+          shipping_pincode: input.delivery.pincode,
+          shipping_phone: input.delivery.phone,
+        },
+      })
+      : await shiprocketRequest<{ order_id: number; shipment_id: number }>('/orders/create/adhoc', {
+        body: {
+          ...parcel,
+          pickup_location: Deno.env.get('SHIPROCKET_PICKUP_LOCATION') || 'Primary',
+          billing_customer_name: input.delivery.name,
+          billing_last_name: '',
+          billing_address: input.delivery.addressLine1,
+          billing_address_2: input.delivery.addressLine2 || '',
+          billing_city: input.delivery.city,
+          billing_pincode: input.delivery.pincode,
+          billing_state: input.delivery.state,
+          billing_country: input.delivery.country,
+          billing_phone: input.delivery.phone,
+          shipping_is_billing: true,
+        },
+      });
+
+    const awb = await shiprocketRequest<{ response?: { data?: { awb_code?: string; courier_name?: string } } }>(
+      '/courier/assign/awb',
+      { body: { shipment_id: order.shipment_id, ...(input.reverse ? { is_return: 1 } : {}) } }
+    );
+    const awbCode = awb.response?.data?.awb_code;
+    if (!awbCode) {
+      throw new Error('Shiprocket did not assign an AWB');
+    }
+
+    const pickup = await shiprocketRequest<{ response?: { pickup_scheduled_date?: string } }>(
+      '/courier/generate/pickup',
+      { body: { shipment_id: [order.shipment_id] } }
+    );
+
+    return {
+      providerShipmentId: String(order.shipment_id),
+      awbCode,
+      courierName: awb.response?.data?.courier_name || 'Shiprocket',
+      labelUrl: null,
+      pickupScheduledFor: pickup.response?.pickup_scheduled_date ? toIso(pickup.response.pickup_scheduled_date) : null,
+    };
+  },
+
+  async getLabel(shipment: StoredShipment): Promise<CourierLabel> {
+    if (shipment.label_url) return { url: shipment.label_url };
+
+    const label = await shiprocketRequest<{ label_created?: number; label_url?: string }>('/courier/generate/label', {
+      body: { shipment_id: [Number(shipment.provider_shipment_id)] },
+    });
+    if (!label.label_url) {
+      throw new Error('Shiprocket did not return a label');
+    }
+    return { url: label.label_url };
+  },
+
+  async fetchTracking(shipment: StoredShipment): Promise<TrackingEvent[]> {
+    const data = await shiprocketRequest<{ tracking_data?: { shipment_track_activities?: ShiprocketScan[] } }>(
+      `/courier/track/awb/${encodeURIComponent(shipment.awb_code)}`
+    );
+    return (data.tracking_data?.shipment_track_activities || [])
+      .map((scan) => normalizeScan(shipment.awb_code, scan))
+      .filter((event): event is TrackingEvent => event !== null);
+  },
+
+  verifyWebhook(rawBody: string, headers: Headers): Promise<TrackingEvent[] | null> {
+    const token = headers.get('x-api-key');
+    if (!token || !timingSafeEqual(requireEnv('SHIPROCKET_WEBHOOK_TOKEN'), token.trim())) {
+      return Promise.resolve(null);
+    }
+
+    const body = JSON.parse(rawBody) as ShiprocketWebhookBody;
+    const awbCode = body.awb ? String(body.awb) : '';
+    if (!awbCode) return Promise.resolve([]);
+
+    // The webhook carries the full scan history; the current status is the latest scan
+    const scans = body.scans?.length
+      ? body.scans
+      : [{ date: body.current_timestamp, 'sr-status-label': body.shipment_status || body.current_status }];
+
+    return Promise.resolve(
+      scans
+        .map((scan) => normalizeScan(awbCode, scan))
+        .filter((event): event is TrackingEvent => event !== null)
+    );
+  },
+};
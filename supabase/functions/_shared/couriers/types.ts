@@ -0,0 +1,99 @@
+/**
+ * Courier Provider abstraction
+ *
+ * Every courier (Shiprocket, local mock) implements CourierProvider.
+ * Tracking scans are normalised to TrackingStatus before they reach
+ * apply_courier_tracking_event(), which moves delivery_status as the system actor.
+ */
+
+export type CourierProviderName = 'shiprocket' | 'mock';
+
+/**
+ * Normalised scan statuses understood by apply_courier_tracking_event()
+ */
+export type TrackingStatus =
+  | 'pickup_scheduled'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception'
+  | 'rto'
+  | 'cancelled';
+
+export interface ShipmentAddress {
+  name: string;
+  phone: string;
+  addressLine1: string;
+  addressLine2?: string | null;
+  city: string;
+  state: string;
+  pincode: string;
+  country: string;
+}
+
+export interface CreateShipmentInput {
+  shipmentId: string;
+  orderId: string;
+  productType: string;
+  quantity: number;
+  // Declared value in rupees
+  declaredValue: number;
+  weightKg: number;
+  pickup: ShipmentAddress;
+  delivery: ShipmentAddress;
+  // Reverse pickup (RMA returns): collected from `pickup`, the buyer, instead of the
+  // manufacturer's registered pickup location
+  reverse?: boolean;
+}
+
+export interface ProviderShipment {
+  providerShipmentId: string;
+  awbCode: string;
+  courierName: string;
+  labelUrl: string | null;
+  pickupScheduledFor: string | null;
+}
+
+export interface StoredShipment {
+  id: string;
+  provider: CourierProviderName;
+  provider_shipment_id: string;
+  awb_code: string;
+  courier_name: string;
+  label_url: string | null;
+  status: string;
+  weight_kg: number;
+  pickup_address: ShipmentAddress;
+  delivery_address: ShipmentAddress;
+  created_at: string;
+}
+
+/**
+ * Shipping label: a hosted URL (real couriers) or a rendered PDF (mock)
+ */
+export type CourierLabel = { url: string } | { pdf: Uint8Array };
+
+export interface TrackingEvent {
+  // Unique per scan - the idempotency key
+  eventId: string;
+  awbCode: string;
+  status: TrackingStatus;
+  rawStatus: string;
+  location: string | null;
+  description: string | null;
+  occurredAt: string;
+  raw: Record<string, unknown>;
+}
+
+export interface CourierProvider {
+  name: CourierProviderName;
+  createShipment(input: CreateShipmentInput): Promise<ProviderShipment>;
+  getLabel(shipment: StoredShipment): Promise<CourierLabel>;
+  fetchTracking(shipment: StoredShipment): Promise<TrackingEvent[]>;
+  /**
+   * Verify the webhook and normalise its scans.
+   * Returns null when the signature / token is missing or invalid.
+   */
+  verifyWebhook(rawBody: string, headers: Headers): Promise<TrackingEvent[] | null>;
+}
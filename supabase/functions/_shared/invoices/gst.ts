@@ -0,0 +1,260 @@
+/**
+ * GST calculation
+ *
+ * Order prices are GST-inclusive, so tax is carved out of each line:
+ *   taxable = total × 100 / (100 + rate)
+ * Intra-state supplies (supplier state = place of supply) split the tax into
+ * CGST + SGST; inter-state supplies charge IGST.
+ */
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface GstHsnCode {
+  code: string;
+  description: string;
+  product_types: string[];
+  gst_rate: number;
+  high_gst_rate: number | null;
+  unit_value_threshold: number | null;
+  is_service: boolean;
+  is_default: boolean;
+}
+
+export interface TaxLine {
+  description: string;
+  hsn_code: string;
+  quantity: number | null;
+  unit_price: number | null;
+  gst_rate: number;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface TaxTotals {
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+}
+
+// GST state codes (first two digits of a GSTIN)
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+// Older / informal names seen in addresses
+const STATE_ALIASES: Record<string, string> = {
+  newdelhi: '07',
+  nctofdelhi: '07',
+  orissa: '21',
+  pondicherry: '34',
+  uttaranchal: '05',
+  damananddiu: '26',
+  dadraandnagarhaveli: '26',
+  andamanandnicobar: '35',
+  jammuandkashmir: '01',
+  jk: '01',
+};
+
+const normalizeStateName = (value: string) =>
+  value.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+export const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * GST state code for a state name ("Karnataka", "TAMIL NADU", "Orissa"), or null
+ */
+export function getStateCode(stateName: string | null | undefined): string | null {
+  if (!stateName) return null;
+  const normalized = normalizeStateName(stateName);
+  if (!normalized) return null;
+
+  const match = Object.entries(GST_STATE_CODES).find(([, name]) => normalizeStateName(name) === normalized);
+  return match ? match[0] : STATE_ALIASES[normalized] ?? null;
+}
+
+/**
+ * State code embedded in a GSTIN (authoritative for the registered party)
+ */
+export function getGstinStateCode(gstin: string | null | undefined): string | null {
+  const code = gstin?.slice(0, 2);
+  return code && GST_STATE_CODES[code] ? code : null;
+}
+
+/**
+ * HSN code for a product type, falling back to the default apparel code
+ */
+export function resolveHsnCode(codes: GstHsnCode[], productType: string | null): GstHsnCode | null {
+  const goods = codes.filter((c) => !c.is_service);
+  return (
+    goods.find((c) => productType && c.product_types.includes(productType)) ||
+    goods.find((c) => c.is_default) ||
+    null
+  );
+}
+
+/**
+ * GST rate for goods sold at an inclusive unit price.
+ * Apparel above the per-piece threshold (judged on taxable value) moves to the higher slab.
+ */
+export function getGoodsRate(hsn: GstHsnCode, inclusiveUnitPrice: number): number {
+  const rate = Number(hsn.gst_rate);
+  if (hsn.high_gst_rate == null || hsn.unit_value_threshold == null) return rate;
+
+  const taxableUnitPrice = (inclusiveUnitPrice * 100) / (100 + rate);
+  return taxableUnitPrice > Number(hsn.unit_value_threshold) ? Number(hsn.high_gst_rate) : rate;
+}
+
+/**
+ * Carve GST out of an inclusive amount
+ */
+export function splitInclusiveAmount(
+  total: number,
+  rate: number,
+  supplyType: SupplyType
+): Pick<TaxLine, 'taxable_value' | 'cgst' | 'sgst' | 'igst' | 'total'> {
+  const amount = round2(total);
+  const taxable = round2((amount * 100) / (100 + rate));
+  const tax = round2(amount - taxable);
+
+  if (supplyType === 'inter_state') {
+    return { taxable_value: taxable, cgst: 0, sgst: 0, igst: tax, total: amount };
+  }
+
+  const cgst = round2(tax / 2);
+  return { taxable_value: taxable, cgst, sgst: round2(tax - cgst), igst: 0, total: amount };
+}
+
+export interface InvoiceOrderInput {
+  productType: string | null;
+  fabricType: string | null;
+  color: string | null;
+  quantity: number;
+  goodsValue: number;
+  deliveryCost: number;
+}
+
+/**
+ * Invoice lines for an order: the goods, plus delivery as a courier service
+ */
+export function buildInvoiceLines(
+  order: InvoiceOrderInput,
+  codes: GstHsnCode[],
+  supplyType: SupplyType
+): TaxLine[] {
+  const hsn = resolveHsnCode(codes, order.productType);
+  if (!hsn) {
+    throw new Error(`No HSN code configured for product type "${order.productType ?? 'unknown'}"`);
+  }
+
+  const quantity = Math.max(order.quantity, 1);
+  const unitPrice = round2(order.goodsValue / quantity);
+  const rate = getGoodsRate(hsn, unitPrice);
+  const details = [order.fabricType, order.color].filter(Boolean).join(', ');
+
+  const lines: TaxLine[] = [
+    {
+      description: `${order.productType || hsn.description}${details ? ` (${details})` : ''}`,
+      hsn_code: hsn.code,
+      quantity,
+      unit_price: unitPrice,
+      gst_rate: rate,
+      ...splitInclusiveAmount(order.goodsValue, rate, supplyType),
+    },
+  ];
+
+  if (order.deliveryCost > 0) {
+    const courier = codes.find((c) => c.is_service);
+    if (!courier) {
+      throw new Error('No SAC code configured for delivery');
+    }
+    lines.push({
+      description: 'Delivery charges',
+      hsn_code: courier.code,
+      quantity: null,
+      unit_price: null,
+      gst_rate: Number(courier.gst_rate),
+      ...splitInclusiveAmount(order.deliveryCost, Number(courier.gst_rate), supplyType),
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Credit note lines: the refunded amount spread over the invoice lines pro rata,
+ * each at its original rate. The last line absorbs rounding.
+ */
+export function buildCreditNoteLines(
+  invoiceLines: TaxLine[],
+  invoiceTotal: number,
+  amount: number,
+  supplyType: SupplyType,
+  affectedQuantity: number | null
+): TaxLine[] {
+  const ratio = amount / invoiceTotal;
+  let remaining = round2(amount);
+
+  return invoiceLines.map((line, index) => {
+    const lineAmount = index === invoiceLines.length - 1 ? remaining : round2(line.total * ratio);
+    remaining = round2(remaining - lineAmount);
+
+    return {
+      ...line,
+      quantity: index === 0 && affectedQuantity ? affectedQuantity : null,
+      ...splitInclusiveAmount(lineAmount, line.gst_rate, supplyType),
+    };
+  }).filter((line) => line.total > 0);
+}
+
+export function summarizeLines(lines: TaxLine[]): TaxTotals {
+  const sum = (key: keyof Pick<TaxLine, 'taxable_value' | 'cgst' | 'sgst' | 'igst' | 'total'>) =>
+    round2(lines.reduce((total, line) => total + line[key], 0));
+
+  return {
+    taxable_value: sum('taxable_value'),
+    cgst_amount: sum('cgst'),
+    sgst_amount: sum('sgst'),
+    igst_amount: sum('igst'),
+    total_amount: sum('total'),
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * Tax documents
+ *
+ * Builds GST tax invoices (one per order, once payment is captured) and credit
+ * notes (one per approved refund), numbers them through issue_tax_document()
+ * and stores the rendered PDF in the orders bucket under
+ * {order_id}/{invoice|credit_note}/, tracked in order_files.
+ *
+ * Both operations are idempotent: issuing again returns the existing document
+ * and only re-renders the PDF if it is missing.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildCreditNoteLines,
+  buildInvoiceLines,
+  getGstinStateCode,
+  getStateCode,
+  summarizeLines,
+  type GstHsnCode,
+  type SupplyType,
+  type TaxLine,
+} from "./gst.ts";
+import { renderTaxDocumentPdf } from "./pdf.ts";
+
+export interface TaxDocumentRow {
+  id: string;
+  order_id: string;
+  document_type: 'invoice' | 'credit_note';
+  document_number: string;
+  invoice_id: string | null;
+  refund_id: string | null;
+  supplier_id: string | null;
+  supplier_name: string;
+  supplier_gstin: string;
+  supplier_address: string | null;
+  supplier_state: string;
+  supplier_state_code: string;
+  recipient_name: string;
+  recipient_gstin: string | null;
+  recipient_address: string | null;
+  place_of_supply: string;
+  place_of_supply_code: string;
+  supply_type: SupplyType;
+  line_items: TaxLine[];
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+  reason: string | null;
+  pdf_path: string | null;
+  issued_at: string;
+}
+
+export interface IssueResult {
+  document: TaxDocumentRow | null;
+  created: boolean;
+  skippedReason?: string;
+}
+
+// Raised for problems an admin has to fix (missing GSTIN, address...)
+export class TaxDocumentError extends Error {}
+
+const CAPTURED_PAYMENT_STATES = ['PAYMENT_HELD', 'PAYMENT_RELEASABLE', 'PAYMENT_RELEASED'];
+
+const joinAddress = (...parts: (string | null | undefined)[]) =>
+  parts.map((part) => part?.trim()).filter(Boolean).join(', ');
+
+async function loadParties(client: SupabaseClient, order: { id: string; buyer_id: string; manufacturer_id: string }) {
+  const [{ data: shipping }, { data: profiles }, { data: approved }, { data: verification }] = await Promise.all([
+    client
+      .from("order_shipping_info")
+      .select("full_name, address_line1, address_line2, city, state, pincode")
+      .eq("order_id", order.id)
+      .maybeSingle(),
+    client
+      .from("profiles")
+      .select("id, company_name, gstin")
+      .in("id", [order.buyer_id, order.manufacturer_id]),
+    client
+      .from("approved_manufacturers")
+      .select("company_name, city, state")
+      .eq("linked_user_id", order.manufacturer_id)
+      .maybeSingle(),
+    client
+      .from("manufacturer_verifications")
+      .select("company_name, location, city, state")
+      .eq("user_id", order.manufacturer_id)
+      .maybeSingle(),
+  ]);
+
+  const buyerProfile = profiles?.find((p) => p.id === order.buyer_id);
+  const manufacturerProfile = profiles?.find((p) => p.id === order.manufacturer_id);
+
+  const supplierGstin = manufacturerProfile?.gstin as string | null | undefined;
+  if (!supplierGstin) {
+    throw new TaxDocumentError("Manufacturer GSTIN is missing - it must be added to the manufacturer profile");
+  }
+
+  const supplierStateName = approved?.state || verification?.state || null;
+  const supplierStateCode = getGstinStateCode(supplierGstin) ?? getStateCode(supplierStateName);
+  if (!supplierStateCode) {
+    throw new TaxDocumentError("Cannot determine the manufacturer's state for GST");
+  }
+
+  if (!shipping) {
+    throw new TaxDocumentError("Shipping address is required to determine the place of supply");
+  }
+  const placeOfSupplyCode = getStateCode(shipping.state);
+  if (!placeOfSupplyCode) {
+    throw new TaxDocumentError(`Unrecognised shipping state "${shipping.state}"`);
+  }
+
+  return {
+    supplier_id: order.manufacturer_id,
+    supplier_name: approved?.company_name || verification?.company_name || manufacturerProfile?.company_name || "Manufacturer",
+    supplier_gstin: supplierGstin,
+    supplier_address: joinAddress(verification?.location, approved?.city || verification?.city, supplierStateName) || null,
+    supplier_state: supplierStateName || supplierStateCode,
+    supplier_state_code: supplierStateCode,
+    recipient_name: buyerProfile?.company_name || shipping.full_name,
+    recipient_gstin: (buyerProfile?.gstin as string | null | undefined) || null,
+    recipient_address: joinAddress(shipping.address_line1, shipping.address_line2, shipping.city, shipping.state, shipping.pincode),
+    place_of_supply: shipping.state,
+    place_of_supply_code: placeOfSupplyCode,
+    supply_type: (supplierStateCode === placeOfSupplyCode ? "intra_state" : "inter_state") as SupplyType,
+  };
+}
+
+/**
+ * Render and store the PDF for a document that doesn't have one yet
+ */
+async function attachPdf(client: SupabaseClient, document: TaxDocumentRow): Promise<TaxDocumentRow> {
+  if (document.pdf_path) return document;
+
+  let originalInvoiceNumber: string | null = null;
+  if (document.invoice_id) {
+    const { data: invoice } = await client
+      .from("tax_invoices")
+      .select("document_number")
+      .eq("id", document.invoice_id)
+      .single();
+    originalInvoiceNumber = invoice?.document_number ?? null;
+  }
+
+  const pdf = await renderTaxDocumentPdf({ ...document, original_invoice_number: originalInvoiceNumber });
+  const fileName = `${document.document_number.replace(/\//g, "-")}.pdf`;
+  const path = `${document.order_id}/${document.document_type}/${fileName}`;
+
+  const { error: uploadError } = await client.storage
+    .from("orders")
+    .upload(path, pdf, { contentType: "application/pdf", upsert: true });
+  if (uploadError) throw uploadError;
+
+  await client.from("order_files").insert({
+    order_id: document.order_id,
+    file_type: document.document_type,
+    file_url: path,
+    file_name: fileName,
+    uploaded_by: "system",
+  });
+
+  const { data: updated, error: updateError } = await client
+    .from("tax_invoices")
+    .update({ pdf_path: path })
+    .eq("id", document.id)
+    .select("*")
+    .single();
+  if (updateError) throw updateError;
+
+  return updated as TaxDocumentRow;
+}
+
+/**
+ * Issue the tax invoice for an order (payment must be captured)
+ */
+export async function issueOrderInvoice(
+  client: SupabaseClient,
+  orderId: string,
+  issuedBy: string | null
+): Promise<IssueResult> {
+  const { data: existing } = await client
+    .from("tax_invoices")
+    .select("*")
+    .eq("order_id", orderId)
+    .eq("document_type", "invoice")
+    .maybeSingle();
+  if (existing) {
+    return { document: await attachPdf(client, existing as TaxDocumentRow), created: false };
+  }
+
+  const { data: order, error: orderError } = await client
+    .from("orders")
+    .select("id, buyer_id, manufacturer_id, payment_state, total_order_value, total_amount, delivery_cost, quantity, product_type, fabric_type, selected_color")
+    .eq("id", orderId)
+    .single();
+  if (orderError || !order) {
+    throw new TaxDocumentError("Order not found");
+  }
+  if (!order.manufacturer_id) {
+    throw new TaxDocumentError("Order has no manufacturer assigned");
+  }
+  if (!CAPTURED_PAYMENT_STATES.includes(order.payment_state)) {
+    throw new TaxDocumentError(`Cannot invoice an order in payment state ${order.payment_state ?? "PAYMENT_INITIATED"}`);
+  }
+
+  const total = Number(order.total_order_value ?? order.total_amount ?? 0);
+  const deliveryCost = Math.min(Number(order.delivery_cost ?? 0), total);
+  if (total <= 0) {
+    throw new TaxDocumentError("Order has no value to invoice");
+  }
+
+  const [parties, { data: codes, error: codesError }] = await Promise.all([
+    loadParties(client, order),
+    client.from("gst_hsn_codes").select("*"),
+  ]);
+  if (codesError) throw codesError;
+
+  const lines = buildInvoiceLines(
+    {
+      productType: order.product_type,
+      fabricType: order.fabric_type,
+      color: order.selected_color,
+      quantity: Number(order.quantity) || 1,
+      goodsValue: total - deliveryCost,
+      deliveryCost,
+    },
+    (codes || []) as GstHsnCode[],
+    parties.supply_type
+  );
+
+  const { data: document, error } = await client.rpc("issue_tax_document", {
+    _document: {
+      document_type: "invoice",
+      order_id: orderId,
+      ...parties,
+      line_items: lines,
+      ...summarizeLines(lines),
+      issued_by: issuedBy,
+    },
+  });
+  if (error) throw error;
+
+  return { document: await attachPdf(client, document as TaxDocumentRow), created: true };
+}
+
+/**
+ * Issue the credit note for an approved refund.
+ * Skipped (not an error) when the order was never invoiced.
+ */
+export async function issueRefundCreditNote(
+  client: SupabaseClient,
+  refundId: string,
+  issuedBy: string | null
+): Promise<IssueResult> {
+  const { data: refund, error: refundError } = await client
+    .from("order_refunds")
+    .select("id, order_id, amount, reason, status, affected_quantity")
+    .eq("id", refundId)
+    .single();
+  if (refundError || !refund) {
+    throw new TaxDocumentError("Refund not found");
+  }
+  if (refund.status !== "approved") {
+    throw new TaxDocumentError("Credit notes are only issued for approved refunds");
+  }
+
+  const { data: existing } = await client
+    .from("tax_invoices")
+    .select("*")
+    .eq("refund_id", refundId)
+    .maybeSingle();
+  if (existing) {
+    return { document: await attachPdf(client, existing as TaxDocumentRow), created: false };
+  }
+
+  const { data: invoice } = await client
+    .from("tax_invoices")
+    .select("*")
+    .eq("order_id", refund.order_id)
+    .eq("document_type", "invoice")
+    .maybeSingle();
+  if (!invoice) {
+    return { document: null, created: false, skippedReason: "No tax invoice has been issued for this order" };
+  }
+
+  const original = invoice as TaxDocumentRow;
+  const lines = buildCreditNoteLines(
+    original.line_items,
+    Number(original.total_amount),
+    Number(refund.amount),
+    original.supply_type,
+    refund.affected_quantity
+  );
+
+  const { data: document, error } = await client.rpc("issue_tax_document", {
+    _document: {
+      document_type: "credit_note",
+      order_id: refund.order_id,
+      refund_id: refund.id,
+      supplier_id: original.supplier_id,
+      supplier_name: original.supplier_name,
+      supplier_gstin: original.supplier_gstin,
+      supplier_address: original.supplier_address,
+      supplier_state: original.supplier_state,
+      supplier_state_code: original.supplier_state_code,
+      recipient_name: original.recipient_name,
+      recipient_gstin: original.recipient_gstin,
+      recipient_address: original.recipient_address,
+      place_of_supply: original.place_of_supply,
+      place_of_supply_code: original.place_of_supply_code,
+      supply_type: original.supply_type,
+      line_items: lines,
+      ...summarizeLines(lines),
+      reason: refund.reason,
+      issued_by: issuedBy,
+    },
+  });
+  if (error) throw error;
+
+  return { document: await attachPdf(client, document as TaxDocumentRow), created: true };
+}
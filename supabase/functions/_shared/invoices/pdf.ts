@@ -0,0 +1,230 @@
+/**
+ * Tax invoice / credit note PDF (A4, standard fonts)
+ *
+ * Standard PDF fonts only cover WinAnsi, so amounts are printed as "Rs." and any
+ * other non-Latin text is dropped.
+ */
+
+import { PDFDocument, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import type { PDFFont, PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+import { GST_STATE_CODES, type SupplyType, type TaxLine } from "./gst.ts";
+
+export interface TaxDocumentPdfInput {
+  document_type: 'invoice' | 'credit_note';
+  document_number: string;
+  issued_at: string;
+  original_invoice_number?: string | null;
+  order_id: string;
+  supplier_name: string;
+  supplier_gstin: string;
+  supplier_address: string | null;
+  supplier_state_code: string;
+  recipient_name: string;
+  recipient_gstin: string | null;
+  recipient_address: string | null;
+  place_of_supply_code: string;
+  supply_type: SupplyType;
+  line_items: TaxLine[];
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+  reason: string | null;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+// # | Description | HSN/SAC | Qty | Taxable | GST% | CGST | SGST | IGST | Total
+const COLUMNS = [
+  { title: '#', width: 18 },
+  { title: 'Description', width: 150 },
+  { title: 'HSN/SAC', width: 48 },
+  { title: 'Qty', width: 34 },
+  { title: 'Taxable', width: 60 },
+  { title: 'GST %', width: 35 },
+  { title: 'CGST', width: 42 },
+  { title: 'SGST', width: 42 },
+  { title: 'IGST', width: 42 },
+  { title: 'Total', width: 44 },
+];
+
+const safeText = (value: string | null | undefined) =>
+  (value ?? '').replace(/₹/g, 'Rs.').replace(/[^\x20-\x7E]/g, '');
+
+const money = (value: number) =>
+  Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+const stateLabel = (code: string) => `${GST_STATE_CODES[code] ?? 'Unknown'} (${code})`;
+
+function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  const full = safeText(text);
+  if (font.widthOfTextAtSize(full, size) <= width) return full;
+
+  let fitted = full;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
+
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of safeText(text).split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) > width && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+export async function renderTaxDocumentPdf(doc: TaxDocumentPdfInput): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const grey = rgb(0.4, 0.4, 0.4);
+  const isCreditNote = doc.document_type === 'credit_note';
+
+  const text = (value: string, x: number, y: number, size = 9, useFont = font, color = rgb(0, 0, 0)) =>
+    page.drawText(safeText(value), { x, y, size, font: useFont, color });
+  const rightText = (value: string, right: number, y: number, size = 9, useFont = font) =>
+    text(value, right - useFont.widthOfTextAtSize(safeText(value), size), y, size, useFont);
+
+  pdf.setTitle(`${isCreditNote ? 'Credit Note' : 'Tax Invoice'} ${doc.document_number}`);
+
+  // Header
+  let y = PAGE_HEIGHT - MARGIN - 10;
+  text(isCreditNote ? 'CREDIT NOTE' : 'TAX INVOICE', MARGIN, y, 18, bold);
+  rightText(`No. ${doc.document_number}`, PAGE_WIDTH - MARGIN, y + 4, 10, bold);
+  rightText(`Date: ${formatDate(doc.issued_at)}`, PAGE_WIDTH - MARGIN, y - 10);
+  if (isCreditNote && doc.original_invoice_number) {
+    rightText(`Against invoice: ${doc.original_invoice_number}`, PAGE_WIDTH - MARGIN, y - 22);
+  }
+  y -= 40;
+
+  // Parties
+  const partyWidth = (PAGE_WIDTH - 2 * MARGIN - 20) / 2;
+  const drawParty = (title: string, name: string, gstin: string | null, address: string | null, stateCode: string | null, x: number) => {
+    let py = y;
+    text(title, x, py, 8, bold, grey);
+    py -= 13;
+    text(fitText(name, bold, 10, partyWidth), x, py, 10, bold);
+    py -= 12;
+    text(gstin ? `GSTIN: ${gstin}` : 'GSTIN: Unregistered', x, py);
+    for (const line of wrapText(address ?? '', font, 9, partyWidth).slice(0, 3)) {
+      py -= 11;
+      text(line, x, py);
+    }
+    if (stateCode) {
+      py -= 11;
+      text(`State: ${stateLabel(stateCode)}`, x, py);
+    }
+    return py;
+  };
+
+  const supplierBottom = drawParty('SUPPLIER', doc.supplier_name, doc.supplier_gstin, doc.supplier_address, doc.supplier_state_code, MARGIN);
+  const recipientBottom = drawParty('BILLED TO', doc.recipient_name, doc.recipient_gstin, doc.recipient_address, null, MARGIN + partyWidth + 20);
+  y = Math.min(supplierBottom, recipientBottom) - 20;
+
+  text(`Place of supply: ${stateLabel(doc.place_of_supply_code)}`, MARGIN, y);
+  rightText(
+    doc.supply_type === 'intra_state' ? 'Intra-state supply (CGST + SGST)' : 'Inter-state supply (IGST)',
+    PAGE_WIDTH - MARGIN,
+    y
+  );
+  y -= 12;
+  text(`Order: ${doc.order_id}`, MARGIN, y, 8, font, grey);
+  y -= 20;
+
+  // Line items
+  const tableWidth = PAGE_WIDTH - 2 * MARGIN;
+  page.drawRectangle({ x: MARGIN, y: y - 4, width: tableWidth, height: 16, color: rgb(0.93, 0.93, 0.93) });
+  let x = MARGIN;
+  for (const column of COLUMNS) {
+    if (column.title === '#' || column.title === 'Description' || column.title === 'HSN/SAC') {
+      text(column.title, x + 2, y, 8, bold);
+    } else {
+      rightText(column.title, x + column.width - 2, y, 8, bold);
+    }
+    x += column.width;
+  }
+  y -= 18;
+
+  doc.line_items.forEach((line, index) => {
+    const cells = [
+      String(index + 1),
+      line.description,
+      line.hsn_code,
+      line.quantity != null ? String(line.quantity) : '-',
+      money(line.taxable_value),
+      `${line.gst_rate}%`,
+      line.cgst ? money(line.cgst) : '-',
+      line.sgst ? money(line.sgst) : '-',
+      line.igst ? money(line.igst) : '-',
+      money(line.total),
+    ];
+    let cx = MARGIN;
+    cells.forEach((cell, i) => {
+      const column = COLUMNS[i];
+      if (i <= 2) {
+        text(fitText(cell, font, 8, column.width - 4), cx + 2, y, 8);
+      } else {
+        rightText(cell, cx + column.width - 2, y, 8);
+      }
+      cx += column.width;
+    });
+    y -= 14;
+  });
+
+  page.drawLine({
+    start: { x: MARGIN, y: y + 6 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y + 6 },
+    thickness: 0.5,
+    color: grey,
+  });
+  y -= 8;
+
+  // Totals
+  const totals: [string, number][] = [['Taxable value', doc.taxable_value]];
+  if (doc.supply_type === 'intra_state') {
+    totals.push(['CGST', doc.cgst_amount], ['SGST', doc.sgst_amount]);
+  } else {
+    totals.push(['IGST', doc.igst_amount]);
+  }
+  for (const [label, amount] of totals) {
+    text(label, PAGE_WIDTH - MARGIN - 200, y);
+    rightText(`Rs. ${money(amount)}`, PAGE_WIDTH - MARGIN, y);
+    y -= 13;
+  }
+  text(isCreditNote ? 'Total credit' : 'Invoice total', PAGE_WIDTH - MARGIN - 200, y - 2, 11, bold);
+  rightText(`Rs. ${money(doc.total_amount)}`, PAGE_WIDTH - MARGIN, y - 2, 11, bold);
+  y -= 30;
+
+  // Notes
+  if (isCreditNote && doc.reason) {
+    for (const line of wrapText(`Reason: ${doc.reason}`, font, 9, tableWidth).slice(0, 4)) {
+      text(line, MARGIN, y);
+      y -= 12;
+    }
+    y -= 6;
+  }
+  text('All amounts in INR. Prices are inclusive of GST.', MARGIN, y, 8, font, grey);
+  y -= 11;
+  text('Tax payable on reverse charge: No', MARGIN, y, 8, font, grey);
+
+  text('This is a computer-generated document and does not require a signature.', MARGIN, MARGIN, 7, font, grey);
+
+  return await pdf.save();
+}
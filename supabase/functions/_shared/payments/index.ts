@@ -0,0 +1,30 @@
+/**
+ * Payment provider registry
+ *
+ * PAYMENT_PROVIDER selects the gateway for new payments (default: simulator).
+ * Existing intents always use the provider they were created with.
+ */
+
+import { razorpayProvider } from './razorpay.ts';
+import { simulatorProvider } from './simulator.ts';
+import type { PaymentProvider, PaymentProviderName } from './types.ts';
+
+export type { PaymentProvider, PaymentProviderName, PaymentWebhookEvent } from './types.ts';
+
+const PROVIDERS: Record<PaymentProviderName, PaymentProvider> = {
+  razorpay: razorpayProvider,
+  simulator: simulatorProvider,
+};
+
+export function isPaymentProviderName(value: string | null | undefined): value is PaymentProviderName {
+  return !!value && value in PROVIDERS;
+}
+
+export function getPaymentProvider(name: PaymentProviderName): PaymentProvider {
+  return PROVIDERS[name];
+}
+
+export function getDefaultPaymentProvider(): PaymentProvider {
+  const configured = Deno.env.get('PAYMENT_PROVIDER');
+  return isPaymentProviderName(configured) ? PROVIDERS[configured] : simulatorProvider;
+}
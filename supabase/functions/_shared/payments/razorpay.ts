@@ -0,0 +1,153 @@
+/**
+ * Razorpay adapter
+ *
+ * - Orders are Payment Links (hosted checkout, auto-captured)
+ * - Webhooks: X-Razorpay-Signature = HMAC-SHA256(raw body, webhook secret)
+ * - Idempotency key: X-Razorpay-Event-Id (webhooks), X-Refund-Idempotency (refunds)
+ *
+ * Env: RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET
+ */
+
+import { verifyHmacSignature } from './signature.ts';
+import type {
+  CreatePaymentOrderInput,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  ProviderCaptureResult,
+  ProviderPaymentOrder,
+  ProviderRefundResult,
+} from './types.ts';
+
+const RAZORPAY_API_BASE = 'https://api.razorpay.com/v1';
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+const fromPaise = (amount: number | null | undefined) => (typeof amount === 'number' ? amount / 100 : null);
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+}
+
+async function razorpayRequest<T>(
+  path: string,
+  body: Record<string, unknown>,
+  extraHeaders: Record<string, string> = {}
+): Promise<T> {
+  const credentials = btoa(`${requireEnv('RAZORPAY_KEY_ID')}:${requireEnv('RAZORPAY_KEY_SECRET')}`);
+  const response = await fetch(`${RAZORPAY_API_BASE}${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/json',
+      ...extraHeaders,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    const message = data?.error?.description || `Razorpay request failed (${response.status})`;
+    throw new Error(message);
+  }
+  return data as T;
+}
+
+interface RazorpayEntity {
+  id?: string;
+  amount?: number;
+  amount_paid?: number;
+  status?: string;
+  payment_id?: string;
+}
+
+interface RazorpayPayload {
+  id?: string;
+  event?: string;
+  created_at?: number;
+  payload?: {
+    payment_link?: { entity: RazorpayEntity };
+    payment?: { entity: RazorpayEntity };
+    refund?: { entity: RazorpayEntity };
+  };
+}
+
+function normalizeEvent(eventId: string, body: RazorpayPayload): PaymentWebhookEvent {
+  const payload = body.payload || {};
+  const link = payload.payment_link?.entity;
+  const payment = payload.payment?.entity;
+  const refund = payload.refund?.entity;
+
+  let type: PaymentWebhookEventType = 'ignored';
+  switch (body.event) {
+    case 'payment_link.paid':
+      type = 'payment.captured';
+      break;
+    case 'payment_link.cancelled':
+    case 'payment_link.expired':
+      type = 'payment.failed';
+      break;
+    case 'refund.processed':
+      type = 'refund.processed';
+      break;
+  }
+
+  return {
+    eventId,
+    type,
+    providerOrderId: link?.id ?? null,
+    providerPaymentId: payment?.id ?? refund?.payment_id ?? null,
+    amount: fromPaise(payment?.amount ?? link?.amount_paid),
+    failureReason: type === 'payment.failed' ? `Payment link ${link?.status || 'closed'}` : null,
+    raw: body as unknown as Record<string, unknown>,
+  };
+}
+
+export const razorpayProvider: PaymentProvider = {
+  name: 'razorpay',
+
+  async createOrder(input: CreatePaymentOrderInput): Promise<ProviderPaymentOrder> {
+    const link = await razorpayRequest<{ id: string; short_url: string }>('/payment_links', {
+      amount: toPaise(input.amount),
+      currency: input.currency,
+      description: input.description,
+      reference_id: input.intentId,
+      notes: { order_id: input.orderId, intent_id: input.intentId },
+    });
+    return { providerOrderId: link.id, checkoutUrl: link.short_url };
+  },
+
+  async capture(providerPaymentId: string, amount: number, currency: string): Promise<ProviderCaptureResult> {
+    const payment = await razorpayRequest<{ id: string; status: string }>(
+      `/payments/${providerPaymentId}/capture`,
+      { amount: toPaise(amount), currency }
+    );
+    return { providerPaymentId: payment.id, status: payment.status === 'captured' ? 'captured' : 'failed' };
+  },
+
+  async refund(providerPaymentId: string, amount: number, reason: string, idempotencyKey: string): Promise<ProviderRefundResult> {
+    const refund = await razorpayRequest<{ id: string; status: string }>(
+      `/payments/${providerPaymentId}/refund`,
+      { amount: toPaise(amount), receipt: idempotencyKey, notes: { reason, refund_id: idempotencyKey } },
+      { 'X-Refund-Idempotency': idempotencyKey }
+    );
+    return { providerRefundId: refund.id, status: refund.status === 'processed' ? 'processed' : 'pending' };
+  },
+
+  async verifyWebhook(rawBody: string, headers: Headers): Promise<PaymentWebhookEvent | null> {
+    const valid = await verifyHmacSignature(
+      requireEnv('RAZORPAY_WEBHOOK_SECRET'),
+      rawBody,
+      headers.get('x-razorpay-signature')
+    );
+    if (!valid) return null;
+
+    const body = JSON.parse(rawBody) as RazorpayPayload;
+    // Razorpay retries keep the same event id; fall back to the payload id for older API versions
+    const eventId = headers.get('x-razorpay-event-id') || body.id || `${body.event}:${body.created_at}`;
+    return normalizeEvent(eventId, body);
+  },
+};
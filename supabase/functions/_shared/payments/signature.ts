@@ -0,0 +1,41 @@
+/**
+ * HMAC-SHA256 webhook signatures (hex encoded), shared by all providers
+ */
+
+const encoder = new TextEncoder();
+
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Constant-time comparison so signature checks do not leak timing information
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function verifyHmacSignature(
+  secret: string,
+  payload: string,
+  signature: string | null
+): Promise<boolean> {
+  if (!signature) return false;
+  const expected = await hmacSha256Hex(secret, payload);
+  return timingSafeEqual(expected, signature.trim().toLowerCase());
+}
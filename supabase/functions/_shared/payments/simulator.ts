@@ -0,0 +1,92 @@
+/**
+ * Local payment simulator
+ *
+ * Fully offline provider for development and demos. Checkout happens on the app's
+ * /payments/simulator/:providerOrderId page; the outcome is delivered as a signed
+ * webhook to payment-webhook exactly like a real gateway would.
+ *
+ * Env: PAYMENT_SIMULATOR_SECRET (webhook signing secret)
+ */
+
+import { hmacSha256Hex, verifyHmacSignature } from './signature.ts';
+import type {
+  CreatePaymentOrderInput,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  ProviderCaptureResult,
+  ProviderPaymentOrder,
+  ProviderRefundResult,
+} from './types.ts';
+
+export const SIMULATOR_SIGNATURE_HEADER = 'x-simulator-signature';
+export const SIMULATOR_EVENT_ID_HEADER = 'x-simulator-event-id';
+
+export interface SimulatorWebhookBody {
+  id: string;
+  event: Exclude<PaymentWebhookEventType, 'ignored'>;
+  order_id: string;
+  payment_id: string | null;
+  amount: number | null;
+  failure_reason?: string | null;
+}
+
+function getSecret(): string {
+  const secret = Deno.env.get('PAYMENT_SIMULATOR_SECRET');
+  if (!secret) {
+    throw new Error('PAYMENT_SIMULATOR_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * Sign a simulator webhook body - used by payment-gateway to deliver checkout outcomes
+ */
+export async function signSimulatorWebhook(body: SimulatorWebhookBody): Promise<{ rawBody: string; headers: Record<string, string> }> {
+  const rawBody = JSON.stringify(body);
+  return {
+    rawBody,
+    headers: {
+      'Content-Type': 'application/json',
+      [SIMULATOR_SIGNATURE_HEADER]: await hmacSha256Hex(getSecret(), rawBody),
+      [SIMULATOR_EVENT_ID_HEADER]: body.id,
+    },
+  };
+}
+
+export const simulatorProvider: PaymentProvider = {
+  name: 'simulator',
+
+  createOrder(input: CreatePaymentOrderInput): Promise<ProviderPaymentOrder> {
+    const providerOrderId = `sim_order_${crypto.randomUUID()}`;
+    return Promise.resolve({
+      providerOrderId,
+      checkoutUrl: `${input.appBaseUrl}/payments/simulator/${providerOrderId}`,
+    });
+  },
+
+  capture(providerPaymentId: string): Promise<ProviderCaptureResult> {
+    return Promise.resolve({ providerPaymentId, status: 'captured' });
+  },
+
+  refund(_providerPaymentId: string, _amount: number, _reason: string, idempotencyKey: string): Promise<ProviderRefundResult> {
+    // Same key, same refund - like a real gateway replaying an idempotent request
+    return Promise.resolve({ providerRefundId: `sim_rfnd_${idempotencyKey}`, status: 'processed' });
+  },
+
+  async verifyWebhook(rawBody: string, headers: Headers): Promise<PaymentWebhookEvent | null> {
+    const valid = await verifyHmacSignature(getSecret(), rawBody, headers.get(SIMULATOR_SIGNATURE_HEADER));
+    if (!valid) return null;
+
+    const body = JSON.parse(rawBody) as SimulatorWebhookBody;
+    return {
+      eventId: headers.get(SIMULATOR_EVENT_ID_HEADER) || body.id,
+      type: body.event,
+      providerOrderId: body.order_id,
+      providerPaymentId: body.payment_id,
+      amount: body.amount,
+      failureReason: body.failure_reason ?? null,
+      raw: body as unknown as Record<string, unknown>,
+    };
+  },
+};
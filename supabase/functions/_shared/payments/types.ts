@@ -0,0 +1,70 @@
+/**
+ * Payment Provider abstraction
+ *
+ * Every gateway (Razorpay, local simulator) implements PaymentProvider.
+ * Amounts are always in rupees here; adapters convert to the provider's unit.
+ */
+
+export type PaymentProviderName = 'razorpay' | 'simulator';
+
+/**
+ * Normalised webhook event types understood by apply_payment_webhook()
+ */
+export type PaymentWebhookEventType =
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'refund.processed'
+  | 'ignored';
+
+export interface CreatePaymentOrderInput {
+  intentId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  // Base URL of the web app (used by the simulator checkout page)
+  appBaseUrl: string;
+}
+
+export interface ProviderPaymentOrder {
+  providerOrderId: string;
+  checkoutUrl: string;
+}
+
+export interface ProviderCaptureResult {
+  providerPaymentId: string;
+  status: 'captured' | 'failed';
+}
+
+export interface ProviderRefundResult {
+  providerRefundId: string;
+  status: 'processed' | 'pending';
+}
+
+export interface PaymentWebhookEvent {
+  // Provider's unique delivery id - the idempotency key
+  eventId: string;
+  type: PaymentWebhookEventType;
+  providerOrderId: string | null;
+  providerPaymentId: string | null;
+  // Rupees, when the event carries an amount
+  amount: number | null;
+  failureReason?: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createOrder(input: CreatePaymentOrderInput): Promise<ProviderPaymentOrder>;
+  capture(providerPaymentId: string, amount: number, currency: string): Promise<ProviderCaptureResult>;
+  /**
+   * Refund part or all of a captured payment. Retrying with the same idempotency key
+   * (the payment_gateway_refunds row id) must not refund twice.
+   */
+  refund(providerPaymentId: string, amount: number, reason: string, idempotencyKey: string): Promise<ProviderRefundResult>;
+  /**
+   * Verify the webhook signature and normalise the payload.
+   * Returns null when the signature is missing or invalid.
+   */
+  verifyWebhook(rawBody: string, headers: Headers): Promise<PaymentWebhookEvent | null>;
+}
@@ -0,0 +1,256 @@
+/**
+ * Delivery rating
+ *
+ * Shared by the order form (src/lib/deliveryCostCalculator.ts re-exports it) and
+ * the price-quote edge function, so the estimate a buyer sees is the amount the
+ * signed quote charges. Keep this module free of imports and runtime-specific APIs.
+ *
+ * Rules:
+ * - Zone from the origin and destination pincodes: intra-city (same sorting
+ *   district), intra-state, metro-to-metro, rest of India, remote / North-East
+ * - Army Postal Service and malformed pincodes are not serviceable; COD is not
+ *   offered to remote zones
+ * - Samples (quantity 1) ship as a parcel in 0.5 kg slabs; bulk orders ship in
+ *   cartons at a per-kg rate with a zone minimum
+ * - Hoodies and jackets are bulky: chargeable weight is the higher of actual and
+ *   volumetric weight (L x B x H / 5000)
+ * - Until a manufacturer is known, orders are rated from DEFAULT_ORIGIN_PINCODE
+ */
+
+export type DeliveryZone = 'intra_city' | 'intra_state' | 'metro' | 'rest_of_india' | 'remote';
+
+export interface DeliveryRateParams {
+  productType: string;
+  quantity: number;
+  buyerPincode?: string | null;
+  manufacturerPincode?: string | null;
+}
+
+export interface DeliveryRate {
+  zone: DeliveryZone;
+  serviceable: boolean;
+  codAvailable: boolean;
+  // Reason when the destination is not serviceable
+  reason?: string;
+  // False when the buyer pincode was not given and the zone is an assumption
+  pincodeChecked: boolean;
+  actualWeight: number;
+  volumetricWeight: number;
+  chargeableWeight: number;
+  cartons: number;
+  // 0.5 kg slabs for parcels; 0 for carton shipments
+  slabs: number;
+  cost: number;
+}
+
+interface ZoneRate {
+  firstSlab: number;
+  additionalSlab: number;
+  perKg: number;
+  minimum: number;
+}
+
+interface PackingProfile {
+  // kg per piece (per metre for fabric)
+  pieceWeight: number;
+  piecesPerCarton: number;
+  cartonTareKg: number;
+  // cm; only set for bulky products rated on volumetric weight
+  cartonDims?: [number, number, number];
+  parcelDims?: [number, number, number];
+}
+
+// Tirupur knitwear cluster
+export const DEFAULT_ORIGIN_PINCODE = '641604';
+
+export const VOLUMETRIC_DIVISOR = 5000;
+
+const SLAB_KG = 0.5;
+
+// Poly mailer for a single sample
+const PARCEL_PACKAGING_KG = 0.05;
+
+export const DELIVERY_ZONE_LABELS: Record<DeliveryZone, string> = {
+  intra_city: 'Intra-city',
+  intra_state: 'Intra-state',
+  metro: 'Metro to metro',
+  rest_of_india: 'Rest of India',
+  remote: 'Remote / North-East',
+};
+
+export const ZONE_RATES: Record<DeliveryZone, ZoneRate> = {
+  intra_city: { firstSlab: 35, additionalSlab: 20, perKg: 18, minimum: 400 },
+  intra_state: { firstSlab: 45, additionalSlab: 25, perKg: 24, minimum: 600 },
+  metro: { firstSlab: 55, additionalSlab: 30, perKg: 28, minimum: 800 },
+  rest_of_india: { firstSlab: 65, additionalSlab: 35, perKg: 36, minimum: 1000 },
+  remote: { firstSlab: 90, additionalSlab: 50, perKg: 60, minimum: 1500 },
+};
+
+const PACKING: Record<string, PackingProfile> = {
+  't-shirt': { pieceWeight: 0.25, piecesPerCarton: 50, cartonTareKg: 0.8 },
+  'hoodie': { pieceWeight: 0.60, piecesPerCarton: 20, cartonTareKg: 1.0, cartonDims: [60, 40, 40], parcelDims: [30, 25, 6] },
+  'jacket': { pieceWeight: 0.70, piecesPerCarton: 15, cartonTareKg: 1.0, cartonDims: [60, 40, 40], parcelDims: [32, 26, 6] },
+  'cap': { pieceWeight: 0.15, piecesPerCarton: 50, cartonTareKg: 0.8 },
+  'bag': { pieceWeight: 0.30, piecesPerCarton: 40, cartonTareKg: 0.8 },
+  'fabric': { pieceWeight: 0.30, piecesPerCarton: 50, cartonTareKg: 0.5 },
+  'custom': { pieceWeight: 0.25, piecesPerCarton: 40, cartonTareKg: 0.8 },
+};
+
+const PRODUCT_ALIASES: Record<string, string> = {
+  't-shirts': 't-shirt',
+  'hoodies': 'hoodie',
+  'jackets': 'jacket',
+  'caps': 'cap',
+  'bags': 'bag',
+};
+
+// Two-digit pincode prefix -> state (postal circles)
+const STATE_BY_PREFIX: Record<string, string> = {
+  '11': 'DL',
+  '12': 'HR', '13': 'HR',
+  '14': 'PB', '15': 'PB', '16': 'PB',
+  '17': 'HP',
+  '18': 'JK', '19': 'JK',
+  '20': 'UP', '21': 'UP', '22': 'UP', '23': 'UP', '24': 'UP', '25': 'UP', '26': 'UP', '27': 'UP', '28': 'UP',
+  '30': 'RJ', '31': 'RJ', '32': 'RJ', '33': 'RJ', '34': 'RJ',
+  '36': 'GJ', '37': 'GJ', '38': 'GJ', '39': 'GJ',
+  '40': 'MH', '41': 'MH', '42': 'MH', '43': 'MH', '44': 'MH',
+  '45': 'MP', '46': 'MP', '47': 'MP', '48': 'MP',
+  '49': 'CG',
+  '50': 'TG',
+  '51': 'AP', '52': 'AP', '53': 'AP',
+  '56': 'KA', '57': 'KA', '58': 'KA', '59': 'KA',
+  '60': 'TN', '61': 'TN', '62': 'TN', '63': 'TN', '64': 'TN',
+  '67': 'KL', '68': 'KL', '69': 'KL',
+  '70': 'WB', '71': 'WB', '72': 'WB', '73': 'WB', '74': 'WB',
+  '75': 'OD', '76': 'OD', '77': 'OD',
+  '78': 'AS',
+  '79': 'NE',
+  '80': 'BR', '81': 'BR', '82': 'BR', '83': 'BR', '84': 'BR', '85': 'BR',
+};
+
+// Three-digit exceptions inside a two-digit circle
+const STATE_BY_DISTRICT: Record<string, string> = {
+  '160': 'CH',
+  '246': 'UK', '247': 'UK', '248': 'UK', '249': 'UK', '262': 'UK', '263': 'UK',
+  '403': 'GA',
+  '605': 'PY',
+  '737': 'SK',
+  '744': 'AN',
+  '814': 'JH', '815': 'JH', '816': 'JH', '822': 'JH', '825': 'JH', '826': 'JH', '827': 'JH',
+  '828': 'JH', '829': 'JH', '831': 'JH', '832': 'JH', '833': 'JH', '834': 'JH', '835': 'JH',
+};
+
+// Sorting districts of the metro cities
+const METRO_DISTRICTS = ['110', '400', '700', '600', '560', '500', '411', '380'];
+
+// J&K / Ladakh, Assam and the North-East, Sikkim, Andaman & Nicobar, Lakshadweep
+const REMOTE_PREFIXES = ['18', '19', '78', '79', '737', '744', '68255'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function getPackingProfile(productType: string): PackingProfile {
+  const key = productType.trim().toLowerCase();
+  return PACKING[PRODUCT_ALIASES[key] || key] || PACKING['custom'];
+}
+
+const volumetricWeight = (dims: [number, number, number]) => (dims[0] * dims[1] * dims[2]) / VOLUMETRIC_DIVISOR;
+
+export const isValidPincode = (pincode: string | null | undefined): pincode is string =>
+  !!pincode && /^[1-9][0-9]{5}$/.test(pincode.trim());
+
+export function getPincodeState(pincode: string): string | null {
+  return STATE_BY_DISTRICT[pincode.slice(0, 3)] || STATE_BY_PREFIX[pincode.slice(0, 2)] || null;
+}
+
+export const isRemotePincode = (pincode: string) => REMOTE_PREFIXES.some((prefix) => pincode.startsWith(prefix));
+
+/**
+ * Whether parcels can be delivered to a pincode, and whether COD is offered there
+ */
+export function getPincodeServiceability(
+  pincode: string | null | undefined
+): { serviceable: boolean; codAvailable: boolean; reason?: string } {
+  if (!isValidPincode(pincode)) {
+    return { serviceable: false, codAvailable: false, reason: 'Enter a valid 6-digit pincode' };
+  }
+  const code = pincode.trim();
+  if (code.startsWith('9')) {
+    return { serviceable: false, codAvailable: false, reason: 'Army Postal Service pincodes are not serviceable' };
+  }
+  if (!getPincodeState(code)) {
+    return { serviceable: false, codAvailable: false, reason: `Pincode ${code} is not serviceable` };
+  }
+  return { serviceable: true, codAvailable: !isRemotePincode(code) };
+}
+
+export function getDeliveryZone(originPincode: string, destinationPincode: string): DeliveryZone {
+  if (isRemotePincode(originPincode) || isRemotePincode(destinationPincode)) return 'remote';
+  if (originPincode.slice(0, 3) === destinationPincode.slice(0, 3)) return 'intra_city';
+  if (getPincodeState(originPincode) === getPincodeState(destinationPincode)) return 'intra_state';
+  if (METRO_DISTRICTS.includes(originPincode.slice(0, 3)) && METRO_DISTRICTS.includes(destinationPincode.slice(0, 3))) {
+    return 'metro';
+  }
+  return 'rest_of_india';
+}
+
+/**
+ * Rate a delivery. Without a buyer pincode the order is rated as rest of India
+ * (pincodeChecked = false) so early estimates never undercharge.
+ */
+export function rateDelivery({ productType, quantity, buyerPincode, manufacturerPincode }: DeliveryRateParams): DeliveryRate {
+  const profile = getPackingProfile(productType);
+  const origin = isValidPincode(manufacturerPincode) ? manufacturerPincode.trim() : DEFAULT_ORIGIN_PINCODE;
+  const pincodeChecked = !!buyerPincode?.trim();
+
+  const serviceability = pincodeChecked
+    ? getPincodeServiceability(buyerPincode)
+    : { serviceable: true, codAvailable: true };
+  const zone = pincodeChecked && serviceability.serviceable
+    ? getDeliveryZone(origin, buyerPincode!.trim())
+    : 'rest_of_india';
+  const rate = ZONE_RATES[zone];
+  const pieces = Math.max(quantity, 1);
+
+  let actualWeight: number;
+  let volumetric = 0;
+  let cartons = 0;
+  let slabs = 0;
+  let cost: number;
+
+  if (pieces === 1) {
+    // Sample parcel
+    actualWeight = profile.pieceWeight + PARCEL_PACKAGING_KG;
+    volumetric = profile.parcelDims ? volumetricWeight(profile.parcelDims) : 0;
+    const chargeable = Math.max(actualWeight, volumetric);
+    slabs = Math.max(Math.ceil(round2(chargeable) / SLAB_KG), 1);
+    cost = rate.firstSlab + (slabs - 1) * rate.additionalSlab;
+  } else {
+    // Bulk cartons; the last carton is rated as full when bulky
+    cartons = Math.ceil(pieces / profile.piecesPerCarton);
+    actualWeight = pieces * profile.pieceWeight + cartons * profile.cartonTareKg;
+    volumetric = profile.cartonDims ? cartons * volumetricWeight(profile.cartonDims) : 0;
+    cost = Math.max(Math.ceil(Math.max(actualWeight, volumetric) * rate.perKg), rate.minimum);
+  }
+
+  return {
+    zone,
+    serviceable: serviceability.serviceable,
+    codAvailable: serviceability.serviceable && serviceability.codAvailable && zone !== 'remote',
+    reason: serviceability.reason,
+    pincodeChecked,
+    actualWeight: round2(actualWeight),
+    volumetricWeight: round2(volumetric),
+    chargeableWeight: round2(Math.max(actualWeight, volumetric)),
+    cartons,
+    slabs,
+    cost: serviceability.serviceable ? cost : 0,
+  };
+}
+
+/**
+ * Estimated parcel weight in kg (actual, including packing), used when booking a courier
+ */
+export function estimateShipmentWeight(productType: string, quantity: number): number {
+  return Math.max(rateDelivery({ productType, quantity }).actualWeight, 0.1);
+}
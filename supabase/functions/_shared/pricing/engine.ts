@@ -0,0 +1,214 @@
+/**
+ * Pricing engine
+ *
+ * Prices an order request against a price book:
+ * - Unit price: the sample price for a single sample, otherwise the fabric's bulk
+ *   price (or the book's default) less the quantity break discount
+ * - Surcharges per piece: print method, each printed area, name personalisation
+ *   (print surcharges only apply to printed merch, not blanks or fabric)
+ * - Rush fee: share of the goods subtotal when expected_deadline is close
+ * - Delivery cost on top, rated by pincode zone (see delivery.ts); a quote for a
+ *   non-serviceable pincode is refused
+ */
+
+import { isValidPincode, rateDelivery, type DeliveryZone } from "./delivery.ts";
+
+export type SurchargeType = 'print_method' | 'print_area' | 'personalisation';
+
+export interface PriceBook {
+  id: string;
+  name: string;
+  sample_unit_price: number;
+  default_unit_price: number;
+  quote_validity_minutes: number;
+  fabrics: { fabric_id: string; label: string; unit_price: number }[];
+  quantity_tiers: { min_quantity: number; discount_rate: number }[];
+  surcharges: { surcharge_type: SurchargeType; code: string; label: string; unit_amount: number }[];
+  rush_tiers: { max_lead_days: number; surcharge_rate: number }[];
+}
+
+export interface QuoteRequest {
+  buyer_purpose: 'merch_bulk' | 'blank_apparel' | 'fabric_only';
+  product_type: string;
+  quantity: number;
+  is_sample: boolean;
+  fabric_id: string | null;
+  print_method: string | null;
+  print_areas: string[];
+  personalisation: boolean;
+  expected_deadline: string | null;
+  delivery_pincode: string | null;
+}
+
+export interface QuoteLine {
+  code: string;
+  label: string;
+  quantity: number;
+  unit_amount: number;
+  amount: number;
+}
+
+export interface QuoteBreakdown {
+  unit_price: number;
+  discount_rate: number;
+  lines: QuoteLine[];
+  goods_subtotal: number;
+  lead_days: number | null;
+  rush_rate: number;
+  rush_fee: number;
+  delivery_cost: number;
+  delivery_zone: DeliveryZone;
+  chargeable_weight: number;
+  cod_available: boolean;
+  total_amount: number;
+}
+
+export class PricingError extends Error {}
+
+export const MAX_ORDER_QUANTITY = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Validate and normalise a request body into a QuoteRequest
+ */
+export function parseQuoteRequest(body: Record<string, unknown>): QuoteRequest {
+  const buyerPurpose = String(body.buyer_purpose ?? 'merch_bulk');
+  if (!['merch_bulk', 'blank_apparel', 'fabric_only'].includes(buyerPurpose)) {
+    throw new PricingError(`Unknown buyer purpose: ${buyerPurpose}`);
+  }
+
+  const isSample = body.is_sample === true && buyerPurpose !== 'fabric_only';
+  const quantity = isSample ? 1 : Number(body.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ORDER_QUANTITY) {
+    throw new PricingError(`Quantity must be between 1 and ${MAX_ORDER_QUANTITY}`);
+  }
+
+  const productType = buyerPurpose === 'fabric_only' ? 'Fabric' : String(body.product_type ?? '').trim();
+  if (!productType) {
+    throw new PricingError('Product type is required');
+  }
+
+  const printed = buyerPurpose === 'merch_bulk';
+  const printAreas = printed && Array.isArray(body.print_areas)
+    ? [...new Set(body.print_areas.map((area) => String(area)))]
+    : [];
+
+  const deliveryPincode = typeof body.delivery_pincode === 'string' ? body.delivery_pincode.trim() : '';
+  if (deliveryPincode && !isValidPincode(deliveryPincode)) {
+    throw new PricingError('Delivery pincode must be a valid 6-digit pincode');
+  }
+
+  return {
+    buyer_purpose: buyerPurpose as QuoteRequest['buyer_purpose'],
+    product_type: productType,
+    quantity,
+    is_sample: isSample,
+    fabric_id: typeof body.fabric_id === 'string' && body.fabric_id ? body.fabric_id : null,
+    print_method: printed && typeof body.print_method === 'string' && body.print_method ? body.print_method : null,
+    print_areas: printAreas,
+    personalisation: printed && body.personalisation === true,
+    expected_deadline: !isSample && typeof body.expected_deadline === 'string' ? body.expected_deadline : null,
+    delivery_pincode: deliveryPincode || null,
+  };
+}
+
+function findSurcharge(book: PriceBook, type: SurchargeType, code: string) {
+  const surcharge = book.surcharges.find((s) => s.surcharge_type === type && s.code === code);
+  if (!surcharge) {
+    throw new PricingError(`Unknown ${type.replace('_', ' ')}: ${code}`);
+  }
+  return surcharge;
+}
+
+function getLeadDays(deadline: string, now: Date): number {
+  const due = new Date(deadline);
+  if (Number.isNaN(due.getTime())) {
+    throw new PricingError('Invalid expected deadline');
+  }
+  return Math.max(0, Math.ceil((due.getTime() - now.getTime()) / DAY_MS));
+}
+
+export function priceQuote(book: PriceBook, request: QuoteRequest, now = new Date()): QuoteBreakdown {
+  const { quantity } = request;
+  const lines: QuoteLine[] = [];
+
+  const addLine = (code: string, label: string, unitAmount: number) => {
+    if (unitAmount <= 0) return;
+    lines.push({ code, label, quantity, unit_amount: round2(unitAmount), amount: round2(unitAmount * quantity) });
+  };
+
+  // Base price
+  let unitPrice: number;
+  let discountRate = 0;
+  let baseLabel: string;
+  if (request.is_sample) {
+    unitPrice = Number(book.sample_unit_price);
+    baseLabel = `${request.product_type} sample`;
+  } else {
+    const fabric = request.fabric_id ? book.fabrics.find((f) => f.fabric_id === request.fabric_id) : undefined;
+    if (request.fabric_id && !fabric) {
+      throw new PricingError(`No price for fabric: ${request.fabric_id}`);
+    }
+    const tier = [...book.quantity_tiers]
+      .sort((a, b) => b.min_quantity - a.min_quantity)
+      .find((t) => quantity >= t.min_quantity);
+    discountRate = Number(tier?.discount_rate ?? 0);
+    unitPrice = round2(Number(fabric?.unit_price ?? book.default_unit_price) * (1 - discountRate));
+    baseLabel = fabric ? `${request.product_type} - ${fabric.label}` : request.product_type;
+  }
+  addLine('base', baseLabel, unitPrice);
+
+  // Surcharges
+  if (request.print_method) {
+    const method = findSurcharge(book, 'print_method', request.print_method);
+    addLine(`print_method:${method.code}`, method.label, Number(method.unit_amount));
+  }
+  for (const area of request.print_areas) {
+    const surcharge = findSurcharge(book, 'print_area', area);
+    addLine(`print_area:${surcharge.code}`, surcharge.label, Number(surcharge.unit_amount));
+  }
+  if (request.personalisation) {
+    const surcharge = findSurcharge(book, 'personalisation', 'name');
+    addLine('personalisation:name', surcharge.label, Number(surcharge.unit_amount));
+  }
+
+  const goodsSubtotal = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  // Rush fee: tightest matching tier
+  const leadDays = request.expected_deadline ? getLeadDays(request.expected_deadline, now) : null;
+  const rushTier = leadDays === null
+    ? undefined
+    : [...book.rush_tiers]
+      .sort((a, b) => a.max_lead_days - b.max_lead_days)
+      .find((t) => leadDays <= t.max_lead_days);
+  const rushRate = Number(rushTier?.surcharge_rate ?? 0);
+  const rushFee = round2(goodsSubtotal * rushRate);
+
+  const delivery = rateDelivery({
+    productType: request.product_type,
+    quantity,
+    buyerPincode: request.delivery_pincode,
+  });
+  if (!delivery.serviceable) {
+    throw new PricingError(delivery.reason || 'Delivery pincode is not serviceable');
+  }
+  const deliveryCost = delivery.cost;
+
+  return {
+    unit_price: unitPrice,
+    discount_rate: discountRate,
+    lines,
+    goods_subtotal: goodsSubtotal,
+    lead_days: leadDays,
+    rush_rate: rushRate,
+    rush_fee: rushFee,
+    delivery_cost: deliveryCost,
+    delivery_zone: delivery.zone,
+    chargeable_weight: delivery.chargeableWeight,
+    cod_available: delivery.codAvailable,
+    total_amount: round2(goodsSubtotal + rushFee + deliveryCost),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Price quotes
+ *
+ * Loads the active price book, prices requests with the engine and stores signed
+ * quotes in price_quotes. Orders reference a quote by id; the database copies the
+ * quote's amounts onto the order, so client-side totals are never trusted.
+ *
+ * The signature (HMAC-SHA256, PRICE_QUOTE_SIGNING_SECRET) covers the fields that
+ * make up the price, so a quote shown or shared outside the app can be verified.
+ * Quotes are rated for the buyer's delivery pincode; the order's shipping address
+ * must use the same pincode (checked by the database).
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hmacSha256Hex, timingSafeEqual } from "../payments/signature.ts";
+import { PricingError, priceQuote, type PriceBook, type QuoteBreakdown, type QuoteRequest } from "./engine.ts";
+
+export { PricingError, parseQuoteRequest, priceQuote } from "./engine.ts";
+export type { PriceBook, QuoteBreakdown, QuoteLine, QuoteRequest } from "./engine.ts";
+
+export interface PriceQuoteRow {
+  id: string;
+  buyer_id: string;
+  price_book_id: string;
+  product_type: string;
+  quantity: number;
+  unit_price: number;
+  goods_subtotal: number;
+  rush_fee: number;
+  delivery_cost: number;
+  total_amount: number;
+  delivery_pincode: string | null;
+  signature: string;
+  expires_at: string;
+}
+
+function getSigningSecret(): string {
+  const secret = Deno.env.get('PRICE_QUOTE_SIGNING_SECRET');
+  if (!secret) {
+    throw new Error('PRICE_QUOTE_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+const signaturePayload = (quote: Omit<PriceQuoteRow, 'signature'>) =>
+  [
+    quote.id,
+    quote.buyer_id,
+    quote.price_book_id,
+    quote.product_type,
+    quote.quantity,
+    quote.unit_price.toFixed(2),
+    quote.goods_subtotal.toFixed(2),
+    quote.rush_fee.toFixed(2),
+    quote.delivery_cost.toFixed(2),
+    quote.total_amount.toFixed(2),
+    quote.expires_at,
+    // Appended only when set so quotes signed before pincode rating still verify
+    ...(quote.delivery_pincode ? [quote.delivery_pincode] : []),
+  ].join('|');
+
+export async function loadActivePriceBook(client: SupabaseClient): Promise<PriceBook> {
+  const { data: book, error } = await client
+    .from('price_books')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!book) {
+    throw new PricingError('No active price book');
+  }
+
+  const [fabrics, tiers, surcharges, rushTiers] = await Promise.all([
+    client.from('price_book_fabrics').select('fabric_id, label, unit_price').eq('price_book_id', book.id),
+    client.from('price_book_quantity_tiers').select('min_quantity, discount_rate').eq('price_book_id', book.id),
+    client.from('price_book_surcharges').select('surcharge_type, code, label, unit_amount').eq('price_book_id', book.id),
+    client.from('price_book_rush_tiers').select('max_lead_days, surcharge_rate').eq('price_book_id', book.id),
+  ]);
+
+  for (const result of [fabrics, tiers, surcharges, rushTiers]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    id: book.id,
+    name: book.name,
+    sample_unit_price: Number(book.sample_unit_price),
+    default_unit_price: Number(book.default_unit_price),
+    quote_validity_minutes: book.quote_validity_minutes,
+    fabrics: fabrics.data ?? [],
+    quantity_tiers: tiers.data ?? [],
+    surcharges: surcharges.data ?? [],
+    rush_tiers: rushTiers.data ?? [],
+  };
+}
+
+/**
+ * Price a request and store it as a signed quote for the buyer
+ */
+export async function createPriceQuote(
+  client: SupabaseClient,
+  buyerId: string,
+  request: QuoteRequest
+): Promise<{ quote: PriceQuoteRow; breakdown: QuoteBreakdown; priceBook: PriceBook }> {
+  const secret = getSigningSecret();
+  if (!request.delivery_pincode) {
+    throw new PricingError('Delivery pincode is required to place an order');
+  }
+  const priceBook = await loadActivePriceBook(client);
+  const breakdown = priceQuote(priceBook, request);
+
+  const unsigned = {
+    id: crypto.randomUUID(),
+    buyer_id: buyerId,
+    price_book_id: priceBook.id,
+    product_type: request.product_type,
+    quantity: request.quantity,
+    unit_price: breakdown.unit_price,
+    goods_subtotal: breakdown.goods_subtotal,
+    rush_fee: breakdown.rush_fee,
+    delivery_cost: breakdown.delivery_cost,
+    total_amount: breakdown.total_amount,
+    delivery_pincode: request.delivery_pincode,
+    expires_at: new Date(Date.now() + priceBook.quote_validity_minutes * 60 * 1000).toISOString(),
+  };
+  const signature = await hmacSha256Hex(secret, signaturePayload(unsigned));
+
+  const { error } = await client
+    .from('price_quotes')
+    .insert({
+      ...unsigned,
+      request,
+      is_sample: request.is_sample,
+      fabric_id: request.fabric_id,
+      print_method: request.print_method,
+      line_items: breakdown.lines,
+      delivery_zone: breakdown.delivery_zone,
+      signature,
+    });
+
+  if (error) throw error;
+
+  return { quote: { ...unsigned, signature }, breakdown, priceBook };
+}
+
+/**
+ * Check a stored quote's signature against its fields
+ */
+export async function verifyPriceQuote(quote: PriceQuoteRow): Promise<boolean> {
+  const { signature, ...fields } = quote;
+  const expected = await hmacSha256Hex(getSigningSecret(), signaturePayload({
+    ...fields,
+    quantity: Number(fields.quantity),
+    unit_price: Number(fields.unit_price),
+    goods_subtotal: Number(fields.goods_subtotal),
+    rush_fee: Number(fields.rush_fee),
+    delivery_cost: Number(fields.delivery_cost),
+    total_amount: Number(fields.total_amount),
+    expires_at: new Date(fields.expires_at).toISOString(),
+  }));
+  return timingSafeEqual(expected, signature);
+}
@@ -0,0 +1,435 @@
+/**
+ * Courier Shipment
+ *
+ * Authenticated entry point to the configured CourierProvider.
+ * Actions:
+ * - create_shipment (admin): book a PACKED order with the courier. With shipment_id, books
+ *   that planned shipment of a split order; otherwise the order ships as one shipment to
+ *   its shipping address. The shipment moves to PICKUP_SCHEDULED and the order follows
+ *   once every shipment is booked (sync_order_delivery_from_shipments)
+ * - create_rma_shipment (admin): book the return pickup (buyer -> manufacturer) or the
+ *   replacement shipment of an approved RMA; the RMA follows the shipment's delivery_status
+ *   (sync_rma_from_shipments) and the order's own delivery_status is untouched
+ * - get_label (admin or the order's manufacturer): shipping label PDF, or its hosted URL
+ * - sync (admin): poll the courier for tracking scans and apply any new ones
+ * - simulate_scan (admin, mock courier only): deliver the next route scan as a signed
+ *   webhook to courier-webhook
+ *
+ * IN_TRANSIT / DELIVERED are NEVER set here - only apply_courier_tracking_event() moves
+ * a shipment's delivery_status from tracking scans.
+ */
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  applyTrackingEvents,
+  getCourierProvider,
+  getDefaultCourierProvider,
+  isCourierProviderName,
+  type ShipmentAddress,
+  type StoredShipment,
+} from "../_shared/couriers/index.ts";
+import { nextMockStep, signMockWebhook } from "../_shared/couriers/mock.ts";
+import { estimateShipmentWeight } from "../_shared/pricing/delivery.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Manufacturers have no street-level address on file; Shiprocket picks up from the
+ * registered pickup location, the mock courier only prints this on the label
+ */
+async function fetchManufacturerAddress(
+  supabaseAdmin: SupabaseClient,
+  manufacturerId: string
+): Promise<ShipmentAddress> {
+  const [{ data: approved }, { data: verification }] = await Promise.all([
+    supabaseAdmin
+      .from("approved_manufacturers")
+      .select("company_name, city, state, country")
+      .eq("linked_user_id", manufacturerId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from("manufacturer_verifications")
+      .select("company_name, location, city, state, country")
+      .eq("user_id", manufacturerId)
+      .maybeSingle(),
+  ]);
+
+  return {
+    name: approved?.company_name || verification?.company_name || "Manufacturer",
+    phone: "",
+    addressLine1: verification?.location || "",
+    city: approved?.city || verification?.city || "",
+    state: approved?.state || verification?.state || "",
+    pincode: "",
+    country: approved?.country || verification?.country || "India",
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: roleData } = await supabaseAdmin
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .single();
+    const isAdmin = roleData?.role === "admin";
+
+    const body = await req.json();
+    const action = body?.action as string | undefined;
+
+    // ---------------------------------------------------------------
+    // create_shipment
+    // ---------------------------------------------------------------
+    if (action === "create_shipment") {
+      if (!isAdmin) {
+        return jsonResponse({ error: "Forbidden - Admin only" }, 403);
+      }
+
+      // A planned shipment of a split order, or none for a single-address order
+      let planned: { id: string; order_id: string; quantity: number | null; delivery_address: unknown } | null = null;
+      if (body.shipment_id) {
+        const { data } = await supabaseAdmin
+          .from("shipments")
+          .select("id, order_id, quantity, delivery_address, delivery_status, provider, awb_code")
+          .eq("id", body.shipment_id)
+          .maybeSingle();
+        if (!data) {
+          return jsonResponse({ error: "Shipment not found" }, 404);
+        }
+        if (data.provider || data.awb_code || data.delivery_status !== "PACKED") {
+          return jsonResponse({ error: "Shipment is already booked or not packed yet" }, 400);
+        }
+        planned = data;
+      }
+
+      const { data: order, error: orderError } = await supabaseAdmin
+        .from("orders")
+        .select("id, delivery_status, manufacturer_id, product_type, quantity, total_order_value")
+        .eq("id", planned?.order_id ?? body.order_id)
+        .single();
+
+      if (orderError || !order) {
+        return jsonResponse({ error: "Order not found" }, 404);
+      }
+      if (order.delivery_status !== "PACKED" || !order.manufacturer_id) {
+        return jsonResponse({ error: "Order must be packed before booking a courier" }, 400);
+      }
+
+      if (!planned) {
+        const { count } = await supabaseAdmin
+          .from("shipments")
+          .select("id", { count: "exact", head: true })
+          .eq("order_id", order.id)
+          .is("rma_id", null);
+        if (count) {
+          return jsonResponse({ error: "This order is split into shipments - book each shipment" }, 400);
+        }
+      }
+
+      const [{ data: shipping }, pickup] = await Promise.all([
+        supabaseAdmin
+          .from("order_shipping_info")
+          .select("full_name, phone, address_line1, address_line2, city, state, pincode, country")
+          .eq("order_id", order.id)
+          .maybeSingle(),
+        fetchManufacturerAddress(supabaseAdmin, order.manufacturer_id),
+      ]);
+
+      if (!planned && !shipping) {
+        return jsonResponse({ error: "Order has no shipping address" }, 400);
+      }
+
+      const delivery: ShipmentAddress = planned
+        ? planned.delivery_address as ShipmentAddress
+        : {
+          name: shipping!.full_name,
+          phone: shipping!.phone,
+          addressLine1: shipping!.address_line1,
+          addressLine2: shipping!.address_line2,
+          city: shipping!.city,
+          state: shipping!.state,
+          pincode: shipping!.pincode,
+          country: shipping!.country,
+        };
+      const orderQuantity = order.quantity || 1;
+      const quantity = planned?.quantity || orderQuantity;
+      const requestedWeight = Number(body.weight_kg);
+      const weightKg = Number.isFinite(requestedWeight) && requestedWeight > 0
+        ? requestedWeight
+        : estimateShipmentWeight(order.product_type || "custom", quantity);
+
+      const provider = getDefaultCourierProvider();
+      const shipmentId = planned?.id ?? crypto.randomUUID();
+      const booked = await provider.createShipment({
+        shipmentId,
+        orderId: order.id,
+        productType: order.product_type || "Custom",
+        quantity,
+        // Split shipments declare their share of the order value
+        declaredValue: Math.round(((Number(order.total_order_value) || 0) * quantity / orderQuantity) * 100) / 100,
+        weightKg,
+        pickup,
+        delivery,
+      });
+
+      const booking = {
+        provider: provider.name,
+        provider_shipment_id: booked.providerShipmentId,
+        awb_code: booked.awbCode,
+        courier_name: booked.courierName,
+        label_url: booked.labelUrl,
+        status: "pickup_scheduled",
+        weight_kg: weightKg,
+        pickup_address: pickup,
+        delivery_address: delivery,
+        pickup_scheduled_for: booked.pickupScheduledFor,
+        pickup_scheduled_at: new Date().toISOString(),
+        delivery_status: "PICKUP_SCHEDULED",
+      };
+
+      // The order's courier, tracking id and PICKUP_SCHEDULED follow from the shipment
+      const { error: saveError } = planned
+        ? await supabaseAdmin.from("shipments").update(booking).eq("id", planned.id)
+        : await supabaseAdmin.from("shipments").insert({
+          ...booking,
+          id: shipmentId,
+          order_id: order.id,
+          quantity,
+          created_by: user.id,
+        });
+      if (saveError) throw saveError;
+
+      return jsonResponse({
+        shipment_id: shipmentId,
+        provider: provider.name,
+        awb_code: booked.awbCode,
+        courier_name: booked.courierName,
+        pickup_scheduled_for: booked.pickupScheduledFor,
+      });
+    }
+
+    // ---------------------------------------------------------------
+    // create_rma_shipment
+    // ---------------------------------------------------------------
+    if (action === "create_rma_shipment") {
+      if (!isAdmin) {
+        return jsonResponse({ error: "Forbidden - Admin only" }, 403);
+      }
+
+      const direction = body.direction as string;
+      if (direction !== "return" && direction !== "outbound") {
+        return jsonResponse({ error: "direction must be return or outbound" }, 400);
+      }
+
+      const { data: rma } = await supabaseAdmin
+        .from("order_rmas")
+        .select("id, reference, order_id, manufacturer_id, status, return_required, return_received_at, remake_status, approved_quantity, address")
+        .eq("id", body.rma_id)
+        .maybeSingle();
+      if (!rma || !rma.manufacturer_id) {
+        return jsonResponse({ error: "Return not found" }, 404);
+      }
+      // Same preconditions as book_rma_shipment()
+      if (direction === "return" && (rma.status !== "approved" || !rma.return_required || rma.return_received_at)) {
+        return jsonResponse({ error: `Return ${rma.reference} is not waiting for a return pickup` }, 400);
+      }
+      if (direction === "outbound" && rma.remake_status !== "packed") {
+        return jsonResponse({ error: `Replacements for ${rma.reference} are not packed yet` }, 400);
+      }
+
+      const { count } = await supabaseAdmin
+        .from("shipments")
+        .select("id", { count: "exact", head: true })
+        .eq("rma_id", rma.id)
+        .eq("direction", direction);
+      if (count) {
+        return jsonResponse({ error: "This shipment is already booked" }, 400);
+      }
+
+      const { data: order } = await supabaseAdmin
+        .from("orders")
+        .select("id, product_type, quantity, total_order_value")
+        .eq("id", rma.order_id)
+        .single();
+      if (!order) {
+        return jsonResponse({ error: "Order not found" }, 404);
+      }
+
+      const factory = await fetchManufacturerAddress(supabaseAdmin, rma.manufacturer_id);
+      const buyer = rma.address as unknown as ShipmentAddress;
+      const pickup = direction === "return" ? buyer : factory;
+      const delivery = direction === "return" ? factory : buyer;
+
+      const quantity = rma.approved_quantity || 1;
+      const requestedWeight = Number(body.weight_kg);
+      const weightKg = Number.isFinite(requestedWeight) && requestedWeight > 0
+        ? requestedWeight
+        : estimateShipmentWeight(order.product_type || "custom", quantity);
+
+      const provider = getDefaultCourierProvider();
+      const shipmentId = crypto.randomUUID();
+      const booked = await provider.createShipment({
+        shipmentId,
+        orderId: order.id,
+        productType: order.product_type || "Custom",
+        quantity,
+        declaredValue: Math.round(((Number(order.total_order_value) || 0) * quantity / (order.quantity || 1)) * 100) / 100,
+        weightKg,
+        pickup,
+        delivery,
+        reverse: direction === "return",
+      });
+
+      // sync_rma_from_shipments moves the RMA along from here
+      const { error: saveError } = await supabaseAdmin.from("shipments").insert({
+        id: shipmentId,
+        order_id: order.id,
+        rma_id: rma.id,
+        direction,
+        label: `${direction === "return" ? "Return" : "Replacement"} ${rma.reference}`,
+        quantity,
+        provider: provider.name,
+        provider_shipment_id: booked.providerShipmentId,
+        awb_code: booked.awbCode,
+        courier_name: booked.courierName,
+        label_url: booked.labelUrl,
+        status: "pickup_scheduled",
+        weight_kg: weightKg,
+        pickup_address: pickup,
+        delivery_address: delivery,
+        pickup_scheduled_for: booked.pickupScheduledFor,
+        pickup_scheduled_at: new Date().toISOString(),
+        delivery_status: "PICKUP_SCHEDULED",
+        created_by: user.id,
+      });
+      if (saveError) throw saveError;
+
+      return jsonResponse({
+        shipment_id: shipmentId,
+        provider: provider.name,
+        awb_code: booked.awbCode,
+        courier_name: booked.courierName,
+        pickup_scheduled_for: booked.pickupScheduledFor,
+      });
+    }
+
+    // The remaining actions work on an existing shipment
+    const { data: shipment } = await supabaseAdmin
+      .from("shipments")
+      .select("*, orders(manufacturer_id)")
+      .eq("id", body.shipment_id)
+      .maybeSingle();
+
+    if (!shipment) {
+      return jsonResponse({ error: "Shipment not found" }, 404);
+    }
+    if (!isCourierProviderName(shipment.provider)) {
+      return jsonResponse({ error: "Shipment is not booked with a courier" }, 400);
+    }
+
+    const stored = shipment as unknown as StoredShipment;
+    const provider = getCourierProvider(shipment.provider);
+
+    // ---------------------------------------------------------------
+    // get_label
+    // ---------------------------------------------------------------
+    if (action === "get_label") {
+      const manufacturerId = (shipment.orders as { manufacturer_id: string | null } | null)?.manufacturer_id;
+      if (!isAdmin && manufacturerId !== user.id) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+
+      const label = await provider.getLabel(stored);
+      if ("url" in label) {
+        if (label.url !== shipment.label_url) {
+          await supabaseAdmin.from("shipments").update({ label_url: label.url }).eq("id", shipment.id);
+        }
+        return jsonResponse({ label_url: label.url });
+      }
+
+      return new Response(label.pdf, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="label-${shipment.awb_code}.pdf"`,
+        },
+      });
+    }
+
+    if (!isAdmin) {
+      return jsonResponse({ error: "Forbidden - Admin only" }, 403);
+    }
+
+    // ---------------------------------------------------------------
+    // sync
+    // ---------------------------------------------------------------
+    if (action === "sync") {
+      const events = await provider.fetchTracking(stored);
+      const results = await applyTrackingEvents(supabaseAdmin, shipment.provider, events);
+      return jsonResponse({ events: events.length, results });
+    }
+
+    // ---------------------------------------------------------------
+    // simulate_scan
+    // ---------------------------------------------------------------
+    if (action === "simulate_scan") {
+      if (shipment.provider !== "mock") {
+        return jsonResponse({ error: "Scans can only be simulated for the mock courier" }, 400);
+      }
+
+      const { data: received } = await supabaseAdmin
+        .from("shipment_tracking_events")
+        .select("raw_status")
+        .eq("shipment_id", shipment.id);
+
+      const step = nextMockStep(received || []);
+      if (step === null) {
+        return jsonResponse({ error: "Shipment is already delivered" }, 400);
+      }
+
+      const { rawBody, headers } = await signMockWebhook(stored, step);
+      const response = await fetch(`${supabaseUrl}/functions/v1/courier-webhook?provider=mock`, {
+        method: "POST",
+        headers,
+        body: rawBody,
+      });
+      const data = await response.json();
+
+      return jsonResponse({ step, result: data.results ?? data.error });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error: unknown) {
+    console.error("[courier-shipment] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
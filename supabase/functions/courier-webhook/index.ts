@@ -0,0 +1,56 @@
+/**
+ * Courier Webhook
+ *
+ * Receives tracking webhooks from the courier (?provider=shiprocket|mock).
+ * - Invalid / missing token or signature → 401, nothing recorded
+ * - Each scan is applied by apply_courier_tracking_event() exactly once per event id;
+ *   repeated deliveries come back as "duplicate" so the courier stops retrying
+ * - Scans drive PICKUP_SCHEDULED → IN_TRANSIT → DELIVERED as the system actor
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { applyTrackingEvents, getCourierProvider, isCourierProviderName } from "../_shared/couriers/index.ts";
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const providerName = new URL(req.url).searchParams.get("provider");
+  if (!isCourierProviderName(providerName)) {
+    return jsonResponse({ error: "Unknown courier provider" }, 400);
+  }
+
+  try {
+    const rawBody = await req.text();
+    const provider = getCourierProvider(providerName);
+
+    const events = await provider.verifyWebhook(rawBody, req.headers);
+    if (!events) {
+      console.warn(`[courier-webhook] Invalid signature from ${providerName}`);
+      return jsonResponse({ error: "Invalid signature" }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    // A database error throws and returns 500 so the courier retries; event ids keep it idempotent
+    const results = await applyTrackingEvents(supabaseAdmin, providerName, events);
+    console.log(`[courier-webhook] ${providerName}: ${JSON.stringify(results)}`);
+
+    return jsonResponse({ received: true, results });
+  } catch (error: unknown) {
+    console.error("[courier-webhook] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
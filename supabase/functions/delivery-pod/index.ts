@@ -0,0 +1,164 @@
+/**
+ * Delivery POD
+ *
+ * Public endpoint behind the courier's proof-of-delivery link (/pod/:token). No login:
+ * the link's token identifies the order, the buyer's OTP proves the hand-over.
+ * - action=lookup: order reference and whether delivery is already confirmed
+ * - action=confirm: OTP plus optional recipient name, photo and location; the photo is
+ *   stored under the order's delivery folder and kept only if the OTP is accepted
+ * confirm_delivery_pod() runs as the service role, i.e. as the courier; wrong OTPs are
+ * counted there and lock the OTP after five tries.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const sha256Hex = async (data: ArrayBuffer) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", data)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const optionalNumber = (value: FormDataEntryValue | null) => {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const form = await req.formData();
+    const action = form.get("action");
+    const token = form.get("token");
+    if (typeof token !== "string" || !UUID_PATTERN.test(token)) {
+      return jsonResponse({ error: "Invalid delivery link" }, 404);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const { data: otp } = await supabaseAdmin
+      .from("delivery_otps")
+      .select("order_id, failed_attempts")
+      .eq("courier_token", token)
+      .maybeSingle();
+    if (!otp) {
+      return jsonResponse({ error: "Invalid delivery link" }, 404);
+    }
+
+    const orderId = otp.order_id as string;
+
+    if (action === "lookup") {
+      const [{ data: order }, { data: proof }] = await Promise.all([
+        supabaseAdmin.from("orders").select("delivery_status").eq("id", orderId).single(),
+        supabaseAdmin.from("delivery_proofs").select("confirmed_at").eq("order_id", orderId).maybeSingle(),
+      ]);
+
+      return jsonResponse({
+        order_ref: orderId.slice(0, 8).toUpperCase(),
+        delivery_status: order?.delivery_status ?? null,
+        confirmed_at: proof?.confirmed_at ?? null,
+        locked: otp.failed_attempts >= 5,
+      });
+    }
+
+    if (action !== "confirm") {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+
+    const code = form.get("otp");
+    if (typeof code !== "string" || !/^\d{6}$/.test(code.trim())) {
+      return jsonResponse({ error: "Enter the 6-digit OTP from the buyer" }, 400);
+    }
+
+    // Photo first, so it can be referenced by the proof; removed again unless confirmed
+    let photoPath: string | undefined;
+    let photoName: string | undefined;
+    let photoSha256: string | undefined;
+    const photo = form.get("photo");
+    if (photo instanceof File && photo.size > 0) {
+      if (!photo.type.startsWith("image/")) {
+        return jsonResponse({ error: "The photo must be an image" }, 400);
+      }
+      if (photo.size > MAX_PHOTO_BYTES) {
+        return jsonResponse({ error: "The photo must be under 10 MB" }, 400);
+      }
+
+      const bytes = await photo.arrayBuffer();
+      photoSha256 = await sha256Hex(bytes);
+      photoName = photo.name || "delivery-photo.jpg";
+      photoPath = `${orderId}/delivery/${Date.now()}_pod_${photoName.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+
+      const { error: uploadError } = await supabaseAdmin.storage
+        .from("orders")
+        .upload(photoPath, bytes, { contentType: photo.type, upsert: false });
+      if (uploadError) {
+        console.error("[delivery-pod] Photo upload failed:", uploadError);
+        return jsonResponse({ error: "Failed to upload the photo" }, 500);
+      }
+    }
+
+    const recipientName = form.get("recipient_name");
+    const { data: result, error } = await supabaseAdmin.rpc("confirm_delivery_pod", {
+      _order_id: orderId,
+      _otp: code.trim(),
+      _recipient_name: typeof recipientName === "string" ? recipientName : undefined,
+      _photo_url: photoPath,
+      _photo_sha256: photoSha256,
+      _latitude: optionalNumber(form.get("latitude")),
+      _longitude: optionalNumber(form.get("longitude")),
+      _location_accuracy_m: optionalNumber(form.get("accuracy")),
+    });
+
+    if (error || result !== "confirmed") {
+      if (photoPath) {
+        await supabaseAdmin.storage.from("orders").remove([photoPath]);
+      }
+      if (error) {
+        console.error("[delivery-pod] Confirm failed:", error);
+        return jsonResponse({ error: error.message }, 400);
+      }
+      return jsonResponse({ result }, 200);
+    }
+
+    if (photoPath) {
+      await supabaseAdmin.from("order_files").insert({
+        order_id: orderId,
+        file_type: "delivery",
+        file_url: photoPath,
+        file_name: photoName,
+        uploaded_by: "system",
+      });
+    }
+
+    console.log(`[delivery-pod] Delivery confirmed by courier for order ${orderId}`);
+    return jsonResponse({ result });
+  } catch (error: unknown) {
+    console.error("[delivery-pod] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
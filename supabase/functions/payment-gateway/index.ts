@@ -0,0 +1,248 @@
+/**
+ * Payment Gateway
+ *
+ * Authenticated entry point to the configured PaymentProvider.
+ * Actions:
+ * - create_payment (admin): create a provider order / checkout link for an order
+ * - refund (admin): pay out a claimed ledger refund (order_refunds row) from the captured
+ *   payment of its order. The amount is reserved in payment_gateway_refunds under the ledger
+ *   refund's id, which is the provider's idempotency key, so a retried refund is not paid twice
+ * - simulate_checkout (buyer of the order or admin, simulator only): deliver a signed
+ *   success/failure webhook to payment-webhook, optionally more than once
+ *
+ * Payment capture is NEVER applied here - only payment-webhook moves payment_state.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getDefaultPaymentProvider, getPaymentProvider, isPaymentProviderName } from "../_shared/payments/index.ts";
+import { signSimulatorWebhook } from "../_shared/payments/simulator.ts";
+import type { ProviderRefundResult } from "../_shared/payments/types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Upper bound for simulated duplicate deliveries
+const MAX_SIMULATED_DELIVERIES = 3;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: roleData } = await supabaseAdmin
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .single();
+    const isAdmin = roleData?.role === "admin";
+
+    const body = await req.json();
+    const action = body?.action as string | undefined;
+
+    // ---------------------------------------------------------------
+    // create_payment
+    // ---------------------------------------------------------------
+    if (action === "create_payment") {
+      if (!isAdmin) {
+        return jsonResponse({ error: "Forbidden - Admin only" }, 403);
+      }
+
+      const { data: order, error: orderError } = await supabaseAdmin
+        .from("orders")
+        .select("id, order_state, manufacturer_id, total_order_value, product_type, quantity")
+        .eq("id", body.order_id)
+        .single();
+
+      if (orderError || !order) {
+        return jsonResponse({ error: "Order not found" }, 404);
+      }
+      if (!["MANUFACTURER_ASSIGNED", "PAYMENT_REQUESTED"].includes(order.order_state) || !order.manufacturer_id) {
+        return jsonResponse({ error: `Cannot create payment in state ${order.order_state}` }, 400);
+      }
+
+      const amount = Number(order.total_order_value);
+      if (!amount || amount <= 0) {
+        return jsonResponse({ error: "Order has no total value to charge" }, 400);
+      }
+
+      const provider = getDefaultPaymentProvider();
+      const intentId = crypto.randomUUID();
+      const providerOrder = await provider.createOrder({
+        intentId,
+        orderId: order.id,
+        amount,
+        currency: "INR",
+        description: `Order ${order.id.slice(0, 8)} - ${order.quantity ?? ""} ${order.product_type ?? "items"}`.trim(),
+        appBaseUrl: req.headers.get("origin") || Deno.env.get("APP_BASE_URL") || "",
+      });
+
+      const { error: insertError } = await supabaseAdmin.from("payment_intents").insert({
+        id: intentId,
+        order_id: order.id,
+        provider: provider.name,
+        provider_order_id: providerOrder.providerOrderId,
+        amount,
+        currency: "INR",
+        checkout_url: providerOrder.checkoutUrl,
+        created_by: user.id,
+      });
+      if (insertError) throw insertError;
+
+      return jsonResponse({
+        intent_id: intentId,
+        provider: provider.name,
+        provider_order_id: providerOrder.providerOrderId,
+        checkout_url: providerOrder.checkoutUrl,
+        amount,
+      });
+    }
+
+    // ---------------------------------------------------------------
+    // refund
+    // ---------------------------------------------------------------
+    if (action === "refund") {
+      if (!isAdmin) {
+        return jsonResponse({ error: "Forbidden - Admin only" }, 403);
+      }
+
+      if (!body.refund_id) {
+        return jsonResponse({ error: "refund_id is required" }, 400);
+      }
+
+      // Lock the captured intent and reserve the amount before talking to the provider, so
+      // concurrent refunds cannot both pass the refundable-balance check
+      const { data: reservation, error: reserveError } = await supabaseAdmin.rpc("reserve_gateway_refund", {
+        _refund_id: body.refund_id,
+        _requested_by: user.id,
+      });
+      if (reserveError) {
+        return jsonResponse({ error: reserveError.message }, 400);
+      }
+
+      if (!reservation.reserved || !isPaymentProviderName(reservation.provider)) {
+        // Nothing was captured through a gateway (e.g. manually confirmed payment)
+        return jsonResponse({ refunded: false, reason: reservation.reason ?? "No captured gateway payment for this order" });
+      }
+
+      if (reservation.already_processed) {
+        // An earlier attempt was refunded and booked but the approval failed afterwards
+        return jsonResponse({
+          refunded: true,
+          provider: reservation.provider,
+          refund_id: reservation.provider_refund_id,
+          amount: Number(reservation.amount),
+        });
+      }
+
+      const amount = Number(reservation.amount);
+      let refund: ProviderRefundResult;
+      try {
+        refund = await getPaymentProvider(reservation.provider).refund(
+          reservation.provider_payment_id,
+          amount,
+          String(reservation.refund_reason),
+          reservation.refund_id
+        );
+      } catch (providerError) {
+        await supabaseAdmin.rpc("release_gateway_refund", {
+          _refund_id: reservation.refund_id,
+          _failure_reason: providerError instanceof Error ? providerError.message : "Refund failed",
+        });
+        throw providerError;
+      }
+
+      const { data: confirmation, error: confirmError } = await supabaseAdmin.rpc("confirm_gateway_refund", {
+        _refund_id: reservation.refund_id,
+        _provider_refund_id: refund.providerRefundId,
+      });
+      if (confirmError) {
+        // The provider refunded - the reservation stays pending so the amount cannot be refunded again
+        console.error("[payment-gateway] Refund processed but not booked:", reservation.refund_id, confirmError);
+        throw confirmError;
+      }
+
+      return jsonResponse({
+        refunded: true,
+        provider: reservation.provider,
+        refund_id: refund.providerRefundId,
+        refund_status: refund.status,
+        amount,
+        fully_refunded: confirmation.fully_refunded,
+      });
+    }
+
+    // ---------------------------------------------------------------
+    // simulate_checkout
+    // ---------------------------------------------------------------
+    if (action === "simulate_checkout") {
+      const { data: intent } = await supabaseAdmin
+        .from("payment_intents")
+        .select("id, order_id, provider, provider_order_id, amount, status, orders(buyer_id)")
+        .eq("provider_order_id", body.provider_order_id)
+        .maybeSingle();
+
+      if (!intent || intent.provider !== "simulator") {
+        return jsonResponse({ error: "Simulator payment not found" }, 404);
+      }
+
+      const buyerId = (intent.orders as { buyer_id: string | null } | null)?.buyer_id;
+      if (!isAdmin && buyerId !== user.id) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+
+      const success = body.outcome !== "failure";
+      const { rawBody, headers } = await signSimulatorWebhook({
+        id: `sim_evt_${crypto.randomUUID()}`,
+        event: success ? "payment.captured" : "payment.failed",
+        order_id: intent.provider_order_id,
+        payment_id: `sim_pay_${crypto.randomUUID()}`,
+        amount: Number(intent.amount),
+        failure_reason: success ? null : "Declined in simulator",
+      });
+
+      const deliveries = Math.min(Math.max(Number(body.deliveries) || 1, 1), MAX_SIMULATED_DELIVERIES);
+      const results: unknown[] = [];
+      for (let i = 0; i < deliveries; i++) {
+        const response = await fetch(`${supabaseUrl}/functions/v1/payment-webhook?provider=simulator`, {
+          method: "POST",
+          headers,
+          body: rawBody,
+        });
+        const data = await response.json();
+        results.push(data.result ?? data.error);
+      }
+
+      return jsonResponse({ outcome: success ? "success" : "failure", results });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error: unknown) {
+    console.error("[payment-gateway] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,90 @@
+/**
+ * Payment Webhook
+ *
+ * Receives signed webhooks from the payment provider (?provider=razorpay|simulator).
+ * - Invalid / missing signature → 401, nothing recorded
+ * - Verified events are applied by apply_payment_webhook() exactly once per event id;
+ *   repeated deliveries return 200 with result "duplicate" so the provider stops retrying
+ * - A newly captured payment gets its GST tax invoice issued
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider, isPaymentProviderName } from "../_shared/payments/index.ts";
+import { issueOrderInvoice } from "../_shared/invoices/index.ts";
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const providerName = new URL(req.url).searchParams.get("provider");
+  if (!isPaymentProviderName(providerName)) {
+    return jsonResponse({ error: "Unknown payment provider" }, 400);
+  }
+
+  try {
+    const rawBody = await req.text();
+    const provider = getPaymentProvider(providerName);
+
+    const event = await provider.verifyWebhook(rawBody, req.headers);
+    if (!event) {
+      console.warn(`[payment-webhook] Invalid signature from ${providerName}`);
+      return jsonResponse({ error: "Invalid signature" }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const { data: result, error } = await supabaseAdmin.rpc("apply_payment_webhook", {
+      _provider: providerName,
+      _event_id: event.eventId,
+      _event_type: event.type,
+      _provider_order_id: event.providerOrderId,
+      _provider_payment_id: event.providerPaymentId,
+      _amount: event.amount,
+      _payload: { ...event.raw, failure_reason: event.failureReason ?? null },
+    });
+
+    if (error) {
+      // 500 makes the provider retry; the event id keeps the retry idempotent
+      console.error("[payment-webhook] Failed to apply event:", error);
+      return jsonResponse({ error: error.message }, 500);
+    }
+
+    console.log(`[payment-webhook] ${providerName} ${event.type} ${event.eventId}: ${result}`);
+
+    // Captured payments get their tax invoice straight away; a failure here (e.g. missing
+    // GSTIN) must not make the provider retry, so it is only logged for an admin to fix
+    if (result === "captured") {
+      try {
+        const { data: intent } = await supabaseAdmin
+          .from("payment_intents")
+          .select("order_id")
+          .eq("provider", providerName)
+          .eq("provider_order_id", event.providerOrderId)
+          .single();
+        if (intent) {
+          const invoice = await issueOrderInvoice(supabaseAdmin, intent.order_id, null);
+          console.log(`[payment-webhook] Issued invoice ${invoice.document?.document_number} for order ${intent.order_id}`);
+        }
+      } catch (invoiceError: unknown) {
+        console.error("[payment-webhook] Tax invoice not issued:", invoiceError);
+      }
+    }
+
+    return jsonResponse({ received: true, result });
+  } catch (error: unknown) {
+    console.error("[payment-webhook] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,101 @@
+/**
+ * Payout Statement
+ *
+ * Renders the PDF statement of a payout batch for the batch's manufacturer or an
+ * admin. The CSV statement is built client-side from the same rows.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { renderPayoutStatementPdf } from "./statement.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json();
+    const batchId = body?.batch_id as string | undefined;
+    if (!batchId) {
+      return jsonResponse({ error: "batch_id is required" }, 400);
+    }
+
+    const { data: batch } = await supabaseAdmin
+      .from("payout_batches")
+      .select("*")
+      .eq("id", batchId)
+      .single();
+    if (!batch) {
+      return jsonResponse({ error: "Payout batch not found" }, 404);
+    }
+
+    if (batch.manufacturer_id !== user.id) {
+      const { data: roleData } = await supabaseAdmin
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .single();
+      if (roleData?.role !== "admin") {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+    }
+
+    const [{ data: items }, { data: profile }] = await Promise.all([
+      supabaseAdmin
+        .from("payout_batch_items")
+        .select("*")
+        .eq("batch_id", batch.id)
+        .order("released_at"),
+      supabaseAdmin
+        .from("profiles")
+        .select("company_name, email, gstin")
+        .eq("id", batch.manufacturer_id)
+        .single(),
+    ]);
+
+    const pdfBytes = await renderPayoutStatementPdf({
+      ...batch,
+      manufacturer_name: profile?.company_name || profile?.email || "Manufacturer",
+      manufacturer_email: profile?.email ?? null,
+      manufacturer_gstin: profile?.gstin ?? null,
+      items: items ?? [],
+    });
+
+    return new Response(pdfBytes, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${batch.reference}.pdf"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[payout-statement] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
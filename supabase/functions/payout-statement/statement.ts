@@ -0,0 +1,213 @@
+/**
+ * Payout statement PDF (A4, standard fonts)
+ *
+ * One line per order in the batch, continued over as many pages as needed,
+ * followed by the batch totals.
+ */
+
+import { PDFDocument, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import type { PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+
+export interface PayoutStatementItem {
+  order_id: string;
+  released_at: string | null;
+  order_value: number;
+  delivery_cost: number;
+  commission_rate: number;
+  commission_amount: number;
+  refund_amount: number;
+  net_amount: number;
+}
+
+export interface PayoutStatementInput {
+  reference: string;
+  manufacturer_name: string;
+  manufacturer_email: string | null;
+  manufacturer_gstin: string | null;
+  period_start: string;
+  period_end: string;
+  status: 'pending' | 'paid' | 'failed';
+  payment_reference: string | null;
+  paid_at: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  gross_amount: number;
+  delivery_amount: number;
+  commission_amount: number;
+  refund_amount: number;
+  // Refunds on orders paid out in earlier batches, net of commission
+  carried_refund_amount: number;
+  // Deductions for factory-fault returns (payout_adjustments)
+  adjustment_amount: number;
+  net_amount: number;
+  items: PayoutStatementItem[];
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const ROW_HEIGHT = 14;
+
+// Order | Released | Order value | Delivery | Commission | Refunds | Net payout
+const COLUMNS = [
+  { title: 'Order', width: 95 },
+  { title: 'Released', width: 70 },
+  { title: 'Order value', width: 72 },
+  { title: 'Delivery', width: 60 },
+  { title: 'Commission', width: 78 },
+  { title: 'Refunds', width: 60 },
+  { title: 'Net payout', width: 80 },
+];
+
+const STATUS_LABELS: Record<PayoutStatementInput['status'], string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  failed: 'Failed',
+};
+
+const safeText = (value: string | null | undefined) =>
+  (value ?? '').replace(/₹/g, 'Rs.').replace(/[^\x20-\x7E]/g, '');
+
+const money = (value: number) =>
+  Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+export async function renderPayoutStatementPdf(statement: PayoutStatementInput): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const grey = rgb(0.4, 0.4, 0.4);
+  const tableWidth = PAGE_WIDTH - 2 * MARGIN;
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+  const text = (value: string, x: number, y: number, size = 9, useFont = font, color = rgb(0, 0, 0)) =>
+    page.drawText(safeText(value), { x, y, size, font: useFont, color });
+  const rightText = (value: string, right: number, y: number, size = 9, useFont = font) =>
+    text(value, right - useFont.widthOfTextAtSize(safeText(value), size), y, size, useFont);
+
+  const drawTableHeader = (y: number) => {
+    page.drawRectangle({ x: MARGIN, y: y - 4, width: tableWidth, height: 16, color: rgb(0.93, 0.93, 0.93) });
+    let x = MARGIN;
+    COLUMNS.forEach((column, i) => {
+      if (i < 2) {
+        text(column.title, x + 2, y, 8, bold);
+      } else {
+        rightText(column.title, x + column.width - 2, y, 8, bold);
+      }
+      x += column.width;
+    });
+    return y - 18;
+  };
+
+  pdf.setTitle(`Payout Statement ${statement.reference}`);
+
+  // Header
+  let y = PAGE_HEIGHT - MARGIN - 10;
+  text('PAYOUT STATEMENT', MARGIN, y, 18, bold);
+  rightText(statement.reference, PAGE_WIDTH - MARGIN, y + 4, 10, bold);
+  rightText(`Generated: ${formatDate(statement.created_at)}`, PAGE_WIDTH - MARGIN, y - 10);
+  y -= 40;
+
+  text('MANUFACTURER', MARGIN, y, 8, bold, grey);
+  y -= 13;
+  text(statement.manufacturer_name, MARGIN, y, 10, bold);
+  if (statement.manufacturer_email) {
+    y -= 12;
+    text(statement.manufacturer_email, MARGIN, y);
+  }
+  if (statement.manufacturer_gstin) {
+    y -= 12;
+    text(`GSTIN: ${statement.manufacturer_gstin}`, MARGIN, y);
+  }
+  y -= 20;
+
+  text(`Settlement period: ${formatDate(statement.period_start)} - ${formatDate(statement.period_end)}`, MARGIN, y);
+  rightText(`Status: ${STATUS_LABELS[statement.status]}`, PAGE_WIDTH - MARGIN, y, 9, bold);
+  y -= 12;
+  if (statement.status === 'paid' && statement.payment_reference) {
+    text(
+      `Paid${statement.paid_at ? ` on ${formatDate(statement.paid_at)}` : ''} - reference ${statement.payment_reference}`,
+      MARGIN,
+      y
+    );
+    y -= 12;
+  }
+  if (statement.status === 'failed' && statement.failure_reason) {
+    text(`Payout failed: ${statement.failure_reason}`, MARGIN, y);
+    y -= 12;
+  }
+  y -= 10;
+
+  // Orders
+  y = drawTableHeader(y);
+  for (const item of statement.items) {
+    if (y < MARGIN + 40) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = drawTableHeader(PAGE_HEIGHT - MARGIN - 10);
+    }
+
+    const cells = [
+      item.order_id.slice(0, 8).toUpperCase(),
+      item.released_at ? formatDate(item.released_at) : '-',
+      money(item.order_value),
+      money(item.delivery_cost),
+      `${money(item.commission_amount)} (${Math.round(Number(item.commission_rate) * 10000) / 100}%)`,
+      item.refund_amount ? money(item.refund_amount) : '-',
+      money(item.net_amount),
+    ];
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      const column = COLUMNS[i];
+      if (i < 2) {
+        text(cell, x + 2, y, 8);
+      } else {
+        rightText(cell, x + column.width - 2, y, 8);
+      }
+      x += column.width;
+    });
+    y -= ROW_HEIGHT;
+  }
+
+  page.drawLine({
+    start: { x: MARGIN, y: y + 6 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y + 6 },
+    thickness: 0.5,
+    color: grey,
+  });
+  y -= 8;
+
+  // Totals
+  if (y < MARGIN + 100) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN - 10;
+  }
+  const totals: [string, number][] = [
+    [`Order value (${statement.items.length} orders)`, statement.gross_amount],
+    ['Less: delivery cost', -statement.delivery_amount],
+    ['Less: platform commission', -statement.commission_amount],
+    ['Less: refunds', -statement.refund_amount],
+  ];
+  if (Number(statement.carried_refund_amount) > 0) {
+    totals.push(['Less: refunds on earlier payouts', -statement.carried_refund_amount]);
+  }
+  if (Number(statement.adjustment_amount) > 0) {
+    totals.push(['Less: return deductions', -statement.adjustment_amount]);
+  }
+  for (const [label, amount] of totals) {
+    text(label, PAGE_WIDTH - MARGIN - 240, y);
+    rightText(`${amount < 0 ? '- ' : ''}Rs. ${money(Math.abs(amount))}`, PAGE_WIDTH - MARGIN, y);
+    y -= 13;
+  }
+  text('Net payout', PAGE_WIDTH - MARGIN - 240, y - 2, 11, bold);
+  rightText(`Rs. ${money(statement.net_amount)}`, PAGE_WIDTH - MARGIN, y - 2, 11, bold);
+  y -= 30;
+
+  text('All amounts in INR. Commission is charged on the order value excluding delivery and refunds.', MARGIN, y, 8, font, grey);
+
+  text('This is a computer-generated statement and does not require a signature.', MARGIN, MARGIN, 7, font, grey);
+
+  return await pdf.save();
+}
@@ -0,0 +1,109 @@
+/**
+ * Price Quote
+ *
+ * Authoritative order pricing from the active price book.
+ * Actions:
+ * - estimate: price breakdown for the order form (nothing stored)
+ * - quote: signed quote valid for the book's quote_validity_minutes; the order
+ *   insert must reference it (price_quote_id) and takes its amounts from it
+ * - verify: re-check a stored quote's signature (the quote's buyer or an admin)
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  PricingError,
+  createPriceQuote,
+  loadActivePriceBook,
+  parseQuoteRequest,
+  priceQuote,
+  verifyPriceQuote,
+} from "../_shared/pricing/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json();
+    const action = body?.action as string | undefined;
+
+    if (action === "estimate") {
+      const priceBook = await loadActivePriceBook(supabaseAdmin);
+      const breakdown = priceQuote(priceBook, parseQuoteRequest(body));
+      return jsonResponse({ price_book: priceBook.name, ...breakdown });
+    }
+
+    if (action === "quote") {
+      const { quote, breakdown, priceBook } = await createPriceQuote(supabaseAdmin, user.id, parseQuoteRequest(body));
+      return jsonResponse({
+        quote_id: quote.id,
+        signature: quote.signature,
+        expires_at: quote.expires_at,
+        price_book: priceBook.name,
+        ...breakdown,
+      });
+    }
+
+    if (action === "verify") {
+      const { data: quote } = await supabaseAdmin
+        .from("price_quotes")
+        .select("id, buyer_id, price_book_id, product_type, quantity, unit_price, goods_subtotal, rush_fee, delivery_cost, total_amount, delivery_pincode, signature, expires_at")
+        .eq("id", String(body.quote_id))
+        .single();
+      if (!quote) {
+        return jsonResponse({ error: "Price quote not found" }, 404);
+      }
+
+      if (quote.buyer_id !== user.id) {
+        const { data: roleData } = await supabaseAdmin
+          .from("user_roles")
+          .select("role")
+          .eq("user_id", user.id)
+          .single();
+        if (roleData?.role !== "admin") {
+          return jsonResponse({ error: "Forbidden" }, 403);
+        }
+      }
+
+      return jsonResponse({
+        valid: await verifyPriceQuote(quote),
+        expired: new Date(quote.expires_at) < new Date(),
+      });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error: unknown) {
+    if (error instanceof PricingError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    console.error("[price-quote] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
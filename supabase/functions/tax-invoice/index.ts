@@ -0,0 +1,87 @@
+/**
+ * Tax Invoice
+ *
+ * Issues GST tax documents for an order (admin).
+ * Actions:
+ * - issue_invoice: tax invoice for an order whose payment has been captured
+ * - issue_credit_note: credit note for an approved refund (skipped if the order
+ *   was never invoiced)
+ *
+ * Invoices for gateway payments are also issued automatically by payment-webhook.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { TaxDocumentError, issueOrderInvoice, issueRefundCreditNote } from "../_shared/invoices/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: roleData } = await supabaseAdmin
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .single();
+    if (roleData?.role !== "admin") {
+      return jsonResponse({ error: "Forbidden - Admin only" }, 403);
+    }
+
+    const body = await req.json();
+    const action = body?.action as string | undefined;
+
+    let result;
+    if (action === "issue_invoice") {
+      result = await issueOrderInvoice(supabaseAdmin, String(body.order_id), user.id);
+    } else if (action === "issue_credit_note") {
+      result = await issueRefundCreditNote(supabaseAdmin, String(body.refund_id), user.id);
+    } else {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+    if (!result.document) {
+      return jsonResponse({ issued: false, reason: result.skippedReason });
+    }
+
+    return jsonResponse({
+      issued: true,
+      created: result.created,
+      document_id: result.document.id,
+      document_number: result.document.document_number,
+      pdf_path: result.document.pdf_path,
+    });
+  } catch (error: unknown) {
+    if (error instanceof TaxDocumentError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    console.error("[tax-invoice] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,89 @@
+-- Add ON_HOLD and CANCELLED order states
+ALTER TYPE public.order_state ADD VALUE IF NOT EXISTS 'ON_HOLD';
+ALTER TYPE public.order_state ADD VALUE IF NOT EXISTS 'CANCELLED';
+
+-- Cancellation tracking
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS cancelled_by UUID;
+
+-- Hold tracking: the state the order was in when held, so it can resume there
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS hold_reason TEXT;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS hold_previous_state TEXT;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS held_at TIMESTAMPTZ;
+
+-- Field locks: ON_HOLD keeps the locks of the held state, CANCELLED locks everything
+CREATE OR REPLACE FUNCTION public.enforce_order_field_locks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  state_order TEXT[] := ARRAY['DRAFT', 'SUBMITTED', 'MANUFACTURER_ASSIGNED', 'SAMPLE_IN_PROGRESS', 'SAMPLE_QC_UPLOADED', 'SAMPLE_APPROVED', 'BULK_UNLOCKED', 'BULK_IN_PRODUCTION', 'BULK_QC_UPLOADED', 'READY_FOR_DISPATCH', 'DISPATCHED', 'DELIVERED', 'COMPLETED'];
+  effective_state TEXT;
+  old_state_index INT;
+  submitted_index INT := 2; -- SUBMITTED is index 2 (1-based)
+  sample_approved_index INT := 6; -- SAMPLE_APPROVED is index 6
+  bulk_unlocked_index INT := 7; -- BULK_UNLOCKED is index 7
+BEGIN
+  effective_state := CASE OLD.order_state::text
+    WHEN 'ON_HOLD' THEN OLD.hold_previous_state
+    WHEN 'CANCELLED' THEN 'COMPLETED'
+    ELSE OLD.order_state::text
+  END;
+
+  -- Get the index of the effective OLD order_state
+  old_state_index := array_position(state_order, effective_state);
+  
+  -- If no valid old state, allow the update
+  IF old_state_index IS NULL THEN
+    RETURN NEW;
+  END IF;
+  
+  -- LOCK LEVEL 1: After SUBMITTED (index >= 2)
+  -- Lock: buyer_notes, quantity, buyer_purpose, product_category
+  IF old_state_index >= submitted_index THEN
+    IF OLD.buyer_notes IS DISTINCT FROM NEW.buyer_notes THEN
+      RAISE EXCEPTION 'Field ''buyer_notes'' cannot be modified after SUBMITTED';
+    END IF;
+    
+    IF OLD.buyer_purpose IS DISTINCT FROM NEW.buyer_purpose THEN
+      RAISE EXCEPTION 'Field ''buyer_purpose'' cannot be modified after SUBMITTED';
+    END IF;
+    
+    IF OLD.product_category IS DISTINCT FROM NEW.product_category THEN
+      RAISE EXCEPTION 'Field ''product_category'' cannot be modified after SUBMITTED';
+    END IF;
+    
+    IF OLD.quantity IS DISTINCT FROM NEW.quantity THEN
+      RAISE EXCEPTION 'Field ''quantity'' cannot be modified after SUBMITTED';
+    END IF;
+  END IF;
+  
+  -- LOCK LEVEL 2: After SAMPLE_APPROVED (index >= 6)
+  -- Lock: fabric_type, selected_color, corrected_csv_url (size distribution)
+  IF old_state_index >= sample_approved_index THEN
+    IF OLD.fabric_type IS DISTINCT FROM NEW.fabric_type THEN
+      RAISE EXCEPTION 'Field ''fabric_type'' cannot be modified after SAMPLE_APPROVED';
+    END IF;
+    
+    IF OLD.selected_color IS DISTINCT FROM NEW.selected_color THEN
+      RAISE EXCEPTION 'Field ''selected_color'' cannot be modified after SAMPLE_APPROVED';
+    END IF;
+    
+    IF OLD.corrected_csv_url IS DISTINCT FROM NEW.corrected_csv_url THEN
+      RAISE EXCEPTION 'Field ''size_distribution_csv'' cannot be modified after SAMPLE_APPROVED';
+    END IF;
+  END IF;
+  
+  -- LOCK LEVEL 3: After BULK_UNLOCKED (index >= 7) - quantity is absolutely immutable
+  IF old_state_index >= bulk_unlocked_index THEN
+    IF OLD.quantity IS DISTINCT FROM NEW.quantity THEN
+      RAISE EXCEPTION 'Field ''quantity'' cannot be modified after BULK_UNLOCKED - quantity is permanently locked';
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
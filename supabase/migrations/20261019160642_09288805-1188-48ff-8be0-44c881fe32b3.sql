@@ -0,0 +1,836 @@
+-- GENERATED FROM src/lib/orderWorkflow.ts (order workflow). DO NOT EDIT BY HAND.
+-- Regenerate with: npm run workflow:sql
+CREATE OR REPLACE FUNCTION public.validate_order_state_transition()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- If order_state is not changing, allow the update
+  IF OLD.order_state IS NOT DISTINCT FROM NEW.order_state THEN
+    RETURN NEW;
+  END IF;
+
+  -- If old state is NULL, only allow initial states
+  IF OLD.order_state IS NULL THEN
+    IF NEW.order_state::text IN ('DRAFT', 'SUBMITTED') THEN
+      NEW.state_updated_at := now();
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Invalid state transition: NULL -> %. Must start in one of: DRAFT, SUBMITTED.', NEW.order_state;
+  END IF;
+
+  IF OLD.order_state::text = 'DRAFT' AND NEW.order_state::text = 'SUBMITTED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SUBMITTED' AND NEW.order_state::text = 'ADMIN_APPROVED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ADMIN_APPROVED' AND NEW.order_state::text = 'MANUFACTURER_ASSIGNED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'MANUFACTURER_ASSIGNED' AND NEW.order_state::text = 'PAYMENT_REQUESTED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_REQUESTED' AND NEW.order_state::text = 'PAYMENT_CONFIRMED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role) OR auth.uid() IS NULL) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin, system.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_CONFIRMED' AND NEW.order_state::text = 'SAMPLE_QC_UPLOADED' THEN
+    IF NOT (has_role(auth.uid(), 'manufacturer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: manufacturer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: specs_locked
+    IF NOT (NEW.specs_locked IS TRUE) THEN
+      RAISE EXCEPTION 'Specs must be locked by admin before production can start.';
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_CONFIRMED' AND NEW.order_state::text = 'SAMPLE_IN_PROGRESS' THEN
+    IF NOT (has_role(auth.uid(), 'manufacturer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: manufacturer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: specs_locked
+    IF NOT (NEW.specs_locked IS TRUE) THEN
+      RAISE EXCEPTION 'Specs must be locked by admin before production can start.';
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_CONFIRMED' AND NEW.order_state::text = 'BULK_IN_PRODUCTION' THEN
+    IF NOT (has_role(auth.uid(), 'manufacturer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: manufacturer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: specs_locked
+    IF NOT (NEW.specs_locked IS TRUE) THEN
+      RAISE EXCEPTION 'Specs must be locked by admin before production can start.';
+    END IF;
+    -- Guard: csv_for_bulk
+    IF NOT (NEW.buyer_purpose IS DISTINCT FROM 'merch_bulk' OR NEW.corrected_csv_url IS NOT NULL) THEN
+      RAISE EXCEPTION 'CSV required before bulk production. Please upload CSV with sizes and names.';
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_IN_PROGRESS' AND NEW.order_state::text = 'SAMPLE_QC_UPLOADED' THEN
+    IF NOT (has_role(auth.uid(), 'manufacturer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: manufacturer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_QC_UPLOADED' AND NEW.order_state::text = 'SAMPLE_APPROVED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_QC_UPLOADED' AND NEW.order_state::text = 'SAMPLE_IN_PROGRESS' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_APPROVED' AND NEW.order_state::text = 'BULK_UNLOCKED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR auth.uid() IS NULL) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin, system.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: csv_for_bulk
+    IF NOT (NEW.buyer_purpose IS DISTINCT FROM 'merch_bulk' OR NEW.corrected_csv_url IS NOT NULL) THEN
+      RAISE EXCEPTION 'CSV required before bulk production. Please upload CSV with sizes and names.';
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_APPROVED' AND NEW.order_state::text = 'COMPLETED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR auth.uid() IS NULL) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin, system.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_UNLOCKED' AND NEW.order_state::text = 'BULK_IN_PRODUCTION' THEN
+    IF NOT (has_role(auth.uid(), 'manufacturer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: manufacturer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: specs_locked
+    IF NOT (NEW.specs_locked IS TRUE) THEN
+      RAISE EXCEPTION 'Specs must be locked by admin before production can start.';
+    END IF;
+    -- Guard: csv_for_bulk
+    IF NOT (NEW.buyer_purpose IS DISTINCT FROM 'merch_bulk' OR NEW.corrected_csv_url IS NOT NULL) THEN
+      RAISE EXCEPTION 'CSV required before bulk production. Please upload CSV with sizes and names.';
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_IN_PRODUCTION' AND NEW.order_state::text = 'BULK_QC_UPLOADED' THEN
+    IF NOT (has_role(auth.uid(), 'manufacturer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: manufacturer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_QC_UPLOADED' AND NEW.order_state::text = 'READY_FOR_DISPATCH' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_QC_UPLOADED' AND NEW.order_state::text = 'BULK_IN_PRODUCTION' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'READY_FOR_DISPATCH' AND NEW.order_state::text = 'DISPATCHED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role) OR auth.uid() IS NULL) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin, system.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'DISPATCHED' AND NEW.order_state::text = 'DELIVERED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'buyer'::app_role) OR auth.uid() IS NULL) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin, buyer, system.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'DELIVERED' AND NEW.order_state::text = 'COMPLETED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'buyer'::app_role) OR auth.uid() IS NULL) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin, buyer, system.', OLD.order_state, NEW.order_state;
+    END IF;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'DRAFT' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SUBMITTED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ADMIN_APPROVED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'MANUFACTURER_ASSIGNED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_REQUESTED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'buyer'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: buyer, admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_CONFIRMED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_IN_PROGRESS' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_QC_UPLOADED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_APPROVED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_UNLOCKED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_IN_PRODUCTION' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_QC_UPLOADED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'READY_FOR_DISPATCH' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'DISPATCHED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'DELIVERED' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'CANCELLED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: cancellation_reason
+    IF NOT (NULLIF(trim(NEW.cancellation_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order.';
+    END IF;
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SUBMITTED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'SUBMITTED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ADMIN_APPROVED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'ADMIN_APPROVED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'MANUFACTURER_ASSIGNED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'MANUFACTURER_ASSIGNED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_REQUESTED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'PAYMENT_REQUESTED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'PAYMENT_CONFIRMED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'PAYMENT_CONFIRMED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_IN_PROGRESS' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'SAMPLE_IN_PROGRESS' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_QC_UPLOADED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'SAMPLE_QC_UPLOADED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'SAMPLE_APPROVED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'SAMPLE_APPROVED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_UNLOCKED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'BULK_UNLOCKED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_IN_PRODUCTION' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'BULK_IN_PRODUCTION' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'BULK_QC_UPLOADED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'BULK_QC_UPLOADED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'READY_FOR_DISPATCH' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'READY_FOR_DISPATCH' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'DISPATCHED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'DISPATCHED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'DELIVERED' AND NEW.order_state::text = 'ON_HOLD' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: hold_reason
+    IF NOT (NULLIF(trim(NEW.hold_reason), '') IS NOT NULL) THEN
+      RAISE EXCEPTION 'A reason is required to put an order on hold.';
+    END IF;
+    NEW.hold_previous_state := OLD.order_state::text;
+    NEW.held_at := now();
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.order_state::text = 'ON_HOLD' AND NEW.order_state::text = 'DELIVERED' THEN
+    IF NOT (has_role(auth.uid(), 'admin'::app_role)) THEN
+      RAISE EXCEPTION 'Transition % -> % is not allowed for this role. Allowed: admin.', OLD.order_state, NEW.order_state;
+    END IF;
+    -- Guard: resume_previous_state
+    IF NOT (OLD.hold_previous_state = NEW.order_state::text) THEN
+      RAISE EXCEPTION 'Order can only resume to the state it was in before being put on hold.';
+    END IF;
+    NEW.hold_previous_state := NULL;
+    NEW.held_at := NULL;
+    NEW.state_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Invalid state transition: % -> %. This transition is not allowed.', OLD.order_state, NEW.order_state;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS enforce_order_state_transition ON public.orders;
+CREATE TRIGGER enforce_order_state_transition
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_order_state_transition();
@@ -0,0 +1,195 @@
+-- SLA engine: configurable delay thresholds, breach tracking and a scheduled evaluation job
+-- Replaces the hard-coded THRESHOLDS in OrderDelayFlags with a policy table.
+
+-- 1. SLA policies (per metric, optionally scoped to order_mode and/or buyer_type)
+CREATE TABLE IF NOT EXISTS public.sla_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  metric text NOT NULL CHECK (metric IN ('acceptance', 'sample_qc', 'bulk_qc', 'delivery')),
+  order_mode public.order_mode,
+  buyer_type public.buyer_type,
+  warning_hours numeric NOT NULL CHECK (warning_hours > 0),
+  critical_hours numeric NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT sla_policies_critical_after_warning CHECK (critical_hours > warning_hours)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sla_policies_scope_unique
+  ON public.sla_policies (metric, COALESCE(order_mode::text, '*'), COALESCE(buyer_type::text, '*'))
+  WHERE is_active;
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage SLA policies"
+ON public.sla_policies
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view SLA policies"
+ON public.sla_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Default policies (same values OrderDelayFlags used to hard-code)
+INSERT INTO public.sla_policies (name, metric, warning_hours, critical_hours) VALUES
+  ('Default manufacturer acceptance', 'acceptance', 24, 48),
+  ('Default sample QC upload', 'sample_qc', 72, 120),
+  ('Default bulk QC upload', 'bulk_qc', 168, 336),
+  ('Default delivery', 'delivery', 72, 120)
+ON CONFLICT DO NOTHING;
+
+-- 2. SLA breaches (one row per order / metric / severity)
+CREATE TABLE IF NOT EXISTS public.sla_breaches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  policy_id uuid REFERENCES public.sla_policies(id) ON DELETE SET NULL,
+  metric text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('warning', 'critical')),
+  threshold_hours numeric NOT NULL,
+  elapsed_hours numeric NOT NULL,
+  detected_at timestamp with time zone NOT NULL DEFAULT now(),
+  resolved_at timestamp with time zone,
+  acknowledged_at timestamp with time zone,
+  acknowledged_by uuid,
+  CONSTRAINT sla_breaches_order_metric_severity_unique UNIQUE (order_id, metric, severity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_breaches_open ON public.sla_breaches (detected_at DESC) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.sla_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage SLA breaches"
+ON public.sla_breaches
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can view SLA breaches on their orders"
+ON public.sla_breaches
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders
+  WHERE orders.id = sla_breaches.order_id
+  AND orders.manufacturer_id = auth.uid()
+));
+
+-- 3. Evaluation job
+-- Measures each running SLA clock on open orders, records new warning/critical
+-- breaches, notifies admins + the assigned manufacturer and logs sla_breached.
+-- Breaches are resolved once the milestone that stops the clock is reached.
+CREATE OR REPLACE FUNCTION public.evaluate_sla_policies()
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  clock record;
+  policy record;
+  breach_severity text;
+  breach_threshold numeric;
+  new_breach_id uuid;
+  new_breaches integer := 0;
+BEGIN
+  -- Cron runs without a user; manual runs are admin-only
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run SLA evaluation';
+  END IF;
+
+  FOR clock IN
+    SELECT o.id AS order_id, o.manufacturer_id, o.order_mode, o.buyer_type, c.metric, c.stopped_at,
+           EXTRACT(EPOCH FROM (COALESCE(c.stopped_at, now()) - c.started_at)) / 3600 AS elapsed_hours
+    FROM public.orders o
+    CROSS JOIN LATERAL (VALUES
+      ('acceptance', o.assigned_at, o.manufacturer_accept_time),
+      ('sample_qc', o.sample_production_started_at, o.sample_qc_uploaded_at),
+      ('bulk_qc', o.sample_approved_at, o.bulk_qc_uploaded_at),
+      ('delivery', o.dispatched_at, o.delivered_at)
+    ) AS c(metric, started_at, stopped_at)
+    WHERE c.started_at IS NOT NULL
+      AND o.order_state IS NOT NULL
+      AND o.order_state NOT IN ('COMPLETED', 'CANCELLED', 'ON_HOLD')
+      AND NOT (c.metric = 'bulk_qc' AND o.order_mode = 'sample_only')
+  LOOP
+    -- Clock stopped: close any open breach for this metric
+    IF clock.stopped_at IS NOT NULL THEN
+      UPDATE public.sla_breaches
+      SET resolved_at = clock.stopped_at
+      WHERE order_id = clock.order_id AND metric = clock.metric AND resolved_at IS NULL;
+      CONTINUE;
+    END IF;
+
+    -- Most specific active policy wins (order_mode + buyer_type > one of them > default)
+    SELECT * INTO policy
+    FROM public.sla_policies p
+    WHERE p.is_active
+      AND p.metric = clock.metric
+      AND (p.order_mode IS NULL OR p.order_mode = clock.order_mode)
+      AND (p.buyer_type IS NULL OR p.buyer_type = clock.buyer_type)
+    ORDER BY (p.order_mode IS NOT NULL) DESC, (p.buyer_type IS NOT NULL) DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    IF clock.elapsed_hours >= policy.critical_hours THEN
+      breach_severity := 'critical';
+      breach_threshold := policy.critical_hours;
+    ELSIF clock.elapsed_hours >= policy.warning_hours THEN
+      breach_severity := 'warning';
+      breach_threshold := policy.warning_hours;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    new_breach_id := NULL;
+    INSERT INTO public.sla_breaches (order_id, policy_id, metric, severity, threshold_hours, elapsed_hours)
+    VALUES (clock.order_id, policy.id, clock.metric, breach_severity, breach_threshold, round(clock.elapsed_hours, 2))
+    ON CONFLICT (order_id, metric, severity) DO NOTHING
+    RETURNING id INTO new_breach_id;
+
+    IF new_breach_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    new_breaches := new_breaches + 1;
+
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    SELECT recipient, clock.order_id, 'sla_' || breach_severity,
+           'SLA ' || breach_severity || ': ' || replace(clock.metric, '_', ' '),
+           format('Order %s has been waiting %s hours for %s (%s threshold: %s hours).',
+                  left(clock.order_id::text, 8), round(clock.elapsed_hours, 1),
+                  replace(clock.metric, '_', ' '), breach_severity, breach_threshold)
+    FROM (
+      SELECT user_id AS recipient FROM public.user_roles WHERE role = 'admin'::app_role
+      UNION
+      SELECT clock.manufacturer_id WHERE clock.manufacturer_id IS NOT NULL
+    ) recipients;
+
+    INSERT INTO public.order_events (order_id, event_type, metadata)
+    VALUES (clock.order_id, 'sla_breached', jsonb_build_object(
+      'breach_id', new_breach_id,
+      'policy_id', policy.id,
+      'metric', clock.metric,
+      'severity', breach_severity,
+      'threshold_hours', breach_threshold,
+      'elapsed_hours', round(clock.elapsed_hours, 2)
+    ));
+  END LOOP;
+
+  RETURN new_breaches;
+END;
+$function$;
+
+-- 4. Schedule: evaluate every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+SELECT cron.unschedule('evaluate-sla-policies')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'evaluate-sla-policies');
+
+SELECT cron.schedule('evaluate-sla-policies', '*/15 * * * *', 'SELECT public.evaluate_sla_policies()');
@@ -0,0 +1,18 @@
+-- Manufacturer routing: categories on verified manufacturers
+-- Used by manufacturerRouting.ts to rank eligible manufacturers for an order.
+
+ALTER TABLE public.manufacturer_verifications
+ADD COLUMN IF NOT EXISTS categories text[] NOT NULL DEFAULT '{}'::text[];
+
+COMMENT ON COLUMN public.manufacturer_verifications.categories IS 'Manufacturing categories (labels from the onboarding form) used for auto-routing';
+
+-- Backfill from onboarding applications (matched by email)
+UPDATE public.manufacturer_verifications mv
+SET categories = req.categories
+FROM (
+  SELECT DISTINCT ON (lower(email)) lower(email) AS email, categories
+  FROM public.manufacturer_onboarding_requests
+  ORDER BY lower(email), submitted_at DESC
+) req
+WHERE lower(mv.email) = req.email
+  AND mv.categories = '{}'::text[];
@@ -0,0 +1,141 @@
+-- Manufacturer capacity calendar
+-- Structured capacity (pieces/day per category), blackout dates and production
+-- bookings that reserve an order's quantity between PAYMENT_CONFIRMED and expected_deadline.
+
+-- 1. Capacity per product category
+CREATE TABLE IF NOT EXISTS public.manufacturer_capacity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer_id uuid NOT NULL,
+  category text NOT NULL,
+  pieces_per_day integer NOT NULL CHECK (pieces_per_day > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT manufacturer_capacity_unique_category UNIQUE (manufacturer_id, category)
+);
+
+ALTER TABLE public.manufacturer_capacity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage manufacturer capacity"
+ON public.manufacturer_capacity
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can manage their own capacity"
+ON public.manufacturer_capacity
+FOR ALL
+USING (manufacturer_id = auth.uid())
+WITH CHECK (manufacturer_id = auth.uid());
+
+-- 2. Blackout dates (factory closed, no production)
+CREATE TABLE IF NOT EXISTS public.manufacturer_blackout_dates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer_id uuid NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT manufacturer_blackout_dates_range CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_manufacturer_blackout_dates_manufacturer
+  ON public.manufacturer_blackout_dates (manufacturer_id, end_date);
+
+ALTER TABLE public.manufacturer_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage blackout dates"
+ON public.manufacturer_blackout_dates
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can manage their own blackout dates"
+ON public.manufacturer_blackout_dates
+FOR ALL
+USING (manufacturer_id = auth.uid())
+WITH CHECK (manufacturer_id = auth.uid());
+
+-- 3. Production bookings (one per order, written by trigger only)
+CREATE TABLE IF NOT EXISTS public.production_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  manufacturer_id uuid NOT NULL,
+  product_type text,
+  quantity integer NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  released_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_bookings_active
+  ON public.production_bookings (manufacturer_id, end_date)
+  WHERE released_at IS NULL;
+
+ALTER TABLE public.production_bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view production bookings"
+ON public.production_bookings
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can view their own production bookings"
+ON public.production_bookings
+FOR SELECT
+USING (manufacturer_id = auth.uid());
+
+-- 4. Book capacity on PAYMENT_CONFIRMED, release once production is finished or cancelled
+CREATE OR REPLACE FUNCTION public.sync_production_booking()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF OLD.order_state IS NOT DISTINCT FROM NEW.order_state THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.order_state = 'PAYMENT_CONFIRMED' AND NEW.manufacturer_id IS NOT NULL THEN
+    INSERT INTO public.production_bookings (order_id, manufacturer_id, product_type, quantity, start_date, end_date)
+    VALUES (
+      NEW.id,
+      NEW.manufacturer_id,
+      NEW.product_type,
+      NEW.quantity,
+      current_date,
+      GREATEST(current_date, COALESCE(NEW.expected_deadline::date, current_date + 30))
+    )
+    ON CONFLICT (order_id) DO UPDATE SET
+      manufacturer_id = EXCLUDED.manufacturer_id,
+      product_type = EXCLUDED.product_type,
+      quantity = EXCLUDED.quantity,
+      start_date = EXCLUDED.start_date,
+      end_date = EXCLUDED.end_date,
+      released_at = NULL;
+  ELSIF NEW.order_state IN ('READY_FOR_DISPATCH', 'DISPATCHED', 'DELIVERED', 'COMPLETED', 'CANCELLED') THEN
+    UPDATE public.production_bookings
+    SET released_at = now()
+    WHERE order_id = NEW.id AND released_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS sync_production_booking_trigger ON public.orders;
+CREATE TRIGGER sync_production_booking_trigger
+  AFTER UPDATE OF order_state ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_production_booking();
+
+-- Backfill bookings for orders already in production
+INSERT INTO public.production_bookings (order_id, manufacturer_id, product_type, quantity, start_date, end_date)
+SELECT id, manufacturer_id, product_type, quantity,
+       COALESCE(payment_received_at::date, state_updated_at::date, current_date),
+       GREATEST(current_date, COALESCE(expected_deadline::date, current_date + 30))
+FROM public.orders
+WHERE manufacturer_id IS NOT NULL
+  AND order_state IN ('PAYMENT_CONFIRMED', 'SAMPLE_IN_PROGRESS', 'SAMPLE_QC_UPLOADED', 'SAMPLE_APPROVED',
+                      'BULK_UNLOCKED', 'BULK_IN_PRODUCTION', 'BULK_QC_UPLOADED', 'ON_HOLD')
+ON CONFLICT (order_id) DO NOTHING;
@@ -0,0 +1,243 @@
+-- Payment gateway integration
+-- Provider-backed payment intents (Razorpay or the local simulator) and an idempotent
+-- webhook log. Signed webhooks captured by the payment-webhook edge function are applied
+-- through apply_payment_webhook(), which drives PAYMENT_INITIATED -> PAYMENT_HELD.
+
+-- 1. Payment intents (one per provider order / payment link)
+CREATE TABLE IF NOT EXISTS public.payment_intents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider IN ('razorpay', 'simulator')),
+  provider_order_id text NOT NULL,
+  provider_payment_id text,
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'INR',
+  status text NOT NULL DEFAULT 'created' CHECK (status IN ('created', 'captured', 'failed', 'refunded')),
+  checkout_url text,
+  failure_reason text,
+  provider_refund_id text,
+  created_by uuid,
+  captured_at timestamp with time zone,
+  refunded_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payment_intents_provider_order_unique UNIQUE (provider, provider_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_intents_order_id ON public.payment_intents (order_id);
+
+ALTER TABLE public.payment_intents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment intents"
+ON public.payment_intents
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view payment intents for their orders"
+ON public.payment_intents
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = payment_intents.order_id
+      AND orders.buyer_id = auth.uid()
+  )
+);
+
+-- 2. Webhook deliveries (unique per provider event id = idempotency key)
+CREATE TABLE IF NOT EXISTS public.payment_webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  provider_order_id text,
+  provider_payment_id text,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  result text,
+  delivery_count integer NOT NULL DEFAULT 1,
+  received_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_received_at timestamp with time zone NOT NULL DEFAULT now(),
+  processed_at timestamp with time zone,
+  CONSTRAINT payment_webhook_events_provider_event_unique UNIQUE (provider, event_id)
+);
+
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment webhook events"
+ON public.payment_webhook_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- 3. Apply a verified webhook event exactly once
+-- Called by the payment-webhook edge function (service role) after signature verification.
+-- Returns: captured | captured_on_cancelled_order | already_captured | amount_mismatch | failed | refunded | duplicate | unknown_intent | ignored
+CREATE OR REPLACE FUNCTION public.apply_payment_webhook(
+  _provider text,
+  _event_id text,
+  _event_type text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _amount numeric,
+  _payload jsonb
+)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_webhook_id uuid;
+  v_intent public.payment_intents%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_result text;
+BEGIN
+  -- Service role only: end users must never mark their own payments as captured
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Payment webhooks can only be applied by the payment gateway';
+  END IF;
+
+  INSERT INTO public.payment_webhook_events (provider, event_id, event_type, provider_order_id, provider_payment_id, payload)
+  VALUES (_provider, _event_id, _event_type, _provider_order_id, _provider_payment_id, COALESCE(_payload, '{}'::jsonb))
+  ON CONFLICT (provider, event_id) DO NOTHING
+  RETURNING id INTO v_webhook_id;
+
+  -- Same event delivered again: record the retry, change nothing
+  IF v_webhook_id IS NULL THEN
+    UPDATE public.payment_webhook_events
+    SET delivery_count = delivery_count + 1,
+        last_received_at = now()
+    WHERE provider = _provider AND event_id = _event_id;
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT * INTO v_intent
+  FROM public.payment_intents
+  WHERE provider = _provider
+    AND (
+      provider_order_id = _provider_order_id
+      -- Refund events only reference the payment
+      OR (_provider_order_id IS NULL AND provider_payment_id = _provider_payment_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    v_result := 'unknown_intent';
+
+  ELSIF _event_type = 'payment.captured' THEN
+    IF v_intent.status IN ('captured', 'refunded') THEN
+      -- Different event id for a payment we already applied (e.g. payment + link events)
+      v_result := 'already_captured';
+    ELSIF _amount IS NOT NULL AND _amount <> v_intent.amount THEN
+      v_result := 'amount_mismatch';
+    ELSE
+      UPDATE public.payment_intents
+      SET status = 'captured',
+          provider_payment_id = _provider_payment_id,
+          captured_at = now(),
+          failure_reason = NULL,
+          updated_at = now()
+      WHERE id = v_intent.id;
+
+      SELECT * INTO v_order FROM public.orders WHERE id = v_intent.order_id FOR UPDATE;
+
+      -- Buyer paid a stale link after cancellation: keep the money on record for an admin refund
+      IF v_order.order_state = 'CANCELLED' THEN
+        INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+        VALUES ('system', 'payment_completed', 'payment', v_intent.order_id, jsonb_build_object(
+          'provider', _provider,
+          'provider_payment_id', _provider_payment_id,
+          'amount', v_intent.amount,
+          'warning', 'captured_on_cancelled_order'
+        ));
+        v_result := 'captured_on_cancelled_order';
+      ELSE
+        UPDATE public.orders
+        SET payment_state = CASE
+              WHEN payment_state IS NULL OR payment_state = 'PAYMENT_INITIATED' THEN 'PAYMENT_HELD'
+              ELSE payment_state
+            END,
+            order_state = CASE
+              WHEN order_state = 'PAYMENT_REQUESTED' THEN 'PAYMENT_CONFIRMED'::order_state
+              ELSE order_state
+            END,
+            payment_received_at = COALESCE(payment_received_at, now()),
+            escrow_locked_timestamp = COALESCE(escrow_locked_timestamp, now()),
+            state_updated_at = CASE WHEN order_state = 'PAYMENT_REQUESTED' THEN now() ELSE state_updated_at END,
+            updated_at = now()
+        WHERE id = v_intent.order_id;
+
+        INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+        VALUES (v_intent.order_id, 'payment_held', now(), jsonb_build_object(
+          'from_payment_state', COALESCE(v_order.payment_state, 'PAYMENT_INITIATED'),
+          'to_payment_state', 'PAYMENT_HELD',
+          'provider', _provider,
+          'provider_order_id', _provider_order_id,
+          'provider_payment_id', _provider_payment_id,
+          'amount', v_intent.amount,
+          'webhook_event_id', _event_id
+        ));
+
+        IF v_order.order_state = 'PAYMENT_REQUESTED' THEN
+          INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+          VALUES (v_intent.order_id, 'payment_confirmed', now(), jsonb_build_object(
+            'confirmed_by', 'payment_webhook',
+            'previous_state', 'PAYMENT_REQUESTED',
+            'new_state', 'PAYMENT_CONFIRMED',
+            'payment_state', 'PAYMENT_HELD',
+            'provider', _provider
+          ));
+
+          INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+          VALUES ('system', 'order_state_change', 'order', v_intent.order_id, jsonb_build_object(
+            'old_state', 'PAYMENT_REQUESTED',
+            'new_state', 'PAYMENT_CONFIRMED',
+            'source', 'payment_webhook'
+          ));
+        END IF;
+
+        INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+        VALUES ('system', 'payment_completed', 'payment', v_intent.order_id, jsonb_build_object(
+          'provider', _provider,
+          'provider_payment_id', _provider_payment_id,
+          'amount', v_intent.amount
+        ));
+
+        v_result := 'captured';
+      END IF;
+    END IF;
+
+  ELSIF _event_type = 'payment.failed' THEN
+    IF v_intent.status = 'created' THEN
+      UPDATE public.payment_intents
+      SET status = 'failed',
+          provider_payment_id = COALESCE(_provider_payment_id, provider_payment_id),
+          failure_reason = COALESCE(_payload->>'failure_reason', 'Payment failed'),
+          updated_at = now()
+      WHERE id = v_intent.id;
+      v_result := 'failed';
+    ELSE
+      v_result := 'ignored';
+    END IF;
+
+  ELSIF _event_type = 'refund.processed' THEN
+    UPDATE public.payment_intents
+    SET status = 'refunded',
+        refunded_at = COALESCE(refunded_at, now()),
+        updated_at = now()
+    WHERE id = v_intent.id AND status = 'captured';
+    v_result := 'refunded';
+
+  ELSE
+    v_result := 'ignored';
+  END IF;
+
+  UPDATE public.payment_webhook_events
+  SET result = v_result,
+      processed_at = now()
+  WHERE id = v_webhook_id;
+
+  RETURN v_result;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_webhook(text, text, text, text, text, numeric, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,237 @@
+-- Milestone payment schedules
+-- Replaces the fixed 55/45 split: each order gets named milestones tied to an order
+-- state. The full amount is held in escrow on payment; each milestone becomes
+-- releasable once the order reaches its release_state and is released by an admin.
+
+-- 1. Reusable schedule templates
+CREATE TABLE IF NOT EXISTS public.payment_schedule_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  -- [{ "name": text, "release_state": order_state, "percentage"?: number, "fixed_amount"?: number }]
+  -- A milestone with neither percentage nor fixed_amount receives the remainder
+  milestones jsonb NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Only one default template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_schedule_templates_default
+  ON public.payment_schedule_templates (is_default)
+  WHERE is_default;
+
+ALTER TABLE public.payment_schedule_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payment schedule templates"
+ON public.payment_schedule_templates
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view payment schedule templates"
+ON public.payment_schedule_templates
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.payment_schedule_templates (name, description, milestones, is_default) VALUES
+  ('Standard 55/45', 'Upfront released on sample approval, remainder on delivery',
+   '[{"name": "Upfront", "release_state": "SAMPLE_APPROVED", "percentage": 55},
+     {"name": "Balance", "release_state": "DELIVERED", "percentage": 45}]'::jsonb, true),
+  ('30/40/30', 'Sample, bulk QC and delivery tranches',
+   '[{"name": "Sample Approval", "release_state": "SAMPLE_APPROVED", "percentage": 30},
+     {"name": "Bulk QC", "release_state": "BULK_QC_UPLOADED", "percentage": 40},
+     {"name": "Delivery", "release_state": "DELIVERED", "percentage": 30}]'::jsonb, false),
+  ('Sample Fee + Bulk', 'Fixed sample fee, bulk balance on delivery',
+   '[{"name": "Sample Fee", "release_state": "SAMPLE_APPROVED", "fixed_amount": 500},
+     {"name": "Bulk Balance", "release_state": "DELIVERED"}]'::jsonb, false)
+ON CONFLICT (name) DO NOTHING;
+
+-- 2. Per-order milestones
+CREATE TABLE IF NOT EXISTS public.order_payment_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  sequence integer NOT NULL,
+  name text NOT NULL,
+  release_state public.order_state NOT NULL,
+  percentage numeric,
+  amount numeric NOT NULL CHECK (amount >= 0),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'held', 'releasable', 'released', 'refunded')),
+  template_id uuid REFERENCES public.payment_schedule_templates(id) ON DELETE SET NULL,
+  held_at timestamp with time zone,
+  releasable_at timestamp with time zone,
+  released_at timestamp with time zone,
+  released_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT order_payment_milestones_sequence_unique UNIQUE (order_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payment_milestones_order_id ON public.order_payment_milestones (order_id);
+
+ALTER TABLE public.order_payment_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payment milestones"
+ON public.order_payment_milestones
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view payment milestones for their orders"
+ON public.order_payment_milestones
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_payment_milestones.order_id
+      AND orders.buyer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Manufacturers can view payment milestones for their orders"
+ON public.order_payment_milestones
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_payment_milestones.order_id
+      AND orders.manufacturer_id = auth.uid()
+  )
+);
+
+-- 3. Create milestones from a template (remainder milestone absorbs rounding)
+CREATE OR REPLACE FUNCTION public.create_order_payment_milestones(_order_id uuid, _template_id uuid)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_total numeric;
+  v_milestones jsonb;
+  v_allocated numeric := 0;
+  v_count integer := 0;
+  v_remainder_seq integer;
+  v_item jsonb;
+  v_seq integer;
+  v_amount numeric;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can create payment schedules';
+  END IF;
+
+  SELECT COALESCE(total_order_value, total_amount, escrow_amount) INTO v_total
+  FROM public.orders WHERE id = _order_id;
+
+  SELECT milestones INTO v_milestones
+  FROM public.payment_schedule_templates WHERE id = _template_id;
+
+  IF v_total IS NULL OR v_milestones IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_item, v_seq IN
+    SELECT value, ordinality::integer FROM jsonb_array_elements(v_milestones) WITH ORDINALITY
+  LOOP
+    IF v_item ? 'fixed_amount' THEN
+      v_amount := LEAST((v_item->>'fixed_amount')::numeric, v_total - v_allocated);
+    ELSIF v_item ? 'percentage' THEN
+      v_amount := round(v_total * (v_item->>'percentage')::numeric / 100);
+    ELSE
+      v_amount := 0;
+      v_remainder_seq := v_seq;
+    END IF;
+
+    INSERT INTO public.order_payment_milestones (order_id, sequence, name, release_state, percentage, amount, template_id)
+    VALUES (
+      _order_id,
+      v_seq,
+      v_item->>'name',
+      (v_item->>'release_state')::order_state,
+      (v_item->>'percentage')::numeric,
+      v_amount,
+      _template_id
+    );
+
+    v_allocated := v_allocated + v_amount;
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Remainder (or rounding difference) goes to the remainder milestone, else the last one
+  UPDATE public.order_payment_milestones
+  SET amount = amount + (v_total - v_allocated)
+  WHERE order_id = _order_id
+    AND sequence = COALESCE(v_remainder_seq, v_count);
+
+  RETURN v_count;
+END;
+$function$;
+
+-- 4. Keep milestone status in step with payment_state / order_state
+CREATE OR REPLACE FUNCTION public.sync_payment_milestones()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_default_template uuid;
+  v_milestone record;
+BEGIN
+  -- Payment captured: fund every milestone (default schedule if none was set)
+  IF NEW.payment_state = 'PAYMENT_HELD' AND OLD.payment_state IS DISTINCT FROM 'PAYMENT_HELD' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.order_payment_milestones WHERE order_id = NEW.id) THEN
+      SELECT id INTO v_default_template
+      FROM public.payment_schedule_templates
+      WHERE is_default AND is_active
+      LIMIT 1;
+
+      IF v_default_template IS NOT NULL THEN
+        PERFORM public.create_order_payment_milestones(NEW.id, v_default_template);
+      END IF;
+    END IF;
+
+    UPDATE public.order_payment_milestones
+    SET status = 'held', held_at = now()
+    WHERE order_id = NEW.id AND status = 'pending';
+  END IF;
+
+  -- Refund: nothing left in escrow is released
+  IF NEW.payment_state = 'PAYMENT_REFUNDED' AND OLD.payment_state IS DISTINCT FROM 'PAYMENT_REFUNDED' THEN
+    UPDATE public.order_payment_milestones
+    SET status = 'refunded'
+    WHERE order_id = NEW.id AND status IN ('pending', 'held', 'releasable');
+  END IF;
+
+  -- Order progressed: milestones whose release_state is reached become releasable.
+  -- The order_state enum is declared in happy-path order, so >= means "reached".
+  IF NEW.order_state IS DISTINCT FROM OLD.order_state
+     AND NEW.order_state NOT IN ('ON_HOLD', 'CANCELLED') THEN
+    FOR v_milestone IN
+      UPDATE public.order_payment_milestones
+      SET status = 'releasable', releasable_at = now()
+      WHERE order_id = NEW.id
+        AND status = 'held'
+        AND NEW.order_state >= release_state
+      RETURNING id, name, amount, release_state
+    LOOP
+      INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+      VALUES (NEW.id, 'milestone_payment_releasable', now(), jsonb_build_object(
+        'milestone_id', v_milestone.id,
+        'milestone_name', v_milestone.name,
+        'amount', v_milestone.amount,
+        'release_state', v_milestone.release_state,
+        'order_state', NEW.order_state
+      ));
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS sync_payment_milestones_trigger ON public.orders;
+CREATE TRIGGER sync_payment_milestones_trigger
+  AFTER UPDATE OF payment_state, order_state ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_payment_milestones();
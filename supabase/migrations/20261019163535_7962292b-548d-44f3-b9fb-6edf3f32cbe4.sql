@@ -0,0 +1,784 @@
+-- Partial refunds and refund ledger
+-- Each refund is a ledger row (linked to a dispute, QC decision or cancellation) that an
+-- admin approves. Approval is checked against the running escrow balance:
+--   available = captured - approved refunds - released to manufacturer
+-- and reduces the order's unreleased milestones, last tranche first.
+-- An admin claims a refund (claim_order_refund) before paying it out, so two admins cannot
+-- approve it at once and a refund being paid out cannot be rejected.
+-- Gateway refunds are reserved before the provider is called: reserve_gateway_refund locks
+-- the captured intent and records a pending row that counts against the refundable balance.
+-- The row takes the ledger refund's id, which is also the provider's idempotency key: retrying
+-- an approval that failed after the provider refunded books that refund instead of paying twice.
+
+-- 1. Refund ledger
+CREATE TABLE IF NOT EXISTS public.order_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  source_type text NOT NULL DEFAULT 'manual'
+    CHECK (source_type IN ('dispute', 'qc_decision', 'cancellation', 'manual')),
+  dispute_id uuid REFERENCES public.disputes(id) ON DELETE SET NULL,
+  qc_id uuid REFERENCES public.order_qc(id) ON DELETE SET NULL,
+  -- e.g. 12 defective pieces of 200
+  affected_quantity integer CHECK (affected_quantity IS NULL OR affected_quantity > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by uuid NOT NULL,
+  requested_at timestamp with time zone NOT NULL DEFAULT now(),
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  rejection_reason text,
+  gateway_refund_id text,
+  -- Admin paying the refund out (claim_order_refund)
+  processing_by uuid,
+  processing_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT order_refunds_dispute_source CHECK (source_type <> 'dispute' OR dispute_id IS NOT NULL),
+  CONSTRAINT order_refunds_qc_source CHECK (source_type <> 'qc_decision' OR qc_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order_id ON public.order_refunds (order_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_pending ON public.order_refunds (status) WHERE status = 'pending';
+
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage order refunds"
+ON public.order_refunds
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view refunds for their orders"
+ON public.order_refunds
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_refunds.order_id
+      AND orders.buyer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Manufacturers can view refunds for their orders"
+ON public.order_refunds
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_refunds.order_id
+      AND orders.manufacturer_id = auth.uid()
+  )
+);
+
+-- 2. Gateway payments can be refunded in parts
+ALTER TABLE public.payment_intents
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric NOT NULL DEFAULT 0;
+
+-- 3. Escrow balance still refundable for an order (runs with the caller's RLS)
+CREATE OR REPLACE FUNCTION public.get_order_refundable_balance(_order_id uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_captured numeric := 0;
+  v_refunded numeric;
+  v_released numeric;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = _order_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF COALESCE(v_order.payment_state, 'PAYMENT_INITIATED') <> 'PAYMENT_INITIATED'
+     OR v_order.escrow_locked_timestamp IS NOT NULL THEN
+    v_captured := COALESCE(v_order.total_order_value, v_order.total_amount, v_order.escrow_amount, 0);
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_refunded
+  FROM public.order_refunds
+  WHERE order_id = _order_id AND status = 'approved';
+
+  IF EXISTS (SELECT 1 FROM public.order_payment_milestones WHERE order_id = _order_id) THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_released
+    FROM public.order_payment_milestones
+    WHERE order_id = _order_id AND status = 'released';
+  ELSIF v_order.payment_state = 'PAYMENT_RELEASED' THEN
+    v_released := v_captured - v_refunded;
+  ELSE
+    v_released := 0;
+  END IF;
+
+  RETURN GREATEST(v_captured - v_refunded - v_released, 0);
+END;
+$function$;
+
+-- 4. Approve a pending refund (admin)
+-- Returns the escrow balance left after the refund.
+CREATE OR REPLACE FUNCTION public.approve_order_refund(_refund_id uuid)
+ RETURNS numeric
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_refund public.order_refunds%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_available numeric;
+  v_remaining numeric;
+  v_milestone record;
+  v_deduct numeric;
+  v_gateway_status text;
+  v_provider_refund_id text;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can approve refunds';
+  END IF;
+
+  SELECT * INTO v_refund FROM public.order_refunds WHERE id = _refund_id FOR UPDATE;
+  IF NOT FOUND OR v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund not found or already reviewed';
+  END IF;
+
+  IF v_refund.processing_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Claim the refund before approving it';
+  END IF;
+
+  -- Gateway payments are booked only once the provider refund is confirmed
+  SELECT status, provider_refund_id INTO v_gateway_status, v_provider_refund_id
+  FROM public.payment_gateway_refunds
+  WHERE id = _refund_id;
+
+  IF v_gateway_status IN ('pending', 'failed') THEN
+    RAISE EXCEPTION 'The gateway refund has not gone through - retry the approval';
+  END IF;
+
+  -- Serialise refunds per order so two approvals cannot overdraw the escrow
+  SELECT * INTO v_order FROM public.orders WHERE id = v_refund.order_id FOR UPDATE;
+
+  v_available := public.get_order_refundable_balance(v_refund.order_id);
+  IF v_refund.amount > v_available THEN
+    RAISE EXCEPTION 'Refund of % exceeds the refundable escrow balance of %', v_refund.amount, v_available;
+  END IF;
+
+  UPDATE public.order_refunds
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      gateway_refund_id = COALESCE(v_provider_refund_id, gateway_refund_id),
+      processing_by = NULL,
+      processing_at = NULL
+  WHERE id = _refund_id;
+
+  -- Take the refund out of unreleased milestones, last tranche first
+  v_remaining := v_refund.amount;
+  FOR v_milestone IN
+    SELECT id, amount FROM public.order_payment_milestones
+    WHERE order_id = v_refund.order_id
+      AND status IN ('pending', 'held', 'releasable')
+    ORDER BY sequence DESC
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_deduct := LEAST(v_milestone.amount, v_remaining);
+
+    UPDATE public.order_payment_milestones
+    SET amount = amount - v_deduct,
+        status = CASE WHEN amount - v_deduct = 0 THEN 'refunded' ELSE status END
+    WHERE id = v_milestone.id;
+
+    v_remaining := v_remaining - v_deduct;
+  END LOOP;
+
+  -- Nothing left in escrow and nothing paid out: the order is fully refunded
+  IF v_available - v_refund.amount = 0
+     AND NOT EXISTS (
+       SELECT 1 FROM public.order_payment_milestones
+       WHERE order_id = v_refund.order_id AND status = 'released'
+     )
+     AND COALESCE(v_order.payment_state, '') NOT IN ('PAYMENT_RELEASED', 'PAYMENT_REFUNDED') THEN
+    UPDATE public.orders
+    SET payment_state = 'PAYMENT_REFUNDED',
+        refunded_at = now(),
+        refunded_by = auth.uid(),
+        refund_reason = v_refund.reason,
+        updated_at = now()
+    WHERE id = v_refund.order_id;
+  END IF;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (v_refund.order_id, 'partial_refund_approved', now(), jsonb_build_object(
+    'refund_id', v_refund.id,
+    'amount', v_refund.amount,
+    'reason', v_refund.reason,
+    'source_type', v_refund.source_type,
+    'dispute_id', v_refund.dispute_id,
+    'qc_id', v_refund.qc_id,
+    'affected_quantity', v_refund.affected_quantity,
+    'remaining_balance', v_available - v_refund.amount,
+    'approved_by', auth.uid(),
+    'gateway_refund_id', v_provider_refund_id
+  ));
+
+  INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, entity_id, metadata)
+  VALUES (auth.uid(), 'admin', 'payment_refunded', 'payment', v_refund.order_id, jsonb_build_object(
+    'refund_id', v_refund.id,
+    'amount', v_refund.amount,
+    'partial', v_available - v_refund.amount > 0
+  ));
+
+  RETURN v_available - v_refund.amount;
+END;
+$function$;
+
+-- 5. Webhook: partial refunds keep the intent captured
+-- Returns: captured | captured_on_cancelled_order | already_captured | amount_mismatch | failed | refunded | partially_refunded | duplicate | unknown_intent | ignored
+CREATE OR REPLACE FUNCTION public.apply_payment_webhook(
+  _provider text,
+  _event_id text,
+  _event_type text,
+  _provider_order_id text,
+  _provider_payment_id text,
+  _amount numeric,
+  _payload jsonb
+)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_webhook_id uuid;
+  v_intent public.payment_intents%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_result text;
+BEGIN
+  -- Service role only: end users must never mark their own payments as captured
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Payment webhooks can only be applied by the payment gateway';
+  END IF;
+
+  INSERT INTO public.payment_webhook_events (provider, event_id, event_type, provider_order_id, provider_payment_id, payload)
+  VALUES (_provider, _event_id, _event_type, _provider_order_id, _provider_payment_id, COALESCE(_payload, '{}'::jsonb))
+  ON CONFLICT (provider, event_id) DO NOTHING
+  RETURNING id INTO v_webhook_id;
+
+  -- Same event delivered again: record the retry, change nothing
+  IF v_webhook_id IS NULL THEN
+    UPDATE public.payment_webhook_events
+    SET delivery_count = delivery_count + 1,
+        last_received_at = now()
+    WHERE provider = _provider AND event_id = _event_id;
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT * INTO v_intent
+  FROM public.payment_intents
+  WHERE provider = _provider
+    AND (
+      provider_order_id = _provider_order_id
+      -- Refund events only reference the payment
+      OR (_provider_order_id IS NULL AND provider_payment_id = _provider_payment_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    v_result := 'unknown_intent';
+
+  ELSIF _event_type = 'payment.captured' THEN
+    IF v_intent.status IN ('captured', 'refunded') THEN
+      -- Different event id for a payment we already applied (e.g. payment + link events)
+      v_result := 'already_captured';
+    ELSIF _amount IS NOT NULL AND _amount <> v_intent.amount THEN
+      v_result := 'amount_mismatch';
+    ELSE
+      UPDATE public.payment_intents
+      SET status = 'captured',
+          provider_payment_id = _provider_payment_id,
+          captured_at = now(),
+          failure_reason = NULL,
+          updated_at = now()
+      WHERE id = v_intent.id;
+
+      SELECT * INTO v_order FROM public.orders WHERE id = v_intent.order_id FOR UPDATE;
+
+      -- Buyer paid a stale link after cancellation: keep the money on record for an admin refund
+      IF v_order.order_state = 'CANCELLED' THEN
+        INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+        VALUES ('system', 'payment_completed', 'payment', v_intent.order_id, jsonb_build_object(
+          'provider', _provider,
+          'provider_payment_id', _provider_payment_id,
+          'amount', v_intent.amount,
+          'warning', 'captured_on_cancelled_order'
+        ));
+        v_result := 'captured_on_cancelled_order';
+      ELSE
+        UPDATE public.orders
+        SET payment_state = CASE
+              WHEN payment_state IS NULL OR payment_state = 'PAYMENT_INITIATED' THEN 'PAYMENT_HELD'
+              ELSE payment_state
+            END,
+            order_state = CASE
+              WHEN order_state = 'PAYMENT_REQUESTED' THEN 'PAYMENT_CONFIRMED'::order_state
+              ELSE order_state
+            END,
+            payment_received_at = COALESCE(payment_received_at, now()),
+            escrow_locked_timestamp = COALESCE(escrow_locked_timestamp, now()),
+            state_updated_at = CASE WHEN order_state = 'PAYMENT_REQUESTED' THEN now() ELSE state_updated_at END,
+            updated_at = now()
+        WHERE id = v_intent.order_id;
+
+        INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+        VALUES (v_intent.order_id, 'payment_held', now(), jsonb_build_object(
+          'from_payment_state', COALESCE(v_order.payment_state, 'PAYMENT_INITIATED'),
+          'to_payment_state', 'PAYMENT_HELD',
+          'provider', _provider,
+          'provider_order_id', _provider_order_id,
+          'provider_payment_id', _provider_payment_id,
+          'amount', v_intent.amount,
+          'webhook_event_id', _event_id
+        ));
+
+        IF v_order.order_state = 'PAYMENT_REQUESTED' THEN
+          INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+          VALUES (v_intent.order_id, 'payment_confirmed', now(), jsonb_build_object(
+            'confirmed_by', 'payment_webhook',
+            'previous_state', 'PAYMENT_REQUESTED',
+            'new_state', 'PAYMENT_CONFIRMED',
+            'payment_state', 'PAYMENT_HELD',
+            'provider', _provider
+          ));
+
+          INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+          VALUES ('system', 'order_state_change', 'order', v_intent.order_id, jsonb_build_object(
+            'old_state', 'PAYMENT_REQUESTED',
+            'new_state', 'PAYMENT_CONFIRMED',
+            'source', 'payment_webhook'
+          ));
+        END IF;
+
+        INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+        VALUES ('system', 'payment_completed', 'payment', v_intent.order_id, jsonb_build_object(
+          'provider', _provider,
+          'provider_payment_id', _provider_payment_id,
+          'amount', v_intent.amount
+        ));
+
+        v_result := 'captured';
+      END IF;
+    END IF;
+
+  ELSIF _event_type = 'payment.failed' THEN
+    IF v_intent.status = 'created' THEN
+      UPDATE public.payment_intents
+      SET status = 'failed',
+          provider_payment_id = COALESCE(_provider_payment_id, provider_payment_id),
+          failure_reason = COALESCE(_payload->>'failure_reason', 'Payment failed'),
+          updated_at = now()
+      WHERE id = v_intent.id;
+      v_result := 'failed';
+    ELSE
+      v_result := 'ignored';
+    END IF;
+
+  ELSIF _event_type = 'refund.processed' THEN
+    -- refunded_amount is maintained by the payment-gateway refund action; the webhook
+    -- confirms it. Partially refunded intents stay captured so later refunds can draw on them.
+    IF v_intent.refunded_amount >= v_intent.amount THEN
+      UPDATE public.payment_intents
+      SET status = 'refunded',
+          refunded_at = COALESCE(refunded_at, now()),
+          updated_at = now()
+      WHERE id = v_intent.id AND status = 'captured';
+      v_result := 'refunded';
+    ELSE
+      v_result := 'partially_refunded';
+    END IF;
+
+  ELSE
+    v_result := 'ignored';
+  END IF;
+
+  UPDATE public.payment_webhook_events
+  SET result = v_result,
+      processed_at = now()
+  WHERE id = v_webhook_id;
+
+  RETURN v_result;
+END;
+$function$;
+
+-- 6. One gateway refund per ledger refund (same id); a failed one is retried under that id
+CREATE TABLE IF NOT EXISTS public.payment_gateway_refunds (
+  id uuid PRIMARY KEY REFERENCES public.order_refunds(id),
+  intent_id uuid NOT NULL REFERENCES public.payment_intents(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'failed')),
+  provider_refund_id text,
+  failure_reason text,
+  requested_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  completed_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_gateway_refunds_intent_id ON public.payment_gateway_refunds (intent_id);
+CREATE INDEX IF NOT EXISTS idx_payment_gateway_refunds_pending
+  ON public.payment_gateway_refunds (intent_id) WHERE status = 'pending';
+
+ALTER TABLE public.payment_gateway_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view gateway refunds"
+ON public.payment_gateway_refunds
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- 7. Reserve a claimed ledger refund against the latest captured intent of its order
+-- Called by the payment-gateway edge function (service role). A refund the provider already
+-- processed is returned as such; a pending one is returned to be retried with the same key.
+CREATE OR REPLACE FUNCTION public.reserve_gateway_refund(_refund_id uuid, _requested_by uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_refund public.order_refunds%ROWTYPE;
+  v_existing public.payment_gateway_refunds%ROWTYPE;
+  v_intent public.payment_intents%ROWTYPE;
+  v_pending numeric;
+  v_refundable numeric;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Gateway refunds can only be reserved by the payment gateway';
+  END IF;
+
+  SELECT * INTO v_refund FROM public.order_refunds WHERE id = _refund_id FOR UPDATE;
+  IF NOT FOUND OR v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund not found or already reviewed';
+  END IF;
+
+  IF v_refund.processing_by IS DISTINCT FROM _requested_by THEN
+    RAISE EXCEPTION 'Claim the refund before refunding it at the gateway';
+  END IF;
+
+  SELECT * INTO v_existing FROM public.payment_gateway_refunds WHERE id = _refund_id FOR UPDATE;
+
+  IF FOUND AND v_existing.status IN ('pending', 'processed') THEN
+    SELECT * INTO v_intent FROM public.payment_intents WHERE id = v_existing.intent_id;
+    RETURN jsonb_build_object(
+      'reserved', true,
+      'already_processed', v_existing.status = 'processed',
+      'refund_id', v_existing.id,
+      'intent_id', v_intent.id,
+      'provider', v_intent.provider,
+      'provider_payment_id', v_intent.provider_payment_id,
+      'provider_refund_id', v_existing.provider_refund_id,
+      'amount', v_existing.amount,
+      'refund_reason', v_existing.reason
+    );
+  END IF;
+
+  -- Serialises refunds of the same payment until this transaction ends
+  SELECT * INTO v_intent
+  FROM public.payment_intents
+  WHERE order_id = v_refund.order_id
+    AND status = 'captured'
+  ORDER BY captured_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_intent.provider_payment_id IS NULL THEN
+    RETURN jsonb_build_object('reserved', false, 'reason', 'No captured gateway payment for this order');
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_pending
+  FROM public.payment_gateway_refunds
+  WHERE intent_id = v_intent.id
+    AND status = 'pending';
+
+  v_refundable := v_intent.amount - COALESCE(v_intent.refunded_amount, 0) - v_pending;
+  IF v_refund.amount > v_refundable THEN
+    RAISE EXCEPTION 'Refund of % exceeds the % left on the gateway payment%', v_refund.amount, GREATEST(v_refundable, 0),
+      CASE WHEN v_pending > 0 THEN ' (other refunds are in progress)' ELSE '' END;
+  END IF;
+
+  -- A failed attempt is retried under the same id
+  INSERT INTO public.payment_gateway_refunds (id, intent_id, order_id, amount, reason, requested_by)
+  VALUES (_refund_id, v_intent.id, v_refund.order_id, v_refund.amount, v_refund.reason, _requested_by)
+  ON CONFLICT (id) DO UPDATE
+  SET intent_id = EXCLUDED.intent_id,
+      amount = EXCLUDED.amount,
+      requested_by = EXCLUDED.requested_by,
+      status = 'pending',
+      failure_reason = NULL,
+      completed_at = NULL;
+
+  RETURN jsonb_build_object(
+    'reserved', true,
+    'already_processed', false,
+    'refund_id', _refund_id,
+    'intent_id', v_intent.id,
+    'provider', v_intent.provider,
+    'provider_payment_id', v_intent.provider_payment_id,
+    'amount', v_refund.amount,
+    'refund_reason', v_refund.reason
+  );
+END;
+$function$;
+
+-- 8. Book a reserved refund the provider accepted
+CREATE OR REPLACE FUNCTION public.confirm_gateway_refund(_refund_id uuid, _provider_refund_id text)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_refund public.payment_gateway_refunds%ROWTYPE;
+  v_intent public.payment_intents%ROWTYPE;
+  v_refunded numeric;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Gateway refunds can only be confirmed by the payment gateway';
+  END IF;
+
+  SELECT * INTO v_refund
+  FROM public.payment_gateway_refunds
+  WHERE id = _refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gateway refund not found';
+  END IF;
+
+  SELECT * INTO v_intent
+  FROM public.payment_intents
+  WHERE id = v_refund.intent_id
+  FOR UPDATE;
+
+  IF v_refund.status <> 'pending' THEN
+    -- Already booked (retried confirmation)
+    RETURN jsonb_build_object(
+      'status', v_refund.status,
+      'fully_refunded', COALESCE(v_intent.refunded_amount, 0) >= v_intent.amount
+    );
+  END IF;
+
+  UPDATE public.payment_gateway_refunds
+  SET status = 'processed',
+      provider_refund_id = _provider_refund_id,
+      completed_at = now()
+  WHERE id = _refund_id;
+
+  v_refunded := COALESCE(v_intent.refunded_amount, 0) + v_refund.amount;
+
+  UPDATE public.payment_intents
+  SET refunded_amount = v_refunded,
+      status = CASE WHEN v_refunded >= amount THEN 'refunded' ELSE status END,
+      provider_refund_id = _provider_refund_id,
+      refunded_at = CASE WHEN v_refunded >= amount THEN now() ELSE refunded_at END,
+      updated_at = now()
+  WHERE id = v_intent.id;
+
+  RETURN jsonb_build_object('status', 'processed', 'fully_refunded', v_refunded >= v_intent.amount);
+END;
+$function$;
+
+-- 9. Give a reservation back when the provider refused the refund
+CREATE OR REPLACE FUNCTION public.release_gateway_refund(_refund_id uuid, _failure_reason text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Gateway refunds can only be released by the payment gateway';
+  END IF;
+
+  UPDATE public.payment_gateway_refunds
+  SET status = 'failed',
+      failure_reason = COALESCE(_failure_reason, 'Refund failed'),
+      completed_at = now()
+  WHERE id = _refund_id
+    AND status = 'pending';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_gateway_refund(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.confirm_gateway_refund(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_gateway_refund(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- 10. Claim a pending refund for payout (admin)
+-- A claim older than 10 minutes can be taken over; the gateway refund keeps its idempotency
+-- key, so the new admin's retry cannot pay twice.
+CREATE OR REPLACE FUNCTION public.claim_order_refund(_refund_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_refund public.order_refunds%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can approve refunds';
+  END IF;
+
+  SELECT * INTO v_refund FROM public.order_refunds WHERE id = _refund_id FOR UPDATE;
+  IF NOT FOUND OR v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund not found or already reviewed';
+  END IF;
+
+  IF v_refund.processing_by IS NOT NULL
+     AND v_refund.processing_by <> auth.uid()
+     AND v_refund.processing_at > now() - interval '10 minutes' THEN
+    RAISE EXCEPTION 'Another admin is processing this refund';
+  END IF;
+
+  UPDATE public.order_refunds
+  SET processing_by = auth.uid(),
+      processing_at = now()
+  WHERE id = _refund_id;
+END;
+$function$;
+
+-- 11. Give up a claim (admin), only while nothing was sent to the gateway
+CREATE OR REPLACE FUNCTION public.release_order_refund(_refund_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_refund public.order_refunds%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can release refunds';
+  END IF;
+
+  SELECT * INTO v_refund FROM public.order_refunds WHERE id = _refund_id FOR UPDATE;
+  IF NOT FOUND OR v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund not found or already reviewed';
+  END IF;
+
+  IF v_refund.processing_by <> auth.uid()
+     AND v_refund.processing_at > now() - interval '10 minutes' THEN
+    RAISE EXCEPTION 'Another admin is processing this refund';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payment_gateway_refunds
+    WHERE id = _refund_id AND status IN ('pending', 'processed')
+  ) THEN
+    RAISE EXCEPTION 'The refund was already sent to the gateway - retry the approval to book it';
+  END IF;
+
+  UPDATE public.order_refunds
+  SET processing_by = NULL,
+      processing_at = NULL
+  WHERE id = _refund_id;
+END;
+$function$;
+
+-- 12. A refund being paid out cannot be rejected
+CREATE OR REPLACE FUNCTION public.prevent_rejecting_claimed_refund()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'rejected' AND OLD.status = 'pending'
+     AND (
+       OLD.processing_at IS NOT NULL
+       OR EXISTS (
+         SELECT 1 FROM public.payment_gateway_refunds
+         WHERE id = OLD.id AND status IN ('pending', 'processed')
+       )
+     ) THEN
+    RAISE EXCEPTION 'Refund is being paid out and cannot be rejected';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS prevent_rejecting_claimed_refund_trigger ON public.order_refunds;
+CREATE TRIGGER prevent_rejecting_claimed_refund_trigger
+  BEFORE UPDATE OF status ON public.order_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_rejecting_claimed_refund();
+
+-- 13. Cancel a paid order and record its refund in one step (admin)
+-- Writes only while the order is still in _from_state. The remaining escrow balance becomes a
+-- cancellation refund claimed by the cancelling admin, paid out and approved like any other;
+-- pending requests are superseded by it.
+-- Returns { refund_id, amount }; refund_id is NULL when nothing is left to refund.
+CREATE OR REPLACE FUNCTION public.cancel_order_with_refund(_order_id uuid, _from_state text, _reason text)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_reason text := NULLIF(trim(_reason), '');
+  v_amount numeric;
+  v_refund_id uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can cancel orders with a refund';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A cancellation reason is required';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.order_state::text IS DISTINCT FROM _from_state THEN
+    RAISE EXCEPTION 'The order has changed in the meantime - please refresh and try again';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_refunds
+    WHERE order_id = _order_id AND status = 'pending' AND processing_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'A refund on this order is being paid out - approve or release it before cancelling';
+  END IF;
+
+  UPDATE public.order_refunds
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      rejection_reason = 'Superseded by cancellation refund'
+  WHERE order_id = _order_id
+    AND status = 'pending';
+
+  -- Earlier partial refunds and released milestones are not refunded again
+  v_amount := public.get_order_refundable_balance(_order_id);
+
+  UPDATE public.orders
+  SET order_state = 'CANCELLED',
+      cancellation_reason = v_reason,
+      cancelled_at = now(),
+      cancelled_by = auth.uid(),
+      payment_state = CASE WHEN v_amount > 0 THEN 'PAYMENT_REFUNDED' ELSE payment_state END,
+      refunded_at = CASE WHEN v_amount > 0 THEN now() ELSE refunded_at END,
+      refunded_by = CASE WHEN v_amount > 0 THEN auth.uid() ELSE refunded_by END,
+      refund_reason = CASE WHEN v_amount > 0 THEN 'Order cancelled: ' || v_reason ELSE refund_reason END,
+      state_updated_at = now(),
+      updated_at = now()
+  WHERE id = _order_id;
+
+  IF v_amount > 0 THEN
+    INSERT INTO public.order_refunds (order_id, amount, reason, source_type, requested_by, processing_by, processing_at)
+    VALUES (_order_id, v_amount, 'Order cancelled: ' || v_reason, 'cancellation', auth.uid(), auth.uid(), now())
+    RETURNING id INTO v_refund_id;
+  END IF;
+
+  RETURN jsonb_build_object('refund_id', v_refund_id, 'amount', v_amount);
+END;
+$function$;
@@ -0,0 +1,497 @@
+-- Double-entry ledger for platform money movements
+-- Every payment state transition posts a balanced entry (sum of debits = sum of credits).
+-- Per order, with T = order value, D = delivery cost, C = platform commission, M = T - C - D:
+--
+--   order_invoiced     Dr buyer_receivable T     Cr manufacturer_payable M, platform_commission C, courier_cost D
+--   payment_captured   Dr escrow T               Cr buyer_receivable T
+--   milestone_released Dr manufacturer_payable / platform_cash / courier_cost (pro rata)   Cr escrow
+--   partial_refund     Dr manufacturer_payable R Cr escrow R
+--   settlement         clears what is left in payables / commission cash out of escrow (PAYMENT_RELEASED)
+--   reversal           reverses what is still owed (PAYMENT_REFUNDED, or cancelled before payment)
+--
+-- Entries are idempotent per (order, entry type, source).
+
+-- 1. Commission rate, snapshotted per order
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS platform_commission_rate numeric NOT NULL DEFAULT 0.10
+    CHECK (platform_commission_rate >= 0 AND platform_commission_rate < 1);
+
+-- 2. Chart of accounts
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  account_type text NOT NULL CHECK (account_type IN ('asset', 'liability', 'revenue', 'expense')),
+  normal_balance text NOT NULL CHECK (normal_balance IN ('debit', 'credit')),
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ledger accounts"
+ON public.ledger_accounts
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.ledger_accounts (code, name, account_type, normal_balance, sort_order) VALUES
+  ('buyer_receivable', 'Buyer Receivable', 'asset', 'debit', 1),
+  ('escrow', 'Escrow', 'asset', 'debit', 2),
+  ('platform_cash', 'Platform Cash', 'asset', 'debit', 3),
+  ('manufacturer_payable', 'Manufacturer Payable', 'liability', 'credit', 4),
+  ('courier_cost', 'Courier Cost Payable', 'liability', 'credit', 5),
+  ('platform_commission', 'Platform Commission', 'revenue', 'credit', 6)
+ON CONFLICT (code) DO NOTHING;
+
+-- 3. Entries and lines
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN (
+    'order_invoiced', 'payment_captured', 'milestone_released',
+    'partial_refund', 'settlement', 'reversal'
+  )),
+  -- milestone / refund id for repeatable entry types, '' otherwise
+  source_id text NOT NULL DEFAULT '',
+  memo text,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT ledger_entries_source_unique UNIQUE (order_id, entry_type, source_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.ledger_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES public.ledger_entries(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  account_code text NOT NULL REFERENCES public.ledger_accounts(code),
+  debit numeric NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit numeric NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  CONSTRAINT ledger_lines_one_side CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_order_id ON public.ledger_entries (order_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_order_account ON public.ledger_lines (order_id, account_code);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry_id ON public.ledger_lines (entry_id);
+
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_lines ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; rows are only written by the posting functions below
+CREATE POLICY "Admins can view ledger entries"
+ON public.ledger_entries
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view ledger lines"
+ON public.ledger_lines
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- 4. Trial balance
+CREATE OR REPLACE VIEW public.ledger_trial_balance
+WITH (security_invoker = true) AS
+SELECT
+  a.code AS account_code,
+  a.name AS account_name,
+  a.account_type,
+  a.normal_balance,
+  a.sort_order,
+  COALESCE(sum(l.debit), 0) AS total_debit,
+  COALESCE(sum(l.credit), 0) AS total_credit,
+  COALESCE(sum(l.debit - l.credit), 0) AS balance
+FROM public.ledger_accounts a
+LEFT JOIN public.ledger_lines l ON l.account_code = a.code
+GROUP BY a.code, a.name, a.account_type, a.normal_balance, a.sort_order;
+
+-- 5. Posting primitives
+-- Lines: [{ "account": code, "amount": n }] with positive = debit, negative = credit
+CREATE OR REPLACE FUNCTION public.ledger_post(
+  _order_id uuid,
+  _entry_type text,
+  _source_id text,
+  _memo text,
+  _lines jsonb
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_entry_id uuid;
+  v_line jsonb;
+  v_amount numeric;
+  v_sum numeric := 0;
+  v_count integer := 0;
+BEGIN
+  FOR v_line IN SELECT value FROM jsonb_array_elements(_lines) LOOP
+    v_amount := round(COALESCE((v_line->>'amount')::numeric, 0), 2);
+    IF v_amount <> 0 THEN
+      v_sum := v_sum + v_amount;
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  -- Nothing to move (e.g. zero delivery cost and commission already settled)
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_sum <> 0 THEN
+    RAISE EXCEPTION 'Unbalanced ledger entry % for order %: debits and credits differ by %', _entry_type, _order_id, v_sum;
+  END IF;
+
+  INSERT INTO public.ledger_entries (order_id, entry_type, source_id, memo, created_by)
+  VALUES (_order_id, _entry_type, COALESCE(_source_id, ''), _memo, auth.uid())
+  ON CONFLICT (order_id, entry_type, source_id) DO NOTHING
+  RETURNING id INTO v_entry_id;
+
+  -- Already posted
+  IF v_entry_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.ledger_lines (entry_id, order_id, account_code, debit, credit)
+  SELECT
+    v_entry_id,
+    _order_id,
+    value->>'account',
+    GREATEST(round((value->>'amount')::numeric, 2), 0),
+    GREATEST(-round((value->>'amount')::numeric, 2), 0)
+  FROM jsonb_array_elements(_lines)
+  WHERE round(COALESCE((value->>'amount')::numeric, 0), 2) <> 0;
+
+  RETURN v_entry_id;
+END;
+$function$;
+
+-- Debit-positive balance of one account for one order
+CREATE OR REPLACE FUNCTION public.ledger_order_balance(_order_id uuid, _account text)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE(sum(debit - credit), 0)
+  FROM public.ledger_lines
+  WHERE order_id = _order_id AND account_code = _account;
+$function$;
+
+-- Post one business event for an order
+CREATE OR REPLACE FUNCTION public.ledger_post_order_event(
+  _order_id uuid,
+  _event text,
+  _source_id text DEFAULT '',
+  _amount numeric DEFAULT NULL
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_total numeric;
+  v_delivery numeric;
+  v_commission numeric;
+  v_manufacturer numeric;
+  v_net numeric;
+  v_commission_share numeric;
+  v_courier_share numeric;
+  v_payable numeric;
+  v_courier numeric;
+  v_commission_open numeric;
+  v_balancing text;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = _order_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_total := COALESCE(v_order.total_order_value, v_order.total_amount, v_order.escrow_amount, 0);
+  IF v_total <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_delivery := LEAST(COALESCE(v_order.delivery_cost, 0), v_total);
+  v_commission := round((v_total - v_delivery) * v_order.platform_commission_rate);
+  v_manufacturer := v_total - v_commission - v_delivery;
+
+  IF _event = 'order_invoiced' THEN
+    RETURN public.ledger_post(_order_id, 'order_invoiced', '', 'Payment requested from buyer', jsonb_build_array(
+      jsonb_build_object('account', 'buyer_receivable', 'amount', v_total),
+      jsonb_build_object('account', 'manufacturer_payable', 'amount', -v_manufacturer),
+      jsonb_build_object('account', 'platform_commission', 'amount', -v_commission),
+      jsonb_build_object('account', 'courier_cost', 'amount', -v_delivery)
+    ));
+
+  ELSIF _event = 'payment_captured' THEN
+    -- Manually confirmed / legacy orders may skip PAYMENT_REQUESTED
+    PERFORM public.ledger_post_order_event(_order_id, 'order_invoiced');
+    RETURN public.ledger_post(_order_id, 'payment_captured', '', 'Buyer payment held in escrow', jsonb_build_array(
+      jsonb_build_object('account', 'escrow', 'amount', v_total),
+      jsonb_build_object('account', 'buyer_receivable', 'amount', -v_total)
+    ));
+
+  ELSIF _event = 'milestone_released' THEN
+    -- Milestones are gross amounts: commission and courier cost are withheld pro rata
+    v_commission_share := round(_amount * v_commission / v_total);
+    v_courier_share := round(_amount * v_delivery / v_total);
+    v_net := _amount - v_commission_share - v_courier_share;
+    RETURN public.ledger_post(_order_id, 'milestone_released', _source_id, 'Milestone released from escrow', jsonb_build_array(
+      jsonb_build_object('account', 'manufacturer_payable', 'amount', v_net),
+      jsonb_build_object('account', 'platform_cash', 'amount', v_commission_share),
+      jsonb_build_object('account', 'courier_cost', 'amount', v_courier_share),
+      jsonb_build_object('account', 'escrow', 'amount', -_amount)
+    ));
+
+  ELSIF _event = 'partial_refund' THEN
+    -- Partial credits come out of the manufacturer's share
+    RETURN public.ledger_post(_order_id, 'partial_refund', _source_id, 'Partial refund to buyer', jsonb_build_array(
+      jsonb_build_object('account', 'manufacturer_payable', 'amount', _amount),
+      jsonb_build_object('account', 'escrow', 'amount', -_amount)
+    ));
+  END IF;
+
+  -- Settlement / reversal clear whatever is still open for the order
+  v_payable := -public.ledger_order_balance(_order_id, 'manufacturer_payable');
+  v_courier := -public.ledger_order_balance(_order_id, 'courier_cost');
+  -- Commission earned but not yet moved out of escrow
+  v_commission_open := -public.ledger_order_balance(_order_id, 'platform_commission')
+    - public.ledger_order_balance(_order_id, 'platform_cash');
+
+  IF _event = 'settlement' THEN
+    RETURN public.ledger_post(_order_id, 'settlement', '', 'Escrow settled to manufacturer, courier and platform', jsonb_build_array(
+      jsonb_build_object('account', 'manufacturer_payable', 'amount', v_payable),
+      jsonb_build_object('account', 'courier_cost', 'amount', v_courier),
+      jsonb_build_object('account', 'platform_cash', 'amount', v_commission_open),
+      jsonb_build_object('account', 'escrow', 'amount', -(v_payable + v_courier + v_commission_open))
+    ));
+
+  ELSIF _event = 'reversal' THEN
+    -- Money back out of escrow if it was captured, otherwise void the receivable
+    v_balancing := CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.ledger_entries
+        WHERE order_id = _order_id AND entry_type = 'payment_captured'
+      ) THEN 'escrow'
+      ELSE 'buyer_receivable'
+    END;
+    RETURN public.ledger_post(_order_id, 'reversal', '', 'Outstanding amounts reversed', jsonb_build_array(
+      jsonb_build_object('account', 'manufacturer_payable', 'amount', v_payable),
+      jsonb_build_object('account', 'courier_cost', 'amount', v_courier),
+      jsonb_build_object('account', 'platform_commission', 'amount', v_commission_open),
+      jsonb_build_object('account', v_balancing, 'amount', -(v_payable + v_courier + v_commission_open))
+    ));
+  END IF;
+
+  RAISE EXCEPTION 'Unknown ledger event %', _event;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_post(uuid, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_order_balance(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_post_order_event(uuid, text, text, numeric) FROM PUBLIC, anon, authenticated;
+
+-- 6. Posting triggers
+CREATE OR REPLACE FUNCTION public.post_order_ledger_entries()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.order_state = 'PAYMENT_REQUESTED' AND OLD.order_state IS DISTINCT FROM 'PAYMENT_REQUESTED' THEN
+    PERFORM public.ledger_post_order_event(NEW.id, 'order_invoiced');
+  END IF;
+
+  IF NEW.payment_state IS DISTINCT FROM OLD.payment_state THEN
+    IF NEW.payment_state = 'PAYMENT_HELD' THEN
+      PERFORM public.ledger_post_order_event(NEW.id, 'payment_captured');
+    ELSIF NEW.payment_state = 'PAYMENT_RELEASED' THEN
+      PERFORM public.ledger_post_order_event(NEW.id, 'settlement');
+    ELSIF NEW.payment_state = 'PAYMENT_REFUNDED' THEN
+      PERFORM public.ledger_post_order_event(NEW.id, 'reversal');
+    END IF;
+  END IF;
+
+  -- Cancelled before payment: void the invoice
+  IF NEW.order_state = 'CANCELLED' AND OLD.order_state IS DISTINCT FROM 'CANCELLED'
+     AND COALESCE(NEW.payment_state, 'PAYMENT_INITIATED') = 'PAYMENT_INITIATED' THEN
+    PERFORM public.ledger_post_order_event(NEW.id, 'reversal');
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS post_order_ledger_entries_trigger ON public.orders;
+CREATE TRIGGER post_order_ledger_entries_trigger
+  AFTER UPDATE OF order_state, payment_state ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_order_ledger_entries();
+
+CREATE OR REPLACE FUNCTION public.post_milestone_ledger_entry()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'released' AND OLD.status IS DISTINCT FROM 'released' THEN
+    PERFORM public.ledger_post_order_event(NEW.order_id, 'milestone_released', NEW.id::text, NEW.amount);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS post_milestone_ledger_entry_trigger ON public.order_payment_milestones;
+CREATE TRIGGER post_milestone_ledger_entry_trigger
+  AFTER UPDATE OF status ON public.order_payment_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_milestone_ledger_entry();
+
+CREATE OR REPLACE FUNCTION public.post_refund_ledger_entry()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Cancellation refunds are covered by the reversal posted on PAYMENT_REFUNDED
+  IF NEW.status = 'approved' AND OLD.status = 'pending' AND NEW.source_type <> 'cancellation' THEN
+    PERFORM public.ledger_post_order_event(NEW.order_id, 'partial_refund', NEW.id::text, NEW.amount);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS post_refund_ledger_entry_trigger ON public.order_refunds;
+CREATE TRIGGER post_refund_ledger_entry_trigger
+  AFTER UPDATE OF status ON public.order_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_refund_ledger_entry();
+
+-- 7. Consistency checker: orders whose ledger does not match their payment_state
+CREATE OR REPLACE FUNCTION public.check_ledger_consistency()
+ RETURNS TABLE(order_id uuid, payment_state text, issue text, expected numeric, actual numeric)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run the ledger consistency check';
+  END IF;
+
+  RETURN QUERY
+  WITH balances AS (
+    SELECT
+      l.order_id,
+      COALESCE(sum(l.debit - l.credit) FILTER (WHERE l.account_code = 'buyer_receivable'), 0) AS receivable,
+      COALESCE(sum(l.debit - l.credit) FILTER (WHERE l.account_code = 'escrow'), 0) AS escrow,
+      COALESCE(sum(l.credit - l.debit) FILTER (WHERE l.account_code = 'manufacturer_payable'), 0) AS payable,
+      COALESCE(sum(l.credit - l.debit) FILTER (WHERE l.account_code = 'courier_cost'), 0) AS courier
+    FROM public.ledger_lines l
+    GROUP BY l.order_id
+  ),
+  tracked AS (
+    SELECT
+      o.id,
+      COALESCE(o.payment_state, 'PAYMENT_INITIATED') AS state,
+      COALESCE(b.receivable, 0) AS receivable,
+      COALESCE(b.escrow, 0) AS escrow,
+      COALESCE(b.payable, 0) AS payable,
+      COALESCE(b.courier, 0) AS courier,
+      EXISTS (
+        SELECT 1 FROM public.ledger_entries e
+        WHERE e.order_id = o.id AND e.entry_type = 'payment_captured'
+      ) AS captured
+    FROM public.orders o
+    LEFT JOIN balances b ON b.order_id = o.id
+  )
+  -- Payment captured but never posted
+  SELECT t.id, t.state, 'missing_capture_entry'::text, NULL::numeric, NULL::numeric
+  FROM tracked t
+  WHERE t.state IN ('PAYMENT_HELD', 'PAYMENT_RELEASABLE', 'PAYMENT_RELEASED') AND NOT t.captured
+
+  UNION ALL
+  -- Escrow must hold exactly the unreleased, unrefunded balance
+  SELECT t.id, t.state, 'escrow_mismatch', public.get_order_refundable_balance(t.id), t.escrow
+  FROM tracked t
+  WHERE t.state IN ('PAYMENT_HELD', 'PAYMENT_RELEASABLE') AND t.captured
+    AND t.escrow <> public.get_order_refundable_balance(t.id)
+
+  UNION ALL
+  SELECT t.id, t.state, 'receivable_outstanding', 0::numeric, t.receivable
+  FROM tracked t
+  WHERE t.state IN ('PAYMENT_HELD', 'PAYMENT_RELEASABLE', 'PAYMENT_RELEASED', 'PAYMENT_REFUNDED')
+    AND t.receivable <> 0
+
+  UNION ALL
+  SELECT t.id, t.state, 'escrow_not_cleared', 0::numeric, t.escrow
+  FROM tracked t
+  WHERE t.state IN ('PAYMENT_RELEASED', 'PAYMENT_REFUNDED') AND t.escrow <> 0
+
+  UNION ALL
+  SELECT t.id, t.state, 'payables_not_settled', 0::numeric, t.payable + t.courier
+  FROM tracked t
+  WHERE t.state IN ('PAYMENT_RELEASED', 'PAYMENT_REFUNDED') AND (t.payable <> 0 OR t.courier <> 0)
+
+  UNION ALL
+  SELECT t.id, t.state, 'escrow_without_payment', 0::numeric, t.escrow
+  FROM tracked t
+  WHERE t.state = 'PAYMENT_INITIATED' AND t.escrow <> 0
+
+  UNION ALL
+  -- Should be impossible through ledger_post; catches manual edits
+  SELECT e.order_id, COALESCE(o.payment_state, 'PAYMENT_INITIATED'), 'unbalanced_entry', sum(l.debit), sum(l.credit)
+  FROM public.ledger_entries e
+  JOIN public.ledger_lines l ON l.entry_id = e.id
+  JOIN public.orders o ON o.id = e.order_id
+  GROUP BY e.id, e.order_id, o.payment_state
+  HAVING sum(l.debit) <> sum(l.credit);
+END;
+$function$;
+
+-- 8. Backfill existing orders in event order
+DO $$
+DECLARE
+  v_order record;
+  v_item record;
+BEGIN
+  FOR v_order IN
+    SELECT id, order_state, payment_state
+    FROM public.orders
+    WHERE payment_state IN ('PAYMENT_HELD', 'PAYMENT_RELEASABLE', 'PAYMENT_RELEASED', 'PAYMENT_REFUNDED')
+       OR order_state = 'PAYMENT_REQUESTED'
+  LOOP
+    PERFORM public.ledger_post_order_event(v_order.id, 'order_invoiced');
+
+    IF v_order.payment_state IS NOT NULL AND v_order.payment_state <> 'PAYMENT_INITIATED' THEN
+      PERFORM public.ledger_post_order_event(v_order.id, 'payment_captured');
+
+      FOR v_item IN
+        SELECT id, amount FROM public.order_payment_milestones
+        WHERE order_id = v_order.id AND status = 'released'
+        ORDER BY released_at
+      LOOP
+        PERFORM public.ledger_post_order_event(v_order.id, 'milestone_released', v_item.id::text, v_item.amount);
+      END LOOP;
+
+      FOR v_item IN
+        SELECT id, amount FROM public.order_refunds
+        WHERE order_id = v_order.id AND status = 'approved' AND source_type <> 'cancellation'
+        ORDER BY reviewed_at
+      LOOP
+        PERFORM public.ledger_post_order_event(v_order.id, 'partial_refund', v_item.id::text, v_item.amount);
+      END LOOP;
+    END IF;
+
+    IF v_order.payment_state = 'PAYMENT_RELEASED' THEN
+      PERFORM public.ledger_post_order_event(v_order.id, 'settlement');
+    ELSIF v_order.payment_state = 'PAYMENT_REFUNDED' THEN
+      PERFORM public.ledger_post_order_event(v_order.id, 'reversal');
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,293 @@
+-- GST tax invoices and credit notes
+-- One tax invoice per order (issued once payment is captured) and one credit note per
+-- approved refund. Prices are GST-inclusive: the order value the buyer paid is split
+-- into taxable value + CGST/SGST (intra-state) or IGST (inter-state), comparing the
+-- manufacturer's state with the place of supply (order_shipping_info.state).
+-- Documents are numbered sequentially per financial year without gaps.
+
+-- 1. GSTIN on buyer / manufacturer profiles
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS gstin text;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_gstin_format
+  CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
+
+-- 2. HSN (goods) / SAC (services) codes and GST rates
+-- Apparel is taxed at gst_rate up to unit_value_threshold per piece, high_gst_rate above it
+CREATE TABLE IF NOT EXISTS public.gst_hsn_codes (
+  code text PRIMARY KEY,
+  description text NOT NULL,
+  product_types text[] NOT NULL DEFAULT '{}',
+  gst_rate numeric NOT NULL CHECK (gst_rate >= 0),
+  high_gst_rate numeric CHECK (high_gst_rate IS NULL OR high_gst_rate >= 0),
+  unit_value_threshold numeric CHECK (unit_value_threshold IS NULL OR unit_value_threshold > 0),
+  is_service boolean NOT NULL DEFAULT false,
+  is_default boolean NOT NULL DEFAULT false,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- At most one fallback code for product types without a mapping
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gst_hsn_codes_single_default
+  ON public.gst_hsn_codes (is_default) WHERE is_default;
+
+ALTER TABLE public.gst_hsn_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view HSN codes"
+ON public.gst_hsn_codes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage HSN codes"
+ON public.gst_hsn_codes
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.gst_hsn_codes (code, description, product_types, gst_rate, high_gst_rate, unit_value_threshold, is_service, is_default)
+VALUES
+  ('6109', 'T-shirts, singlets and other vests, knitted or crocheted', ARRAY['T-Shirts', 'Custom'], 5, 18, 2500, false, true),
+  ('6110', 'Jerseys, pullovers, sweatshirts and hoodies, knitted or crocheted', ARRAY['Hoodies'], 5, 18, 2500, false, false),
+  ('6201', 'Anoraks, wind-jackets and similar articles, not knitted', ARRAY['Jackets'], 5, 18, 2500, false, false),
+  ('6505', 'Hats and other headgear, knitted or made up from textile fabric', ARRAY['Caps'], 5, 18, 2500, false, false),
+  ('4202', 'Handbags and tote bags of textile materials', ARRAY['Bags'], 5, NULL, NULL, false, false),
+  ('5208', 'Woven fabrics of cotton', ARRAY['Fabric'], 5, NULL, NULL, false, false),
+  ('996812', 'Courier services (delivery)', '{}', 18, NULL, NULL, true, false)
+ON CONFLICT (code) DO NOTHING;
+
+-- 3. Sequential numbering per document type and financial year (April - March)
+CREATE TABLE IF NOT EXISTS public.tax_document_sequences (
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  financial_year text NOT NULL,
+  last_number integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (document_type, financial_year)
+);
+
+ALTER TABLE public.tax_document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view tax document sequences"
+ON public.tax_document_sequences
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- 4. Tax invoices and credit notes
+CREATE TABLE IF NOT EXISTS public.tax_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  -- e.g. INV/26-27/000042, CN/26-27/000003 (GST allows at most 16 characters)
+  document_number text NOT NULL UNIQUE,
+  financial_year text NOT NULL,
+  -- Credit notes reference the invoice they adjust and the refund that caused them
+  invoice_id uuid REFERENCES public.tax_invoices(id),
+  refund_id uuid UNIQUE REFERENCES public.order_refunds(id),
+  supplier_id uuid,
+  supplier_name text NOT NULL,
+  supplier_gstin text NOT NULL,
+  supplier_address text,
+  supplier_state text NOT NULL,
+  supplier_state_code text NOT NULL,
+  recipient_name text NOT NULL,
+  recipient_gstin text,
+  recipient_address text,
+  place_of_supply text NOT NULL,
+  place_of_supply_code text NOT NULL,
+  supply_type text NOT NULL CHECK (supply_type IN ('intra_state', 'inter_state')),
+  line_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  taxable_value numeric NOT NULL,
+  cgst_amount numeric NOT NULL DEFAULT 0,
+  sgst_amount numeric NOT NULL DEFAULT 0,
+  igst_amount numeric NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL CHECK (total_amount > 0),
+  reason text,
+  pdf_path text,
+  issued_at timestamp with time zone NOT NULL DEFAULT now(),
+  issued_by uuid,
+  CONSTRAINT tax_invoices_credit_note_refs CHECK (
+    document_type <> 'credit_note' OR (invoice_id IS NOT NULL AND refund_id IS NOT NULL)
+  ),
+  CONSTRAINT tax_invoices_tax_split CHECK (
+    (supply_type = 'intra_state' AND igst_amount = 0)
+    OR (supply_type = 'inter_state' AND cgst_amount = 0 AND sgst_amount = 0)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_invoices_one_invoice_per_order
+  ON public.tax_invoices (order_id) WHERE document_type = 'invoice';
+CREATE INDEX IF NOT EXISTS idx_tax_invoices_order_id ON public.tax_invoices (order_id);
+
+ALTER TABLE public.tax_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view tax invoices"
+ON public.tax_invoices
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view tax invoices for their orders"
+ON public.tax_invoices
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = tax_invoices.order_id
+      AND orders.buyer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Manufacturers can view tax invoices for their orders"
+ON public.tax_invoices
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = tax_invoices.order_id
+      AND orders.manufacturer_id = auth.uid()
+  )
+);
+
+-- 5. Generated PDFs are tracked in order_files
+ALTER TABLE public.order_files DROP CONSTRAINT IF EXISTS order_files_file_type_check;
+ALTER TABLE public.order_files
+  ADD CONSTRAINT order_files_file_type_check
+  CHECK (file_type IN ('spec', 'qc_sample', 'qc_bulk', 'delivery', 'invoice', 'credit_note'));
+
+-- 6. Issue a tax document (called by the tax-invoice edge function with the computed lines)
+-- Idempotent: returns the existing invoice for the order / credit note for the refund.
+-- The number is taken inside the same transaction as the insert, so numbering has no gaps.
+CREATE OR REPLACE FUNCTION public.issue_tax_document(_document jsonb)
+ RETURNS public.tax_invoices
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_type text := _document->>'document_type';
+  v_order_id uuid := (_document->>'order_id')::uuid;
+  v_refund_id uuid := NULLIF(_document->>'refund_id', '')::uuid;
+  v_invoice public.tax_invoices%ROWTYPE;
+  v_existing public.tax_invoices%ROWTYPE;
+  v_credited numeric;
+  v_issued_at timestamptz := now();
+  v_local date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_fy_start integer;
+  v_fy text;
+  v_number integer;
+BEGIN
+  -- Service role only: documents are computed and rendered by the tax-invoice function
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Tax documents can only be issued by the invoicing service';
+  END IF;
+
+  IF v_type NOT IN ('invoice', 'credit_note') THEN
+    RAISE EXCEPTION 'Unknown tax document type: %', v_type;
+  END IF;
+
+  -- Serialise issuing per order
+  PERFORM 1 FROM public.orders WHERE id = v_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', v_order_id;
+  END IF;
+
+  IF v_type = 'invoice' THEN
+    SELECT * INTO v_existing FROM public.tax_invoices
+    WHERE order_id = v_order_id AND document_type = 'invoice';
+  ELSE
+    SELECT * INTO v_existing FROM public.tax_invoices WHERE refund_id = v_refund_id;
+  END IF;
+
+  IF FOUND THEN
+    RETURN v_existing;
+  END IF;
+
+  IF v_type = 'credit_note' THEN
+    SELECT * INTO v_invoice FROM public.tax_invoices
+    WHERE order_id = v_order_id AND document_type = 'invoice';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No tax invoice has been issued for order %', v_order_id;
+    END IF;
+
+    SELECT COALESCE(SUM(total_amount), 0) INTO v_credited
+    FROM public.tax_invoices
+    WHERE invoice_id = v_invoice.id AND document_type = 'credit_note';
+
+    IF v_credited + (_document->>'total_amount')::numeric > v_invoice.total_amount THEN
+      RAISE EXCEPTION 'Credit notes would exceed invoice % (credited %, invoice %)',
+        v_invoice.document_number, v_credited, v_invoice.total_amount;
+    END IF;
+  END IF;
+
+  -- Indian financial year runs April to March
+  v_fy_start := CASE WHEN EXTRACT(MONTH FROM v_local) >= 4
+    THEN EXTRACT(YEAR FROM v_local)::integer
+    ELSE EXTRACT(YEAR FROM v_local)::integer - 1
+  END;
+  v_fy := lpad((v_fy_start % 100)::text, 2, '0') || '-' || lpad(((v_fy_start + 1) % 100)::text, 2, '0');
+
+  INSERT INTO public.tax_document_sequences (document_type, financial_year, last_number)
+  VALUES (v_type, v_fy, 1)
+  ON CONFLICT (document_type, financial_year)
+  DO UPDATE SET last_number = tax_document_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.tax_invoices (
+    order_id, document_type, document_number, financial_year, invoice_id, refund_id,
+    supplier_id, supplier_name, supplier_gstin, supplier_address, supplier_state, supplier_state_code,
+    recipient_name, recipient_gstin, recipient_address, place_of_supply, place_of_supply_code,
+    supply_type, line_items, taxable_value, cgst_amount, sgst_amount, igst_amount, total_amount,
+    reason, issued_at, issued_by
+  )
+  VALUES (
+    v_order_id,
+    v_type,
+    CASE WHEN v_type = 'invoice' THEN 'INV' ELSE 'CN' END || '/' || v_fy || '/' || lpad(v_number::text, 6, '0'),
+    v_fy,
+    CASE WHEN v_type = 'credit_note' THEN v_invoice.id END,
+    v_refund_id,
+    NULLIF(_document->>'supplier_id', '')::uuid,
+    _document->>'supplier_name',
+    _document->>'supplier_gstin',
+    _document->>'supplier_address',
+    _document->>'supplier_state',
+    _document->>'supplier_state_code',
+    _document->>'recipient_name',
+    NULLIF(_document->>'recipient_gstin', ''),
+    _document->>'recipient_address',
+    _document->>'place_of_supply',
+    _document->>'place_of_supply_code',
+    _document->>'supply_type',
+    COALESCE(_document->'line_items', '[]'::jsonb),
+    (_document->>'taxable_value')::numeric,
+    COALESCE((_document->>'cgst_amount')::numeric, 0),
+    COALESCE((_document->>'sgst_amount')::numeric, 0),
+    COALESCE((_document->>'igst_amount')::numeric, 0),
+    (_document->>'total_amount')::numeric,
+    _document->>'reason',
+    v_issued_at,
+    NULLIF(_document->>'issued_by', '')::uuid
+  )
+  RETURNING * INTO v_existing;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (
+    v_order_id,
+    CASE WHEN v_type = 'invoice' THEN 'tax_invoice_issued' ELSE 'credit_note_issued' END,
+    v_issued_at,
+    jsonb_build_object(
+      'document_id', v_existing.id,
+      'document_number', v_existing.document_number,
+      'invoice_number', v_invoice.document_number,
+      'refund_id', v_refund_id,
+      'supply_type', v_existing.supply_type,
+      'taxable_value', v_existing.taxable_value,
+      'total_amount', v_existing.total_amount,
+      'issued_by', v_existing.issued_by
+    )
+  );
+
+  RETURN v_existing;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_tax_document(jsonb) FROM PUBLIC, anon, authenticated;
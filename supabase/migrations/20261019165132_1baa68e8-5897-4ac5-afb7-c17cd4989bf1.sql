@@ -0,0 +1,376 @@
+-- Manufacturer payout settlement batches
+-- Every week, all PAYMENT_RELEASED orders not yet paid out are collected into one
+-- batch per manufacturer. Per order:
+--   commission = (order value - delivery cost - approved refunds) x commission rate
+--   net payout = order value - delivery cost - commission - approved refunds
+-- Refunds approved after their order was paid out are deducted from the next batch.
+-- Admins mark a batch paid (with the bank reference) or failed; failed batches can be retried.
+
+-- 1. Batches
+CREATE TABLE IF NOT EXISTS public.payout_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- e.g. PB-20261012-3f9a2c1b (period start + manufacturer)
+  reference text NOT NULL UNIQUE,
+  manufacturer_id uuid NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+  order_count integer NOT NULL DEFAULT 0,
+  gross_amount numeric NOT NULL DEFAULT 0,
+  delivery_amount numeric NOT NULL DEFAULT 0,
+  commission_amount numeric NOT NULL DEFAULT 0,
+  refund_amount numeric NOT NULL DEFAULT 0,
+  -- manufacturer's share of refunds on orders paid out in earlier batches
+  carried_refund_amount numeric NOT NULL DEFAULT 0,
+  net_amount numeric NOT NULL DEFAULT 0,
+  payment_reference text,
+  failure_reason text,
+  paid_at timestamp with time zone,
+  paid_by uuid,
+  failed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payout_batches_period CHECK (period_end >= period_start),
+  CONSTRAINT payout_batches_paid_reference CHECK (status <> 'paid' OR payment_reference IS NOT NULL),
+  CONSTRAINT payout_batches_failed_reason CHECK (status <> 'failed' OR failure_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_batches_manufacturer ON public.payout_batches (manufacturer_id, period_start DESC);
+CREATE INDEX IF NOT EXISTS idx_payout_batches_status ON public.payout_batches (status);
+
+-- 2. Statement lines: each order is paid out in exactly one batch
+CREATE TABLE IF NOT EXISTS public.payout_batch_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.payout_batches(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES public.orders(id),
+  released_at timestamp with time zone,
+  order_value numeric NOT NULL,
+  delivery_cost numeric NOT NULL DEFAULT 0,
+  commission_rate numeric NOT NULL,
+  commission_amount numeric NOT NULL,
+  refund_amount numeric NOT NULL DEFAULT 0,
+  net_amount numeric NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_batch_items_batch ON public.payout_batch_items (batch_id);
+
+-- Each approved refund is deducted in exactly one batch: with its order, or carried into
+-- a later batch when the order was already paid out
+ALTER TABLE public.order_refunds
+  ADD COLUMN IF NOT EXISTS payout_batch_id uuid REFERENCES public.payout_batches(id);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_unbatched ON public.order_refunds (order_id)
+  WHERE status = 'approved' AND payout_batch_id IS NULL;
+
+ALTER TABLE public.payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payout_batch_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payout batches"
+ON public.payout_batches
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can view their payout batches"
+ON public.payout_batches
+FOR SELECT
+USING (manufacturer_id = auth.uid());
+
+CREATE POLICY "Admins can view payout batch items"
+ON public.payout_batch_items
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can view their payout batch items"
+ON public.payout_batch_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.payout_batches
+    WHERE payout_batches.id = payout_batch_items.batch_id
+      AND payout_batches.manufacturer_id = auth.uid()
+  )
+);
+
+-- Carried refunds of a batch, net of the commission they no longer earn
+CREATE OR REPLACE FUNCTION public.payout_batch_carried_refunds(_batch_id uuid)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+ SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE(SUM(r.amount - round(r.amount * i.commission_rate)), 0)
+  FROM public.order_refunds r
+  JOIN public.payout_batch_items i ON i.order_id = r.order_id
+  WHERE r.payout_batch_id = _batch_id
+    AND i.batch_id <> _batch_id;
+$function$;
+
+-- 3. Build the batches for a week (Monday - Sunday, IST). Defaults to the last full week.
+-- Orders released on or before the period end that are not in any batch yet are included,
+-- so anything missed by an earlier run is caught up. Returns the number of batches touched.
+CREATE OR REPLACE FUNCTION public.generate_payout_batches(_period_start date DEFAULT NULL)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_start date;
+  v_end date;
+  v_manufacturer uuid;
+  v_batch_id uuid;
+  v_batches integer := 0;
+BEGIN
+  -- Scheduled job (no user) or admin
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can generate payout batches';
+  END IF;
+
+  v_start := COALESCE(
+    date_trunc('week', _period_start)::date,
+    date_trunc('week', v_today)::date - 7
+  );
+  v_end := v_start + 6;
+
+  FOR v_manufacturer IN
+    SELECT DISTINCT o.manufacturer_id
+    FROM public.orders o
+    WHERE o.payment_state = 'PAYMENT_RELEASED'
+      AND o.manufacturer_id IS NOT NULL
+      AND (COALESCE(o.escrow_released_timestamp, o.updated_at) AT TIME ZONE 'Asia/Kolkata')::date <= v_end
+      AND NOT EXISTS (SELECT 1 FROM public.payout_batch_items i WHERE i.order_id = o.id)
+  LOOP
+    -- Top up this week's batch while it is still pending, otherwise start a new one
+    SELECT id INTO v_batch_id
+    FROM public.payout_batches
+    WHERE manufacturer_id = v_manufacturer
+      AND period_start = v_start
+      AND status = 'pending'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_batch_id IS NULL THEN
+      INSERT INTO public.payout_batches (reference, manufacturer_id, period_start, period_end)
+      VALUES (
+        'PB-' || to_char(v_start, 'YYYYMMDD') || '-' || left(v_manufacturer::text, 8)
+          || CASE
+               WHEN EXISTS (
+                 SELECT 1 FROM public.payout_batches
+                 WHERE manufacturer_id = v_manufacturer AND period_start = v_start
+               ) THEN '-' || to_char(now(), 'HH24MISS')
+               ELSE ''
+             END,
+        v_manufacturer,
+        v_start,
+        v_end
+      )
+      RETURNING id INTO v_batch_id;
+    END IF;
+
+    -- Claim the approved refunds of the orders being batched; refunds approved from here
+    -- on are carried into a later batch
+    UPDATE public.order_refunds r
+    SET payout_batch_id = v_batch_id
+    FROM public.orders o
+    WHERE r.order_id = o.id
+      AND r.status = 'approved'
+      AND r.payout_batch_id IS NULL
+      AND o.manufacturer_id = v_manufacturer
+      AND o.payment_state = 'PAYMENT_RELEASED'
+      AND (COALESCE(o.escrow_released_timestamp, o.updated_at) AT TIME ZONE 'Asia/Kolkata')::date <= v_end
+      AND NOT EXISTS (SELECT 1 FROM public.payout_batch_items i WHERE i.order_id = o.id);
+
+    INSERT INTO public.payout_batch_items (
+      batch_id, order_id, released_at, order_value, delivery_cost,
+      commission_rate, commission_amount, refund_amount, net_amount
+    )
+    SELECT
+      v_batch_id,
+      t.id,
+      t.released_at,
+      t.total,
+      t.delivery,
+      t.rate,
+      t.commission,
+      t.refunded,
+      GREATEST(t.total - t.delivery - t.commission - t.refunded, 0)
+    FROM (
+      SELECT
+        o.id,
+        o.escrow_released_timestamp AS released_at,
+        v.total,
+        v.delivery,
+        o.platform_commission_rate AS rate,
+        -- Commission is only earned on what the buyer keeps paying for
+        round(GREATEST(v.total - v.delivery - f.refunded, 0) * o.platform_commission_rate) AS commission,
+        f.refunded
+      FROM public.orders o
+      CROSS JOIN LATERAL (
+        SELECT
+          COALESCE(o.total_order_value, o.total_amount, o.escrow_amount, 0) AS total,
+          LEAST(COALESCE(o.delivery_cost, 0), COALESCE(o.total_order_value, o.total_amount, o.escrow_amount, 0)) AS delivery
+      ) v
+      CROSS JOIN LATERAL (
+        SELECT COALESCE(SUM(r.amount), 0) AS refunded
+        FROM public.order_refunds r
+        WHERE r.order_id = o.id AND r.payout_batch_id = v_batch_id
+      ) f
+      WHERE o.manufacturer_id = v_manufacturer
+        AND o.payment_state = 'PAYMENT_RELEASED'
+        AND (COALESCE(o.escrow_released_timestamp, o.updated_at) AT TIME ZONE 'Asia/Kolkata')::date <= v_end
+        AND NOT EXISTS (SELECT 1 FROM public.payout_batch_items i WHERE i.order_id = o.id)
+    ) t
+    ON CONFLICT (order_id) DO NOTHING;
+
+    -- Refunds approved after their order was paid out: the manufacturer's share (the refund
+    -- less the commission it no longer earns) is deducted here, oldest first, as far as this
+    -- batch's order payouts cover it
+    UPDATE public.order_refunds r
+    SET payout_batch_id = v_batch_id
+    FROM (
+      SELECT
+        r2.id,
+        SUM(r2.amount - round(r2.amount * i.commission_rate)) OVER (ORDER BY r2.reviewed_at, r2.id) AS running_total
+      FROM public.order_refunds r2
+      JOIN public.payout_batch_items i ON i.order_id = r2.order_id
+      JOIN public.payout_batches b ON b.id = i.batch_id
+      WHERE b.manufacturer_id = v_manufacturer
+        AND i.batch_id <> v_batch_id
+        AND r2.status = 'approved'
+        AND r2.payout_batch_id IS NULL
+    ) c
+    WHERE r.id = c.id
+      AND c.running_total <= (
+        SELECT COALESCE(SUM(net_amount), 0) FROM public.payout_batch_items WHERE batch_id = v_batch_id
+      ) - public.payout_batch_carried_refunds(v_batch_id);
+
+    UPDATE public.payout_batches b
+    SET order_count = s.order_count,
+        gross_amount = s.gross,
+        delivery_amount = s.delivery,
+        commission_amount = s.commission,
+        refund_amount = s.refunded,
+        carried_refund_amount = s.carried,
+        net_amount = s.net - s.carried,
+        updated_at = now()
+    FROM (
+      SELECT
+        COUNT(*) AS order_count,
+        COALESCE(SUM(order_value), 0) AS gross,
+        COALESCE(SUM(delivery_cost), 0) AS delivery,
+        COALESCE(SUM(commission_amount), 0) AS commission,
+        COALESCE(SUM(refund_amount), 0) AS refunded,
+        COALESCE(SUM(net_amount), 0) AS net,
+        public.payout_batch_carried_refunds(v_batch_id) AS carried
+      FROM public.payout_batch_items
+      WHERE batch_id = v_batch_id
+    ) s
+    WHERE b.id = v_batch_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message)
+    SELECT v_manufacturer, 'payout_statement_ready', 'Payout statement ready',
+      'Your payout statement for ' || to_char(v_start, 'DD Mon') || ' - ' || to_char(v_end, 'DD Mon YYYY')
+        || ' is ready: ₹' || net_amount || ' across ' || order_count || ' order(s).'
+    FROM public.payout_batches WHERE id = v_batch_id;
+
+    v_batches := v_batches + 1;
+    v_batch_id := NULL;
+  END LOOP;
+
+  INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, metadata)
+  VALUES (
+    auth.uid(),
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'admin' END,
+    'payout_batches_generated',
+    'payment',
+    jsonb_build_object('period_start', v_start, 'period_end', v_end, 'batches', v_batches)
+  );
+
+  RETURN v_batches;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_payout_batches(date) FROM PUBLIC, anon;
+
+-- 4. Record the outcome of a payout (admin)
+-- pending → paid | failed, failed → pending (retry) | paid
+CREATE OR REPLACE FUNCTION public.update_payout_batch_status(
+  _batch_id uuid,
+  _status text,
+  _payment_reference text DEFAULT NULL,
+  _failure_reason text DEFAULT NULL
+)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_batch public.payout_batches%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can update payout batches';
+  END IF;
+
+  SELECT * INTO v_batch FROM public.payout_batches WHERE id = _batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout batch % not found', _batch_id;
+  END IF;
+
+  IF NOT (
+    (v_batch.status = 'pending' AND _status IN ('paid', 'failed'))
+    OR (v_batch.status = 'failed' AND _status IN ('pending', 'paid'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot move payout batch from % to %', v_batch.status, _status;
+  END IF;
+
+  IF _status = 'paid' AND COALESCE(trim(_payment_reference), '') = '' THEN
+    RAISE EXCEPTION 'A bank / UTR reference is required to mark a payout as paid';
+  END IF;
+  IF _status = 'failed' AND COALESCE(trim(_failure_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to mark a payout as failed';
+  END IF;
+
+  UPDATE public.payout_batches
+  SET status = _status,
+      payment_reference = CASE WHEN _status = 'paid' THEN trim(_payment_reference) ELSE payment_reference END,
+      failure_reason = CASE WHEN _status = 'failed' THEN trim(_failure_reason) ELSE NULL END,
+      paid_at = CASE WHEN _status = 'paid' THEN now() ELSE paid_at END,
+      paid_by = CASE WHEN _status = 'paid' THEN auth.uid() ELSE paid_by END,
+      failed_at = CASE WHEN _status = 'failed' THEN now() ELSE failed_at END,
+      updated_at = now()
+  WHERE id = _batch_id;
+
+  IF _status IN ('paid', 'failed') THEN
+    INSERT INTO public.notifications (user_id, type, title, message)
+    VALUES (
+      v_batch.manufacturer_id,
+      'payout_' || _status,
+      CASE WHEN _status = 'paid' THEN 'Payout sent' ELSE 'Payout failed' END,
+      CASE
+        WHEN _status = 'paid' THEN '₹' || v_batch.net_amount || ' for ' || v_batch.reference || ' has been paid (ref ' || trim(_payment_reference) || ').'
+        ELSE 'Payout ' || v_batch.reference || ' failed: ' || trim(_failure_reason) || '. We will retry it shortly.'
+      END
+    );
+  END IF;
+
+  INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, entity_id, metadata)
+  VALUES (auth.uid(), 'admin', 'payout_' || _status, 'payment', _batch_id, jsonb_build_object(
+    'reference', v_batch.reference,
+    'manufacturer_id', v_batch.manufacturer_id,
+    'from_status', v_batch.status,
+    'to_status', _status,
+    'net_amount', v_batch.net_amount,
+    'payment_reference', _payment_reference,
+    'failure_reason', _failure_reason
+  ));
+END;
+$function$;
+
+-- 5. Schedule: every Monday 00:00 IST (Sunday 18:30 UTC) for the week just ended
+SELECT cron.unschedule('generate-payout-batches')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'generate-payout-batches');
+
+SELECT cron.schedule('generate-payout-batches', '30 18 * * 0', 'SELECT public.generate_payout_batches()');
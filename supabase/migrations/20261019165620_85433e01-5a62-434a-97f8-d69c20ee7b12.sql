@@ -0,0 +1,329 @@
+-- Server-side pricing
+-- Prices live in price books instead of the client: per-fabric unit prices with
+-- quantity break tiers, print-method / print-area / name-personalisation surcharges
+-- and rush fees for tight deadlines. The price-quote edge function turns a price
+-- book into a signed quote (price_quotes); every buyer order must reference an
+-- unexpired, unused quote and takes its amounts from it.
+
+-- 1. Price books (exactly one active)
+CREATE TABLE IF NOT EXISTS public.price_books (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  -- flat price of a single sample piece
+  sample_unit_price numeric NOT NULL CHECK (sample_unit_price >= 0),
+  -- bulk unit price for fabrics without their own price
+  default_unit_price numeric NOT NULL CHECK (default_unit_price >= 0),
+  quote_validity_minutes integer NOT NULL DEFAULT 30 CHECK (quote_validity_minutes > 0),
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_books_active ON public.price_books (is_active) WHERE is_active;
+
+-- 2. Bulk unit price per fabric (ids from the fabric catalogue, e.g. hoodie-400gsm)
+CREATE TABLE IF NOT EXISTS public.price_book_fabrics (
+  price_book_id uuid NOT NULL REFERENCES public.price_books(id) ON DELETE CASCADE,
+  fabric_id text NOT NULL,
+  label text NOT NULL,
+  unit_price numeric NOT NULL CHECK (unit_price >= 0),
+  PRIMARY KEY (price_book_id, fabric_id)
+);
+
+-- 3. Quantity breaks: the highest min_quantity <= quantity applies (bulk only)
+CREATE TABLE IF NOT EXISTS public.price_book_quantity_tiers (
+  price_book_id uuid NOT NULL REFERENCES public.price_books(id) ON DELETE CASCADE,
+  min_quantity integer NOT NULL CHECK (min_quantity >= 1),
+  discount_rate numeric NOT NULL DEFAULT 0 CHECK (discount_rate >= 0 AND discount_rate < 1),
+  PRIMARY KEY (price_book_id, min_quantity)
+);
+
+-- 4. Per-piece surcharges
+CREATE TABLE IF NOT EXISTS public.price_book_surcharges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_book_id uuid NOT NULL REFERENCES public.price_books(id) ON DELETE CASCADE,
+  surcharge_type text NOT NULL CHECK (surcharge_type IN ('print_method', 'print_area', 'personalisation')),
+  code text NOT NULL,
+  label text NOT NULL,
+  unit_amount numeric NOT NULL DEFAULT 0 CHECK (unit_amount >= 0),
+  UNIQUE (price_book_id, surcharge_type, code)
+);
+
+-- 5. Rush fees: the smallest max_lead_days >= days until expected_deadline applies,
+-- as a share of the goods subtotal
+CREATE TABLE IF NOT EXISTS public.price_book_rush_tiers (
+  price_book_id uuid NOT NULL REFERENCES public.price_books(id) ON DELETE CASCADE,
+  max_lead_days integer NOT NULL CHECK (max_lead_days >= 0),
+  surcharge_rate numeric NOT NULL CHECK (surcharge_rate >= 0),
+  PRIMARY KEY (price_book_id, max_lead_days)
+);
+
+CREATE TRIGGER update_price_books_updated_at
+BEFORE UPDATE ON public.price_books
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.price_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_fabrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_quantity_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_surcharges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_rush_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Prices are public to signed-in users (shown while building an order); only admins edit
+CREATE POLICY "Authenticated users can view price books"
+ON public.price_books FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage price books"
+ON public.price_books FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view fabric prices"
+ON public.price_book_fabrics FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage fabric prices"
+ON public.price_book_fabrics FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view quantity tiers"
+ON public.price_book_quantity_tiers FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage quantity tiers"
+ON public.price_book_quantity_tiers FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view surcharges"
+ON public.price_book_surcharges FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage surcharges"
+ON public.price_book_surcharges FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view rush tiers"
+ON public.price_book_rush_tiers FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage rush tiers"
+ON public.price_book_rush_tiers FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- 6. Seed the current prices (previously hard-coded in the client)
+DO $$
+DECLARE
+  v_book uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.price_books) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.price_books (name, is_active, sample_unit_price, default_unit_price)
+  VALUES ('Standard', true, 500, 380)
+  RETURNING id INTO v_book;
+
+  INSERT INTO public.price_book_fabrics (price_book_id, fabric_id, label, unit_price) VALUES
+    (v_book, 'hoodie-400gsm', '400 GSM Fleece', 380),
+    (v_book, 'hoodie-350gsm', '350 GSM Fleece', 320),
+    (v_book, 'hoodie-300gsm', '300 GSM Fleece', 280),
+    (v_book, 'tshirt-240gsm', '240 GSM Combed Cotton', 260),
+    (v_book, 'tshirt-220gsm', '220 GSM Cotton', 235),
+    (v_book, 'tshirt-180gsm', '180 GSM Cotton', 210),
+    (v_book, 'custom-default', 'Custom (default pricing)', 380);
+
+  INSERT INTO public.price_book_quantity_tiers (price_book_id, min_quantity, discount_rate) VALUES
+    (v_book, 1, 0),
+    (v_book, 100, 0.03),
+    (v_book, 250, 0.06),
+    (v_book, 500, 0.10);
+
+  INSERT INTO public.price_book_surcharges (price_book_id, surcharge_type, code, label, unit_amount) VALUES
+    (v_book, 'print_method', 'dtg', 'DTG print', 0),
+    (v_book, 'print_method', 'screen', 'Screen print', 0),
+    (v_book, 'print_method', 'embroidery', 'Embroidery', 60),
+    (v_book, 'print_area', 'front', 'Front print', 0),
+    (v_book, 'print_area', 'back', 'Back print', 40),
+    (v_book, 'personalisation', 'name', 'Name personalisation', 30);
+
+  INSERT INTO public.price_book_rush_tiers (price_book_id, max_lead_days, surcharge_rate) VALUES
+    (v_book, 10, 0.20),
+    (v_book, 14, 0.10);
+END $$;
+
+-- 7. Signed quotes (written only by the price-quote edge function)
+CREATE TABLE IF NOT EXISTS public.price_quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_id uuid NOT NULL,
+  price_book_id uuid NOT NULL REFERENCES public.price_books(id),
+  -- the pricing request as sent (purpose, product, fabric, print options, deadline)
+  request jsonb NOT NULL,
+  product_type text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity >= 1),
+  is_sample boolean NOT NULL DEFAULT false,
+  fabric_id text,
+  print_method text,
+  unit_price numeric NOT NULL,
+  line_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  goods_subtotal numeric NOT NULL,
+  rush_fee numeric NOT NULL DEFAULT 0,
+  delivery_cost numeric NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL,
+  -- HMAC-SHA256 over the quote's canonical fields (PRICE_QUOTE_SIGNING_SECRET)
+  signature text NOT NULL,
+  expires_at timestamp with time zone NOT NULL,
+  order_id uuid UNIQUE REFERENCES public.orders(id),
+  consumed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_quotes_buyer ON public.price_quotes (buyer_id, created_at DESC);
+
+ALTER TABLE public.price_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers can view their price quotes"
+ON public.price_quotes FOR SELECT
+USING (buyer_id = auth.uid());
+
+CREATE POLICY "Admins can view price quotes"
+ON public.price_quotes FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- 8. Orders reference their quote
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS price_quote_id uuid REFERENCES public.price_quotes(id),
+  ADD COLUMN IF NOT EXISTS print_method text,
+  ADD COLUMN IF NOT EXISTS name_personalisation boolean NOT NULL DEFAULT false;
+
+-- Amount captured into escrow when an order is paid. Milestones split the held total into
+-- tranches afterwards, so the whole order value is payable upfront.
+CREATE OR REPLACE FUNCTION public.order_upfront_payable_amount(_total_amount numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT _total_amount;
+$$;
+
+-- Buyer inserts must reference a valid quote; its amounts and priced options (fabric,
+-- sample vs bulk, purpose, deadline, personalisation) replace whatever the client sent.
+-- Service-role inserts (no auth.uid()) may omit the quote.
+CREATE OR REPLACE FUNCTION public.apply_order_price_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quote public.price_quotes%ROWTYPE;
+  v_print_areas jsonb;
+  v_upfront numeric;
+BEGIN
+  IF NEW.price_quote_id IS NULL THEN
+    IF auth.uid() IS NOT NULL THEN
+      RAISE EXCEPTION 'Orders must reference a price quote';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_quote FROM public.price_quotes WHERE id = NEW.price_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Price quote not found';
+  END IF;
+  IF v_quote.buyer_id <> NEW.buyer_id THEN
+    RAISE EXCEPTION 'Price quote belongs to another buyer';
+  END IF;
+  IF v_quote.order_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Price quote has already been used';
+  END IF;
+  IF v_quote.expires_at < now() THEN
+    RAISE EXCEPTION 'Price quote has expired, please refresh the price';
+  END IF;
+  IF v_quote.quantity <> NEW.quantity OR v_quote.product_type IS DISTINCT FROM NEW.product_type THEN
+    RAISE EXCEPTION 'Order does not match its price quote';
+  END IF;
+
+  v_upfront := public.order_upfront_payable_amount(v_quote.total_amount);
+
+  NEW.total_order_value := v_quote.total_amount;
+  NEW.total_amount := v_quote.total_amount;
+  NEW.delivery_cost := v_quote.delivery_cost;
+  NEW.upfront_payable_amount := v_upfront;
+  NEW.escrow_amount := v_upfront;
+  NEW.fabric_unit_price := CASE WHEN v_quote.is_sample THEN NULL ELSE v_quote.unit_price END;
+  NEW.print_method := v_quote.print_method;
+
+  -- The priced options: what the buyer chose when the quote was issued
+  NEW.fabric_type := (
+    SELECT label FROM public.price_book_fabrics
+    WHERE price_book_id = v_quote.price_book_id AND fabric_id = v_quote.fabric_id
+  );
+  NEW.buyer_purpose := (v_quote.request->>'buyer_purpose')::public.buyer_purpose;
+  NEW.order_intent := CASE WHEN v_quote.is_sample THEN 'sample_only' ELSE 'direct_bulk' END::public.order_intent;
+  NEW.order_mode := CASE WHEN v_quote.is_sample THEN 'sample_only' ELSE 'direct_bulk' END::public.order_mode;
+  NEW.name_personalisation := COALESCE((v_quote.request->>'personalisation')::boolean, false);
+  -- Rush fees are priced from the deadline; samples carry no rush fee
+  IF NOT v_quote.is_sample THEN
+    NEW.expected_deadline := (v_quote.request->>'expected_deadline')::timestamp with time zone;
+  END IF;
+
+  -- Print area surcharges are per side, so a design needs its side in the quote
+  v_print_areas := COALESCE(v_quote.request->'print_areas', '[]'::jsonb);
+  IF (NEW.design_file_url IS NOT NULL OR NEW.mockup_image IS NOT NULL) AND NOT v_print_areas ? 'front' THEN
+    RAISE EXCEPTION 'Order has a front design that its price quote does not include';
+  END IF;
+  IF (NEW.back_design_url IS NOT NULL OR NEW.back_mockup_image IS NOT NULL) AND NOT v_print_areas ? 'back' THEN
+    RAISE EXCEPTION 'Order has a back design that its price quote does not include';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_order_price_quote_on_insert
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_order_price_quote();
+
+CREATE OR REPLACE FUNCTION public.consume_order_price_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.price_quote_id IS NOT NULL THEN
+    UPDATE public.price_quotes
+    SET order_id = NEW.id, consumed_at = now()
+    WHERE id = NEW.price_quote_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER consume_order_price_quote_on_insert
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.consume_order_price_quote();
+
+-- Quotes are not editable once issued; the quote an order was priced from can't be swapped
+CREATE OR REPLACE FUNCTION public.lock_order_price_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.price_quote_id IS DISTINCT FROM OLD.price_quote_id THEN
+    RAISE EXCEPTION 'The price quote of an order cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_order_price_quote_on_update
+  BEFORE UPDATE OF price_quote_id ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_order_price_quote();
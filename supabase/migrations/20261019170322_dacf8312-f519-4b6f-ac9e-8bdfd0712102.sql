@@ -0,0 +1,576 @@
+-- Requests for quotation (RFQ)
+-- Buyers with products the price book can't price (custom items, jackets, bags)
+-- describe their requirements; admins or invited manufacturers answer with
+-- itemised quotes that expire. Accepting a quote creates the order in SUBMITTED
+-- with the quoted amounts locked by the order insert trigger.
+
+CREATE TABLE IF NOT EXISTS public.rfqs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_id uuid NOT NULL,
+  buyer_purpose public.buyer_purpose NOT NULL DEFAULT 'merch_bulk',
+  product_type text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  requirements text NOT NULL,
+  fabric_preference text,
+  selected_color text,
+  design_size text NOT NULL DEFAULT 'A4',
+  target_unit_price numeric CHECK (target_unit_price IS NULL OR target_unit_price >= 0),
+  expected_deadline timestamptz,
+  google_drive_link text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'quoted', 'accepted', 'cancelled')),
+  accepted_quote_id uuid,
+  order_id uuid REFERENCES public.orders(id),
+  closed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfqs_buyer ON public.rfqs(buyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rfqs_status ON public.rfqs(status);
+
+CREATE TABLE IF NOT EXISTS public.rfq_invitations (
+  rfq_id uuid NOT NULL REFERENCES public.rfqs(id) ON DELETE CASCADE,
+  manufacturer_id uuid NOT NULL,
+  invited_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (rfq_id, manufacturer_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.rfq_quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rfq_id uuid NOT NULL REFERENCES public.rfqs(id) ON DELETE CASCADE,
+  responder_id uuid NOT NULL,
+  responder_role text NOT NULL CHECK (responder_role IN ('admin', 'manufacturer')),
+  line_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  goods_subtotal numeric NOT NULL CHECK (goods_subtotal >= 0),
+  delivery_cost numeric NOT NULL DEFAULT 0 CHECK (delivery_cost >= 0),
+  total_amount numeric NOT NULL CHECK (total_amount > 0),
+  lead_time_days integer CHECK (lead_time_days IS NULL OR lead_time_days > 0),
+  notes text,
+  valid_until timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'accepted', 'declined', 'withdrawn')),
+  accepted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_quotes_rfq ON public.rfq_quotes(rfq_id, created_at DESC);
+
+ALTER TABLE public.rfqs
+  ADD CONSTRAINT rfqs_accepted_quote_id_fkey FOREIGN KEY (accepted_quote_id) REFERENCES public.rfq_quotes(id);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS rfq_quote_id uuid REFERENCES public.rfq_quotes(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_rfq_quote ON public.orders(rfq_quote_id) WHERE rfq_quote_id IS NOT NULL;
+
+CREATE TRIGGER update_rfqs_updated_at
+  BEFORE UPDATE ON public.rfqs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.rfqs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rfq_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rfq_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers can create their own RFQs"
+  ON public.rfqs FOR INSERT TO authenticated
+  WITH CHECK (buyer_id = auth.uid() AND status = 'open' AND order_id IS NULL AND accepted_quote_id IS NULL);
+
+CREATE POLICY "Buyers can view their own RFQs"
+  ON public.rfqs FOR SELECT TO authenticated
+  USING (buyer_id = auth.uid());
+
+CREATE POLICY "Invited manufacturers can view RFQs"
+  ON public.rfqs FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.rfq_invitations i
+    WHERE i.rfq_id = rfqs.id AND i.manufacturer_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can manage RFQs"
+  ON public.rfqs FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can view their invitations"
+  ON public.rfq_invitations FOR SELECT TO authenticated
+  USING (manufacturer_id = auth.uid());
+
+CREATE POLICY "Admins can manage RFQ invitations"
+  ON public.rfq_invitations FOR ALL TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view quotes on their RFQs"
+  ON public.rfq_quotes FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.rfqs r
+    WHERE r.id = rfq_quotes.rfq_id AND r.buyer_id = auth.uid()
+  ));
+
+CREATE POLICY "Responders can view their own quotes"
+  ON public.rfq_quotes FOR SELECT TO authenticated
+  USING (responder_id = auth.uid());
+
+CREATE POLICY "Admins can view all RFQ quotes"
+  ON public.rfq_quotes FOR SELECT TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Quotes are written only through submit_rfq_quote / withdraw_rfq_quote / accept_rfq_quote
+
+-- =====================================================
+-- Invite manufacturers to quote (admin)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.invite_rfq_manufacturers(_rfq_id uuid, _manufacturer_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rfq public.rfqs%ROWTYPE;
+  v_manufacturer_id uuid;
+  v_invited integer := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can invite manufacturers to quote';
+  END IF;
+
+  SELECT * INTO v_rfq FROM public.rfqs WHERE id = _rfq_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RFQ not found';
+  END IF;
+  IF v_rfq.status NOT IN ('open', 'quoted') THEN
+    RAISE EXCEPTION 'RFQ is closed';
+  END IF;
+
+  FOREACH v_manufacturer_id IN ARRAY COALESCE(_manufacturer_ids, '{}') LOOP
+    IF NOT has_role(v_manufacturer_id, 'manufacturer'::app_role) THEN
+      RAISE EXCEPTION 'User % is not a manufacturer', v_manufacturer_id;
+    END IF;
+
+    INSERT INTO public.rfq_invitations (rfq_id, manufacturer_id, invited_by)
+    VALUES (_rfq_id, v_manufacturer_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      v_invited := v_invited + 1;
+      INSERT INTO public.notifications (user_id, type, title, message)
+      VALUES (
+        v_manufacturer_id,
+        'rfq_invitation',
+        'New request for quotation',
+        format('You have been invited to quote for %s x %s.', v_rfq.quantity, v_rfq.product_type)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_invited;
+END;
+$$;
+
+-- =====================================================
+-- Submit an itemised quote (admin or invited manufacturer)
+-- _line_items: [{ "description": text, "quantity": number, "unit_price": number }]
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_rfq_quote(
+  _rfq_id uuid,
+  _line_items jsonb,
+  _delivery_cost numeric,
+  _lead_time_days integer,
+  _valid_days integer,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rfq public.rfqs%ROWTYPE;
+  v_role text;
+  v_item jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_quantity numeric;
+  v_unit_price numeric;
+  v_amount numeric;
+  v_subtotal numeric := 0;
+  v_delivery numeric := round(COALESCE(_delivery_cost, 0), 2);
+  v_quote_id uuid;
+BEGIN
+  IF has_role(auth.uid(), 'admin'::app_role) THEN
+    v_role := 'admin';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.rfq_invitations
+    WHERE rfq_id = _rfq_id AND manufacturer_id = auth.uid()
+  ) THEN
+    v_role := 'manufacturer';
+  ELSE
+    RAISE EXCEPTION 'Not allowed to quote on this RFQ';
+  END IF;
+
+  SELECT * INTO v_rfq FROM public.rfqs WHERE id = _rfq_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RFQ not found';
+  END IF;
+  IF v_rfq.status NOT IN ('open', 'quoted') THEN
+    RAISE EXCEPTION 'RFQ is closed';
+  END IF;
+  IF jsonb_typeof(_line_items) <> 'array' OR jsonb_array_length(_line_items) = 0 THEN
+    RAISE EXCEPTION 'A quote needs at least one line item';
+  END IF;
+  IF v_delivery < 0 THEN
+    RAISE EXCEPTION 'Delivery cost cannot be negative';
+  END IF;
+  IF _valid_days IS NULL OR _valid_days < 1 OR _valid_days > 60 THEN
+    RAISE EXCEPTION 'Quote validity must be between 1 and 60 days';
+  END IF;
+
+  -- Amounts are recomputed here; the client's arithmetic is not trusted
+  FOR v_item IN SELECT * FROM jsonb_array_elements(_line_items) LOOP
+    v_quantity := (v_item->>'quantity')::numeric;
+    v_unit_price := round((v_item->>'unit_price')::numeric, 2);
+    IF COALESCE(trim(v_item->>'description'), '') = '' THEN
+      RAISE EXCEPTION 'Every line item needs a description';
+    END IF;
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_unit_price IS NULL OR v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Line item quantities must be positive and prices not negative';
+    END IF;
+
+    v_amount := round(v_quantity * v_unit_price, 2);
+    v_subtotal := v_subtotal + v_amount;
+    v_items := v_items || jsonb_build_object(
+      'description', trim(v_item->>'description'),
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'amount', v_amount
+    );
+  END LOOP;
+
+  IF v_subtotal + v_delivery <= 0 THEN
+    RAISE EXCEPTION 'Quote total must be greater than zero';
+  END IF;
+
+  INSERT INTO public.rfq_quotes (
+    rfq_id, responder_id, responder_role, line_items, goods_subtotal, delivery_cost,
+    total_amount, lead_time_days, notes, valid_until
+  )
+  VALUES (
+    _rfq_id, auth.uid(), v_role, v_items, v_subtotal, v_delivery,
+    v_subtotal + v_delivery, _lead_time_days, NULLIF(trim(_notes), ''), now() + make_interval(days => _valid_days)
+  )
+  RETURNING id INTO v_quote_id;
+
+  UPDATE public.rfqs SET status = 'quoted' WHERE id = _rfq_id AND status = 'open';
+
+  INSERT INTO public.notifications (user_id, type, title, message)
+  VALUES (
+    v_rfq.buyer_id,
+    'rfq_quote_received',
+    'New quotation received',
+    format('A quotation of ₹%s for your %s request is ready. It is valid for %s days.',
+      to_char(v_subtotal + v_delivery, 'FM999999990.00'), v_rfq.product_type, _valid_days)
+  );
+
+  RETURN v_quote_id;
+END;
+$$;
+
+-- =====================================================
+-- Withdraw a quote that hasn't been accepted (its responder or an admin)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.withdraw_rfq_quote(_quote_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quote public.rfq_quotes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote FROM public.rfq_quotes WHERE id = _quote_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+  IF v_quote.responder_id <> auth.uid() AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Not allowed to withdraw this quote';
+  END IF;
+  IF v_quote.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only open quotes can be withdrawn';
+  END IF;
+
+  UPDATE public.rfq_quotes SET status = 'withdrawn' WHERE id = _quote_id;
+END;
+$$;
+
+-- =====================================================
+-- Accept a quote (buyer) - creates the order in SUBMITTED
+-- _shipping: { full_name, phone, address_line1, address_line2, pincode, city, state, country }
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.accept_rfq_quote(_quote_id uuid, _shipping jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quote public.rfq_quotes%ROWTYPE;
+  v_rfq public.rfqs%ROWTYPE;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_quote FROM public.rfq_quotes WHERE id = _quote_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  SELECT * INTO v_rfq FROM public.rfqs WHERE id = v_quote.rfq_id FOR UPDATE;
+  IF v_rfq.buyer_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the buyer can accept this quote';
+  END IF;
+  IF v_rfq.status NOT IN ('open', 'quoted') THEN
+    RAISE EXCEPTION 'RFQ is closed';
+  END IF;
+  IF v_quote.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This quote is no longer available';
+  END IF;
+  IF v_quote.valid_until < now() THEN
+    RAISE EXCEPTION 'This quote has expired, please ask for a new one';
+  END IF;
+  IF COALESCE(trim(_shipping->>'full_name'), '') = ''
+     OR COALESCE(trim(_shipping->>'phone'), '') = ''
+     OR COALESCE(trim(_shipping->>'address_line1'), '') = ''
+     OR COALESCE(trim(_shipping->>'pincode'), '') = ''
+     OR COALESCE(trim(_shipping->>'city'), '') = ''
+     OR COALESCE(trim(_shipping->>'state'), '') = '' THEN
+    RAISE EXCEPTION 'A complete shipping address is required';
+  END IF;
+
+  UPDATE public.rfq_quotes SET status = 'accepted', accepted_at = now() WHERE id = _quote_id;
+  UPDATE public.rfq_quotes SET status = 'declined'
+  WHERE rfq_id = v_rfq.id AND id <> _quote_id AND status = 'submitted';
+
+  -- Amounts are copied from the quote by apply_order_price_quote
+  INSERT INTO public.orders (
+    buyer_id, product_type, design_size, quantity, rfq_quote_id,
+    escrow_status, order_state, detailed_status, status, sample_status,
+    fabric_type, selected_color, expected_deadline, buyer_purpose,
+    order_intent, order_mode, bulk_order_confirmed_at,
+    design_explanation, google_drive_link, buyer_notes
+  )
+  VALUES (
+    v_rfq.buyer_id, v_rfq.product_type, v_rfq.design_size, v_rfq.quantity, _quote_id,
+    'pending', 'SUBMITTED', 'created', 'pending', 'not_started',
+    v_rfq.fabric_preference, v_rfq.selected_color, v_rfq.expected_deadline, v_rfq.buyer_purpose,
+    'direct_bulk', 'direct_bulk', now(),
+    v_rfq.requirements, v_rfq.google_drive_link, v_quote.notes
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO public.order_shipping_info (
+    order_id, full_name, phone, address_line1, address_line2, pincode, city, state, country
+  )
+  VALUES (
+    v_order_id,
+    trim(_shipping->>'full_name'),
+    trim(_shipping->>'phone'),
+    trim(_shipping->>'address_line1'),
+    NULLIF(trim(_shipping->>'address_line2'), ''),
+    trim(_shipping->>'pincode'),
+    trim(_shipping->>'city'),
+    trim(_shipping->>'state'),
+    COALESCE(NULLIF(trim(_shipping->>'country'), ''), 'India')
+  );
+
+  UPDATE public.rfqs
+  SET status = 'accepted', accepted_quote_id = _quote_id, order_id = v_order_id, closed_at = now()
+  WHERE id = v_rfq.id;
+
+  INSERT INTO public.order_events (order_id, event_type, metadata)
+  VALUES (
+    v_order_id,
+    'order_submitted_for_review',
+    jsonb_build_object('source', 'rfq', 'rfq_id', v_rfq.id, 'rfq_quote_id', _quote_id, 'total_amount', v_quote.total_amount)
+  );
+
+  INSERT INTO public.notifications (user_id, order_id, type, title, message)
+  VALUES (
+    v_quote.responder_id,
+    v_order_id,
+    'rfq_quote_accepted',
+    'Quotation accepted',
+    format('Your quotation for %s x %s was accepted and the order is awaiting admin review.', v_rfq.quantity, v_rfq.product_type)
+  );
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- =====================================================
+-- Cancel an RFQ that has no accepted quote (its buyer or an admin)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.cancel_rfq(_rfq_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rfq public.rfqs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rfq FROM public.rfqs WHERE id = _rfq_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RFQ not found';
+  END IF;
+  IF v_rfq.buyer_id <> auth.uid() AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Not allowed to cancel this RFQ';
+  END IF;
+  IF v_rfq.status NOT IN ('open', 'quoted') THEN
+    RAISE EXCEPTION 'RFQ is already closed';
+  END IF;
+
+  UPDATE public.rfq_quotes SET status = 'declined' WHERE rfq_id = _rfq_id AND status = 'submitted';
+  UPDATE public.rfqs SET status = 'cancelled', closed_at = now() WHERE id = _rfq_id;
+END;
+$$;
+
+-- =====================================================
+-- Order pricing: an order references either a signed price quote or an
+-- accepted RFQ quote, and takes its amounts and options from it
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.apply_order_price_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quote public.price_quotes%ROWTYPE;
+  v_print_areas jsonb;
+  v_rfq_quote public.rfq_quotes%ROWTYPE;
+  v_rfq public.rfqs%ROWTYPE;
+  v_upfront numeric;
+BEGIN
+  IF NEW.price_quote_id IS NOT NULL AND NEW.rfq_quote_id IS NOT NULL THEN
+    RAISE EXCEPTION 'An order cannot reference both a price quote and an RFQ quote';
+  END IF;
+
+  IF NEW.rfq_quote_id IS NOT NULL THEN
+    SELECT * INTO v_rfq_quote FROM public.rfq_quotes WHERE id = NEW.rfq_quote_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'RFQ quote not found';
+    END IF;
+    SELECT * INTO v_rfq FROM public.rfqs WHERE id = v_rfq_quote.rfq_id;
+
+    IF v_rfq_quote.status <> 'accepted' THEN
+      RAISE EXCEPTION 'RFQ quote has not been accepted';
+    END IF;
+    IF v_rfq.buyer_id <> NEW.buyer_id THEN
+      RAISE EXCEPTION 'RFQ quote belongs to another buyer';
+    END IF;
+    IF v_rfq.order_id IS NOT NULL THEN
+      RAISE EXCEPTION 'RFQ quote has already been used';
+    END IF;
+    IF v_rfq.quantity <> NEW.quantity OR v_rfq.product_type IS DISTINCT FROM NEW.product_type THEN
+      RAISE EXCEPTION 'Order does not match its RFQ';
+    END IF;
+
+    v_upfront := public.order_upfront_payable_amount(v_rfq_quote.total_amount);
+
+    NEW.total_order_value := v_rfq_quote.total_amount;
+    NEW.total_amount := v_rfq_quote.total_amount;
+    NEW.delivery_cost := v_rfq_quote.delivery_cost;
+    NEW.upfront_payable_amount := v_upfront;
+    NEW.escrow_amount := v_upfront;
+    NEW.fabric_unit_price := NULL;
+    NEW.print_method := NULL;
+    NEW.fabric_type := v_rfq.fabric_preference;
+    NEW.expected_deadline := v_rfq.expected_deadline;
+    NEW.buyer_purpose := v_rfq.buyer_purpose;
+    NEW.order_intent := 'direct_bulk';
+    NEW.order_mode := 'direct_bulk';
+    NEW.name_personalisation := false;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.price_quote_id IS NULL THEN
+    IF auth.uid() IS NOT NULL THEN
+      RAISE EXCEPTION 'Orders must reference a price quote';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_quote FROM public.price_quotes WHERE id = NEW.price_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Price quote not found';
+  END IF;
+  IF v_quote.buyer_id <> NEW.buyer_id THEN
+    RAISE EXCEPTION 'Price quote belongs to another buyer';
+  END IF;
+  IF v_quote.order_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Price quote has already been used';
+  END IF;
+  IF v_quote.expires_at < now() THEN
+    RAISE EXCEPTION 'Price quote has expired, please refresh the price';
+  END IF;
+  IF v_quote.quantity <> NEW.quantity OR v_quote.product_type IS DISTINCT FROM NEW.product_type THEN
+    RAISE EXCEPTION 'Order does not match its price quote';
+  END IF;
+
+  v_upfront := public.order_upfront_payable_amount(v_quote.total_amount);
+
+  NEW.total_order_value := v_quote.total_amount;
+  NEW.total_amount := v_quote.total_amount;
+  NEW.delivery_cost := v_quote.delivery_cost;
+  NEW.upfront_payable_amount := v_upfront;
+  NEW.escrow_amount := v_upfront;
+  NEW.fabric_unit_price := CASE WHEN v_quote.is_sample THEN NULL ELSE v_quote.unit_price END;
+  NEW.print_method := v_quote.print_method;
+
+  -- The priced options: what the buyer chose when the quote was issued
+  NEW.fabric_type := (
+    SELECT label FROM public.price_book_fabrics
+    WHERE price_book_id = v_quote.price_book_id AND fabric_id = v_quote.fabric_id
+  );
+  NEW.buyer_purpose := (v_quote.request->>'buyer_purpose')::public.buyer_purpose;
+  NEW.order_intent := CASE WHEN v_quote.is_sample THEN 'sample_only' ELSE 'direct_bulk' END::public.order_intent;
+  NEW.order_mode := CASE WHEN v_quote.is_sample THEN 'sample_only' ELSE 'direct_bulk' END::public.order_mode;
+  NEW.name_personalisation := COALESCE((v_quote.request->>'personalisation')::boolean, false);
+  -- Rush fees are priced from the deadline; samples carry no rush fee
+  IF NOT v_quote.is_sample THEN
+    NEW.expected_deadline := (v_quote.request->>'expected_deadline')::timestamp with time zone;
+  END IF;
+
+  -- Print area surcharges are per side, so a design needs its side in the quote
+  v_print_areas := COALESCE(v_quote.request->'print_areas', '[]'::jsonb);
+  IF (NEW.design_file_url IS NOT NULL OR NEW.mockup_image IS NOT NULL) AND NOT v_print_areas ? 'front' THEN
+    RAISE EXCEPTION 'Order has a front design that its price quote does not include';
+  END IF;
+  IF (NEW.back_design_url IS NOT NULL OR NEW.back_mockup_image IS NOT NULL) AND NOT v_print_areas ? 'back' THEN
+    RAISE EXCEPTION 'Order has a back design that its price quote does not include';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.lock_order_price_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.price_quote_id IS DISTINCT FROM OLD.price_quote_id
+     OR NEW.rfq_quote_id IS DISTINCT FROM OLD.rfq_quote_id THEN
+    RAISE EXCEPTION 'The price quote of an order cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_order_price_quote_on_update ON public.orders;
+CREATE TRIGGER lock_order_price_quote_on_update
+  BEFORE UPDATE OF price_quote_id, rfq_quote_id ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_order_price_quote();
@@ -0,0 +1,293 @@
+-- Courier integration
+-- Shipments booked through a CourierProvider (Shiprocket or the local mock courier) and an
+-- idempotent log of tracking scans. Scans arrive by webhook (courier-webhook) or polling
+-- (courier-shipment sync) and are applied through apply_courier_tracking_event(), which
+-- moves PICKUP_SCHEDULED -> IN_TRANSIT -> DELIVERED as the system actor.
+
+-- 1. Shipments (one per courier booking)
+CREATE TABLE IF NOT EXISTS public.shipments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider IN ('shiprocket', 'mock')),
+  provider_shipment_id text NOT NULL,
+  awb_code text NOT NULL,
+  courier_name text NOT NULL,
+  label_url text,
+  status text NOT NULL DEFAULT 'pickup_scheduled' CHECK (status IN (
+    'pickup_scheduled', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered', 'exception', 'rto', 'cancelled'
+  )),
+  weight_kg numeric NOT NULL CHECK (weight_kg > 0),
+  pickup_address jsonb NOT NULL,
+  delivery_address jsonb NOT NULL,
+  pickup_scheduled_for timestamp with time zone,
+  last_event_at timestamp with time zone,
+  delivered_at timestamp with time zone,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT shipments_provider_awb_unique UNIQUE (provider, awb_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order_id ON public.shipments (order_id);
+
+CREATE TRIGGER update_shipments_updated_at
+  BEFORE UPDATE ON public.shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view shipments"
+ON public.shipments
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Order parties can view shipments"
+ON public.shipments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = shipments.order_id
+      AND (orders.buyer_id = auth.uid() OR orders.manufacturer_id = auth.uid())
+  )
+);
+
+-- 2. Tracking scans (unique per provider event id = idempotency key)
+CREATE TABLE IF NOT EXISTS public.shipment_tracking_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  shipment_id uuid REFERENCES public.shipments(id) ON DELETE CASCADE,
+  awb_code text NOT NULL,
+  status text NOT NULL,
+  raw_status text,
+  location text,
+  description text,
+  occurred_at timestamp with time zone NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  result text,
+  delivery_count integer NOT NULL DEFAULT 1,
+  received_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_received_at timestamp with time zone NOT NULL DEFAULT now(),
+  processed_at timestamp with time zone,
+  CONSTRAINT shipment_tracking_events_provider_event_unique UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_tracking_events_shipment ON public.shipment_tracking_events (shipment_id, occurred_at);
+
+ALTER TABLE public.shipment_tracking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view shipment tracking events"
+ON public.shipment_tracking_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Order parties can view shipment tracking events"
+ON public.shipment_tracking_events
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.shipments
+    JOIN public.orders ON orders.id = shipments.order_id
+    WHERE shipments.id = shipment_tracking_events.shipment_id
+      AND (orders.buyer_id = auth.uid() OR orders.manufacturer_id = auth.uid())
+  )
+);
+
+-- 3. Apply a tracking scan exactly once
+-- Called by courier-webhook / courier-shipment (service role). Shipment status only moves
+-- forward; delivery_status follows the system transitions of the delivery state machine.
+-- Returns: in_transit | delivered | recorded | exception | duplicate | unknown_shipment
+CREATE OR REPLACE FUNCTION public.apply_courier_tracking_event(
+  _provider text,
+  _event_id text,
+  _awb_code text,
+  _status text,
+  _raw_status text,
+  _location text,
+  _description text,
+  _occurred_at timestamp with time zone,
+  _payload jsonb
+)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_event_id uuid;
+  v_shipment public.shipments%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_rank int;
+  v_current_rank int;
+  v_estimated_delivery timestamp with time zone;
+  v_result text := 'recorded';
+BEGIN
+  -- Service role only: tracking drives system transitions nobody else may trigger
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Tracking events can only be applied by the courier integration';
+  END IF;
+
+  SELECT * INTO v_shipment
+  FROM public.shipments
+  WHERE provider = _provider AND awb_code = _awb_code
+  FOR UPDATE;
+
+  INSERT INTO public.shipment_tracking_events (
+    provider, event_id, shipment_id, awb_code, status, raw_status, location, description, occurred_at, payload
+  )
+  VALUES (
+    _provider, _event_id, v_shipment.id, _awb_code, _status, _raw_status, _location, _description,
+    COALESCE(_occurred_at, now()), COALESCE(_payload, '{}'::jsonb)
+  )
+  ON CONFLICT (provider, event_id) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  -- Same scan delivered again (webhook retry or overlapping poll): change nothing
+  IF v_event_id IS NULL THEN
+    UPDATE public.shipment_tracking_events
+    SET delivery_count = delivery_count + 1,
+        last_received_at = now()
+    WHERE provider = _provider AND event_id = _event_id;
+    RETURN 'duplicate';
+  END IF;
+
+  IF v_shipment.id IS NULL THEN
+    v_result := 'unknown_shipment';
+
+  ELSIF _status IN ('exception', 'rto', 'cancelled') THEN
+    -- Problems are surfaced to admins; delivery_status is left for them to resolve
+    UPDATE public.shipments
+    SET status = _status,
+        last_event_at = GREATEST(COALESCE(last_event_at, _occurred_at), _occurred_at)
+    WHERE id = v_shipment.id AND status <> 'delivered';
+
+    INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+    VALUES ('system', 'courier_exception', 'order', v_shipment.order_id, jsonb_build_object(
+      'provider', _provider,
+      'awb_code', _awb_code,
+      'status', _status,
+      'raw_status', _raw_status,
+      'location', _location
+    ));
+    v_result := 'exception';
+
+  ELSE
+    v_rank := array_position(ARRAY['pickup_scheduled', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered'], _status);
+    v_current_rank := COALESCE(
+      array_position(ARRAY['pickup_scheduled', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered'], v_shipment.status),
+      0
+    );
+
+    -- Late or out-of-order scans are kept in the history only
+    IF v_rank IS NOT NULL AND v_rank > v_current_rank THEN
+      UPDATE public.shipments
+      SET status = _status,
+          last_event_at = _occurred_at,
+          delivered_at = CASE WHEN _status = 'delivered' THEN _occurred_at ELSE delivered_at END
+      WHERE id = v_shipment.id;
+    END IF;
+
+    SELECT * INTO v_order FROM public.orders WHERE id = v_shipment.order_id FOR UPDATE;
+
+    -- PICKUP_SCHEDULED -> IN_TRANSIT on the first movement scan (or a direct delivery scan)
+    IF _status IN ('picked_up', 'in_transit', 'out_for_delivery', 'delivered')
+       AND v_order.delivery_status = 'PICKUP_SCHEDULED' THEN
+      v_estimated_delivery := COALESCE(_occurred_at, now()) + interval '3 days';
+
+      UPDATE public.orders
+      SET delivery_status = 'IN_TRANSIT',
+          in_transit_at = COALESCE(_occurred_at, now()),
+          dispatched_at = COALESCE(dispatched_at, _occurred_at, now()),
+          estimated_delivery_date = COALESCE(estimated_delivery_date, v_estimated_delivery),
+          order_state = CASE
+            WHEN order_state = 'READY_FOR_DISPATCH' THEN 'DISPATCHED'::order_state
+            ELSE order_state
+          END,
+          state_updated_at = CASE WHEN order_state = 'READY_FOR_DISPATCH' THEN now() ELSE state_updated_at END,
+          updated_at = now()
+      WHERE id = v_order.id;
+
+      INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+      VALUES
+        (v_order.id, 'in_transit', now(), jsonb_build_object(
+          'marked_by', 'system',
+          'timestamp', _occurred_at,
+          'tracking_id', _awb_code,
+          'courier_name', v_shipment.courier_name,
+          'location', _location
+        )),
+        (v_order.id, 'dispatched', now(), jsonb_build_object(
+          'dispatched_at', COALESCE(v_order.dispatched_at, _occurred_at),
+          'estimated_delivery', COALESCE(v_order.estimated_delivery_date, v_estimated_delivery),
+          'marked_by', 'system'
+        ));
+
+      INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+      VALUES ('system', 'delivery_state_change', 'order', v_order.id, jsonb_build_object(
+        'old_state', 'PICKUP_SCHEDULED',
+        'new_state', 'IN_TRANSIT',
+        'source', 'courier_tracking',
+        'awb_code', _awb_code
+      ));
+
+      INSERT INTO public.notifications (user_id, order_id, type, title, message)
+      VALUES (v_order.buyer_id, v_order.id, 'order_in_transit', 'Order Shipped',
+        'Your order is on its way with ' || v_shipment.courier_name || ' (AWB ' || _awb_code || ').');
+
+      v_order.delivery_status := 'IN_TRANSIT';
+      v_order.order_state := CASE
+        WHEN v_order.order_state = 'READY_FOR_DISPATCH' THEN 'DISPATCHED'::order_state
+        ELSE v_order.order_state
+      END;
+      v_result := 'in_transit';
+    END IF;
+
+    -- IN_TRANSIT -> DELIVERED
+    IF _status = 'delivered' AND v_order.delivery_status = 'IN_TRANSIT' THEN
+      UPDATE public.orders
+      SET delivery_status = 'DELIVERED',
+          delivered_at = COALESCE(_occurred_at, now()),
+          order_state = CASE
+            WHEN order_state = 'DISPATCHED' THEN 'DELIVERED'::order_state
+            ELSE order_state
+          END,
+          state_updated_at = CASE WHEN order_state = 'DISPATCHED' THEN now() ELSE state_updated_at END,
+          updated_at = now()
+      WHERE id = v_order.id;
+
+      INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+      VALUES (v_order.id, 'order_delivered', now(), jsonb_build_object(
+        'marked_by', 'system',
+        'timestamp', _occurred_at,
+        'tracking_id', _awb_code,
+        'location', _location
+      ));
+
+      INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+      VALUES ('system', 'delivery_state_change', 'order', v_order.id, jsonb_build_object(
+        'old_state', 'IN_TRANSIT',
+        'new_state', 'DELIVERED',
+        'source', 'courier_tracking',
+        'awb_code', _awb_code
+      ));
+
+      INSERT INTO public.notifications (user_id, order_id, type, title, message)
+      VALUES (v_order.buyer_id, v_order.id, 'order_delivered', 'Order Delivered',
+        'Your order has been delivered. Please review it and report any issues.');
+
+      v_result := 'delivered';
+    END IF;
+  END IF;
+
+  UPDATE public.shipment_tracking_events
+  SET result = v_result,
+      processed_at = now()
+  WHERE id = v_event_id;
+
+  RETURN v_result;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_courier_tracking_event(text, text, text, text, text, text, text, timestamp with time zone, jsonb) FROM PUBLIC, anon, authenticated;
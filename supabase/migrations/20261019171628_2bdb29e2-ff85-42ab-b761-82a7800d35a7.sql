@@ -0,0 +1,41 @@
+-- Pincode-zone delivery rating
+-- Price quotes are rated for the buyer's delivery pincode (zone, carton / volumetric
+-- weight, serviceability - see supabase/functions/_shared/pricing/delivery.ts).
+-- The order's shipping address must use the pincode its quote was rated for.
+
+ALTER TABLE public.price_quotes
+  ADD COLUMN IF NOT EXISTS delivery_pincode text,
+  ADD COLUMN IF NOT EXISTS delivery_zone text CHECK (delivery_zone IN ('intra_city', 'intra_state', 'metro', 'rest_of_india', 'remote'));
+
+CREATE OR REPLACE FUNCTION public.check_shipping_pincode_matches_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_quote_pincode text;
+BEGIN
+  -- Admins and the service role may correct an address after pricing
+  IF auth.uid() IS NULL OR has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT price_quotes.delivery_pincode INTO v_quote_pincode
+  FROM public.orders
+  JOIN public.price_quotes ON price_quotes.id = orders.price_quote_id
+  WHERE orders.id = NEW.order_id;
+
+  IF v_quote_pincode IS NOT NULL AND v_quote_pincode <> trim(NEW.pincode) THEN
+    RAISE EXCEPTION 'Delivery was priced for pincode %, not %. Please re-price the order', v_quote_pincode, NEW.pincode;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_shipping_pincode_matches_quote ON public.order_shipping_info;
+CREATE TRIGGER check_shipping_pincode_matches_quote
+  BEFORE INSERT OR UPDATE OF pincode ON public.order_shipping_info
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_shipping_pincode_matches_quote();
@@ -0,0 +1,584 @@
+-- Split shipments
+-- An order can be delivered as several shipments (e.g. one per hostel or chapter), each with
+-- its own address, share of the CSV roster, courier booking, tracking and DeliveryState.
+-- orders.delivery_status becomes the aggregate: it only moves forward once EVERY shipment
+-- has, so an order is DELIVERED when all of its shipments are delivered.
+--
+-- The buyer (or an admin) plans the split with set_order_delivery_plan() before anything is
+-- booked. Orders without a plan keep the single-address flow: the first courier booking
+-- creates their only shipment.
+
+-- 1. Shipments become the unit of delivery; planned rows have no courier yet
+ALTER TABLE public.shipments
+  ALTER COLUMN provider DROP NOT NULL,
+  ALTER COLUMN provider_shipment_id DROP NOT NULL,
+  ALTER COLUMN awb_code DROP NOT NULL,
+  ALTER COLUMN courier_name DROP NOT NULL,
+  ALTER COLUMN weight_kg DROP NOT NULL,
+  ALTER COLUMN pickup_address DROP NOT NULL,
+  ALTER COLUMN status DROP NOT NULL;
+
+ALTER TABLE public.shipments
+  ADD COLUMN IF NOT EXISTS label text,
+  ADD COLUMN IF NOT EXISTS delivery_status text NOT NULL DEFAULT 'NOT_STARTED'
+    CHECK (delivery_status IN ('NOT_STARTED', 'PACKED', 'PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED')),
+  ADD COLUMN IF NOT EXISTS quantity integer CHECK (quantity > 0),
+  -- { "sizes": { "M": 12, "L": 8 }, "roster_rows": [0, 3, 4] } (rows of orders.corrected_csv_url)
+  ADD COLUMN IF NOT EXISTS allocation jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS pickup_scheduled_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS in_transit_at timestamp with time zone;
+
+COMMENT ON COLUMN public.shipments.delivery_status IS 'Delivery state machine per shipment: NOT_STARTED, PACKED, PICKUP_SCHEDULED, IN_TRANSIT, DELIVERED';
+
+-- Existing bookings are the single shipment of their order
+UPDATE public.shipments s
+SET delivery_status = CASE
+      WHEN o.delivery_status IN ('PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED') THEN o.delivery_status
+      ELSE 'PICKUP_SCHEDULED'
+    END,
+    quantity = o.quantity,
+    pickup_scheduled_at = COALESCE(o.pickup_scheduled_at, s.created_at),
+    in_transit_at = o.in_transit_at
+FROM public.orders o
+WHERE o.id = s.order_id;
+
+-- 2. Per-shipment transitions follow DELIVERY_WORKFLOW one step at a time
+CREATE OR REPLACE FUNCTION public.validate_shipment_delivery_transition()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_states text[] := ARRAY['NOT_STARTED', 'PACKED', 'PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED'];
+BEGIN
+  IF NEW.delivery_status IS DISTINCT FROM OLD.delivery_status
+     AND array_position(v_states, NEW.delivery_status) <> array_position(v_states, OLD.delivery_status) + 1 THEN
+    RAISE EXCEPTION 'Invalid shipment delivery transition: % -> %', OLD.delivery_status, NEW.delivery_status;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_shipment_delivery_transition
+  BEFORE UPDATE OF delivery_status ON public.shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_shipment_delivery_transition();
+
+-- 3. Packing is per production run: the manufacturer's PACKED covers every planned shipment
+CREATE OR REPLACE FUNCTION public.pack_order_shipments()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.delivery_status = 'PACKED' AND OLD.delivery_status IS DISTINCT FROM 'PACKED' THEN
+    UPDATE public.shipments
+    SET delivery_status = 'PACKED'
+    WHERE order_id = NEW.id AND delivery_status = 'NOT_STARTED';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER pack_order_shipments
+  AFTER UPDATE OF delivery_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pack_order_shipments();
+
+-- 4. Roll shipment states up to the order
+-- The order moves to the least advanced shipment state, with the side effects the manual
+-- and courier flows had on the order: timestamps, order_state, events, logs, notifications.
+CREATE OR REPLACE FUNCTION public.sync_order_delivery_from_shipments()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_states text[] := ARRAY['NOT_STARTED', 'PACKED', 'PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED'];
+  v_order public.orders%ROWTYPE;
+  v_actor text := CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'admin' END;
+  v_count int;
+  v_min_rank int;
+  v_order_rank int;
+  v_label text;
+  v_courier text;
+  v_tracking text;
+  v_estimated_delivery timestamp with time zone;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.delivery_status = OLD.delivery_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = NEW.order_id FOR UPDATE;
+
+  SELECT count(*), min(array_position(v_states, delivery_status))
+  INTO v_count, v_min_rank
+  FROM public.shipments
+  WHERE order_id = NEW.order_id;
+
+  v_order_rank := COALESCE(array_position(v_states, v_order.delivery_status), 1);
+  v_label := COALESCE(NEW.label, 'Shipment');
+
+  -- Split orders: each shipment's own progress is visible on the order timeline
+  IF v_count > 1 AND TG_OP = 'UPDATE' THEN
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (NEW.order_id, 'shipment_status_changed', now(), jsonb_build_object(
+      'shipment_id', NEW.id,
+      'label', NEW.label,
+      'from', OLD.delivery_status,
+      'to', NEW.delivery_status,
+      'courier_name', NEW.courier_name,
+      'tracking_id', NEW.awb_code,
+      'marked_by', v_actor
+    ));
+
+    IF NEW.delivery_status IN ('IN_TRANSIT', 'DELIVERED') THEN
+      INSERT INTO public.notifications (user_id, order_id, type, title, message)
+      VALUES (
+        v_order.buyer_id, v_order.id,
+        CASE WHEN NEW.delivery_status = 'IN_TRANSIT' THEN 'shipment_in_transit' ELSE 'shipment_delivered' END,
+        CASE WHEN NEW.delivery_status = 'IN_TRANSIT' THEN 'Shipment On Its Way' ELSE 'Shipment Delivered' END,
+        CASE WHEN NEW.delivery_status = 'IN_TRANSIT'
+          THEN v_label || ' is on its way with ' || COALESCE(NEW.courier_name, 'the courier') || '.'
+          ELSE v_label || ' has been delivered.'
+        END
+      );
+    END IF;
+  END IF;
+
+  IF v_min_rank <= v_order_rank THEN
+    RETURN NEW;
+  END IF;
+
+  -- A single shipment is mirrored on the order; a split order has no single tracking id
+  IF v_count = 1 THEN
+    v_courier := NEW.courier_name;
+    v_tracking := NEW.awb_code;
+  ELSE
+    v_courier := 'Split delivery (' || v_count || ' shipments)';
+    v_tracking := NULL;
+  END IF;
+
+  -- PACKED -> PICKUP_SCHEDULED
+  IF v_min_rank >= 3 AND v_order_rank < 3 THEN
+    UPDATE public.orders
+    SET delivery_status = 'PICKUP_SCHEDULED',
+        courier_name = v_courier,
+        tracking_id = v_tracking,
+        pickup_scheduled_at = now(),
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES
+      (v_order.id, 'courier_assigned', now(), jsonb_build_object(
+        'courier_name', v_courier,
+        'tracking_id', v_tracking,
+        'shipments', v_count
+      )),
+      (v_order.id, 'pickup_scheduled', now(), jsonb_build_object(
+        'scheduled_by', v_actor,
+        'timestamp', now()
+      ));
+  END IF;
+
+  -- PICKUP_SCHEDULED -> IN_TRANSIT (order dispatched)
+  IF v_min_rank >= 4 AND v_order_rank < 4 THEN
+    v_estimated_delivery := COALESCE(NEW.in_transit_at, now()) + interval '3 days';
+
+    UPDATE public.orders
+    SET delivery_status = 'IN_TRANSIT',
+        in_transit_at = COALESCE(NEW.in_transit_at, now()),
+        dispatched_at = COALESCE(dispatched_at, NEW.in_transit_at, now()),
+        estimated_delivery_date = COALESCE(estimated_delivery_date, v_estimated_delivery),
+        order_state = CASE
+          WHEN order_state = 'READY_FOR_DISPATCH' THEN 'DISPATCHED'::order_state
+          ELSE order_state
+        END,
+        state_updated_at = CASE WHEN order_state = 'READY_FOR_DISPATCH' THEN now() ELSE state_updated_at END,
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES
+      (v_order.id, 'in_transit', now(), jsonb_build_object(
+        'marked_by', v_actor,
+        'timestamp', NEW.in_transit_at,
+        'tracking_id', v_tracking,
+        'courier_name', v_courier
+      )),
+      (v_order.id, 'dispatched', now(), jsonb_build_object(
+        'dispatched_at', COALESCE(v_order.dispatched_at, NEW.in_transit_at, now()),
+        'estimated_delivery', COALESCE(v_order.estimated_delivery_date, v_estimated_delivery),
+        'marked_by', v_actor
+      ));
+
+    INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), v_actor, 'delivery_state_change', 'order', v_order.id, jsonb_build_object(
+      'old_state', v_order.delivery_status,
+      'new_state', 'IN_TRANSIT',
+      'source', 'shipments',
+      'shipments', v_count
+    ));
+
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    VALUES (v_order.buyer_id, v_order.id, 'order_in_transit', 'Order Shipped',
+      CASE WHEN v_count = 1
+        THEN 'Your order is on its way with ' || COALESCE(v_courier, 'the courier') || COALESCE(' (AWB ' || v_tracking || ')', '') || '.'
+        ELSE 'All ' || v_count || ' shipments of your order are on their way.'
+      END);
+  END IF;
+
+  -- IN_TRANSIT -> DELIVERED once the last shipment is delivered
+  IF v_min_rank >= 5 AND v_order_rank < 5 THEN
+    UPDATE public.orders
+    SET delivery_status = 'DELIVERED',
+        delivered_at = COALESCE(NEW.delivered_at, now()),
+        order_state = CASE
+          WHEN order_state = 'DISPATCHED' THEN 'DELIVERED'::order_state
+          ELSE order_state
+        END,
+        state_updated_at = CASE WHEN order_state = 'DISPATCHED' THEN now() ELSE state_updated_at END,
+        updated_at = now()
+    WHERE id = v_order.id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (v_order.id, 'order_delivered', now(), jsonb_build_object(
+      'marked_by', v_actor,
+      'timestamp', NEW.delivered_at,
+      'tracking_id', v_tracking,
+      'shipments', v_count
+    ));
+
+    INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), v_actor, 'delivery_state_change', 'order', v_order.id, jsonb_build_object(
+      'old_state', 'IN_TRANSIT',
+      'new_state', 'DELIVERED',
+      'source', 'shipments',
+      'shipments', v_count
+    ));
+
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    VALUES (v_order.buyer_id, v_order.id, 'order_delivered', 'Order Delivered',
+      CASE WHEN v_count = 1
+        THEN 'Your order has been delivered. Please review it and report any issues.'
+        ELSE 'All ' || v_count || ' shipments of your order have been delivered. Please review them and report any issues.'
+      END);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_order_delivery_from_shipments
+  AFTER INSERT OR UPDATE OF delivery_status ON public.shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_order_delivery_from_shipments();
+
+-- The aggregate can't be moved ahead of its shipments by order-level updates (manual
+-- courier entry, state overrides): split orders are moved per shipment
+CREATE OR REPLACE FUNCTION public.enforce_order_delivery_behind_shipments()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_states text[] := ARRAY['NOT_STARTED', 'PACKED', 'PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED'];
+  v_min_rank int;
+BEGIN
+  IF NEW.delivery_status IS NOT DISTINCT FROM OLD.delivery_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT min(array_position(v_states, delivery_status)) INTO v_min_rank
+  FROM public.shipments
+  WHERE order_id = NEW.id;
+
+  IF v_min_rank IS NOT NULL AND array_position(v_states, NEW.delivery_status) > GREATEST(v_min_rank, 2) THEN
+    RAISE EXCEPTION 'Order delivery follows its shipments - update each shipment instead';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_order_delivery_behind_shipments
+  BEFORE UPDATE OF delivery_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_order_delivery_behind_shipments();
+
+-- 5. Plan the split (buyer of the order or admin), replacing any earlier plan
+-- _shipments: [{ "label", "quantity", "address": { name, phone, addressLine1, addressLine2,
+--   city, state, pincode, country }, "allocation": { "sizes": {}, "roster_rows": [] } }]
+CREATE OR REPLACE FUNCTION public.set_order_delivery_plan(_order_id uuid, _shipments jsonb)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_is_admin boolean := has_role(auth.uid(), 'admin'::app_role);
+  v_shipment jsonb;
+  v_address jsonb;
+  v_total int := 0;
+  v_count int;
+  v_rows int[] := ARRAY[]::int[];
+  v_initial_status text;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF NOT v_is_admin AND v_order.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the buyer or an admin can plan deliveries for this order';
+  END IF;
+  IF v_order.order_state IN ('CANCELLED', 'COMPLETED') THEN
+    RAISE EXCEPTION 'Order is %', lower(v_order.order_state::text);
+  END IF;
+  IF COALESCE(v_order.delivery_status, 'NOT_STARTED') NOT IN ('NOT_STARTED', 'PACKED') THEN
+    RAISE EXCEPTION 'Deliveries can only be planned before pickup is scheduled';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.shipments
+    WHERE order_id = _order_id AND (provider IS NOT NULL OR awb_code IS NOT NULL OR delivery_status NOT IN ('NOT_STARTED', 'PACKED'))
+  ) THEN
+    RAISE EXCEPTION 'A shipment of this order is already booked';
+  END IF;
+
+  IF jsonb_typeof(_shipments) <> 'array' OR jsonb_array_length(_shipments) = 0 THEN
+    RAISE EXCEPTION 'At least one shipment is required';
+  END IF;
+  v_count := jsonb_array_length(_shipments);
+  IF v_count > 50 THEN
+    RAISE EXCEPTION 'An order can be split into at most 50 shipments';
+  END IF;
+
+  FOR v_shipment IN SELECT * FROM jsonb_array_elements(_shipments) LOOP
+    v_address := v_shipment->'address';
+    IF COALESCE(trim(v_address->>'name'), '') = ''
+       OR COALESCE(trim(v_address->>'phone'), '') = ''
+       OR COALESCE(trim(v_address->>'addressLine1'), '') = ''
+       OR COALESCE(trim(v_address->>'city'), '') = ''
+       OR COALESCE(trim(v_address->>'state'), '') = '' THEN
+      RAISE EXCEPTION 'Every shipment needs a recipient, phone and full address';
+    END IF;
+    IF COALESCE(v_address->>'pincode', '') !~ '^[1-8][0-9]{5}$' THEN
+      RAISE EXCEPTION 'Pincode % is not serviceable', COALESCE(v_address->>'pincode', '(missing)');
+    END IF;
+    IF COALESCE((v_shipment->>'quantity')::int, 0) <= 0 THEN
+      RAISE EXCEPTION 'Every shipment needs at least one piece';
+    END IF;
+    v_total := v_total + (v_shipment->>'quantity')::int;
+
+    -- A roster row ships to exactly one address
+    IF v_rows && ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_shipment->'allocation'->'roster_rows', '[]'::jsonb))::int) THEN
+      RAISE EXCEPTION 'A roster row is allocated to more than one shipment';
+    END IF;
+    v_rows := v_rows || ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_shipment->'allocation'->'roster_rows', '[]'::jsonb))::int);
+  END LOOP;
+
+  IF v_total <> v_order.quantity THEN
+    RAISE EXCEPTION 'Shipments allocate % pieces but the order has %', v_total, v_order.quantity;
+  END IF;
+
+  v_initial_status := CASE WHEN v_order.delivery_status = 'PACKED' THEN 'PACKED' ELSE 'NOT_STARTED' END;
+
+  DELETE FROM public.shipments WHERE order_id = _order_id;
+
+  INSERT INTO public.shipments (order_id, label, quantity, allocation, delivery_address, delivery_status, status, created_by)
+  SELECT
+    _order_id,
+    COALESCE(NULLIF(trim(s.value->>'label'), ''), 'Shipment ' || s.ordinality),
+    (s.value->>'quantity')::int,
+    jsonb_build_object(
+      'sizes', COALESCE(s.value->'allocation'->'sizes', '{}'::jsonb),
+      'roster_rows', COALESCE(s.value->'allocation'->'roster_rows', '[]'::jsonb)
+    ),
+    s.value->'address',
+    v_initial_status,
+    NULL,
+    auth.uid()
+  FROM jsonb_array_elements(_shipments) WITH ORDINALITY AS s(value, ordinality);
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (_order_id, 'delivery_plan_updated', now(), jsonb_build_object(
+    'shipments', v_count,
+    'updated_by', CASE WHEN v_is_admin THEN 'admin' ELSE 'buyer' END
+  ));
+
+  RETURN v_count;
+END;
+$function$;
+
+-- 6. Manual per-shipment updates for couriers booked outside Leorit (admin)
+CREATE OR REPLACE FUNCTION public.update_shipment_delivery_status(
+  _shipment_id uuid,
+  _to_state text,
+  _courier_name text DEFAULT NULL,
+  _tracking_id text DEFAULT NULL
+)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_shipment public.shipments%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can update shipments';
+  END IF;
+
+  SELECT * INTO v_shipment FROM public.shipments WHERE id = _shipment_id FOR UPDATE;
+  IF v_shipment.id IS NULL THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+
+  IF _to_state = 'PICKUP_SCHEDULED' THEN
+    IF COALESCE(trim(_courier_name), '') = '' OR COALESCE(trim(_tracking_id), '') = '' THEN
+      RAISE EXCEPTION 'Courier name and tracking ID are required';
+    END IF;
+    UPDATE public.shipments
+    SET delivery_status = 'PICKUP_SCHEDULED',
+        courier_name = trim(_courier_name),
+        awb_code = trim(_tracking_id),
+        pickup_scheduled_at = now()
+    WHERE id = _shipment_id;
+  ELSIF _to_state = 'IN_TRANSIT' THEN
+    UPDATE public.shipments
+    SET delivery_status = 'IN_TRANSIT',
+        in_transit_at = now()
+    WHERE id = _shipment_id;
+  ELSIF _to_state = 'DELIVERED' THEN
+    UPDATE public.shipments
+    SET delivery_status = 'DELIVERED',
+        delivered_at = now()
+    WHERE id = _shipment_id;
+  ELSE
+    RAISE EXCEPTION 'Shipments can only be moved to PICKUP_SCHEDULED, IN_TRANSIT or DELIVERED';
+  END IF;
+END;
+$function$;
+
+-- 7. Tracking scans now move their shipment; the order follows through the roll-up
+CREATE OR REPLACE FUNCTION public.apply_courier_tracking_event(
+  _provider text,
+  _event_id text,
+  _awb_code text,
+  _status text,
+  _raw_status text,
+  _location text,
+  _description text,
+  _occurred_at timestamp with time zone,
+  _payload jsonb
+)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_event_id uuid;
+  v_shipment public.shipments%ROWTYPE;
+  v_rank int;
+  v_current_rank int;
+  v_result text := 'recorded';
+BEGIN
+  -- Service role only: tracking drives system transitions nobody else may trigger
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Tracking events can only be applied by the courier integration';
+  END IF;
+
+  SELECT * INTO v_shipment
+  FROM public.shipments
+  WHERE provider = _provider AND awb_code = _awb_code
+  FOR UPDATE;
+
+  INSERT INTO public.shipment_tracking_events (
+    provider, event_id, shipment_id, awb_code, status, raw_status, location, description, occurred_at, payload
+  )
+  VALUES (
+    _provider, _event_id, v_shipment.id, _awb_code, _status, _raw_status, _location, _description,
+    COALESCE(_occurred_at, now()), COALESCE(_payload, '{}'::jsonb)
+  )
+  ON CONFLICT (provider, event_id) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  -- Same scan delivered again (webhook retry or overlapping poll): change nothing
+  IF v_event_id IS NULL THEN
+    UPDATE public.shipment_tracking_events
+    SET delivery_count = delivery_count + 1,
+        last_received_at = now()
+    WHERE provider = _provider AND event_id = _event_id;
+    RETURN 'duplicate';
+  END IF;
+
+  IF v_shipment.id IS NULL THEN
+    v_result := 'unknown_shipment';
+
+  ELSIF _status IN ('exception', 'rto', 'cancelled') THEN
+    -- Problems are surfaced to admins; delivery_status is left for them to resolve
+    UPDATE public.shipments
+    SET status = _status,
+        last_event_at = GREATEST(COALESCE(last_event_at, _occurred_at), _occurred_at)
+    WHERE id = v_shipment.id AND status IS DISTINCT FROM 'delivered';
+
+    INSERT INTO public.system_logs (actor_role, event_type, entity_type, entity_id, metadata)
+    VALUES ('system', 'courier_exception', 'order', v_shipment.order_id, jsonb_build_object(
+      'provider', _provider,
+      'awb_code', _awb_code,
+      'shipment_id', v_shipment.id,
+      'status', _status,
+      'raw_status', _raw_status,
+      'location', _location
+    ));
+    v_result := 'exception';
+
+  ELSE
+    v_rank := array_position(ARRAY['pickup_scheduled', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered'], _status);
+    v_current_rank := COALESCE(
+      array_position(ARRAY['pickup_scheduled', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered'], v_shipment.status),
+      0
+    );
+
+    -- Late or out-of-order scans are kept in the history only
+    IF v_rank IS NOT NULL AND v_rank > v_current_rank THEN
+      UPDATE public.shipments
+      SET status = _status,
+          last_event_at = _occurred_at
+      WHERE id = v_shipment.id;
+    END IF;
+
+    -- PICKUP_SCHEDULED -> IN_TRANSIT on the first movement scan (or a direct delivery scan)
+    IF _status IN ('picked_up', 'in_transit', 'out_for_delivery', 'delivered')
+       AND v_shipment.delivery_status = 'PICKUP_SCHEDULED' THEN
+      UPDATE public.shipments
+      SET delivery_status = 'IN_TRANSIT',
+          in_transit_at = COALESCE(_occurred_at, now())
+      WHERE id = v_shipment.id;
+
+      v_shipment.delivery_status := 'IN_TRANSIT';
+      v_result := 'in_transit';
+    END IF;
+
+    -- IN_TRANSIT -> DELIVERED
+    IF _status = 'delivered' AND v_shipment.delivery_status = 'IN_TRANSIT' THEN
+      UPDATE public.shipments
+      SET delivery_status = 'DELIVERED',
+          delivered_at = COALESCE(_occurred_at, now())
+      WHERE id = v_shipment.id;
+
+      v_result := 'delivered';
+    END IF;
+  END IF;
+
+  UPDATE public.shipment_tracking_events
+  SET result = v_result,
+      processed_at = now()
+  WHERE id = v_event_id;
+
+  RETURN v_result;
+END;
+$function$;
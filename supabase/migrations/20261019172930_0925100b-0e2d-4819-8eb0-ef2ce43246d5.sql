@@ -0,0 +1,1001 @@
+-- Returns and remakes (RMA)
+-- After delivery the buyer can report wrong sizes, damaged or defective pieces with photo
+-- evidence (order_evidence stage post_delivery). An admin approves the quantity and decides:
+--   remake - the manufacturer produces replacements, tracked in remake_status:
+--            awaiting_return -> not_started -> in_production -> packed -> shipped -> delivered
+--   refund - a pending order_refunds row for the affected pieces (approved as usual)
+-- Pieces that have to come back travel as a return shipment (buyer -> manufacturer) and
+-- replacements as an outbound shipment; both are rows in shipments with rma_id set and use
+-- the same booking / tracking flow, but never move the order's own delivery_status.
+-- When the factory is at fault the admin can deduct an amount from the manufacturer's next
+-- payout batch (payout_adjustments).
+
+-- 1. RMAs
+CREATE TABLE IF NOT EXISTS public.order_rmas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- e.g. RMA-20261019-3f9a2c1b (date + order)
+  reference text NOT NULL UNIQUE,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  buyer_id uuid NOT NULL,
+  manufacturer_id uuid,
+  reason text NOT NULL CHECK (reason IN ('wrong_size', 'damaged', 'defective', 'misprint', 'missing_pieces', 'other')),
+  description text NOT NULL,
+  -- [{ "size": "M", "quantity": 3 }] (size is null when the order has no size split)
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  requested_quantity integer NOT NULL CHECK (requested_quantity > 0),
+  approved_quantity integer CHECK (approved_quantity IS NULL OR approved_quantity > 0),
+  -- Storage paths in the orders bucket ({order_id}/rma/...)
+  photos text[] NOT NULL DEFAULT '{}',
+  -- Return pickups start here and replacements are delivered here (ShipmentAddress)
+  address jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'withdrawn', 'closed')),
+  resolution text CHECK (resolution IN ('remake', 'refund')),
+  fault text CHECK (fault IN ('factory', 'buyer', 'courier')),
+  return_required boolean NOT NULL DEFAULT false,
+  remake_status text CHECK (remake_status IN (
+    'awaiting_return', 'not_started', 'in_production', 'packed', 'shipped', 'delivered'
+  )),
+  refund_id uuid REFERENCES public.order_refunds(id) ON DELETE SET NULL,
+  adjustment_amount numeric NOT NULL DEFAULT 0 CHECK (adjustment_amount >= 0),
+  review_note text,
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  return_received_at timestamp with time zone,
+  remake_started_at timestamp with time zone,
+  closed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT order_rmas_approved_quantity CHECK (approved_quantity IS NULL OR approved_quantity <= requested_quantity),
+  CONSTRAINT order_rmas_decision CHECK (
+    status NOT IN ('approved', 'closed')
+    OR (approved_quantity IS NOT NULL AND resolution IS NOT NULL AND fault IS NOT NULL)
+  ),
+  CONSTRAINT order_rmas_remake CHECK (remake_status IS NULL OR resolution = 'remake'),
+  CONSTRAINT order_rmas_adjustment CHECK (adjustment_amount = 0 OR fault = 'factory')
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_rmas_order_id ON public.order_rmas (order_id);
+CREATE INDEX IF NOT EXISTS idx_order_rmas_manufacturer ON public.order_rmas (manufacturer_id, status);
+CREATE INDEX IF NOT EXISTS idx_order_rmas_open ON public.order_rmas (status) WHERE status IN ('requested', 'approved');
+
+CREATE TRIGGER update_order_rmas_updated_at
+  BEFORE UPDATE ON public.order_rmas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.order_rmas ENABLE ROW LEVEL SECURITY;
+
+-- All changes go through the RMA functions below
+CREATE POLICY "Admins can view RMAs"
+ON public.order_rmas
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view their RMAs"
+ON public.order_rmas
+FOR SELECT
+USING (buyer_id = auth.uid());
+
+CREATE POLICY "Manufacturers can view approved RMAs for their orders"
+ON public.order_rmas
+FOR SELECT
+USING (manufacturer_id = auth.uid() AND status IN ('approved', 'closed'));
+
+-- Remakes move one step at a time
+CREATE OR REPLACE FUNCTION public.validate_rma_remake_transition()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_states text[] := ARRAY['awaiting_return', 'not_started', 'in_production', 'packed', 'shipped', 'delivered'];
+BEGIN
+  IF OLD.remake_status IS NOT NULL
+     AND NEW.remake_status IS DISTINCT FROM OLD.remake_status
+     AND array_position(v_states, NEW.remake_status) IS DISTINCT FROM array_position(v_states, OLD.remake_status) + 1 THEN
+    RAISE EXCEPTION 'Invalid remake transition: % -> %', OLD.remake_status, NEW.remake_status;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_rma_remake_transition
+  BEFORE UPDATE OF remake_status ON public.order_rmas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_rma_remake_transition();
+
+-- 2. Photo evidence: post_delivery stage, rma files in the orders bucket
+ALTER TABLE public.order_evidence DROP CONSTRAINT IF EXISTS order_evidence_stage_check;
+ALTER TABLE public.order_evidence
+  ADD CONSTRAINT order_evidence_stage_check
+  CHECK (stage IN ('sample', 'bulk', 'delivery', 'specification', 'post_delivery'));
+
+ALTER TABLE public.order_files DROP CONSTRAINT IF EXISTS order_files_file_type_check;
+ALTER TABLE public.order_files
+  ADD CONSTRAINT order_files_file_type_check
+  CHECK (file_type IN ('spec', 'qc_sample', 'qc_bulk', 'delivery', 'invoice', 'credit_note', 'rma'));
+
+-- Buyers can upload RMA photos to their order's rma folder
+CREATE POLICY "Buyers can upload RMA photos"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+    bucket_id = 'orders' AND
+    EXISTS (
+        SELECT 1 FROM public.orders o
+        WHERE o.buyer_id = auth.uid()
+        AND (storage.foldername(name))[1] = o.id::text
+        AND (storage.foldername(name))[2] = 'rma'
+    )
+);
+
+-- 3. Refunds can come from an RMA
+ALTER TABLE public.order_refunds DROP CONSTRAINT IF EXISTS order_refunds_source_type_check;
+ALTER TABLE public.order_refunds
+  ADD CONSTRAINT order_refunds_source_type_check
+  CHECK (source_type IN ('dispute', 'qc_decision', 'cancellation', 'manual', 'rma'));
+
+ALTER TABLE public.order_refunds
+  ADD COLUMN IF NOT EXISTS rma_id uuid REFERENCES public.order_rmas(id) ON DELETE SET NULL;
+
+ALTER TABLE public.order_refunds
+  ADD CONSTRAINT order_refunds_rma_source CHECK (source_type <> 'rma' OR rma_id IS NOT NULL);
+
+-- 4. Return and replacement shipments
+ALTER TABLE public.shipments
+  ADD COLUMN IF NOT EXISTS rma_id uuid REFERENCES public.order_rmas(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS direction text NOT NULL DEFAULT 'outbound' CHECK (direction IN ('outbound', 'return'));
+
+ALTER TABLE public.shipments
+  ADD CONSTRAINT shipments_return_rma CHECK (direction = 'outbound' OR rma_id IS NOT NULL);
+
+-- One return and one replacement per RMA
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipments_rma_direction ON public.shipments (rma_id, direction) WHERE rma_id IS NOT NULL;
+
+-- RMA shipments are created after the order is delivered and never move its delivery_status
+DROP TRIGGER IF EXISTS sync_order_delivery_from_shipments ON public.shipments;
+CREATE TRIGGER sync_order_delivery_from_shipments
+  AFTER INSERT OR UPDATE OF delivery_status ON public.shipments
+  FOR EACH ROW
+  WHEN (NEW.rma_id IS NULL)
+  EXECUTE FUNCTION public.sync_order_delivery_from_shipments();
+
+CREATE OR REPLACE FUNCTION public.enforce_order_delivery_behind_shipments()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_states text[] := ARRAY['NOT_STARTED', 'PACKED', 'PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED'];
+  v_min_rank int;
+BEGIN
+  IF NEW.delivery_status IS NOT DISTINCT FROM OLD.delivery_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT min(array_position(v_states, delivery_status)) INTO v_min_rank
+  FROM public.shipments
+  WHERE order_id = NEW.id
+    AND rma_id IS NULL;
+
+  IF v_min_rank IS NOT NULL AND array_position(v_states, NEW.delivery_status) > GREATEST(v_min_rank, 2) THEN
+    RAISE EXCEPTION 'Order delivery follows its shipments - update each shipment instead';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+-- The RMA follows its shipments:
+--   return DELIVERED          -> return received; the remake can start (or a refund RMA closes)
+--   replacement booked        -> remake shipped
+--   replacement DELIVERED     -> remake delivered, RMA closed
+CREATE OR REPLACE FUNCTION public.sync_rma_from_shipments()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_rma public.order_rmas%ROWTYPE;
+  v_actor text := CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'admin' END;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.delivery_status = OLD.delivery_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_rma FROM public.order_rmas WHERE id = NEW.rma_id FOR UPDATE;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (NEW.order_id, 'rma_shipment_status_changed', now(), jsonb_build_object(
+    'rma_id', v_rma.id,
+    'reference', v_rma.reference,
+    'shipment_id', NEW.id,
+    'direction', NEW.direction,
+    'from', CASE WHEN TG_OP = 'UPDATE' THEN OLD.delivery_status END,
+    'to', NEW.delivery_status,
+    'courier_name', NEW.courier_name,
+    'tracking_id', NEW.awb_code,
+    'marked_by', v_actor
+  ));
+
+  IF NEW.direction = 'return' AND NEW.delivery_status = 'DELIVERED' THEN
+    UPDATE public.order_rmas
+    SET return_received_at = now(),
+        remake_status = CASE WHEN remake_status = 'awaiting_return' THEN 'not_started' ELSE remake_status END,
+        status = CASE WHEN resolution = 'refund' THEN 'closed' ELSE status END,
+        closed_at = CASE WHEN resolution = 'refund' THEN now() ELSE closed_at END
+    WHERE id = v_rma.id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (NEW.order_id, 'rma_return_received', now(), jsonb_build_object(
+      'rma_id', v_rma.id,
+      'reference', v_rma.reference,
+      'quantity', NEW.quantity
+    ));
+
+    IF v_rma.resolution = 'remake' AND v_rma.manufacturer_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, order_id, type, title, message)
+      VALUES (v_rma.manufacturer_id, NEW.order_id, 'rma_remake_ready', 'Returned pieces received',
+        'The pieces returned under ' || v_rma.reference || ' have arrived. Please start the remake of '
+          || v_rma.approved_quantity || ' piece(s).');
+    ELSIF v_rma.resolution = 'refund' THEN
+      INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+      VALUES (NEW.order_id, 'rma_closed', now(), jsonb_build_object('rma_id', v_rma.id, 'reference', v_rma.reference));
+    END IF;
+
+  ELSIF NEW.direction = 'outbound' AND NEW.delivery_status = 'PICKUP_SCHEDULED' THEN
+    UPDATE public.order_rmas SET remake_status = 'shipped' WHERE id = v_rma.id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (NEW.order_id, 'remake_shipped', now(), jsonb_build_object(
+      'rma_id', v_rma.id,
+      'reference', v_rma.reference,
+      'courier_name', NEW.courier_name,
+      'tracking_id', NEW.awb_code
+    ));
+
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    VALUES (v_rma.buyer_id, NEW.order_id, 'rma_remake_shipped', 'Replacements on the way',
+      'The replacement pieces for ' || v_rma.reference || ' have been handed to '
+        || COALESCE(NEW.courier_name, 'the courier') || ' (AWB ' || COALESCE(NEW.awb_code, '-') || ').');
+
+  ELSIF NEW.direction = 'outbound' AND NEW.delivery_status = 'DELIVERED' THEN
+    UPDATE public.order_rmas
+    SET remake_status = 'delivered',
+        status = 'closed',
+        closed_at = now()
+    WHERE id = v_rma.id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES
+      (NEW.order_id, 'remake_delivered', now(), jsonb_build_object('rma_id', v_rma.id, 'reference', v_rma.reference)),
+      (NEW.order_id, 'rma_closed', now(), jsonb_build_object('rma_id', v_rma.id, 'reference', v_rma.reference));
+
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    VALUES (v_rma.buyer_id, NEW.order_id, 'rma_closed', 'Replacements delivered',
+      'The replacement pieces for ' || v_rma.reference || ' have been delivered.');
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_rma_from_shipments
+  AFTER INSERT OR UPDATE OF delivery_status ON public.shipments
+  FOR EACH ROW
+  WHEN (NEW.rma_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_rma_from_shipments();
+
+-- 5. Payout deductions for factory-fault RMAs
+CREATE TABLE IF NOT EXISTS public.payout_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  manufacturer_id uuid NOT NULL,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  rma_id uuid REFERENCES public.order_rmas(id) ON DELETE SET NULL,
+  -- Deducted from the manufacturer's payout
+  amount numeric NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  -- Set when a payout batch claims the deduction
+  batch_id uuid REFERENCES public.payout_batches(id) ON DELETE SET NULL,
+  created_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_adjustments_unbatched ON public.payout_adjustments (manufacturer_id) WHERE batch_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_payout_adjustments_batch ON public.payout_adjustments (batch_id);
+
+ALTER TABLE public.payout_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payout adjustments"
+ON public.payout_adjustments
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Manufacturers can view their payout adjustments"
+ON public.payout_adjustments
+FOR SELECT
+USING (manufacturer_id = auth.uid());
+
+ALTER TABLE public.payout_batches
+  ADD COLUMN IF NOT EXISTS adjustment_amount numeric NOT NULL DEFAULT 0;
+
+-- Same batching as before, plus unbatched deductions: claimed oldest first while the
+-- batch's order payouts (after carried refunds) can cover them, the rest wait for a later batch.
+--   batch net = sum of order net payouts - carried refunds - claimed adjustments
+CREATE OR REPLACE FUNCTION public.generate_payout_batches(_period_start date DEFAULT NULL)
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_start date;
+  v_end date;
+  v_manufacturer uuid;
+  v_batch_id uuid;
+  v_batches integer := 0;
+BEGIN
+  -- Scheduled job (no user) or admin
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can generate payout batches';
+  END IF;
+
+  v_start := COALESCE(
+    date_trunc('week', _period_start)::date,
+    date_trunc('week', v_today)::date - 7
+  );
+  v_end := v_start + 6;
+
+  FOR v_manufacturer IN
+    SELECT DISTINCT o.manufacturer_id
+    FROM public.orders o
+    WHERE o.payment_state = 'PAYMENT_RELEASED'
+      AND o.manufacturer_id IS NOT NULL
+      AND (COALESCE(o.escrow_released_timestamp, o.updated_at) AT TIME ZONE 'Asia/Kolkata')::date <= v_end
+      AND NOT EXISTS (SELECT 1 FROM public.payout_batch_items i WHERE i.order_id = o.id)
+  LOOP
+    -- Top up this week's batch while it is still pending, otherwise start a new one
+    SELECT id INTO v_batch_id
+    FROM public.payout_batches
+    WHERE manufacturer_id = v_manufacturer
+      AND period_start = v_start
+      AND status = 'pending'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_batch_id IS NULL THEN
+      INSERT INTO public.payout_batches (reference, manufacturer_id, period_start, period_end)
+      VALUES (
+        'PB-' || to_char(v_start, 'YYYYMMDD') || '-' || left(v_manufacturer::text, 8)
+          || CASE
+               WHEN EXISTS (
+                 SELECT 1 FROM public.payout_batches
+                 WHERE manufacturer_id = v_manufacturer AND period_start = v_start
+               ) THEN '-' || to_char(now(), 'HH24MISS')
+               ELSE ''
+             END,
+        v_manufacturer,
+        v_start,
+        v_end
+      )
+      RETURNING id INTO v_batch_id;
+    END IF;
+
+    -- Claim the approved refunds of the orders being batched; refunds approved from here
+    -- on are carried into a later batch
+    UPDATE public.order_refunds r
+    SET payout_batch_id = v_batch_id
+    FROM public.orders o
+    WHERE r.order_id = o.id
+      AND r.status = 'approved'
+      AND r.payout_batch_id IS NULL
+      AND o.manufacturer_id = v_manufacturer
+      AND o.payment_state = 'PAYMENT_RELEASED'
+      AND (COALESCE(o.escrow_released_timestamp, o.updated_at) AT TIME ZONE 'Asia/Kolkata')::date <= v_end
+      AND NOT EXISTS (SELECT 1 FROM public.payout_batch_items i WHERE i.order_id = o.id);
+
+    INSERT INTO public.payout_batch_items (
+      batch_id, order_id, released_at, order_value, delivery_cost,
+      commission_rate, commission_amount, refund_amount, net_amount
+    )
+    SELECT
+      v_batch_id,
+      t.id,
+      t.released_at,
+      t.total,
+      t.delivery,
+      t.rate,
+      t.commission,
+      t.refunded,
+      GREATEST(t.total - t.delivery - t.commission - t.refunded, 0)
+    FROM (
+      SELECT
+        o.id,
+        o.escrow_released_timestamp AS released_at,
+        v.total,
+        v.delivery,
+        o.platform_commission_rate AS rate,
+        -- Commission is only earned on what the buyer keeps paying for
+        round(GREATEST(v.total - v.delivery - f.refunded, 0) * o.platform_commission_rate) AS commission,
+        f.refunded
+      FROM public.orders o
+      CROSS JOIN LATERAL (
+        SELECT
+          COALESCE(o.total_order_value, o.total_amount, o.escrow_amount, 0) AS total,
+          LEAST(COALESCE(o.delivery_cost, 0), COALESCE(o.total_order_value, o.total_amount, o.escrow_amount, 0)) AS delivery
+      ) v
+      CROSS JOIN LATERAL (
+        SELECT COALESCE(SUM(r.amount), 0) AS refunded
+        FROM public.order_refunds r
+        WHERE r.order_id = o.id AND r.payout_batch_id = v_batch_id
+      ) f
+      WHERE o.manufacturer_id = v_manufacturer
+        AND o.payment_state = 'PAYMENT_RELEASED'
+        AND (COALESCE(o.escrow_released_timestamp, o.updated_at) AT TIME ZONE 'Asia/Kolkata')::date <= v_end
+        AND NOT EXISTS (SELECT 1 FROM public.payout_batch_items i WHERE i.order_id = o.id)
+    ) t
+    ON CONFLICT (order_id) DO NOTHING;
+
+    -- Refunds approved after their order was paid out: the manufacturer's share (the refund
+    -- less the commission it no longer earns) is deducted here, oldest first, as far as this
+    -- batch's order payouts cover it
+    UPDATE public.order_refunds r
+    SET payout_batch_id = v_batch_id
+    FROM (
+      SELECT
+        r2.id,
+        SUM(r2.amount - round(r2.amount * i.commission_rate)) OVER (ORDER BY r2.reviewed_at, r2.id) AS running_total
+      FROM public.order_refunds r2
+      JOIN public.payout_batch_items i ON i.order_id = r2.order_id
+      JOIN public.payout_batches b ON b.id = i.batch_id
+      WHERE b.manufacturer_id = v_manufacturer
+        AND i.batch_id <> v_batch_id
+        AND r2.status = 'approved'
+        AND r2.payout_batch_id IS NULL
+    ) c
+    WHERE r.id = c.id
+      AND c.running_total <= (
+        SELECT COALESCE(SUM(net_amount), 0) FROM public.payout_batch_items WHERE batch_id = v_batch_id
+      ) - public.payout_batch_carried_refunds(v_batch_id);
+
+    UPDATE public.payout_adjustments a
+    SET batch_id = v_batch_id
+    FROM (
+      SELECT id, SUM(amount) OVER (ORDER BY created_at, id) AS running_total
+      FROM public.payout_adjustments
+      WHERE manufacturer_id = v_manufacturer
+        AND batch_id IS NULL
+        AND (created_at AT TIME ZONE 'Asia/Kolkata')::date <= v_end
+    ) c
+    WHERE a.id = c.id
+      AND c.running_total <= (
+        SELECT COALESCE(SUM(net_amount), 0) FROM public.payout_batch_items WHERE batch_id = v_batch_id
+      ) - public.payout_batch_carried_refunds(v_batch_id) - (
+        SELECT COALESCE(SUM(amount), 0) FROM public.payout_adjustments WHERE batch_id = v_batch_id
+      );
+
+    UPDATE public.payout_batches b
+    SET order_count = s.order_count,
+        gross_amount = s.gross,
+        delivery_amount = s.delivery,
+        commission_amount = s.commission,
+        refund_amount = s.refunded,
+        carried_refund_amount = s.carried,
+        adjustment_amount = s.adjusted,
+        net_amount = s.net - s.carried - s.adjusted,
+        updated_at = now()
+    FROM (
+      SELECT
+        COUNT(*) AS order_count,
+        COALESCE(SUM(order_value), 0) AS gross,
+        COALESCE(SUM(delivery_cost), 0) AS delivery,
+        COALESCE(SUM(commission_amount), 0) AS commission,
+        COALESCE(SUM(refund_amount), 0) AS refunded,
+        COALESCE(SUM(net_amount), 0) AS net,
+        public.payout_batch_carried_refunds(v_batch_id) AS carried,
+        (SELECT COALESCE(SUM(amount), 0) FROM public.payout_adjustments WHERE batch_id = v_batch_id) AS adjusted
+      FROM public.payout_batch_items
+      WHERE batch_id = v_batch_id
+    ) s
+    WHERE b.id = v_batch_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message)
+    SELECT v_manufacturer, 'payout_statement_ready', 'Payout statement ready',
+      'Your payout statement for ' || to_char(v_start, 'DD Mon') || ' - ' || to_char(v_end, 'DD Mon YYYY')
+        || ' is ready: ₹' || net_amount || ' across ' || order_count || ' order(s).'
+    FROM public.payout_batches WHERE id = v_batch_id;
+
+    v_batches := v_batches + 1;
+    v_batch_id := NULL;
+  END LOOP;
+
+  INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, metadata)
+  VALUES (
+    auth.uid(),
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'admin' END,
+    'payout_batches_generated',
+    'payment',
+    jsonb_build_object('period_start', v_start, 'period_end', v_end, 'batches', v_batches)
+  );
+
+  RETURN v_batches;
+END;
+$function$;
+
+-- 6. Raise an RMA (buyer of a delivered order, within 14 days of delivery)
+-- _items: [{ "size": "M", "quantity": 3 }]; _photos: storage paths under {order_id}/rma/
+CREATE OR REPLACE FUNCTION public.request_rma(
+  _order_id uuid,
+  _reason text,
+  _description text,
+  _items jsonb,
+  _address jsonb,
+  _photos text[]
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_item jsonb;
+  v_quantity int := 0;
+  v_claimed int;
+  v_rma_id uuid;
+  v_reference text;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF v_order.id IS NULL OR v_order.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the buyer of the order can raise a return';
+  END IF;
+
+  IF v_order.delivery_status <> 'DELIVERED' OR v_order.order_state NOT IN ('DELIVERED', 'COMPLETED') THEN
+    RAISE EXCEPTION 'Returns can only be raised once the order is delivered';
+  END IF;
+  IF COALESCE(v_order.delivered_at, v_order.updated_at) < now() - interval '14 days' THEN
+    RAISE EXCEPTION 'Returns must be raised within 14 days of delivery';
+  END IF;
+
+  IF _reason NOT IN ('wrong_size', 'damaged', 'defective', 'misprint', 'missing_pieces', 'other') THEN
+    RAISE EXCEPTION 'Unknown return reason: %', _reason;
+  END IF;
+  IF COALESCE(trim(_description), '') = '' THEN
+    RAISE EXCEPTION 'Describe the problem';
+  END IF;
+  IF COALESCE(array_length(_photos, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one photo is required';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(_photos) p WHERE p NOT LIKE _order_id::text || '/rma/%') THEN
+    RAISE EXCEPTION 'Photos must be uploaded to the order''s RMA folder';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'List the affected pieces';
+  END IF;
+  FOR v_item IN SELECT * FROM jsonb_array_elements(_items) LOOP
+    IF COALESCE((v_item->>'quantity')::int, 0) <= 0 THEN
+      RAISE EXCEPTION 'Every line needs a quantity';
+    END IF;
+    v_quantity := v_quantity + (v_item->>'quantity')::int;
+  END LOOP;
+
+  SELECT COALESCE(SUM(COALESCE(approved_quantity, requested_quantity)), 0) INTO v_claimed
+  FROM public.order_rmas
+  WHERE order_id = _order_id
+    AND status IN ('requested', 'approved', 'closed');
+  IF v_claimed + v_quantity > v_order.quantity THEN
+    RAISE EXCEPTION 'Only % of % piece(s) can still be returned', GREATEST(v_order.quantity - v_claimed, 0), v_order.quantity;
+  END IF;
+
+  IF COALESCE(trim(_address->>'name'), '') = ''
+     OR COALESCE(trim(_address->>'phone'), '') = ''
+     OR COALESCE(trim(_address->>'addressLine1'), '') = ''
+     OR COALESCE(trim(_address->>'city'), '') = ''
+     OR COALESCE(trim(_address->>'state'), '') = ''
+     OR COALESCE(_address->>'pincode', '') !~ '^[1-8][0-9]{5}$' THEN
+    RAISE EXCEPTION 'A complete pickup address with a valid pincode is required';
+  END IF;
+
+  v_reference := 'RMA-' || to_char(now(), 'YYYYMMDD') || '-' || left(_order_id::text, 8)
+    || CASE
+         WHEN EXISTS (SELECT 1 FROM public.order_rmas WHERE order_id = _order_id)
+           THEN '-' || (SELECT count(*) + 1 FROM public.order_rmas WHERE order_id = _order_id)
+         ELSE ''
+       END;
+
+  INSERT INTO public.order_rmas (
+    reference, order_id, buyer_id, manufacturer_id, reason, description, items,
+    requested_quantity, photos, address
+  )
+  VALUES (
+    v_reference, _order_id, v_order.buyer_id, v_order.manufacturer_id, _reason, trim(_description), _items,
+    v_quantity, _photos, _address
+  )
+  RETURNING id INTO v_rma_id;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (_order_id, 'rma_requested', now(), jsonb_build_object(
+    'rma_id', v_rma_id,
+    'reference', v_reference,
+    'reason', _reason,
+    'quantity', v_quantity,
+    'photos', COALESCE(array_length(_photos, 1), 0)
+  ));
+
+  INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, entity_id, metadata)
+  VALUES (auth.uid(), 'buyer', 'rma_requested', 'order', _order_id, jsonb_build_object(
+    'rma_id', v_rma_id,
+    'reference', v_reference,
+    'reason', _reason,
+    'quantity', v_quantity
+  ));
+
+  INSERT INTO public.notifications (user_id, order_id, type, title, message)
+  SELECT ur.user_id, _order_id, 'rma_requested', 'Return requested',
+    'Return ' || v_reference || ' raised for ' || v_quantity || ' piece(s): ' || replace(_reason, '_', ' ') || '.'
+  FROM public.user_roles ur
+  WHERE ur.role = 'admin'::app_role;
+
+  RETURN v_rma_id;
+END;
+$function$;
+
+-- 7. Buyer withdraws an RMA that hasn't been reviewed yet
+CREATE OR REPLACE FUNCTION public.withdraw_rma(_rma_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_rma public.order_rmas%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rma FROM public.order_rmas WHERE id = _rma_id FOR UPDATE;
+  IF v_rma.id IS NULL OR v_rma.buyer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_rma.status <> 'requested' THEN
+    RAISE EXCEPTION 'Only returns awaiting review can be withdrawn';
+  END IF;
+
+  UPDATE public.order_rmas
+  SET status = 'withdrawn',
+      closed_at = now()
+  WHERE id = _rma_id;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (v_rma.order_id, 'rma_withdrawn', now(), jsonb_build_object('rma_id', v_rma.id, 'reference', v_rma.reference));
+END;
+$function$;
+
+-- 8. Admin decision
+-- Approve: quantity (up to the requested one), fault, resolution and whether the pieces must
+-- come back. Refunds are recorded as a pending order_refunds row for the usual approval;
+-- a factory fault can carry a deduction from the manufacturer's next payout.
+CREATE OR REPLACE FUNCTION public.review_rma(
+  _rma_id uuid,
+  _approve boolean,
+  _approved_quantity integer DEFAULT NULL,
+  _resolution text DEFAULT NULL,
+  _fault text DEFAULT NULL,
+  _return_required boolean DEFAULT false,
+  _refund_amount numeric DEFAULT NULL,
+  _adjustment_amount numeric DEFAULT 0,
+  _note text DEFAULT NULL
+)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_rma public.order_rmas%ROWTYPE;
+  v_refund_id uuid;
+  v_adjustment numeric := COALESCE(_adjustment_amount, 0);
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can review returns';
+  END IF;
+
+  SELECT * INTO v_rma FROM public.order_rmas WHERE id = _rma_id FOR UPDATE;
+  IF v_rma.id IS NULL THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_rma.status <> 'requested' THEN
+    RAISE EXCEPTION 'Return % has already been reviewed', v_rma.reference;
+  END IF;
+
+  IF NOT _approve THEN
+    IF COALESCE(trim(_note), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to reject a return';
+    END IF;
+
+    UPDATE public.order_rmas
+    SET status = 'rejected',
+        review_note = trim(_note),
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        closed_at = now()
+    WHERE id = _rma_id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (v_rma.order_id, 'rma_rejected', now(), jsonb_build_object(
+      'rma_id', v_rma.id,
+      'reference', v_rma.reference,
+      'note', trim(_note),
+      'reviewed_by', auth.uid()
+    ));
+
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    VALUES (v_rma.buyer_id, v_rma.order_id, 'rma_rejected', 'Return not accepted',
+      'Your return ' || v_rma.reference || ' was not accepted: ' || trim(_note));
+    RETURN;
+  END IF;
+
+  IF _approved_quantity IS NULL OR _approved_quantity <= 0 OR _approved_quantity > v_rma.requested_quantity THEN
+    RAISE EXCEPTION 'Approve between 1 and % piece(s)', v_rma.requested_quantity;
+  END IF;
+  IF _resolution NOT IN ('remake', 'refund') THEN
+    RAISE EXCEPTION 'Resolution must be remake or refund';
+  END IF;
+  IF _fault NOT IN ('factory', 'buyer', 'courier') THEN
+    RAISE EXCEPTION 'Fault must be factory, buyer or courier';
+  END IF;
+  IF _resolution = 'remake' AND v_rma.manufacturer_id IS NULL THEN
+    RAISE EXCEPTION 'The order has no manufacturer to produce a remake';
+  END IF;
+  IF _resolution = 'refund' AND COALESCE(_refund_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Enter the refund amount';
+  END IF;
+  IF v_adjustment < 0 OR (v_adjustment > 0 AND _fault <> 'factory') THEN
+    RAISE EXCEPTION 'Payout deductions only apply when the factory is at fault';
+  END IF;
+  IF v_adjustment > 0 AND v_rma.manufacturer_id IS NULL THEN
+    RAISE EXCEPTION 'The order has no manufacturer to deduct from';
+  END IF;
+
+  IF _resolution = 'refund' THEN
+    INSERT INTO public.order_refunds (
+      order_id, amount, reason, source_type, rma_id, affected_quantity, requested_by
+    )
+    VALUES (
+      v_rma.order_id,
+      _refund_amount,
+      'Return ' || v_rma.reference || ': ' || replace(v_rma.reason, '_', ' '),
+      'rma',
+      v_rma.id,
+      _approved_quantity,
+      auth.uid()
+    )
+    RETURNING id INTO v_refund_id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (v_rma.order_id, 'partial_refund_requested', now(), jsonb_build_object(
+      'refund_id', v_refund_id,
+      'amount', _refund_amount,
+      'source_type', 'rma',
+      'rma_id', v_rma.id,
+      'affected_quantity', _approved_quantity,
+      'requested_by', auth.uid()
+    ));
+  END IF;
+
+  IF v_adjustment > 0 THEN
+    INSERT INTO public.payout_adjustments (manufacturer_id, order_id, rma_id, amount, reason, created_by)
+    VALUES (
+      v_rma.manufacturer_id,
+      v_rma.order_id,
+      v_rma.id,
+      v_adjustment,
+      'Return ' || v_rma.reference || ' (' || _approved_quantity || ' pcs, ' || replace(v_rma.reason, '_', ' ') || ')',
+      auth.uid()
+    );
+  END IF;
+
+  UPDATE public.order_rmas
+  SET status = 'approved',
+      approved_quantity = _approved_quantity,
+      resolution = _resolution,
+      fault = _fault,
+      return_required = COALESCE(_return_required, false),
+      remake_status = CASE
+        WHEN _resolution <> 'remake' THEN NULL
+        WHEN COALESCE(_return_required, false) THEN 'awaiting_return'
+        ELSE 'not_started'
+      END,
+      refund_id = v_refund_id,
+      adjustment_amount = v_adjustment,
+      review_note = NULLIF(trim(COALESCE(_note, '')), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _rma_id;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (v_rma.order_id, 'rma_approved', now(), jsonb_build_object(
+    'rma_id', v_rma.id,
+    'reference', v_rma.reference,
+    'approved_quantity', _approved_quantity,
+    'resolution', _resolution,
+    'fault', _fault,
+    'return_required', COALESCE(_return_required, false),
+    'refund_amount', _refund_amount,
+    'adjustment_amount', v_adjustment,
+    'reviewed_by', auth.uid()
+  ));
+
+  INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, entity_id, metadata)
+  VALUES (auth.uid(), 'admin', 'rma_approved', 'order', v_rma.order_id, jsonb_build_object(
+    'rma_id', v_rma.id,
+    'reference', v_rma.reference,
+    'resolution', _resolution,
+    'fault', _fault,
+    'adjustment_amount', v_adjustment
+  ));
+
+  INSERT INTO public.notifications (user_id, order_id, type, title, message)
+  VALUES (v_rma.buyer_id, v_rma.order_id, 'rma_approved', 'Return approved',
+    'Your return ' || v_rma.reference || ' was approved for ' || _approved_quantity || ' piece(s): '
+      || CASE WHEN _resolution = 'remake' THEN 'replacements will be made' ELSE 'a refund of ₹' || _refund_amount || ' is being processed' END
+      || CASE WHEN COALESCE(_return_required, false) THEN '. We will arrange a pickup of the affected pieces.' ELSE '.' END);
+
+  IF _resolution = 'remake' OR v_adjustment > 0 THEN
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    VALUES (v_rma.manufacturer_id, v_rma.order_id, 'rma_approved', 'Return approved',
+      'Return ' || v_rma.reference || ' was approved for ' || _approved_quantity || ' piece(s)'
+        || CASE
+             WHEN _resolution <> 'remake' THEN ''
+             WHEN COALESCE(_return_required, false) THEN '. Start the remake once the returned pieces arrive'
+             ELSE '. Please start the remake'
+           END
+        || CASE WHEN v_adjustment > 0 THEN '. ₹' || v_adjustment || ' will be deducted from your next payout.' ELSE '.' END);
+  END IF;
+
+  -- A refund with nothing to send back is done
+  IF _resolution = 'refund' AND NOT COALESCE(_return_required, false) THEN
+    UPDATE public.order_rmas
+    SET status = 'closed',
+        closed_at = now()
+    WHERE id = _rma_id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (v_rma.order_id, 'rma_closed', now(), jsonb_build_object('rma_id', v_rma.id, 'reference', v_rma.reference));
+  END IF;
+END;
+$function$;
+
+-- 9. Manufacturer remake progress: not_started -> in_production -> packed
+CREATE OR REPLACE FUNCTION public.update_rma_remake_status(_rma_id uuid, _to_status text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_rma public.order_rmas%ROWTYPE;
+  v_is_admin boolean := has_role(auth.uid(), 'admin'::app_role);
+BEGIN
+  SELECT * INTO v_rma FROM public.order_rmas WHERE id = _rma_id FOR UPDATE;
+  IF v_rma.id IS NULL OR (v_rma.manufacturer_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin) THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_rma.status <> 'approved' OR v_rma.resolution <> 'remake' THEN
+    RAISE EXCEPTION 'Return % has no remake in progress', v_rma.reference;
+  END IF;
+  IF _to_status NOT IN ('in_production', 'packed') THEN
+    RAISE EXCEPTION 'Remakes can only be moved to in_production or packed here; shipping follows the replacement shipment';
+  END IF;
+
+  -- validate_rma_remake_transition rejects skipped steps
+  UPDATE public.order_rmas
+  SET remake_status = _to_status,
+      remake_started_at = CASE WHEN _to_status = 'in_production' THEN now() ELSE remake_started_at END
+  WHERE id = _rma_id;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (v_rma.order_id, CASE WHEN _to_status = 'in_production' THEN 'remake_started' ELSE 'remake_packed' END, now(),
+    jsonb_build_object(
+      'rma_id', v_rma.id,
+      'reference', v_rma.reference,
+      'quantity', v_rma.approved_quantity,
+      'marked_by', CASE WHEN v_is_admin THEN 'admin' ELSE 'manufacturer' END
+    ));
+
+  IF _to_status = 'packed' THEN
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    SELECT ur.user_id, v_rma.order_id, 'rma_remake_packed', 'Remake ready to ship',
+      'Replacements for ' || v_rma.reference || ' are packed. Book the replacement shipment.'
+    FROM public.user_roles ur
+    WHERE ur.role = 'admin'::app_role;
+  END IF;
+END;
+$function$;
+
+-- 10. Book an RMA shipment with a courier outside Leorit (admin). Courier bookings go
+-- through the courier-shipment edge function (create_rma_shipment).
+--   return:  buyer's address -> manufacturer, once approved with return_required
+--   outbound: manufacturer -> buyer's address, once the remake is packed
+CREATE OR REPLACE FUNCTION public.book_rma_shipment(
+  _rma_id uuid,
+  _direction text,
+  _courier_name text,
+  _tracking_id text
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_rma public.order_rmas%ROWTYPE;
+  v_factory jsonb;
+  v_shipment_id uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can book return shipments';
+  END IF;
+
+  SELECT * INTO v_rma FROM public.order_rmas WHERE id = _rma_id FOR UPDATE;
+  IF v_rma.id IS NULL THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF COALESCE(trim(_courier_name), '') = '' OR COALESCE(trim(_tracking_id), '') = '' THEN
+    RAISE EXCEPTION 'Courier name and tracking ID are required';
+  END IF;
+
+  IF _direction = 'return' THEN
+    IF v_rma.status <> 'approved' OR NOT v_rma.return_required OR v_rma.return_received_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Return % is not waiting for a return pickup', v_rma.reference;
+    END IF;
+  ELSIF _direction = 'outbound' THEN
+    IF v_rma.remake_status IS DISTINCT FROM 'packed' THEN
+      RAISE EXCEPTION 'Replacements for % are not packed yet', v_rma.reference;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Direction must be return or outbound';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.shipments WHERE rma_id = _rma_id AND direction = _direction) THEN
+    RAISE EXCEPTION 'This shipment is already booked';
+  END IF;
+
+  -- Manufacturers have no street-level address on file (see courier-shipment)
+  SELECT jsonb_build_object(
+    'name', COALESCE(am.company_name, mv.company_name, 'Manufacturer'),
+    'phone', '',
+    'addressLine1', COALESCE(mv.location, ''),
+    'city', COALESCE(am.city, mv.city, ''),
+    'state', COALESCE(am.state, mv.state, ''),
+    'pincode', '',
+    'country', COALESCE(am.country, mv.country, 'India')
+  )
+  INTO v_factory
+  FROM (SELECT 1) one
+  LEFT JOIN public.approved_manufacturers am ON am.linked_user_id = v_rma.manufacturer_id
+  LEFT JOIN public.manufacturer_verifications mv ON mv.user_id = v_rma.manufacturer_id;
+
+  INSERT INTO public.shipments (
+    order_id, rma_id, direction, label, quantity, courier_name, awb_code, status,
+    pickup_address, delivery_address, delivery_status, pickup_scheduled_at, created_by
+  )
+  VALUES (
+    v_rma.order_id,
+    v_rma.id,
+    _direction,
+    CASE WHEN _direction = 'return' THEN 'Return ' ELSE 'Replacement ' END || v_rma.reference,
+    v_rma.approved_quantity,
+    trim(_courier_name),
+    trim(_tracking_id),
+    'pickup_scheduled',
+    CASE WHEN _direction = 'return' THEN v_rma.address ELSE v_factory END,
+    CASE WHEN _direction = 'return' THEN v_factory ELSE v_rma.address END,
+    'PICKUP_SCHEDULED',
+    now(),
+    auth.uid()
+  )
+  RETURNING id INTO v_shipment_id;
+
+  RETURN v_shipment_id;
+END;
+$function$;
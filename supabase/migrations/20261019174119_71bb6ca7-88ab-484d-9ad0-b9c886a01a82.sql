@@ -0,0 +1,435 @@
+-- Proof of delivery (POD)
+-- Marking an order delivered only needed admin intent. Once an order is on its way the buyer
+-- gets a 6-digit delivery OTP; the courier (public POD link) or an admin enters it at hand-over,
+-- optionally with a recipient photo (e.g. the signed delivery slip) and the device location.
+-- The confirmation is stored as delivery-stage evidence, and payment can't become releasable
+-- (order PAYMENT_RELEASABLE, or milestones tied to DELIVERED and later) without it.
+--
+-- Orders delivered before this migration keep their releasable milestones; POD can still be
+-- recorded for them.
+
+-- 1. POD timestamp on the order (the gate the payment checks read)
+ALTER TABLE public.orders ADD COLUMN pod_confirmed_at timestamp with time zone;
+
+-- 2. One OTP per order. Only the buyer can read it - admins enter what the buyer reads out, so
+-- an admin can't confirm receipt on their own. courier_token identifies the order on the public
+-- POD link; it is useless without the OTP.
+CREATE TABLE public.delivery_otps (
+  order_id uuid PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[0-9]{6}$'),
+  courier_token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  failed_attempts integer NOT NULL DEFAULT 0,
+  generated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.delivery_otps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers can view their delivery OTP"
+ON public.delivery_otps FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o WHERE o.id = delivery_otps.order_id AND o.buyer_id = auth.uid()
+));
+
+-- 3. The confirmation itself (written by confirm_delivery_pod only)
+CREATE TABLE public.delivery_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  confirmed_role text NOT NULL CHECK (confirmed_role IN ('admin', 'courier')),
+  confirmed_by uuid,
+  recipient_name text,
+  photo_url text,
+  photo_sha256 text CHECK (photo_sha256 IS NULL OR photo_sha256 ~ '^[0-9a-f]{64}$'),
+  latitude numeric(9, 6) CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric(9, 6) CHECK (longitude BETWEEN -180 AND 180),
+  location_accuracy_m numeric CHECK (location_accuracy_m >= 0),
+  confirmed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT delivery_proofs_location_check CHECK ((latitude IS NULL) = (longitude IS NULL)),
+  CONSTRAINT delivery_proofs_photo_check CHECK (photo_sha256 IS NULL OR photo_url IS NOT NULL)
+);
+
+ALTER TABLE public.delivery_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view delivery proofs"
+ON public.delivery_proofs FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view their delivery proofs"
+ON public.delivery_proofs FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o WHERE o.id = delivery_proofs.order_id AND o.buyer_id = auth.uid()
+));
+
+CREATE POLICY "Manufacturers can view delivery proofs for their orders"
+ON public.delivery_proofs FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o WHERE o.id = delivery_proofs.order_id AND o.manufacturer_id = auth.uid()
+));
+
+-- Couriers confirm through the delivery-pod edge function
+ALTER TABLE public.order_evidence DROP CONSTRAINT IF EXISTS order_evidence_uploader_role_check;
+ALTER TABLE public.order_evidence
+  ADD CONSTRAINT order_evidence_uploader_role_check
+  CHECK (uploader_role IN ('buyer', 'manufacturer', 'admin', 'courier'));
+
+-- 4. Issue (or rotate) the OTP and tell the buyer
+CREATE OR REPLACE FUNCTION public.issue_delivery_otp(_order_id uuid, _rotate boolean DEFAULT false)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  -- From gen_random_uuid(): random() is predictable, the OTP must not be
+  v_code text := lpad(((('x' || substr(replace(gen_random_uuid()::text, '-', ''), 1, 8))::bit(32)::bigint % 1000000))::text, 6, '0');
+  v_buyer_id uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.delivery_proofs WHERE order_id = _order_id) THEN
+    RETURN;
+  END IF;
+
+  IF _rotate THEN
+    INSERT INTO public.delivery_otps (order_id, code)
+    VALUES (_order_id, v_code)
+    ON CONFLICT (order_id) DO UPDATE
+    SET code = EXCLUDED.code, failed_attempts = 0, generated_at = now();
+  ELSE
+    INSERT INTO public.delivery_otps (order_id, code)
+    VALUES (_order_id, v_code)
+    ON CONFLICT (order_id) DO NOTHING;
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT buyer_id INTO v_buyer_id FROM public.orders WHERE id = _order_id;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (_order_id, 'delivery_otp_issued', now(), jsonb_build_object('rotated', _rotate));
+
+  INSERT INTO public.notifications (user_id, order_id, type, title, message)
+  VALUES (v_buyer_id, _order_id, 'delivery_otp', 'Your delivery OTP',
+    'Share the OTP shown on your order page with the courier only when you receive the goods.');
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_delivery_otp(uuid, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Issued once the order (or, for split orders, its first shipment) is handed to a courier
+CREATE OR REPLACE FUNCTION public.issue_delivery_otp_for_order()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  PERFORM public.issue_delivery_otp(NEW.id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER issue_delivery_otp_for_order
+  AFTER UPDATE OF delivery_status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.delivery_status IN ('PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED')
+    AND NEW.delivery_status IS DISTINCT FROM OLD.delivery_status)
+  EXECUTE FUNCTION public.issue_delivery_otp_for_order();
+
+CREATE OR REPLACE FUNCTION public.issue_delivery_otp_for_shipment()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  PERFORM public.issue_delivery_otp(NEW.order_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER issue_delivery_otp_for_shipment
+  AFTER INSERT OR UPDATE OF delivery_status ON public.shipments
+  FOR EACH ROW
+  WHEN (NEW.rma_id IS NULL AND NEW.delivery_status IN ('PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED'))
+  EXECUTE FUNCTION public.issue_delivery_otp_for_shipment();
+
+-- Orders already on their way
+SELECT public.issue_delivery_otp(id)
+FROM public.orders
+WHERE delivery_status IN ('PICKUP_SCHEDULED', 'IN_TRANSIT');
+
+-- 5. New OTP on request (buyer), e.g. after too many wrong entries
+CREATE OR REPLACE FUNCTION public.regenerate_delivery_otp(_order_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.orders WHERE id = _order_id AND buyer_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the buyer of the order can request a new delivery OTP';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.delivery_proofs WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Delivery has already been confirmed';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.delivery_otps WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'No delivery OTP has been issued for this order yet';
+  END IF;
+
+  PERFORM public.issue_delivery_otp(_order_id, true);
+END;
+$function$;
+
+-- 6. Token for the courier's POD link (admin); the OTP itself stays with the buyer
+CREATE OR REPLACE FUNCTION public.get_delivery_pod_token(_order_id uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_token uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can share the POD link';
+  END IF;
+
+  SELECT courier_token INTO v_token FROM public.delivery_otps WHERE order_id = _order_id;
+  IF v_token IS NULL THEN
+    RAISE EXCEPTION 'No delivery OTP has been issued for this order yet';
+  END IF;
+
+  RETURN v_token;
+END;
+$function$;
+
+-- 7. Confirm delivery with the buyer's OTP (admin, or the courier through the delivery-pod
+-- edge function as service role). Returns confirmed | invalid_otp | locked; wrong entries are
+-- counted, so they don't raise. Five wrong entries lock the OTP until the buyer regenerates it.
+CREATE OR REPLACE FUNCTION public.confirm_delivery_pod(
+  _order_id uuid,
+  _otp text,
+  _recipient_name text DEFAULT NULL,
+  _photo_url text DEFAULT NULL,
+  _photo_sha256 text DEFAULT NULL,
+  _latitude numeric DEFAULT NULL,
+  _longitude numeric DEFAULT NULL,
+  _location_accuracy_m numeric DEFAULT NULL
+)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_otp public.delivery_otps%ROWTYPE;
+  v_role text;
+  v_proof_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    v_role := 'courier';
+  ELSIF has_role(auth.uid(), 'admin'::app_role) THEN
+    v_role := 'admin';
+  ELSE
+    RAISE EXCEPTION 'Only admins or the courier can confirm delivery';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = _order_id;
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF COALESCE(v_order.delivery_status, 'NOT_STARTED') NOT IN ('PICKUP_SCHEDULED', 'IN_TRANSIT', 'DELIVERED') THEN
+    RAISE EXCEPTION 'Delivery can only be confirmed once the order has been handed to a courier';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.delivery_proofs WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Delivery has already been confirmed';
+  END IF;
+
+  IF _photo_url IS NOT NULL AND _photo_url NOT LIKE _order_id::text || '/delivery/%' THEN
+    RAISE EXCEPTION 'Delivery photo must be stored under the order''s delivery folder';
+  END IF;
+
+  IF (_latitude IS NULL) <> (_longitude IS NULL) THEN
+    RAISE EXCEPTION 'Location needs both latitude and longitude';
+  END IF;
+
+  SELECT * INTO v_otp FROM public.delivery_otps WHERE order_id = _order_id FOR UPDATE;
+  IF v_otp.order_id IS NULL THEN
+    RAISE EXCEPTION 'No delivery OTP has been issued for this order yet';
+  END IF;
+
+  IF v_otp.failed_attempts >= 5 THEN
+    RETURN 'locked';
+  END IF;
+
+  IF v_otp.code <> trim(COALESCE(_otp, '')) THEN
+    UPDATE public.delivery_otps
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = _order_id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (_order_id, 'delivery_otp_failed', now(), jsonb_build_object(
+      'confirmed_role', v_role,
+      'failed_attempts', v_otp.failed_attempts + 1
+    ));
+
+    IF v_otp.failed_attempts + 1 >= 5 THEN
+      INSERT INTO public.notifications (user_id, order_id, type, title, message)
+      VALUES (v_order.buyer_id, _order_id, 'delivery_otp_locked', 'Delivery OTP locked',
+        'Your delivery OTP was entered incorrectly 5 times. Generate a new one from your order page when the goods arrive.');
+      RETURN 'locked';
+    END IF;
+
+    RETURN 'invalid_otp';
+  END IF;
+
+  INSERT INTO public.delivery_proofs (
+    order_id, confirmed_role, confirmed_by, recipient_name, photo_url, photo_sha256,
+    latitude, longitude, location_accuracy_m
+  ) VALUES (
+    _order_id, v_role, auth.uid(), NULLIF(trim(_recipient_name), ''), _photo_url, lower(_photo_sha256),
+    _latitude, _longitude, _location_accuracy_m
+  )
+  RETURNING id INTO v_proof_id;
+
+  UPDATE public.orders
+  SET pod_confirmed_at = now(), updated_at = now()
+  WHERE id = _order_id;
+
+  INSERT INTO public.order_evidence (
+    order_id, manufacturer_id, evidence_type, stage, file_url, file_name, description,
+    uploader_role, uploader_id, metadata
+  ) VALUES (
+    _order_id, v_order.manufacturer_id, 'proof_of_delivery', 'delivery', _photo_url,
+    CASE WHEN _photo_url IS NOT NULL THEN 'Delivery photo' END,
+    'Delivery confirmed with the buyer''s OTP'
+      || COALESCE(' - received by ' || NULLIF(trim(_recipient_name), ''), ''),
+    v_role, auth.uid(),
+    jsonb_build_object(
+      'proof_id', v_proof_id,
+      'otp_verified', true,
+      'recipient_name', NULLIF(trim(_recipient_name), ''),
+      'photo_sha256', lower(_photo_sha256),
+      'latitude', _latitude,
+      'longitude', _longitude,
+      'location_accuracy_m', _location_accuracy_m
+    )
+  );
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (_order_id, 'pod_confirmed', now(), jsonb_build_object(
+    'proof_id', v_proof_id,
+    'confirmed_role', v_role,
+    'has_photo', _photo_url IS NOT NULL,
+    'has_location', _latitude IS NOT NULL
+  ));
+
+  INSERT INTO public.system_logs (actor_id, actor_role, event_type, entity_type, entity_id, metadata)
+  VALUES (auth.uid(), CASE WHEN v_role = 'courier' THEN 'system' ELSE 'admin' END, 'pod_confirmed', 'order', _order_id,
+    jsonb_build_object('proof_id', v_proof_id, 'confirmed_role', v_role));
+
+  INSERT INTO public.notifications (user_id, order_id, type, title, message)
+  VALUES (v_order.buyer_id, _order_id, 'pod_confirmed', 'Delivery confirmed',
+    'Delivery of your order was confirmed with your OTP.');
+
+  RETURN 'confirmed';
+END;
+$function$;
+
+-- 8. No order-level PAYMENT_RELEASABLE without POD (sample-only orders aren't delivered)
+CREATE OR REPLACE FUNCTION public.enforce_pod_before_payment_release()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.payment_state = 'PAYMENT_RELEASABLE'
+     AND OLD.payment_state IS DISTINCT FROM 'PAYMENT_RELEASABLE'
+     AND NEW.pod_confirmed_at IS NULL
+     AND NEW.order_mode IS DISTINCT FROM 'sample_only'
+     AND NEW.order_intent IS DISTINCT FROM 'sample_only' THEN
+    RAISE EXCEPTION 'Proof of delivery is required before payment can be released';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_pod_before_payment_release
+  BEFORE UPDATE OF payment_state ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_pod_before_payment_release();
+
+-- 9. Milestones tied to DELIVERED or later also wait for POD; confirming POD releases them
+CREATE OR REPLACE FUNCTION public.sync_payment_milestones()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_default_template uuid;
+  v_milestone record;
+BEGIN
+  -- Payment captured: fund every milestone (default schedule if none was set)
+  IF NEW.payment_state = 'PAYMENT_HELD' AND OLD.payment_state IS DISTINCT FROM 'PAYMENT_HELD' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.order_payment_milestones WHERE order_id = NEW.id) THEN
+      SELECT id INTO v_default_template
+      FROM public.payment_schedule_templates
+      WHERE is_default AND is_active
+      LIMIT 1;
+
+      IF v_default_template IS NOT NULL THEN
+        PERFORM public.create_order_payment_milestones(NEW.id, v_default_template);
+      END IF;
+    END IF;
+
+    UPDATE public.order_payment_milestones
+    SET status = 'held', held_at = now()
+    WHERE order_id = NEW.id AND status = 'pending';
+  END IF;
+
+  -- Refund: nothing left in escrow is released
+  IF NEW.payment_state = 'PAYMENT_REFUNDED' AND OLD.payment_state IS DISTINCT FROM 'PAYMENT_REFUNDED' THEN
+    UPDATE public.order_payment_milestones
+    SET status = 'refunded'
+    WHERE order_id = NEW.id AND status IN ('pending', 'held', 'releasable');
+  END IF;
+
+  -- Order progressed (or POD arrived): milestones whose release_state is reached become
+  -- releasable. The order_state enum is declared in happy-path order, so >= means "reached".
+  IF (NEW.order_state IS DISTINCT FROM OLD.order_state OR NEW.pod_confirmed_at IS DISTINCT FROM OLD.pod_confirmed_at)
+     AND NEW.order_state NOT IN ('ON_HOLD', 'CANCELLED') THEN
+    FOR v_milestone IN
+      UPDATE public.order_payment_milestones
+      SET status = 'releasable', releasable_at = now()
+      WHERE order_id = NEW.id
+        AND status = 'held'
+        AND NEW.order_state >= release_state
+        AND (release_state < 'DELIVERED' OR NEW.pod_confirmed_at IS NOT NULL)
+      RETURNING id, name, amount, release_state
+    LOOP
+      INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+      VALUES (NEW.id, 'milestone_payment_releasable', now(), jsonb_build_object(
+        'milestone_id', v_milestone.id,
+        'milestone_name', v_milestone.name,
+        'amount', v_milestone.amount,
+        'release_state', v_milestone.release_state,
+        'order_state', NEW.order_state
+      ));
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS sync_payment_milestones_trigger ON public.orders;
+CREATE TRIGGER sync_payment_milestones_trigger
+  AFTER UPDATE OF payment_state, order_state, pod_confirmed_at ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_payment_milestones();
@@ -0,0 +1,318 @@
+-- AQL sampling for bulk QC (ISO 2859-1, single sampling, normal inspection)
+-- The buyer picks the inspection level and the AQLs for major and minor defects (critical
+-- defects are zero-tolerance). From the lot size (order quantity) the plan gives the sample
+-- size and the accept number per defect class; the lot is rejected once a class reaches its
+-- reject number (accept + 1).
+-- The manufacturer records each inspection (pieces inspected, defective pieces per class);
+-- the plan and the pass/fail result are computed here, never taken from the client. Bulk QC
+-- can only be submitted after a passing inspection, and only approved while the latest one
+-- passes. Orders whose bulk QC was submitted before this have no inspections and keep the
+-- manual approval.
+
+-- 1. Buyer's sampling choice
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS qc_inspection_level text NOT NULL DEFAULT 'II'
+    CHECK (qc_inspection_level IN ('I', 'II', 'III')),
+  ADD COLUMN IF NOT EXISTS qc_aql_major numeric NOT NULL DEFAULT 2.5
+    CHECK (qc_aql_major IN (0.065, 0.1, 0.15, 0.25, 0.4, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5)),
+  ADD COLUMN IF NOT EXISTS qc_aql_minor numeric NOT NULL DEFAULT 4.0
+    CHECK (qc_aql_minor IN (0.065, 0.1, 0.15, 0.25, 0.4, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5));
+
+-- 2. Sample size code letter (Table I, general inspection levels)
+CREATE OR REPLACE FUNCTION public.aql_code_letter(_lot_size integer, _inspection_level text)
+ RETURNS integer
+ LANGUAGE plpgsql
+ IMMUTABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  -- Upper bound of each lot size range; above the last one is the 15th range
+  v_bounds integer[] := ARRAY[8, 15, 25, 50, 90, 150, 280, 500, 1200, 3200, 10000, 35000, 150000, 500000];
+  v_range integer := 15;
+  v_letter integer;
+BEGIN
+  FOR i IN 1..array_length(v_bounds, 1) LOOP
+    IF _lot_size <= v_bounds[i] THEN
+      v_range := i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  -- 0-based index into A B C D E F G H J K L M N P Q R
+  v_letter := CASE _inspection_level
+    WHEN 'I' THEN (ARRAY[0, 0, 1, 2, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12])[v_range]
+    WHEN 'III' THEN v_range
+    ELSE v_range - 1
+  END;
+
+  RETURN v_letter;
+END;
+$function$;
+
+-- 3. Sample size and accept number for one defect class (Table II-A). The table runs along
+-- diagonals: one code letter down equals one AQL step up, so the plan only depends on
+-- letter + AQL step. Arrows move to the nearest plan in the same column, which changes the
+-- sample size. An AQL of 0 is zero tolerance at the code letter's sample size. If the sample
+-- would exceed the lot, the whole lot is inspected.
+CREATE OR REPLACE FUNCTION public.aql_sampling_plan(_lot_size integer, _inspection_level text, _aql numeric)
+ RETURNS TABLE(sample_size integer, accept_number integer)
+ LANGUAGE plpgsql
+ IMMUTABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_sizes integer[] := ARRAY[2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000];
+  v_aqls numeric[] := ARRAY[0.065, 0.1, 0.15, 0.25, 0.4, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5];
+  -- Accept numbers for diagonals 8..15 (diagonal 5 is 0, 6 and 7 are arrows)
+  v_accepts integer[] := ARRAY[1, 2, 3, 5, 7, 10, 14, 21];
+  v_letter integer;
+  v_step integer;
+  v_diagonal integer;
+BEGIN
+  IF _lot_size IS NULL OR _lot_size < 1 THEN
+    RAISE EXCEPTION 'Lot size must be at least 1';
+  END IF;
+
+  v_letter := public.aql_code_letter(_lot_size, _inspection_level);
+
+  IF _aql = 0 THEN
+    sample_size := LEAST(v_sizes[v_letter + 1], _lot_size);
+    accept_number := 0;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_step := array_position(v_aqls, _aql);
+  IF v_step IS NULL THEN
+    RAISE EXCEPTION 'Unsupported AQL: %', _aql;
+  END IF;
+  -- AQL 0.65 is step 0
+  v_step := v_step - 6;
+  v_diagonal := v_letter + v_step;
+
+  IF v_diagonal < 5 THEN
+    v_letter := 5 - v_step;
+  ELSIF v_diagonal = 6 THEN
+    v_letter := v_letter - 1;
+  ELSIF v_diagonal = 7 THEN
+    v_letter := v_letter + 1;
+  ELSIF v_diagonal > 15 THEN
+    v_letter := 15 - v_step;
+  END IF;
+  v_diagonal := v_letter + v_step;
+
+  sample_size := LEAST(v_sizes[v_letter + 1], _lot_size);
+  accept_number := CASE WHEN v_diagonal = 5 THEN 0 ELSE v_accepts[v_diagonal - 7] END;
+  RETURN NEXT;
+END;
+$function$;
+
+-- 4. Inspections
+CREATE TABLE IF NOT EXISTS public.bulk_qc_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- Plan, copied from the order when recorded
+  lot_size integer NOT NULL CHECK (lot_size > 0),
+  inspection_level text NOT NULL CHECK (inspection_level IN ('I', 'II', 'III')),
+  aql_major numeric NOT NULL,
+  aql_minor numeric NOT NULL,
+  sample_size integer NOT NULL CHECK (sample_size > 0),
+  critical_accept integer NOT NULL DEFAULT 0,
+  major_accept integer NOT NULL,
+  minor_accept integer NOT NULL,
+  -- Recorded by the manufacturer: pieces inspected and defective pieces per class
+  inspected_count integer NOT NULL CHECK (inspected_count > 0),
+  critical_found integer NOT NULL DEFAULT 0 CHECK (critical_found >= 0),
+  major_found integer NOT NULL DEFAULT 0 CHECK (major_found >= 0),
+  minor_found integer NOT NULL DEFAULT 0 CHECK (minor_found >= 0),
+  result text NOT NULL CHECK (result IN ('pass', 'fail')),
+  notes text,
+  inspected_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT bulk_qc_inspections_found CHECK (
+    critical_found <= inspected_count AND major_found <= inspected_count AND minor_found <= inspected_count
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_qc_inspections_order ON public.bulk_qc_inspections (order_id, created_at DESC);
+
+ALTER TABLE public.bulk_qc_inspections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view bulk QC inspections"
+ON public.bulk_qc_inspections
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view bulk QC inspections for their orders"
+ON public.bulk_qc_inspections
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = bulk_qc_inspections.order_id AND o.buyer_id = auth.uid()
+));
+
+CREATE POLICY "Manufacturers can view bulk QC inspections for their orders"
+ON public.bulk_qc_inspections
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = bulk_qc_inspections.order_id AND o.manufacturer_id = auth.uid()
+));
+
+-- Inspections are recorded during bulk production and never changed
+CREATE POLICY "Manufacturers can record bulk QC inspections"
+ON public.bulk_qc_inspections
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = bulk_qc_inspections.order_id
+    AND o.manufacturer_id = auth.uid()
+    AND o.order_state = 'BULK_IN_PRODUCTION'
+));
+
+-- Plan and result come from the order, not the client
+CREATE OR REPLACE FUNCTION public.apply_bulk_qc_aql_plan()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order RECORD;
+  v_critical RECORD;
+  v_major RECORD;
+  v_minor RECORD;
+BEGIN
+  SELECT quantity, qc_inspection_level, qc_aql_major, qc_aql_minor INTO v_order
+  FROM public.orders WHERE id = NEW.order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT * INTO v_critical FROM public.aql_sampling_plan(v_order.quantity, v_order.qc_inspection_level, 0);
+  SELECT * INTO v_major FROM public.aql_sampling_plan(v_order.quantity, v_order.qc_inspection_level, v_order.qc_aql_major);
+  SELECT * INTO v_minor FROM public.aql_sampling_plan(v_order.quantity, v_order.qc_inspection_level, v_order.qc_aql_minor);
+
+  NEW.lot_size := v_order.quantity;
+  NEW.inspection_level := v_order.qc_inspection_level;
+  NEW.aql_major := v_order.qc_aql_major;
+  NEW.aql_minor := v_order.qc_aql_minor;
+  -- Defects are counted over one sample, the largest any class needs
+  NEW.sample_size := GREATEST(v_critical.sample_size, v_major.sample_size, v_minor.sample_size);
+  NEW.critical_accept := v_critical.accept_number;
+  NEW.major_accept := v_major.accept_number;
+  NEW.minor_accept := v_minor.accept_number;
+  NEW.inspected_by := auth.uid();
+  NEW.created_at := now();
+
+  IF NEW.inspected_count < NEW.sample_size THEN
+    RAISE EXCEPTION 'At least % pieces must be inspected for a lot of %', NEW.sample_size, NEW.lot_size;
+  END IF;
+  IF NEW.inspected_count > NEW.lot_size THEN
+    RAISE EXCEPTION 'Cannot inspect more pieces than the lot holds (%)', NEW.lot_size;
+  END IF;
+
+  NEW.result := CASE
+    WHEN NEW.critical_found > NEW.critical_accept
+      OR NEW.major_found > NEW.major_accept
+      OR NEW.minor_found > NEW.minor_accept
+    THEN 'fail'
+    ELSE 'pass'
+  END;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_bulk_qc_aql_plan
+  BEFORE INSERT ON public.bulk_qc_inspections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_bulk_qc_aql_plan();
+
+CREATE OR REPLACE FUNCTION public.log_bulk_qc_inspection()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (NEW.order_id, 'bulk_qc_inspection_recorded', now(), jsonb_build_object(
+    'inspection_id', NEW.id,
+    'result', NEW.result,
+    'lot_size', NEW.lot_size,
+    'inspection_level', NEW.inspection_level,
+    'aql_major', NEW.aql_major,
+    'aql_minor', NEW.aql_minor,
+    'sample_size', NEW.sample_size,
+    'inspected_count', NEW.inspected_count,
+    'critical_found', NEW.critical_found,
+    'major_found', NEW.major_found,
+    'minor_found', NEW.minor_found
+  ));
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER log_bulk_qc_inspection
+  AFTER INSERT ON public.bulk_qc_inspections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_bulk_qc_inspection();
+
+-- 5. Gates on the order
+CREATE OR REPLACE FUNCTION public.enforce_bulk_qc_aql()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_latest RECORD;
+BEGIN
+  -- The sampling plan is fixed once the first inspection is recorded
+  IF (NEW.qc_inspection_level IS DISTINCT FROM OLD.qc_inspection_level
+      OR NEW.qc_aql_major IS DISTINCT FROM OLD.qc_aql_major
+      OR NEW.qc_aql_minor IS DISTINCT FROM OLD.qc_aql_minor)
+     AND EXISTS (SELECT 1 FROM public.bulk_qc_inspections WHERE order_id = NEW.id) THEN
+    RAISE EXCEPTION 'The AQL sampling plan cannot be changed after a bulk QC inspection has been recorded';
+  END IF;
+
+  -- Submitting bulk QC needs a passing inspection since the last submission
+  IF NEW.order_state = 'BULK_QC_UPLOADED' AND OLD.order_state IS DISTINCT FROM 'BULK_QC_UPLOADED' THEN
+    SELECT result INTO v_latest
+    FROM public.bulk_qc_inspections
+    WHERE order_id = NEW.id
+      AND created_at > COALESCE(OLD.bulk_qc_uploaded_at, '-infinity'::timestamptz)
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Record the AQL inspection of the bulk lot before submitting bulk QC';
+    END IF;
+    IF v_latest.result <> 'pass' THEN
+      RAISE EXCEPTION 'The bulk lot failed AQL inspection - rework it and record a new inspection';
+    END IF;
+  END IF;
+
+  -- Approval follows the latest inspection
+  IF (NEW.bulk_qc_approved_at IS NOT NULL AND OLD.bulk_qc_approved_at IS NULL)
+     OR (NEW.order_state = 'READY_FOR_DISPATCH' AND OLD.order_state = 'BULK_QC_UPLOADED') THEN
+    SELECT result INTO v_latest
+    FROM public.bulk_qc_inspections
+    WHERE order_id = NEW.id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF FOUND AND v_latest.result <> 'pass' THEN
+      RAISE EXCEPTION 'Bulk QC cannot be approved: the lot failed AQL inspection';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_bulk_qc_aql
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_bulk_qc_aql();
@@ -0,0 +1,307 @@
+-- Structured QC defects
+-- Defects are picked from a managed catalogue (per product type) instead of a free-text
+-- template, one row per defect, optionally marked on a QC photo with a pin or a box.
+-- Each row keeps the manufacturer, product type and print method of its order so defect
+-- rates can be reported by manufacturer and print type. order_qc.defect_type/severity are
+-- kept as a summary of the worst defect for existing screens.
+
+-- 1. Catalogue
+CREATE TABLE IF NOT EXISTS public.qc_defect_codes (
+  -- e.g. PRT-MISREG
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z]{3}-[A-Z0-9]{2,10}$'),
+  label text NOT NULL,
+  category text NOT NULL
+    CHECK (category IN ('print', 'colour', 'stitching', 'measurement', 'fabric', 'trims', 'labelling', 'packaging', 'other')),
+  -- Same classes as AQL inspection
+  default_severity text NOT NULL CHECK (default_severity IN ('critical', 'major', 'minor')),
+  -- Empty = applies to every product type
+  product_types text[] NOT NULL DEFAULT '{}',
+  description text,
+  active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_qc_defect_codes_updated_at
+BEFORE UPDATE ON public.qc_defect_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.qc_defect_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view defect codes"
+ON public.qc_defect_codes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage defect codes"
+ON public.qc_defect_codes
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+INSERT INTO public.qc_defect_codes (code, label, category, default_severity, product_types, description, sort_order)
+VALUES
+  ('PRT-MISREG', 'Print misregistration', 'print', 'major', '{}', 'Colours or layers of the print do not line up', 10),
+  ('PRT-PLACE', 'Print placement off', 'print', 'major', '{}', 'Print not where the tech pack puts it (height, centring, angle)', 20),
+  ('PRT-CRACK', 'Print cracking or peeling', 'print', 'major', '{}', 'Print cracks, peels or flakes when stretched', 30),
+  ('PRT-SMUDGE', 'Smudge or ink stain', 'print', 'minor', '{}', 'Stray ink outside the artwork', 40),
+  ('PRT-ART', 'Wrong artwork', 'print', 'critical', '{}', 'Artwork, text or logo differs from the approved design', 50),
+  ('CLR-SHIFT', 'Colour shift', 'colour', 'major', '{}', 'Fabric or print colour visibly off the approved sample or Pantone', 60),
+  ('CLR-SHADE', 'Shade variation within lot', 'colour', 'minor', '{}', 'Pieces in the lot differ in shade from each other', 70),
+  ('STC-OPEN', 'Open or broken seam', 'stitching', 'major', '{}', 'Seam open, broken or skipped stitches', 80),
+  ('STC-UNEVEN', 'Uneven stitching', 'stitching', 'minor', '{}', 'Wavy, crooked or irregular stitch lines', 90),
+  ('STC-THREAD', 'Loose threads', 'stitching', 'minor', '{}', 'Untrimmed or hanging threads', 100),
+  ('MSR-TOL', 'Measurement out of tolerance', 'measurement', 'major', '{}', 'A point of measure outside the allowed tolerance', 110),
+  ('MSR-SIZE', 'Wrong size', 'measurement', 'critical', '{}', 'Piece is a different size than labelled', 120),
+  ('FAB-HOLE', 'Hole or tear', 'fabric', 'critical', '{}', 'Hole, tear or cut in the fabric', 130),
+  ('FAB-STAIN', 'Fabric stain', 'fabric', 'major', '{}', 'Oil, dirt or other stain on the fabric', 140),
+  ('FAB-PILL', 'Pilling or snag', 'fabric', 'minor', '{}', 'Pilling, snagged or pulled yarns', 150),
+  ('TRM-ZIP', 'Zip or fastener defect', 'trims', 'critical', ARRAY['Hoodies', 'Jackets', 'Bags'], 'Zip, snap or button does not work', 160),
+  ('TRM-DRAW', 'Drawcord defect', 'trims', 'minor', ARRAY['Hoodies'], 'Drawcord missing, uneven or aglets damaged', 170),
+  ('TRM-STRAP', 'Strap or handle defect', 'trims', 'major', ARRAY['Bags', 'Caps'], 'Strap, handle or closure badly attached', 180),
+  ('LBL-MISS', 'Label missing or wrong', 'labelling', 'major', '{}', 'Size, care or brand label missing or incorrect', 190),
+  ('PKG-DMG', 'Packaging damaged', 'packaging', 'minor', '{}', 'Polybag, fold or carton damaged', 200),
+  ('PKG-QTY', 'Wrong pack quantity', 'packaging', 'major', '{}', 'Carton quantity or size ratio differs from the packing list', 210)
+ON CONFLICT (code) DO NOTHING;
+
+-- 2. Defects
+CREATE TABLE IF NOT EXISTS public.qc_defects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- QC submission the defect was found in (latest of its stage when recorded)
+  order_qc_id uuid REFERENCES public.order_qc(id) ON DELETE SET NULL,
+  stage text NOT NULL CHECK (stage IN ('sample', 'bulk')),
+  defect_code text NOT NULL REFERENCES public.qc_defect_codes(code),
+  severity text NOT NULL CHECK (severity IN ('critical', 'major', 'minor')),
+  pieces integer NOT NULL DEFAULT 1 CHECK (pieces > 0),
+  location text,
+  required_fix text,
+  notes text,
+  -- QC photo (storage path in the orders bucket) and the mark on it, in fractions of the
+  -- image: { "type": "pin", "x": 0.42, "y": 0.31 } or
+  -- { "type": "box", "x": 0.30, "y": 0.25, "width": 0.20, "height": 0.12 }
+  file_url text,
+  annotation jsonb,
+  recorded_by uuid,
+  recorded_by_role text CHECK (recorded_by_role IN ('buyer', 'admin', 'manufacturer')),
+  -- Snapshot of the order for analytics
+  manufacturer_id uuid,
+  product_type text,
+  print_method text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT qc_defects_annotation_photo CHECK (annotation IS NULL OR file_url IS NOT NULL),
+  CONSTRAINT qc_defects_annotation_shape CHECK (
+    annotation IS NULL OR (
+      annotation->>'type' IN ('pin', 'box')
+      AND (annotation->>'x')::numeric BETWEEN 0 AND 1
+      AND (annotation->>'y')::numeric BETWEEN 0 AND 1
+      AND (
+        annotation->>'type' = 'pin'
+        OR (
+          (annotation->>'width')::numeric > 0
+          AND (annotation->>'height')::numeric > 0
+          AND (annotation->>'x')::numeric + (annotation->>'width')::numeric <= 1
+          AND (annotation->>'y')::numeric + (annotation->>'height')::numeric <= 1
+        )
+      )
+    )
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_defects_order ON public.qc_defects (order_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_qc_defects_order_qc ON public.qc_defects (order_qc_id);
+CREATE INDEX IF NOT EXISTS idx_qc_defects_analytics ON public.qc_defects (manufacturer_id, print_method, defect_code);
+
+ALTER TABLE public.qc_defects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view QC defects"
+ON public.qc_defects
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can record QC defects"
+ON public.qc_defects
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view QC defects on their orders"
+ON public.qc_defects
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = qc_defects.order_id AND o.buyer_id = auth.uid()
+));
+
+CREATE POLICY "Buyers can record QC defects on their orders"
+ON public.qc_defects
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = qc_defects.order_id AND o.buyer_id = auth.uid()
+));
+
+CREATE POLICY "Manufacturers can view QC defects on their orders"
+ON public.qc_defects
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = qc_defects.order_id AND o.manufacturer_id = auth.uid()
+));
+
+-- Snapshot, recorder and QC submission come from the database
+CREATE OR REPLACE FUNCTION public.prepare_qc_defect()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order RECORD;
+  v_code RECORD;
+BEGIN
+  SELECT buyer_id, manufacturer_id, product_type, print_method INTO v_order
+  FROM public.orders WHERE id = NEW.order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT active, product_types INTO v_code
+  FROM public.qc_defect_codes WHERE code = NEW.defect_code;
+  IF NOT FOUND OR NOT v_code.active THEN
+    RAISE EXCEPTION 'Unknown or retired defect code: %', NEW.defect_code;
+  END IF;
+  IF cardinality(v_code.product_types) > 0 AND NOT (v_order.product_type = ANY (v_code.product_types)) THEN
+    RAISE EXCEPTION 'Defect code % does not apply to %', NEW.defect_code, v_order.product_type;
+  END IF;
+
+  IF NEW.file_url IS NOT NULL AND split_part(NEW.file_url, '/', 1) <> NEW.order_id::text THEN
+    RAISE EXCEPTION 'The defect photo must belong to the order';
+  END IF;
+
+  NEW.recorded_by := auth.uid();
+  NEW.recorded_by_role := CASE
+    WHEN has_role(auth.uid(), 'admin'::app_role) THEN 'admin'
+    WHEN auth.uid() = v_order.buyer_id THEN 'buyer'
+    ELSE 'manufacturer'
+  END;
+  NEW.manufacturer_id := v_order.manufacturer_id;
+  NEW.product_type := v_order.product_type;
+  NEW.print_method := v_order.print_method;
+  NEW.created_at := now();
+
+  IF NEW.order_qc_id IS NULL THEN
+    SELECT id INTO NEW.order_qc_id
+    FROM public.order_qc
+    WHERE order_id = NEW.order_id AND stage = NEW.stage
+    ORDER BY created_at DESC NULLS LAST
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prepare_qc_defect
+  BEFORE INSERT ON public.qc_defects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_qc_defect();
+
+-- order_qc summary: category and class of the worst defect (legacy 1-5 severity scale)
+CREATE OR REPLACE FUNCTION public.sync_order_qc_defect_summary()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_worst RECORD;
+BEGIN
+  IF NEW.order_qc_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.category, d.severity INTO v_worst
+  FROM public.qc_defects d
+  JOIN public.qc_defect_codes c ON c.code = d.defect_code
+  WHERE d.order_qc_id = NEW.order_qc_id
+  ORDER BY array_position(ARRAY['critical', 'major', 'minor'], d.severity), d.pieces DESC, d.created_at DESC
+  LIMIT 1;
+
+  UPDATE public.order_qc
+  SET defect_type = CASE v_worst.category
+        WHEN 'print' THEN 'print_defect'
+        WHEN 'stitching' THEN 'stitching_defect'
+        WHEN 'measurement' THEN 'size_mismatch'
+        WHEN 'colour' THEN 'color_mismatch'
+        WHEN 'fabric' THEN 'fabric_issue'
+        WHEN 'packaging' THEN 'packaging_issue'
+        ELSE 'other'
+      END,
+      defect_severity = CASE v_worst.severity WHEN 'critical' THEN 5 WHEN 'major' THEN 3 ELSE 1 END
+  WHERE id = NEW.order_qc_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_order_qc_defect_summary
+  AFTER INSERT ON public.qc_defects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_order_qc_defect_summary();
+
+-- 3. Defect rates by manufacturer and print method (admin analytics)
+-- Rate = defects recorded / QC submissions, per manufacturer and print method
+CREATE OR REPLACE FUNCTION public.get_qc_defect_rates(_since timestamp with time zone DEFAULT NULL)
+ RETURNS TABLE(
+   manufacturer_id uuid,
+   print_method text,
+   defect_code text,
+   category text,
+   defect_count bigint,
+   pieces_affected bigint,
+   qc_submissions bigint,
+   defect_rate numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view defect rates';
+  END IF;
+
+  RETURN QUERY
+  WITH submissions AS (
+    SELECT o.manufacturer_id, o.print_method, count(*) AS total
+    FROM public.order_qc q
+    JOIN public.orders o ON o.id = q.order_id
+    WHERE q.reviewer = 'manufacturer'
+      AND (_since IS NULL OR q.created_at >= _since)
+    GROUP BY o.manufacturer_id, o.print_method
+  )
+  SELECT
+    d.manufacturer_id,
+    d.print_method,
+    d.defect_code,
+    c.category,
+    count(*) AS defect_count,
+    sum(d.pieces)::bigint AS pieces_affected,
+    COALESCE(max(s.total), 0) AS qc_submissions,
+    CASE WHEN COALESCE(max(s.total), 0) = 0 THEN NULL
+         ELSE round(count(*)::numeric / max(s.total), 3)
+    END AS defect_rate
+  FROM public.qc_defects d
+  JOIN public.qc_defect_codes c ON c.code = d.defect_code
+  LEFT JOIN submissions s
+    ON s.manufacturer_id IS NOT DISTINCT FROM d.manufacturer_id
+   AND s.print_method IS NOT DISTINCT FROM d.print_method
+  WHERE _since IS NULL OR d.created_at >= _since
+  GROUP BY d.manufacturer_id, d.print_method, d.defect_code, c.category
+  ORDER BY defect_count DESC;
+END;
+$function$;
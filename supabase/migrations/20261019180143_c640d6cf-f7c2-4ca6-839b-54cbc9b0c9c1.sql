@@ -0,0 +1,279 @@
+-- QC measurement checks
+-- The locked spec gains numeric print targets (width, height, offset from the placement
+-- reference, all within order_specs.tolerance_mm) and a structured size chart with garment
+-- targets per size (chest, length, sleeve, within tolerance_cm). With each QC submission
+-- the manufacturer measures sampled pieces; every piece is checked against the spec when
+-- it is recorded. A submission with a failing piece cannot be approved, and once an order
+-- has measurement targets, QC cannot be submitted without measurements.
+
+-- 1. Targets
+ALTER TABLE public.order_specs
+  ADD COLUMN IF NOT EXISTS print_width_mm numeric CHECK (print_width_mm > 0),
+  ADD COLUMN IF NOT EXISTS print_height_mm numeric CHECK (print_height_mm > 0),
+  -- Front: down from the collar seam; back: down from the back neck seam
+  ADD COLUMN IF NOT EXISTS print_offset_mm numeric CHECK (print_offset_mm >= 0);
+
+CREATE TABLE IF NOT EXISTS public.order_size_chart (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  size text NOT NULL CHECK (size = upper(btrim(size)) AND size <> ''),
+  -- Flat measurements in cm; NULL = not checked for this size
+  chest_cm numeric CHECK (chest_cm > 0),
+  length_cm numeric CHECK (length_cm > 0),
+  sleeve_cm numeric CHECK (sleeve_cm > 0),
+  tolerance_cm numeric NOT NULL DEFAULT 1.0 CHECK (tolerance_cm >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (order_id, size)
+);
+
+ALTER TABLE public.order_size_chart ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage size charts"
+ON public.order_size_chart
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view size charts for their orders"
+ON public.order_size_chart
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = order_size_chart.order_id AND o.buyer_id = auth.uid()
+));
+
+CREATE POLICY "Manufacturers can view size charts for assigned orders"
+ON public.order_size_chart
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = order_size_chart.order_id AND o.manufacturer_id = auth.uid()
+));
+
+-- The size chart is part of the locked spec
+CREATE OR REPLACE FUNCTION public.guard_locked_size_chart()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = COALESCE(NEW.order_id, OLD.order_id) AND specs_locked = true
+  ) THEN
+    RAISE EXCEPTION 'The size chart is locked with the order specs';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE TRIGGER guard_locked_size_chart
+  BEFORE INSERT OR UPDATE OR DELETE ON public.order_size_chart
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_locked_size_chart();
+
+-- Whether an order has anything to measure against
+CREATE OR REPLACE FUNCTION public.order_has_measurement_targets(_order_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (SELECT 1 FROM public.order_size_chart WHERE order_id = _order_id)
+      OR EXISTS (
+        SELECT 1 FROM public.order_specs
+        WHERE order_id = _order_id
+          AND (print_width_mm IS NOT NULL OR print_height_mm IS NOT NULL OR print_offset_mm IS NOT NULL)
+      );
+$function$;
+
+-- 2. Measurements
+CREATE TABLE IF NOT EXISTS public.qc_measurements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_qc_id uuid NOT NULL REFERENCES public.order_qc(id) ON DELETE CASCADE,
+  stage text NOT NULL CHECK (stage IN ('sample', 'bulk')),
+  size text NOT NULL,
+  piece_number integer NOT NULL CHECK (piece_number > 0),
+  chest_cm numeric,
+  length_cm numeric,
+  sleeve_cm numeric,
+  print_width_mm numeric,
+  print_height_mm numeric,
+  print_offset_mm numeric,
+  -- Set by the database
+  result text CHECK (result IN ('pass', 'fail')),
+  -- [{ "point": "chest", "measured": 53.5, "target": 52, "tolerance": 1, "deviation": 1.5 }]
+  failures jsonb NOT NULL DEFAULT '[]'::jsonb,
+  measured_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (order_qc_id, size, piece_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_measurements_order_qc ON public.qc_measurements (order_qc_id);
+CREATE INDEX IF NOT EXISTS idx_qc_measurements_order ON public.qc_measurements (order_id, stage);
+
+ALTER TABLE public.qc_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view QC measurements"
+ON public.qc_measurements
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view QC measurements on their orders"
+ON public.qc_measurements
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = qc_measurements.order_id AND o.buyer_id = auth.uid()
+));
+
+CREATE POLICY "Manufacturers can view QC measurements on their orders"
+ON public.qc_measurements
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = qc_measurements.order_id AND o.manufacturer_id = auth.uid()
+));
+
+CREATE POLICY "Manufacturers can record QC measurements"
+ON public.qc_measurements
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = qc_measurements.order_id AND o.manufacturer_id = auth.uid()
+));
+
+-- Check a measured piece against the size chart and print targets
+CREATE OR REPLACE FUNCTION public.evaluate_qc_measurement()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_qc RECORD;
+  v_chart RECORD;
+  v_specs RECORD;
+  v_has_chart boolean;
+  v_failures jsonb := '[]'::jsonb;
+  v_point RECORD;
+BEGIN
+  SELECT order_id, stage INTO v_qc FROM public.order_qc WHERE id = NEW.order_qc_id;
+  IF NOT FOUND OR v_qc.order_id <> NEW.order_id OR v_qc.stage <> NEW.stage THEN
+    RAISE EXCEPTION 'Measurements must belong to a % QC submission of this order', NEW.stage;
+  END IF;
+
+  NEW.size := upper(btrim(NEW.size));
+
+  SELECT EXISTS (SELECT 1 FROM public.order_size_chart WHERE order_id = NEW.order_id) INTO v_has_chart;
+  SELECT * INTO v_chart FROM public.order_size_chart WHERE order_id = NEW.order_id AND size = NEW.size;
+  IF v_has_chart AND v_chart.id IS NULL THEN
+    RAISE EXCEPTION 'Size % is not on the locked size chart', NEW.size;
+  END IF;
+
+  SELECT print_width_mm, print_height_mm, print_offset_mm, tolerance_mm INTO v_specs
+  FROM public.order_specs WHERE order_id = NEW.order_id;
+
+  FOR v_point IN
+    SELECT * FROM (VALUES
+      ('chest', NEW.chest_cm, v_chart.chest_cm, v_chart.tolerance_cm),
+      ('length', NEW.length_cm, v_chart.length_cm, v_chart.tolerance_cm),
+      ('sleeve', NEW.sleeve_cm, v_chart.sleeve_cm, v_chart.tolerance_cm),
+      ('print_width', NEW.print_width_mm, v_specs.print_width_mm, v_specs.tolerance_mm),
+      ('print_height', NEW.print_height_mm, v_specs.print_height_mm, v_specs.tolerance_mm),
+      ('print_offset', NEW.print_offset_mm, v_specs.print_offset_mm, v_specs.tolerance_mm)
+    ) AS p(point, measured, target, tolerance)
+    WHERE p.target IS NOT NULL
+  LOOP
+    IF v_point.measured IS NULL THEN
+      RAISE EXCEPTION 'Measure % for size % piece %', replace(v_point.point, '_', ' '), NEW.size, NEW.piece_number;
+    END IF;
+    IF abs(v_point.measured - v_point.target) > v_point.tolerance THEN
+      v_failures := v_failures || jsonb_build_object(
+        'point', v_point.point,
+        'measured', v_point.measured,
+        'target', v_point.target,
+        'tolerance', v_point.tolerance,
+        'deviation', v_point.measured - v_point.target
+      );
+    END IF;
+  END LOOP;
+
+  NEW.failures := v_failures;
+  NEW.result := CASE WHEN jsonb_array_length(v_failures) = 0 THEN 'pass' ELSE 'fail' END;
+  NEW.measured_by := auth.uid();
+  NEW.created_at := now();
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER evaluate_qc_measurement
+  BEFORE INSERT ON public.qc_measurements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.evaluate_qc_measurement();
+
+-- 3. Gate QC submission and approval on the latest submission's measurements
+CREATE OR REPLACE FUNCTION public.enforce_qc_measurements()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_stage text;
+  v_submitting boolean;
+  v_qc_id uuid;
+  v_pieces integer;
+  v_failed integer;
+BEGIN
+  IF NEW.order_state IS NOT DISTINCT FROM OLD.order_state
+     AND (NEW.bulk_qc_approved_at IS NULL OR OLD.bulk_qc_approved_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.order_state IN ('SAMPLE_QC_UPLOADED', 'BULK_QC_UPLOADED') AND NEW.order_state IS DISTINCT FROM OLD.order_state THEN
+    v_submitting := true;
+    v_stage := CASE NEW.order_state WHEN 'SAMPLE_QC_UPLOADED' THEN 'sample' ELSE 'bulk' END;
+  ELSIF NEW.order_state = 'SAMPLE_APPROVED' AND OLD.order_state = 'SAMPLE_QC_UPLOADED' THEN
+    v_submitting := false;
+    v_stage := 'sample';
+  ELSIF (NEW.bulk_qc_approved_at IS NOT NULL AND OLD.bulk_qc_approved_at IS NULL)
+     OR (NEW.order_state = 'READY_FOR_DISPATCH' AND OLD.order_state = 'BULK_QC_UPLOADED') THEN
+    v_submitting := false;
+    v_stage := 'bulk';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_qc_id
+  FROM public.order_qc
+  WHERE order_id = NEW.id AND stage = v_stage
+  ORDER BY created_at DESC NULLS LAST
+  LIMIT 1;
+
+  SELECT count(*), count(*) FILTER (WHERE result = 'fail') INTO v_pieces, v_failed
+  FROM public.qc_measurements
+  WHERE order_qc_id = v_qc_id;
+
+  IF v_submitting THEN
+    IF v_pieces = 0 AND public.order_has_measurement_targets(NEW.id) THEN
+      RAISE EXCEPTION 'Submit the measurement sheet with the % QC - this order has measurement targets', v_stage;
+    END IF;
+  ELSIF v_failed > 0 THEN
+    RAISE EXCEPTION '% QC cannot be approved: % of % measured pieces are out of tolerance',
+      initcap(v_stage), v_failed, v_pieces;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_qc_measurements
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_qc_measurements();
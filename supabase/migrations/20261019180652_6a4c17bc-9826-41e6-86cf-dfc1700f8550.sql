@@ -0,0 +1,297 @@
+-- Sample revision rounds
+-- Every sample QC submission opens a revision round (R1, R2, ...) that keeps its own QC
+-- evidence, the buyer's decision, feedback and timestamps - the order row only holds the
+-- latest round. A configurable policy caps the rounds: when the last allowed round is
+-- rejected the order is escalated to a dispute, and no further round can be submitted
+-- until an admin resolves it.
+
+-- 1. Max-revisions policies (optionally scoped to order_mode and/or buyer_type, like SLA policies)
+CREATE TABLE IF NOT EXISTS public.sample_revision_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  order_mode public.order_mode,
+  buyer_type public.buyer_type,
+  max_revisions integer NOT NULL CHECK (max_revisions > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sample_revision_policies_scope_unique
+  ON public.sample_revision_policies (COALESCE(order_mode::text, '*'), COALESCE(buyer_type::text, '*'))
+  WHERE is_active;
+
+ALTER TABLE public.sample_revision_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage sample revision policies"
+ON public.sample_revision_policies
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view sample revision policies"
+ON public.sample_revision_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_sample_revision_policies_updated_at
+  BEFORE UPDATE ON public.sample_revision_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.sample_revision_policies (name, max_revisions) VALUES
+  ('Default sample revisions', 3)
+ON CONFLICT DO NOTHING;
+
+-- Most specific active policy wins (order_mode + buyer_type > one of them > default)
+CREATE OR REPLACE FUNCTION public.get_max_sample_revisions(_order_id uuid)
+ RETURNS integer
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT p.max_revisions
+  FROM public.orders o
+  JOIN public.sample_revision_policies p
+    ON p.is_active
+   AND (p.order_mode IS NULL OR p.order_mode = o.order_mode)
+   AND (p.buyer_type IS NULL OR p.buyer_type = o.buyer_type)
+  WHERE o.id = _order_id
+  ORDER BY (p.order_mode IS NOT NULL) DESC, (p.buyer_type IS NOT NULL) DESC
+  LIMIT 1;
+$function$;
+
+-- 2. Revision rounds
+CREATE TABLE IF NOT EXISTS public.sample_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  round integer NOT NULL CHECK (round > 0),
+  order_qc_id uuid UNIQUE REFERENCES public.order_qc(id) ON DELETE SET NULL,
+  video_path text,
+  file_urls text[] NOT NULL DEFAULT '{}',
+  submitted_by uuid,
+  submitted_at timestamp with time zone NOT NULL DEFAULT now(),
+  decision text NOT NULL DEFAULT 'pending'
+    CHECK (decision IN ('pending', 'approved', 'rejected', 'revision_requested')),
+  feedback text,
+  feedback_structured text,
+  decided_by uuid,
+  decided_at timestamp with time zone,
+  -- Set when rejecting this round used up the last allowed revision
+  escalated_at timestamp with time zone,
+  dispute_id uuid REFERENCES public.disputes(id) ON DELETE SET NULL,
+  UNIQUE (order_id, round)
+);
+
+ALTER TABLE public.sample_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sample revisions"
+ON public.sample_revisions
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Buyers can view sample revisions on their orders"
+ON public.sample_revisions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = sample_revisions.order_id AND o.buyer_id = auth.uid()
+));
+
+CREATE POLICY "Manufacturers can view sample revisions on their orders"
+ON public.sample_revisions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = sample_revisions.order_id AND o.manufacturer_id = auth.uid()
+));
+
+-- Backfill rounds from earlier sample QC submissions. Superseded submissions were sent back
+-- through the rejection loop; the latest one takes its decision from the order.
+INSERT INTO public.sample_revisions (
+  order_id, round, order_qc_id, video_path, file_urls, submitted_by, submitted_at,
+  decision, feedback, feedback_structured, decided_at
+)
+SELECT
+  q.order_id,
+  q.round,
+  q.id,
+  (SELECT f FROM unnest(q.file_urls) f WHERE f ~* '\.(mp4|mov|webm|quicktime)$' LIMIT 1),
+  COALESCE(q.file_urls, '{}'),
+  q.reviewer_id,
+  COALESCE(q.created_at, now()),
+  CASE
+    WHEN q.round < q.rounds THEN 'rejected'
+    WHEN o.sample_approved_at IS NOT NULL THEN 'approved'
+    WHEN o.order_state = 'SAMPLE_QC_UPLOADED' THEN 'pending'
+    WHEN o.sample_status = 'revision_requested' THEN 'revision_requested'
+    WHEN o.sample_status = 'rejected' THEN 'rejected'
+    ELSE 'pending'
+  END,
+  CASE WHEN q.round = q.rounds AND o.sample_approved_at IS NULL AND o.order_state <> 'SAMPLE_QC_UPLOADED'
+       THEN o.qc_feedback END,
+  CASE WHEN q.round = q.rounds AND o.sample_approved_at IS NULL AND o.order_state <> 'SAMPLE_QC_UPLOADED'
+       THEN o.qc_feedback_structured END,
+  CASE WHEN q.round = q.rounds THEN o.sample_approved_at END
+FROM (
+  SELECT qc.*,
+         row_number() OVER (PARTITION BY qc.order_id ORDER BY qc.created_at NULLS FIRST, qc.id)::integer AS round,
+         count(*) OVER (PARTITION BY qc.order_id)::integer AS rounds
+  FROM public.order_qc qc
+  WHERE qc.stage = 'sample'
+) q
+JOIN public.orders o ON o.id = q.order_id
+ON CONFLICT DO NOTHING;
+
+-- 3. A sample QC submission opens the next round (blocked while an escalation is open)
+CREATE OR REPLACE FUNCTION public.open_sample_revision()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_round integer;
+BEGIN
+  IF NEW.stage <> 'sample' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.sample_revisions r
+    JOIN public.disputes d ON d.id = r.dispute_id
+    WHERE r.order_id = NEW.order_id AND COALESCE(d.status, 'open') <> 'resolved'
+  ) THEN
+    RAISE EXCEPTION 'The sample reached its revision limit and is in dispute - a new round can be submitted once the dispute is resolved';
+  END IF;
+
+  SELECT COALESCE(max(round), 0) + 1 INTO v_round
+  FROM public.sample_revisions
+  WHERE order_id = NEW.order_id;
+
+  -- A round left undecided is superseded by the new submission
+  UPDATE public.sample_revisions
+  SET decision = 'revision_requested', decided_at = COALESCE(NEW.created_at, now())
+  WHERE order_id = NEW.order_id AND decision = 'pending';
+
+  INSERT INTO public.sample_revisions (order_id, round, order_qc_id, video_path, file_urls, submitted_by, submitted_at)
+  VALUES (
+    NEW.order_id,
+    v_round,
+    NEW.id,
+    (SELECT f FROM unnest(NEW.file_urls) f WHERE f ~* '\.(mp4|mov|webm|quicktime)$' LIMIT 1),
+    COALESCE(NEW.file_urls, '{}'),
+    COALESCE(NEW.reviewer_id, auth.uid()),
+    COALESCE(NEW.created_at, now())
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER open_sample_revision
+  AFTER INSERT ON public.order_qc
+  FOR EACH ROW
+  EXECUTE FUNCTION public.open_sample_revision();
+
+-- 4. The buyer's (or admin's) decision closes the round; rejecting the last allowed round escalates
+CREATE OR REPLACE FUNCTION public.close_sample_revision()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_revision RECORD;
+  v_decision text;
+  v_max integer;
+  v_dispute_id uuid;
+BEGIN
+  IF OLD.order_state IS DISTINCT FROM 'SAMPLE_QC_UPLOADED'
+     OR NEW.order_state NOT IN ('SAMPLE_APPROVED', 'SAMPLE_IN_PROGRESS') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM public.sample_revisions
+  WHERE order_id = NEW.id AND decision = 'pending'
+  ORDER BY round DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  v_decision := CASE
+    WHEN NEW.order_state = 'SAMPLE_APPROVED' THEN 'approved'
+    WHEN NEW.sample_status = 'revision_requested' THEN 'revision_requested'
+    ELSE 'rejected'
+  END;
+
+  UPDATE public.sample_revisions
+  SET decision = v_decision,
+      feedback = CASE v_decision
+        WHEN 'approved' THEN NULL
+        WHEN 'revision_requested' THEN COALESCE(NEW.concern_notes, NEW.qc_feedback)
+        ELSE COALESCE(NEW.rejection_reason, NEW.qc_feedback)
+      END,
+      feedback_structured = CASE WHEN v_decision = 'rejected' THEN NEW.qc_feedback_structured END,
+      decided_by = auth.uid(),
+      decided_at = now()
+  WHERE id = v_revision.id;
+
+  IF v_decision = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  v_max := public.get_max_sample_revisions(NEW.id);
+  IF v_max IS NULL OR v_revision.round < v_max THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.disputes (order_id, raised_by, reason, status)
+  VALUES (
+    NEW.id,
+    COALESCE(auth.uid(), NEW.buyer_id),
+    format('Sample not approved after %s revision rounds (limit %s). Last feedback: %s',
+           v_revision.round, v_max, COALESCE(NEW.qc_feedback, 'none')),
+    'open'
+  )
+  RETURNING id INTO v_dispute_id;
+
+  UPDATE public.sample_revisions
+  SET escalated_at = now(), dispute_id = v_dispute_id
+  WHERE id = v_revision.id;
+
+  INSERT INTO public.notifications (user_id, order_id, type, title, message)
+  SELECT recipient, NEW.id, 'sample_revision_escalated',
+         'Sample escalated to dispute',
+         format('Sample round R%s of order %s was not approved and the order reached its limit of %s revisions. An admin will review the dispute.',
+                v_revision.round, left(NEW.id::text, 8), v_max)
+  FROM (
+    SELECT user_id AS recipient FROM public.user_roles WHERE role = 'admin'::app_role
+    UNION
+    SELECT NEW.buyer_id
+    UNION
+    SELECT NEW.manufacturer_id WHERE NEW.manufacturer_id IS NOT NULL
+  ) recipients;
+
+  INSERT INTO public.order_events (order_id, event_type, metadata)
+  VALUES (NEW.id, 'sample_revision_escalated', jsonb_build_object(
+    'revision_id', v_revision.id,
+    'round', v_revision.round,
+    'max_revisions', v_max,
+    'dispute_id', v_dispute_id
+  ));
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER close_sample_revision
+  AFTER UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_sample_revision();
@@ -0,0 +1,527 @@
+-- Admin QC review queue
+-- QC submissions waiting for an admin decision are worked from a shared queue: a reviewer
+-- claims a submission (or an admin assigns it), decides it through decide_qc_review, and
+-- orders above a configurable value need a second admin to sign off the approval
+-- (four-eyes). Turnaround per reviewer is reported by get_qc_review_metrics.
+-- QC decisions are only made through decide_qc_review; QC uploaded without a record is
+-- opened as a submission with open_qc_review and decided through the queue.
+
+-- 1. Four-eyes thresholds (optionally scoped to order_mode and/or buyer_type, like SLA policies)
+CREATE TABLE IF NOT EXISTS public.qc_review_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  order_mode public.order_mode,
+  buyer_type public.buyer_type,
+  -- Orders worth at least this much need a second reviewer to approve QC
+  second_review_min_value numeric NOT NULL CHECK (second_review_min_value >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS qc_review_policies_scope_unique
+  ON public.qc_review_policies (COALESCE(order_mode::text, '*'), COALESCE(buyer_type::text, '*'))
+  WHERE is_active;
+
+ALTER TABLE public.qc_review_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage QC review policies"
+ON public.qc_review_policies
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view QC review policies"
+ON public.qc_review_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_qc_review_policies_updated_at
+  BEFORE UPDATE ON public.qc_review_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.qc_review_policies (name, second_review_min_value) VALUES
+  ('Default four-eyes threshold', 100000)
+ON CONFLICT DO NOTHING;
+
+-- Most specific active policy wins (order_mode + buyer_type > one of them > default)
+CREATE OR REPLACE FUNCTION public.qc_second_review_required(_order_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE((
+    SELECT COALESCE(o.total_order_value, o.total_amount, 0) >= p.second_review_min_value
+    FROM public.orders o
+    JOIN public.qc_review_policies p
+      ON p.is_active
+     AND (p.order_mode IS NULL OR p.order_mode = o.order_mode)
+     AND (p.buyer_type IS NULL OR p.buyer_type = o.buyer_type)
+    WHERE o.id = _order_id
+    ORDER BY (p.order_mode IS NOT NULL) DESC, (p.buyer_type IS NOT NULL) DESC
+    LIMIT 1
+  ), false);
+$function$;
+
+-- 2. Assignment and four-eyes state on QC submissions
+ALTER TABLE public.order_qc
+  ADD COLUMN IF NOT EXISTS assigned_to uuid,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS assigned_by uuid,
+  ADD COLUMN IF NOT EXISTS second_review_required boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS first_approval_by uuid,
+  ADD COLUMN IF NOT EXISTS first_approval_at timestamp with time zone;
+
+-- A first approval on a four-eyes submission parks it until a second admin signs off
+ALTER TABLE public.order_qc DROP CONSTRAINT IF EXISTS order_qc_admin_decision_check;
+ALTER TABLE public.order_qc
+  ADD CONSTRAINT order_qc_admin_decision_check
+  CHECK (admin_decision IN ('approved', 'rejected', 'pending', 'awaiting_second_review'));
+
+CREATE INDEX IF NOT EXISTS idx_order_qc_assigned_to ON public.order_qc(assigned_to);
+
+CREATE OR REPLACE FUNCTION public.set_qc_second_review_required()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.second_review_required := public.qc_second_review_required(NEW.order_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_qc_second_review_required
+  BEFORE INSERT ON public.order_qc
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_qc_second_review_required();
+
+-- Submissions already waiting for a decision follow the threshold too
+UPDATE public.order_qc
+SET second_review_required = public.qc_second_review_required(order_id)
+WHERE admin_decision = 'pending';
+
+-- 3. Claim, assign and release
+-- _assignee defaults to the caller (claim); another admin's submission can only be
+-- taken over by assigning it explicitly
+CREATE OR REPLACE FUNCTION public.claim_qc_review(_qc_id uuid, _assignee uuid DEFAULT NULL)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_qc public.order_qc%ROWTYPE;
+  v_assignee uuid := COALESCE(_assignee, auth.uid());
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can claim QC reviews';
+  END IF;
+  IF NOT has_role(v_assignee, 'admin'::app_role) THEN
+    RAISE EXCEPTION 'QC reviews can only be assigned to admins';
+  END IF;
+
+  SELECT * INTO v_qc FROM public.order_qc WHERE id = _qc_id FOR UPDATE;
+  IF v_qc.id IS NULL THEN
+    RAISE EXCEPTION 'QC submission not found';
+  END IF;
+  IF COALESCE(v_qc.admin_decision, 'pending') NOT IN ('pending', 'awaiting_second_review') THEN
+    RAISE EXCEPTION 'This QC submission has already been decided';
+  END IF;
+  IF _assignee IS NULL AND v_qc.assigned_to IS NOT NULL AND v_qc.assigned_to <> v_assignee THEN
+    RAISE EXCEPTION 'This QC submission is already claimed by another reviewer';
+  END IF;
+  IF v_qc.admin_decision = 'awaiting_second_review' AND v_qc.first_approval_by = v_assignee THEN
+    RAISE EXCEPTION 'The second sign-off must come from a different admin than the first approval';
+  END IF;
+
+  UPDATE public.order_qc
+  SET assigned_to = v_assignee,
+      assigned_at = now(),
+      assigned_by = auth.uid()
+  WHERE id = _qc_id;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (v_qc.order_id, 'qc_review_claimed', now(), jsonb_build_object(
+    'qc_record_id', v_qc.id,
+    'stage', v_qc.stage,
+    'assigned_to', v_assignee,
+    'assigned_by', auth.uid()
+  ));
+
+  IF v_assignee <> auth.uid() THEN
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    VALUES (v_assignee, v_qc.order_id, 'qc_review_assigned', 'QC review assigned to you',
+      format('The %s QC of order %s was assigned to you for review.', v_qc.stage, left(v_qc.order_id::text, 8)));
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.release_qc_review(_qc_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can release QC reviews';
+  END IF;
+
+  UPDATE public.order_qc
+  SET assigned_to = NULL, assigned_at = NULL, assigned_by = NULL
+  WHERE id = _qc_id;
+END;
+$function$;
+
+-- 4. Decide a submission. Returns the resulting admin_decision: approving a four-eyes
+-- submission the first time returns 'awaiting_second_review'.
+-- Decision and four-eyes columns can only be written here: the admin (and manufacturer)
+-- policies on order_qc allow updates, so decide_qc_review marks its own writes with a
+-- transaction-local setting and protect_qc_review_decision rejects the rest.
+CREATE OR REPLACE FUNCTION public.protect_qc_review_decision()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF current_setting('app.qc_review_decision', true) IS NOT DISTINCT FROM 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.admin_decision, 'pending') <> 'pending'
+       OR NEW.admin_decision_by IS NOT NULL
+       OR NEW.first_approval_by IS NOT NULL THEN
+      RAISE EXCEPTION 'New QC submissions must be pending - decide them through the QC review queue';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.admin_decision IS DISTINCT FROM OLD.admin_decision
+     OR NEW.admin_decision_by IS DISTINCT FROM OLD.admin_decision_by
+     OR NEW.admin_decision_at IS DISTINCT FROM OLD.admin_decision_at
+     OR NEW.second_review_required IS DISTINCT FROM OLD.second_review_required
+     OR NEW.first_approval_by IS DISTINCT FROM OLD.first_approval_by
+     OR NEW.first_approval_at IS DISTINCT FROM OLD.first_approval_at THEN
+    RAISE EXCEPTION 'QC decisions can only be made through the QC review queue';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS protect_qc_review_decision ON public.order_qc;
+CREATE TRIGGER protect_qc_review_decision
+  BEFORE INSERT OR UPDATE ON public.order_qc
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_qc_review_decision();
+
+CREATE OR REPLACE FUNCTION public.decide_qc_review(_qc_id uuid, _decision text, _notes text DEFAULT NULL)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_qc public.order_qc%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_notes text := NULLIF(trim(COALESCE(_notes, '')), '');
+  v_required boolean;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can decide QC reviews';
+  END IF;
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be approved or rejected';
+  END IF;
+
+  SELECT * INTO v_qc FROM public.order_qc WHERE id = _qc_id FOR UPDATE;
+  IF v_qc.id IS NULL THEN
+    RAISE EXCEPTION 'QC submission not found';
+  END IF;
+  IF COALESCE(v_qc.admin_decision, 'pending') NOT IN ('pending', 'awaiting_second_review') THEN
+    RAISE EXCEPTION 'This QC submission has already been decided';
+  END IF;
+  IF v_qc.assigned_to IS NOT NULL AND v_qc.assigned_to <> auth.uid() THEN
+    RAISE EXCEPTION 'This QC submission is claimed by another reviewer';
+  END IF;
+  IF v_qc.admin_decision = 'awaiting_second_review' AND v_qc.first_approval_by = auth.uid() THEN
+    RAISE EXCEPTION 'The second sign-off must come from a different admin than the first approval';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_qc.order_id;
+
+  -- Lets protect_qc_review_decision / enforce_qc_second_review accept the writes below
+  PERFORM set_config('app.qc_review_decision', 'on', true);
+
+  IF _decision = 'rejected' THEN
+    IF v_notes IS NULL THEN
+      RAISE EXCEPTION 'Notes are required to reject QC';
+    END IF;
+
+    UPDATE public.order_qc
+    SET admin_decision = 'rejected',
+        admin_decision_by = auth.uid(),
+        admin_decision_at = now(),
+        admin_notes = v_notes,
+        assigned_to = NULL
+    WHERE id = _qc_id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (v_qc.order_id, 'admin_qc_rejected', now(), jsonb_build_object(
+      'decision', 'rejected',
+      'notes', v_notes,
+      'decided_by', auth.uid(),
+      'first_approval_by', v_qc.first_approval_by,
+      'qc_record_id', v_qc.id
+    ));
+
+    IF v_order.manufacturer_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, order_id, type, title, message)
+      VALUES (v_order.manufacturer_id, v_qc.order_id, 'admin_qc_rejected', 'QC rejected by admin',
+        format('The %s QC of order %s was rejected: %s', v_qc.stage, left(v_qc.order_id::text, 8), v_notes));
+    END IF;
+
+    PERFORM set_config('app.qc_review_decision', 'off', true);
+    RETURN 'rejected';
+  END IF;
+
+  -- Re-check the threshold: the order value or the policy may have changed since submission
+  v_required := v_qc.second_review_required OR public.qc_second_review_required(v_qc.order_id);
+
+  IF v_required AND COALESCE(v_qc.admin_decision, 'pending') = 'pending' THEN
+    UPDATE public.order_qc
+    SET admin_decision = 'awaiting_second_review',
+        second_review_required = true,
+        first_approval_by = auth.uid(),
+        first_approval_at = now(),
+        admin_notes = v_notes,
+        assigned_to = NULL,
+        assigned_at = NULL,
+        assigned_by = NULL
+    WHERE id = _qc_id;
+
+    INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+    VALUES (v_qc.order_id, 'admin_qc_first_approval', now(), jsonb_build_object(
+      'notes', v_notes,
+      'approved_by', auth.uid(),
+      'order_value', COALESCE(v_order.total_order_value, v_order.total_amount),
+      'qc_record_id', v_qc.id
+    ));
+
+    INSERT INTO public.notifications (user_id, order_id, type, title, message)
+    SELECT ur.user_id, v_qc.order_id, 'qc_second_review_required', 'QC needs a second sign-off',
+      format('The %s QC of order %s was approved once and needs a second admin to sign off.',
+             v_qc.stage, left(v_qc.order_id::text, 8))
+    FROM public.user_roles ur
+    WHERE ur.role = 'admin'::app_role AND ur.user_id <> auth.uid();
+
+    PERFORM set_config('app.qc_review_decision', 'off', true);
+    RETURN 'awaiting_second_review';
+  END IF;
+
+  UPDATE public.order_qc
+  SET admin_decision = 'approved',
+      admin_decision_by = auth.uid(),
+      admin_decision_at = now(),
+      admin_notes = COALESCE(v_notes, admin_notes),
+      assigned_to = NULL
+  WHERE id = _qc_id;
+
+  UPDATE public.orders
+  SET admin_qc_approved = true,
+      admin_qc_approved_at = now(),
+      admin_qc_approved_by = auth.uid(),
+      updated_at = now()
+  WHERE id = v_qc.order_id;
+
+  INSERT INTO public.order_events (order_id, event_type, event_timestamp, metadata)
+  VALUES (v_qc.order_id, 'admin_qc_approved', now(), jsonb_build_object(
+    'decision', 'approved',
+    'notes', v_notes,
+    'decided_by', auth.uid(),
+    'first_approval_by', v_qc.first_approval_by,
+    'qc_record_id', v_qc.id
+  ));
+
+  PERFORM set_config('app.qc_review_decision', 'off', true);
+  RETURN 'approved';
+END;
+$function$;
+
+-- 5. Admin QC approval outside decide_qc_review: blocked while a four-eyes submission is open,
+-- and for orders above the threshold even when QC was uploaded without a record
+CREATE OR REPLACE FUNCTION public.enforce_qc_second_review()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.admin_qc_approved IS TRUE AND OLD.admin_qc_approved IS NOT TRUE
+     AND current_setting('app.qc_review_decision', true) IS DISTINCT FROM 'on'
+     AND (
+       public.qc_second_review_required(NEW.id)
+       OR EXISTS (
+         SELECT 1 FROM public.order_qc q
+         WHERE q.order_id = NEW.id
+           AND q.second_review_required
+           AND COALESCE(q.admin_decision, 'pending') IN ('pending', 'awaiting_second_review')
+       )
+     ) THEN
+    RAISE EXCEPTION 'QC on this order needs approval from two admins - use the QC review queue';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_qc_second_review
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_qc_second_review();
+
+-- Open submission for the order's current QC stage, created when QC was uploaded without
+-- a record (or the record was never put up for admin review) so it is decided in the queue
+CREATE OR REPLACE FUNCTION public.open_qc_review(_order_id uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_stage text;
+  v_qc_id uuid;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can open QC reviews';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.sample_qc_uploaded_at IS NULL AND v_order.bulk_qc_uploaded_at IS NULL THEN
+    RAISE EXCEPTION 'No QC has been uploaded for this order';
+  END IF;
+
+  v_stage := CASE
+    WHEN v_order.order_state = 'BULK_QC_UPLOADED' THEN 'bulk'
+    WHEN v_order.order_state = 'SAMPLE_QC_UPLOADED' THEN 'sample'
+    WHEN v_order.bulk_qc_uploaded_at IS NOT NULL THEN 'bulk'
+    ELSE 'sample'
+  END;
+
+  SELECT id INTO v_qc_id
+  FROM public.order_qc
+  WHERE order_id = _order_id
+    AND stage = v_stage
+    AND admin_decision IN ('pending', 'awaiting_second_review')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_qc_id IS NOT NULL THEN
+    RETURN v_qc_id;
+  END IF;
+
+  INSERT INTO public.order_qc (order_id, stage, decision, reviewer, reviewer_id, notes, admin_decision)
+  VALUES (_order_id, v_stage, 'pending', 'admin', auth.uid(),
+    'Opened for admin review - QC was uploaded without a QC record', 'pending')
+  RETURNING id INTO v_qc_id;
+
+  RETURN v_qc_id;
+END;
+$function$;
+
+-- 6. Admins who can review (profiles are private to their owner, so names come from here)
+CREATE OR REPLACE FUNCTION public.get_qc_reviewers()
+ RETURNS TABLE(user_id uuid, email text, company_name text)
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can list QC reviewers';
+  END IF;
+
+  RETURN QUERY
+  SELECT ur.user_id, p.email, p.company_name
+  FROM public.user_roles ur
+  LEFT JOIN public.profiles p ON p.id = ur.user_id
+  WHERE ur.role = 'admin'::app_role
+  ORDER BY p.email;
+END;
+$function$;
+
+-- 7. Review turnaround per reviewer (admin analytics)
+-- Turnaround = QC submission to final decision; response = submission to the reviewer's
+-- own action (first approvals included). The row with reviewer_id NULL is the total.
+CREATE OR REPLACE FUNCTION public.get_qc_review_metrics(_since timestamp with time zone DEFAULT NULL)
+ RETURNS TABLE(
+   reviewer_id uuid,
+   decisions bigint,
+   approvals bigint,
+   rejections bigint,
+   first_approvals bigint,
+   second_signoffs bigint,
+   avg_response_hours numeric,
+   avg_turnaround_hours numeric,
+   median_turnaround_hours numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view QC review metrics';
+  END IF;
+
+  RETURN QUERY
+  WITH actions AS (
+    SELECT
+      q.admin_decision_by AS reviewer,
+      q.admin_decision AS action,
+      (q.first_approval_by IS NOT NULL) AS after_first_approval,
+      extract(epoch FROM (q.admin_decision_at - q.created_at)) / 3600 AS hours
+    FROM public.order_qc q
+    WHERE q.admin_decision IN ('approved', 'rejected')
+      AND q.admin_decision_by IS NOT NULL
+      AND q.admin_decision_at IS NOT NULL
+      AND (_since IS NULL OR q.admin_decision_at >= _since)
+    UNION ALL
+    SELECT
+      q.first_approval_by,
+      'first_approval',
+      false,
+      extract(epoch FROM (q.first_approval_at - q.created_at)) / 3600
+    FROM public.order_qc q
+    WHERE q.first_approval_by IS NOT NULL
+      AND q.first_approval_at IS NOT NULL
+      AND (_since IS NULL OR q.first_approval_at >= _since)
+  )
+  SELECT
+    a.reviewer,
+    count(*) FILTER (WHERE a.action <> 'first_approval'),
+    count(*) FILTER (WHERE a.action = 'approved'),
+    count(*) FILTER (WHERE a.action = 'rejected'),
+    count(*) FILTER (WHERE a.action = 'first_approval'),
+    count(*) FILTER (WHERE a.action = 'approved' AND a.after_first_approval),
+    round(avg(a.hours)::numeric, 1),
+    round((avg(a.hours) FILTER (WHERE a.action <> 'first_approval'))::numeric, 1),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY a.hours) FILTER (WHERE a.action <> 'first_approval'))::numeric, 1)
+  FROM actions a
+  GROUP BY GROUPING SETS ((a.reviewer), ())
+  ORDER BY a.reviewer NULLS FIRST;
+END;
+$function$;